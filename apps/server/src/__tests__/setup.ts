@@ -97,6 +97,23 @@ export const testUtils = {
 					data: Buffer.from('test-data'),
 				}),
 			},
+			jobs: {
+				createJob: vi.fn().mockResolvedValue({
+					id: 'test-export-id',
+					organizationId: 'test-org',
+					requestedBy: 'test-user',
+					status: 'pending',
+					format: 'json',
+					compression: 'none',
+					includeMetadata: true,
+					filter: {},
+					progress: 0,
+					createdAt: new Date().toISOString(),
+				}),
+				getJob: vi.fn(),
+				listJobs: vi.fn().mockResolvedValue([]),
+				cancelJob: vi.fn(),
+			},
 			gdpr: {
 				exportUserData: vi.fn().mockResolvedValue({
 					requestId: 'test-request-id',
@@ -18,6 +18,7 @@ import {
 	errorRateMonitoring,
 	performanceMonitoring,
 	requestMetrics,
+	traceContext,
 } from './lib/middleware/monitoring.js'
 import {
 	compressionMiddleware,
@@ -86,6 +87,7 @@ async function startServer() {
 	app.use('*', concurrencyLimitMiddleware(200)) // 200 concurrent requests
 
 	// Add monitoring middleware
+	app.use('*', traceContext())
 	app.use('*', requestMetrics())
 	app.use('*', performanceMonitoring({ threshold: 1000, alertOnSlow: true }))
 	app.use('*', errorRateMonitoring({ windowSize: 300000, threshold: 0.1 }))
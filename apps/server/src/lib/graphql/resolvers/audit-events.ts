@@ -6,12 +6,25 @@
 import { and, asc, count, desc, eq, gte, inArray, isNotNull, lte } from 'drizzle-orm'
 import { GraphQLError } from 'graphql'
 
+import {
+	decodeEventCursor,
+	encodeEventCursor,
+	eventCursorCondition,
+	EventCursorError,
+	eventCursorOrderBy,
+} from '@repo/audit'
 import { auditLog } from '@repo/audit-db'
 
-import type { AuditEventStatus, DataClassification } from '@repo/audit'
+import type {
+	AuditEventStatus,
+	DataClassification,
+	EventCursor,
+	EventCursorDirection,
+} from '@repo/audit'
 import type {
 	AuditEvent,
 	AuditEventFilter,
+	AuditSearchConnection,
 	CreateAuditEventInput,
 	GraphQLContext,
 	IntegrityVerificationResult,
@@ -126,6 +139,27 @@ function offsetToCursor(offset: number): string {
 	return Buffer.from(offset.toString()).toString('base64')
 }
 
+/**
+ * Read an `after` cursor: keyset cursors for timestamp ordering, offset cursors otherwise
+ * Offset cursors issued before keyset pagination are still honoured.
+ */
+function readAfterCursor(
+	after: string | undefined,
+	direction: EventCursorDirection,
+	keyset: boolean
+): { cursor?: EventCursor; offset: number } {
+	if (!after) return { offset: 0 }
+
+	if (/^\d+$/.test(Buffer.from(after, 'base64').toString('utf-8'))) {
+		return { offset: cursorToOffset(after) }
+	}
+
+	if (!keyset) {
+		throw new EventCursorError('Cursor pagination requires timestamp ordering')
+	}
+	return { cursor: decodeEventCursor(after, direction), offset: 0 }
+}
+
 export const auditEventResolvers = {
 	Query: {
 		/**
@@ -157,14 +191,16 @@ export const auditEventResolvers = {
 				// Build query conditions
 				const whereClause = await buildQueryConditions(args.filter, organizationId)
 
-				// Handle pagination
-				const limit = args.pagination?.first || 50
-				const offset = args.pagination?.after ? cursorToOffset(args.pagination.after) : 0
-
 				// Handle sorting
 				const sortField = args.sort?.field?.toLowerCase() || 'timestamp'
 				const sortDirection = args.sort?.direction || 'DESC'
 
+				// Handle pagination: timestamp ordering pages with keyset cursors
+				const limit = args.pagination?.first || 50
+				const keyset = sortField === 'timestamp'
+				const direction = sortDirection === 'ASC' ? 'asc' : 'desc'
+				const { cursor, offset } = readAfterCursor(args.pagination?.after, direction, keyset)
+
 				// Map sort fields to actual columns
 				const sortColumnMap = {
 					timestamp: auditLog.timestamp,
@@ -183,18 +219,27 @@ export const auditEventResolvers = {
 
 				const cacheKey = client.generateCacheKey('audit_events', args)
 				// Execute query
-				const events = await client.executeMonitoredQuery(
+				const rows = await client.executeMonitoredQuery(
 					(audit) =>
-						audit
-							.select()
-							.from(auditLog)
-							.where(whereClause)
-							.limit(limit)
-							.offset(offset)
-							.orderBy(orderBy),
+						keyset
+							? audit
+									.select()
+									.from(auditLog)
+									.where(cursor ? and(whereClause, eventCursorCondition(cursor)) : whereClause)
+									.orderBy(...eventCursorOrderBy(direction))
+									.limit(limit + 1)
+									.offset(offset)
+							: audit
+									.select()
+									.from(auditLog)
+									.where(whereClause)
+									.limit(limit + 1)
+									.offset(offset)
+									.orderBy(orderBy),
 					'audit_events',
 					{ cacheKey }
 				)
+				const events = rows.slice(0, limit)
 
 				const cacheKeyCount = client.generateCacheKey('audit_events_count', args)
 				// Get total count for pagination
@@ -209,12 +254,12 @@ export const auditEventResolvers = {
 				// Convert to GraphQL format
 				const edges = events.map((event, index) => ({
 					node: convertDbEventToGraphQL(event),
-					cursor: offsetToCursor(offset + index),
+					cursor: keyset ? encodeEventCursor(event, direction) : offsetToCursor(offset + index),
 				}))
 
 				const pageInfo = {
-					hasNextPage: offset + limit < totalCount,
-					hasPreviousPage: offset > 0,
+					hasNextPage: rows.length > limit,
+					hasPreviousPage: cursor !== undefined || offset > 0,
 					startCursor: edges.length > 0 ? edges[0].cursor : undefined,
 					endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : undefined,
 				}
@@ -232,6 +277,12 @@ export const auditEventResolvers = {
 					totalCount,
 				}
 			} catch (e) {
+				if (e instanceof EventCursorError) {
+					throw new GraphQLError(e.message, {
+						extensions: { code: 'BAD_REQUEST' },
+					})
+				}
+
 				const message = e instanceof Error ? e.message : 'Unknown error'
 				logger.error(`Failed to query audit events via GraphQL: ${message}`)
 
@@ -258,6 +309,107 @@ export const auditEventResolvers = {
 			}
 		},
 
+		/**
+		 * Full-text search across action, outcome, target resource, principal and details
+		 */
+		searchAuditEvents: async (
+			_: any,
+			args: {
+				query: string
+				filter?: AuditEventFilter
+				pagination?: PaginationInput
+			},
+			context: GraphQLContext
+		): Promise<AuditSearchConnection> => {
+			const { search, logger, error } = context.services
+
+			// Check authentication
+			if (!context.session) {
+				throw new GraphQLError('Authentication required', {
+					extensions: { code: 'UNAUTHENTICATED' },
+				})
+			}
+
+			if (!args.query.trim()) {
+				throw new GraphQLError('Search query must not be empty', {
+					extensions: { code: 'BAD_REQUEST' },
+				})
+			}
+
+			const organizationId = context.session.session.activeOrganizationId as string
+
+			try {
+				const limit = Math.min(args.pagination?.first || 50, 1000)
+				const offset = args.pagination?.after ? cursorToOffset(args.pagination.after) + 1 : 0
+				const { filter } = args
+
+				const result = await search.search({
+					organizationId,
+					query: args.query,
+					filter: filter && {
+						dateRange: filter.dateRange,
+						principalIds: filter.principalIds,
+						actions: filter.actions,
+						statuses: filter.statuses,
+						dataClassifications: filter.dataClassifications,
+						resourceTypes: filter.resourceTypes,
+						resourceIds: filter.resourceIds,
+						correlationIds: filter.correlationIds,
+						verifiedOnly: filter.verifiedOnly,
+					},
+					limit,
+					offset,
+				})
+
+				const edges = result.hits.map((hit, index) => ({
+					node: convertDbEventToGraphQL(hit.event),
+					cursor: offsetToCursor(offset + index),
+					rank: hit.rank,
+					snippet: hit.snippet,
+				}))
+
+				logger.info('GraphQL audit event search completed', {
+					organizationId,
+					resultCount: edges.length,
+					totalCount: result.total,
+				})
+
+				return {
+					edges,
+					pageInfo: {
+						hasNextPage: offset + limit < result.total,
+						hasPreviousPage: offset > 0,
+						startCursor: edges.length > 0 ? edges[0].cursor : undefined,
+						endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : undefined,
+					},
+					totalCount: result.total,
+				}
+			} catch (e) {
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to search audit events via GraphQL: ${message}`)
+
+				await error.handleError(
+					e as Error,
+					{
+						requestId: context.requestId,
+						userId: context.session.session.userId,
+						sessionId: context.session.session.id,
+						metadata: {
+							organizationId,
+							query: args.query,
+							filter: args.filter,
+						},
+					},
+					'graphql-api',
+					'searchAuditEvents'
+				)
+
+				throw new GraphQLError(`Failed to search audit events: ${message}`, {
+					extensions: { code: 'INTERNAL_ERROR' },
+				})
+			}
+		},
+
 		/**
 		 * Get a single audit event by ID
 		 * Requirements: 3.1, 3.2
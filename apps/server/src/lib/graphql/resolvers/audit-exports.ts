@@ -0,0 +1,240 @@
+/**
+ * Audit Export GraphQL Resolvers
+ * Asynchronous audit event exports: queue, follow, list and cancel export jobs.
+ * Finished files are downloaded over the REST API.
+ */
+
+import { GraphQLError } from 'graphql'
+
+import { ExportJobError } from '@repo/audit'
+
+import type { ExportJob } from '@repo/audit'
+import type {
+	AuditExportCompression,
+	AuditExportFormat,
+	AuditExportInput,
+	AuditExportJob,
+	AuditExportStatus,
+	GraphQLContext,
+} from '../types'
+
+/**
+ * Map an export job from the audit package to GraphQL
+ */
+function mapExportJobToGraphQL(job: ExportJob): AuditExportJob {
+	return {
+		id: job.id,
+		status: job.status.toUpperCase() as AuditExportStatus,
+		format: job.format.toUpperCase() as AuditExportFormat,
+		compression: job.compression.toUpperCase() as AuditExportCompression,
+		progress: job.progress,
+		totalRecords: job.totalRecords,
+		recordCount: job.recordCount,
+		size: job.size,
+		checksum: job.checksum,
+		filename: job.filename,
+		error: job.error,
+		requestedBy: job.requestedBy,
+		createdAt: job.createdAt,
+		startedAt: job.startedAt,
+		completedAt: job.completedAt,
+		expiresAt: job.expiresAt,
+	}
+}
+
+function requireSession(context: GraphQLContext) {
+	if (!context.session) {
+		throw new GraphQLError('Authentication required', {
+			extensions: { code: 'UNAUTHENTICATED' },
+		})
+	}
+	return context.session
+}
+
+export const auditExportResolvers = {
+	Query: {
+		/**
+		 * List recent export jobs of the organization
+		 */
+		auditExports: async (
+			_: any,
+			args: { limit?: number; offset?: number },
+			context: GraphQLContext
+		): Promise<AuditExportJob[]> => {
+			const { compliance, logger, error } = context.services
+			const session = requireSession(context)
+			const organizationId = session.session.activeOrganizationId as string
+
+			try {
+				const jobs = await compliance.jobs.listJobs(
+					organizationId,
+					Math.min(args.limit ?? 20, 100),
+					args.offset ?? 0
+				)
+				return jobs.map(mapExportJobToGraphQL)
+			} catch (e) {
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to list audit exports via GraphQL: ${message}`)
+
+				await error.handleError(
+					e as Error,
+					{
+						requestId: context.requestId,
+						userId: session.session.userId,
+						sessionId: session.session.id,
+						metadata: { organizationId },
+					},
+					'graphql-api',
+					'auditExports'
+				)
+
+				throw new GraphQLError(`Failed to list audit exports: ${message}`, {
+					extensions: { code: 'INTERNAL_ERROR' },
+				})
+			}
+		},
+
+		/**
+		 * Get an export job
+		 */
+		auditExport: async (
+			_: any,
+			args: { id: string },
+			context: GraphQLContext
+		): Promise<AuditExportJob | null> => {
+			const { compliance, logger, error } = context.services
+			const session = requireSession(context)
+			const organizationId = session.session.activeOrganizationId as string
+
+			try {
+				const job = await compliance.jobs.getJob(organizationId, args.id)
+				return job ? mapExportJobToGraphQL(job) : null
+			} catch (e) {
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to get audit export via GraphQL: ${message}`)
+
+				await error.handleError(
+					e as Error,
+					{
+						requestId: context.requestId,
+						userId: session.session.userId,
+						sessionId: session.session.id,
+						metadata: { organizationId, exportId: args.id },
+					},
+					'graphql-api',
+					'auditExport'
+				)
+
+				throw new GraphQLError(`Failed to get audit export: ${message}`, {
+					extensions: { code: 'INTERNAL_ERROR' },
+				})
+			}
+		},
+	},
+
+	Mutation: {
+		/**
+		 * Queue an audit event export
+		 */
+		startAuditExport: async (
+			_: any,
+			args: { input: AuditExportInput },
+			context: GraphQLContext
+		): Promise<AuditExportJob> => {
+			const { compliance, logger, error } = context.services
+			const session = requireSession(context)
+			const organizationId = session.session.activeOrganizationId as string
+			const { filter, format, compression, includeMetadata } = args.input
+
+			try {
+				const job = await compliance.jobs.createJob({
+					organizationId,
+					requestedBy: session.session.userId,
+					filter: filter && {
+						dateRange: filter.dateRange,
+						principalIds: filter.principalIds,
+						actions: filter.actions,
+						statuses: filter.statuses,
+						dataClassifications: filter.dataClassifications,
+						resourceTypes: filter.resourceTypes,
+						resourceIds: filter.resourceIds,
+						correlationIds: filter.correlationIds,
+						verifiedOnly: filter.verifiedOnly,
+					},
+					format: format.toLowerCase() as ExportJob['format'],
+					compression: (compression?.toLowerCase() ?? 'none') as ExportJob['compression'],
+					includeMetadata,
+				})
+
+				logger.info('Audit export queued via GraphQL', { organizationId, exportId: job.id })
+
+				return mapExportJobToGraphQL(job)
+			} catch (e) {
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to queue audit export via GraphQL: ${message}`)
+
+				await error.handleError(
+					e as Error,
+					{
+						requestId: context.requestId,
+						userId: session.session.userId,
+						sessionId: session.session.id,
+						metadata: { organizationId, format },
+					},
+					'graphql-api',
+					'startAuditExport'
+				)
+
+				throw new GraphQLError(`Failed to start audit export: ${message}`, {
+					extensions: { code: 'INTERNAL_ERROR' },
+				})
+			}
+		},
+
+		/**
+		 * Cancel a pending or running export job
+		 */
+		cancelAuditExport: async (
+			_: any,
+			args: { id: string },
+			context: GraphQLContext
+		): Promise<AuditExportJob> => {
+			const { compliance, logger, error } = context.services
+			const session = requireSession(context)
+			const organizationId = session.session.activeOrganizationId as string
+
+			try {
+				const job = await compliance.jobs.cancelJob(organizationId, args.id)
+
+				logger.info('Audit export cancelled via GraphQL', { organizationId, exportId: job.id })
+
+				return mapExportJobToGraphQL(job)
+			} catch (e) {
+				if (e instanceof ExportJobError) {
+					throw new GraphQLError(e.message, {
+						extensions: { code: e.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'BAD_REQUEST' },
+					})
+				}
+
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to cancel audit export via GraphQL: ${message}`)
+
+				await error.handleError(
+					e as Error,
+					{
+						requestId: context.requestId,
+						userId: session.session.userId,
+						sessionId: session.session.id,
+						metadata: { organizationId, exportId: args.id },
+					},
+					'graphql-api',
+					'cancelAuditExport'
+				)
+
+				throw new GraphQLError(`Failed to cancel audit export: ${message}`, {
+					extensions: { code: 'INTERNAL_ERROR' },
+				})
+			}
+		},
+	},
+}
@@ -7,6 +7,7 @@ import { GraphQLScalarType, Kind } from 'graphql'
 
 import { alertResolvers } from './alerts'
 import { auditEventResolvers } from './audit-events'
+import { auditExportResolvers } from './audit-exports'
 import { auditPresetResolvers } from './audit-presets'
 import { complianceResolvers } from './compliance'
 import { gdprResolvers } from './gdpr'
@@ -78,6 +79,7 @@ export const resolvers = {
 	Query: {
 		...healthResolvers.Query,
 		...auditEventResolvers.Query,
+		...auditExportResolvers.Query,
 		...complianceResolvers.Query,
 		...scheduledReportResolvers.Query,
 		...auditPresetResolvers.Query,
@@ -88,6 +90,7 @@ export const resolvers = {
 	// Mutation resolvers
 	Mutation: {
 		...auditEventResolvers.Mutation,
+		...auditExportResolvers.Mutation,
 		...scheduledReportResolvers.Mutation,
 		...auditPresetResolvers.Mutation,
 		...alertResolvers.Mutation,
@@ -48,6 +48,27 @@ export const typeDefs = `#graphql
     STORAGE
   }
 
+  enum AuditExportFormat {
+    JSON
+    NDJSON
+    CSV
+    XML
+  }
+
+  enum AuditExportCompression {
+    NONE
+    GZIP
+  }
+
+  enum AuditExportStatus {
+    PENDING
+    PROCESSING
+    COMPLETED
+    FAILED
+    CANCELLED
+    EXPIRED
+  }
+
   enum AlertType {
     SYSTEM
     SECURITY
@@ -244,6 +265,14 @@ export const typeDefs = `#graphql
     includeMetadata: Boolean
   }
 
+  # Audit export input types
+  input AuditExportInput {
+    filter: AuditEventFilter
+    format: AuditExportFormat!
+    compression: AuditExportCompression
+    includeMetadata: Boolean
+  }
+
   input GDPRPseudonymizeInput {
     principalId: String!
     strategy: String!
@@ -306,6 +335,19 @@ export const typeDefs = `#graphql
     totalCount: Int!
   }
 
+  type AuditSearchEdge {
+    node: AuditEvent!
+    cursor: String!
+    rank: Float!
+    snippet: String!
+  }
+
+  type AuditSearchConnection {
+    edges: [AuditSearchEdge!]!
+    pageInfo: PageInfo!
+    totalCount: Int!
+  }
+
   type HealthCheck {
     name: String!
     status: String!
@@ -536,6 +578,26 @@ export const typeDefs = `#graphql
     verificationChain: [IntegrityVerificationResult!]
   }
 
+  # Audit export types
+  type AuditExportJob {
+    id: ID!
+    status: AuditExportStatus!
+    format: AuditExportFormat!
+    compression: AuditExportCompression!
+    progress: Int!
+    totalRecords: Int
+    recordCount: Int
+    size: Float
+    checksum: String
+    filename: String
+    error: String
+    requestedBy: String!
+    createdAt: DateTime!
+    startedAt: DateTime
+    completedAt: DateTime
+    expiresAt: DateTime
+  }
+
   # GDPR types
   type GDPRExportMetadata {
     dateRange: TimeRange!
@@ -582,6 +644,17 @@ export const typeDefs = `#graphql
 
     auditEvent(id: ID!): AuditEvent
 
+    # Full-text search over audit events, most relevant first
+    searchAuditEvents(
+      query: String!
+      filter: AuditEventFilter
+      pagination: PaginationInput
+    ): AuditSearchConnection!
+
+    # Asynchronous audit event exports
+    auditExports(limit: Int, offset: Int): [AuditExportJob!]!
+    auditExport(id: ID!): AuditExportJob
+
     # Compliance reports
     complianceReports(
       type: ComplianceReportType!
@@ -615,6 +688,10 @@ export const typeDefs = `#graphql
     createAuditEvent(input: CreateAuditEventInput!): AuditEvent!
     verifyAuditEvent(id: ID!): IntegrityVerificationResult!
 
+    # Audit export operations
+    startAuditExport(input: AuditExportInput!): AuditExportJob!
+    cancelAuditExport(id: ID!): AuditExportJob!
+
     # Scheduled report operations
     createScheduledReport(input: CreateScheduledReportInput!): ScheduledReport!
     updateScheduledReport(
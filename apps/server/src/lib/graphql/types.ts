@@ -93,6 +93,17 @@ export interface AuditEventEdge {
 	cursor: string
 }
 
+export interface AuditSearchConnection {
+	edges: AuditSearchEdge[]
+	pageInfo: PageInfo
+	totalCount: number
+}
+
+export interface AuditSearchEdge extends AuditEventEdge {
+	rank: number
+	snippet: string
+}
+
 export interface PageInfo {
 	hasNextPage: boolean
 	hasPreviousPage: boolean
@@ -483,3 +494,40 @@ export interface GDPRPseudonymizeResult {
 	recordsAffected: number
 	timestamp: string
 }
+
+// Audit export job types
+export type AuditExportFormat = 'JSON' | 'NDJSON' | 'CSV' | 'XML'
+export type AuditExportCompression = 'NONE' | 'GZIP'
+export type AuditExportStatus =
+	| 'PENDING'
+	| 'PROCESSING'
+	| 'COMPLETED'
+	| 'FAILED'
+	| 'CANCELLED'
+	| 'EXPIRED'
+
+export interface AuditExportInput {
+	filter?: AuditEventFilter
+	format: AuditExportFormat
+	compression?: AuditExportCompression
+	includeMetadata?: boolean
+}
+
+export interface AuditExportJob {
+	id: string
+	status: AuditExportStatus
+	format: AuditExportFormat
+	compression: AuditExportCompression
+	progress: number
+	totalRecords?: number
+	recordCount?: number
+	size?: number
+	checksum?: string
+	filename?: string
+	error?: string
+	requestedBy: string
+	createdAt: string
+	startedAt?: string
+	completedAt?: string
+	expiresAt?: string
+}
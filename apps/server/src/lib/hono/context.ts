@@ -2,21 +2,33 @@ import type { betterAuth } from 'better-auth'
 import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
 import type { Inngest } from 'inngest'
 import type {
+	ArchiveRestoreService,
 	Audit,
 	AuditBottleneckAnalyzer,
 	AuditMonitoringDashboard,
+	AuditSearchService,
 	AuditTracer,
 	ComplianceReportingService,
 	ConfigurationManager,
 	DatabaseAlertHandler,
+	DatabaseAlertRoutingStore,
 	DatabasePresetHandler,
 	DataExportService,
+	DataSubjectRequestService,
 	ErrorHandler,
+	ExportJobService,
 	GDPRComplianceService,
+	HashChainService,
 	HealthCheckService,
+	LegalHoldService,
+	MerkleCheckpointService,
 	MonitoringService,
+	PostgresArchivalService,
+	PseudonymVault,
 	RedisEnhancedMetricsCollector,
 	ScheduledReportingService,
+	StreamingExportService,
+	TraceContext,
 } from '@repo/audit'
 import type { EnhancedAuditDatabaseClient } from '@repo/audit-db'
 import type * as auditSchema from '@repo/audit-db/dist/db/schema.js'
@@ -55,12 +67,28 @@ export type ServiceContext = {
 	compliance: {
 		report: ComplianceReportingService
 		export: DataExportService
+		stream: StreamingExportService
+		jobs: ExportJobService
 		scheduled: ScheduledReportingService
 		preset: DatabasePresetHandler
 		gdpr: GDPRComplianceService
+		legalHold: LegalHoldService
+		/** Only available when the KMS is enabled */
+		vault?: PseudonymVault
+		dsr: DataSubjectRequestService
 	}
+	integrity: {
+		chain: HashChainService
+		merkle: MerkleCheckpointService
+	}
+	archival: {
+		service: PostgresArchivalService
+		restore: ArchiveRestoreService
+	}
+	search: AuditSearchService
 	monitor: {
 		alert: DatabaseAlertHandler
+		routing: DatabaseAlertRoutingStore
 		metrics: MonitoringService
 	}
 	observability: {
@@ -92,6 +120,7 @@ export type Variables = SharedHonoVariables & {
 	requestStartTime: number
 	requestMetadata: any
 	performance: any
+	traceContext?: TraceContext
 }
 
 export interface HonoEnv extends HonoApp {
@@ -1,28 +1,47 @@
 import { Inngest } from 'inngest'
 
 import {
+	AlertRouter,
+	ArchiveRestoreService,
+	archiveStorageConfigFromEnv,
 	Audit,
 	AuditBottleneckAnalyzer,
 	AuditMonitoringDashboard,
+	AuditSearchService,
 	AuditTracer,
 	ComplianceReportingService,
 	createDatabasePresetHandler,
+	createKmsArchiveKeyWrapper,
+	CryptoService,
 	DatabaseAlertHandler,
+	DatabaseAlertRoutingStore,
 	DatabaseErrorLogger,
 	DatabaseHealthCheck,
 	DataExportService,
+	DataSubjectRequestService,
 	DEFAULT_DASHBOARD_CONFIG,
 	DEFAULT_OBSERVABILITY_CONFIG,
 	ErrorHandler,
+	ExportJobService,
 	GDPRComplianceService,
+	HashChainService,
 	HealthCheckService,
+	LegalHoldService,
+	MerkleCheckpointService,
 	MonitoringService,
+	notificationChannels,
+	PostgresArchivalService,
+	PseudonymVault,
 	RedisEnhancedMetricsCollector,
 	RedisHealthCheck,
 	RedisMetricsCollector,
 	ScheduledReportingService,
+	StreamingExportService,
 } from '@repo/audit'
 import {
+	archiveStorage,
+	auditLog,
+	auditRetentionPolicy,
 	EnhancedAuditDb,
 	errorAggregation,
 	errorLog,
@@ -37,6 +56,7 @@ import { getRedisConnectionStatus, getSharedRedisConnectionWithConfig } from '@r
 import { bindingsMiddleware } from '../inngest/middleware.js'
 import { schemas } from '../inngest/types.js'
 import { LoggerFactory, StructuredLogger } from '../services/logging.js'
+import { getOrganizationMailer } from '../services/mailer.js'
 import { PerformanceService } from '../services/performance.js'
 import { createResilienceService } from '../services/resilience.js'
 
@@ -72,6 +92,7 @@ let audit: Audit | undefined = undefined
 // Alert and health check services
 let metricsCollector: RedisMetricsCollector | undefined = undefined
 let databaseAlertHandler: DatabaseAlertHandler | undefined = undefined
+let alertRoutingStore: DatabaseAlertRoutingStore | undefined = undefined
 let monitoringService: MonitoringService | undefined = undefined
 let healthCheckService: HealthCheckService | undefined = undefined
 
@@ -100,9 +121,26 @@ let databaseErrorLogger: DatabaseErrorLogger | undefined = undefined
 // Compliance services
 let reportingService: ComplianceReportingService | undefined = undefined
 let dataExportService: DataExportService | undefined = undefined
+let streamingExportService: StreamingExportService | undefined = undefined
+let exportJobService: ExportJobService | undefined = undefined
 let scheduledReportingService: ScheduledReportingService | undefined = undefined
 let presetDatabaseHandler: DatabasePresetHandler | undefined = undefined
 let gdprComplianceService: GDPRComplianceService | undefined = undefined
+let legalHoldService: LegalHoldService | undefined = undefined
+let pseudonymVault: PseudonymVault | undefined = undefined
+let dataSubjectRequestService: DataSubjectRequestService | undefined = undefined
+
+// Integrity services
+let cryptoService: CryptoService | undefined = undefined
+let hashChainService: HashChainService | undefined = undefined
+let merkleCheckpointService: MerkleCheckpointService | undefined = undefined
+
+// Archival services
+let archivalService: PostgresArchivalService | undefined = undefined
+let archiveRestoreService: ArchiveRestoreService | undefined = undefined
+
+// Search services
+let auditSearchService: AuditSearchService | undefined = undefined
 
 /**
  * Create delivery configuration from server config
@@ -131,6 +169,7 @@ function createDeliveryConfig(externalServices: any): DeliveryConfig {
 				'Content-Type': 'application/json',
 				...externalServices?.webhook?.headers,
 			},
+			secret: externalServices?.webhook?.secret,
 			timeout: externalServices?.webhook?.timeout || 30000,
 			retryConfig: {
 				maxRetries: externalServices?.webhook?.retryConfig?.maxRetries || 3,
@@ -242,10 +281,19 @@ export function init(configManager: ConfigurationManager): MiddlewareHandler<Hon
 		}
 
 		if (!databaseAlertHandler) databaseAlertHandler = new DatabaseAlertHandler(auditDbInstance)
+		if (!alertRoutingStore) alertRoutingStore = new DatabaseAlertRoutingStore(db.audit)
 		if (!monitoringService) {
 			if (!metricsCollector) metricsCollector = new RedisMetricsCollector(connection)
 			monitoringService = new MonitoringService(config.monitoring, metricsCollector)
 			monitoringService.addAlertHandler(databaseAlertHandler)
+			monitoringService.setAlertRouter(
+				new AlertRouter({
+					store: alertRoutingStore,
+					defaultChannels: notificationChannels(config.monitoring.notification),
+					// kms is resolved lazily: it is created further down this initializer
+					mailerResolver: (organizationId) => getOrganizationMailer(organizationId, db.auth, kms!),
+				})
+			)
 		}
 
 		// Initialize resilience service
@@ -283,11 +331,21 @@ export function init(configManager: ConfigurationManager): MiddlewareHandler<Hon
 
 		const monitor = {
 			alert: databaseAlertHandler,
+			routing: alertRoutingStore,
 			metrics: monitoringService,
 		}
 
 		if (!tracer) {
-			tracer = new AuditTracer(DEFAULT_OBSERVABILITY_CONFIG.tracing)
+			const { monitoring } = config.server
+			tracer = new AuditTracer({
+				...DEFAULT_OBSERVABILITY_CONFIG.tracing,
+				serviceName: 'audit-server',
+				// Trace context is propagated either way, spans are only shipped when enabled
+				enabled: monitoring.enableTracing,
+				exporterType: monitoring.tracingExporter || 'otlp',
+				exporterEndpoint: monitoring.tracingEndpoint,
+				exporterHeaders: monitoring.tracingHeaders,
+			})
 		}
 		if (!enhancedMetricsCollector) {
 			enhancedMetricsCollector = new RedisEnhancedMetricsCollector(
@@ -320,28 +378,96 @@ export function init(configManager: ConfigurationManager): MiddlewareHandler<Hon
 		if (!errorHandler) errorHandler = new ErrorHandler(undefined, undefined, databaseErrorLogger)
 
 		if (!reportingService) reportingService = new ComplianceReportingService(client, audit)
-		if (!dataExportService) dataExportService = new DataExportService()
+		if (!cryptoService) cryptoService = new CryptoService(config.security)
+		if (!dataExportService) dataExportService = new DataExportService(cryptoService)
+		const deliveryConfig = createDeliveryConfig(config.server.externalServices)
+		// Archive, pseudonym and export keys are wrapped by the KMS
+		const kmsKeyWrapper = config.security.kms.enabled
+			? createKmsArchiveKeyWrapper(config.security.kms)
+			: undefined
+		if (!streamingExportService)
+			streamingExportService = new StreamingExportService(db.audit, deliveryConfig.storage)
+		if (!exportJobService)
+			exportJobService = new ExportJobService(db.audit, streamingExportService, inngest, {
+				pdfExporter: dataExportService,
+				keyWrapper: kmsKeyWrapper,
+			})
 		if (!scheduledReportingService) {
-			const deliveryConfig = createDeliveryConfig(config.server.externalServices)
 			scheduledReportingService = new ScheduledReportingService(
 				reportingService,
 				dataExportService,
 				client,
 				inngest,
-				deliveryConfig
+				deliveryConfig,
+				// kms is resolved lazily: it is created further down this initializer
+				(organizationId) => getOrganizationMailer(organizationId, db.auth, kms!)
 			)
 		}
 		if (!presetDatabaseHandler) presetDatabaseHandler = createDatabasePresetHandler(db.audit)
-		if (!gdprComplianceService) gdprComplianceService = new GDPRComplianceService(client, audit)
+		if (!legalHoldService) legalHoldService = new LegalHoldService(db.audit)
+		if (!pseudonymVault && kmsKeyWrapper)
+			pseudonymVault = new PseudonymVault(db.audit, kmsKeyWrapper, {
+				requiredApprovals: config.compliance.gdpr.reidentificationApprovals,
+			})
+		if (!gdprComplianceService)
+			gdprComplianceService = new GDPRComplianceService(
+				client,
+				audit,
+				legalHoldService,
+				pseudonymVault
+			)
+		if (!dataSubjectRequestService)
+			dataSubjectRequestService = new DataSubjectRequestService(
+				db.audit,
+				gdprComplianceService,
+				audit,
+				{ responseDays: config.compliance.gdpr.dataSubjectRequestDays }
+			)
 
 		const compliance = {
 			report: reportingService,
 			export: dataExportService,
+			stream: streamingExportService,
+			jobs: exportJobService,
 			scheduled: scheduledReportingService,
 			preset: presetDatabaseHandler,
 			gdpr: gdprComplianceService,
+			legalHold: legalHoldService,
+			vault: pseudonymVault,
+			dsr: dataSubjectRequestService,
 		}
 
+		if (!hashChainService) hashChainService = new HashChainService(db.audit, cryptoService)
+		if (!merkleCheckpointService)
+			merkleCheckpointService = new MerkleCheckpointService(db.audit, cryptoService)
+
+		const integrity = {
+			chain: hashChainService,
+			merkle: merkleCheckpointService,
+		}
+
+		if (!archivalService) {
+			archivalService = new PostgresArchivalService(
+				db.audit,
+				auditLog,
+				auditRetentionPolicy,
+				archiveStorage,
+				{ ...config.archive, storage: config.archive.storage ?? archiveStorageConfigFromEnv() },
+				// Encrypted archives need the KMS key that wrapped their data key
+				kmsKeyWrapper,
+				legalHoldService
+			)
+		}
+		if (!archiveRestoreService)
+			archiveRestoreService = new ArchiveRestoreService(archivalService, db.audit, cryptoService)
+
+		const archival = {
+			service: archivalService,
+			restore: archiveRestoreService,
+		}
+
+		if (!auditSearchService) auditSearchService = new AuditSearchService(db.audit)
+
 		if (!kms)
 			kms = new InfisicalKmsClient({
 				baseUrl: config.security.kms.baseUrl,
@@ -379,6 +505,9 @@ export function init(configManager: ConfigurationManager): MiddlewareHandler<Hon
 			health: healthCheckService,
 			authorization: authorizationService,
 			compliance,
+			integrity,
+			archival,
+			search: auditSearchService,
 			monitor,
 			observability,
 			audit,
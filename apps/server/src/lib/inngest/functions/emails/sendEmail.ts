@@ -1,12 +1,13 @@
 import 'dotenv/config'
 
-import { eq } from 'drizzle-orm'
-
-import { emailProvider } from '@repo/auth'
 import { NodeMailer, ResendMailer, SendGridMailer } from '@repo/mailer'
 
+import { getOrganizationMailer } from '../../../services/mailer.js'
 import { inngest } from '../../client.js'
 
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+import type * as authSchema from '@repo/auth/dist/db/schema/index.js'
+import type { InfisicalKmsClient } from '@repo/infisical-kms'
 import type { NodeMailerSmtpOptions } from '@repo/mailer'
 
 type Mailer = {
@@ -30,62 +31,18 @@ const mailer = new NodeMailer(mailerConfig)
 async function getEmailProvider(
 	organizationId: string,
 	action: string,
-	db: any,
-	kms: any
+	db: PostgresJsDatabase<typeof authSchema>,
+	kms: InfisicalKmsClient
 ): Promise<Mailer> {
-	const transport: Mailer = { from: null, mailer: null }
-
 	if (action === 'sendVerificationEmail')
 		return { from: 'SMEDREC <no-reply@smedrec.com>', mailer: mailer }
 
-	const provider = await db.query.emailProvider.findFirst({
-		where: eq(emailProvider.organizationId, organizationId),
-	})
+	const transport = await getOrganizationMailer(organizationId, db, kms)
 
-	if (!provider) {
+	if (!transport) {
 		throw Error('Mailer connection details from database error.')
 	}
 
-	// TODO - improve the possible error
-	if (provider.password) {
-		const password = await kms.decrypt(provider.password!)
-		provider.password = password.plaintext
-	}
-
-	if (provider.apiKey) {
-		const apiKey = await kms.decrypt(provider.apiKey!)
-		provider.apiKey = apiKey.plaintext
-	}
-
-	transport.from = `${provider.fromName} <${provider.fromEmail}>`
-
-	switch (provider?.provider) {
-		case 'smtp':
-			transport.mailer = new NodeMailer({
-				host: provider.host!,
-				port: provider.port as number,
-				secure: provider.secure as boolean,
-				auth: {
-					user: provider.user!,
-					pass: provider.password!,
-				},
-			})
-			break
-		case 'resend':
-			transport.mailer = new ResendMailer({
-				apiKey: provider.apiKey!,
-			})
-			break
-		case 'sendgrid':
-			transport.mailer = new SendGridMailer({
-				apiKey: provider.apiKey!,
-			})
-			break
-
-		default:
-			break
-	}
-
 	return transport
 }
 
@@ -121,67 +78,6 @@ export const sendEmail = inngest.createFunction(
 			// For now, re-throwing the error to let BullMQ handle it based on its configuration.
 			throw error
 		}
-		// Get the transport from the database
-		/**const transport: Mailer = await step.run('get-email-transport', async (): Promise<Mailer> => {
-			// Create default transport with explicit typing
-			const defaultTransport: Mailer = {
-				from: 'SMEDREC <no-reply@smedrec.com>',
-				mailer: mailer,
-			}
-			if (action === 'sendVerificationEmail') return defaultTransport
-
-			const provider = await db.auth.query.emailProvider.findFirst({
-				where: eq(emailProvider.organizationId, organizationId),
-			})
-
-			if (!provider) {
-				throw Error('Mailer connection details from database error.')
-			}
-
-			// TODO - improve the possible error
-			if (provider.password) {
-				const password = await kms.decrypt(provider.password!)
-				provider.password = password.plaintext
-			}
-
-			if (provider.apiKey) {
-				const apiKey = await kms.decrypt(provider.apiKey!)
-				provider.apiKey = apiKey.plaintext
-			}
-
-			defaultTransport.from = `${provider.fromName} <${provider.fromEmail}>`
-
-			switch (provider.provider) {
-				case 'smtp':
-					defaultTransport.mailer = new NodeMailer({
-						host: provider.host!,
-						port: provider.port as number,
-						secure: provider.secure as boolean,
-						auth: {
-							user: provider.user!,
-							pass: provider.password!,
-						},
-					})
-					break
-				case 'resend':
-					defaultTransport.mailer = new ResendMailer({
-						apiKey: provider.apiKey!,
-					})
-					break
-				case 'sendgrid':
-					defaultTransport.mailer = new SendGridMailer({
-						apiKey: provider.apiKey!,
-					})
-					break
-				default:
-					defaultTransport.mailer = mailer
-					break
-			}
-			if (!defaultTransport.mailer) {
-				throw Error('Mailer connection details from database error.')
-			}
-			return defaultTransport
-		}) **/
 
 		await step.run('send-email-with-transport', async () => {
 			try {
@@ -0,0 +1,115 @@
+import { inngest } from '../../client.js'
+
+import type { ExportJob } from '@repo/audit'
+
+/**
+ * Tells email recipients that an export is ready.
+ * The file is not attached: audit data stays behind sign-in and the download permission.
+ */
+function exportReadyEmail(job: ExportJob, recipients: string[]) {
+	const expires = job.expiresAt ? ` It can be downloaded until ${job.expiresAt} (UTC).` : ''
+	const encrypted = job.encrypted
+		? ' The file is encrypted with the passphrase chosen by the requester, decrypt it with smart-logs decrypt-export.'
+		: ''
+	const text = `The audit event export ${job.filename} (${job.recordCount ?? 0} events) is ready. Download it from Compliance > Export reports in the dashboard.${expires}${encrypted}`
+
+	return {
+		from: '',
+		to: recipients,
+		subject: `Audit event export ready: ${job.filename}`,
+		html: `<p>${text}</p>`,
+		text,
+	}
+}
+
+/**
+ * Streams a queued audit event export into storage, then notifies email recipients.
+ * The job records its own failure, and a retry would find it no longer pending,
+ * so Inngest retries are disabled.
+ */
+export const processExportJob = inngest.createFunction(
+	{ id: 'process-export-job', retries: 0 },
+	{ event: 'exports/export.requested' },
+	async ({ event, step, services }) => {
+		const { compliance, error, logger } = services
+		const { jobId } = event.data
+
+		try {
+			const job = await compliance.jobs.processJob(jobId)
+			if (!job) {
+				logger.info(`Export job ${jobId} is no longer pending, skipping`)
+				return null
+			}
+			logger.info(`Export job ${jobId} finished as ${job.status}: ${job.recordCount ?? 0} events`)
+
+			if (job.status === 'completed' && job.delivery.method === 'email') {
+				await step.sendEvent('notify-export-recipients', {
+					name: 'email/send',
+					data: {
+						principalId: job.requestedBy,
+						organizationId: job.organizationId,
+						service: 'smart-logs',
+						action: 'sendExportReady',
+						emailDetails: exportReadyEmail(job, job.delivery.recipients),
+					},
+				})
+			}
+
+			return job
+		} catch (e) {
+			const message = e instanceof Error ? e.message : 'Unknown error'
+			logger.error(`Failed to process export job ${jobId}: ${message}`)
+			const err = e instanceof Error ? e : new Error(message)
+			await error.handleError(
+				err,
+				{
+					metadata: {
+						message: err.message,
+						name: err.name,
+						cause: err.cause,
+						event,
+					},
+				},
+				'inngest',
+				'process-export-job'
+			)
+			throw err
+		}
+	}
+)
+
+/**
+ * Deletes the files of export jobs whose download window has passed,
+ * and fails jobs that stalled, e.g. because the worker died mid-export.
+ */
+export const expireExportJobs = inngest.createFunction(
+	{ id: 'expire-export-jobs' },
+	{ cron: 'TZ=UTC 15 * * * *' },
+	async ({ services }) => {
+		const { compliance, error, logger } = services
+
+		try {
+			const expired = await compliance.jobs.expireJobs()
+			const stalled = await compliance.jobs.failStalledJobs()
+			logger.info(`Expired ${expired} export jobs, failed ${stalled} stalled export jobs`)
+			return { expired, stalled }
+		} catch (e) {
+			const message = e instanceof Error ? e.message : 'Unknown error'
+			logger.error(`Failed to expire export jobs: ${message}`)
+			const err = e instanceof Error ? e : new Error(message)
+			await error.handleError(
+				err,
+				{
+					metadata: {
+						message: err.message,
+						name: err.name,
+						cause: err.cause,
+					},
+				},
+				'inngest',
+				'expire-export-jobs'
+			)
+			throw err
+		}
+	}
+)
@@ -0,0 +1,59 @@
+import { inngest } from '../../client.js'
+
+/**
+ * Schedules the Merkle checkpoints of the previous UTC day once it has closed.
+ */
+export const integrityCheckpointPrepareDaily = inngest.createFunction(
+	{ id: 'integrity-checkpoint-prepare-daily' },
+	{ cron: 'TZ=UTC 30 0 * * *' },
+	async ({ step }) => {
+		const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+		await step.sendEvent('create-merkle-checkpoints', {
+			name: 'integrity/merkle.checkpoint',
+			data: { checkpoint_date: yesterday },
+		})
+	}
+)
+
+/**
+ * Computes and signs the Merkle checkpoint of every organization for a day.
+ */
+export const createMerkleCheckpoints = inngest.createFunction(
+	{ id: 'create-merkle-checkpoints' },
+	{ event: 'integrity/merkle.checkpoint' },
+	async ({ event, services }) => {
+		const { integrity, error, logger } = services
+		const { checkpoint_date } = event.data
+
+		try {
+			const summary = await integrity.merkle.createDailyCheckpoints(checkpoint_date, 'system')
+			logger.info(
+				`Created ${summary.created.length} Merkle checkpoints for ${checkpoint_date}, ${summary.failed.length} failed`
+			)
+			for (const failure of summary.failed) {
+				logger.error(
+					`Failed to checkpoint organization ${failure.organizationId} for ${checkpoint_date}: ${failure.error}`
+				)
+			}
+			return summary
+		} catch (e) {
+			const message = e instanceof Error ? e.message : 'Unknown error'
+			logger.error(`Failed to create Merkle checkpoints: ${message}`)
+			const err = e instanceof Error ? e : new Error(message)
+			await error.handleError(
+				err,
+				{
+					metadata: {
+						message: err.message,
+						name: err.name,
+						cause: err.cause,
+						event,
+					},
+				},
+				'inngest',
+				'create-merkle-checkpoints'
+			)
+			throw err
+		}
+	}
+)
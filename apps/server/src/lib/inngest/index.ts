@@ -7,7 +7,12 @@ import {
 	cleanupOldErrors,
 	errorsCleanupPrepareDailyDigest,
 } from './functions/errors/cleanup-old-errors.js'
+import { expireExportJobs, processExportJob } from './functions/exports/export-jobs.js'
 import { helloWorld } from './functions/helloWorld.js'
+import {
+	createMerkleCheckpoints,
+	integrityCheckpointPrepareDaily,
+} from './functions/integrity/merkle-checkpoints.js'
 import { scheduleReport } from './functions/reports/scheduleReport.js'
 
 export const functions = [
@@ -16,7 +21,11 @@ export const functions = [
 	cleanupResolvedAlerts,
 	errorsCleanupPrepareDailyDigest,
 	cleanupOldErrors,
+	integrityCheckpointPrepareDaily,
+	createMerkleCheckpoints,
 	scheduleReport,
+	processExportJob,
+	expireExportJobs,
 	sendEmail,
 ]
 
@@ -24,6 +24,14 @@ type CleanupOldErrors = {
 	}
 }
 
+type CreateMerkleCheckpoints = {
+	name: 'integrity/merkle.checkpoint'
+	data: {
+		/** UTC day to checkpoint (YYYY-MM-DD) */
+		checkpoint_date: string
+	}
+}
+
 type ScheduleReport = {
 	name: 'reports/schedule.report'
 	data: {
@@ -38,6 +46,13 @@ type UnscheduleReport = {
 	}
 }
 
+type ProcessExportJob = {
+	name: 'exports/export.requested'
+	data: {
+		jobId: string
+	}
+}
+
 type SendEmail = {
 	name: 'email/send'
 	data: {
@@ -79,7 +94,9 @@ export const schemas = new EventSchemas().fromUnion<
 	| DemoEventSent
 	| CleanupResolvedAlerts
 	| CleanupOldErrors
+	| CreateMerkleCheckpoints
 	| ScheduleReport
 	| UnscheduleReport
+	| ProcessExportJob
 	| SendEmail
 >()
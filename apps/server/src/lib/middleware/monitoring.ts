@@ -5,6 +5,7 @@
  * - Request/response metrics collection
  * - Performance monitoring
  * - Correlation ID tracking
+ * - W3C trace context propagation
  * - Structured logging
  * - Error rate tracking
  *
@@ -13,11 +14,70 @@
 
 import { createMiddleware } from 'hono/factory'
 
+import {
+	formatTraceparent,
+	runWithTraceContext,
+	TRACEPARENT_HEADER,
+	TRACESTATE_HEADER,
+} from '@repo/audit'
+
 import type { HonoEnv } from '@/lib/hono/context'
 import type { Context } from 'hono'
 import type { Alert, RequestMetrics } from '@repo/audit'
 import type { HealthStatus } from '../graphql/types'
 
+/**
+ * W3C trace context middleware
+ *
+ * Continues the trace of an incoming traceparent header, or starts a new one, with a server span
+ * for the request. The span is the active trace context while the request is handled, so audit
+ * events logged by the request carry it through the queue to the worker.
+ */
+export function traceContext() {
+	return createMiddleware<HonoEnv>(async (c, next) => {
+		const { tracer } = c.get('services').observability
+		const parentContext = tracer.extractContext({
+			[TRACEPARENT_HEADER]: c.req.header(TRACEPARENT_HEADER) ?? '',
+			[TRACESTATE_HEADER]: c.req.header(TRACESTATE_HEADER) ?? '',
+		})
+
+		const span = tracer.startSpan(`${c.req.method} ${c.req.path}`, parentContext ?? undefined)
+		span.setTags({
+			'span.kind': 'server',
+			'http.method': c.req.method,
+			'http.target': c.req.path,
+			'http.request_id': c.get('requestId'),
+		})
+
+		const context = {
+			traceId: span.traceId,
+			spanId: span.spanId,
+			parentSpanId: span.parentSpanId,
+			flags: parentContext?.flags,
+			traceState: parentContext?.traceState,
+		}
+		c.set('traceContext', context)
+
+		c.header(TRACEPARENT_HEADER, formatTraceparent(context))
+		if (context.traceState) {
+			c.header(TRACESTATE_HEADER, context.traceState)
+		}
+
+		try {
+			await runWithTraceContext(context, next)
+			span.setTag('http.status_code', c.res.status)
+			if (c.res.status >= 500) {
+				span.setStatus('ERROR', `HTTP ${c.res.status}`)
+			}
+		} catch (error) {
+			span.setStatus('ERROR', error instanceof Error ? error.message : String(error))
+			throw error
+		} finally {
+			tracer.finishSpan(span)
+		}
+	})
+}
+
 /**
  * Request metrics collection middleware
  */
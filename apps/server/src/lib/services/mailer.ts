@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Organization Mailer
+ *
+ * Builds the @repo/mailer transport configured for an organization in the
+ * email_provider table, decrypting its credentials through the KMS
+ */
+
+import { eq } from 'drizzle-orm'
+
+import { emailProvider } from '@repo/auth'
+import { NodeMailer, ResendMailer, SendGridMailer } from '@repo/mailer'
+
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+import type * as authSchema from '@repo/auth/dist/db/schema/index.js'
+import type { InfisicalKmsClient } from '@repo/infisical-kms'
+
+export interface OrganizationMailer {
+	from: string
+	mailer: NodeMailer | ResendMailer | SendGridMailer
+}
+
+/**
+ * Resolve the mail transport of an organization
+ *
+ * @returns The transport, or null when the organization has no usable email provider
+ */
+export async function getOrganizationMailer(
+	organizationId: string,
+	db: PostgresJsDatabase<typeof authSchema>,
+	kms: InfisicalKmsClient
+): Promise<OrganizationMailer | null> {
+	const provider = await db.query.emailProvider.findFirst({
+		where: eq(emailProvider.organizationId, organizationId),
+	})
+
+	if (!provider) return null
+
+	if (provider.password) {
+		const password = await kms.decrypt(provider.password)
+		provider.password = password.plaintext
+	}
+
+	if (provider.apiKey) {
+		const apiKey = await kms.decrypt(provider.apiKey)
+		provider.apiKey = apiKey.plaintext
+	}
+
+	const from = `${provider.fromName} <${provider.fromEmail}>`
+
+	switch (provider.provider) {
+		case 'smtp':
+			return {
+				from,
+				mailer: new NodeMailer({
+					host: provider.host!,
+					port: provider.port as number,
+					secure: provider.secure as boolean,
+					auth: {
+						user: provider.user!,
+						pass: provider.password!,
+					},
+				}),
+			}
+		case 'resend':
+			return {
+				from,
+				mailer: new ResendMailer({
+					apiKey: provider.apiKey!,
+				}),
+			}
+		case 'sendgrid':
+			return {
+				from,
+				mailer: new SendGridMailer({
+					apiKey: provider.apiKey!,
+				}),
+			}
+		default:
+			return null
+	}
+}
@@ -499,17 +499,9 @@ describe('TRPC Events Router', () => {
 				},
 				format: 'json' as const,
 				includeMetadata: true,
-				includeIntegrityReport: false,
 				compression: 'none' as const,
 			}
 
-			const mockEvents = [
-				testUtils.generateAuditEvent({ id: 1 }),
-				testUtils.generateAuditEvent({ id: 2 }),
-			]
-
-			mockContext.services.client.executeMonitoredQuery.mockResolvedValue(mockEvents)
-
 			// Act
 			const result = await eventsRouter.export({
 				ctx: mockContext,
@@ -519,22 +511,18 @@ describe('TRPC Events Router', () => {
 			})
 
 			// Assert
-			expect(result.exportId).toBe('test-export-id')
-			expect(result.recordCount).toBe(10)
-			expect(mockContext.services.compliance.export.exportAuditEvents).toHaveBeenCalledWith(
-				expect.arrayContaining([
-					expect.objectContaining({
-						id: 1,
-						integrityStatus: 'verified',
-					}),
-				]),
+			expect(result.id).toBe('test-export-id')
+			expect(result.status).toBe('pending')
+			expect(mockContext.services.compliance.jobs.createJob).toHaveBeenCalledWith(
 				expect.objectContaining({
+					organizationId: mockContext.session.session.activeOrganizationId,
+					filter: expect.objectContaining({ dateRange: input.filter.dateRange }),
 					format: 'json',
 					includeMetadata: true,
-					includeIntegrityReport: false,
 					compression: 'none',
 				})
 			)
+			expect(mockContext.services.client.executeMonitoredQuery).not.toHaveBeenCalled()
 		})
 
 		it('should handle export service errors', async () => {
@@ -543,8 +531,7 @@ describe('TRPC Events Router', () => {
 				format: 'json' as const,
 			}
 
-			mockContext.services.client.executeMonitoredQuery.mockResolvedValue([])
-			mockContext.services.compliance.export.exportAuditEvents.mockRejectedValue(
+			mockContext.services.compliance.jobs.createJob.mockRejectedValue(
 				new Error('Export service unavailable')
 			)
 
@@ -558,6 +545,23 @@ describe('TRPC Events Router', () => {
 				})
 			).rejects.toThrow(TRPCError)
 		})
+
+		it('should reject the integrity report and zip options with a clear error', async () => {
+			// Arrange
+			mockContext.services.authorization.hasPermission.mockResolvedValue(true)
+
+			// Act & Assert
+			await expect(
+				caller.events.export({ format: 'json' as const, includeIntegrityReport: true })
+			).rejects.toMatchObject({
+				code: 'BAD_REQUEST',
+				message: expect.stringContaining('verifyChain'),
+			})
+			await expect(
+				caller.events.export({ format: 'json' as const, compression: 'zip' as const })
+			).rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringContaining('gzip') })
+			expect(mockContext.services.compliance.jobs.createJob).not.toHaveBeenCalled()
+		})
 	})
 
 	describe('gdprExport procedure', () => {
@@ -615,7 +619,8 @@ describe('TRPC Events Router', () => {
 			expect(mockContext.services.compliance.gdpr.pseudonymizeUserData).toHaveBeenCalledWith(
 				input.principalId,
 				input.strategy,
-				mockContext.session.session.userId
+				mockContext.session.session.userId,
+				{ organizationId: mockContext.session.session.activeOrganizationId, reason: undefined }
 			)
 		})
 
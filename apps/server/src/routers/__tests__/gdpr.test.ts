@@ -0,0 +1,72 @@
+/**
+ * TRPC GDPR Router Unit Tests
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createTRPCCaller, testUtils } from '../../__tests__/setup'
+import { gdprRouter } from '../gdpr'
+import { createTRPCRouter } from '../index'
+
+describe('TRPC GDPR Router', () => {
+	let mockContext: any
+	let caller: any
+
+	beforeEach(() => {
+		mockContext = {
+			...testUtils.mockTRPCContext,
+			session: {
+				...testUtils.mockSession,
+				session: { ...testUtils.mockSession.session, activeOrganizationRole: 'admin' },
+			},
+			services: {
+				...testUtils.mockServices,
+				compliance: {
+					...testUtils.mockServices.compliance,
+					gdpr: {
+						pseudonymizeDetailFields: vi.fn().mockResolvedValue({
+							recordsScanned: 2,
+							recordsAffected: 1,
+							valuesPseudonymized: 1,
+							recordsHeld: 0,
+						}),
+					},
+				},
+				config: {
+					getConfig: vi.fn().mockReturnValue({ compliance: { gdpr: {} } }),
+				},
+			},
+		}
+
+		caller = createTRPCCaller(createTRPCRouter({ gdpr: gdprRouter }), mockContext)
+	})
+
+	describe('pseudonymizeDetails procedure', () => {
+		it('should pseudonymize the given details paths', async () => {
+			// Act
+			const result = await caller.gdpr.pseudonymizeDetails({ paths: ['patient.email'] })
+
+			// Assert
+			expect(result.recordsAffected).toBe(1)
+			expect(mockContext.services.compliance.gdpr.pseudonymizeDetailFields).toHaveBeenCalledWith(
+				expect.objectContaining({
+					paths: ['patient.email'],
+					organizationId: 'test-org-id',
+					strategy: 'hash',
+					requestedBy: 'test-user-id',
+				})
+			)
+		})
+
+		it('should reject a malformed details path as a bad request', async () => {
+			// Act & Assert
+			await expect(
+				caller.gdpr.pseudonymizeDetails({ paths: ['patient..email'] })
+			).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+			await expect(
+				caller.gdpr.pseudonymizeDetails({ paths: ['patient.{email}'] })
+			).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+			expect(mockContext.services.compliance.gdpr.pseudonymizeDetailFields).not.toHaveBeenCalled()
+		})
+	})
+})
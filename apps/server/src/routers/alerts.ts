@@ -1,10 +1,70 @@
-import { protectedProcedure } from '@/lib/trpc'
+import { orgAdminProcedure, protectedProcedure } from '@/lib/trpc'
 import { TRPCError } from '@trpc/server'
 import z from 'zod'
 
+import { maskRoutingRule } from '@repo/audit'
+
 import type { TRPCRouterRecord } from '@trpc/server'
 import type { AlertQueryFilters } from '@repo/audit'
 
+const AlertSeveritySchema = z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'])
+const AlertTypeSchema = z.enum(['SECURITY', 'COMPLIANCE', 'PERFORMANCE', 'SYSTEM', 'METRICS'])
+
+const channelBase = {
+	name: z.string().max(255).optional(),
+	timeout: z.number().int().min(1000).max(60000).optional(),
+}
+
+const AlertChannelConfigSchema = z.discriminatedUnion('type', [
+	z.object({
+		...channelBase,
+		type: z.literal('slack'),
+		webhookUrl: z.string().url(),
+		channel: z.string().optional(),
+		username: z.string().optional(),
+	}),
+	z.object({
+		...channelBase,
+		type: z.literal('webhook'),
+		url: z.string().url(),
+		secret: z.string().min(16).optional(),
+		headers: z.record(z.string(), z.string()).optional(),
+	}),
+	z.object({
+		...channelBase,
+		type: z.literal('email'),
+		recipients: z.array(z.string().email()).min(1),
+	}),
+	z.object({
+		...channelBase,
+		type: z.literal('pagerduty'),
+		routingKey: z.string().min(1),
+		url: z.string().url().optional(),
+	}),
+	z.object({
+		...channelBase,
+		type: z.literal('ntfy'),
+		url: z.string().url(),
+		topic: z.string().min(1).optional(),
+		token: z.string().optional(),
+	}),
+])
+
+const AlertRoutingRuleSchema = z.object({
+	name: z.string().min(1).max(255),
+	severities: z.array(AlertSeveritySchema),
+	types: z.array(AlertTypeSchema),
+	channel: AlertChannelConfigSchema,
+	enabled: z.boolean(),
+})
+
+// Defaults only on creation: partial updates must not reset omitted fields
+const CreateAlertRoutingRuleSchema = AlertRoutingRuleSchema.extend({
+	severities: z.array(AlertSeveritySchema).default([]),
+	types: z.array(AlertTypeSchema).default([]),
+	enabled: z.boolean().default(true),
+})
+
 const alertsRouter = {
 	active: protectedProcedure.query(async ({ ctx }) => {
 		const { monitor, logger, error } = ctx.services
@@ -225,6 +285,212 @@ const alertsRouter = {
 				throw err
 			}
 		}),
+	routingRules: orgAdminProcedure.query(async ({ ctx }) => {
+		const { monitor, logger, error } = ctx.services
+		const organizationId = ctx.session?.session.activeOrganizationId as string
+		try {
+			const rules = await monitor.routing.listRules(organizationId)
+			return rules.map(maskRoutingRule)
+		} catch (e) {
+			const message = e instanceof Error ? e.message : 'Unknown error'
+			logger.error(`Failed to get alert routing rules: ${message}`)
+			const err = new TRPCError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message: `Failed to get alert routing rules: ${message}`,
+			})
+			await error.handleError(
+				err,
+				{
+					requestId: ctx.requestId,
+					userId: ctx.session?.session.userId,
+					sessionId: ctx.session?.session.id,
+					metadata: {
+						organizationId: ctx.session?.session.activeOrganizationId,
+						message: err.message,
+						name: err.name,
+						code: err.code,
+						cause: err.cause,
+					},
+				},
+				'trpc-api',
+				'alerts.routingRules'
+			)
+			throw err
+		}
+	}),
+	createRoutingRule: orgAdminProcedure
+		.input(CreateAlertRoutingRuleSchema)
+		.mutation(async ({ ctx, input }) => {
+			const { monitor, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			const createdBy = ctx.session?.session.userId as string
+			try {
+				const rule = await monitor.routing.createRule(organizationId, input, createdBy)
+				return maskRoutingRule(rule)
+			} catch (e) {
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to create alert routing rule: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to create alert routing rule: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'alerts.createRoutingRule'
+				)
+				throw err
+			}
+		}),
+	updateRoutingRule: orgAdminProcedure
+		.input(
+			z.object({
+				id: z.string(),
+				rule: AlertRoutingRuleSchema.partial(),
+			})
+		)
+		.mutation(async ({ ctx, input }) => {
+			const { monitor, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			const updatedBy = ctx.session?.session.userId as string
+			try {
+				const rule = await monitor.routing.updateRule(
+					organizationId,
+					input.id,
+					input.rule,
+					updatedBy
+				)
+				if (!rule) {
+					throw new TRPCError({
+						code: 'NOT_FOUND',
+						message: `Alert routing rule ${input.id} not found`,
+					})
+				}
+				return maskRoutingRule(rule)
+			} catch (e) {
+				if (e instanceof TRPCError) {
+					throw e
+				}
+
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to update alert routing rule ${input.id}: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to update alert routing rule ${input.id}: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							ruleId: input.id,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'alerts.updateRoutingRule'
+				)
+				throw err
+			}
+		}),
+	deleteRoutingRule: orgAdminProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			const { monitor, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				const deleted = await monitor.routing.deleteRule(organizationId, input.id)
+				if (!deleted) {
+					throw new TRPCError({
+						code: 'NOT_FOUND',
+						message: `Alert routing rule ${input.id} not found`,
+					})
+				}
+				return { success: true }
+			} catch (e) {
+				if (e instanceof TRPCError) {
+					throw e
+				}
+
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to delete alert routing rule ${input.id}: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to delete alert routing rule ${input.id}: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							ruleId: input.id,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'alerts.deleteRoutingRule'
+				)
+				throw err
+			}
+		}),
+	deliveries: orgAdminProcedure
+		.input(z.object({ alertId: z.string() }))
+		.query(async ({ ctx, input }) => {
+			const { monitor, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				return await monitor.routing.getDeliveries(organizationId, input.alertId)
+			} catch (e) {
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to get deliveries of alert ${input.alertId}: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to get deliveries of alert ${input.alertId}: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'alerts.deliveries'
+				)
+				throw err
+			}
+		}),
 } satisfies TRPCRouterRecord
 
 export { alertsRouter }
@@ -1,10 +1,9 @@
 import { protectedProcedure } from '@/lib/trpc'
 import { TRPCError } from '@trpc/server'
+import { and, desc, sql } from 'drizzle-orm'
 import z from 'zod'
 
-import { auditLog } from '@repo/audit-db'
-
-import { createTRPCRouter } from '.'
+import { auditIntegrityLog, auditLog } from '@repo/audit-db'
 
 import type { TRPCRouterRecord } from '@trpc/server'
 import type { ReportCriteria } from '@repo/audit'
@@ -165,10 +164,12 @@ const complianceReportsRouter = {
 					resourceTypes: z.array(z.string()).optional(),
 				}),
 				performVerification: z.boolean().optional(),
+				/** Groups the reports of a run split over several date slices in the history */
+				runId: z.string().max(100).optional(),
 			})
 		)
 		.mutation(async ({ ctx, input }) => {
-			const { compliance, logger, error } = ctx.services
+			const { compliance, db, logger, error } = ctx.services
 
 			const criteria = input.criteria
 			const performVerification = input.performVerification ?? true
@@ -188,6 +189,29 @@ const complianceReportsRouter = {
 					criteriaWithDateRange,
 					performVerification
 				)
+
+				// Record the run in the integrity log, against the first failure or the last event covered
+				const auditLogId = report.failures[0]?.eventId || report.eventRange?.lastEventId
+				if (performVerification && auditLogId) {
+					await db.audit.insert(auditIntegrityLog).values({
+						auditLogId,
+						verificationTimestamp: report.verifiedAt,
+						verificationStatus: report.results.failedVerifications > 0 ? 'failure' : 'success',
+						verificationDetails: {
+							type: 'integrity_report',
+							runId: input.runId ?? report.verificationId,
+							verificationId: report.verificationId,
+							organizationId: ctx.session?.session.activeOrganizationId,
+							startDate: criteriaWithDateRange.dateRange.startDate,
+							endDate: criteriaWithDateRange.dateRange.endDate,
+							...report.results,
+						},
+						verifiedBy: ctx.session?.session.userId,
+						hashVerified: report.failures[0]?.actualHash,
+						expectedHash: report.failures[0]?.expectedHash,
+					})
+				}
+
 				return {
 					success: true,
 					report,
@@ -219,9 +243,132 @@ const complianceReportsRouter = {
 				throw err
 			}
 		}),
+	/**
+	 * List past integrity verification runs from the integrity log
+	 * Integrity report slices sharing a runId are summed into one run, hash chain verifications are listed as is
+	 */
+	integrityHistory: protectedProcedure
+		.input(z.object({ limit: z.number().int().min(1).max(100).default(20) }).optional())
+		.query(async ({ ctx, input }) => {
+			const { db, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			const details = auditIntegrityLog.verificationDetails
+			const runId = sql<string>`coalesce(${details}->>'runId', ${details}->>'verificationId')`
+			const verifiedAt = sql<string>`max(${auditIntegrityLog.verificationTimestamp})`
+
+			try {
+				return await db.audit
+					.select({
+						runId,
+						type: sql<'integrity_report' | 'hash_chain'>`min(${details}->>'type')`,
+						startDate: sql<string>`min(${details}->>'startDate')`,
+						endDate: sql<string>`max(${details}->>'endDate')`,
+						totalEvents: sql<number>`sum(coalesce((${details}->>'totalEvents')::int, (${details}->>'eventsVerified')::int, 0))::int`,
+						failedVerifications: sql<number>`sum(coalesce((${details}->>'failedVerifications')::int, 0))::int`,
+						unverifiedEvents: sql<number>`sum(coalesce((${details}->>'unverifiedEvents')::int, 0))::int`,
+						intact: sql<boolean>`bool_and(${auditIntegrityLog.verificationStatus} = 'success')`,
+						verifiedAt,
+						verifiedBy: sql<string | null>`min(${auditIntegrityLog.verifiedBy})`,
+					})
+					.from(auditIntegrityLog)
+					.where(
+						and(
+							sql`${details}->>'organizationId' = ${organizationId}`,
+							sql`${details}->>'type' in ('integrity_report', 'hash_chain')`
+						)
+					)
+					.groupBy(runId)
+					.orderBy(desc(verifiedAt))
+					.limit(input?.limit ?? 20)
+			} catch (e) {
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to list integrity verification runs: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to list integrity verification runs: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'processComplianceIntegrityHistory'
+				)
+				throw err
+			}
+		}),
 } satisfies TRPCRouterRecord
 
 const complianceExportRouter = {
+	/**
+	 * Verify a date range and return the signed PDF attestation of the outcome
+	 * The range is verified again on the server so the attestation never relies on client figures.
+	 * The document is returned base64 encoded for download.
+	 */
+	integrityAttestation: protectedProcedure
+		.input(
+			z.object({
+				startDate: z.string().datetime(),
+				endDate: z.string().datetime(),
+			})
+		)
+		.mutation(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const criteria = {
+				dateRange: { startDate: input.startDate, endDate: input.endDate },
+				organizationIds: [ctx.session?.session.activeOrganizationId as string],
+			}
+
+			try {
+				const report = await compliance.report.generateIntegrityVerificationReport(criteria, true)
+				const exportResult = await compliance.export.exportIntegrityReport(
+					{ ...report, verifiedBy: ctx.session?.session.userId },
+					criteria,
+					{ format: 'pdf' }
+				)
+				return {
+					filename: exportResult.filename,
+					contentType: exportResult.contentType,
+					checksum: exportResult.checksum,
+					data: Buffer.from(exportResult.data).toString('base64'),
+				}
+			} catch (e) {
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to generate integrity attestation: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to generate integrity attestation: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'processComplianceIntegrityAttestation'
+				)
+				throw err
+			}
+		}),
 	/**
 	 * Generate general compliance export
 	 */
@@ -283,9 +430,9 @@ const complianceExportRouter = {
 		}),
 } satisfies TRPCRouterRecord
 
-const complianceRouter = createTRPCRouter({
+const complianceRouter = {
 	report: complianceReportsRouter,
 	export: complianceExportRouter,
-})
+} satisfies TRPCRouterRecord
 
 export { complianceRouter }
@@ -10,26 +10,29 @@ import {
 	publicProcedure,
 } from '@/lib/trpc'
 import { TRPCError } from '@trpc/server'
-import {
-	and,
-	asc,
-	count,
-	desc,
-	eq,
-	gte,
-	inArray,
-	isNotNull,
-	isNull,
-	like,
-	lte,
-	or,
-	sql,
-} from 'drizzle-orm'
+import { and, asc, count, desc, eq, gte, inArray, isNotNull, isNull, lte, sql } from 'drizzle-orm'
 import { z } from 'zod'
 
+import {
+	AggregationError,
+	compileAggregation,
+	decodeEventCursor,
+	eventCursorCondition,
+	EventCursorError,
+	eventCursorOrderBy,
+	EXPORT_COLUMNS,
+	ExportJobError,
+	runAggregation,
+	textSearchCondition,
+	textSearchQuery,
+	textSearchRank,
+	textSearchSnippet,
+	toEventCursorPage,
+} from '@repo/audit'
 import { auditLog } from '@repo/audit-db'
 
 import type { TRPCRouterRecord } from '@trpc/server'
+import type { AggregationResult, ExportJobRequest } from '@repo/audit'
 
 // Helper function to get sort field safely
 function getSortField(auditLog: any, field: string) {
@@ -94,7 +97,10 @@ const QueryAuditEventsSchema = z.object({
 		.optional(),
 	pagination: z.object({
 		limit: z.number().min(1).max(1000).default(50),
+		// Legacy: deep offsets get slower with every page, prefer the cursor
 		offset: z.number().min(0).default(0),
+		// nextCursor of the previous page; requires timestamp ordering
+		cursor: z.string().optional(),
 	}),
 	sort: z
 		.object({
@@ -109,6 +115,12 @@ const VerifyAuditEventSchema = z.object({
 	includeChain: z.boolean().default(false),
 })
 
+const VerifyChainSchema = z.object({
+	startDate: z.string().datetime(),
+	endDate: z.string().datetime(),
+	batchSize: z.number().int().min(1).max(10000).optional(),
+})
+
 const BulkCreateAuditEventsSchema = z.object({
 	events: z.array(CreateAuditEventSchema).min(1).max(100),
 	validateIntegrity: z.boolean().default(true),
@@ -116,18 +128,44 @@ const BulkCreateAuditEventsSchema = z.object({
 
 const ExportAuditEventsSchema = z.object({
 	filter: QueryAuditEventsSchema.shape.filter,
-	format: z.enum(['json', 'csv', 'xml']).default('json'),
+	format: z.enum(['json', 'ndjson', 'csv', 'xml', 'pdf']).default('json'),
 	includeMetadata: z.boolean().default(true),
+	// Accepted for existing callers, rejected by the export procedure
 	includeIntegrityReport: z.boolean().default(false),
-	compression: z.enum(['none', 'zip', 'gzip']).default('none'),
+	compression: z.enum(['none', 'gzip', 'zip']).default('none'),
+	columns: z.array(z.enum(EXPORT_COLUMNS)).min(1).optional(),
 	encryption: z
-		.object({
-			enabled: z.boolean(),
-			algorithm: z.string().optional(),
-		})
+		.object({ passphrase: z.string().min(12, 'Passphrase must be at least 12 characters') })
 		.optional(),
+	delivery: z
+		.discriminatedUnion('method', [
+			z.object({ method: z.literal('download') }),
+			z.object({
+				method: z.literal('email'),
+				recipients: z.array(z.string().email()).min(1).max(20),
+			}),
+		])
+		.default({ method: 'download' }),
 })
 
+type ExportFilterInput = z.infer<typeof ExportAuditEventsSchema>['filter']
+
+// The query filter fields an export supports
+function toExportFilter(filter: ExportFilterInput): ExportJobRequest['filter'] {
+	return (
+		filter && {
+			dateRange: filter.dateRange,
+			principalIds: filter.principalIds,
+			actions: filter.actions,
+			statuses: filter.statuses,
+			dataClassifications: filter.dataClassifications,
+			resourceTypes: filter.resourceTypes,
+			resourceIds: filter.resourceIds,
+			verifiedOnly: filter.verifiedOnly,
+		}
+	)
+}
+
 /**
  * Enhanced TRPC router for comprehensive audit event operations
  * Requirements: 1.1, 1.2, 1.3, 1.4, 1.5
@@ -339,24 +377,50 @@ export const eventsRouter = {
 
 			const whereClause = and(...conditions)
 
-			const cacheKey = client.generateCacheKey('audit_events_query', filter)
+			// Timestamp ordering pages with keyset cursors, other orderings fall back to offsets
+			const { limit, offset } = input.pagination
+			const direction = input.sort?.direction ?? 'desc'
+			const keyset = (input.sort?.field ?? 'timestamp') === 'timestamp'
+			const cursor = input.pagination.cursor
+				? decodeEventCursor(input.pagination.cursor, direction)
+				: undefined
+			if (cursor && !keyset) {
+				throw new EventCursorError('Cursor pagination requires timestamp ordering')
+			}
+
+			const cacheKey = client.generateCacheKey('audit_events_query', {
+				...filter,
+				pagination: input.pagination,
+				sort: input.sort,
+			})
 			// Execute query with proper error handling
-			const events = await client.executeMonitoredQuery(
+			const rows = await client.executeMonitoredQuery(
 				(db) =>
-					db
-						.select()
-						.from(auditLog)
-						.where(whereClause)
-						.limit(input.pagination.limit)
-						.offset(input.pagination.offset)
-						.orderBy(
-							input.sort?.direction === 'asc'
-								? asc(getSortField(auditLog, input.sort.field))
-								: desc(getSortField(auditLog, input.sort?.field || 'timestamp'))
-						),
+					keyset
+						? db
+								.select()
+								.from(auditLog)
+								.where(cursor ? and(whereClause, eventCursorCondition(cursor)) : whereClause)
+								.orderBy(...eventCursorOrderBy(direction))
+								.limit(limit + 1)
+								.offset(cursor ? 0 : offset)
+						: db
+								.select()
+								.from(auditLog)
+								.where(whereClause)
+								.limit(limit + 1)
+								.offset(offset)
+								.orderBy(
+									direction === 'asc'
+										? asc(getSortField(auditLog, input.sort!.field))
+										: desc(getSortField(auditLog, input.sort!.field))
+								),
 				'audit_events_query',
 				{ cacheKey }
 			)
+			const { items: events, nextCursor } = keyset
+				? toEventCursorPage(rows, limit, direction)
+				: { items: rows.slice(0, limit), nextCursor: null }
 
 			const cacheKeyCount = client.generateCacheKey('audit_events_query_count', filter)
 			// Get total count for pagination
@@ -379,13 +443,21 @@ export const eventsRouter = {
 				events,
 				pagination: {
 					total,
-					limit: input.pagination.limit,
-					offset: input.pagination.offset,
-					hasNext: input.pagination.offset + input.pagination.limit < total,
-					hasPrevious: input.pagination.offset > 0,
+					limit,
+					offset: cursor ? 0 : offset,
+					hasNext: rows.length > limit,
+					hasPrevious: cursor !== undefined || offset > 0,
+					nextCursor,
 				},
 			}
 		} catch (e) {
+			if (e instanceof EventCursorError) {
+				throw new TRPCError({
+					code: 'BAD_REQUEST',
+					message: e.message,
+				})
+			}
+
 			const message = e instanceof Error ? e.message : 'Unknown error'
 			logger.error(`Failed to query audit events: ${message}`)
 
@@ -607,103 +679,114 @@ export const eventsRouter = {
 	}),
 
 	/**
-	 * Export audit events with various formats and options
-	 * Requirement 1.2: Input validation using Zod schemas
+	 * Verify the organization's hash chain over a time range
+	 * Reports the first broken link and records the outcome in the integrity log
 	 */
-	export: auditReadProcedure.input(ExportAuditEventsSchema).mutation(async ({ ctx, input }) => {
-		const { compliance, logger, error } = ctx.services
+	verifyChain: auditVerifyProcedure.input(VerifyChainSchema).mutation(async ({ ctx, input }) => {
+		const { integrity, logger, error } = ctx.services
 		const organizationId = ctx.session?.session.activeOrganizationId as string
 
 		try {
-			const { eq, and, gte, lte, inArray, isNotNull } = await import('drizzle-orm')
-			const { auditLog } = await import('@repo/audit-db/dist/db/schema.js')
-
-			// Build query conditions with organization isolation
-			const conditions = [eq(auditLog.organizationId, organizationId)]
-
-			if (input.filter?.dateRange) {
-				conditions.push(gte(auditLog.timestamp, input.filter.dateRange.startDate))
-				conditions.push(lte(auditLog.timestamp, input.filter.dateRange.endDate))
-			}
-
-			if (input.filter?.principalIds?.length) {
-				conditions.push(inArray(auditLog.principalId, input.filter.principalIds))
-			}
-
-			if (input.filter?.actions?.length) {
-				conditions.push(inArray(auditLog.action, input.filter.actions))
-			}
+			const result = await integrity.chain.verifyChain({
+				organizationId,
+				startDate: input.startDate,
+				endDate: input.endDate,
+				verifiedBy: ctx.session?.session.userId,
+				batchSize: input.batchSize,
+			})
 
-			if (input.filter?.statuses?.length) {
-				conditions.push(inArray(auditLog.status, input.filter.statuses))
-			}
+			logger.info('Audit hash chain verification completed', {
+				organizationId,
+				verificationId: result.verificationId,
+				eventsVerified: result.eventsVerified,
+				intact: result.intact,
+				brokenEventId: result.firstBreak?.eventId,
+			})
 
-			if (input.filter?.dataClassifications?.length) {
-				conditions.push(inArray(auditLog.dataClassification, input.filter.dataClassifications))
-			}
+			return result
+		} catch (e) {
+			const message = e instanceof Error ? e.message : 'Unknown error'
+			logger.error(`Failed to verify audit hash chain: ${message}`)
 
-			if (input.filter?.resourceTypes?.length) {
-				conditions.push(inArray(auditLog.targetResourceType, input.filter.resourceTypes))
-			}
+			const err = new TRPCError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message: `Failed to verify audit hash chain: ${message}`,
+				cause: e,
+			})
 
-			if (input.filter?.resourceIds?.length) {
-				conditions.push(inArray(auditLog.targetResourceId, input.filter.resourceIds))
-			}
+			await error.handleError(
+				err,
+				{
+					requestId: ctx.requestId,
+					userId: ctx.session?.session.userId,
+					sessionId: ctx.session?.session.id,
+					metadata: {
+						organizationId,
+						startDate: input.startDate,
+						endDate: input.endDate,
+						message: err.message,
+						name: err.name,
+						code: err.code,
+					},
+				},
+				'trpc-api',
+				'events.verifyChain'
+			)
 
-			if (input.filter?.verifiedOnly) {
-				conditions.push(isNotNull(auditLog.hash))
-			}
+			throw err
+		}
+	}),
 
-			const whereClause = and(...conditions)
+	/**
+	 * Export audit events with various formats and options
+	 * Requirement 1.2: Input validation using Zod schemas
+	 *
+	 * The export is queued as a job and streamed into storage in the background;
+	 * follow it with exportStatus and download it over REST once completed.
+	 */
+	export: auditReadProcedure.input(ExportAuditEventsSchema).mutation(async ({ ctx, input }) => {
+		const { compliance, logger, error } = ctx.services
+		const organizationId = ctx.session?.session.activeOrganizationId as string
 
-			const cacheKey = ctx.services.client.generateCacheKey('audit_events_export', {
-				organizationId,
-				...input,
+		if (input.includeIntegrityReport) {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message:
+					'Exports no longer include an integrity report, verify the events with events.verifyChain instead',
 			})
-			// Query events from database
-			const dbEvents = await ctx.services.client.executeMonitoredQuery(
-				(db) => db.select().from(auditLog).where(whereClause).limit(10000), // Reasonable limit for export
-				'audit_events_export',
-				{ cacheKey }
-			)
+		}
+		if (input.compression === 'zip') {
+			throw new TRPCError({
+				code: 'BAD_REQUEST',
+				message: 'zip compression is no longer supported for exports, use gzip instead',
+			})
+		}
 
-			// Convert database events to ComplianceReportEvent format
-			const events = dbEvents.map((event) => ({
-				id: event.id,
-				timestamp: event.timestamp,
-				principalId: event.principalId || undefined,
-				organizationId: event.organizationId || undefined,
-				action: event.action,
-				targetResourceType: event.targetResourceType || undefined,
-				targetResourceId: event.targetResourceId || undefined,
-				status: event.status,
-				outcomeDescription: event.outcomeDescription || undefined,
-				dataClassification: event.dataClassification || undefined,
-				correlationId: event.correlationId || undefined,
-				integrityStatus: (event.hash ? 'verified' : 'not_checked') as
-					| 'verified'
-					| 'failed'
-					| 'not_checked',
-			})) as any[]
-
-			// Use the compliance export service
-			const exportResult = await compliance.export.exportAuditEvents(events, {
+		try {
+			const job = await compliance.jobs.createJob({
+				organizationId,
+				requestedBy: ctx.session?.session.userId as string,
+				filter: toExportFilter(input.filter),
 				format: input.format,
 				includeMetadata: input.includeMetadata,
-				includeIntegrityReport: input.includeIntegrityReport,
 				compression: input.compression,
-				encryption: input.encryption,
+				columns: input.columns,
+				passphrase: input.encryption?.passphrase,
+				delivery: input.delivery,
 			})
 
-			logger.info('Audit events exported successfully', {
+			logger.info('Audit events export queued', {
 				organizationId,
 				format: input.format,
-				recordCount: dbEvents.length,
-				exportId: exportResult.exportId,
+				exportId: job.id,
 			})
 
-			return exportResult
+			return job
 		} catch (e) {
+			if (e instanceof ExportJobError) {
+				throw new TRPCError({ code: 'PRECONDITION_FAILED', message: e.message })
+			}
+
 			const message = e instanceof Error ? e.message : 'Unknown error'
 			logger.error(`Failed to export audit events: ${message}`)
 
@@ -736,6 +819,211 @@ export const eventsRouter = {
 		}
 	}),
 
+	/**
+	 * Count the events an export with the given filter would contain
+	 */
+	exportEstimate: auditReadProcedure
+		.input(z.object({ filter: ExportAuditEventsSchema.shape.filter }))
+		.query(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+
+			try {
+				const count = await compliance.stream.countEvents({
+					...toExportFilter(input.filter),
+					organizationId,
+				})
+
+				return { count }
+			} catch (e) {
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to estimate export size: ${message}`)
+
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to estimate export size: ${message}`,
+					cause: e,
+				})
+
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId,
+							filter: input.filter,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+						},
+					},
+					'trpc-api',
+					'events.exportEstimate'
+				)
+
+				throw err
+			}
+		}),
+
+	/**
+	 * Get the status and progress of an export job
+	 */
+	exportStatus: auditReadProcedure
+		.input(z.object({ id: z.string().min(1, 'Export ID is required') }))
+		.query(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+
+			try {
+				const job = await compliance.jobs.getJob(organizationId, input.id)
+
+				if (!job) {
+					throw new TRPCError({
+						code: 'NOT_FOUND',
+						message: 'Export not found',
+					})
+				}
+
+				return job
+			} catch (e) {
+				if (e instanceof TRPCError) {
+					throw e
+				}
+
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to get export status: ${message}`)
+
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to get export status: ${message}`,
+					cause: e,
+				})
+
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId,
+							exportId: input.id,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+						},
+					},
+					'trpc-api',
+					'events.exportStatus'
+				)
+
+				throw err
+			}
+		}),
+
+	/**
+	 * List recent export jobs of the organization
+	 */
+	exports: auditReadProcedure
+		.input(
+			z.object({
+				limit: z.number().int().min(1).max(100).default(20),
+				offset: z.number().int().min(0).default(0),
+			})
+		)
+		.query(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+
+			try {
+				return await compliance.jobs.listJobs(organizationId, input.limit, input.offset)
+			} catch (e) {
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to list exports: ${message}`)
+
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to list exports: ${message}`,
+					cause: e,
+				})
+
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+						},
+					},
+					'trpc-api',
+					'events.exports'
+				)
+
+				throw err
+			}
+		}),
+
+	/**
+	 * Cancel a pending or running export job
+	 */
+	cancelExport: auditReadProcedure
+		.input(z.object({ id: z.string().min(1, 'Export ID is required') }))
+		.mutation(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+
+			try {
+				const job = await compliance.jobs.cancelJob(organizationId, input.id)
+
+				logger.info('Audit events export cancelled', { organizationId, exportId: job.id })
+
+				return job
+			} catch (e) {
+				if (e instanceof ExportJobError) {
+					throw new TRPCError({
+						code: e.code === 'NOT_FOUND' ? 'NOT_FOUND' : 'PRECONDITION_FAILED',
+						message: e.message,
+					})
+				}
+
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to cancel export: ${message}`)
+
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to cancel export: ${message}`,
+					cause: e,
+				})
+
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId,
+							exportId: input.id,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+						},
+					},
+					'trpc-api',
+					'events.cancelExport'
+				)
+
+				throw err
+			}
+		}),
+
 	/**
 	 * Get audit event statistics and metrics
 	 * Requirement 1.3: Complete TypeScript type definitions
@@ -858,6 +1146,7 @@ export const eventsRouter = {
 					})
 					.optional(),
 				includeMetadata: z.boolean().default(true),
+				reason: z.string().max(2000).optional(),
 			})
 		)
 		.mutation(async ({ ctx, input }) => {
@@ -909,6 +1198,7 @@ export const eventsRouter = {
 					includeMetadata: input.includeMetadata,
 					requestedBy,
 					requestTimestamp: new Date().toISOString(),
+					reason: input.reason,
 				}
 
 				const exportResult = await compliance.gdpr.exportUserData(exportRequest)
@@ -973,6 +1263,7 @@ export const eventsRouter = {
 			z.object({
 				principalId: z.string().min(1, 'Principal ID is required'),
 				strategy: z.enum(['hash', 'token', 'encryption']).default('hash'),
+				reason: z.string().max(2000).optional(),
 			})
 		)
 		.mutation(async ({ ctx, input }) => {
@@ -1012,7 +1303,8 @@ export const eventsRouter = {
 				const result = await compliance.gdpr.pseudonymizeUserData(
 					input.principalId,
 					input.strategy,
-					requestedBy
+					requestedBy,
+					{ organizationId, reason: input.reason }
 				)
 
 				logger.info('GDPR data pseudonymization completed', {
@@ -1107,16 +1399,24 @@ export const eventsRouter = {
 					aggregations: z
 						.array(
 							z.object({
+								// Event field, details path such as details.sessionContext.ipAddress, or * with count
 								field: z.string(),
 								type: z.enum(['count', 'sum', 'avg', 'min', 'max']),
 								groupBy: z.string().optional(),
+								// Time buckets over the event timestamp, in UTC
+								interval: z.enum(['hour', 'day', 'week']).optional(),
+								limit: z.number().min(1).max(1000).optional(),
 							})
 						)
+						.max(10)
 						.optional(),
 				}),
 				pagination: z.object({
 					limit: z.number().min(1).max(1000).default(50),
+					// Legacy: deep offsets get slower with every page, prefer the cursor
 					offset: z.number().min(0).default(0),
+					// nextCursor of the previous page; requires timestamp ordering without text search
+					cursor: z.string().optional(),
 				}),
 				sort: z
 					.array(
@@ -1133,21 +1433,19 @@ export const eventsRouter = {
 			const organizationId = ctx.session?.session.activeOrganizationId as string
 
 			try {
+				// Validate aggregations before running any query
+				const aggregations = input.query.aggregations?.map(compileAggregation) ?? []
+
 				// Build base conditions with organization isolation
 				const conditions = [eq(auditLog.organizationId, organizationId)]
 
-				// TODO: Text search across multiple fields (fix Type 'undefined' is not assignable to type 'SQL<unknown>'.ts(2345))
-				/**if (input.query.searchText) {
-					const searchText = `%${input.query.searchText}%`
-					const searchConditions = [
-						like(auditLog.action, searchText),
-						sql`${auditLog.outcomeDescription} IS NOT NULL AND ${auditLog.outcomeDescription} LIKE ${searchText}`,
-						sql`${auditLog.targetResourceType} IS NOT NULL AND ${auditLog.targetResourceType} LIKE ${searchText}`,
-						sql`${auditLog.targetResourceId} IS NOT NULL AND ${auditLog.targetResourceId} LIKE ${searchText}`,
-					]
-					searchConditions.filter((expr) => expr !== undefined)
-					conditions.push(or(...searchConditions))
-				}*/
+				// Full-text search across action, outcome, target resource, principal and details
+				const textQuery = input.query.searchText?.trim()
+					? textSearchQuery(input.query.searchText)
+					: undefined
+				if (textQuery) {
+					conditions.push(textSearchCondition(textQuery))
+				}
 
 				// Date range filters
 				if (input.query.dateRanges) {
@@ -1257,25 +1555,66 @@ export const eventsRouter = {
 					})
 				}
 
+				// Keyset cursors page through timestamp order; relevance and other orderings use offsets
+				const { limit, offset } = input.pagination
+				const direction = input.sort?.[0]?.direction ?? 'desc'
+				const keyset =
+					!textQuery &&
+					(!input.sort?.length || (input.sort.length === 1 && input.sort[0].field === 'timestamp'))
+				const cursor = input.pagination.cursor
+					? decodeEventCursor(input.pagination.cursor, direction)
+					: undefined
+				if (cursor && !keyset) {
+					throw new EventCursorError(
+						'Cursor pagination requires timestamp ordering without text search'
+					)
+				}
+
 				const cacheKey = client.generateCacheKey('events_advancedSearch', {
 					organizationId,
 					...input,
 				})
 				// Execute main query
-				let events = await client.executeMonitoredQuery(
-					(db) => {
-						let query = db
+				const rows = await client.executeMonitoredQuery(
+					async (db) => {
+						if (textQuery) {
+							// Most relevant first unless a sort was requested
+							const hits = await db
+								.select({
+									event: auditLog,
+									rank: textSearchRank(textQuery).as('rank'),
+									snippet: textSearchSnippet(textQuery).as('snippet'),
+								})
+								.from(auditLog)
+								.where(whereClause)
+								.orderBy(...(orderBy ?? [desc(sql`rank`), desc(auditLog.timestamp)]))
+								.limit(limit + 1)
+								.offset(offset)
+
+							return hits.map(({ event, rank, snippet }) => ({
+								...event,
+								rank: Number(rank),
+								snippet,
+							}))
+						}
+
+						if (keyset) {
+							return db
+								.select()
+								.from(auditLog)
+								.where(cursor ? and(whereClause, eventCursorCondition(cursor)) : whereClause)
+								.orderBy(...eventCursorOrderBy(direction))
+								.limit(limit + 1)
+								.offset(cursor ? 0 : offset)
+						}
+
+						return db
 							.select()
 							.from(auditLog)
 							.where(whereClause)
-							.limit(input.pagination.limit)
-							.offset(input.pagination.offset)
-
-						if (input.sort?.length && orderBy) {
-							return query.orderBy(...orderBy)
-						} else {
-							return query.orderBy(desc(auditLog.timestamp))
-						}
+							.orderBy(...orderBy)
+							.limit(limit + 1)
+							.offset(offset)
 					},
 					'events_advancedSearch',
 					{ cacheKey }
@@ -1293,17 +1632,26 @@ export const eventsRouter = {
 				)
 
 				const total = totalResult[0]?.count || 0
-
-				// TODO: Execute aggregations if requested
-				let aggregationResults = null
-				/**if (input.query.aggregations?.length) {
-					aggregationResults = {}
-					for (const agg of input.query.aggregations) {
-						// This would need proper implementation based on the aggregation type
-						// For now, return placeholder
-						aggregationResults[`${agg.type}_${agg.field}`] = 0
-					}
-				}*/
+				const { items: events, nextCursor } = keyset
+					? toEventCursorPage(rows, limit, direction)
+					: { items: rows.slice(0, limit), nextCursor: null }
+
+				// Execute aggregations if requested
+				let aggregationResults: AggregationResult[] | null = null
+				if (aggregations.length) {
+					const cacheKeyAggregations = client.generateCacheKey(
+						'audit_events_advancedSearch_aggregations',
+						{ organizationId, ...input }
+					)
+					aggregationResults = await client.executeMonitoredQuery(
+						(db) =>
+							Promise.all(
+								aggregations.map((aggregation) => runAggregation(db, whereClause, aggregation))
+							),
+						'audit_events_advancedSearch_aggregations',
+						{ cacheKey: cacheKeyAggregations }
+					)
+				}
 
 				logger.info('Advanced audit search completed', {
 					organizationId,
@@ -1317,15 +1665,23 @@ export const eventsRouter = {
 					events,
 					pagination: {
 						total,
-						limit: input.pagination.limit,
-						offset: input.pagination.offset,
-						hasNext: input.pagination.offset + input.pagination.limit < total,
-						hasPrevious: input.pagination.offset > 0,
+						limit,
+						offset: cursor ? 0 : offset,
+						hasNext: rows.length > limit,
+						hasPrevious: cursor !== undefined || offset > 0,
+						nextCursor,
 					},
 					aggregations: aggregationResults,
 					query: input.query,
 				}
 			} catch (e) {
+				if (e instanceof AggregationError || e instanceof EventCursorError) {
+					throw new TRPCError({
+						code: 'BAD_REQUEST',
+						message: e.message,
+					})
+				}
+
 				const message = e instanceof Error ? e.message : 'Unknown error'
 				logger.error(`Failed to perform advanced audit search: ${message}`)
 
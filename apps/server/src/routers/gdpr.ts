@@ -0,0 +1,454 @@
+import { orgAdminProcedure } from '@/lib/trpc'
+import { TRPCError } from '@trpc/server'
+import z from 'zod'
+
+import { DataSubjectRequestError, PseudonymVaultError } from '@repo/audit'
+
+import type { Context } from '@/lib/trpc/context'
+import type { TRPCRouterRecord } from '@trpc/server'
+
+const ReidentificationStatusSchema = z.enum(['pending', 'approved', 'rejected', 'completed'])
+
+const PseudonymizeDetailsSchema = z
+	.object({
+		paths: z
+			.array(
+				z
+					.string()
+					.max(255)
+					.regex(
+						/^[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/,
+						'Details paths are dot-separated field names'
+					)
+			)
+			.min(1)
+			.optional(),
+		principalId: z.string().optional(),
+		dateRange: z
+			.object({
+				start: z.string().datetime(),
+				end: z.string().datetime(),
+			})
+			.optional(),
+		strategy: z.enum(['hash', 'token', 'encryption']).default('hash'),
+	})
+	.optional()
+
+const RequestReidentificationSchema = z.object({
+	pseudonymId: z.string().min(1).max(255),
+	legalBasis: z.string().min(1).max(255),
+	justification: z.string().min(1).max(2000),
+	caseReference: z.string().max(255).optional(),
+})
+
+const DataSubjectRequestStatusSchema = z.enum([
+	'received',
+	'verified',
+	'in_progress',
+	'completed',
+	'rejected',
+])
+
+const DataSubjectRightTypeSchema = z.enum([
+	'access',
+	'rectification',
+	'erasure',
+	'portability',
+	'restriction',
+])
+
+const CreateDataSubjectRequestSchema = z.object({
+	requestType: DataSubjectRightTypeSchema,
+	principalId: z.string().min(1).max(255),
+	subjectName: z.string().max(255).optional(),
+	subjectEmail: z.string().email().max(255).optional(),
+	description: z.string().max(5000).optional(),
+	receivedAt: z.string().datetime().optional(),
+})
+
+const ErasePrincipalSchema = z.object({
+	principalId: z.string().min(1).max(255),
+	reason: z.string().min(1, 'A reason is required').max(2000),
+	// Authentication and GDPR events are pseudonymized instead of deleted
+	preserveComplianceAudits: z.boolean().default(true),
+})
+
+const refusalCodes = {
+	NOT_FOUND: 'NOT_FOUND',
+	FORBIDDEN: 'FORBIDDEN',
+	CONFLICT: 'CONFLICT',
+	INVALID: 'BAD_REQUEST',
+} as const
+
+/**
+ * Report a failed GDPR procedure, keeping the refusals of the GDPR services as client errors
+ */
+async function handleGdprError(
+	ctx: Context,
+	e: unknown,
+	procedure: string,
+	action: string
+): Promise<never> {
+	if (e instanceof TRPCError) {
+		throw e
+	}
+
+	const { logger, error } = ctx.services
+	const message = e instanceof Error ? e.message : 'Unknown error'
+	logger.error(`Failed to ${action}: ${message}`)
+	const err =
+		e instanceof PseudonymVaultError || e instanceof DataSubjectRequestError
+			? new TRPCError({ code: refusalCodes[e.code], message })
+			: new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to ${action}: ${message}`,
+				})
+	await error.handleError(
+		err,
+		{
+			requestId: ctx.requestId,
+			userId: ctx.session?.session.userId,
+			sessionId: ctx.session?.session.id,
+			metadata: {
+				organizationId: ctx.session?.session.activeOrganizationId,
+				message: err.message,
+				name: err.name,
+				code: err.code,
+				cause: err.cause,
+			},
+		},
+		'trpc-api',
+		`gdpr.${procedure}`
+	)
+	throw err
+}
+
+function requireVault(ctx: Context) {
+	if (!ctx.services.compliance.vault) {
+		throw new TRPCError({
+			code: 'PRECONDITION_FAILED',
+			message: 'Reversible pseudonyms require the KMS to be enabled',
+		})
+	}
+}
+
+const gdprRouter = {
+	pseudonymizeDetails: orgAdminProcedure
+		.input(PseudonymizeDetailsSchema)
+		.mutation(async ({ ctx, input }) => {
+			const { compliance, config } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				if (input?.strategy && input.strategy !== 'hash') requireVault(ctx)
+				const paths = input?.paths ?? config.getConfig().compliance.gdpr.pseudonymizationPaths
+				if (!paths || paths.length === 0) {
+					throw new TRPCError({
+						code: 'BAD_REQUEST',
+						message: 'No details paths given and none are configured',
+					})
+				}
+				return await compliance.gdpr.pseudonymizeDetailFields({
+					paths,
+					organizationId,
+					principalId: input?.principalId,
+					dateRange: input?.dateRange,
+					strategy: input?.strategy,
+					requestedBy: ctx.session!.session.userId,
+				})
+			} catch (e) {
+				return handleGdprError(ctx, e, 'pseudonymizeDetails', 'pseudonymize details fields')
+			}
+		}),
+	listReidentificationRequests: orgAdminProcedure
+		.input(z.object({ status: ReidentificationStatusSchema.optional() }).optional())
+		.query(async ({ ctx, input }) => {
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				requireVault(ctx)
+				return await ctx.services.compliance.gdpr.listReidentificationRequests(
+					organizationId,
+					input?.status
+				)
+			} catch (e) {
+				return handleGdprError(
+					ctx,
+					e,
+					'listReidentificationRequests',
+					'list re-identification requests'
+				)
+			}
+		}),
+	requestReidentification: orgAdminProcedure
+		.input(RequestReidentificationSchema)
+		.mutation(async ({ ctx, input }) => {
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				requireVault(ctx)
+				return await ctx.services.compliance.gdpr.requestReidentification(
+					organizationId,
+					input,
+					ctx.session!.session.userId
+				)
+			} catch (e) {
+				return handleGdprError(ctx, e, 'requestReidentification', 'request re-identification')
+			}
+		}),
+	approveReidentification: orgAdminProcedure
+		.input(z.object({ id: z.string(), comment: z.string().max(2000).optional() }))
+		.mutation(async ({ ctx, input }) => {
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				requireVault(ctx)
+				return await ctx.services.compliance.gdpr.approveReidentification(
+					organizationId,
+					input.id,
+					ctx.session!.session.userId,
+					input.comment
+				)
+			} catch (e) {
+				return handleGdprError(ctx, e, 'approveReidentification', 'approve re-identification')
+			}
+		}),
+	rejectReidentification: orgAdminProcedure
+		.input(z.object({ id: z.string(), reason: z.string().min(1).max(2000) }))
+		.mutation(async ({ ctx, input }) => {
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				requireVault(ctx)
+				return await ctx.services.compliance.gdpr.rejectReidentification(
+					organizationId,
+					input.id,
+					ctx.session!.session.userId,
+					input.reason
+				)
+			} catch (e) {
+				return handleGdprError(ctx, e, 'rejectReidentification', 'reject re-identification')
+			}
+		}),
+	/**
+	 * Reveal the original of an approved request, once, to its requester
+	 */
+	reidentify: orgAdminProcedure
+		.input(z.object({ id: z.string() }))
+		.mutation(async ({ ctx, input }) => {
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				requireVault(ctx)
+				return await ctx.services.compliance.gdpr.reidentify(
+					organizationId,
+					input.id,
+					ctx.session!.session.userId
+				)
+			} catch (e) {
+				return handleGdprError(ctx, e, 'reidentify', 're-identify pseudonym')
+			}
+		}),
+	/**
+	 * Events of a data subject by action and classification, to preview an operation
+	 */
+	footprint: orgAdminProcedure
+		.input(z.object({ principalId: z.string().min(1).max(255) }))
+		.query(async ({ ctx, input }) => {
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				return await ctx.services.compliance.gdpr.getPrincipalFootprint(
+					organizationId,
+					input.principalId
+				)
+			} catch (e) {
+				return handleGdprError(ctx, e, 'footprint', 'get data subject footprint')
+			}
+		}),
+	/**
+	 * GDPR operations recorded in the audit trail, most recent first
+	 */
+	activity: orgAdminProcedure
+		.input(
+			z
+				.object({
+					principalId: z.string().min(1).max(255).optional(),
+					limit: z.number().int().min(1).max(200).default(50),
+				})
+				.optional()
+		)
+		.query(async ({ ctx, input }) => {
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				return await ctx.services.compliance.gdpr.listGDPRActivity(organizationId, input)
+			} catch (e) {
+				return handleGdprError(ctx, e, 'activity', 'list GDPR activity')
+			}
+		}),
+	/**
+	 * Erase the events of a data subject in the organization, keeping those under legal hold
+	 */
+	erase: orgAdminProcedure.input(ErasePrincipalSchema).mutation(async ({ ctx, input }) => {
+		const organizationId = ctx.session?.session.activeOrganizationId as string
+		try {
+			return await ctx.services.compliance.gdpr.deleteUserDataWithAuditTrail(
+				input.principalId,
+				ctx.session!.session.userId,
+				input.preserveComplianceAudits,
+				{ organizationId, reason: input.reason }
+			)
+		} catch (e) {
+			return handleGdprError(ctx, e, 'erase', 'erase data subject events')
+		}
+	}),
+	/**
+	 * Data subject request case management
+	 */
+	dsr: {
+		list: orgAdminProcedure
+			.input(
+				z
+					.object({
+						status: DataSubjectRequestStatusSchema.optional(),
+						requestType: DataSubjectRightTypeSchema.optional(),
+					})
+					.optional()
+			)
+			.query(async ({ ctx, input }) => {
+				const organizationId = ctx.session?.session.activeOrganizationId as string
+				try {
+					return await ctx.services.compliance.dsr.listRequests(organizationId, input)
+				} catch (e) {
+					return handleGdprError(ctx, e, 'dsr.list', 'list data subject requests')
+				}
+			}),
+		summary: orgAdminProcedure.query(async ({ ctx }) => {
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				return await ctx.services.compliance.dsr.getSummary(organizationId)
+			} catch (e) {
+				return handleGdprError(ctx, e, 'dsr.summary', 'summarize data subject requests')
+			}
+		}),
+		get: orgAdminProcedure.input(z.object({ id: z.string() })).query(async ({ ctx, input }) => {
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				const request = await ctx.services.compliance.dsr.getRequest(organizationId, input.id)
+				if (!request) {
+					throw new TRPCError({ code: 'NOT_FOUND', message: 'Data subject request not found' })
+				}
+				return request
+			} catch (e) {
+				return handleGdprError(ctx, e, 'dsr.get', 'get data subject request')
+			}
+		}),
+		create: orgAdminProcedure
+			.input(CreateDataSubjectRequestSchema)
+			.mutation(async ({ ctx, input }) => {
+				const organizationId = ctx.session?.session.activeOrganizationId as string
+				try {
+					return await ctx.services.compliance.dsr.createRequest(
+						organizationId,
+						input,
+						ctx.session!.session.userId
+					)
+				} catch (e) {
+					return handleGdprError(ctx, e, 'dsr.create', 'create data subject request')
+				}
+			}),
+		verifyIdentity: orgAdminProcedure
+			.input(
+				z.object({
+					id: z.string(),
+					method: z.enum(['email', 'account_login', 'identity_document', 'in_person', 'other']),
+					notes: z.string().max(2000).optional(),
+				})
+			)
+			.mutation(async ({ ctx, input }) => {
+				const organizationId = ctx.session?.session.activeOrganizationId as string
+				try {
+					return await ctx.services.compliance.dsr.verifyIdentity(
+						organizationId,
+						input.id,
+						{ method: input.method, notes: input.notes },
+						ctx.session!.session.userId
+					)
+				} catch (e) {
+					return handleGdprError(ctx, e, 'dsr.verifyIdentity', 'verify data subject identity')
+				}
+			}),
+		/**
+		 * Fulfil an access, portability or erasure request
+		 * Exports are returned base64 encoded for download.
+		 */
+		fulfil: orgAdminProcedure
+			.input(z.object({ id: z.string(), format: z.enum(['json', 'csv', 'xml']).optional() }))
+			.mutation(async ({ ctx, input }) => {
+				const organizationId = ctx.session?.session.activeOrganizationId as string
+				try {
+					const { request, export: exported } = await ctx.services.compliance.dsr.fulfilRequest(
+						organizationId,
+						input.id,
+						ctx.session!.session.userId,
+						{ format: input.format }
+					)
+					return {
+						request,
+						export: exported && {
+							format: exported.format,
+							recordCount: exported.recordCount,
+							data: exported.data.toString('base64'),
+						},
+					}
+				} catch (e) {
+					return handleGdprError(ctx, e, 'dsr.fulfil', 'fulfil data subject request')
+				}
+			}),
+		complete: orgAdminProcedure
+			.input(z.object({ id: z.string(), notes: z.string().min(1).max(5000) }))
+			.mutation(async ({ ctx, input }) => {
+				const organizationId = ctx.session?.session.activeOrganizationId as string
+				try {
+					return await ctx.services.compliance.dsr.completeRequest(
+						organizationId,
+						input.id,
+						ctx.session!.session.userId,
+						input.notes
+					)
+				} catch (e) {
+					return handleGdprError(ctx, e, 'dsr.complete', 'complete data subject request')
+				}
+			}),
+		reject: orgAdminProcedure
+			.input(z.object({ id: z.string(), reason: z.string().min(1).max(2000) }))
+			.mutation(async ({ ctx, input }) => {
+				const organizationId = ctx.session?.session.activeOrganizationId as string
+				try {
+					return await ctx.services.compliance.dsr.rejectRequest(
+						organizationId,
+						input.id,
+						ctx.session!.session.userId,
+						input.reason
+					)
+				} catch (e) {
+					return handleGdprError(ctx, e, 'dsr.reject', 'reject data subject request')
+				}
+			}),
+		extendDeadline: orgAdminProcedure
+			.input(z.object({ id: z.string(), reason: z.string().min(1).max(2000) }))
+			.mutation(async ({ ctx, input }) => {
+				const organizationId = ctx.session?.session.activeOrganizationId as string
+				try {
+					return await ctx.services.compliance.dsr.extendDeadline(
+						organizationId,
+						input.id,
+						ctx.session!.session.userId,
+						input.reason
+					)
+				} catch (e) {
+					return handleGdprError(
+						ctx,
+						e,
+						'dsr.extendDeadline',
+						'extend data subject request deadline'
+					)
+				}
+			}),
+	},
+} satisfies TRPCRouterRecord
+
+export { gdprRouter }
@@ -1,8 +1,11 @@
 import { router } from '@/lib/trpc'
 
 import { alertsRouter } from './alerts'
+import { complianceRouter } from './compliance'
 import { eventsRouter } from './events'
+import { gdprRouter } from './gdpr'
 import { healthRouter } from './health'
+import { legalHoldsRouter } from './legal-holds'
 import { metricsRouter } from './metrics'
 import { performanceRouter } from './performance'
 import { presetsRouter } from './presets'
@@ -17,9 +20,12 @@ export const appRouter = createTRPCRouter({
 	alerts: alertsRouter,
 	templates: templatesRouter,
 	reports: reportsRouter,
+	compliance: complianceRouter,
 	presets: presetsRouter,
 	events: eventsRouter,
 	performance: performanceRouter,
+	legalHolds: legalHoldsRouter,
+	gdpr: gdprRouter,
 })
 
 export type AppRouter = typeof appRouter
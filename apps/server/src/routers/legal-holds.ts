@@ -0,0 +1,234 @@
+import { orgAdminProcedure } from '@/lib/trpc'
+import { TRPCError } from '@trpc/server'
+import z from 'zod'
+
+import type { TRPCRouterRecord } from '@trpc/server'
+
+const LegalHoldStatusSchema = z.enum(['active', 'released'])
+
+const CreateLegalHoldSchema = z
+	.object({
+		name: z.string().min(1).max(255),
+		reason: z.string().min(1).max(2000),
+		custodian: z.string().min(1).max(255),
+		caseReference: z.string().max(255).optional(),
+		principalId: z.string().max(255).optional(),
+		targetResourceType: z.string().max(255).optional(),
+		targetResourceId: z.string().max(255).optional(),
+		startDate: z.string().datetime().optional(),
+		endDate: z.string().datetime().optional(),
+	})
+	.refine((hold) => !hold.startDate || !hold.endDate || hold.startDate <= hold.endDate, {
+		message: 'startDate must not be after endDate',
+		path: ['endDate'],
+	})
+
+const legalHoldsRouter = {
+	list: orgAdminProcedure
+		.input(z.object({ status: LegalHoldStatusSchema.optional() }).optional())
+		.query(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				return await compliance.legalHold.listHolds(organizationId, input?.status)
+			} catch (e) {
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to list legal holds: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to list legal holds: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'legalHolds.list'
+				)
+				throw err
+			}
+		}),
+	get: orgAdminProcedure.input(z.object({ id: z.string() })).query(async ({ ctx, input }) => {
+		const { compliance, logger, error } = ctx.services
+		const organizationId = ctx.session?.session.activeOrganizationId as string
+		try {
+			const hold = await compliance.legalHold.getHold(organizationId, input.id)
+			if (!hold) {
+				throw new TRPCError({
+					code: 'NOT_FOUND',
+					message: `Legal hold ${input.id} not found`,
+				})
+			}
+			return hold
+		} catch (e) {
+			if (e instanceof TRPCError) {
+				throw e
+			}
+
+			const message = e instanceof Error ? e.message : 'Unknown error'
+			logger.error(`Failed to get legal hold ${input.id}: ${message}`)
+			const err = new TRPCError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message: `Failed to get legal hold ${input.id}: ${message}`,
+			})
+			await error.handleError(
+				err,
+				{
+					requestId: ctx.requestId,
+					userId: ctx.session?.session.userId,
+					sessionId: ctx.session?.session.id,
+					metadata: {
+						organizationId: ctx.session?.session.activeOrganizationId,
+						holdId: input.id,
+						message: err.message,
+						name: err.name,
+						code: err.code,
+						cause: err.cause,
+					},
+				},
+				'trpc-api',
+				'legalHolds.get'
+			)
+			throw err
+		}
+	}),
+	create: orgAdminProcedure.input(CreateLegalHoldSchema).mutation(async ({ ctx, input }) => {
+		const { compliance, logger, error } = ctx.services
+		const organizationId = ctx.session?.session.activeOrganizationId as string
+		const createdBy = ctx.session?.session.userId as string
+		try {
+			const hold = await compliance.legalHold.createHold(organizationId, input, createdBy)
+			logger.info(`Legal hold ${hold.id} placed on organization ${organizationId}`)
+			return hold
+		} catch (e) {
+			const message = e instanceof Error ? e.message : 'Unknown error'
+			logger.error(`Failed to create legal hold: ${message}`)
+			const err = new TRPCError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message: `Failed to create legal hold: ${message}`,
+			})
+			await error.handleError(
+				err,
+				{
+					requestId: ctx.requestId,
+					userId: ctx.session?.session.userId,
+					sessionId: ctx.session?.session.id,
+					metadata: {
+						organizationId: ctx.session?.session.activeOrganizationId,
+						message: err.message,
+						name: err.name,
+						code: err.code,
+						cause: err.cause,
+					},
+				},
+				'trpc-api',
+				'legalHolds.create'
+			)
+			throw err
+		}
+	}),
+	release: orgAdminProcedure
+		.input(
+			z.object({
+				id: z.string(),
+				reason: z.string().max(2000).optional(),
+			})
+		)
+		.mutation(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			const releasedBy = ctx.session?.session.userId as string
+			try {
+				const hold = await compliance.legalHold.releaseHold(
+					organizationId,
+					input.id,
+					releasedBy,
+					input.reason
+				)
+				if (!hold) {
+					throw new TRPCError({
+						code: 'NOT_FOUND',
+						message: `Active legal hold ${input.id} not found`,
+					})
+				}
+				logger.info(`Legal hold ${hold.id} released on organization ${organizationId}`)
+				return hold
+			} catch (e) {
+				if (e instanceof TRPCError) {
+					throw e
+				}
+
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to release legal hold ${input.id}: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to release legal hold ${input.id}: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							holdId: input.id,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'legalHolds.release'
+				)
+				throw err
+			}
+		}),
+	blockedActions: orgAdminProcedure
+		.input(z.object({ limit: z.number().int().min(1).max(1000).default(100) }).optional())
+		.query(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				return await compliance.legalHold.listBlockedActions(organizationId, input?.limit)
+			} catch (e) {
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to list actions blocked by legal holds: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to list actions blocked by legal holds: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'legalHolds.blockedActions'
+				)
+				throw err
+			}
+		}),
+} satisfies TRPCRouterRecord
+
+export { legalHoldsRouter }
@@ -2,8 +2,85 @@ import { protectedProcedure } from '@/lib/trpc'
 import { TRPCError } from '@trpc/server'
 import z from 'zod'
 
+import {
+	diffReportTemplates,
+	EXPORT_COLUMNS,
+	REPORT_GROUP_BY,
+	ReportTemplateError,
+} from '@repo/audit'
+
 import type { TRPCRouterRecord } from '@trpc/server'
 
+const ReportTypeSchema = z.enum([
+	'HIPAA_AUDIT_TRAIL',
+	'GDPR_PROCESSING_ACTIVITIES',
+	'GENERAL_COMPLIANCE',
+	'INTEGRITY_VERIFICATION',
+])
+
+const DateRangeSchema = z.object({
+	startDate: z.string(), // Start date for the data range
+	endDate: z.string(), // End date for the data range
+})
+
+const DefaultCriteriaSchema = z.object({
+	principalIds: z.array(z.string()).optional(), // Filter by specific principals/users
+	organizationIds: z.array(z.string()).optional(), // Filter by organization
+	actions: z.array(z.string()).optional(), // Filter by specific actions
+	dataClassifications: z.array(z.enum(['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'PHI'])).optional(), //  Filter by data classification levels
+	statuses: z.array(z.enum(['attempt', 'success', 'failure'])).optional(), // Filter by event status
+	resourceTypes: z.array(z.string()).optional(), // Filter by resource types
+	verifiedOnly: z.boolean().optional(), // Include only events with integrity verification
+	includeIntegrityFailures: z.boolean().optional(), // Include failed integrity checks
+	limit: z.number().optional(), // Maximum number of events to include
+	offset: z.number().optional(), // Offset for pagination
+	sortBy: z.enum(['timestamp', 'status']).optional(),
+	sortOrder: z.enum(['asc', 'desc']).optional(),
+})
+
+const TemplateContentSchema = z.object({
+	name: z.string().min(1),
+	description: z.string().optional(),
+	reportType: ReportTypeSchema,
+	defaultCriteria: DefaultCriteriaSchema,
+	defaultFormat: z.enum(['json', 'csv', 'xml', 'pdf']),
+	defaultExportConfig: z.object({
+		format: z.enum(['json', 'csv', 'xml', 'pdf']),
+		includeMetadata: z.boolean().optional(),
+		includeIntegrityReport: z.boolean().optional(),
+		compression: z.enum(['none', 'gzip', 'zip']).optional(),
+		encryption: z
+			.object({
+				enabled: z.boolean(),
+				algorithm: z.string().optional(),
+				keyId: z.string().optional(),
+			})
+			.optional(),
+	}),
+	columns: z.array(z.enum(EXPORT_COLUMNS)).optional(), // Event fields shown in the report
+	groupBy: z.enum(REPORT_GROUP_BY).optional(),
+	tags: z.array(z.string()),
+})
+
+const CreateScheduleSchema = z.object({
+	id: z.string(),
+	name: z.string().optional(),
+	dateRange: DateRangeSchema,
+	schedule: z.object({
+		frequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly']),
+		dayOfWeek: z.number().int().min(0).max(6).optional(),
+		dayOfMonth: z.number().int().min(1).max(31).optional(),
+		time: z.string().regex(/^\d{2}:\d{2}$/),
+		timezone: z.string().optional(),
+	}),
+	delivery: z.discriminatedUnion('method', [
+		z.object({ method: z.literal('email'), recipients: z.array(z.string().email()).min(1) }),
+		z.object({ method: z.literal('webhook'), webhookUrl: z.string().url() }),
+		z.object({ method: z.literal('storage'), storageLocation: z.string().optional() }),
+	]),
+	enabled: z.boolean().optional(),
+})
+
 const templatesRouter = {
 	all: protectedProcedure
 		.input(
@@ -91,44 +168,7 @@ const templatesRouter = {
 		}),
 	create: protectedProcedure
 		.input(
-			z.object({
-				name: z.string(),
-				description: z.string().optional(),
-				reportType: z.enum([
-					'HIPAA_AUDIT_TRAIL',
-					'GDPR_PROCESSING_ACTIVITIES',
-					'GENERAL_COMPLIANCE',
-					'INTEGRITY_VERIFICATION',
-				]),
-				defaultCriteria: z.object({
-					principalIds: z.array(z.string()).optional(), // Filter by organization
-					organizationIds: z.array(z.string()).optional(), // Filter by specific principals/users
-					actions: z.array(z.string()).optional(), // Filter by specific actions
-					dataClassifications: z
-						.array(z.enum(['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'PHI']))
-						.optional(), //  Filter by data classification levels
-					statuses: z.array(z.enum(['attempt', 'success', 'failure'])).optional(), // Filter by event status
-					resourceTypes: z.array(z.string()).optional(), // Filter by resource types
-					verifiedOnly: z.boolean().optional(), // Include only events with integrity verification
-					includeIntegrityFailures: z.boolean().optional(), // Include failed integrity checks
-					limit: z.number().optional(), // Maximum number of events to include
-					offset: z.number().optional(), // Offset for pagination
-				}),
-				defaultFormat: z.enum(['json', 'csv', 'xml', 'pdf']),
-				defaultExportConfig: z.object({
-					format: z.enum(['json', 'csv', 'xml', 'pdf']),
-					includeMetadata: z.boolean().optional(),
-					includeIntegrityReport: z.boolean().optional(),
-					compression: z.enum(['none', 'gzip', 'zip']).optional(),
-					encryption: z
-						.object({
-							enabled: z.boolean(),
-							algorithm: z.string().optional(),
-							keyId: z.string().optional(),
-						})
-						.optional(),
-				}),
-				tags: z.array(z.string()),
+			TemplateContentSchema.extend({
 				isActive: z.boolean(),
 			})
 		)
@@ -144,6 +184,8 @@ const templatesRouter = {
 				defaultCriteria: input.defaultCriteria,
 				defaultFormat: input.defaultFormat,
 				defaultExportConfig: input.defaultExportConfig,
+				columns: input.columns,
+				groupBy: input.groupBy,
 				tags: input.tags,
 				isActive: input.isActive,
 				createdBy: userId,
@@ -184,6 +226,301 @@ const templatesRouter = {
 				throw err
 			}
 		}),
+	update: protectedProcedure
+		.input(
+			z.object({
+				id: z.string(),
+				expectedVersion: z.number().int(), // Version the changes were made against
+				changeNote: z.string().max(500).optional(),
+				template: TemplateContentSchema,
+			})
+		)
+		.mutation(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			const userId = ctx.session?.session.userId as string
+			try {
+				const existing = await compliance.scheduled.getReportTemplate(input.id, organizationId)
+				if (!existing) {
+					throw new TRPCError({
+						code: 'NOT_FOUND',
+						message: `Report template ${input.id} not found`,
+					})
+				}
+				if (existing.version !== input.expectedVersion) {
+					throw new TRPCError({
+						code: 'CONFLICT',
+						message: `Report template ${input.id} was changed to version ${existing.version} since version ${input.expectedVersion} was opened`,
+					})
+				}
+
+				const template = await compliance.scheduled.updateReportTemplate(input.id, organizationId, {
+					...input.template,
+					updatedBy: userId,
+					changeNote: input.changeNote,
+					expectedVersion: input.expectedVersion,
+				})
+				return {
+					success: true,
+					message: `Report Template ${template.id} saved as version ${template.version} by ${userId}`,
+					timestamp: new Date().toISOString(),
+					template,
+				}
+			} catch (e) {
+				if (e instanceof TRPCError) {
+					throw e
+				}
+				// The template was removed or saved by someone else meanwhile
+				if (e instanceof ReportTemplateError) {
+					throw new TRPCError({ code: e.code, message: e.message })
+				}
+
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to update report template: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to update report template: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							templateId: input.id,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'templates.update'
+				)
+				throw err
+			}
+		}),
+	versions: protectedProcedure
+		.input(
+			z.object({
+				id: z.string(),
+			})
+		)
+		.query(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				return await compliance.scheduled.getReportTemplateVersions(input.id, organizationId)
+			} catch (e) {
+				if (e instanceof TRPCError) {
+					throw e
+				}
+
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to get the report template versions: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to get the report template versions: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							templateId: input.id,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'templates.versions'
+				)
+				throw err
+			}
+		}),
+	diff: protectedProcedure
+		.input(
+			z.object({
+				id: z.string(),
+				from: z.number().int(),
+				to: z.number().int(),
+			})
+		)
+		.query(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				const versions = await compliance.scheduled.getReportTemplateVersions(
+					input.id,
+					organizationId
+				)
+				const from = versions.find((version) => version.version === input.from)
+				const to = versions.find((version) => version.version === input.to)
+				if (!from || !to) {
+					throw new TRPCError({
+						code: 'NOT_FOUND',
+						message: `Version ${from ? input.to : input.from} of report template ${input.id} not found`,
+					})
+				}
+				return { from, to, changes: diffReportTemplates(from.content, to.content) }
+			} catch (e) {
+				if (e instanceof TRPCError) {
+					throw e
+				}
+
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to compare the report template versions: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to compare the report template versions: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							templateId: input.id,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'templates.diff'
+				)
+				throw err
+			}
+		}),
+	preview: protectedProcedure
+		.input(
+			z.object({
+				template: TemplateContentSchema.pick({
+					reportType: true,
+					defaultCriteria: true,
+					columns: true,
+					groupBy: true,
+				}),
+				dateRange: DateRangeSchema,
+				sampleSize: z.number().int().min(1).max(100).optional(),
+			})
+		)
+		.query(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			try {
+				return await compliance.scheduled.previewReportTemplate(input.template, organizationId, {
+					dateRange: input.dateRange,
+					sampleSize: input.sampleSize,
+				})
+			} catch (e) {
+				if (e instanceof TRPCError) {
+					throw e
+				}
+
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to preview the report template: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to preview the report template: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'templates.preview'
+				)
+				throw err
+			}
+		}),
+	createSchedule: protectedProcedure
+		.input(CreateScheduleSchema)
+		.mutation(async ({ ctx, input }) => {
+			const { compliance, logger, error } = ctx.services
+			const organizationId = ctx.session?.session.activeOrganizationId as string
+			const userId = ctx.session?.session.userId as string
+			try {
+				const existing = await compliance.scheduled.getReportTemplate(input.id, organizationId)
+				if (!existing) {
+					throw new TRPCError({
+						code: 'NOT_FOUND',
+						message: `Report template ${input.id} not found`,
+					})
+				}
+
+				const report = await compliance.scheduled.createReportFromTemplate(input.id, {
+					organizationId,
+					name: input.name,
+					// Scheduled runs only read events of the organization
+					criteria: { dateRange: input.dateRange, organizationIds: [organizationId] },
+					schedule: input.schedule,
+					delivery: input.delivery,
+					enabled: input.enabled,
+					createdBy: userId,
+				})
+				return {
+					success: true,
+					message: `Scheduled report ${report.id} created from template ${input.id} by ${userId}`,
+					timestamp: new Date().toISOString(),
+					report,
+				}
+			} catch (e) {
+				if (e instanceof TRPCError) {
+					throw e
+				}
+				// The template was removed or saved by someone else meanwhile
+				if (e instanceof ReportTemplateError) {
+					throw new TRPCError({ code: e.code, message: e.message })
+				}
+
+				const message = e instanceof Error ? e.message : 'Unknown error'
+				logger.error(`Failed to create a scheduled report from the template: ${message}`)
+				const err = new TRPCError({
+					code: 'INTERNAL_SERVER_ERROR',
+					message: `Failed to create a scheduled report from the template: ${message}`,
+				})
+				await error.handleError(
+					err,
+					{
+						requestId: ctx.requestId,
+						userId: ctx.session?.session.userId,
+						sessionId: ctx.session?.session.id,
+						metadata: {
+							organizationId: ctx.session?.session.activeOrganizationId,
+							templateId: input.id,
+							message: err.message,
+							name: err.name,
+							code: err.code,
+							cause: err.cause,
+						},
+					},
+					'trpc-api',
+					'templates.createSchedule'
+				)
+				throw err
+			}
+		}),
 } satisfies TRPCRouterRecord
 
 export { templatesRouter }
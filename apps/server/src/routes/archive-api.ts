@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Archive API Routes
+ *
+ * Provides admin REST API endpoints for archived audit data:
+ * - Restore archived events into the audit log
+ */
+
+import { ApiError } from '@/lib/errors'
+import { openApiErrorResponses } from '@/lib/errors/openapi_responses'
+import { createRoute, OpenAPIHono, z } from '@hono/zod-openapi'
+
+import type { HonoEnv } from '@/lib/hono/context'
+
+const ArchiveRestoreRequestSchema = z
+	.object({
+		archiveId: z.string().optional(),
+		dateRange: z
+			.object({
+				start: z.string().datetime(),
+				end: z.string().datetime(),
+			})
+			.optional(),
+		organizationId: z.string().optional(),
+		principalId: z.string().optional(),
+		reason: z.string().max(500).optional(),
+		dryRun: z.boolean().optional(),
+	})
+	.refine((request) => request.archiveId || request.dateRange, {
+		message: 'archiveId or dateRange is required',
+	})
+
+const ArchiveRestoreResultSchema = z.object({
+	restoreId: z.string(),
+	restoredAt: z.string(),
+	restoredBy: z.string().optional(),
+	dryRun: z.boolean(),
+	archiveIds: z.array(z.string()),
+	corruptedArchiveIds: z.array(z.string()),
+	recordsFound: z.number(),
+	recordsRestored: z.number(),
+	recordsSkipped: z.number(),
+	recordsUnverified: z.number(),
+	recordsFailedVerification: z.number(),
+	failedRecordIds: z.array(z.number()),
+})
+
+// Route definitions
+const restoreArchiveRoute = createRoute({
+	method: 'post',
+	path: '/restore',
+	tags: ['Archives'],
+	summary: 'Restore archived events',
+	description:
+		'Restores archived audit events into the audit log after verifying archive checksums and event hashes and signatures. Tampered events are reported and not restored.',
+	request: {
+		body: {
+			content: {
+				'application/json': {
+					schema: ArchiveRestoreRequestSchema,
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: 'Archived events restored successfully',
+			content: {
+				'application/json': {
+					schema: ArchiveRestoreResultSchema,
+				},
+			},
+		},
+		...openApiErrorResponses,
+	},
+})
+
+/**
+ * Create archive API router
+ */
+export function createArchiveAPI(): OpenAPIHono<HonoEnv> {
+	const app = new OpenAPIHono<HonoEnv>()
+
+	// Restore archived events
+	app.openapi(restoreArchiveRoute, async (c) => {
+		const { archival, logger } = c.get('services')
+		const session = c.get('session')
+
+		if (!session) {
+			throw new ApiError({
+				code: 'UNAUTHORIZED',
+				message: 'Authentication required',
+			})
+		}
+
+		try {
+			const request = c.req.valid('json')
+
+			const result = await archival.restore.restore({
+				...request,
+				restoredBy: session.session.userId,
+			})
+
+			logger.info(
+				`Restored ${result.recordsRestored} archived events in ${result.restoreId}${result.dryRun ? ' (dry run)' : ''}`
+			)
+
+			return c.json(result, 200)
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			logger.error(`Failed to restore archived events: ${message}`)
+
+			throw new ApiError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message,
+			})
+		}
+	})
+
+	return app
+}
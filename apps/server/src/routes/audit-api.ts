@@ -3,21 +3,34 @@
  *
  * Provides REST API endpoints for audit event operations:
  * - Create audit events
- * - Query audit events with filtering and pagination
+ * - Query audit events with filtering and keyset cursor pagination
+ * - Full-text search over audit events
+ * - Stream audit event exports
+ * - Run asynchronous exports with status, download and cancel endpoints
  * - Get specific audit events
  * - Verify audit event integrity
  *
  * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5
  */
 
+import { Readable } from 'stream'
 import { ApiError } from '@/lib/errors'
 import { openApiErrorResponses } from '@/lib/errors/openapi_responses'
 import { createRoute, OpenAPIHono, z } from '@hono/zod-openapi'
 import { and, asc, count, desc, eq, gte, inArray, isNotNull, lte } from 'drizzle-orm'
 
+import {
+	decodeEventCursor,
+	eventCursorCondition,
+	EventCursorError,
+	eventCursorOrderBy,
+	ExportJobError,
+	toEventCursorPage,
+} from '@repo/audit'
 import { auditIntegrityLog, auditLog } from '@repo/audit-db'
 
 import type { HonoEnv } from '@/lib/hono/context'
+import type { ExportJob } from '@repo/audit'
 
 // Zod schemas for request/response validation
 const AuditEventSchema = z.object({
@@ -108,14 +121,126 @@ const QueryAuditEventsSchema = z.object({
 		.string()
 		.optional()
 		.transform((val) => (val ? parseInt(val) : 50)),
+	// Legacy: deep offsets get slower with every page, prefer the cursor
 	offset: z
 		.string()
 		.optional()
 		.transform((val) => (val ? parseInt(val) : 0)),
+	// nextCursor of the previous page; requires timestamp ordering
+	cursor: z.string().optional(),
 	sortField: z.enum(['timestamp', 'status', 'action']).optional(),
 	sortDirection: z.enum(['asc', 'desc']).optional(),
 })
 
+const StreamAuditEventsSchema = QueryAuditEventsSchema.pick({
+	startDate: true,
+	endDate: true,
+	principalIds: true,
+	actions: true,
+	statuses: true,
+	dataClassifications: true,
+	resourceTypes: true,
+	verifiedOnly: true,
+}).extend({
+	correlationId: z.string().optional(),
+	batchSize: z
+		.string()
+		.optional()
+		.transform((val) => (val ? Math.min(Math.max(parseInt(val), 1), 10000) : undefined)),
+	format: z.enum(['json', 'ndjson', 'csv', 'xml']).default('ndjson'),
+	compression: z.enum(['none', 'gzip']).default('none'),
+	includeMetadata: z
+		.string()
+		.optional()
+		.transform((val) => val !== 'false'),
+})
+
+const SearchAuditEventsSchema = StreamAuditEventsSchema.pick({
+	startDate: true,
+	endDate: true,
+	principalIds: true,
+	actions: true,
+	statuses: true,
+	dataClassifications: true,
+	resourceTypes: true,
+	verifiedOnly: true,
+	correlationId: true,
+}).extend({
+	// Free text; supports "quoted phrases", OR and -exclusions
+	q: z.string().trim().min(1).max(500),
+	limit: z
+		.string()
+		.optional()
+		.transform((val) => (val ? Math.min(Math.max(parseInt(val), 1), 1000) : 50)),
+	offset: z
+		.string()
+		.optional()
+		.transform((val) => (val ? Math.max(parseInt(val), 0) : 0)),
+})
+
+const CreateExportJobSchema = z.object({
+	filter: z
+		.object({
+			dateRange: z
+				.object({
+					startDate: z.string().datetime(),
+					endDate: z.string().datetime(),
+				})
+				.optional(),
+			principalIds: z.array(z.string()).optional(),
+			actions: z.array(z.string()).optional(),
+			statuses: z.array(z.enum(['attempt', 'success', 'failure'])).optional(),
+			dataClassifications: z
+				.array(z.enum(['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'PHI']))
+				.optional(),
+			resourceTypes: z.array(z.string()).optional(),
+			resourceIds: z.array(z.string()).optional(),
+			correlationId: z.string().optional(),
+			verifiedOnly: z.boolean().optional(),
+		})
+		.optional(),
+	format: z.enum(['json', 'ndjson', 'csv', 'xml']).default('json'),
+	includeMetadata: z.boolean().default(true),
+	compression: z.enum(['none', 'gzip']).default('gzip'),
+})
+
+const ExportJobStatusEnum = z.enum([
+	'pending',
+	'processing',
+	'completed',
+	'failed',
+	'cancelled',
+	'expired',
+])
+
+const ExportJobResultSchema = z.object({
+	exportId: z.string(),
+	recordCount: z.number(),
+	dataSize: z.number(),
+	format: z.string(),
+	exportTimestamp: z.string(),
+	status: ExportJobStatusEnum,
+	progress: z.number(),
+	downloadUrl: z.string().optional(),
+	expiresAt: z.string().optional(),
+	metadata: z.object({
+		compression: z.enum(['none', 'gzip']),
+		checksum: z.string().optional(),
+	}),
+})
+
+const ExportJobStatusSchema = z.object({
+	id: z.string(),
+	status: ExportJobStatusEnum,
+	progress: z.number(),
+	recordCount: z.number().optional(),
+	totalRecords: z.number().optional(),
+	error: z.string().optional(),
+	completedAt: z.string().optional(),
+	expiresAt: z.string().optional(),
+	downloadUrl: z.string().optional(),
+})
+
 const PaginatedAuditEventsSchema = z.object({
 	events: z.array(AuditEventSchema),
 	pagination: z.object({
@@ -124,9 +249,55 @@ const PaginatedAuditEventsSchema = z.object({
 		offset: z.number(),
 		hasNext: z.boolean(),
 		hasPrevious: z.boolean(),
+		nextCursor: z.string().nullable().optional(),
 	}),
 })
 
+const AuditSearchResultsSchema = z.object({
+	results: z.array(
+		z.object({
+			event: AuditEventSchema,
+			rank: z.number(),
+			snippet: z.string(),
+		})
+	),
+	pagination: PaginatedAuditEventsSchema.shape.pagination,
+})
+
+const InclusionProofSchema = z.object({
+	eventId: z.number(),
+	eventHash: z.string(),
+	checkpoint: z.object({
+		id: z.number(),
+		organizationId: z.string(),
+		checkpointDate: z.string(),
+		merkleRoot: z.string(),
+		leafCount: z.number(),
+		firstEventId: z.number(),
+		lastEventId: z.number(),
+		signature: z.string(),
+		signatureAlgorithm: z.string(),
+		signedPayload: z.string(),
+		createdAt: z.string(),
+	}),
+	proof: z.object({
+		leafIndex: z.number(),
+		leafCount: z.number(),
+		leafHash: z.string(),
+		root: z.string(),
+		path: z.array(
+			z.object({
+				position: z.enum(['left', 'right']),
+				hash: z.string(),
+			})
+		),
+	}),
+	rootMatches: z.boolean(),
+	signatureValid: z.boolean(),
+	proofValid: z.boolean(),
+	verified: z.boolean(),
+})
+
 const IntegrityVerificationSchema = z.object({
 	eventId: z.string().uuid(),
 	verified: z.boolean(),
@@ -138,6 +309,7 @@ const IntegrityVerificationSchema = z.object({
 			algorithm: z.string().optional(),
 		})
 		.optional(),
+	inclusionProof: InclusionProofSchema.nullable().optional(),
 })
 
 // Route definitions
@@ -195,6 +367,165 @@ const queryAuditEventsRoute = createRoute({
 	},
 })
 
+const streamAuditEventsRoute = createRoute({
+	method: 'get',
+	path: '/events/stream',
+	tags: ['Audit Events'],
+	summary: 'Stream audit events',
+	description:
+		'Streams every matching audit event as JSON, NDJSON, CSV or XML, optionally gzipped. Rows are read in batches so exports of any size run in constant memory.',
+	request: {
+		query: StreamAuditEventsSchema,
+	},
+	responses: {
+		200: {
+			description: 'Audit event export stream',
+			content: {
+				'application/octet-stream': {
+					schema: z.string(),
+				},
+			},
+			headers: z.object({
+				'Content-Type': z.string(),
+				'Content-Disposition': z.string(),
+				'X-Export-ID': z.string(),
+			}),
+		},
+		...openApiErrorResponses,
+	},
+})
+
+const searchAuditEventsRoute = createRoute({
+	method: 'get',
+	path: '/events/search',
+	tags: ['Audit Events'],
+	summary: 'Search audit events',
+	description:
+		'Full-text search across action, outcome description, target resource, principal and details. Results are ranked by relevance and carry a highlighted snippet.',
+	request: {
+		query: SearchAuditEventsSchema,
+	},
+	responses: {
+		200: {
+			description: 'Matching audit events, most relevant first',
+			content: {
+				'application/json': {
+					schema: AuditSearchResultsSchema,
+				},
+			},
+		},
+		...openApiErrorResponses,
+	},
+})
+
+const createExportJobRoute = createRoute({
+	method: 'post',
+	path: '/events/export',
+	tags: ['Audit Events'],
+	summary: 'Start an audit event export',
+	description:
+		'Queues an export of the matching audit events. The export runs in the background; poll its status and download the file once it has completed.',
+	request: {
+		body: {
+			content: {
+				'application/json': {
+					schema: CreateExportJobSchema,
+				},
+			},
+		},
+	},
+	responses: {
+		202: {
+			description: 'Export queued',
+			content: {
+				'application/json': {
+					schema: ExportJobResultSchema,
+				},
+			},
+		},
+		...openApiErrorResponses,
+	},
+})
+
+const getExportJobStatusRoute = createRoute({
+	method: 'get',
+	path: '/events/exports/{id}/status',
+	tags: ['Audit Events'],
+	summary: 'Get audit event export status',
+	description: 'Returns the progress of an export and, once completed, when its download expires.',
+	request: {
+		params: z.object({
+			id: z.string(),
+		}),
+	},
+	responses: {
+		200: {
+			description: 'Export status',
+			content: {
+				'application/json': {
+					schema: ExportJobStatusSchema,
+				},
+			},
+		},
+		...openApiErrorResponses,
+	},
+})
+
+const downloadExportJobRoute = createRoute({
+	method: 'get',
+	path: '/events/exports/{id}/download',
+	tags: ['Audit Events'],
+	summary: 'Download an audit event export',
+	description: 'Streams the file of a completed export until its download expires.',
+	request: {
+		params: z.object({
+			id: z.string(),
+		}),
+	},
+	responses: {
+		200: {
+			description: 'Export file',
+			content: {
+				'application/octet-stream': {
+					schema: z.string(),
+				},
+			},
+			headers: z.object({
+				'Content-Type': z.string(),
+				'Content-Disposition': z.string(),
+				'Content-Length': z.string(),
+				'X-Export-ID': z.string(),
+				'X-Checksum': z.string(),
+			}),
+		},
+		...openApiErrorResponses,
+	},
+})
+
+const cancelExportJobRoute = createRoute({
+	method: 'post',
+	path: '/events/exports/{id}/cancel',
+	tags: ['Audit Events'],
+	summary: 'Cancel an audit event export',
+	description: 'Cancels a pending or running export and discards its partial file.',
+	request: {
+		params: z.object({
+			id: z.string(),
+		}),
+	},
+	responses: {
+		200: {
+			description: 'Export cancelled',
+			content: {
+				'application/json': {
+					schema: ExportJobStatusSchema,
+				},
+			},
+		},
+		...openApiErrorResponses,
+	},
+})
+
 const getAuditEventRoute = createRoute({
 	method: 'get',
 	path: '/events/{id}',
@@ -224,7 +555,8 @@ const verifyAuditEventRoute = createRoute({
 	path: '/events/{id}/verify',
 	tags: ['Audit Events'],
 	summary: 'Verify audit event integrity',
-	description: 'Verifies the cryptographic integrity of an audit event.',
+	description:
+		"Verifies the cryptographic integrity of an audit event and returns its Merkle inclusion proof in the day's signed checkpoint, when one exists.",
 	request: {
 		params: z.object({
 			id: z.string(),
@@ -243,6 +575,67 @@ const verifyAuditEventRoute = createRoute({
 	},
 })
 
+/**
+ * Map a stored audit_log row to the audit event payload
+ */
+function toAuditEvent(event: typeof auditLog.$inferSelect) {
+	return {
+		id: event.id?.toString() || '',
+		timestamp: event.timestamp,
+		action: event.action,
+		targetResourceType: event.targetResourceType || '',
+		targetResourceId: event.targetResourceId || undefined,
+		principalId: event.principalId || '',
+		organizationId: event.organizationId || '',
+		status: event.status,
+		outcomeDescription: event.outcomeDescription || undefined,
+		dataClassification: event.dataClassification || 'INTERNAL',
+		details: (event.details as Record<string, any> | null) || undefined,
+		hash: event.hash || undefined,
+		correlationId: event.correlationId || undefined,
+	}
+}
+
+/**
+ * Map an export job to the status payload, linking the file once it can be downloaded
+ */
+function toExportJobStatus(job: ExportJob, requestUrl: string) {
+	return {
+		id: job.id,
+		status: job.status,
+		progress: job.progress,
+		recordCount: job.recordCount,
+		totalRecords: job.totalRecords,
+		error: job.error,
+		completedAt: job.completedAt,
+		expiresAt: job.expiresAt,
+		downloadUrl: job.status === 'completed' ? exportDownloadUrl(job, requestUrl) : undefined,
+	}
+}
+
+function exportDownloadUrl(job: ExportJob, requestUrl: string): string {
+	const url = new URL(requestUrl)
+	url.pathname = url.pathname.replace(
+		/\/events\/export(s\/[^/]+\/[^/]+)?$/,
+		`/events/exports/${job.id}/download`
+	)
+	url.search = `?format=${job.format}`
+	return url.toString()
+}
+
+function toExportJobApiError(error: ExportJobError): ApiError {
+	switch (error.code) {
+		case 'NOT_FOUND':
+			return new ApiError({ code: 'NOT_FOUND', message: error.message })
+		case 'EXPIRED':
+			return new ApiError({ code: 'EXPIRED', message: error.message })
+		case 'NOT_READY':
+		case 'NOT_CANCELLABLE':
+		case 'NOT_SUPPORTED':
+			return new ApiError({ code: 'PRECONDITION_FAILED', message: error.message })
+	}
+}
+
 /**
  * Create audit events API router
  */
@@ -358,24 +751,46 @@ export function createAuditAPI(): OpenAPIHono<HonoEnv> {
 			}
 
 			const whereClause = and(...conditions)
+
+			// Timestamp ordering pages with keyset cursors, other orderings fall back to offsets
+			const limit = query.limit || 50
+			const offset = query.offset || 0
+			const direction = query.sortDirection ?? 'desc'
+			const keyset = (query.sortField ?? 'timestamp') === 'timestamp'
+			const cursor = query.cursor ? decodeEventCursor(query.cursor, direction) : undefined
+			if (cursor && !keyset) {
+				throw new EventCursorError('Cursor pagination requires timestamp ordering')
+			}
+
 			const cacheKey = client.generateCacheKey('audit_events_query', { organizationId, ...query })
 
-			const events = await client.executeMonitoredQuery(
+			const rows = await client.executeMonitoredQuery(
 				(audit) =>
-					audit
-						.select()
-						.from(auditLog)
-						.where(whereClause)
-						.limit(query.limit || 50)
-						.offset(query.offset || 0)
-						.orderBy(
-							query.sortDirection === 'asc'
-								? asc(auditLog[query.sortField || 'timestamp'])
-								: desc(auditLog[query.sortField || 'timestamp'])
-						),
+					keyset
+						? audit
+								.select()
+								.from(auditLog)
+								.where(cursor ? and(whereClause, eventCursorCondition(cursor)) : whereClause)
+								.orderBy(...eventCursorOrderBy(direction))
+								.limit(limit + 1)
+								.offset(cursor ? 0 : offset)
+						: audit
+								.select()
+								.from(auditLog)
+								.where(whereClause)
+								.limit(limit + 1)
+								.offset(offset)
+								.orderBy(
+									direction === 'asc'
+										? asc(auditLog[query.sortField!])
+										: desc(auditLog[query.sortField!])
+								),
 				'audit_events_query',
 				{ cacheKey }
 			)
+			const { items: events, nextCursor } = keyset
+				? toEventCursorPage(rows, limit, direction)
+				: { items: rows.slice(0, limit), nextCursor: null }
 
 			const cacheKeyCount = client.generateCacheKey('audit_events_count', {
 				organizationId,
@@ -391,27 +806,14 @@ export function createAuditAPI(): OpenAPIHono<HonoEnv> {
 			const total = totalResult[0]?.count || 0
 
 			const result = {
-				events: events.map((event) => ({
-					id: event.id?.toString() || '',
-					timestamp: event.timestamp,
-					action: event.action,
-					targetResourceType: event.targetResourceType || '',
-					targetResourceId: event.targetResourceId || undefined,
-					principalId: event.principalId || '',
-					organizationId: event.organizationId || '',
-					status: event.status,
-					outcomeDescription: event.outcomeDescription || undefined,
-					dataClassification: event.dataClassification || 'INTERNAL',
-					details: event.details || undefined,
-					hash: event.hash || undefined,
-					correlationId: event.correlationId || undefined,
-				})),
+				events: events.map(toAuditEvent),
 				pagination: {
 					total,
-					limit: query.limit || 50,
-					offset: query.offset || 0,
-					hasNext: (query.offset || 0) + (query.limit || 50) < total,
-					hasPrevious: (query.offset || 0) > 0,
+					limit,
+					offset: cursor ? 0 : offset,
+					hasNext: rows.length > limit,
+					hasPrevious: cursor !== undefined || offset > 0,
+					nextCursor,
 				},
 			}
 
@@ -423,6 +825,13 @@ export function createAuditAPI(): OpenAPIHono<HonoEnv> {
 
 			return c.json(result, 200)
 		} catch (error) {
+			if (error instanceof EventCursorError) {
+				throw new ApiError({
+					code: 'BAD_REQUEST',
+					message: error.message,
+				})
+			}
+
 			const message = error instanceof Error ? error.message : 'Unknown error'
 			logger.error(`Failed to query audit events: ${message}`)
 
@@ -433,6 +842,308 @@ export function createAuditAPI(): OpenAPIHono<HonoEnv> {
 		}
 	})
 
+	// Stream audit events; registered before /events/{id} so "stream" is not taken as an id
+	app.openapi(streamAuditEventsRoute, async (c) => {
+		const { compliance, logger, authorization } = c.get('services')
+		const session = c.get('session')!
+
+		const hasPermission = await authorization.hasPermission(session, 'audit.events', 'export')
+		if (!hasPermission) {
+			throw new ApiError({
+				code: 'FORBIDDEN',
+				message: 'Insufficient permissions to export audit events',
+			})
+		}
+
+		const query = c.req.valid('query')
+		const exported = compliance.stream.createExport(
+			{
+				organizationId: session.session.activeOrganizationId as string,
+				dateRange:
+					query.startDate && query.endDate
+						? { startDate: query.startDate, endDate: query.endDate }
+						: undefined,
+				principalIds: query.principalIds,
+				actions: query.actions,
+				statuses: query.statuses,
+				dataClassifications: query.dataClassifications,
+				resourceTypes: query.resourceTypes,
+				correlationId: query.correlationId,
+				verifiedOnly: query.verifiedOnly,
+			},
+			{
+				format: query.format,
+				compression: query.compression,
+				includeMetadata: query.includeMetadata,
+				batchSize: query.batchSize,
+				exportedBy: session.session.userId,
+			}
+		)
+
+		exported.completed.then(
+			(summary) =>
+				logger.info(
+					`Streamed audit export ${summary.exportId}: ${summary.recordCount} events, ${summary.size} bytes`
+				),
+			(error) =>
+				logger.error(
+					`Audit export ${exported.exportId} did not complete: ${error instanceof Error ? error.message : 'Unknown error'}`
+				)
+		)
+
+		c.header('Content-Type', exported.contentType)
+		c.header('Content-Disposition', `attachment; filename="${exported.filename}"`)
+		c.header('X-Export-ID', exported.exportId)
+
+		return c.body(Readable.toWeb(exported.stream) as ReadableStream, 200)
+	})
+
+	// Full-text search; registered before /events/{id} so "search" is not taken as an id
+	app.openapi(searchAuditEventsRoute, async (c) => {
+		const { search, logger, authorization } = c.get('services')
+		const session = c.get('session')!
+
+		const hasPermission = await authorization.hasPermission(session, 'audit.events', 'read')
+		if (!hasPermission) {
+			throw new ApiError({
+				code: 'FORBIDDEN',
+				message: 'Insufficient permissions to read audit events',
+			})
+		}
+
+		try {
+			const query = c.req.valid('query')
+			const organizationId = session.session.activeOrganizationId as string
+
+			const result = await search.search({
+				organizationId,
+				query: query.q,
+				filter: {
+					dateRange:
+						query.startDate && query.endDate
+							? { startDate: query.startDate, endDate: query.endDate }
+							: undefined,
+					principalIds: query.principalIds,
+					actions: query.actions,
+					statuses: query.statuses,
+					dataClassifications: query.dataClassifications,
+					resourceTypes: query.resourceTypes,
+					correlationId: query.correlationId,
+					verifiedOnly: query.verifiedOnly,
+				},
+				limit: query.limit,
+				offset: query.offset,
+			})
+
+			logger.info(`Searched audit events: ${result.hits.length} of ${result.total} matches`, {
+				organizationId,
+			})
+
+			return c.json(
+				{
+					results: result.hits.map((hit) => ({
+						event: toAuditEvent(hit.event),
+						rank: hit.rank,
+						snippet: hit.snippet,
+					})),
+					pagination: {
+						total: result.total,
+						limit: result.limit,
+						offset: result.offset,
+						hasNext: result.offset + result.limit < result.total,
+						hasPrevious: result.offset > 0,
+					},
+				},
+				200
+			)
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			logger.error(`Failed to search audit events: ${message}`)
+
+			throw new ApiError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message,
+			})
+		}
+	})
+
+	// Start an asynchronous export
+	app.openapi(createExportJobRoute, async (c) => {
+		const { compliance, logger, authorization } = c.get('services')
+		const session = c.get('session')!
+
+		const hasPermission = await authorization.hasPermission(session, 'audit.events', 'export')
+		if (!hasPermission) {
+			throw new ApiError({
+				code: 'FORBIDDEN',
+				message: 'Insufficient permissions to export audit events',
+			})
+		}
+
+		try {
+			const request = c.req.valid('json')
+			const job = await compliance.jobs.createJob({
+				organizationId: session.session.activeOrganizationId as string,
+				requestedBy: session.session.userId,
+				filter: request.filter,
+				format: request.format,
+				compression: request.compression,
+				includeMetadata: request.includeMetadata,
+			})
+
+			logger.info(`Queued audit export ${job.id}`)
+
+			return c.json(
+				{
+					exportId: job.id,
+					recordCount: job.recordCount ?? 0,
+					dataSize: job.size ?? 0,
+					format: job.format,
+					exportTimestamp: new Date(job.createdAt).toISOString(),
+					status: job.status,
+					progress: job.progress,
+					expiresAt: job.expiresAt,
+					metadata: {
+						compression: job.compression,
+						checksum: job.checksum,
+					},
+				},
+				202
+			)
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			logger.error(`Failed to queue audit export: ${message}`)
+
+			throw new ApiError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message,
+			})
+		}
+	})
+
+	// Get export status
+	app.openapi(getExportJobStatusRoute, async (c) => {
+		const { compliance, logger, authorization } = c.get('services')
+		const session = c.get('session')!
+
+		const hasPermission = await authorization.hasPermission(session, 'audit.events', 'export')
+		if (!hasPermission) {
+			throw new ApiError({
+				code: 'FORBIDDEN',
+				message: 'Insufficient permissions to export audit events',
+			})
+		}
+
+		try {
+			const { id } = c.req.valid('param')
+			const job = await compliance.jobs.getJob(session.session.activeOrganizationId as string, id)
+
+			if (!job) {
+				throw new ApiError({
+					code: 'NOT_FOUND',
+					message: 'Export not found',
+				})
+			}
+
+			return c.json(toExportJobStatus(job, c.req.url), 200)
+		} catch (error) {
+			if (error instanceof ApiError) {
+				throw error
+			}
+
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			logger.error(`Failed to get audit export status: ${message}`)
+
+			throw new ApiError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message,
+			})
+		}
+	})
+
+	// Download a completed export
+	app.openapi(downloadExportJobRoute, async (c) => {
+		const { compliance, logger, authorization } = c.get('services')
+		const session = c.get('session')!
+
+		const hasPermission = await authorization.hasPermission(session, 'audit.events', 'export')
+		if (!hasPermission) {
+			throw new ApiError({
+				code: 'FORBIDDEN',
+				message: 'Insufficient permissions to export audit events',
+			})
+		}
+
+		try {
+			const { id } = c.req.valid('param')
+			const { job, stream } = await compliance.jobs.openDownload(
+				session.session.activeOrganizationId as string,
+				id
+			)
+
+			c.header('Content-Type', job.contentType!)
+			c.header('Content-Disposition', `attachment; filename="${job.filename}"`)
+			c.header('Content-Length', String(job.size))
+			c.header('X-Export-ID', job.id)
+			c.header('X-Checksum', job.checksum!)
+
+			return c.body(Readable.toWeb(stream) as ReadableStream, 200)
+		} catch (error) {
+			if (error instanceof ApiError) {
+				throw error
+			}
+			if (error instanceof ExportJobError) {
+				throw toExportJobApiError(error)
+			}
+
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			logger.error(`Failed to download audit export: ${message}`)
+
+			throw new ApiError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message,
+			})
+		}
+	})
+
+	// Cancel an export
+	app.openapi(cancelExportJobRoute, async (c) => {
+		const { compliance, logger, authorization } = c.get('services')
+		const session = c.get('session')!
+
+		const hasPermission = await authorization.hasPermission(session, 'audit.events', 'export')
+		if (!hasPermission) {
+			throw new ApiError({
+				code: 'FORBIDDEN',
+				message: 'Insufficient permissions to export audit events',
+			})
+		}
+
+		try {
+			const { id } = c.req.valid('param')
+			const job = await compliance.jobs.cancelJob(
+				session.session.activeOrganizationId as string,
+				id
+			)
+
+			logger.info(`Cancelled audit export ${job.id}`)
+
+			return c.json(toExportJobStatus(job, c.req.url), 200)
+		} catch (error) {
+			if (error instanceof ExportJobError) {
+				throw toExportJobApiError(error)
+			}
+
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			logger.error(`Failed to cancel audit export: ${message}`)
+
+			throw new ApiError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message,
+			})
+		}
+	})
+
 	// Get audit event by ID
 	app.openapi(getAuditEventRoute, async (c) => {
 		const { authorization, client, logger } = c.get('services')
@@ -509,7 +1220,7 @@ export function createAuditAPI(): OpenAPIHono<HonoEnv> {
 
 	// Verify audit event integrity
 	app.openapi(verifyAuditEventRoute, async (c) => {
-		const { client, audit, db, logger } = c.get('services')
+		const { client, audit, db, integrity, logger } = c.get('services')
 		const session = c.get('session')
 
 		if (!session) {
@@ -577,10 +1288,14 @@ export function createAuditAPI(): OpenAPIHono<HonoEnv> {
 				expectedHash: verificationResult.originalHash,
 			})
 
+			// Prove membership in the day's signed Merkle checkpoint
+			const inclusionProof = await integrity.merkle.getInclusionProof(dbEvent.id, organizationId)
+
 			logger.info(`Verified audit event integrity: ${id}`, {
 				organizationId,
 				verified: verificationResult.verified,
 				verifiedBy: session.session.userId,
+				checkpointId: inclusionProof?.checkpoint.id,
 			})
 
 			return c.json(
@@ -593,6 +1308,7 @@ export function createAuditAPI(): OpenAPIHono<HonoEnv> {
 						computedHash: verificationResult.computedHash,
 						algorithm: verificationResult.algorithm,
 					},
+					inclusionProof,
 				},
 				200
 			)
@@ -0,0 +1,394 @@
+/**
+ * @fileoverview Legal Hold API Routes
+ *
+ * Provides organization admin REST API endpoints for legal holds:
+ * - Place, list, get and release holds
+ * - List the destructive operations the holds blocked
+ */
+
+import { ApiError } from '@/lib/errors'
+import { openApiErrorResponses } from '@/lib/errors/openapi_responses'
+import { createRoute, OpenAPIHono, z } from '@hono/zod-openapi'
+
+import type { HonoEnv } from '@/lib/hono/context'
+
+const LegalHoldStatusSchema = z.enum(['active', 'released'])
+
+const CreateLegalHoldSchema = z
+	.object({
+		name: z.string().min(1).max(255),
+		reason: z.string().min(1).max(2000),
+		custodian: z.string().min(1).max(255),
+		caseReference: z.string().max(255).optional(),
+		principalId: z.string().max(255).optional(),
+		targetResourceType: z.string().max(255).optional(),
+		targetResourceId: z.string().max(255).optional(),
+		startDate: z.string().datetime().optional(),
+		endDate: z.string().datetime().optional(),
+	})
+	.refine((hold) => !hold.startDate || !hold.endDate || hold.startDate <= hold.endDate, {
+		message: 'startDate must not be after endDate',
+		path: ['endDate'],
+	})
+
+const LegalHoldSchema = z.object({
+	id: z.string(),
+	organizationId: z.string(),
+	name: z.string(),
+	reason: z.string(),
+	custodian: z.string(),
+	caseReference: z.string().nullable().optional(),
+	principalId: z.string().nullable().optional(),
+	targetResourceType: z.string().nullable().optional(),
+	targetResourceId: z.string().nullable().optional(),
+	startDate: z.string().nullable().optional(),
+	endDate: z.string().nullable().optional(),
+	status: LegalHoldStatusSchema,
+	createdAt: z.string(),
+	createdBy: z.string(),
+	releasedAt: z.string().nullable().optional(),
+	releasedBy: z.string().nullable().optional(),
+	releaseReason: z.string().nullable().optional(),
+})
+
+const LegalHoldBlockedActionSchema = z.object({
+	id: z.number(),
+	organizationId: z.string().nullable(),
+	operation: z.string(),
+	holdIds: z.array(z.string()),
+	recordsBlocked: z.number(),
+	requestedBy: z.string().nullable().optional(),
+	details: z.record(z.string(), z.unknown()).nullable().optional(),
+	blockedAt: z.string(),
+})
+
+// Route definitions
+const listLegalHoldsRoute = createRoute({
+	method: 'get',
+	path: '/',
+	tags: ['Legal Holds'],
+	summary: 'List legal holds',
+	description: 'Lists the legal holds of the organization, most recent first.',
+	request: {
+		query: z.object({
+			status: LegalHoldStatusSchema.optional(),
+		}),
+	},
+	responses: {
+		200: {
+			description: 'Legal holds retrieved successfully',
+			content: {
+				'application/json': {
+					schema: z.array(LegalHoldSchema),
+				},
+			},
+		},
+		...openApiErrorResponses,
+	},
+})
+
+const createLegalHoldRoute = createRoute({
+	method: 'post',
+	path: '/',
+	tags: ['Legal Holds'],
+	summary: 'Place a legal hold',
+	description:
+		'Places a legal hold on the audit events of the organization matching its scope. Retention, archive deletion and GDPR erasure keep the events the hold covers until it is released.',
+	request: {
+		body: {
+			content: {
+				'application/json': {
+					schema: CreateLegalHoldSchema,
+				},
+			},
+		},
+	},
+	responses: {
+		201: {
+			description: 'Legal hold placed successfully',
+			content: {
+				'application/json': {
+					schema: LegalHoldSchema,
+				},
+			},
+		},
+		...openApiErrorResponses,
+	},
+})
+
+const getLegalHoldRoute = createRoute({
+	method: 'get',
+	path: '/{id}',
+	tags: ['Legal Holds'],
+	summary: 'Get legal hold by ID',
+	description: 'Retrieves a legal hold of the organization.',
+	request: {
+		params: z.object({
+			id: z.string(),
+		}),
+	},
+	responses: {
+		200: {
+			description: 'Legal hold retrieved successfully',
+			content: {
+				'application/json': {
+					schema: LegalHoldSchema,
+				},
+			},
+		},
+		...openApiErrorResponses,
+	},
+})
+
+const releaseLegalHoldRoute = createRoute({
+	method: 'post',
+	path: '/{id}/release',
+	tags: ['Legal Holds'],
+	summary: 'Release a legal hold',
+	description: 'Releases an active legal hold. Released holds no longer protect events.',
+	request: {
+		params: z.object({
+			id: z.string(),
+		}),
+		body: {
+			content: {
+				'application/json': {
+					schema: z.object({
+						reason: z.string().max(2000).optional(),
+					}),
+				},
+			},
+		},
+	},
+	responses: {
+		200: {
+			description: 'Legal hold released successfully',
+			content: {
+				'application/json': {
+					schema: LegalHoldSchema,
+				},
+			},
+		},
+		...openApiErrorResponses,
+	},
+})
+
+const listBlockedActionsRoute = createRoute({
+	method: 'get',
+	path: '/blocked-actions',
+	tags: ['Legal Holds'],
+	summary: 'List blocked actions',
+	description:
+		'Lists the destructive operations that kept events because of the legal holds of the organization, most recent first.',
+	request: {
+		query: z.object({
+			limit: z.coerce.number().int().min(1).max(1000).default(100),
+		}),
+	},
+	responses: {
+		200: {
+			description: 'Blocked actions retrieved successfully',
+			content: {
+				'application/json': {
+					schema: z.array(LegalHoldBlockedActionSchema),
+				},
+			},
+		},
+		...openApiErrorResponses,
+	},
+})
+
+/**
+ * Create legal hold API router
+ */
+export function createLegalHoldAPI(): OpenAPIHono<HonoEnv> {
+	const app = new OpenAPIHono<HonoEnv>()
+
+	// List legal holds
+	app.openapi(listLegalHoldsRoute, async (c) => {
+		const { compliance, logger } = c.get('services')
+		const session = c.get('session')
+
+		if (!session) {
+			throw new ApiError({
+				code: 'UNAUTHORIZED',
+				message: 'Authentication required',
+			})
+		}
+
+		try {
+			const { status } = c.req.valid('query')
+			const organizationId = session.session.activeOrganizationId as string
+
+			const holds = await compliance.legalHold.listHolds(organizationId, status)
+
+			return c.json(holds, 200)
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			logger.error(`Failed to list legal holds: ${message}`)
+
+			throw new ApiError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message,
+			})
+		}
+	})
+
+	// Place a legal hold
+	app.openapi(createLegalHoldRoute, async (c) => {
+		const { compliance, logger } = c.get('services')
+		const session = c.get('session')
+
+		if (!session) {
+			throw new ApiError({
+				code: 'UNAUTHORIZED',
+				message: 'Authentication required',
+			})
+		}
+
+		try {
+			const input = c.req.valid('json')
+			const organizationId = session.session.activeOrganizationId as string
+
+			const hold = await compliance.legalHold.createHold(
+				organizationId,
+				input,
+				session.session.userId
+			)
+
+			logger.info(`Legal hold ${hold.id} placed on organization ${organizationId}`)
+
+			return c.json(hold, 201)
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			logger.error(`Failed to create legal hold: ${message}`)
+
+			throw new ApiError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message,
+			})
+		}
+	})
+
+	// List blocked actions, registered before /{id} so it is not taken for a hold ID
+	app.openapi(listBlockedActionsRoute, async (c) => {
+		const { compliance, logger } = c.get('services')
+		const session = c.get('session')
+
+		if (!session) {
+			throw new ApiError({
+				code: 'UNAUTHORIZED',
+				message: 'Authentication required',
+			})
+		}
+
+		try {
+			const { limit } = c.req.valid('query')
+			const organizationId = session.session.activeOrganizationId as string
+
+			const blockedActions = await compliance.legalHold.listBlockedActions(organizationId, limit)
+
+			return c.json(blockedActions, 200)
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			logger.error(`Failed to list actions blocked by legal holds: ${message}`)
+
+			throw new ApiError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message,
+			})
+		}
+	})
+
+	// Get legal hold by ID
+	app.openapi(getLegalHoldRoute, async (c) => {
+		const { compliance, logger } = c.get('services')
+		const session = c.get('session')
+
+		if (!session) {
+			throw new ApiError({
+				code: 'UNAUTHORIZED',
+				message: 'Authentication required',
+			})
+		}
+
+		try {
+			const { id } = c.req.valid('param')
+			const organizationId = session.session.activeOrganizationId as string
+
+			const hold = await compliance.legalHold.getHold(organizationId, id)
+
+			if (!hold) {
+				throw new ApiError({
+					code: 'NOT_FOUND',
+					message: 'Legal hold not found',
+				})
+			}
+
+			return c.json(hold, 200)
+		} catch (error) {
+			if (error instanceof ApiError) {
+				throw error
+			}
+
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			logger.error(`Failed to get legal hold: ${message}`)
+
+			throw new ApiError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message,
+			})
+		}
+	})
+
+	// Release a legal hold
+	app.openapi(releaseLegalHoldRoute, async (c) => {
+		const { compliance, logger } = c.get('services')
+		const session = c.get('session')
+
+		if (!session) {
+			throw new ApiError({
+				code: 'UNAUTHORIZED',
+				message: 'Authentication required',
+			})
+		}
+
+		try {
+			const { id } = c.req.valid('param')
+			const { reason } = c.req.valid('json')
+			const organizationId = session.session.activeOrganizationId as string
+
+			const hold = await compliance.legalHold.releaseHold(
+				organizationId,
+				id,
+				session.session.userId,
+				reason
+			)
+
+			if (!hold) {
+				throw new ApiError({
+					code: 'NOT_FOUND',
+					message: 'Active legal hold not found',
+				})
+			}
+
+			logger.info(`Legal hold ${hold.id} released on organization ${organizationId}`)
+
+			return c.json(hold, 200)
+		} catch (error) {
+			if (error instanceof ApiError) {
+				throw error
+			}
+
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			logger.error(`Failed to release legal hold: ${message}`)
+
+			throw new ApiError({
+				code: 'INTERNAL_SERVER_ERROR',
+				message,
+			})
+		}
+	})
+
+	return app
+}
@@ -4,6 +4,7 @@
  * Combines all REST API endpoints with comprehensive OpenAPI/Swagger documentation:
  * - Audit Events API
  * - Compliance API
+ * - Archive API
  * - Metrics API
  * - OpenAPI documentation generation
  * - Swagger UI integration
@@ -16,6 +17,7 @@ import {
 	requireAuth,
 	requireAuthOrApiKey,
 	requireOrganizationAccess,
+	requireOrganizationRole,
 	requireRole,
 } from '@/lib/middleware/auth'
 import { errorHandler, notFoundHandler } from '@/lib/middleware/error-handler'
@@ -23,9 +25,11 @@ import { adaptiveRateLimit, rateLimit } from '@/lib/middleware/rate-limit'
 import { swaggerUI } from '@hono/swagger-ui'
 import { OpenAPIHono } from '@hono/zod-openapi'
 
+import { createArchiveAPI } from './archive-api'
 import { createAuditAPI } from './audit-api'
 import { createComplianceAPI } from './compliance-api'
 import { createFunctionsAPI } from './functions-api'
+import { createLegalHoldAPI } from './legal-hold-api'
 import { createMetricsAPI } from './metrics-api'
 import { createObservabilityAPI } from './observability-api'
 import { createOrganizationAPI } from './organization-api'
@@ -212,6 +216,14 @@ Pagination information is included in the response:
 				name: 'Compliance',
 				description: 'Compliance reporting and data export operations',
 			},
+			{
+				name: 'Archives',
+				description: 'Archived audit data operations',
+			},
+			{
+				name: 'Legal Holds',
+				description: 'Legal holds that preserve audit data from deletion',
+			},
 			{
 				name: 'Metrics',
 				description: 'System metrics and monitoring operations',
@@ -255,6 +267,8 @@ Pagination information is included in the response:
 	// Authentication middleware for protected routes
 	app.use('/audit/*', requireAuthOrApiKey)
 	app.use('/compliance/*', requireAuthOrApiKey)
+	app.use('/archives/*', requireAuthOrApiKey)
+	app.use('/legal-holds/*', requireAuthOrApiKey)
 	app.use('/metrics/*', requireAuthOrApiKey)
 	app.use('/observability/*', requireAuthOrApiKey)
 	app.use('/performance/*', requireAuthOrApiKey)
@@ -266,15 +280,22 @@ Pagination information is included in the response:
 	app.use('/compliance/*', requireOrganizationAccess())
 	app.use('/functions/*', requireOrganizationAccess())
 	app.use('/organization/*', requireOrganizationAccess())
+	app.use('/legal-holds/*', requireOrganizationAccess())
 
-	// Admin-only access for system metrics and observability
+	// Admin-only access for system metrics, observability and archives
 	app.use('/metrics/system/*', requireRole(['admin']))
+	app.use('/archives/*', requireRole(['admin']))
 	app.use('/observability/*', requireRole(['admin']))
 	app.use('/performance/*', requireRole(['admin']))
 
+	// Organization owners and admins manage legal holds
+	app.use('/legal-holds/*', requireOrganizationRole(['owner', 'admin']))
+
 	// Mount API routes
 	app.route('/audit', createAuditAPI())
 	app.route('/compliance', createComplianceAPI())
+	app.route('/archives', createArchiveAPI())
+	app.route('/legal-holds', createLegalHoldAPI())
 	app.route('/metrics', createMetricsAPI())
 	app.route('/observability', createObservabilityAPI())
 	app.route('/performance', createPerformanceAPI())
@@ -18,6 +18,7 @@ import {
 	CircleAlert,
 	FileCheck2,
 	Github,
+	ScrollText,
 	Settings2,
 	TerminalIcon,
 } from 'lucide-react'
@@ -48,6 +49,17 @@ const data = {
 				},
 			],
 		},
+		{
+			title: 'Events',
+			url: '#',
+			icon: ScrollText,
+			items: [
+				{
+					title: 'Explorer',
+					url: '/dashboard/events',
+				},
+			],
+		},
 		{
 			title: 'Compliance',
 			url: '#',
@@ -58,7 +70,7 @@ const data = {
 					url: '/dashboard/compliance/hipaa',
 				},
 				{
-					title: 'GDPR Report',
+					title: 'GDPR Console',
 					url: '/dashboard/compliance/gdpr',
 				},
 				{
@@ -81,6 +93,14 @@ const data = {
 					title: 'Report Templates',
 					url: '/dashboard/compliance/report-templates',
 				},
+				{
+					title: 'Legal Holds',
+					url: '/dashboard/compliance/legal-holds',
+				},
+				{
+					title: 'Data Subject Requests',
+					url: '/dashboard/compliance/gdpr/requests',
+				},
 			],
 		},
 		{
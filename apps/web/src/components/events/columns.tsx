@@ -0,0 +1,137 @@
+'use client'
+
+import { formatDate } from '@/lib/date'
+import { ShieldCheck, ShieldOff } from 'lucide-react'
+
+import { Badge } from '../ui/badge'
+import { dataClassifications, statuses } from './data'
+
+import type { RouterOutputs } from '@/utils/trpc'
+import type { ColumnDef } from '@tanstack/react-table'
+
+/**
+ * Audit event as returned by events.query, with the highlighted snippet of a text search
+ */
+export type AuditEventRow = RouterOutputs['events']['query']['events'][number] & {
+	snippet?: string
+}
+
+const inArray = (row: { getValue: (id: string) => unknown }, id: string, value: string[]) =>
+	value.includes(row.getValue(id) as string)
+
+export const createColumns = (): ColumnDef<AuditEventRow>[] => [
+	{
+		accessorKey: 'timestamp',
+		header: 'Time',
+		cell: ({ row }) => (
+			<span className="whitespace-nowrap tabular-nums">
+				{formatDate(new Date(row.original.timestamp), 'PP HH:mm:ss')}
+			</span>
+		),
+		size: 180,
+	},
+	{
+		accessorKey: 'action',
+		header: 'Action',
+		cell: ({ row }) => (
+			<div className="min-w-0">
+				<div className="truncate font-medium">{row.original.action}</div>
+				{row.original.snippet && <Snippet value={row.original.snippet} />}
+			</div>
+		),
+		filterFn: inArray,
+	},
+	{
+		accessorKey: 'status',
+		header: 'Status',
+		cell: ({ row }) => {
+			const status = statuses.find((status) => status.value === row.original.status)
+			if (!status) return row.original.status
+
+			return (
+				<div className="flex items-center gap-2">
+					<status.icon className="text-muted-foreground size-4" />
+					<span>{status.label}</span>
+				</div>
+			)
+		},
+		filterFn: inArray,
+		size: 110,
+	},
+	{
+		accessorKey: 'principalId',
+		header: 'Principal',
+		cell: ({ row }) => <span className="truncate">{row.original.principalId ?? '-'}</span>,
+	},
+	{
+		accessorKey: 'targetResourceType',
+		header: 'Resource',
+		cell: ({ row }) =>
+			row.original.targetResourceType ? (
+				<span className="truncate">
+					{row.original.targetResourceType}
+					{row.original.targetResourceId ? `/${row.original.targetResourceId}` : ''}
+				</span>
+			) : (
+				'-'
+			),
+		filterFn: inArray,
+	},
+	{
+		accessorKey: 'dataClassification',
+		header: 'Classification',
+		cell: ({ row }) => {
+			const classification = dataClassifications.find(
+				(classification) => classification.value === row.original.dataClassification
+			)
+			return (
+				<Badge variant="outline">{classification?.label ?? row.original.dataClassification}</Badge>
+			)
+		},
+		filterFn: inArray,
+		size: 120,
+	},
+	{
+		id: 'integrity',
+		header: 'Integrity',
+		cell: ({ row }) =>
+			row.original.hash ? (
+				<ShieldCheck className="size-4 text-green-600" aria-label="Hashed" />
+			) : (
+				<ShieldOff className="text-muted-foreground size-4" aria-label="Not hashed" />
+			),
+		size: 80,
+	},
+]
+
+const snippetEntities: Record<string, string> = {
+	'&amp;': '&',
+	'&lt;': '<',
+	'&gt;': '>',
+	'&quot;': '"',
+}
+
+/**
+ * Text search snippet, HTML-escaped with the matched terms wrapped in <mark> tags
+ *
+ * The snippet is built from event content, so it is split into text nodes rather than injected as HTML.
+ */
+export function Snippet({ value }: { value: string }) {
+	const parts = value
+		.split(/<mark>(.*?)<\/mark>/g)
+		.map((part) => part.replace(/&(amp|lt|gt|quot);/g, (entity) => snippetEntities[entity]))
+
+	return (
+		<div className="text-muted-foreground truncate text-xs">
+			{parts.map((part, index) =>
+				index % 2 === 1 ? (
+					<mark key={index} className="bg-yellow-200 dark:bg-yellow-800">
+						{part}
+					</mark>
+				) : (
+					part
+				)
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,14 @@
+import { CircleCheck, CircleDashed, CircleX, Globe, Lock, ShieldAlert, Users } from 'lucide-react'
+
+export const statuses = [
+	{ label: 'Attempt', value: 'attempt', icon: CircleDashed },
+	{ label: 'Success', value: 'success', icon: CircleCheck },
+	{ label: 'Failure', value: 'failure', icon: CircleX },
+]
+
+export const dataClassifications = [
+	{ label: 'Public', value: 'PUBLIC', icon: Globe },
+	{ label: 'Internal', value: 'INTERNAL', icon: Users },
+	{ label: 'Confidential', value: 'CONFIDENTIAL', icon: Lock },
+	{ label: 'PHI', value: 'PHI', icon: ShieldAlert },
+]
@@ -0,0 +1,194 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Separator } from '@/components/ui/separator'
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+} from '@/components/ui/sheet'
+import { formatDate } from '@/lib/date'
+import { trpc } from '@/utils/trpc'
+import { useMutation, useQuery } from '@tanstack/react-query'
+import { ShieldCheck, ShieldOff, ShieldX } from 'lucide-react'
+import { toast } from 'sonner'
+
+import type { ReactNode } from 'react'
+
+interface EventDetailSheetProps {
+	eventId: number | null
+	onClose: () => void
+}
+
+interface SessionContext {
+	sessionId?: string
+	ipAddress?: string
+	userAgent?: string
+	geolocation?: string
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+	return (
+		<div className="grid grid-cols-3 gap-2 text-sm">
+			<dt className="text-muted-foreground">{label}</dt>
+			<dd className="col-span-2 break-all">{children ?? '-'}</dd>
+		</div>
+	)
+}
+
+export function EventDetailSheet({ eventId, onClose }: EventDetailSheetProps) {
+	const { data: event, isLoading } = useQuery({
+		...trpc.events.getById.queryOptions({ id: String(eventId) }),
+		enabled: eventId !== null,
+	})
+	const verify = useMutation(trpc.events.verify.mutationOptions())
+
+	const details = (event?.details ?? null) as Record<string, unknown> | null
+	const { sessionContext, ...otherDetails } = (details ?? {}) as {
+		sessionContext?: SessionContext
+	} & Record<string, unknown>
+
+	const handleVerify = async () => {
+		if (eventId === null) return
+
+		try {
+			await verify.mutateAsync({ id: String(eventId) })
+		} catch (error) {
+			toast.error('Failed to verify the event')
+		}
+	}
+
+	return (
+		<Sheet
+			open={eventId !== null}
+			onOpenChange={(open) => {
+				if (!open) {
+					verify.reset()
+					onClose()
+				}
+			}}
+		>
+			<SheetContent className="w-full sm:max-w-xl">
+				<SheetHeader>
+					<SheetTitle>{event?.action ?? 'Audit Event'}</SheetTitle>
+					<SheetDescription>
+						{event ? `#${event.id} · ${formatDate(new Date(event.timestamp), 'PPpp')}` : null}
+					</SheetDescription>
+				</SheetHeader>
+				{isLoading || !event ? (
+					<div className="flex flex-1 items-center justify-center">
+						<Spinner variant="bars" size={64} />
+					</div>
+				) : (
+					<ScrollArea className="min-h-0 flex-1 px-4 pb-4">
+						<section className="space-y-2">
+							<h3 className="text-sm font-semibold">Event</h3>
+							<dl className="space-y-1">
+								<Field label="Status">
+									<Badge variant={event.status === 'failure' ? 'destructive' : 'secondary'}>
+										{event.status}
+									</Badge>
+								</Field>
+								<Field label="Principal">{event.principalId}</Field>
+								<Field label="Resource">
+									{event.targetResourceType
+										? `${event.targetResourceType}${event.targetResourceId ? `/${event.targetResourceId}` : ''}`
+										: null}
+								</Field>
+								<Field label="Outcome">{event.outcomeDescription}</Field>
+								<Field label="Classification">{event.dataClassification}</Field>
+								<Field label="Retention policy">{event.retentionPolicy}</Field>
+								<Field label="Correlation ID">{event.correlationId}</Field>
+								<Field label="Archived">
+									{event.archivedAt ? formatDate(new Date(event.archivedAt), 'PPp') : null}
+								</Field>
+							</dl>
+						</section>
+						<Separator className="my-4" />
+						<section className="space-y-2">
+							<h3 className="text-sm font-semibold">Session Context</h3>
+							{sessionContext ? (
+								<dl className="space-y-1">
+									<Field label="Session ID">{sessionContext.sessionId}</Field>
+									<Field label="IP address">{sessionContext.ipAddress}</Field>
+									<Field label="User agent">{sessionContext.userAgent}</Field>
+									<Field label="Location">{sessionContext.geolocation}</Field>
+								</dl>
+							) : (
+								<p className="text-muted-foreground text-sm">No session context was recorded.</p>
+							)}
+						</section>
+						<Separator className="my-4" />
+						<section className="space-y-2">
+							<div className="flex items-center justify-between">
+								<h3 className="text-sm font-semibold">Integrity</h3>
+								<Button
+									variant="outline"
+									size="sm"
+									onClick={handleVerify}
+									disabled={!event.hash || verify.isPending}
+								>
+									{verify.isPending ? <Spinner variant="bars" size={16} /> : 'Verify'}
+								</Button>
+							</div>
+							<dl className="space-y-1">
+								<Field label="Status">
+									{verify.data ? (
+										verify.data.isValid ? (
+											<span className="flex items-center gap-1 text-green-600">
+												<ShieldCheck className="size-4" /> Hash verified
+											</span>
+										) : (
+											<span className="text-destructive flex items-center gap-1">
+												<ShieldX className="size-4" /> Hash mismatch, the event was altered
+											</span>
+										)
+									) : event.hash ? (
+										<span className="flex items-center gap-1">
+											<ShieldCheck className="size-4" /> Hashed, not verified yet
+										</span>
+									) : (
+										<span className="text-muted-foreground flex items-center gap-1">
+											<ShieldOff className="size-4" /> No integrity hash
+										</span>
+									)}
+								</Field>
+								<Field label="Algorithm">{event.hashAlgorithm}</Field>
+								<Field label="Hash">
+									<code className="text-xs">{event.hash}</code>
+								</Field>
+								{verify.data && !verify.data.isValid && (
+									<Field label="Computed hash">
+										<code className="text-xs">{verify.data.computedHash}</code>
+									</Field>
+								)}
+								<Field label="Chain hash">
+									<code className="text-xs">{event.chainHash}</code>
+								</Field>
+								<Field label="Previous hash">
+									<code className="text-xs">{event.previousHash}</code>
+								</Field>
+							</dl>
+						</section>
+						<Separator className="my-4" />
+						<section className="space-y-2">
+							<h3 className="text-sm font-semibold">Details</h3>
+							{Object.keys(otherDetails).length > 0 ? (
+								<pre className="bg-muted overflow-x-auto rounded-md p-3 text-xs">
+									{JSON.stringify(otherDetails, null, 2)}
+								</pre>
+							) : (
+								<p className="text-muted-foreground text-sm">No additional details.</p>
+							)}
+						</section>
+					</ScrollArea>
+				)}
+			</SheetContent>
+		</Sheet>
+	)
+}
@@ -0,0 +1,132 @@
+'use client'
+
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { flexRender } from '@tanstack/react-table'
+import { useVirtualizer } from '@tanstack/react-virtual'
+import { useEffect, useRef } from 'react'
+
+import type { Table as TanstackTable } from '@tanstack/react-table'
+import type { AuditEventRow } from './columns'
+
+interface EventListProps {
+	table: TanstackTable<AuditEventRow>
+	hasNextPage: boolean
+	isFetchingNextPage: boolean
+	fetchNextPage: () => void
+	onSelect: (event: AuditEventRow) => void
+}
+
+const ROW_HEIGHT = 53
+// Rows left below the viewport when the next page is requested
+const PREFETCH_ROWS = 10
+
+/**
+ * Audit events in a virtualized table that loads the next page as it is scrolled
+ */
+export function EventList({
+	table,
+	hasNextPage,
+	isFetchingNextPage,
+	fetchNextPage,
+	onSelect,
+}: EventListProps) {
+	const scrollRef = useRef<HTMLDivElement>(null)
+	const { rows } = table.getRowModel()
+
+	const virtualizer = useVirtualizer({
+		count: rows.length,
+		getScrollElement: () => scrollRef.current,
+		estimateSize: () => ROW_HEIGHT,
+		overscan: 10,
+	})
+	const virtualRows = virtualizer.getVirtualItems()
+	const lastRowIndex = virtualRows[virtualRows.length - 1]?.index ?? -1
+
+	useEffect(() => {
+		if (hasNextPage && !isFetchingNextPage && lastRowIndex >= rows.length - PREFETCH_ROWS) {
+			fetchNextPage()
+		}
+	}, [hasNextPage, isFetchingNextPage, fetchNextPage, lastRowIndex, rows.length])
+
+	// Spacer rows keep the scroll height of the rows that are not rendered
+	const paddingTop = virtualRows[0]?.start ?? 0
+	const paddingBottom =
+		virtualRows.length > 0
+			? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end
+			: 0
+	const columnCount = table.getVisibleLeafColumns().length
+
+	return (
+		<div ref={scrollRef} className="h-[calc(100vh-12rem)] overflow-auto rounded-md border">
+			<Table>
+				<TableHeader className="bg-background sticky top-0 z-10">
+					{table.getHeaderGroups().map((headerGroup) => (
+						<TableRow key={headerGroup.id}>
+							{headerGroup.headers.map((header) => (
+								<TableHead key={header.id} style={{ width: header.getSize() }}>
+									{header.isPlaceholder
+										? null
+										: flexRender(header.column.columnDef.header, header.getContext())}
+								</TableHead>
+							))}
+						</TableRow>
+					))}
+				</TableHeader>
+				<TableBody>
+					{paddingTop > 0 && (
+						<tr>
+							<td style={{ height: paddingTop }} />
+						</tr>
+					)}
+					{virtualRows.map((virtualRow) => {
+						const row = rows[virtualRow.index]
+						return (
+							<TableRow
+								key={row.id}
+								data-index={virtualRow.index}
+								ref={virtualizer.measureElement}
+								className="cursor-pointer"
+								onClick={() => onSelect(row.original)}
+							>
+								{row.getVisibleCells().map((cell) => (
+									<TableCell key={cell.id} className="max-w-[280px]">
+										{flexRender(cell.column.columnDef.cell, cell.getContext())}
+									</TableCell>
+								))}
+							</TableRow>
+						)
+					})}
+					{paddingBottom > 0 && (
+						<tr>
+							<td style={{ height: paddingBottom }} />
+						</tr>
+					)}
+					{rows.length === 0 && (
+						<TableRow>
+							<TableCell colSpan={columnCount} className="h-24 text-center">
+								No events match the filters.
+							</TableCell>
+						</TableRow>
+					)}
+					{isFetchingNextPage && (
+						<TableRow>
+							<TableCell colSpan={columnCount}>
+								<div className="flex justify-center">
+									<Spinner variant="bars" size={24} />
+								</div>
+							</TableCell>
+						</TableRow>
+					)}
+				</TableBody>
+			</Table>
+		</div>
+	)
+}
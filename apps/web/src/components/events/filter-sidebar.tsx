@@ -0,0 +1,116 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { DataTableFacetedFilter } from '@/components/ui/data-table-faceted-filter'
+import { DateRangePicker } from '@/components/ui/date-range-picker'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Separator } from '@/components/ui/separator'
+import { Switch } from '@/components/ui/switch'
+import { X } from 'lucide-react'
+
+import { dataClassifications, statuses } from './data'
+
+import type { eventExplorerSearchParams } from '@/lib/searchParams'
+import type { Table } from '@tanstack/react-table'
+import type { inferParserType } from 'nuqs'
+import type { AuditEventRow } from './columns'
+
+export type EventExplorerQuery = inferParserType<typeof eventExplorerSearchParams>
+
+interface FilterSidebarProps {
+	table: Table<AuditEventRow>
+	query: EventExplorerQuery
+	onQueryChange: (query: Partial<EventExplorerQuery> | null) => void
+	/** Facet values found by the server, for filters without a fixed set of options */
+	facetOptions: { actions: string[]; resourceTypes: string[] }
+}
+
+const toOptions = (values: string[]) => values.map((value) => ({ label: value, value }))
+
+/**
+ * Faceted filters of the event explorer
+ *
+ * Facets filter through the table columns, whose filter state is kept in the URL.
+ */
+export function FilterSidebar({ table, query, onQueryChange, facetOptions }: FilterSidebarProps) {
+	const isFiltered =
+		table.getState().columnFilters.length > 0 ||
+		!!query.search ||
+		!!query.principalId ||
+		!!query.correlationId ||
+		!!query.from ||
+		query.verifiedOnly
+
+	return (
+		<aside className="flex w-full flex-col gap-4 lg:w-64 lg:shrink-0">
+			<Input
+				placeholder="Search events..."
+				value={query.search}
+				onChange={(event) => onQueryChange({ search: event.target.value })}
+			/>
+			<DateRangePicker
+				key={`${query.from?.toISOString()}-${query.to?.toISOString()}`}
+				onUpdate={({ range }) => onQueryChange({ from: range.from, to: range.to ?? range.from })}
+				initialDateFrom={query.from ?? undefined}
+				initialDateTo={query.to ?? undefined}
+				align="start"
+				locale="en-US"
+				showCompare={false}
+			/>
+			<div className="flex flex-wrap gap-2 lg:flex-col lg:items-start">
+				<DataTableFacetedFilter
+					column={table.getColumn('status')}
+					title="Status"
+					options={statuses}
+				/>
+				<DataTableFacetedFilter
+					column={table.getColumn('dataClassification')}
+					title="Classification"
+					options={dataClassifications}
+				/>
+				<DataTableFacetedFilter
+					column={table.getColumn('action')}
+					title="Action"
+					options={toOptions(facetOptions.actions)}
+				/>
+				<DataTableFacetedFilter
+					column={table.getColumn('targetResourceType')}
+					title="Resource type"
+					options={toOptions(facetOptions.resourceTypes)}
+				/>
+			</div>
+			<Separator />
+			<div className="space-y-2">
+				<Label htmlFor="principalId">Principal ID</Label>
+				<Input
+					id="principalId"
+					value={query.principalId}
+					onChange={(event) => onQueryChange({ principalId: event.target.value })}
+				/>
+			</div>
+			<div className="space-y-2">
+				<Label htmlFor="correlationId">Correlation ID</Label>
+				<Input
+					id="correlationId"
+					value={query.correlationId}
+					onChange={(event) => onQueryChange({ correlationId: event.target.value })}
+				/>
+			</div>
+			<div className="flex items-center justify-between">
+				<Label htmlFor="verifiedOnly">Hashed events only</Label>
+				<Switch
+					id="verifiedOnly"
+					checked={query.verifiedOnly}
+					onCheckedChange={(checked) => onQueryChange({ verifiedOnly: checked })}
+				/>
+			</div>
+			{isFiltered && (
+				<Button variant="ghost" onClick={() => onQueryChange(null)} className="justify-start">
+					Reset
+					<X />
+				</Button>
+			)}
+		</aside>
+	)
+}
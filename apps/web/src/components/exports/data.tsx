@@ -0,0 +1,54 @@
+import { FileCode, FileJson, FileSpreadsheet, FileText, ListOrdered } from 'lucide-react'
+
+import type { ExportColumn, ExportFileFormat } from '@repo/audit'
+
+export const exportFormats: {
+	label: string
+	value: ExportFileFormat
+	description: string
+	icon: typeof FileJson
+}[] = [
+	{
+		label: 'CSV',
+		value: 'csv',
+		description: 'One row per event, for spreadsheets',
+		icon: FileSpreadsheet,
+	},
+	{
+		label: 'JSON',
+		value: 'json',
+		description: 'A single document with every event',
+		icon: FileJson,
+	},
+	{
+		label: 'NDJSON',
+		value: 'ndjson',
+		description: 'One JSON event per line, for log tooling',
+		icon: ListOrdered,
+	},
+	{ label: 'XML', value: 'xml', description: 'For systems that ingest XML', icon: FileCode },
+	{
+		label: 'PDF',
+		value: 'pdf',
+		description: 'Signed, printable report of up to 10,000 events',
+		icon: FileText,
+	},
+]
+
+export const exportColumns: { label: string; value: ExportColumn }[] = [
+	{ label: 'ID', value: 'id' },
+	{ label: 'Timestamp', value: 'timestamp' },
+	{ label: 'Principal', value: 'principalId' },
+	{ label: 'Organization', value: 'organizationId' },
+	{ label: 'Action', value: 'action' },
+	{ label: 'Resource type', value: 'targetResourceType' },
+	{ label: 'Resource ID', value: 'targetResourceId' },
+	{ label: 'Status', value: 'status' },
+	{ label: 'Outcome', value: 'outcomeDescription' },
+	{ label: 'Classification', value: 'dataClassification' },
+	{ label: 'IP address', value: 'ipAddress' },
+	{ label: 'User agent', value: 'userAgent' },
+	{ label: 'Session ID', value: 'sessionId' },
+	{ label: 'Integrity status', value: 'integrityStatus' },
+	{ label: 'Correlation ID', value: 'correlationId' },
+]
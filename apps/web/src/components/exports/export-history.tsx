@@ -0,0 +1,197 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import { Progress } from '@/components/ui/progress'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { formatDate } from '@/lib/date'
+import { trpc } from '@/utils/trpc'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Download, Lock, X } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import { exportFormats } from './data'
+
+import type { RouterOutputs } from '@/utils/trpc'
+
+type ExportJob = RouterOutputs['events']['exports'][number]
+
+const statusVariants: Record<
+	ExportJob['status'],
+	'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+	pending: 'outline',
+	processing: 'default',
+	completed: 'secondary',
+	failed: 'destructive',
+	cancelled: 'outline',
+	expired: 'outline',
+}
+
+// Running jobs are polled until they finish
+const POLL_INTERVAL = 3000
+
+function formatSize(bytes?: number) {
+	if (bytes === undefined) return '-'
+	if (bytes < 1024) return `${bytes} B`
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+const isRunning = (job: ExportJob) => job.status === 'pending' || job.status === 'processing'
+const isDownloadable = (job: ExportJob) =>
+	job.status === 'completed' && (!job.expiresAt || new Date(job.expiresAt) > new Date())
+
+/**
+ * Download a finished export through the REST API, which streams the stored file
+ */
+async function downloadExport(job: ExportJob) {
+	const response = await fetch(
+		`${import.meta.env.VITE_SERVER_URL}/api/v1/audit/events/exports/${job.id}/download`,
+		{ credentials: 'include' }
+	)
+	if (!response.ok) throw new Error(`Download failed with status ${response.status}`)
+
+	const url = URL.createObjectURL(await response.blob())
+	const link = document.createElement('a')
+	link.href = url
+	link.download = job.filename ?? `audit-events-${job.id}`
+	link.click()
+	URL.revokeObjectURL(url)
+}
+
+interface ExportHistoryProps {
+	limit?: number
+}
+
+/**
+ * Recent export jobs of the organization with their progress, download and cancel actions
+ */
+export function ExportHistory({ limit = 20 }: ExportHistoryProps) {
+	const [downloading, setDownloading] = useState<string | null>(null)
+	const queryClient = useQueryClient()
+
+	const { data: jobs, isLoading } = useQuery({
+		...trpc.events.exports.queryOptions({ limit }),
+		refetchInterval: (query) => (query.state.data?.some(isRunning) ? POLL_INTERVAL : false),
+	})
+	const cancel = useMutation(
+		trpc.events.cancelExport.mutationOptions({
+			onSuccess: () => queryClient.invalidateQueries({ queryKey: trpc.events.exports.queryKey() }),
+			onError: (error) => toast.error(error.message),
+		})
+	)
+
+	const handleDownload = async (job: ExportJob) => {
+		setDownloading(job.id)
+		try {
+			await downloadExport(job)
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Failed to download the export')
+		} finally {
+			setDownloading(null)
+		}
+	}
+
+	if (isLoading) {
+		return (
+			<div className="flex justify-center">
+				<Spinner variant="bars" size={32} />
+			</div>
+		)
+	}
+
+	return (
+		<Table>
+			<TableHeader>
+				<TableRow>
+					<TableHead>Requested</TableHead>
+					<TableHead>Format</TableHead>
+					<TableHead>Events</TableHead>
+					<TableHead>Size</TableHead>
+					<TableHead>Delivery</TableHead>
+					<TableHead>Status</TableHead>
+					<TableHead>Expires</TableHead>
+					<TableHead className="text-right">Actions</TableHead>
+				</TableRow>
+			</TableHeader>
+			<TableBody>
+				{jobs && jobs.length > 0 ? (
+					jobs.map((job) => (
+						<TableRow key={job.id}>
+							<TableCell>{formatDate(new Date(job.createdAt), 'PPp')}</TableCell>
+							<TableCell>
+								<div className="flex items-center gap-2">
+									{exportFormats.find((format) => format.value === job.format)?.label ?? job.format}
+									{job.compression === 'gzip' && <Badge variant="outline">gzip</Badge>}
+									{job.encrypted && <Lock className="size-3.5" aria-label="Encrypted" />}
+								</div>
+							</TableCell>
+							<TableCell>{job.recordCount ?? job.totalRecords ?? '-'}</TableCell>
+							<TableCell>{formatSize(job.size)}</TableCell>
+							<TableCell>
+								{job.delivery.method === 'email'
+									? `Email (${job.delivery.recipients.length})`
+									: 'Download'}
+							</TableCell>
+							<TableCell className="min-w-[140px]">
+								{job.status === 'processing' ? (
+									<div className="flex items-center gap-2">
+										<Progress value={job.progress} className="w-20" />
+										<span className="text-muted-foreground text-xs">{job.progress}%</span>
+									</div>
+								) : (
+									<Badge variant={statusVariants[job.status]} title={job.error}>
+										{job.status}
+									</Badge>
+								)}
+							</TableCell>
+							<TableCell>
+								{job.expiresAt ? formatDate(new Date(job.expiresAt), 'PPp') : '-'}
+							</TableCell>
+							<TableCell className="text-right">
+								{isDownloadable(job) && (
+									<Button
+										variant="ghost"
+										size="sm"
+										onClick={() => handleDownload(job)}
+										disabled={downloading === job.id}
+									>
+										{downloading === job.id ? <Spinner variant="bars" size={16} /> : <Download />}
+										Download
+									</Button>
+								)}
+								{isRunning(job) && (
+									<Button
+										variant="ghost"
+										size="sm"
+										onClick={() => cancel.mutate({ id: job.id })}
+										disabled={cancel.isPending}
+									>
+										<X />
+										Cancel
+									</Button>
+								)}
+							</TableCell>
+						</TableRow>
+					))
+				) : (
+					<TableRow>
+						<TableCell colSpan={8} className="h-24 text-center">
+							No exports yet.
+						</TableCell>
+					</TableRow>
+				)}
+			</TableBody>
+		</Table>
+	)
+}
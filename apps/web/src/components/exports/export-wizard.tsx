@@ -0,0 +1,626 @@
+'use client'
+
+import { dataClassifications, statuses } from '@/components/events/data'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { DateRangePicker } from '@/components/ui/date-range-picker'
+import {
+	Form,
+	FormControl,
+	FormDescription,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { useDebounce } from '@/hooks/use-debounce'
+import { formatDate } from '@/lib/date'
+import { cn } from '@/lib/utils'
+import { trpc } from '@/utils/trpc'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useQuery } from '@tanstack/react-query'
+import { endOfDay, startOfDay, subDays } from 'date-fns'
+import { useMemo, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import * as z from 'zod'
+
+import { exportColumns, exportFormats } from './data'
+
+import type { RouterInputs } from '@/utils/trpc'
+import type { ExportColumn } from '@repo/audit'
+
+// Keep in sync with the export size limit of PDF jobs on the server
+const MAX_PDF_EVENTS = 10_000
+
+const formSchema = z
+	.object({
+		dateRange: z.object({ from: z.date(), to: z.date().optional() }),
+		statuses: z.array(z.enum(['attempt', 'success', 'failure'])),
+		dataClassifications: z.array(z.enum(['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'PHI'])),
+		actions: z.string(),
+		resourceTypes: z.string(),
+		principalIds: z.string(),
+		verifiedOnly: z.boolean(),
+		columns: z.array(z.string()).min(1, 'Select at least one column'),
+		format: z.enum(['json', 'ndjson', 'csv', 'xml', 'pdf']),
+		includeMetadata: z.boolean(),
+		compression: z.enum(['none', 'gzip']),
+		encrypt: z.boolean(),
+		passphrase: z.string(),
+		confirmPassphrase: z.string(),
+		delivery: z.enum(['download', 'email']),
+		recipients: z.string(),
+	})
+	.superRefine((values, ctx) => {
+		if (values.encrypt) {
+			if (values.passphrase.length < 12) {
+				ctx.addIssue({
+					code: 'custom',
+					path: ['passphrase'],
+					message: 'Passphrase must be at least 12 characters',
+				})
+			} else if (values.passphrase !== values.confirmPassphrase) {
+				ctx.addIssue({
+					code: 'custom',
+					path: ['confirmPassphrase'],
+					message: 'Passphrases do not match',
+				})
+			}
+		}
+		if (values.delivery === 'email') {
+			const recipients = splitList(values.recipients)
+			const invalid = recipients.filter((email) => !z.string().email().safeParse(email).success)
+			if (recipients.length === 0 || invalid.length > 0) {
+				ctx.addIssue({
+					code: 'custom',
+					path: ['recipients'],
+					message:
+						invalid.length > 0
+							? `Invalid email address: ${invalid.join(', ')}`
+							: 'Enter at least one recipient',
+				})
+			}
+		}
+	})
+
+export type ExportWizardValues = z.infer<typeof formSchema>
+
+type ExportRequest = RouterInputs['events']['export']
+
+const steps = [
+	{
+		title: 'Filters',
+		fields: [
+			'dateRange',
+			'statuses',
+			'dataClassifications',
+			'actions',
+			'resourceTypes',
+			'principalIds',
+		],
+	},
+	{ title: 'Columns', fields: ['columns'] },
+	{ title: 'Format', fields: ['format', 'compression', 'passphrase', 'confirmPassphrase'] },
+	{ title: 'Delivery', fields: ['delivery', 'recipients'] },
+] as const
+
+function splitList(value: string) {
+	return value
+		.split(/[\s,;]+/)
+		.map((item) => item.trim())
+		.filter(Boolean)
+}
+
+const listOrUndefined = <T,>(values: T[]) => (values.length > 0 ? values : undefined)
+
+function toFilter(values: ExportWizardValues): ExportRequest['filter'] {
+	return {
+		dateRange: {
+			startDate: startOfDay(values.dateRange.from).toISOString(),
+			endDate: endOfDay(values.dateRange.to ?? values.dateRange.from).toISOString(),
+		},
+		statuses: listOrUndefined(values.statuses),
+		dataClassifications: listOrUndefined(values.dataClassifications),
+		actions: listOrUndefined(splitList(values.actions)),
+		resourceTypes: listOrUndefined(splitList(values.resourceTypes)),
+		principalIds: listOrUndefined(splitList(values.principalIds)),
+		verifiedOnly: values.verifiedOnly || undefined,
+	}
+}
+
+/**
+ * The export request for the wizard values
+ */
+export function toExportRequest(values: ExportWizardValues): ExportRequest {
+	return {
+		filter: toFilter(values),
+		format: values.format,
+		includeMetadata: values.includeMetadata,
+		compression: values.compression,
+		// PDF reports have a fixed layout
+		columns: values.format === 'pdf' ? undefined : (values.columns as ExportColumn[]),
+		encryption: values.encrypt ? { passphrase: values.passphrase } : undefined,
+		delivery:
+			values.delivery === 'email'
+				? { method: 'email', recipients: splitList(values.recipients) }
+				: { method: 'download' },
+	}
+}
+
+interface ExportWizardProps {
+	onSubmit: (request: ExportRequest) => Promise<void>
+}
+
+/**
+ * Step by step export request: filters, columns, format and delivery
+ * The number of matching events is estimated live as the filters change.
+ */
+export function ExportWizard({ onSubmit }: ExportWizardProps) {
+	const [step, setStep] = useState(0)
+	const [loading, setLoading] = useState(false)
+	const form = useForm<ExportWizardValues>({
+		resolver: zodResolver(formSchema),
+		defaultValues: {
+			dateRange: { from: subDays(new Date(), 30), to: new Date() },
+			statuses: [],
+			dataClassifications: [],
+			actions: '',
+			resourceTypes: '',
+			principalIds: '',
+			verifiedOnly: false,
+			columns: exportColumns.map((column) => column.value),
+			format: 'csv',
+			includeMetadata: true,
+			compression: 'gzip',
+			encrypt: false,
+			passphrase: '',
+			confirmPassphrase: '',
+			delivery: 'download',
+			recipients: '',
+		},
+	})
+
+	const values = form.watch()
+	// Debounced by value, the filter object is rebuilt on every render
+	const filterKey = useDebounce(JSON.stringify(toFilter(values)), 400)
+	const filter = useMemo<ExportRequest['filter']>(() => JSON.parse(filterKey), [filterKey])
+	const { data: estimate, isFetching: isEstimating } = useQuery(
+		trpc.events.exportEstimate.queryOptions({ filter }, { placeholderData: (previous) => previous })
+	)
+	const tooManyForPdf = values.format === 'pdf' && (estimate?.count ?? 0) > MAX_PDF_EVENTS
+	const isLastStep = step === steps.length - 1
+
+	const handleNext = async () => {
+		if (await form.trigger([...steps[step].fields])) setStep(step + 1)
+	}
+
+	async function handleSubmit(values: ExportWizardValues) {
+		try {
+			setLoading(true)
+			await onSubmit(toExportRequest(values))
+			form.reset()
+			setStep(0)
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Failed to start the export')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	return (
+		<Form {...form}>
+			<form
+				onSubmit={(event) =>
+					isLastStep ? form.handleSubmit(handleSubmit)(event) : event.preventDefault()
+				}
+				className="space-y-6"
+			>
+				<ol className="flex flex-wrap gap-2">
+					{steps.map((item, index) => (
+						<li
+							key={item.title}
+							className={cn(
+								'flex items-center gap-2 rounded-md border px-3 py-1.5 text-sm',
+								index === step ? 'border-primary font-medium' : 'text-muted-foreground'
+							)}
+						>
+							<span className="tabular-nums">{index + 1}</span>
+							{item.title}
+						</li>
+					))}
+				</ol>
+
+				<div className="text-muted-foreground flex items-center gap-2 text-sm">
+					{isEstimating && <Spinner variant="bars" size={14} />}
+					{estimate
+						? `About ${estimate.count.toLocaleString()} events match the filters`
+						: 'Estimating matching events...'}
+				</div>
+
+				{step === 0 && (
+					<div className="grid gap-4 md:grid-cols-2">
+						<FormField
+							control={form.control}
+							name="dateRange"
+							render={({ field }) => (
+								<FormItem className="md:col-span-2">
+									<FormLabel>Date range</FormLabel>
+									<FormControl>
+										<DateRangePicker
+											onUpdate={({ range }) => range.from && field.onChange(range)}
+											initialDateFrom={field.value.from}
+											initialDateTo={field.value.to}
+											align="start"
+											locale="en-US"
+											showCompare={false}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="statuses"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Status</FormLabel>
+									<CheckboxList options={statuses} value={field.value} onChange={field.onChange} />
+									<FormDescription>All statuses when none is selected.</FormDescription>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="dataClassifications"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Classification</FormLabel>
+									<CheckboxList
+										options={dataClassifications}
+										value={field.value}
+										onChange={field.onChange}
+									/>
+									<FormDescription>All classifications when none is selected.</FormDescription>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="actions"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Actions</FormLabel>
+									<FormControl>
+										<Input placeholder="data.read, auth.login.success" {...field} />
+									</FormControl>
+									<FormDescription>Comma separated, all actions when empty.</FormDescription>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="resourceTypes"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Resource types</FormLabel>
+									<FormControl>
+										<Input placeholder="Patient, Observation" {...field} />
+									</FormControl>
+									<FormDescription>Comma separated, all resource types when empty.</FormDescription>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="principalIds"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Principals</FormLabel>
+									<FormControl>
+										<Input placeholder="user-123" {...field} />
+									</FormControl>
+									<FormDescription>Comma separated, all principals when empty.</FormDescription>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="verifiedOnly"
+							render={({ field }) => (
+								<FormItem className="flex items-center gap-2 self-end">
+									<FormControl>
+										<Switch checked={field.value} onCheckedChange={field.onChange} />
+									</FormControl>
+									<FormLabel>Only events with an integrity hash</FormLabel>
+								</FormItem>
+							)}
+						/>
+					</div>
+				)}
+
+				{step === 1 && (
+					<FormField
+						control={form.control}
+						name="columns"
+						render={({ field }) => (
+							<FormItem>
+								<div className="flex items-center justify-between">
+									<FormLabel>Columns</FormLabel>
+									<div className="flex gap-2">
+										<Button
+											type="button"
+											variant="ghost"
+											size="sm"
+											onClick={() => field.onChange(exportColumns.map((column) => column.value))}
+										>
+											Select all
+										</Button>
+										<Button
+											type="button"
+											variant="ghost"
+											size="sm"
+											onClick={() => field.onChange([])}
+										>
+											Clear
+										</Button>
+									</div>
+								</div>
+								<CheckboxList
+									options={exportColumns}
+									value={field.value}
+									onChange={field.onChange}
+									className="grid-cols-2 md:grid-cols-3"
+								/>
+								<FormDescription>
+									Columns are written in this order. PDF reports always use their own layout.
+								</FormDescription>
+								<FormMessage />
+							</FormItem>
+						)}
+					/>
+				)}
+
+				{step === 2 && (
+					<div className="space-y-4">
+						<FormField
+							control={form.control}
+							name="format"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Format</FormLabel>
+									<div className="grid gap-2 md:grid-cols-3">
+										{exportFormats.map((format) => (
+											<button
+												key={format.value}
+												type="button"
+												onClick={() => field.onChange(format.value)}
+												className={cn(
+													'flex items-start gap-3 rounded-md border p-3 text-left',
+													field.value === format.value && 'border-primary bg-accent'
+												)}
+											>
+												<format.icon className="mt-0.5 size-4" />
+												<div>
+													<div className="text-sm font-medium">{format.label}</div>
+													<div className="text-muted-foreground text-xs">{format.description}</div>
+												</div>
+											</button>
+										))}
+									</div>
+									{tooManyForPdf && (
+										<p className="text-destructive text-sm">
+											PDF exports hold at most {MAX_PDF_EVENTS.toLocaleString()} events, narrow the
+											filters or choose another format.
+										</p>
+									)}
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="includeMetadata"
+							render={({ field }) => (
+								<FormItem className="flex items-center gap-2">
+									<FormControl>
+										<Switch checked={field.value} onCheckedChange={field.onChange} />
+									</FormControl>
+									<FormLabel>Include export metadata</FormLabel>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="compression"
+							render={({ field }) => (
+								<FormItem className="flex items-center gap-2">
+									<FormControl>
+										<Switch
+											checked={field.value === 'gzip'}
+											onCheckedChange={(checked) => field.onChange(checked ? 'gzip' : 'none')}
+										/>
+									</FormControl>
+									<FormLabel>Compress with gzip</FormLabel>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="encrypt"
+							render={({ field }) => (
+								<FormItem className="flex items-center gap-2">
+									<FormControl>
+										<Switch checked={field.value} onCheckedChange={field.onChange} />
+									</FormControl>
+									<FormLabel>Encrypt with a passphrase</FormLabel>
+								</FormItem>
+							)}
+						/>
+						{values.encrypt && (
+							<div className="grid gap-4 md:grid-cols-2">
+								<FormField
+									control={form.control}
+									name="passphrase"
+									render={({ field }) => (
+										<FormItem>
+											<FormLabel>Passphrase</FormLabel>
+											<FormControl>
+												<Input type="password" autoComplete="new-password" {...field} />
+											</FormControl>
+											<FormDescription>
+												Share it with the recipients separately. It cannot be recovered.
+											</FormDescription>
+											<FormMessage />
+										</FormItem>
+									)}
+								/>
+								<FormField
+									control={form.control}
+									name="confirmPassphrase"
+									render={({ field }) => (
+										<FormItem>
+											<FormLabel>Confirm passphrase</FormLabel>
+											<FormControl>
+												<Input type="password" autoComplete="new-password" {...field} />
+											</FormControl>
+											<FormMessage />
+										</FormItem>
+									)}
+								/>
+							</div>
+						)}
+					</div>
+				)}
+
+				{step === 3 && (
+					<div className="space-y-4">
+						<FormField
+							control={form.control}
+							name="delivery"
+							render={({ field }) => (
+								<FormItem className="flex items-center gap-2">
+									<FormControl>
+										<Switch
+											checked={field.value === 'email'}
+											onCheckedChange={(checked) => field.onChange(checked ? 'email' : 'download')}
+										/>
+									</FormControl>
+									<FormLabel>Notify recipients by email when the export is ready</FormLabel>
+								</FormItem>
+							)}
+						/>
+						{values.delivery === 'email' && (
+							<FormField
+								control={form.control}
+								name="recipients"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Recipients</FormLabel>
+										<FormControl>
+											<Textarea
+												className="resize-none"
+												placeholder="auditor@example.com, dpo@example.com"
+												{...field}
+											/>
+										</FormControl>
+										<FormDescription>
+											The email points to the exports list, the file is not attached. Recipients
+											need access to this organization to download it.
+										</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						)}
+						<dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-1 rounded-md border p-4 text-sm">
+							<dt className="text-muted-foreground">Date range</dt>
+							<dd>
+								{formatDate(values.dateRange.from, 'PP')} to{' '}
+								{formatDate(values.dateRange.to ?? values.dateRange.from, 'PP')}
+							</dd>
+							<dt className="text-muted-foreground">Events</dt>
+							<dd>{estimate ? estimate.count.toLocaleString() : '-'}</dd>
+							<dt className="text-muted-foreground">Format</dt>
+							<dd>
+								{exportFormats.find((format) => format.value === values.format)?.label}
+								{values.compression === 'gzip' && ', gzip'}
+								{values.encrypt && ', encrypted'}
+							</dd>
+							<dt className="text-muted-foreground">Columns</dt>
+							<dd>
+								{values.format === 'pdf'
+									? 'Report layout'
+									: `${values.columns.length} of ${exportColumns.length}`}
+							</dd>
+						</dl>
+					</div>
+				)}
+
+				<div className="flex justify-between">
+					<Button
+						type="button"
+						variant="outline"
+						onClick={() => setStep(step - 1)}
+						disabled={step === 0}
+					>
+						Back
+					</Button>
+					{isLastStep ? (
+						<Button type="submit" disabled={loading || tooManyForPdf}>
+							{loading ? <Spinner variant="bars" size={16} /> : 'Start Export'}
+						</Button>
+					) : (
+						<Button type="button" onClick={handleNext}>
+							Next
+						</Button>
+					)}
+				</div>
+			</form>
+		</Form>
+	)
+}
+
+interface CheckboxListProps<T extends string> {
+	options: { label: string; value: T }[]
+	value: T[]
+	onChange: (value: T[]) => void
+	className?: string
+}
+
+/**
+ * A checkbox per option, the selected values keep the order of the options
+ */
+export function CheckboxList<T extends string>({
+	options,
+	value,
+	onChange,
+	className,
+}: CheckboxListProps<T>) {
+	return (
+		<div className={cn('grid gap-2', className)}>
+			{options.map((option) => (
+				<label key={option.value} className="flex items-center gap-2 text-sm">
+					<Checkbox
+						checked={value.includes(option.value)}
+						onCheckedChange={(checked) =>
+							onChange(
+								checked
+									? // Keep the order of the options
+										options
+											.map((item) => item.value)
+											.filter((item) => item === option.value || value.includes(item))
+									: value.filter((item) => item !== option.value)
+							)
+						}
+					/>
+					{option.label}
+				</label>
+			))}
+		</div>
+	)
+}
@@ -0,0 +1,173 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import {
+	Form,
+	FormControl,
+	FormDescription,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from '@/components/ui/form'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import * as z from 'zod'
+
+import { Input } from '../ui/input'
+import { Spinner } from '../ui/kibo-ui/spinner'
+import { Textarea } from '../ui/textarea'
+
+export const requestTypeLabels = {
+	access: 'Access (Art. 15)',
+	rectification: 'Rectification (Art. 16)',
+	erasure: 'Erasure (Art. 17)',
+	restriction: 'Restriction (Art. 18)',
+	portability: 'Portability (Art. 20)',
+} as const
+
+const formSchema = z.object({
+	requestType: z.enum(['access', 'rectification', 'erasure', 'restriction', 'portability']),
+	principalId: z.string().min(1, 'Principal ID is required').max(255),
+	subjectName: z.string().max(255).optional(),
+	subjectEmail: z.union([z.literal(''), z.string().email('Invalid email address')]).optional(),
+	description: z.string().max(5000).optional(),
+	receivedAt: z.string().optional(),
+})
+
+export type DataSubjectRequestFormValues = z.infer<typeof formSchema>
+
+interface FormProps {
+	onSubmit: (data: DataSubjectRequestFormValues) => Promise<void>
+}
+
+export default function DataSubjectRequestForm({ onSubmit }: FormProps) {
+	const [loading, setLoading] = useState(false)
+	const form = useForm<DataSubjectRequestFormValues>({
+		resolver: zodResolver(formSchema),
+		defaultValues: { requestType: 'access', principalId: '' },
+	})
+
+	async function handleSubmit(values: DataSubjectRequestFormValues) {
+		try {
+			setLoading(true)
+			await onSubmit(values)
+		} catch (error) {
+			toast.error('Failed to submit the form. Please try again.')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	return (
+		<Form {...form}>
+			<form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4 max-w-3xl mx-auto">
+				<FormField
+					control={form.control}
+					name="requestType"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Right exercised</FormLabel>
+							<Select onValueChange={field.onChange} defaultValue={field.value}>
+								<FormControl>
+									<SelectTrigger>
+										<SelectValue placeholder="Select the right the data subject exercises" />
+									</SelectTrigger>
+								</FormControl>
+								<SelectContent>
+									{Object.entries(requestTypeLabels).map(([value, label]) => (
+										<SelectItem key={value} value={value}>
+											{label}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+				<FormField
+					control={form.control}
+					name="principalId"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Principal ID</FormLabel>
+							<FormControl>
+								<Input placeholder="user-123" {...field} />
+							</FormControl>
+							<FormDescription>Identifier of the data subject in the audit log.</FormDescription>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+				<div className="grid grid-cols-2 gap-4">
+					<FormField
+						control={form.control}
+						name="subjectName"
+						render={({ field }) => (
+							<FormItem>
+								<FormLabel>Name</FormLabel>
+								<FormControl>
+									<Input placeholder="Jane Doe" {...field} />
+								</FormControl>
+								<FormMessage />
+							</FormItem>
+						)}
+					/>
+					<FormField
+						control={form.control}
+						name="subjectEmail"
+						render={({ field }) => (
+							<FormItem>
+								<FormLabel>Email</FormLabel>
+								<FormControl>
+									<Input type="email" placeholder="jane@example.com" {...field} />
+								</FormControl>
+								<FormMessage />
+							</FormItem>
+						)}
+					/>
+				</div>
+				<FormField
+					control={form.control}
+					name="receivedAt"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Received on</FormLabel>
+							<FormControl>
+								<Input type="date" {...field} />
+							</FormControl>
+							<FormDescription>The deadline runs from this day. Today when empty.</FormDescription>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+				<FormField
+					control={form.control}
+					name="description"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Details</FormLabel>
+							<FormControl>
+								<Textarea className="resize-none" {...field} />
+							</FormControl>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+				<Button type="submit">
+					{loading ? <Spinner variant="bars" size={16} /> : 'Log Request'}
+				</Button>
+			</form>
+		</Form>
+	)
+}
@@ -0,0 +1,165 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import {
+	Form,
+	FormControl,
+	FormDescription,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from '@/components/ui/form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import * as z from 'zod'
+
+import { Input } from '../ui/input'
+import { Spinner } from '../ui/kibo-ui/spinner'
+import { Textarea } from '../ui/textarea'
+
+const formSchema = z
+	.object({
+		name: z.string().min(1, 'Name is required').max(255),
+		reason: z.string().min(1, 'Reason is required').max(2000),
+		custodian: z.string().min(1, 'Custodian is required').max(255),
+		caseReference: z.string().max(255).optional(),
+		principalId: z.string().max(255).optional(),
+		targetResourceType: z.string().max(255).optional(),
+		targetResourceId: z.string().max(255).optional(),
+		startDate: z.string().optional(),
+		endDate: z.string().optional(),
+	})
+	.refine((hold) => !hold.startDate || !hold.endDate || hold.startDate <= hold.endDate, {
+		message: 'End date must not be before start date',
+		path: ['endDate'],
+	})
+
+export type LegalHoldFormValues = z.infer<typeof formSchema>
+
+interface FormProps {
+	onSubmit: (data: LegalHoldFormValues) => Promise<void>
+}
+
+const optionalFields = [
+	{ name: 'caseReference', label: 'Case reference', placeholder: 'CASE-2024-0042' },
+	{ name: 'principalId', label: 'Principal ID', placeholder: 'All principals' },
+	{ name: 'targetResourceType', label: 'Resource type', placeholder: 'All resource types' },
+	{ name: 'targetResourceId', label: 'Resource ID', placeholder: 'All resources' },
+] as const
+
+export default function LegalHoldForm({ onSubmit }: FormProps) {
+	const [loading, setLoading] = useState(false)
+	const form = useForm<LegalHoldFormValues>({
+		resolver: zodResolver(formSchema),
+		defaultValues: { name: '', reason: '', custodian: '' },
+	})
+
+	async function handleSubmit(values: LegalHoldFormValues) {
+		try {
+			setLoading(true)
+			await onSubmit(values)
+		} catch (error) {
+			toast.error('Failed to submit the form. Please try again.')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	return (
+		<Form {...form}>
+			<form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4 max-w-3xl mx-auto">
+				<FormField
+					control={form.control}
+					name="name"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Name</FormLabel>
+							<FormControl>
+								<Input placeholder="Smith v. Acme litigation" {...field} />
+							</FormControl>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+				<FormField
+					control={form.control}
+					name="reason"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Reason</FormLabel>
+							<FormControl>
+								<Textarea className="resize-none" {...field} />
+							</FormControl>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+				<FormField
+					control={form.control}
+					name="custodian"
+					render={({ field }) => (
+						<FormItem>
+							<FormLabel>Custodian</FormLabel>
+							<FormControl>
+								<Input placeholder="legal@example.com" {...field} />
+							</FormControl>
+							<FormDescription>Person accountable for the hold.</FormDescription>
+							<FormMessage />
+						</FormItem>
+					)}
+				/>
+				<div className="grid grid-cols-2 gap-4">
+					{optionalFields.map((optional) => (
+						<FormField
+							key={optional.name}
+							control={form.control}
+							name={optional.name}
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>{optional.label}</FormLabel>
+									<FormControl>
+										<Input placeholder={optional.placeholder} {...field} />
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+					))}
+					<FormField
+						control={form.control}
+						name="startDate"
+						render={({ field }) => (
+							<FormItem>
+								<FormLabel>From</FormLabel>
+								<FormControl>
+									<Input type="date" {...field} />
+								</FormControl>
+								<FormMessage />
+							</FormItem>
+						)}
+					/>
+					<FormField
+						control={form.control}
+						name="endDate"
+						render={({ field }) => (
+							<FormItem>
+								<FormLabel>To</FormLabel>
+								<FormControl>
+									<Input type="date" {...field} />
+								</FormControl>
+								<FormMessage />
+							</FormItem>
+						)}
+					/>
+				</div>
+				<FormDescription>Empty scope fields cover every event of the organization.</FormDescription>
+				<Button type="submit">
+					{loading ? <Spinner variant="bars" size={16} /> : 'Place Hold'}
+				</Button>
+			</form>
+		</Form>
+	)
+}
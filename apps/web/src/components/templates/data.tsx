@@ -0,0 +1,74 @@
+import type { ReportGroupBy, ReportTemplate } from '@repo/audit'
+
+export const reportTypes: {
+	label: string
+	value: ReportTemplate['reportType']
+	description: string
+}[] = [
+	{
+		label: 'HIPAA audit trail',
+		value: 'HIPAA_AUDIT_TRAIL',
+		description: 'PHI access and modifications with a risk assessment',
+	},
+	{
+		label: 'GDPR processing activities',
+		value: 'GDPR_PROCESSING_ACTIVITIES',
+		description: 'Personal data processing and data subject rights',
+	},
+	{
+		label: 'General compliance',
+		value: 'GENERAL_COMPLIANCE',
+		description: 'Summary of every matching event',
+	},
+	{
+		label: 'Integrity verification',
+		value: 'INTEGRITY_VERIFICATION',
+		description: 'Hash verification of the matching events',
+	},
+]
+
+export const reportFormats = [
+	{ label: 'CSV', value: 'csv' },
+	{ label: 'JSON', value: 'json' },
+	{ label: 'XML', value: 'xml' },
+	{ label: 'PDF', value: 'pdf' },
+] as const
+
+export const groupByOptions: { label: string; value: ReportGroupBy }[] = [
+	{ label: 'Action', value: 'action' },
+	{ label: 'Status', value: 'status' },
+	{ label: 'Principal', value: 'principalId' },
+	{ label: 'Resource type', value: 'targetResourceType' },
+	{ label: 'Classification', value: 'dataClassification' },
+	{ label: 'Day', value: 'day' },
+]
+
+export const scheduleFrequencies = [
+	{ label: 'Daily', value: 'daily' },
+	{ label: 'Weekly', value: 'weekly' },
+	{ label: 'Monthly', value: 'monthly' },
+	{ label: 'Quarterly', value: 'quarterly' },
+] as const
+
+// Labels of the fields compared between template versions
+export const templateFieldLabels: Record<string, string> = {
+	name: 'Name',
+	description: 'Description',
+	reportType: 'Report type',
+	defaultFormat: 'Format',
+	columns: 'Columns',
+	groupBy: 'Grouping',
+	tags: 'Tags',
+	'defaultCriteria.actions': 'Actions',
+	'defaultCriteria.statuses': 'Statuses',
+	'defaultCriteria.dataClassifications': 'Classifications',
+	'defaultCriteria.resourceTypes': 'Resource types',
+	'defaultCriteria.principalIds': 'Principals',
+	'defaultCriteria.verifiedOnly': 'Verified events only',
+	'defaultCriteria.includeIntegrityFailures': 'Include integrity failures',
+	'defaultCriteria.limit': 'Event limit',
+	'defaultExportConfig.format': 'Export format',
+	'defaultExportConfig.includeMetadata': 'Include metadata',
+	'defaultExportConfig.includeIntegrityReport': 'Include integrity report',
+	'defaultExportConfig.compression': 'Compression',
+}
@@ -0,0 +1,350 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { DateRangePicker } from '@/components/ui/date-range-picker'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import {
+	Form,
+	FormControl,
+	FormDescription,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { trpc } from '@/utils/trpc'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useMutation } from '@tanstack/react-query'
+import { endOfDay, startOfDay, subDays } from 'date-fns'
+import { useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import * as z from 'zod'
+
+import { scheduleFrequencies } from './data'
+
+import type { RouterInputs } from '@/utils/trpc'
+
+type CreateScheduleRequest = RouterInputs['templates']['createSchedule']
+
+const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+const formSchema = z
+	.object({
+		name: z.string(),
+		dateRange: z.object({ from: z.date(), to: z.date().optional() }),
+		frequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly']),
+		dayOfWeek: z.string(),
+		dayOfMonth: z.string(),
+		time: z.string().regex(/^\d{2}:\d{2}$/, 'Use the HH:MM format'),
+		delivery: z.enum(['email', 'webhook', 'storage']),
+		recipients: z.string(),
+		webhookUrl: z.string(),
+	})
+	.superRefine((values, ctx) => {
+		if (values.delivery === 'email') {
+			const recipients = splitList(values.recipients)
+			const invalid = recipients.filter((email) => !z.string().email().safeParse(email).success)
+			if (recipients.length === 0 || invalid.length > 0) {
+				ctx.addIssue({
+					code: 'custom',
+					path: ['recipients'],
+					message:
+						invalid.length > 0
+							? `Invalid email address: ${invalid.join(', ')}`
+							: 'Enter at least one recipient',
+				})
+			}
+		}
+		if (values.delivery === 'webhook' && !z.string().url().safeParse(values.webhookUrl).success) {
+			ctx.addIssue({ code: 'custom', path: ['webhookUrl'], message: 'Enter a valid URL' })
+		}
+		const day = Number(values.dayOfMonth)
+		if (
+			(values.frequency === 'monthly' || values.frequency === 'quarterly') &&
+			!(Number.isInteger(day) && day >= 1 && day <= 31)
+		) {
+			ctx.addIssue({ code: 'custom', path: ['dayOfMonth'], message: 'Enter a day from 1 to 31' })
+		}
+	})
+
+type ScheduleFormValues = z.infer<typeof formSchema>
+
+function splitList(value: string) {
+	return value
+		.split(/[\s,;]+/)
+		.map((item) => item.trim())
+		.filter(Boolean)
+}
+
+function toScheduleRequest(templateId: string, values: ScheduleFormValues): CreateScheduleRequest {
+	return {
+		id: templateId,
+		name: values.name || undefined,
+		dateRange: {
+			startDate: startOfDay(values.dateRange.from).toISOString(),
+			endDate: endOfDay(values.dateRange.to ?? values.dateRange.from).toISOString(),
+		},
+		schedule: {
+			frequency: values.frequency,
+			dayOfWeek: values.frequency === 'weekly' ? Number(values.dayOfWeek) : undefined,
+			dayOfMonth:
+				values.frequency === 'monthly' || values.frequency === 'quarterly'
+					? Number(values.dayOfMonth)
+					: undefined,
+			time: values.time,
+			timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+		},
+		delivery:
+			values.delivery === 'email'
+				? { method: 'email', recipients: splitList(values.recipients) }
+				: values.delivery === 'webhook'
+					? { method: 'webhook', webhookUrl: values.webhookUrl }
+					: { method: 'storage' },
+	}
+}
+
+interface ScheduleDialogProps {
+	template: { id: string; name: string }
+	open: boolean
+	onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Create a scheduled report from a template, with its own schedule and delivery
+ */
+export function ScheduleDialog({ template, open, onOpenChange }: ScheduleDialogProps) {
+	const form = useForm<ScheduleFormValues>({
+		resolver: zodResolver(formSchema),
+		defaultValues: {
+			name: '',
+			dateRange: { from: subDays(new Date(), 30), to: new Date() },
+			frequency: 'monthly',
+			dayOfWeek: '1',
+			dayOfMonth: '1',
+			time: '09:00',
+			delivery: 'email',
+			recipients: '',
+			webhookUrl: '',
+		},
+	})
+	const createSchedule = useMutation(
+		trpc.templates.createSchedule.mutationOptions({
+			onSuccess: (result) => {
+				toast.success(`Scheduled report ${result.report.name} created`)
+				form.reset()
+				onOpenChange(false)
+			},
+			onError: (error) => toast.error(error.message),
+		})
+	)
+
+	const frequency = form.watch('frequency')
+	const delivery = form.watch('delivery')
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-xl">
+				<DialogHeader>
+					<DialogTitle>Schedule Report</DialogTitle>
+					<DialogDescription>
+						Create a scheduled report from the current version of {template.name}.
+					</DialogDescription>
+				</DialogHeader>
+				<Form {...form}>
+					<form
+						onSubmit={form.handleSubmit((values) =>
+							createSchedule.mutate(toScheduleRequest(template.id, values))
+						)}
+						className="grid gap-4 sm:grid-cols-2"
+					>
+						<FormField
+							control={form.control}
+							name="name"
+							render={({ field }) => (
+								<FormItem className="sm:col-span-2">
+									<FormLabel>Name</FormLabel>
+									<FormControl>
+										<Input placeholder={`${template.name} - <date>`} {...field} />
+									</FormControl>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="dateRange"
+							render={({ field }) => (
+								<FormItem className="sm:col-span-2">
+									<FormLabel>Reporting period</FormLabel>
+									<FormControl>
+										<DateRangePicker
+											onUpdate={({ range }) => range.from && field.onChange(range)}
+											initialDateFrom={field.value.from}
+											initialDateTo={field.value.to}
+											align="start"
+											locale="en-US"
+											showCompare={false}
+										/>
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="frequency"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Frequency</FormLabel>
+									<Select value={field.value} onValueChange={field.onChange}>
+										<FormControl>
+											<SelectTrigger className="w-full">
+												<SelectValue />
+											</SelectTrigger>
+										</FormControl>
+										<SelectContent>
+											{scheduleFrequencies.map((item) => (
+												<SelectItem key={item.value} value={item.value}>
+													{item.label}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="time"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Time</FormLabel>
+									<FormControl>
+										<Input type="time" {...field} />
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						{frequency === 'weekly' && (
+							<FormField
+								control={form.control}
+								name="dayOfWeek"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Day of the week</FormLabel>
+										<Select value={field.value} onValueChange={field.onChange}>
+											<FormControl>
+												<SelectTrigger className="w-full">
+													<SelectValue />
+												</SelectTrigger>
+											</FormControl>
+											<SelectContent>
+												{weekdays.map((day, index) => (
+													<SelectItem key={day} value={index.toString()}>
+														{day}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</FormItem>
+								)}
+							/>
+						)}
+						{(frequency === 'monthly' || frequency === 'quarterly') && (
+							<FormField
+								control={form.control}
+								name="dayOfMonth"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Day of the month</FormLabel>
+										<FormControl>
+											<Input inputMode="numeric" {...field} />
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						)}
+						<FormField
+							control={form.control}
+							name="delivery"
+							render={({ field }) => (
+								<FormItem className="sm:col-span-2">
+									<FormLabel>Delivery</FormLabel>
+									<Select value={field.value} onValueChange={field.onChange}>
+										<FormControl>
+											<SelectTrigger className="w-full">
+												<SelectValue />
+											</SelectTrigger>
+										</FormControl>
+										<SelectContent>
+											<SelectItem value="email">Email</SelectItem>
+											<SelectItem value="webhook">Webhook</SelectItem>
+											<SelectItem value="storage">Storage</SelectItem>
+										</SelectContent>
+									</Select>
+								</FormItem>
+							)}
+						/>
+						{delivery === 'email' && (
+							<FormField
+								control={form.control}
+								name="recipients"
+								render={({ field }) => (
+									<FormItem className="sm:col-span-2">
+										<FormLabel>Recipients</FormLabel>
+										<FormControl>
+											<Input placeholder="compliance@example.com" {...field} />
+										</FormControl>
+										<FormDescription>Comma separated email addresses.</FormDescription>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						)}
+						{delivery === 'webhook' && (
+							<FormField
+								control={form.control}
+								name="webhookUrl"
+								render={({ field }) => (
+									<FormItem className="sm:col-span-2">
+										<FormLabel>Webhook URL</FormLabel>
+										<FormControl>
+											<Input placeholder="https://example.com/reports" {...field} />
+										</FormControl>
+										<FormMessage />
+									</FormItem>
+								)}
+							/>
+						)}
+						<DialogFooter className="sm:col-span-2">
+							<Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+								Cancel
+							</Button>
+							<Button type="submit" disabled={createSchedule.isPending}>
+								{createSchedule.isPending && <Spinner variant="bars" size={16} />}
+								Schedule
+							</Button>
+						</DialogFooter>
+					</form>
+				</Form>
+			</DialogContent>
+		</Dialog>
+	)
+}
@@ -0,0 +1,529 @@
+'use client'
+
+import { dataClassifications, statuses } from '@/components/events/data'
+import { exportColumns } from '@/components/exports/data'
+import { CheckboxList } from '@/components/exports/export-wizard'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+	Form,
+	FormControl,
+	FormDescription,
+	FormField,
+	FormItem,
+	FormLabel,
+	FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import * as z from 'zod'
+
+import { groupByOptions, reportFormats, reportTypes } from './data'
+import { TemplatePreview } from './template-preview'
+
+import type { RouterInputs, RouterOutputs } from '@/utils/trpc'
+import type { ExportColumn, ReportGroupBy } from '@repo/audit'
+
+export type TemplateContent = RouterInputs['templates']['update']['template']
+
+type ReportTemplate = NonNullable<RouterOutputs['templates']['id']>
+
+const formSchema = z.object({
+	name: z.string().min(1, 'Name is required'),
+	description: z.string(),
+	reportType: z.enum([
+		'HIPAA_AUDIT_TRAIL',
+		'GDPR_PROCESSING_ACTIVITIES',
+		'GENERAL_COMPLIANCE',
+		'INTEGRITY_VERIFICATION',
+	]),
+	tags: z.string(),
+	statuses: z.array(z.enum(['attempt', 'success', 'failure'])),
+	dataClassifications: z.array(z.enum(['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'PHI'])),
+	actions: z.string(),
+	resourceTypes: z.string(),
+	principalIds: z.string(),
+	verifiedOnly: z.boolean(),
+	includeIntegrityFailures: z.boolean(),
+	limit: z.string().regex(/^\d*$/, 'Enter a whole number'),
+	defaultFormat: z.enum(['json', 'csv', 'xml', 'pdf']),
+	includeMetadata: z.boolean(),
+	includeIntegrityReport: z.boolean(),
+	compression: z.enum(['none', 'gzip', 'zip']),
+	columns: z.array(z.string()).min(1, 'Select at least one column'),
+	groupBy: z.string(),
+	changeNote: z.string().max(500),
+})
+
+type TemplateFormValues = z.infer<typeof formSchema>
+
+// Select items cannot hold an empty value
+const NO_GROUPING = 'none'
+
+function splitList(value: string) {
+	return value
+		.split(/[\s,;]+/)
+		.map((item) => item.trim())
+		.filter(Boolean)
+}
+
+const listOrUndefined = <T,>(values: T[]) => (values.length > 0 ? values : undefined)
+
+function toFormValues(template?: ReportTemplate): TemplateFormValues {
+	const criteria = template?.defaultCriteria ?? {}
+	const exportConfig = template?.defaultExportConfig ?? {}
+	return {
+		name: template?.name ?? '',
+		description: template?.description ?? '',
+		reportType: template?.reportType ?? 'GENERAL_COMPLIANCE',
+		tags: template?.tags.join(', ') ?? '',
+		statuses: criteria.statuses ?? [],
+		dataClassifications: criteria.dataClassifications ?? [],
+		actions: criteria.actions?.join(', ') ?? '',
+		resourceTypes: criteria.resourceTypes?.join(', ') ?? '',
+		principalIds: criteria.principalIds?.join(', ') ?? '',
+		verifiedOnly: criteria.verifiedOnly ?? false,
+		includeIntegrityFailures: criteria.includeIntegrityFailures ?? false,
+		limit: criteria.limit?.toString() ?? '',
+		defaultFormat: template?.defaultFormat ?? 'csv',
+		includeMetadata: exportConfig.includeMetadata ?? true,
+		includeIntegrityReport: exportConfig.includeIntegrityReport ?? false,
+		compression: exportConfig.compression ?? 'none',
+		columns: template?.columns ?? exportColumns.map((column) => column.value),
+		groupBy: template?.groupBy ?? NO_GROUPING,
+		changeNote: '',
+	}
+}
+
+function toTemplateContent(values: TemplateFormValues): TemplateContent {
+	return {
+		name: values.name,
+		description: values.description || undefined,
+		reportType: values.reportType,
+		defaultCriteria: {
+			statuses: listOrUndefined(values.statuses),
+			dataClassifications: listOrUndefined(values.dataClassifications),
+			actions: listOrUndefined(splitList(values.actions)),
+			resourceTypes: listOrUndefined(splitList(values.resourceTypes)),
+			principalIds: listOrUndefined(splitList(values.principalIds)),
+			verifiedOnly: values.verifiedOnly || undefined,
+			includeIntegrityFailures: values.includeIntegrityFailures || undefined,
+			limit: values.limit ? Number(values.limit) : undefined,
+		},
+		defaultFormat: values.defaultFormat,
+		defaultExportConfig: {
+			format: values.defaultFormat,
+			includeMetadata: values.includeMetadata,
+			includeIntegrityReport: values.includeIntegrityReport,
+			compression: values.compression,
+		},
+		// Every column is the default, so it is not stored
+		columns:
+			values.columns.length === exportColumns.length
+				? undefined
+				: (values.columns as ExportColumn[]),
+		groupBy: values.groupBy === NO_GROUPING ? undefined : (values.groupBy as ReportGroupBy),
+		tags: splitList(values.tags),
+	}
+}
+
+interface TemplateEditorProps {
+	/** Template being edited, a new template is created when not set */
+	template?: ReportTemplate
+	onSubmit: (content: TemplateContent, changeNote?: string) => Promise<void>
+	onCancel?: () => void
+}
+
+/**
+ * Report template editor: report type, default criteria, columns and grouping,
+ * with a live preview of the unsaved template
+ */
+export function TemplateEditor({ template, onSubmit, onCancel }: TemplateEditorProps) {
+	const [loading, setLoading] = useState(false)
+	const form = useForm<TemplateFormValues>({
+		resolver: zodResolver(formSchema),
+		defaultValues: toFormValues(template),
+	})
+
+	const content = toTemplateContent(form.watch())
+
+	async function handleSubmit(values: TemplateFormValues) {
+		try {
+			setLoading(true)
+			await onSubmit(toTemplateContent(values), values.changeNote || undefined)
+			form.reset({ ...values, changeNote: '' })
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : 'Failed to save the template')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	return (
+		<Form {...form}>
+			<form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+				<Card>
+					<CardHeader>
+						<CardTitle>Report</CardTitle>
+					</CardHeader>
+					<CardContent className="grid gap-4 md:grid-cols-2">
+						<FormField
+							control={form.control}
+							name="name"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Name</FormLabel>
+									<FormControl>
+										<Input placeholder="Monthly PHI access review" {...field} />
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="reportType"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Report type</FormLabel>
+									<Select value={field.value} onValueChange={field.onChange}>
+										<FormControl>
+											<SelectTrigger className="w-full">
+												<SelectValue />
+											</SelectTrigger>
+										</FormControl>
+										<SelectContent>
+											{reportTypes.map((type) => (
+												<SelectItem key={type.value} value={type.value}>
+													{type.label}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+									<FormDescription>
+										{reportTypes.find((type) => type.value === field.value)?.description}
+									</FormDescription>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="description"
+							render={({ field }) => (
+								<FormItem className="md:col-span-2">
+									<FormLabel>Description</FormLabel>
+									<FormControl>
+										<Textarea rows={2} {...field} />
+									</FormControl>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="tags"
+							render={({ field }) => (
+								<FormItem className="md:col-span-2">
+									<FormLabel>Tags</FormLabel>
+									<FormControl>
+										<Input placeholder="hipaa, monthly" {...field} />
+									</FormControl>
+									<FormDescription>Comma separated.</FormDescription>
+								</FormItem>
+							)}
+						/>
+					</CardContent>
+				</Card>
+
+				<Card>
+					<CardHeader>
+						<CardTitle>Default criteria</CardTitle>
+						<CardDescription>
+							Events the report includes. The date range is chosen for each schedule.
+						</CardDescription>
+					</CardHeader>
+					<CardContent className="grid gap-4 md:grid-cols-2">
+						<FormField
+							control={form.control}
+							name="statuses"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Status</FormLabel>
+									<CheckboxList options={statuses} value={field.value} onChange={field.onChange} />
+									<FormDescription>All statuses when none is selected.</FormDescription>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="dataClassifications"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Classification</FormLabel>
+									<CheckboxList
+										options={dataClassifications}
+										value={field.value}
+										onChange={field.onChange}
+									/>
+									<FormDescription>All classifications when none is selected.</FormDescription>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="actions"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Actions</FormLabel>
+									<FormControl>
+										<Input placeholder="data.read, auth.login.success" {...field} />
+									</FormControl>
+									<FormDescription>Comma separated, all actions when empty.</FormDescription>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="resourceTypes"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Resource types</FormLabel>
+									<FormControl>
+										<Input placeholder="Patient, Observation" {...field} />
+									</FormControl>
+									<FormDescription>Comma separated, all resource types when empty.</FormDescription>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="principalIds"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Principals</FormLabel>
+									<FormControl>
+										<Input placeholder="user-123" {...field} />
+									</FormControl>
+									<FormDescription>Comma separated, all principals when empty.</FormDescription>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="limit"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Event limit</FormLabel>
+									<FormControl>
+										<Input inputMode="numeric" placeholder="No limit" {...field} />
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="verifiedOnly"
+							render={({ field }) => (
+								<FormItem className="flex items-center gap-2">
+									<FormControl>
+										<Switch checked={field.value} onCheckedChange={field.onChange} />
+									</FormControl>
+									<FormLabel>Only events with an integrity hash</FormLabel>
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="includeIntegrityFailures"
+							render={({ field }) => (
+								<FormItem className="flex items-center gap-2">
+									<FormControl>
+										<Switch checked={field.value} onCheckedChange={field.onChange} />
+									</FormControl>
+									<FormLabel>Include integrity failures</FormLabel>
+								</FormItem>
+							)}
+						/>
+					</CardContent>
+				</Card>
+
+				<Card>
+					<CardHeader>
+						<CardTitle>Layout</CardTitle>
+					</CardHeader>
+					<CardContent className="grid gap-4 md:grid-cols-2">
+						<FormField
+							control={form.control}
+							name="columns"
+							render={({ field }) => (
+								<FormItem className="md:row-span-3">
+									<FormLabel>Columns</FormLabel>
+									<CheckboxList
+										options={exportColumns}
+										value={field.value as ExportColumn[]}
+										onChange={field.onChange}
+										className="grid-cols-2"
+									/>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+						<FormField
+							control={form.control}
+							name="groupBy"
+							render={({ field }) => (
+								<FormItem>
+									<FormLabel>Group by</FormLabel>
+									<Select value={field.value} onValueChange={field.onChange}>
+										<FormControl>
+											<SelectTrigger className="w-full">
+												<SelectValue />
+											</SelectTrigger>
+										</FormControl>
+										<SelectContent>
+											<SelectItem value={NO_GROUPING}>No grouping</SelectItem>
+											{groupByOptions.map((option) => (
+												<SelectItem key={option.value} value={option.value}>
+													{option.label}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								</FormItem>
+							)}
+						/>
+						<div className="grid grid-cols-2 gap-4">
+							<FormField
+								control={form.control}
+								name="defaultFormat"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Format</FormLabel>
+										<Select value={field.value} onValueChange={field.onChange}>
+											<FormControl>
+												<SelectTrigger className="w-full">
+													<SelectValue />
+												</SelectTrigger>
+											</FormControl>
+											<SelectContent>
+												{reportFormats.map((format) => (
+													<SelectItem key={format.value} value={format.value}>
+														{format.label}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="compression"
+								render={({ field }) => (
+									<FormItem>
+										<FormLabel>Compression</FormLabel>
+										<Select value={field.value} onValueChange={field.onChange}>
+											<FormControl>
+												<SelectTrigger className="w-full">
+													<SelectValue />
+												</SelectTrigger>
+											</FormControl>
+											<SelectContent>
+												<SelectItem value="none">None</SelectItem>
+												<SelectItem value="gzip">gzip</SelectItem>
+												<SelectItem value="zip">zip</SelectItem>
+											</SelectContent>
+										</Select>
+									</FormItem>
+								)}
+							/>
+						</div>
+						<div className="space-y-3">
+							<FormField
+								control={form.control}
+								name="includeMetadata"
+								render={({ field }) => (
+									<FormItem className="flex items-center gap-2">
+										<FormControl>
+											<Switch checked={field.value} onCheckedChange={field.onChange} />
+										</FormControl>
+										<FormLabel>Include report metadata</FormLabel>
+									</FormItem>
+								)}
+							/>
+							<FormField
+								control={form.control}
+								name="includeIntegrityReport"
+								render={({ field }) => (
+									<FormItem className="flex items-center gap-2">
+										<FormControl>
+											<Switch checked={field.value} onCheckedChange={field.onChange} />
+										</FormControl>
+										<FormLabel>Include integrity report</FormLabel>
+									</FormItem>
+								)}
+							/>
+						</div>
+					</CardContent>
+				</Card>
+
+				<Card>
+					<CardHeader>
+						<CardTitle>Preview</CardTitle>
+						<CardDescription>The unsaved template against live events.</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<TemplatePreview
+							template={{
+								reportType: content.reportType,
+								defaultCriteria: content.defaultCriteria,
+								columns: content.columns,
+								groupBy: content.groupBy,
+							}}
+						/>
+					</CardContent>
+				</Card>
+
+				<div className="flex flex-wrap items-end justify-end gap-4">
+					{template && (
+						<FormField
+							control={form.control}
+							name="changeNote"
+							render={({ field }) => (
+								<FormItem className="min-w-[280px] flex-1">
+									<FormLabel>Change note</FormLabel>
+									<FormControl>
+										<Input placeholder="What changed in this version" {...field} />
+									</FormControl>
+									<FormMessage />
+								</FormItem>
+							)}
+						/>
+					)}
+					{onCancel && (
+						<Button type="button" variant="outline" onClick={onCancel}>
+							Cancel
+						</Button>
+					)}
+					<Button type="submit" disabled={loading || (template && !form.formState.isDirty)}>
+						{loading && <Spinner variant="bars" size={16} />}
+						{template ? `Save as version ${template.version + 1}` : 'Create template'}
+					</Button>
+				</div>
+			</form>
+		</Form>
+	)
+}
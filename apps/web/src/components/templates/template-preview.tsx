@@ -0,0 +1,153 @@
+'use client'
+
+import { exportColumns } from '@/components/exports/data'
+import { DateRangePicker } from '@/components/ui/date-range-picker'
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { useDebounce } from '@/hooks/use-debounce'
+import { trpc } from '@/utils/trpc'
+import { useQuery } from '@tanstack/react-query'
+import { endOfDay, startOfDay, subDays } from 'date-fns'
+import { useMemo, useState } from 'react'
+
+import { groupByOptions } from './data'
+
+import type { RouterInputs } from '@/utils/trpc'
+
+type PreviewTemplate = RouterInputs['templates']['preview']['template']
+
+const SAMPLE_SIZE = 20
+
+function formatCell(value: unknown) {
+	if (value === undefined || value === null || value === '') return '-'
+	return String(value)
+}
+
+interface TemplatePreviewProps {
+	template: PreviewTemplate
+}
+
+/**
+ * Live preview of a template against the events of the organization
+ * Follows the editor as it changes, without saving the template.
+ */
+export function TemplatePreview({ template }: TemplatePreviewProps) {
+	const [dateRange, setDateRange] = useState<{ from: Date; to?: Date }>({
+		from: subDays(new Date(), 30),
+		to: new Date(),
+	})
+
+	// Debounced by value, the template is rebuilt from the form on every render
+	const inputKey = useDebounce(
+		JSON.stringify({
+			template,
+			dateRange: {
+				startDate: startOfDay(dateRange.from).toISOString(),
+				endDate: endOfDay(dateRange.to ?? dateRange.from).toISOString(),
+			},
+			sampleSize: SAMPLE_SIZE,
+		}),
+		500
+	)
+	const input = useMemo<RouterInputs['templates']['preview']>(
+		() => JSON.parse(inputKey),
+		[inputKey]
+	)
+	const {
+		data: preview,
+		isFetching,
+		error,
+	} = useQuery(trpc.templates.preview.queryOptions(input, { placeholderData: (prev) => prev }))
+
+	const groupLabel = groupByOptions.find((option) => option.value === template.groupBy)?.label
+	const largestGroup = preview?.groups?.[0]?.count ?? 0
+
+	return (
+		<div className="space-y-4">
+			<div className="flex flex-wrap items-center gap-3">
+				<DateRangePicker
+					onUpdate={({ range }) => range.from && setDateRange(range)}
+					initialDateFrom={dateRange.from}
+					initialDateTo={dateRange.to}
+					align="start"
+					locale="en-US"
+					showCompare={false}
+				/>
+				<div className="text-muted-foreground flex items-center gap-2 text-sm">
+					{isFetching && <Spinner variant="bars" size={14} />}
+					{preview &&
+						`${preview.totalEvents.toLocaleString()}${preview.truncated ? '+' : ''} matching events, ${preview.summary.uniquePrincipals} principals`}
+				</div>
+			</div>
+
+			{error && <p className="text-destructive text-sm">{error.message}</p>}
+
+			{preview?.groups && (
+				<div className="space-y-2">
+					<h4 className="text-sm font-medium">By {groupLabel?.toLowerCase()}</h4>
+					{preview.groups.length === 0 && (
+						<p className="text-muted-foreground text-sm">No events to group.</p>
+					)}
+					{preview.groups.slice(0, 10).map((group) => (
+						<div key={group.key} className="flex items-center gap-3 text-sm">
+							<span className="w-40 truncate" title={group.key}>
+								{group.key}
+							</span>
+							<div className="bg-muted h-2 flex-1 rounded">
+								<div
+									className="bg-primary h-2 rounded"
+									style={{ width: `${(group.count / largestGroup) * 100}%` }}
+								/>
+							</div>
+							<span className="text-muted-foreground w-12 text-right tabular-nums">
+								{group.count}
+							</span>
+						</div>
+					))}
+				</div>
+			)}
+
+			{preview && (
+				<div className="overflow-x-auto rounded-md border">
+					<Table>
+						<TableHeader>
+							<TableRow>
+								{preview.columns.map((column) => (
+									<TableHead key={column} className="whitespace-nowrap">
+										{exportColumns.find((item) => item.value === column)?.label ?? column}
+									</TableHead>
+								))}
+							</TableRow>
+						</TableHeader>
+						<TableBody>
+							{preview.rows.length > 0 ? (
+								preview.rows.map((row, index) => (
+									<TableRow key={index}>
+										{preview.columns.map((column) => (
+											<TableCell key={column} className="max-w-[240px] truncate">
+												{formatCell(row[column])}
+											</TableCell>
+										))}
+									</TableRow>
+								))
+							) : (
+								<TableRow>
+									<TableCell colSpan={preview.columns.length} className="h-24 text-center">
+										No events match the template in this date range.
+									</TableCell>
+								</TableRow>
+							)}
+						</TableBody>
+					</Table>
+				</div>
+			)}
+		</div>
+	)
+}
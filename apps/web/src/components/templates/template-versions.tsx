@@ -0,0 +1,163 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import { Label } from '@/components/ui/label'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { formatDate } from '@/lib/date'
+import { trpc } from '@/utils/trpc'
+import { useQuery } from '@tanstack/react-query'
+import { useState } from 'react'
+
+import { templateFieldLabels } from './data'
+
+function formatValue(value: unknown) {
+	if (value === undefined || value === null || value === '') return '-'
+	if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '-'
+	if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+	if (typeof value === 'object') return JSON.stringify(value)
+	return String(value)
+}
+
+interface TemplateVersionsProps {
+	templateId: string
+}
+
+/**
+ * Saved versions of a template and the changes between two of them
+ */
+export function TemplateVersions({ templateId }: TemplateVersionsProps) {
+	const { data: versions, isLoading } = useQuery(
+		trpc.templates.versions.queryOptions({ id: templateId })
+	)
+	const [selected, setSelected] = useState<{ from?: number; to?: number }>({})
+
+	// Compare the latest version with the one before it until others are picked
+	const to = selected.to ?? versions?.[0]?.version
+	const from = selected.from ?? versions?.[1]?.version
+	const { data: diff, isFetching: isComparing } = useQuery({
+		...trpc.templates.diff.queryOptions({ id: templateId, from: from ?? 0, to: to ?? 0 }),
+		enabled: from !== undefined && to !== undefined && from !== to,
+	})
+
+	if (isLoading) {
+		return (
+			<div className="flex justify-center">
+				<Spinner variant="bars" size={32} />
+			</div>
+		)
+	}
+
+	const versionSelect = (value: number | undefined, onChange: (version: number) => void) => (
+		<Select value={value?.toString()} onValueChange={(version) => onChange(Number(version))}>
+			<SelectTrigger className="w-32">
+				<SelectValue placeholder="Version" />
+			</SelectTrigger>
+			<SelectContent>
+				{versions?.map((version) => (
+					<SelectItem key={version.version} value={version.version.toString()}>
+						Version {version.version}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	)
+
+	return (
+		<div className="space-y-6">
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Version</TableHead>
+						<TableHead>Saved</TableHead>
+						<TableHead>By</TableHead>
+						<TableHead>Change note</TableHead>
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{versions?.map((version, index) => (
+						<TableRow key={version.version}>
+							<TableCell>
+								<div className="flex items-center gap-2">
+									{version.version}
+									{index === 0 && <Badge variant="secondary">Current</Badge>}
+								</div>
+							</TableCell>
+							<TableCell>{formatDate(new Date(version.createdAt), 'PPp')}</TableCell>
+							<TableCell>{version.createdBy}</TableCell>
+							<TableCell className="text-muted-foreground">{version.changeNote ?? '-'}</TableCell>
+						</TableRow>
+					))}
+				</TableBody>
+			</Table>
+
+			{versions && versions.length > 1 ? (
+				<div className="space-y-3">
+					<div className="flex flex-wrap items-center gap-3">
+						<Label>Compare</Label>
+						{versionSelect(from, (version) => setSelected({ from: version, to }))}
+						<span className="text-muted-foreground text-sm">with</span>
+						{versionSelect(to, (version) => setSelected({ from, to: version }))}
+						{isComparing && <Spinner variant="bars" size={14} />}
+					</div>
+					{from === to ? (
+						<p className="text-muted-foreground text-sm">Pick two different versions.</p>
+					) : (
+						diff && (
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Setting</TableHead>
+										<TableHead>Version {diff.from.version}</TableHead>
+										<TableHead>Version {diff.to.version}</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{diff.changes.length > 0 ? (
+										diff.changes.map((change) => (
+											<TableRow key={change.field}>
+												<TableCell className="font-medium">
+													{templateFieldLabels[change.field] ?? change.field}
+												</TableCell>
+												<TableCell className="text-destructive">
+													{formatValue(change.before)}
+												</TableCell>
+												<TableCell className="text-green-600">
+													{formatValue(change.after)}
+												</TableCell>
+											</TableRow>
+										))
+									) : (
+										<TableRow>
+											<TableCell colSpan={3} className="h-16 text-center">
+												The versions are identical.
+											</TableCell>
+										</TableRow>
+									)}
+								</TableBody>
+							</Table>
+						)
+					)}
+				</div>
+			) : (
+				<p className="text-muted-foreground text-sm">
+					Versions can be compared once the template has been changed.
+				</p>
+			)}
+		</div>
+	)
+}
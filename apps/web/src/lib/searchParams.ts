@@ -6,6 +6,7 @@ import {
 	parseAsInteger,
 	parseAsIsoDate,
 	parseAsString,
+	parseAsStringLiteral,
 } from 'nuqs/server'
 
 export const searchParamsCache = createSearchParamsCache({
@@ -22,3 +23,25 @@ export const searchParamsCache = createSearchParamsCache({
 	limit: parseAsInteger.withDefault(50),
 	offset: parseAsInteger.withDefault(0),
 })
+
+/**
+ * Query state of the audit event explorer, kept in the URL so views can be shared
+ */
+export const eventExplorerSearchParams = {
+	search: parseAsString.withDefault(''),
+	statuses: parseAsArrayOf(
+		parseAsStringLiteral(['attempt', 'success', 'failure'] as const)
+	).withDefault([]),
+	classifications: parseAsArrayOf(
+		parseAsStringLiteral(['PUBLIC', 'INTERNAL', 'CONFIDENTIAL', 'PHI'] as const)
+	).withDefault([]),
+	actions: parseAsArrayOf(parseAsString).withDefault([]),
+	resourceTypes: parseAsArrayOf(parseAsString).withDefault([]),
+	principalId: parseAsString.withDefault(''),
+	correlationId: parseAsString.withDefault(''),
+	from: parseAsIsoDate,
+	to: parseAsIsoDate,
+	verifiedOnly: parseAsBoolean.withDefault(false),
+	// Event shown in the detail drawer
+	event: parseAsInteger,
+}
@@ -1,5 +1,6 @@
 import { QueryClientProvider } from '@tanstack/react-query'
 import { createRouter, RouterProvider } from '@tanstack/react-router'
+import { NuqsAdapter } from 'nuqs/adapters/tanstack-router'
 import ReactDOM from 'react-dom/client'
 
 import { Spinner } from './components/ui/kibo-ui/spinner'
@@ -13,7 +14,11 @@ const router = createRouter({
 	defaultPendingComponent: () => <Spinner variant="bars" size={64} />,
 	context: { trpc, queryClient, auth: { isPending: true, isAuthenticated: false, session: null } },
 	Wrap: function WrapComponent({ children }: { children: React.ReactNode }) {
-		return <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+		return (
+			<QueryClientProvider client={queryClient}>
+				<NuqsAdapter>{children}</NuqsAdapter>
+			</QueryClientProvider>
+		)
 	},
 })
 
@@ -1,10 +1,48 @@
-import { ComingSoon } from '@/components/pages/coming-soon'
+import { ExportHistory } from '@/components/exports/export-history'
+import { ExportWizard } from '@/components/exports/export-wizard'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { PageBreadcrumb } from '@/components/ui/page-breadcrumb'
+import { trpc } from '@/utils/trpc'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { createFileRoute } from '@tanstack/react-router'
+import { toast } from 'sonner'
 
 export const Route = createFileRoute('/dashboard/compliance/export-events')({
 	component: RouteComponent,
 })
 
 function RouteComponent() {
-	return <ComingSoon />
+	const queryClient = useQueryClient()
+	const createExport = useMutation(trpc.events.export.mutationOptions())
+
+	return (
+		<div className="flex flex-1 flex-col gap-4 p-4">
+			<PageBreadcrumb link="Compliance" page="Export Events" />
+			<Card>
+				<CardHeader>
+					<CardTitle>New Export</CardTitle>
+					<CardDescription>
+						Exports run in the background and stay downloadable for 24 hours.
+					</CardDescription>
+				</CardHeader>
+				<CardContent>
+					<ExportWizard
+						onSubmit={async (request) => {
+							await createExport.mutateAsync(request)
+							toast.success('Export started')
+							await queryClient.invalidateQueries({ queryKey: trpc.events.exports.queryKey() })
+						}}
+					/>
+				</CardContent>
+			</Card>
+			<Card>
+				<CardHeader>
+					<CardTitle>Recent Exports</CardTitle>
+				</CardHeader>
+				<CardContent>
+					<ExportHistory limit={5} />
+				</CardContent>
+			</Card>
+		</div>
+	)
 }
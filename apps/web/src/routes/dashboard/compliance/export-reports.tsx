@@ -1,10 +1,37 @@
-import { ComingSoon } from '@/components/pages/coming-soon'
-import { createFileRoute } from '@tanstack/react-router'
+import { ExportHistory } from '@/components/exports/export-history'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { PageBreadcrumb } from '@/components/ui/page-breadcrumb'
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { Plus } from 'lucide-react'
 
 export const Route = createFileRoute('/dashboard/compliance/export-reports')({
 	component: RouteComponent,
 })
 
 function RouteComponent() {
-	return <ComingSoon />
+	return (
+		<div className="flex flex-1 flex-col gap-4 p-4">
+			<PageBreadcrumb link="Compliance" page="Export Reports" />
+			<Card>
+				<CardHeader className="flex flex-row items-start justify-between">
+					<div className="space-y-1.5">
+						<CardTitle>Exports</CardTitle>
+						<CardDescription>
+							Event exports of the organization. Files are deleted once their download expires.
+						</CardDescription>
+					</div>
+					<Button asChild>
+						<Link to="/dashboard/compliance/export-events">
+							<Plus />
+							New Export
+						</Link>
+					</Button>
+				</CardHeader>
+				<CardContent>
+					<ExportHistory limit={100} />
+				</CardContent>
+			</Card>
+		</div>
+	)
 }
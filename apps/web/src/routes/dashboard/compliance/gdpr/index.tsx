@@ -0,0 +1,493 @@
+import { dataClassifications } from '@/components/events/data'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import { Label } from '@/components/ui/label'
+import { PageBreadcrumb } from '@/components/ui/page-breadcrumb'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { Textarea } from '@/components/ui/textarea'
+import { formatDate } from '@/lib/date'
+import { trpc } from '@/utils/trpc'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { createFileRoute } from '@tanstack/react-router'
+import { FileDown, Search, UserX, VenetianMask } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import type { GDPRExportFormat, PseudonymizationStrategy } from '@repo/audit'
+
+export const Route = createFileRoute('/dashboard/compliance/gdpr/')({
+	component: RouteComponent,
+})
+
+type SubjectOperation = 'export' | 'pseudonymize' | 'erase'
+
+const operationDialogs: Record<
+	SubjectOperation,
+	{ title: string; description: string; confirm: string }
+> = {
+	export: {
+		title: 'Export Data',
+		description:
+			'Download every event of the data subject in the organization (Art. 15 and 20). The export is recorded in the audit trail.',
+		confirm: 'Export',
+	},
+	pseudonymize: {
+		title: 'Pseudonymize',
+		description:
+			'Replace the principal ID of the data subject with a pseudonym in every event of the organization. Events under legal hold keep the original.',
+		confirm: 'Pseudonymize',
+	},
+	erase: {
+		title: 'Erase',
+		description:
+			'Delete the events of the data subject in the organization (Art. 17). Events under legal hold are kept. This cannot be undone.',
+		confirm: 'Erase',
+	},
+}
+
+const strategyLabels: Record<PseudonymizationStrategy, string> = {
+	hash: 'Hash (irreversible)',
+	token: 'Token (reversible with approval)',
+	encryption: 'Encryption (reversible with approval)',
+}
+
+const activityLabels: Record<string, string> = {
+	'gdpr.data.export': 'Export',
+	'gdpr.data.pseudonymize': 'Pseudonymization',
+	'gdpr.data.pseudonymize_details': 'Details pseudonymization',
+	'gdpr.data.delete': 'Erasure',
+	'gdpr.retention.apply': 'Retention policy',
+	'gdpr.reidentification.request': 'Re-identification requested',
+	'gdpr.reidentification.approve': 'Re-identification approved',
+	'gdpr.reidentification.reject': 'Re-identification rejected',
+	'gdpr.reidentification.complete': 'Re-identified',
+}
+
+function downloadExport(principalId: string, format: string, data: string) {
+	const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+	const url = URL.createObjectURL(new Blob([bytes]))
+	const link = document.createElement('a')
+	link.href = url
+	link.download = `gdpr-export-${principalId}.${format}`
+	link.click()
+	URL.revokeObjectURL(url)
+}
+
+function RouteComponent() {
+	const [search, setSearch] = useState('')
+	const [principalId, setPrincipalId] = useState<string | null>(null)
+	const [operation, setOperation] = useState<SubjectOperation | null>(null)
+	const [reason, setReason] = useState('')
+	const [confirmation, setConfirmation] = useState('')
+	const [format, setFormat] = useState<GDPRExportFormat>('json')
+	const [strategy, setStrategy] = useState<PseudonymizationStrategy>('hash')
+	const [preserveComplianceAudits, setPreserveComplianceAudits] = useState(true)
+	const [subjectActivityOnly, setSubjectActivityOnly] = useState(true)
+	const queryClient = useQueryClient()
+
+	const { data: footprint, isFetching: isFootprintLoading } = useQuery(
+		trpc.gdpr.footprint.queryOptions({ principalId: principalId ?? '' }, { enabled: !!principalId })
+	)
+	const { data: activity, isLoading: isActivityLoading } = useQuery(
+		trpc.gdpr.activity.queryOptions(
+			principalId && subjectActivityOnly ? { principalId, limit: 50 } : { limit: 50 }
+		)
+	)
+	const exportData = useMutation(trpc.events.gdprExport.mutationOptions())
+	const pseudonymize = useMutation(trpc.events.gdprPseudonymize.mutationOptions())
+	const erase = useMutation(trpc.gdpr.erase.mutationOptions())
+	const isPending = exportData.isPending || pseudonymize.isPending || erase.isPending
+
+	// Destructive operations are confirmed by typing the principal ID
+	const needsConfirmation = operation === 'pseudonymize' || operation === 'erase'
+	const canRun =
+		!!principalId &&
+		reason.trim().length > 0 &&
+		(!needsConfirmation || confirmation.trim() === principalId)
+
+	const openOperation = (kind: SubjectOperation) => {
+		setReason('')
+		setConfirmation('')
+		setOperation(kind)
+	}
+
+	const refresh = () => {
+		queryClient.invalidateQueries({ queryKey: trpc.gdpr.footprint.queryKey() })
+		queryClient.invalidateQueries({ queryKey: trpc.gdpr.activity.queryKey() })
+	}
+
+	const handleOperation = async () => {
+		if (!operation || !principalId) return
+
+		try {
+			switch (operation) {
+				case 'export': {
+					const result = await exportData.mutateAsync({
+						principalId,
+						format,
+						reason: reason.trim(),
+					})
+					downloadExport(principalId, result.format, result.data)
+					toast.success(`Exported ${result.recordCount} events`)
+					break
+				}
+				case 'pseudonymize': {
+					const result = await pseudonymize.mutateAsync({
+						principalId,
+						strategy,
+						reason: reason.trim(),
+					})
+					toast.success(
+						`Pseudonymized ${result.recordsAffected} events as ${result.pseudonymId}` +
+							(result.recordsHeld ? `, ${result.recordsHeld} kept under legal hold` : '')
+					)
+					break
+				}
+				case 'erase': {
+					const result = await erase.mutateAsync({
+						principalId,
+						reason: reason.trim(),
+						preserveComplianceAudits,
+					})
+					toast.success(
+						`Erased ${result.recordsDeleted} events` +
+							(result.complianceRecordsPreserved
+								? `, pseudonymized ${result.complianceRecordsPreserved} compliance records`
+								: '') +
+							(result.recordsHeld ? `, ${result.recordsHeld} kept under legal hold` : '')
+					)
+					break
+				}
+			}
+			setOperation(null)
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : `Failed to ${operation} the data`)
+		} finally {
+			refresh()
+		}
+	}
+
+	return (
+		<div className="flex flex-1 flex-col gap-4 p-4">
+			<PageBreadcrumb link="Compliance" page="GDPR" />
+			<form
+				className="flex max-w-xl gap-2"
+				onSubmit={(event) => {
+					event.preventDefault()
+					setPrincipalId(search.trim() || null)
+				}}
+			>
+				<Input
+					placeholder="Principal ID of the data subject"
+					value={search}
+					onChange={(event) => setSearch(event.target.value)}
+				/>
+				<Button type="submit" disabled={!search.trim()}>
+					<Search />
+					Search
+				</Button>
+			</form>
+
+			<Dialog open={operation !== null} onOpenChange={(open) => !open && setOperation(null)}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>{operation && operationDialogs[operation].title}</DialogTitle>
+						<DialogDescription>
+							{operation && operationDialogs[operation].description}
+						</DialogDescription>
+					</DialogHeader>
+					{operation === 'export' && (
+						<Select value={format} onValueChange={(value) => setFormat(value as GDPRExportFormat)}>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="json">JSON</SelectItem>
+								<SelectItem value="csv">CSV</SelectItem>
+								<SelectItem value="xml">XML</SelectItem>
+							</SelectContent>
+						</Select>
+					)}
+					{operation === 'pseudonymize' && (
+						<Select
+							value={strategy}
+							onValueChange={(value) => setStrategy(value as PseudonymizationStrategy)}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(strategyLabels).map(([value, label]) => (
+									<SelectItem key={value} value={value}>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					)}
+					{operation === 'erase' && (
+						<div className="flex items-center gap-2">
+							<Switch
+								id="preserve-compliance-audits"
+								checked={preserveComplianceAudits}
+								onCheckedChange={setPreserveComplianceAudits}
+							/>
+							<Label htmlFor="preserve-compliance-audits">
+								Pseudonymize authentication and GDPR records instead of deleting them
+							</Label>
+						</div>
+					)}
+					<Textarea
+						placeholder="Reason, e.g. the data subject request reference"
+						className="resize-none"
+						value={reason}
+						onChange={(event) => setReason(event.target.value)}
+					/>
+					{needsConfirmation && (
+						<div className="space-y-2">
+							<Label htmlFor="confirm-principal">
+								Type <span className="font-mono">{principalId}</span> to confirm
+							</Label>
+							<Input
+								id="confirm-principal"
+								autoComplete="off"
+								value={confirmation}
+								onChange={(event) => setConfirmation(event.target.value)}
+							/>
+						</div>
+					)}
+					<Button
+						variant={needsConfirmation ? 'destructive' : 'default'}
+						onClick={handleOperation}
+						disabled={isPending || !canRun}
+					>
+						{isPending ? (
+							<Spinner variant="bars" size={16} />
+						) : (
+							operation && operationDialogs[operation].confirm
+						)}
+					</Button>
+				</DialogContent>
+			</Dialog>
+
+			{principalId && (
+				<Card>
+					<CardHeader className="flex flex-row items-start justify-between">
+						<div className="space-y-1.5">
+							<CardTitle className="font-mono">{principalId}</CardTitle>
+							<CardDescription>Events of the data subject in this organization.</CardDescription>
+						</div>
+						<div className="flex flex-wrap gap-2">
+							<Button variant="outline" onClick={() => openOperation('export')}>
+								<FileDown />
+								Export
+							</Button>
+							<Button
+								variant="outline"
+								onClick={() => openOperation('pseudonymize')}
+								disabled={!footprint?.totalEvents}
+							>
+								<VenetianMask />
+								Pseudonymize
+							</Button>
+							<Button
+								variant="destructive"
+								onClick={() => openOperation('erase')}
+								disabled={!footprint?.totalEvents}
+							>
+								<UserX />
+								Erase
+							</Button>
+						</div>
+					</CardHeader>
+					<CardContent>
+						{isFootprintLoading || !footprint ? (
+							<div className="flex justify-center">
+								<Spinner variant="bars" size={32} />
+							</div>
+						) : footprint.totalEvents === 0 ? (
+							<p className="text-muted-foreground text-sm">
+								No events of this principal in the organization. Pseudonymized data subjects are
+								found under their pseudonym.
+							</p>
+						) : (
+							<div className="space-y-6">
+								<div className="grid gap-4 md:grid-cols-4">
+									{[
+										{ title: 'Events', value: footprint.totalEvents.toLocaleString() },
+										{
+											title: 'First seen',
+											value: footprint.firstSeen
+												? formatDate(new Date(footprint.firstSeen), 'PP')
+												: '-',
+										},
+										{
+											title: 'Last seen',
+											value: footprint.lastSeen
+												? formatDate(new Date(footprint.lastSeen), 'PP')
+												: '-',
+										},
+										{ title: 'Under legal hold', value: footprint.heldEvents.toLocaleString() },
+									].map((card) => (
+										<div key={card.title} className="rounded-md border p-4">
+											<div className="text-muted-foreground text-sm">{card.title}</div>
+											<div className="text-2xl font-semibold">{card.value}</div>
+										</div>
+									))}
+								</div>
+								<div className="grid gap-6 md:grid-cols-2">
+									<Breakdown
+										title="By action"
+										total={footprint.totalEvents}
+										rows={footprint.byAction.map((row) => ({
+											label: row.action,
+											count: row.count,
+										}))}
+									/>
+									<Breakdown
+										title="By classification"
+										total={footprint.totalEvents}
+										rows={footprint.byClassification.map((row) => ({
+											label:
+												dataClassifications.find(
+													(classification) => classification.value === row.dataClassification
+												)?.label ?? row.dataClassification,
+											count: row.count,
+										}))}
+									/>
+								</div>
+							</div>
+						)}
+					</CardContent>
+				</Card>
+			)}
+
+			<Card>
+				<CardHeader className="flex flex-row items-start justify-between">
+					<div className="space-y-1.5">
+						<CardTitle>GDPR Activity</CardTitle>
+						<CardDescription>Data subject operations recorded in the audit trail.</CardDescription>
+					</div>
+					{principalId && (
+						<div className="flex items-center gap-2">
+							<Switch
+								id="subject-activity-only"
+								checked={subjectActivityOnly}
+								onCheckedChange={setSubjectActivityOnly}
+							/>
+							<Label htmlFor="subject-activity-only">This data subject only</Label>
+						</div>
+					)}
+				</CardHeader>
+				<CardContent>
+					{isActivityLoading ? (
+						<div className="flex justify-center">
+							<Spinner variant="bars" size={32} />
+						</div>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Time</TableHead>
+									<TableHead>Operation</TableHead>
+									<TableHead>Data subject</TableHead>
+									<TableHead>Performed by</TableHead>
+									<TableHead>Reason</TableHead>
+									<TableHead>Outcome</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{activity && activity.length > 0 ? (
+									activity.map((entry) => (
+										<TableRow key={entry.id}>
+											<TableCell className="whitespace-nowrap">
+												{formatDate(new Date(entry.timestamp), 'PPp')}
+											</TableCell>
+											<TableCell>
+												<div className="flex items-center gap-2">
+													{activityLabels[entry.action] ?? entry.action}
+													{entry.status !== 'success' && (
+														<Badge variant="destructive">{entry.status}</Badge>
+													)}
+												</div>
+											</TableCell>
+											<TableCell className="font-mono text-xs">
+												{entry.principalId ?? '-'}
+											</TableCell>
+											<TableCell>{entry.performedBy ?? 'system'}</TableCell>
+											<TableCell className="max-w-[240px] truncate">
+												{typeof entry.details?.reason === 'string' ? entry.details.reason : '-'}
+											</TableCell>
+											<TableCell className="text-muted-foreground max-w-[320px] truncate">
+												{entry.outcomeDescription ?? '-'}
+											</TableCell>
+										</TableRow>
+									))
+								) : (
+									<TableRow>
+										<TableCell colSpan={6} className="h-24 text-center">
+											No GDPR activity recorded.
+										</TableCell>
+									</TableRow>
+								)}
+							</TableBody>
+						</Table>
+					)}
+				</CardContent>
+			</Card>
+		</div>
+	)
+}
+
+interface BreakdownProps {
+	title: string
+	total: number
+	rows: { label: string; count: number }[]
+}
+
+function Breakdown({ title, total, rows }: BreakdownProps) {
+	return (
+		<div className="space-y-2">
+			<div className="text-sm font-medium">{title}</div>
+			{rows.map((row) => (
+				<div key={row.label} className="space-y-1">
+					<div className="flex justify-between gap-2 text-sm">
+						<span className="truncate">{row.label}</span>
+						<span className="text-muted-foreground tabular-nums">{row.count}</span>
+					</div>
+					<div className="bg-primary/20 h-1.5 rounded-full">
+						<div
+							className="bg-primary h-full rounded-full"
+							style={{ width: `${(row.count / total) * 100}%` }}
+						/>
+					</div>
+				</div>
+			))}
+		</div>
+	)
+}
@@ -0,0 +1,432 @@
+import DataSubjectRequestForm, {
+	requestTypeLabels,
+} from '@/components/gdpr/data-subject-request-form'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import { PageBreadcrumb } from '@/components/ui/page-breadcrumb'
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { Textarea } from '@/components/ui/textarea'
+import { formatDate } from '@/lib/date'
+import { trpc } from '@/utils/trpc'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { createFileRoute } from '@tanstack/react-router'
+import { differenceInCalendarDays } from 'date-fns'
+import { MoreHorizontal } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import type { DataSubjectRequestFormValues } from '@/components/gdpr/data-subject-request-form'
+import type { DataSubjectRequest, IdentityVerificationMethod } from '@repo/audit'
+
+export const Route = createFileRoute('/dashboard/compliance/gdpr/requests')({
+	component: RouteComponent,
+})
+
+type RequestAction = 'verify' | 'fulfil' | 'complete' | 'reject' | 'extend'
+
+const statusLabels: Record<DataSubjectRequest['status'], string> = {
+	received: 'Awaiting verification',
+	verified: 'Verified',
+	in_progress: 'In progress',
+	completed: 'Completed',
+	rejected: 'Rejected',
+}
+
+const verificationMethods: Record<IdentityVerificationMethod, string> = {
+	email: 'Email confirmation',
+	account_login: 'Signed-in account',
+	identity_document: 'Identity document',
+	in_person: 'In person',
+	other: 'Other',
+}
+
+const actionDialogs: Record<
+	RequestAction,
+	{ title: string; description: string; confirm: string }
+> = {
+	verify: {
+		title: 'Verify Identity',
+		description: 'Record how the identity of the data subject was checked.',
+		confirm: 'Mark Verified',
+	},
+	fulfil: {
+		title: 'Fulfil Request',
+		description: 'Run the request against the audit log of the data subject.',
+		confirm: 'Fulfil',
+	},
+	complete: {
+		title: 'Complete Request',
+		description: 'Describe how the request was handled.',
+		confirm: 'Complete',
+	},
+	reject: {
+		title: 'Reject Request',
+		description: 'The reason is kept with the request and in the audit trail.',
+		confirm: 'Reject',
+	},
+	extend: {
+		title: 'Extend Deadline',
+		description:
+			'The deadline may be extended once by two months when the request is complex or numerous. Inform the data subject of the reason.',
+		confirm: 'Extend by 2 Months',
+	},
+}
+
+const automatedTypes = ['access', 'portability', 'erasure']
+const openStatuses = ['received', 'verified', 'in_progress']
+
+function isOpen(request: DataSubjectRequest): boolean {
+	return openStatuses.includes(request.status)
+}
+
+function availableActions(request: DataSubjectRequest): RequestAction[] {
+	switch (request.status) {
+		case 'received':
+			return ['verify', 'reject', ...(request.extendedAt ? [] : (['extend'] as const))]
+		case 'verified':
+			return [
+				automatedTypes.includes(request.requestType) ? 'fulfil' : 'complete',
+				'reject',
+				...(request.extendedAt ? [] : (['extend'] as const)),
+			]
+		default:
+			return []
+	}
+}
+
+function Deadline({ request }: { request: DataSubjectRequest }) {
+	const dueAt = new Date(request.dueAt)
+	const daysLeft = differenceInCalendarDays(dueAt, new Date())
+
+	return (
+		<div>
+			<div>{formatDate(dueAt, 'PP')}</div>
+			{isOpen(request) && (
+				<div
+					className={
+						daysLeft < 0
+							? 'text-destructive text-xs'
+							: daysLeft <= 7
+								? 'text-xs text-amber-600'
+								: 'text-muted-foreground text-xs'
+					}
+				>
+					{daysLeft < 0 ? `${-daysLeft} days overdue` : `${daysLeft} days left`}
+					{request.extendedAt ? ' · extended' : ''}
+				</div>
+			)}
+		</div>
+	)
+}
+
+function downloadExport(request: DataSubjectRequest, format: string, data: string) {
+	const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+	const url = URL.createObjectURL(new Blob([bytes]))
+	const link = document.createElement('a')
+	link.href = url
+	link.download = `dsr-${request.requestType}-${request.principalId}.${format}`
+	link.click()
+	URL.revokeObjectURL(url)
+}
+
+function RouteComponent() {
+	const [isCreateOpen, setIsCreateOpen] = useState(false)
+	const [status, setStatus] = useState<'all' | DataSubjectRequest['status']>('all')
+	const [action, setAction] = useState<{
+		kind: RequestAction
+		request: DataSubjectRequest
+	} | null>(null)
+	const [text, setText] = useState('')
+	const [method, setMethod] = useState<IdentityVerificationMethod>('email')
+	const queryClient = useQueryClient()
+
+	const { data: requests, isLoading } = useQuery(
+		trpc.gdpr.dsr.list.queryOptions(status === 'all' ? undefined : { status })
+	)
+	const { data: summary } = useQuery(trpc.gdpr.dsr.summary.queryOptions())
+	const createRequest = useMutation(trpc.gdpr.dsr.create.mutationOptions())
+	const verifyIdentity = useMutation(trpc.gdpr.dsr.verifyIdentity.mutationOptions())
+	const fulfilRequest = useMutation(trpc.gdpr.dsr.fulfil.mutationOptions())
+	const completeRequest = useMutation(trpc.gdpr.dsr.complete.mutationOptions())
+	const rejectRequest = useMutation(trpc.gdpr.dsr.reject.mutationOptions())
+	const extendDeadline = useMutation(trpc.gdpr.dsr.extendDeadline.mutationOptions())
+	const isPending =
+		verifyIdentity.isPending ||
+		fulfilRequest.isPending ||
+		completeRequest.isPending ||
+		rejectRequest.isPending ||
+		extendDeadline.isPending
+
+	const refresh = () => {
+		queryClient.invalidateQueries({ queryKey: trpc.gdpr.dsr.list.queryKey() })
+		queryClient.invalidateQueries({ queryKey: trpc.gdpr.dsr.summary.queryKey() })
+	}
+
+	const handleCreate = async (values: DataSubjectRequestFormValues) => {
+		try {
+			await createRequest.mutateAsync({
+				requestType: values.requestType,
+				principalId: values.principalId,
+				subjectName: values.subjectName || undefined,
+				subjectEmail: values.subjectEmail || undefined,
+				description: values.description || undefined,
+				receivedAt: values.receivedAt ? new Date(values.receivedAt).toISOString() : undefined,
+			})
+			toast.success('Data subject request logged')
+			setIsCreateOpen(false)
+		} catch (error) {
+			toast.error('Failed to log the data subject request')
+		} finally {
+			refresh()
+		}
+	}
+
+	const handleAction = async () => {
+		if (!action) return
+		const { kind, request } = action
+
+		try {
+			switch (kind) {
+				case 'verify':
+					await verifyIdentity.mutateAsync({ id: request.id, method, notes: text || undefined })
+					break
+				case 'fulfil': {
+					const result = await fulfilRequest.mutateAsync({ id: request.id })
+					if (result.export) {
+						downloadExport(request, result.export.format, result.export.data)
+					}
+					break
+				}
+				case 'complete':
+					await completeRequest.mutateAsync({ id: request.id, notes: text })
+					break
+				case 'reject':
+					await rejectRequest.mutateAsync({ id: request.id, reason: text })
+					break
+				case 'extend':
+					await extendDeadline.mutateAsync({ id: request.id, reason: text })
+					break
+			}
+			toast.success(`${actionDialogs[kind].title} done`)
+			setAction(null)
+		} catch (error) {
+			toast.error(error instanceof Error ? error.message : `Failed to ${kind} the request`)
+		} finally {
+			refresh()
+			setText('')
+		}
+	}
+
+	const needsText = action && action.kind !== 'verify' && action.kind !== 'fulfil'
+
+	return (
+		<div className="flex flex-1 flex-col gap-4 p-4">
+			<PageBreadcrumb link="Compliance" page="Data Subject Requests" />
+			<Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Log Data Subject Request</DialogTitle>
+						<DialogDescription>
+							The request must be answered within 30 days of receipt.
+						</DialogDescription>
+					</DialogHeader>
+					<DataSubjectRequestForm onSubmit={handleCreate} />
+				</DialogContent>
+			</Dialog>
+			<Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>{action && actionDialogs[action.kind].title}</DialogTitle>
+						<DialogDescription>
+							{action && actionDialogs[action.kind].description}
+							{action?.kind === 'fulfil' && action.request.requestType === 'erasure'
+								? ' The events of the data subject are deleted, except compliance records and events under legal hold.'
+								: ''}
+							{action?.kind === 'fulfil' && action.request.requestType !== 'erasure'
+								? ' The export is downloaded once the request is fulfilled.'
+								: ''}
+						</DialogDescription>
+					</DialogHeader>
+					{action?.kind === 'verify' && (
+						<Select
+							value={method}
+							onValueChange={(value) => setMethod(value as IdentityVerificationMethod)}
+						>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(verificationMethods).map(([value, label]) => (
+									<SelectItem key={value} value={value}>
+										{label}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					)}
+					{action?.kind !== 'fulfil' && (
+						<Textarea
+							placeholder={action?.kind === 'verify' ? 'Notes' : 'Reason'}
+							className="resize-none"
+							value={text}
+							onChange={(event) => setText(event.target.value)}
+						/>
+					)}
+					<Button
+						variant={action?.kind === 'reject' ? 'destructive' : 'default'}
+						onClick={handleAction}
+						disabled={isPending || (!!needsText && !text.trim())}
+					>
+						{isPending ? (
+							<Spinner variant="bars" size={16} />
+						) : (
+							action && actionDialogs[action.kind].confirm
+						)}
+					</Button>
+				</DialogContent>
+			</Dialog>
+			<div className="grid gap-4 md:grid-cols-4">
+				{[
+					{ title: 'Open', value: summary?.open, description: 'Requests not answered yet' },
+					{
+						title: 'Awaiting verification',
+						value: summary?.awaitingVerification,
+						description: 'Identity not checked yet',
+					},
+					{ title: 'Due within 7 days', value: summary?.dueSoon, description: 'Open requests' },
+					{ title: 'Overdue', value: summary?.overdue, description: 'Past their deadline' },
+				].map((card) => (
+					<Card key={card.title}>
+						<CardHeader>
+							<CardDescription>{card.title}</CardDescription>
+							<CardTitle className="text-2xl">{card.value ?? '-'}</CardTitle>
+						</CardHeader>
+						<CardContent className="text-muted-foreground text-xs">{card.description}</CardContent>
+					</Card>
+				))}
+			</div>
+			<div className="flex items-center justify-between">
+				<Select value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+					<SelectTrigger className="w-56">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value="all">All requests</SelectItem>
+						{Object.entries(statusLabels).map(([value, label]) => (
+							<SelectItem key={value} value={value}>
+								{label}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<Button onClick={() => setIsCreateOpen(true)}>Log Request</Button>
+			</div>
+			{isLoading ? (
+				<div className="flex flex-1 items-center justify-center">
+					<Spinner variant="bars" size={64} />
+				</div>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Request</TableHead>
+							<TableHead>Data subject</TableHead>
+							<TableHead>Status</TableHead>
+							<TableHead>Received</TableHead>
+							<TableHead>Deadline</TableHead>
+							<TableHead />
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{requests && requests.length > 0 ? (
+							requests.map((request) => (
+								<TableRow key={request.id}>
+									<TableCell>
+										<div className="font-medium">{requestTypeLabels[request.requestType]}</div>
+										{request.lastError && (
+											<div className="text-destructive text-xs">{request.lastError}</div>
+										)}
+										{request.rejectionReason && (
+											<div className="text-muted-foreground text-xs">{request.rejectionReason}</div>
+										)}
+									</TableCell>
+									<TableCell>
+										<div>{request.subjectName ?? request.principalId}</div>
+										<div className="text-muted-foreground text-xs">
+											{request.subjectEmail ?? request.principalId}
+										</div>
+									</TableCell>
+									<TableCell>
+										<Badge variant={isOpen(request) ? 'default' : 'secondary'}>
+											{statusLabels[request.status]}
+										</Badge>
+									</TableCell>
+									<TableCell>{formatDate(new Date(request.receivedAt), 'PP')}</TableCell>
+									<TableCell>
+										<Deadline request={request} />
+									</TableCell>
+									<TableCell className="text-right">
+										{availableActions(request).length > 0 && (
+											<DropdownMenu>
+												<DropdownMenuTrigger asChild>
+													<Button variant="ghost" size="icon">
+														<MoreHorizontal className="h-4 w-4" />
+													</Button>
+												</DropdownMenuTrigger>
+												<DropdownMenuContent align="end">
+													{availableActions(request).map((kind) => (
+														<DropdownMenuItem
+															key={kind}
+															onClick={() => setAction({ kind, request })}
+														>
+															{actionDialogs[kind].title}
+														</DropdownMenuItem>
+													))}
+												</DropdownMenuContent>
+											</DropdownMenu>
+										)}
+									</TableCell>
+								</TableRow>
+							))
+						) : (
+							<TableRow>
+								<TableCell colSpan={6} className="h-24 text-center">
+									No data subject requests.
+								</TableCell>
+							</TableRow>
+						)}
+					</TableBody>
+				</Table>
+			)}
+		</div>
+	)
+}
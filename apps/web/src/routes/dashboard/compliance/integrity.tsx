@@ -1,10 +1,373 @@
-import { ComingSoon } from '@/components/pages/coming-soon'
+import { EventDetailSheet } from '@/components/events/event-detail-sheet'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { DateRangePicker } from '@/components/ui/date-range-picker'
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import { PageBreadcrumb } from '@/components/ui/page-breadcrumb'
+import { Progress } from '@/components/ui/progress'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { formatDate } from '@/lib/date'
+import { trpc } from '@/utils/trpc'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { createFileRoute } from '@tanstack/react-router'
+import { endOfDay, startOfDay, subDays } from 'date-fns'
+import { FileDown, ShieldCheck, ShieldX } from 'lucide-react'
+import { useRef, useState } from 'react'
+import { toast } from 'sonner'
+
+import type { DateRange } from 'react-day-picker'
+import type { IntegrityFailure } from '@repo/audit'
 
 export const Route = createFileRoute('/dashboard/compliance/integrity')({
 	component: RouteComponent,
 })
 
+const DAY_MS = 24 * 60 * 60 * 1000
+// Runs are verified slice by slice so progress can be reported
+const MAX_SLICES = 30
+
+interface IntegrityRun {
+	runId: string
+	startDate: string
+	endDate: string
+	status: 'running' | 'completed' | 'cancelled' | 'failed'
+	completedSlices: number
+	totalSlices: number
+	results: {
+		totalEvents: number
+		verifiedEvents: number
+		failedVerifications: number
+		unverifiedEvents: number
+	}
+	failures: IntegrityFailure[]
+}
+
+const severityVariants: Record<IntegrityFailure['severity'], 'default' | 'destructive'> = {
+	LOW: 'default',
+	MEDIUM: 'default',
+	HIGH: 'destructive',
+	CRITICAL: 'destructive',
+}
+
+/**
+ * Split a date range into at most MAX_SLICES consecutive slices of whole days
+ */
+function sliceRange(range: DateRange): { startDate: string; endDate: string }[] {
+	const start = startOfDay(range.from!).getTime()
+	const end = endOfDay(range.to ?? range.from!).getTime()
+	const sliceSize = Math.max(DAY_MS, Math.ceil((end - start + 1) / MAX_SLICES / DAY_MS) * DAY_MS)
+
+	const slices = []
+	for (let sliceStart = start; sliceStart <= end; sliceStart += sliceSize) {
+		slices.push({
+			startDate: new Date(sliceStart).toISOString(),
+			endDate: new Date(Math.min(sliceStart + sliceSize - 1, end)).toISOString(),
+		})
+	}
+	return slices
+}
+
+function downloadAttestation(filename: string, data: string) {
+	const bytes = Uint8Array.from(atob(data), (char) => char.charCodeAt(0))
+	const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }))
+	const link = document.createElement('a')
+	link.href = url
+	link.download = filename
+	link.click()
+	URL.revokeObjectURL(url)
+}
+
 function RouteComponent() {
-	return <ComingSoon />
+	const [dateRange, setDateRange] = useState<DateRange>({
+		from: subDays(new Date(), 30),
+		to: new Date(),
+	})
+	const [run, setRun] = useState<IntegrityRun | null>(null)
+	const [eventId, setEventId] = useState<number | null>(null)
+	const cancelled = useRef(false)
+	const queryClient = useQueryClient()
+
+	const { data: history, isLoading: isHistoryLoading } = useQuery(
+		trpc.compliance.report.integrityHistory.queryOptions()
+	)
+	const verify = useMutation(trpc.compliance.report.integrity.mutationOptions())
+	const attestation = useMutation(trpc.compliance.export.integrityAttestation.mutationOptions())
+
+	const isRunning = run?.status === 'running'
+
+	const handleRun = async () => {
+		if (!dateRange.from) return
+
+		const slices = sliceRange(dateRange)
+		const runId = `integrity-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`
+		let current: IntegrityRun = {
+			runId,
+			startDate: slices[0].startDate,
+			endDate: slices[slices.length - 1].endDate,
+			status: 'running',
+			completedSlices: 0,
+			totalSlices: slices.length,
+			results: { totalEvents: 0, verifiedEvents: 0, failedVerifications: 0, unverifiedEvents: 0 },
+			failures: [],
+		}
+		cancelled.current = false
+		setRun(current)
+
+		try {
+			for (const slice of slices) {
+				if (cancelled.current) {
+					current = { ...current, status: 'cancelled' }
+					break
+				}
+
+				const { report } = await verify.mutateAsync({ criteria: slice, runId })
+				current = {
+					...current,
+					completedSlices: current.completedSlices + 1,
+					results: {
+						totalEvents: current.results.totalEvents + report.results.totalEvents,
+						verifiedEvents: current.results.verifiedEvents + report.results.verifiedEvents,
+						failedVerifications:
+							current.results.failedVerifications + report.results.failedVerifications,
+						unverifiedEvents: current.results.unverifiedEvents + report.results.unverifiedEvents,
+					},
+					failures: [...current.failures, ...report.failures],
+				}
+				setRun(current)
+			}
+			if (current.status === 'running') current = { ...current, status: 'completed' }
+
+			if (current.results.failedVerifications > 0) {
+				toast.error(`${current.results.failedVerifications} events failed integrity verification`)
+			} else if (current.status === 'completed') {
+				toast.success('All hashed events passed integrity verification')
+			}
+		} catch (error) {
+			current = { ...current, status: 'failed' }
+			toast.error(error instanceof Error ? error.message : 'Failed to verify integrity')
+		} finally {
+			setRun(current)
+			queryClient.invalidateQueries({
+				queryKey: trpc.compliance.report.integrityHistory.queryKey(),
+			})
+		}
+	}
+
+	const handleAttestation = async () => {
+		if (!run) return
+
+		try {
+			const result = await attestation.mutateAsync({
+				startDate: run.startDate,
+				endDate: run.endDate,
+			})
+			downloadAttestation(result.filename, result.data)
+		} catch (error) {
+			toast.error('Failed to generate the integrity attestation')
+		}
+	}
+
+	return (
+		<div className="flex flex-1 flex-col gap-4 p-4">
+			<PageBreadcrumb link="Compliance" page="Integrity Verification" />
+			<div className="flex flex-wrap items-center justify-between gap-2">
+				<DateRangePicker
+					onUpdate={({ range }) => setDateRange(range)}
+					initialDateFrom={dateRange.from}
+					initialDateTo={dateRange.to}
+					align="start"
+					locale="en-US"
+					showCompare={false}
+				/>
+				<div className="flex gap-2">
+					{run && run.status !== 'running' && (
+						<Button variant="outline" onClick={handleAttestation} disabled={attestation.isPending}>
+							{attestation.isPending ? <Spinner variant="bars" size={16} /> : <FileDown />}
+							Signed Attestation
+						</Button>
+					)}
+					{isRunning ? (
+						<Button variant="outline" onClick={() => (cancelled.current = true)}>
+							Cancel
+						</Button>
+					) : (
+						<Button onClick={handleRun} disabled={!dateRange.from}>
+							Run Verification
+						</Button>
+					)}
+				</div>
+			</div>
+			{run && (
+				<Card>
+					<CardHeader>
+						<CardTitle className="flex items-center gap-2">
+							{run.status === 'completed' && run.results.failedVerifications === 0 ? (
+								<ShieldCheck className="size-5 text-green-600" />
+							) : run.status !== 'running' ? (
+								<ShieldX className="text-destructive size-5" />
+							) : null}
+							{run.status === 'running'
+								? 'Verifying...'
+								: run.status === 'completed'
+									? 'Verification completed'
+									: run.status === 'cancelled'
+										? 'Verification cancelled'
+										: 'Verification failed'}
+						</CardTitle>
+						<CardDescription>
+							{formatDate(new Date(run.startDate), 'PP')} to{' '}
+							{formatDate(new Date(run.endDate), 'PP')} · {run.completedSlices} of {run.totalSlices}{' '}
+							slices verified
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<Progress value={(run.completedSlices / run.totalSlices) * 100} />
+					</CardContent>
+				</Card>
+			)}
+			{run && (
+				<div className="grid gap-4 md:grid-cols-4">
+					{[
+						{ title: 'Events', value: run.results.totalEvents, description: 'In the date range' },
+						{
+							title: 'Passed',
+							value: run.results.verifiedEvents,
+							description: 'Hash matches the event content',
+						},
+						{
+							title: 'Failed',
+							value: run.results.failedVerifications,
+							description: 'Hash mismatch, the event was altered',
+						},
+						{
+							title: 'Not hashed',
+							value: run.results.unverifiedEvents,
+							description: 'No integrity hash to verify',
+						},
+					].map((card) => (
+						<Card key={card.title}>
+							<CardHeader>
+								<CardDescription>{card.title}</CardDescription>
+								<CardTitle className="text-2xl">{card.value}</CardTitle>
+							</CardHeader>
+							<CardContent className="text-muted-foreground text-xs">
+								{card.description}
+							</CardContent>
+						</Card>
+					))}
+				</div>
+			)}
+			{run && run.failures.length > 0 && (
+				<Card>
+					<CardHeader>
+						<CardTitle>Failures</CardTitle>
+						<CardDescription>Select an event to inspect and verify it again.</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Event</TableHead>
+									<TableHead>Timestamp</TableHead>
+									<TableHead>Severity</TableHead>
+									<TableHead>Reason</TableHead>
+									<TableHead>Stored hash</TableHead>
+									<TableHead>Computed hash</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{run.failures.map((failure) => (
+									<TableRow
+										key={failure.eventId}
+										className="cursor-pointer"
+										onClick={() => setEventId(failure.eventId)}
+									>
+										<TableCell className="font-medium">#{failure.eventId}</TableCell>
+										<TableCell>{formatDate(new Date(failure.timestamp), 'PPpp')}</TableCell>
+										<TableCell>
+											<Badge variant={severityVariants[failure.severity]}>{failure.severity}</Badge>
+										</TableCell>
+										<TableCell>{failure.failureReason}</TableCell>
+										<TableCell className="max-w-[160px] truncate font-mono text-xs">
+											{failure.expectedHash}
+										</TableCell>
+										<TableCell className="max-w-[160px] truncate font-mono text-xs">
+											{failure.actualHash}
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					</CardContent>
+				</Card>
+			)}
+			<Card>
+				<CardHeader>
+					<CardTitle>History</CardTitle>
+					<CardDescription>Past integrity verification and hash chain runs.</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{isHistoryLoading ? (
+						<div className="flex justify-center">
+							<Spinner variant="bars" size={32} />
+						</div>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Verified at</TableHead>
+									<TableHead>Type</TableHead>
+									<TableHead>Date range</TableHead>
+									<TableHead>Events</TableHead>
+									<TableHead>Failed</TableHead>
+									<TableHead>Result</TableHead>
+									<TableHead>Verified by</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{history && history.length > 0 ? (
+									history.map((entry) => (
+										<TableRow key={entry.runId}>
+											<TableCell>{formatDate(new Date(entry.verifiedAt), 'PPp')}</TableCell>
+											<TableCell>
+												{entry.type === 'hash_chain' ? 'Hash chain' : 'Event hashes'}
+											</TableCell>
+											<TableCell>
+												{entry.startDate && entry.endDate
+													? `${formatDate(new Date(entry.startDate), 'PP')} to ${formatDate(new Date(entry.endDate), 'PP')}`
+													: '-'}
+											</TableCell>
+											<TableCell>{entry.totalEvents}</TableCell>
+											<TableCell>{entry.failedVerifications}</TableCell>
+											<TableCell>
+												<Badge variant={entry.intact ? 'secondary' : 'destructive'}>
+													{entry.intact ? 'Passed' : 'Failed'}
+												</Badge>
+											</TableCell>
+											<TableCell>{entry.verifiedBy ?? 'system'}</TableCell>
+										</TableRow>
+									))
+								) : (
+									<TableRow>
+										<TableCell colSpan={7} className="h-24 text-center">
+											No verification has been run yet.
+										</TableCell>
+									</TableRow>
+								)}
+							</TableBody>
+						</Table>
+					)}
+				</CardContent>
+			</Card>
+			<EventDetailSheet eventId={eventId} onClose={() => setEventId(null)} />
+		</div>
+	)
 }
@@ -0,0 +1,253 @@
+import LegalHoldForm from '@/components/legal-holds/form'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog'
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import { PageBreadcrumb } from '@/components/ui/page-breadcrumb'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Textarea } from '@/components/ui/textarea'
+import { formatDate } from '@/lib/date'
+import { trpc } from '@/utils/trpc'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { createFileRoute } from '@tanstack/react-router'
+import { useState } from 'react'
+import { toast } from 'sonner'
+
+import type { LegalHoldFormValues } from '@/components/legal-holds/form'
+import type { LegalHold } from '@repo/audit'
+
+export const Route = createFileRoute('/dashboard/compliance/legal-holds')({
+	component: RouteComponent,
+})
+
+const operationLabels: Record<string, string> = {
+	'retention.delete': 'Retention delete',
+	'gdpr.erasure': 'GDPR erasure',
+	'gdpr.pseudonymize': 'GDPR pseudonymization',
+	'archive.secure_delete': 'Archive secure delete',
+	'archive.cleanup': 'Archive cleanup',
+	'partition.drop': 'Partition drop',
+}
+
+function describeScope(hold: LegalHold): string {
+	const scope = [
+		hold.principalId && `principal ${hold.principalId}`,
+		hold.targetResourceType &&
+			`${hold.targetResourceType}${hold.targetResourceId ? `/${hold.targetResourceId}` : ''}`,
+		!hold.targetResourceType && hold.targetResourceId && `resource ${hold.targetResourceId}`,
+		hold.startDate && `from ${formatDate(new Date(hold.startDate), 'PP')}`,
+		hold.endDate && `to ${formatDate(new Date(hold.endDate), 'PP')}`,
+	].filter(Boolean)
+	return scope.length > 0 ? scope.join(', ') : 'All events'
+}
+
+function RouteComponent() {
+	const [isCreateOpen, setIsCreateOpen] = useState(false)
+	const [releasing, setReleasing] = useState<LegalHold | null>(null)
+	const [releaseReason, setReleaseReason] = useState('')
+	const queryClient = useQueryClient()
+	const { data: holds, isLoading } = useQuery(trpc.legalHolds.list.queryOptions())
+	const { data: blockedActions, isLoading: isLoadingBlocked } = useQuery(
+		trpc.legalHolds.blockedActions.queryOptions()
+	)
+	const createHold = useMutation(trpc.legalHolds.create.mutationOptions())
+	const releaseHold = useMutation(trpc.legalHolds.release.mutationOptions())
+
+	const handleCreate = async (values: LegalHoldFormValues) => {
+		try {
+			await createHold.mutateAsync({
+				name: values.name,
+				reason: values.reason,
+				custodian: values.custodian,
+				caseReference: values.caseReference || undefined,
+				principalId: values.principalId || undefined,
+				targetResourceType: values.targetResourceType || undefined,
+				targetResourceId: values.targetResourceId || undefined,
+				startDate: values.startDate ? new Date(values.startDate).toISOString() : undefined,
+				// The end date covers the whole day
+				endDate: values.endDate
+					? new Date(`${values.endDate}T23:59:59.999Z`).toISOString()
+					: undefined,
+			})
+			toast.success(`Legal hold ${values.name} placed`)
+			setIsCreateOpen(false)
+		} catch (error) {
+			toast.error('Failed to place the legal hold')
+		} finally {
+			queryClient.invalidateQueries({ queryKey: trpc.legalHolds.list.queryKey() })
+		}
+	}
+
+	const handleRelease = async () => {
+		if (!releasing) return
+
+		try {
+			await releaseHold.mutateAsync({ id: releasing.id, reason: releaseReason || undefined })
+			toast.success(`Legal hold ${releasing.name} released`)
+		} catch (error) {
+			toast.error('Failed to release the legal hold')
+		} finally {
+			queryClient.invalidateQueries({ queryKey: trpc.legalHolds.list.queryKey() })
+			setReleasing(null)
+			setReleaseReason('')
+		}
+	}
+
+	return (
+		<div className="flex flex-1 flex-col gap-4 p-4">
+			<PageBreadcrumb link="Compliance" page="Legal Holds" />
+			<Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Place Legal Hold</DialogTitle>
+						<DialogDescription>
+							Events covered by the hold are kept from retention, archive deletion and GDPR erasure
+							until it is released.
+						</DialogDescription>
+					</DialogHeader>
+					<LegalHoldForm onSubmit={handleCreate} />
+				</DialogContent>
+			</Dialog>
+			<Dialog open={releasing !== null} onOpenChange={(open) => !open && setReleasing(null)}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Release Legal Hold</DialogTitle>
+						<DialogDescription>
+							Events covered only by {releasing?.name} may be deleted once it is released.
+						</DialogDescription>
+					</DialogHeader>
+					<Textarea
+						placeholder="Release reason"
+						className="resize-none"
+						value={releaseReason}
+						onChange={(event) => setReleaseReason(event.target.value)}
+					/>
+					<Button variant="destructive" onClick={handleRelease} disabled={releaseHold.isPending}>
+						{releaseHold.isPending ? <Spinner variant="bars" size={16} /> : 'Release Hold'}
+					</Button>
+				</DialogContent>
+			</Dialog>
+			<Tabs defaultValue="holds" className="min-h-[100vh] flex-1 rounded-xl md:min-h-min">
+				<div className="flex items-center justify-between">
+					<TabsList>
+						<TabsTrigger value="holds">Holds</TabsTrigger>
+						<TabsTrigger value="blocked">Blocked Actions</TabsTrigger>
+					</TabsList>
+					<Button onClick={() => setIsCreateOpen(true)}>Place Hold</Button>
+				</div>
+				<TabsContent value="holds">
+					{isLoading ? (
+						<div className="flex flex-1 items-center justify-center">
+							<Spinner variant="bars" size={64} />
+						</div>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Name</TableHead>
+									<TableHead>Custodian</TableHead>
+									<TableHead>Scope</TableHead>
+									<TableHead>Status</TableHead>
+									<TableHead>Created</TableHead>
+									<TableHead />
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{holds && holds.length > 0 ? (
+									holds.map((hold) => (
+										<TableRow key={hold.id}>
+											<TableCell>
+												<div className="font-medium">{hold.name}</div>
+												<div className="text-muted-foreground text-xs">
+													{hold.caseReference ? `${hold.caseReference} · ` : ''}
+													{hold.reason}
+												</div>
+											</TableCell>
+											<TableCell>{hold.custodian}</TableCell>
+											<TableCell>{describeScope(hold)}</TableCell>
+											<TableCell>
+												<Badge variant={hold.status === 'active' ? 'default' : 'secondary'}>
+													{hold.status}
+												</Badge>
+											</TableCell>
+											<TableCell>{formatDate(new Date(hold.createdAt), 'PPp')}</TableCell>
+											<TableCell className="text-right">
+												{hold.status === 'active' && (
+													<Button variant="outline" size="sm" onClick={() => setReleasing(hold)}>
+														Release
+													</Button>
+												)}
+											</TableCell>
+										</TableRow>
+									))
+								) : (
+									<TableRow>
+										<TableCell colSpan={6} className="h-24 text-center">
+											No legal holds.
+										</TableCell>
+									</TableRow>
+								)}
+							</TableBody>
+						</Table>
+					)}
+				</TabsContent>
+				<TabsContent value="blocked">
+					{isLoadingBlocked ? (
+						<div className="flex flex-1 items-center justify-center">
+							<Spinner variant="bars" size={64} />
+						</div>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Blocked</TableHead>
+									<TableHead>Operation</TableHead>
+									<TableHead>Records kept</TableHead>
+									<TableHead>Holds</TableHead>
+									<TableHead>Requested by</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{blockedActions && blockedActions.length > 0 ? (
+									blockedActions.map((action) => (
+										<TableRow key={action.id}>
+											<TableCell>{formatDate(new Date(action.blockedAt), 'PPp')}</TableCell>
+											<TableCell>{operationLabels[action.operation] ?? action.operation}</TableCell>
+											<TableCell>{action.recordsBlocked}</TableCell>
+											<TableCell>
+												{action.holdIds
+													.map((id) => holds?.find((hold) => hold.id === id)?.name ?? id)
+													.join(', ')}
+											</TableCell>
+											<TableCell>{action.requestedBy ?? '-'}</TableCell>
+										</TableRow>
+									))
+								) : (
+									<TableRow>
+										<TableCell colSpan={5} className="h-24 text-center">
+											No actions were blocked by legal holds.
+										</TableCell>
+									</TableRow>
+								)}
+							</TableBody>
+						</Table>
+					)}
+				</TabsContent>
+			</Tabs>
+		</div>
+	)
+}
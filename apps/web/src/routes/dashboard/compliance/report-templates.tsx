@@ -1,117 +1,230 @@
-import { ComingSoon } from '@/components/pages/coming-soon'
-/**import { createColumns } from '@/components/templates/column'
-import { DataTable } from '@/components/templates/data-table'
-import ReportTemplateForm from '@/components/templates/form'
-import {
-	Breadcrumb,
-	BreadcrumbItem,
-	BreadcrumbLink,
-	BreadcrumbList,
-	BreadcrumbPage,
-	BreadcrumbSeparator,
-} from '@/components/ui/breadcrumb'
-import {
-	Dialog,
-	DialogContent,
-	DialogDescription,
-	DialogHeader,
-	DialogTitle,
-} from '@/components/ui/dialog'
+import { reportTypes } from '@/components/templates/data'
+import { ScheduleDialog } from '@/components/templates/schedule-dialog'
+import { TemplateEditor } from '@/components/templates/template-editor'
+import { TemplateVersions } from '@/components/templates/template-versions'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import { PageBreadcrumb } from '@/components/ui/page-breadcrumb'
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { formatDate } from '@/lib/date'
 import { trpc } from '@/utils/trpc'
-import { useQuery } from '@tanstack/react-query' */
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { createFileRoute } from '@tanstack/react-router'
+import { ArrowLeft, CalendarClock, Pencil, Plus } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
 
-/**import { useState } from 'react'
-
-import type { ReportTemplate, ReportTemplateData } from '@/types/report-templates'*/
+import type { TemplateContent } from '@/components/templates/template-editor'
 
 export const Route = createFileRoute('/dashboard/compliance/report-templates')({
 	component: RouteComponent,
 })
 
+// Template list, a new template, or an existing template by ID
+type View = { type: 'list' } | { type: 'new' } | { type: 'edit'; id: string }
+
+const reportTypeLabel = (value: string) =>
+	reportTypes.find((type) => type.value === value)?.label ?? value
+
 function RouteComponent() {
-	return <ComingSoon />
-}
-/**
-function RouteComponent() {
-	const [data, setData] = useState<ReportTemplate[] | ReportTemplateData[]>([])
-	const [editingTemplate, setEditingTemplate] = useState<ReportTemplateData | null>(null)
-	const [isDialogOpen, setIsDialogOpen] = useState(false)
-	const { data: templates, isLoading } = useQuery(trpc.templates.all.queryOptions({}))
-	const columns = createColumns()
+	const [view, setView] = useState<View>({ type: 'list' })
+	const [scheduling, setScheduling] = useState<{ id: string; name: string } | null>(null)
+	const queryClient = useQueryClient()
 
-	const handleCreate = (newRecord: ReportTemplateData) => {
-		setData([...data, newRecord])
-		setIsDialogOpen(false)
-	}
+	const { data: templates, isLoading } = useQuery(trpc.templates.all.queryOptions({}))
+	const { data: template, isLoading: isTemplateLoading } = useQuery({
+		...trpc.templates.id.queryOptions({ id: view.type === 'edit' ? view.id : '' }),
+		enabled: view.type === 'edit',
+	})
 
-	const handleUpdate = (updatedTemplate: ReportTemplate) => {
-		setData(data.map((record) => (record.id === updatedTemplate.id ? updatedTemplate : record)))
-		setIsDialogOpen(false)
-		setEditingTemplate(null)
-	}
+	const invalidateTemplates = () =>
+		Promise.all([
+			queryClient.invalidateQueries({ queryKey: trpc.templates.all.queryKey() }),
+			queryClient.invalidateQueries({ queryKey: trpc.templates.id.queryKey() }),
+			queryClient.invalidateQueries({ queryKey: trpc.templates.versions.queryKey() }),
+		])
 
-	const handleDelete = (id: string) => {
-		setData(templates.filter((record) => record.id !== id))
-	}
+	const createTemplate = useMutation(trpc.templates.create.mutationOptions())
+	const updateTemplate = useMutation(trpc.templates.update.mutationOptions())
 
-	const handleEdit = (record: ReportTemplate) => {
-		setEditingTemplate(record)
-		setIsDialogOpen(true)
+	const handleCreate = async (content: TemplateContent) => {
+		const result = await createTemplate.mutateAsync({ ...content, isActive: true })
+		await invalidateTemplates()
+		toast.success(`Template ${result.template.name} created`)
+		setView({ type: 'edit', id: result.template.id })
 	}
 
-	const openCreateDialog = () => {
-		setEditingTemplate(null)
-		setIsDialogOpen(true)
+	const handleUpdate = async (content: TemplateContent, changeNote?: string) => {
+		if (!template) return
+		const result = await updateTemplate.mutateAsync({
+			id: template.id,
+			expectedVersion: template.version,
+			changeNote,
+			template: content,
+		})
+		await invalidateTemplates()
+		toast.success(`Saved version ${result.template.version} of ${result.template.name}`)
 	}
 
 	return (
 		<div className="flex flex-1 flex-col gap-4 p-4">
-			<Breadcrumb>
-				<BreadcrumbList>
-					<BreadcrumbItem className="hidden md:block">
-						<BreadcrumbLink href="#">Compliance</BreadcrumbLink>
-					</BreadcrumbItem>
-					<BreadcrumbSeparator className="hidden md:block" />
-					<BreadcrumbItem>
-						<BreadcrumbPage>Report Templates</BreadcrumbPage>
-					</BreadcrumbItem>
-				</BreadcrumbList>
-			</Breadcrumb>
-			<Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-				<DialogContent>
-					<DialogHeader>
-						<DialogTitle>{editingTemplate ? 'Update' : 'Create New'}</DialogTitle>
-						<DialogDescription>
-							Please fill out the form below to{' '}
-							{editingTemplate ? 'update the report template' : 'create a new report template'}.
-						</DialogDescription>
-					</DialogHeader>
-					<div>
-						<ReportTemplateForm
-							onSubmit={editingTemplate ? handleUpdate : handleCreate}
-							initialData={editingTemplate}
-						/>
+			<PageBreadcrumb link="Compliance" page="Report Templates" />
+			{scheduling && (
+				<ScheduleDialog
+					template={scheduling}
+					open={!!scheduling}
+					onOpenChange={(open) => !open && setScheduling(null)}
+				/>
+			)}
+
+			{view.type === 'list' && (
+				<div className="min-h-[100vh] flex-1 space-y-4 rounded-xl md:min-h-min">
+					<div className="flex items-center justify-between">
+						<p className="text-muted-foreground text-sm">
+							Reusable report settings. Every change is kept as a new version.
+						</p>
+						<Button onClick={() => setView({ type: 'new' })}>
+							<Plus />
+							New Template
+						</Button>
 					</div>
-				</DialogContent>
-			</Dialog>
-			<div className="min-h-[100vh] flex-1 rounded-xl md:min-h-min">
-				{isLoading ? (
+					{isLoading ? (
+						<div className="flex flex-1 items-center justify-center">
+							<Spinner variant="bars" size={64} />
+						</div>
+					) : (
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Name</TableHead>
+									<TableHead>Type</TableHead>
+									<TableHead>Version</TableHead>
+									<TableHead>Tags</TableHead>
+									<TableHead>Updated</TableHead>
+									<TableHead />
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{templates && templates.length > 0 ? (
+									templates.map((item) => (
+										<TableRow key={item.id}>
+											<TableCell>
+												<div className="font-medium">{item.name}</div>
+												{item.description && (
+													<div className="text-muted-foreground text-xs">{item.description}</div>
+												)}
+											</TableCell>
+											<TableCell>{reportTypeLabel(item.reportType)}</TableCell>
+											<TableCell>{item.version}</TableCell>
+											<TableCell>
+												<div className="flex flex-wrap gap-1">
+													{item.tags.map((tag) => (
+														<Badge key={tag} variant="outline">
+															{tag}
+														</Badge>
+													))}
+												</div>
+											</TableCell>
+											<TableCell>{formatDate(new Date(item.updatedAt), 'PPp')}</TableCell>
+											<TableCell className="text-right">
+												<Button
+													variant="ghost"
+													size="sm"
+													onClick={() => setView({ type: 'edit', id: item.id })}
+												>
+													<Pencil />
+													Edit
+												</Button>
+												<Button
+													variant="ghost"
+													size="sm"
+													onClick={() => setScheduling({ id: item.id, name: item.name })}
+												>
+													<CalendarClock />
+													Schedule
+												</Button>
+											</TableCell>
+										</TableRow>
+									))
+								) : (
+									<TableRow>
+										<TableCell colSpan={6} className="h-24 text-center">
+											No report templates yet.
+										</TableCell>
+									</TableRow>
+								)}
+							</TableBody>
+						</Table>
+					)}
+				</div>
+			)}
+
+			{view.type === 'new' && (
+				<div className="space-y-4">
+					<Button variant="ghost" size="sm" onClick={() => setView({ type: 'list' })}>
+						<ArrowLeft />
+						Templates
+					</Button>
+					<TemplateEditor onSubmit={handleCreate} onCancel={() => setView({ type: 'list' })} />
+				</div>
+			)}
+
+			{view.type === 'edit' &&
+				(isTemplateLoading || !template ? (
 					<div className="flex flex-1 items-center justify-center">
-						<Spinner variant="bars" size={64} />
+						{isTemplateLoading ? (
+							<Spinner variant="bars" size={64} />
+						) : (
+							<p className="text-muted-foreground text-sm">Report template not found.</p>
+						)}
 					</div>
 				) : (
-					<DataTable
-						columns={columns}
-						data={templates}
-						onAdd={openCreateDialog}
-						onEdit={handleEdit}
-						onDelete={handleDelete}
-					/>
-				)}
-			</div>
+					<Tabs defaultValue="editor" className="flex-1">
+						<div className="flex flex-wrap items-center justify-between gap-2">
+							<div className="flex items-center gap-2">
+								<Button variant="ghost" size="sm" onClick={() => setView({ type: 'list' })}>
+									<ArrowLeft />
+									Templates
+								</Button>
+								<h2 className="font-semibold">{template.name}</h2>
+								<Badge variant="secondary">Version {template.version}</Badge>
+							</div>
+							<div className="flex items-center gap-2">
+								<TabsList>
+									<TabsTrigger value="editor">Editor</TabsTrigger>
+									<TabsTrigger value="versions">Versions</TabsTrigger>
+								</TabsList>
+								<Button
+									variant="outline"
+									onClick={() => setScheduling({ id: template.id, name: template.name })}
+								>
+									<CalendarClock />
+									Schedule
+								</Button>
+							</div>
+						</div>
+						<TabsContent value="editor">
+							{/* Remounted per version, so the form starts from the saved template */}
+							<TemplateEditor
+								key={`${template.id}-${template.version}`}
+								template={template}
+								onSubmit={handleUpdate}
+							/>
+						</TabsContent>
+						<TabsContent value="versions">
+							<TemplateVersions templateId={template.id} />
+						</TabsContent>
+					</Tabs>
+				))}
 		</div>
 	)
 }
- */
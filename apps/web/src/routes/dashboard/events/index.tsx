@@ -0,0 +1,225 @@
+import { createColumns } from '@/components/events/columns'
+import { EventDetailSheet } from '@/components/events/event-detail-sheet'
+import { EventList } from '@/components/events/event-list'
+import { FilterSidebar } from '@/components/events/filter-sidebar'
+import { Spinner } from '@/components/ui/kibo-ui/spinner'
+import { PageBreadcrumb } from '@/components/ui/page-breadcrumb'
+import { useDebounce } from '@/hooks/use-debounce'
+import { eventExplorerSearchParams } from '@/lib/searchParams'
+import { trpc, trpcClient } from '@/utils/trpc'
+import { keepPreviousData, useInfiniteQuery, useQuery } from '@tanstack/react-query'
+import { createFileRoute } from '@tanstack/react-router'
+import { getCoreRowModel, useReactTable } from '@tanstack/react-table'
+import { endOfDay, startOfDay } from 'date-fns'
+import { useQueryStates } from 'nuqs'
+import { useMemo } from 'react'
+
+import type { AuditEventRow } from '@/components/events/columns'
+import type { EventExplorerQuery } from '@/components/events/filter-sidebar'
+import type { ColumnFiltersState } from '@tanstack/react-table'
+
+export const Route = createFileRoute('/dashboard/events/')({
+	component: RouteComponent,
+})
+
+const PAGE_SIZE = 100
+
+/** URL state of each faceted column */
+const facetParams = {
+	status: 'statuses',
+	dataClassification: 'classifications',
+	action: 'actions',
+	targetResourceType: 'resourceTypes',
+} as const
+
+type FacetColumn = keyof typeof facetParams
+
+interface PageParam {
+	cursor?: string
+	offset: number
+}
+
+function RouteComponent() {
+	const [query, setQuery] = useQueryStates(eventExplorerSearchParams)
+	const columns = useMemo(() => createColumns(), [])
+
+	// Typing in the text filters updates the URL at once, and the search once typing pauses
+	const searchText = useDebounce(query.search.trim(), 300)
+	const principalId = useDebounce(query.principalId.trim(), 300)
+	const correlationId = useDebounce(query.correlationId.trim(), 300)
+
+	const dateRange = query.from
+		? {
+				startDate: startOfDay(query.from).toISOString(),
+				endDate: endOfDay(query.to ?? query.from).toISOString(),
+			}
+		: undefined
+	// Filters outside the facets, also used to count the facet values
+	const baseFilters = {
+		principalIds: principalId ? [principalId] : undefined,
+		correlationIds: correlationId ? [correlationId] : undefined,
+	}
+	const facetFilters = {
+		statuses: query.statuses.length ? query.statuses : undefined,
+		dataClassifications: query.classifications.length ? query.classifications : undefined,
+		actions: query.actions.length ? query.actions : undefined,
+		resourceTypes: query.resourceTypes.length ? query.resourceTypes : undefined,
+	}
+
+	// Text searches rank by relevance and page by offset, other queries page by timestamp cursor
+	const events = useInfiniteQuery({
+		queryKey: [
+			'events',
+			'explorer',
+			{ searchText, dateRange, baseFilters, facetFilters, verifiedOnly: query.verifiedOnly },
+		],
+		initialPageParam: { offset: 0 } as PageParam,
+		queryFn: ({ pageParam }) => {
+			const pagination = { limit: PAGE_SIZE, ...pageParam }
+			if (searchText) {
+				return trpcClient.events.advancedSearch.query({
+					query: {
+						searchText,
+						dateRanges: dateRange ? [{ field: 'timestamp', ...dateRange }] : undefined,
+						filters: {
+							...baseFilters,
+							...facetFilters,
+							hasIntegrityHash: query.verifiedOnly || undefined,
+						},
+					},
+					pagination,
+				})
+			}
+			return trpcClient.events.query.query({
+				filter: {
+					dateRange,
+					...baseFilters,
+					...facetFilters,
+					verifiedOnly: query.verifiedOnly || undefined,
+				},
+				pagination,
+				sort: { field: 'timestamp', direction: 'desc' },
+			})
+		},
+		getNextPageParam: (lastPage, _pages, lastPageParam): PageParam | undefined => {
+			if (!lastPage.pagination.hasNext) return undefined
+			return lastPage.pagination.nextCursor
+				? { cursor: lastPage.pagination.nextCursor, offset: 0 }
+				: { offset: lastPageParam.offset + PAGE_SIZE }
+		},
+		placeholderData: keepPreviousData,
+	})
+
+	// Counts per facet value over everything but the facets themselves
+	const { data: facetCounts } = useQuery({
+		...trpc.events.advancedSearch.queryOptions({
+			query: {
+				searchText: searchText || undefined,
+				dateRanges: dateRange ? [{ field: 'timestamp', ...dateRange }] : undefined,
+				filters: { ...baseFilters, hasIntegrityHash: query.verifiedOnly || undefined },
+				aggregations: (Object.keys(facetParams) as FacetColumn[]).map((column) => ({
+					field: '*',
+					type: 'count' as const,
+					groupBy: column,
+					limit: 50,
+				})),
+			},
+			pagination: { limit: 1 },
+		}),
+		placeholderData: keepPreviousData,
+	})
+
+	const facets = useMemo(() => {
+		const counts = new Map<string, Map<string, number>>()
+		for (const aggregation of facetCounts?.aggregations ?? []) {
+			counts.set(
+				aggregation.groupBy!,
+				new Map(
+					aggregation.buckets
+						.filter((bucket) => bucket.key !== null && bucket.key !== undefined)
+						.map((bucket) => [bucket.key!, bucket.count])
+				)
+			)
+		}
+		return counts
+	}, [facetCounts])
+
+	const rows = useMemo<AuditEventRow[]>(
+		() => events.data?.pages.flatMap((page) => page.events as AuditEventRow[]) ?? [],
+		[events.data]
+	)
+
+	const columnFilters = useMemo<ColumnFiltersState>(
+		() =>
+			(Object.entries(facetParams) as [FacetColumn, (typeof facetParams)[FacetColumn]][])
+				.filter(([, param]) => query[param].length > 0)
+				.map(([column, param]) => ({ id: column, value: query[param] })),
+		[query]
+	)
+
+	const table = useReactTable({
+		data: rows,
+		columns,
+		state: { columnFilters },
+		// Filtering happens on the server, the columns only hold the facet state
+		manualFiltering: true,
+		onColumnFiltersChange: (updater) => {
+			const next = typeof updater === 'function' ? updater(columnFilters) : updater
+			const values = (column: FacetColumn) =>
+				(next.find((filter) => filter.id === column)?.value as string[] | undefined) ?? []
+			setQuery({
+				statuses: values('status') as EventExplorerQuery['statuses'],
+				classifications: values('dataClassification') as EventExplorerQuery['classifications'],
+				actions: values('action'),
+				resourceTypes: values('targetResourceType'),
+			})
+		},
+		getCoreRowModel: getCoreRowModel(),
+		getFacetedUniqueValues: (_table, columnId) => () => facets.get(columnId) ?? new Map(),
+	})
+
+	const facetOptions = {
+		actions: [...new Set([...query.actions, ...(facets.get('action')?.keys() ?? [])])],
+		resourceTypes: [
+			...new Set([...query.resourceTypes, ...(facets.get('targetResourceType')?.keys() ?? [])]),
+		],
+	}
+	const total = events.data?.pages[0]?.pagination.total
+
+	return (
+		<div className="flex flex-1 flex-col gap-4 p-4">
+			<div className="flex items-center justify-between">
+				<PageBreadcrumb link="Events" page="Explorer" />
+				{total !== undefined && (
+					<span className="text-muted-foreground text-sm">
+						{rows.length} of {total} events
+					</span>
+				)}
+			</div>
+			<div className="flex flex-1 flex-col gap-4 lg:flex-row">
+				<FilterSidebar
+					table={table}
+					query={query}
+					onQueryChange={setQuery}
+					facetOptions={facetOptions}
+				/>
+				<div className="min-w-0 flex-1">
+					{events.isLoading ? (
+						<div className="flex flex-1 items-center justify-center">
+							<Spinner variant="bars" size={64} />
+						</div>
+					) : (
+						<EventList
+							table={table}
+							hasNextPage={events.hasNextPage}
+							isFetchingNextPage={events.isFetchingNextPage}
+							fetchNextPage={events.fetchNextPage}
+							onSelect={(event) => setQuery({ event: event.id })}
+						/>
+					)}
+				</div>
+			</div>
+			<EventDetailSheet eventId={query.event} onClose={() => setQuery({ event: null })} />
+		</div>
+	)
+}
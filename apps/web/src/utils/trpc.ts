@@ -5,8 +5,12 @@ import { createTRPCOptionsProxy } from '@trpc/tanstack-react-query'
 import { toast } from 'sonner'
 import superjson from 'superjson'
 
+import type { inferRouterInputs, inferRouterOutputs } from '@trpc/server'
 import type { AppRouter } from '../../../server/src/routers/index'
 
+export type RouterInputs = inferRouterInputs<AppRouter>
+export type RouterOutputs = inferRouterOutputs<AppRouter>
+
 export const queryClient = new QueryClient({
 	defaultOptions: {
 		queries: {
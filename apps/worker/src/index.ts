@@ -13,6 +13,7 @@ import {
 	CircuitBreakerHealthCheck,
 	ConfigurationManager,
 	ConsoleAlertHandler,
+	CryptoService,
 	DatabaseAlertHandler,
 	DatabaseErrorLogger,
 	DatabaseHealthCheck,
@@ -20,6 +21,8 @@ import {
 	DEFAULT_OBSERVABILITY_CONFIG,
 	DEFAULT_RELIABLE_PROCESSOR_CONFIG,
 	ErrorHandler,
+	fromTraceCarrier,
+	HashChainService,
 	HealthCheckService,
 	MonitoringService,
 	PerformanceTimer,
@@ -31,13 +34,7 @@ import {
 	ReliableEventProcessor,
 	trace,
 } from '@repo/audit'
-import {
-	AuditDbWithConfig,
-	auditLog as auditLogTableSchema,
-	EnhancedAuditDb,
-	errorAggregation,
-	errorLog,
-} from '@repo/audit-db'
+import { AuditDbWithConfig, EnhancedAuditDb, errorAggregation, errorLog } from '@repo/audit-db'
 import {
 	closeSharedRedisConnection,
 	getRedisConnectionStatus,
@@ -80,6 +77,9 @@ let dashboard: AuditMonitoringDashboard | undefined = undefined
 let errorHandler: ErrorHandler | undefined = undefined
 let databaseErrorLogger: DatabaseErrorLogger | undefined = undefined
 
+// Tamper-evident ledger
+let hashChainService: HashChainService | undefined = undefined
+
 // Simple healthcheck server for audit worker
 const app = new Hono()
 
@@ -357,6 +357,11 @@ async function main() {
 		errorHandler = new ErrorHandler(undefined, undefined, databaseErrorLogger)
 	}
 
+	// 4.1. Initialize the hash chain ledger used to persist events
+	if (!hashChainService) {
+		hashChainService = new HashChainService(db, new CryptoService(config.security))
+	}
+
 	// 5. Initialize monitoring and health check services
 	if (!databaseAlertHandler) {
 		databaseAlertHandler = new DatabaseAlertHandler(auditDbService)
@@ -372,7 +377,16 @@ async function main() {
 
 	// 5.1. Initialize observability services
 	if (!tracer) {
-		tracer = new AuditTracer(DEFAULT_OBSERVABILITY_CONFIG.tracing)
+		const { monitoring } = config.server
+		tracer = new AuditTracer({
+			...DEFAULT_OBSERVABILITY_CONFIG.tracing,
+			serviceName: 'audit-worker',
+			// Trace context is propagated either way, spans are only shipped when enabled
+			enabled: monitoring.enableTracing,
+			exporterType: monitoring.tracingExporter || 'otlp',
+			exporterEndpoint: monitoring.tracingEndpoint,
+			exporterHeaders: monitoring.tracingHeaders,
+		})
 	}
 	if (!enhancedMetricsCollector) {
 		enhancedMetricsCollector = new RedisEnhancedMetricsCollector(
@@ -403,12 +417,21 @@ async function main() {
 	}
 
 	// 6. Define the reliable event processor with monitoring integration
-	const processAuditEvent = async (eventData: AuditLogEvent): Promise<void> => {
+	const processAuditEvent = async ({
+		traceContext,
+		...eventData
+	}: AuditLogEvent): Promise<void> => {
 		const performanceTimer = new PerformanceTimer()
-		const span = tracer!.startSpan('process_audit_event')
+		// Resume the trace of the request that logged the event
+		const span = tracer!.startSpan(
+			'process_audit_event',
+			fromTraceCarrier(traceContext) ?? undefined
+		)
 
 		try {
 			span.setTags({
+				'span.kind': 'consumer',
+				'audit.correlationId': eventData.correlationId,
 				'audit.action': eventData.action,
 				'audit.organizationId': eventData.organizationId,
 				'audit.principalId': eventData.principalId,
@@ -454,6 +477,8 @@ async function main() {
 				outcomeDescription,
 				hash,
 				hashAlgorithm,
+				previousHash: _previousHash, // Chain links are assigned by the ledger, never by the producer
+				chainHash: _chainHash,
 				eventVersion,
 				correlationId,
 				dataClassification,
@@ -463,27 +488,37 @@ async function main() {
 				...additionalDetails // Captures all other properties including practitioner-specific fields
 			} = eventData
 
+			// Append to the organization's hash chain
 			// This will throw an error if database operation fails, which will be caught by the retry mechanism
-			await db.insert(auditLogTableSchema).values({
-				timestamp, // This comes from the event, should be an ISO string
-				ttl,
-				principalId,
-				organizationId,
-				action,
-				targetResourceType,
-				targetResourceId,
-				status,
-				outcomeDescription,
-				hash,
-				hashAlgorithm,
-				eventVersion,
-				correlationId,
-				dataClassification,
-				retentionPolicy,
-				processingLatency: processingLatency || Math.floor(performanceTimer.getCurrentDuration()),
-				archivedAt,
-				details: Object.keys(additionalDetails).length > 0 ? additionalDetails : null,
-			})
+			const storageSpan = tracer!.createChildSpan(span, 'audit_log.insert')
+			storageSpan.setTags({ 'span.kind': 'client', 'db.system': 'postgresql' })
+			try {
+				await hashChainService!.appendEvent({
+					timestamp, // This comes from the event, should be an ISO string
+					ttl,
+					principalId,
+					organizationId,
+					action,
+					targetResourceType,
+					targetResourceId,
+					status,
+					outcomeDescription,
+					hash,
+					hashAlgorithm,
+					eventVersion,
+					correlationId,
+					dataClassification,
+					retentionPolicy,
+					processingLatency: processingLatency || Math.floor(performanceTimer.getCurrentDuration()),
+					archivedAt,
+					details: Object.keys(additionalDetails).length > 0 ? additionalDetails : null,
+				})
+			} catch (error) {
+				storageSpan.setStatus('ERROR', error instanceof Error ? error.message : String(error))
+				throw error
+			} finally {
+				tracer!.finishSpan(storageSpan)
+			}
 
 			const storageTime = storageTimer.stop()
 			const totalTime = performanceTimer.stop()
@@ -659,6 +694,7 @@ async function main() {
 		if (reliableProcessor) {
 			await reliableProcessor.stop()
 		}
+		await tracer?.shutdown()
 		await closeSharedRedisConnection() // Use client's close function
 		await auditDbService?.end()
 		logger.info('🚪 Reliable processor, Postgres and Redis connections closed. Exiting.')
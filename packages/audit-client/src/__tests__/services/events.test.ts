@@ -173,6 +173,117 @@ describe('EventsService', () => {
 		})
 	})
 
+	describe('query', () => {
+		const mockPage: PaginatedAuditEvents = {
+			events: [
+				{
+					id: '5f0c3a52-6b8e-4d7a-9c1e-2f4b6d8a0c13',
+					timestamp: '2023-10-26T10:30:00.000Z',
+					action: 'user.login',
+					targetResourceType: 'User',
+					principalId: 'user-123',
+					organizationId: 'org-456',
+					status: 'success',
+					dataClassification: 'INTERNAL',
+				},
+			],
+			pagination: {
+				total: 120,
+				limit: 1,
+				offset: 0,
+				hasNext: true,
+				hasPrevious: true,
+				nextCursor: 'eyJ0IjoiMjAyMy0xMC0yNlQxMDozMDowMFoiLCJpIjo3ODksImQiOiJkZXNjIn0',
+			},
+		}
+
+		it('should send the cursor instead of the offset', async () => {
+			mockFetch.mockResolvedValueOnce(createMockResponse(mockPage))
+
+			const params: QueryAuditEventsParams = {
+				pagination: { limit: 1, offset: 40, cursor: 'previous-page-cursor' },
+				sort: { field: 'timestamp', direction: 'desc' },
+			}
+			const result = await eventsService.query(params)
+
+			const url = new URL(mockFetch.mock.calls[0][0])
+			expect(url.searchParams.get('cursor')).toBe('previous-page-cursor')
+			expect(url.searchParams.has('offset')).toBe(false)
+			expect(result.pagination.nextCursor).toBe(mockPage.pagination.nextCursor)
+		})
+
+		it('should keep offset paging without a cursor', async () => {
+			mockFetch.mockResolvedValueOnce(createMockResponse(mockPage))
+
+			await eventsService.query({ pagination: { limit: 1, offset: 40 } })
+
+			const url = new URL(mockFetch.mock.calls[0][0])
+			expect(url.searchParams.get('offset')).toBe('40')
+			expect(url.searchParams.has('cursor')).toBe(false)
+		})
+	})
+
+	describe('export', () => {
+		it('should accept the queued export job returned by the server', async () => {
+			const mockResponse: ExportResult = {
+				exportId: '0b6f6a9e-3c1d-4f6b-9a8e-5d2c7e1f4a90',
+				recordCount: 0,
+				dataSize: 0,
+				format: 'csv',
+				exportTimestamp: '2023-10-26T10:30:00.123Z',
+				status: 'pending',
+				progress: 0,
+				metadata: {
+					compression: 'gzip',
+				},
+			}
+
+			mockFetch.mockResolvedValueOnce(createMockResponse(mockResponse, 202))
+
+			const params: ExportEventsParams = {
+				format: 'csv',
+				includeMetadata: true,
+				compression: 'gzip',
+				chunkSize: 10000,
+				includeHeaders: true,
+			}
+			const result = await eventsService.export(params)
+
+			expect(result).toEqual(mockResponse)
+			expect(mockFetch).toHaveBeenCalledWith(
+				'https://api.example.com/api/v1/audit/events/export',
+				expect.objectContaining({ method: 'POST' })
+			)
+		})
+
+		it('should reject an export result without a job id', async () => {
+			mockFetch.mockResolvedValueOnce(
+				createMockResponse(
+					{
+						exportId: 'not-a-job-id',
+						recordCount: 0,
+						dataSize: 0,
+						format: 'csv',
+						exportTimestamp: '2023-10-26 10:30:00.123+00',
+						status: 'pending',
+						progress: 0,
+					},
+					202
+				)
+			)
+
+			await expect(
+				eventsService.export({
+					format: 'csv',
+					includeMetadata: true,
+					compression: 'gzip',
+					chunkSize: 10000,
+					includeHeaders: true,
+				})
+			).rejects.toThrow('Invalid export result from server')
+		})
+	})
+
 	describe('subscribe', () => {
 		it('should create a real-time event subscription', () => {
 			const subscriptionParams: SubscriptionParams = {
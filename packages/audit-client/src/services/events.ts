@@ -156,7 +156,10 @@ export interface QueryAuditEventsParams {
 	}
 	pagination?: {
 		limit?: number
+		/** Legacy offset paging, ignored when a cursor is given */
 		offset?: number
+		/** nextCursor of the previous page */
+		cursor?: string
 	}
 	sort?: {
 		field: 'timestamp' | 'status' | 'action'
@@ -175,6 +178,8 @@ export interface PaginatedAuditEvents {
 		offset: number
 		hasNext: boolean
 		hasPrevious: boolean
+		/** Cursor of the next page, null on the last page; only when sorted by timestamp */
+		nextCursor?: string | null
 	}
 	metadata?: {
 		queryTime: number
@@ -626,7 +631,9 @@ export class EventsService extends BaseResource {
 		if (validatedParams.pagination?.limit !== undefined) {
 			queryParams.limit = validatedParams.pagination.limit.toString()
 		}
-		if (validatedParams.pagination?.offset !== undefined) {
+		if (validatedParams.pagination?.cursor) {
+			queryParams.cursor = validatedParams.pagination.cursor
+		} else if (validatedParams.pagination?.offset !== undefined) {
 			queryParams.offset = validatedParams.pagination.offset.toString()
 		}
 
@@ -847,14 +854,15 @@ export class EventsService extends BaseResource {
 	/**
 	 * Download an exported audit events file
 	 *
+	 * The file is downloaded in the format the export was created with.
+	 *
 	 * @param exportId - The export ID from a previous export request
-	 * @param format - The desired download format
+	 * @param _format - Deprecated and ignored, kept for existing callers
 	 * @returns Promise resolving to the file blob
 	 */
-	async downloadExport(exportId: string, format: 'json' | 'csv' | 'xml' = 'json'): Promise<Blob> {
+	async downloadExport(exportId: string, _format?: 'json' | 'csv' | 'xml'): Promise<Blob> {
 		return this.request<Blob>(`/audit/events/exports/${exportId}/download`, {
 			method: 'GET',
-			query: { format },
 			responseType: 'blob',
 		})
 	}
@@ -867,7 +875,7 @@ export class EventsService extends BaseResource {
 	 */
 	async getExportStatus(exportId: string): Promise<{
 		id: string
-		status: 'pending' | 'processing' | 'completed' | 'failed'
+		status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'expired'
 		progress?: number
 		recordCount?: number
 		error?: string
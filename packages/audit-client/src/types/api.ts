@@ -180,7 +180,10 @@ export type QueryFilter = z.infer<typeof QueryFilterSchema>
  */
 export const QueryAuditEventsParamsSchema = z.object({
 	filter: QueryFilterSchema.optional(),
-	pagination: PaginationParamsSchema.optional(),
+	pagination: PaginationParamsSchema.extend({
+		// Opaque cursor from a previous page; offset is only used without one
+		cursor: z.string().min(1).optional(),
+	}).optional(),
 	sort: SortParamsSchema.optional(),
 })
 export type QueryAuditEventsParams = z.infer<typeof QueryAuditEventsParamsSchema>
@@ -190,7 +193,9 @@ export type QueryAuditEventsParams = z.infer<typeof QueryAuditEventsParamsSchema
  */
 export const PaginatedAuditEventsSchema = z.object({
 	events: z.array(AuditEventSchema),
-	pagination: PaginationMetadataSchema,
+	pagination: PaginationMetadataSchema.extend({
+		nextCursor: z.string().nullable().optional(),
+	}),
 	metadata: z
 		.object({
 			queryTime: z.number().min(0),
@@ -337,7 +342,7 @@ export const ExportResultSchema = z.object({
 	exportTimestamp: z.string().datetime(),
 	downloadUrl: z.string().url().optional(),
 	expiresAt: z.string().datetime().optional(),
-	status: z.enum(['pending', 'processing', 'completed', 'failed']),
+	status: z.enum(['pending', 'processing', 'completed', 'failed', 'cancelled', 'expired']),
 	progress: z.number().min(0).max(100).optional(),
 	metadata: z
 		.object({
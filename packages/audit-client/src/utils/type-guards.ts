@@ -501,7 +501,8 @@ export function isPaginatedAuditEvents(value: unknown): value is PaginatedAuditE
 		isPositiveNumber(paginated.pagination.limit) &&
 		isNonNegativeNumber(paginated.pagination.offset) &&
 		isBoolean(paginated.pagination.hasNext) &&
-		isBoolean(paginated.pagination.hasPrevious)
+		isBoolean(paginated.pagination.hasPrevious) &&
+		(paginated.pagination.nextCursor == null || isNonEmptyString(paginated.pagination.nextCursor))
 	)
 }
 
@@ -530,7 +531,7 @@ export function isExportResult(value: unknown): value is ExportResult {
 
 	const result = value as any
 	return (
-		startsWith(result.exportId, 'export-') &&
+		isUUID(result.exportId) &&
 		isNonNegativeNumber(result.recordCount) &&
 		isNonNegativeNumber(result.dataSize) &&
 		isNonEmptyString(result.format) &&
@@ -0,0 +1,4 @@
+ALTER TABLE "audit_log" ADD COLUMN "previous_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "audit_log" ADD COLUMN "chain_hash" varchar(64);--> statement-breakpoint
+CREATE INDEX "audit_log_organization_chain_idx" ON "audit_log" USING btree ("organization_id","id");--> statement-breakpoint
+CREATE INDEX "audit_log_chain_hash_idx" ON "audit_log" USING btree ("chain_hash");
\ No newline at end of file
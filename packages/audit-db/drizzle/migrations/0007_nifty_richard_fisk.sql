@@ -0,0 +1,17 @@
+CREATE TABLE "audit_merkle_checkpoint" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" varchar(255) NOT NULL,
+	"checkpoint_date" date NOT NULL,
+	"merkle_root" varchar(64) NOT NULL,
+	"leaf_count" integer NOT NULL,
+	"first_event_id" integer NOT NULL,
+	"last_event_id" integer NOT NULL,
+	"signature" text NOT NULL,
+	"signature_algorithm" varchar(50) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_by" varchar(255)
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "audit_merkle_checkpoint_org_date_unique" ON "audit_merkle_checkpoint" USING btree ("organization_id","checkpoint_date");--> statement-breakpoint
+CREATE INDEX "audit_merkle_checkpoint_checkpoint_date_idx" ON "audit_merkle_checkpoint" USING btree ("checkpoint_date");--> statement-breakpoint
+CREATE INDEX "audit_merkle_checkpoint_merkle_root_idx" ON "audit_merkle_checkpoint" USING btree ("merkle_root");
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE "audit_export_job" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(255) NOT NULL,
+	"requested_by" varchar(255) NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"format" varchar(20) NOT NULL,
+	"compression" varchar(20) DEFAULT 'none' NOT NULL,
+	"include_metadata" boolean DEFAULT true NOT NULL,
+	"filter" jsonb NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"total_records" integer,
+	"record_count" integer,
+	"size" bigint,
+	"checksum" varchar(100),
+	"filename" varchar(255),
+	"content_type" varchar(100),
+	"storage_key" text,
+	"error" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"started_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"expires_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE INDEX "audit_export_job_organization_id_idx" ON "audit_export_job" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "audit_export_job_status_idx" ON "audit_export_job" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "audit_export_job_expires_at_idx" ON "audit_export_job" USING btree ("expires_at");--> statement-breakpoint
+CREATE INDEX "audit_export_job_org_created_at_idx" ON "audit_export_job" USING btree ("organization_id","created_at");
\ No newline at end of file
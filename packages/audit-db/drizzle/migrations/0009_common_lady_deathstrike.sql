@@ -0,0 +1 @@
+CREATE INDEX "audit_log_search_idx" ON "audit_log" USING gin ((setweight(to_tsvector('english', coalesce(action, '') || ' ' || replace(coalesce(action, ''), '.', ' ')), 'A') || setweight(to_tsvector('english', coalesce(principal_id, '') || ' ' || coalesce(target_resource_id, '')), 'B') || setweight(to_tsvector('english', coalesce(outcome_description, '')), 'C') || setweight(jsonb_to_tsvector('english', coalesce(details, '{}'::jsonb), '["string"]'), 'D')));
\ No newline at end of file
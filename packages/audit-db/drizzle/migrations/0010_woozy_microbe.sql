@@ -0,0 +1 @@
+CREATE INDEX "audit_log_organization_timestamp_id_idx" ON "audit_log" USING btree ("organization_id","timestamp","id");
\ No newline at end of file
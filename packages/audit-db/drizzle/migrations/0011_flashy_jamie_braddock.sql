@@ -0,0 +1,35 @@
+CREATE TABLE "alert_deliveries" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"alert_id" varchar(255) NOT NULL,
+	"organization_id" varchar(255) NOT NULL,
+	"rule_id" varchar(255),
+	"channel_type" varchar(20) NOT NULL,
+	"channel_name" varchar(255) NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"response_code" integer,
+	"response_time" integer,
+	"error" text,
+	"attempted_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "alert_routing_rules" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(255) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"severities" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"types" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"channel" jsonb NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_by" varchar(255) NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_by" varchar(255)
+);
+--> statement-breakpoint
+ALTER TABLE "alert_deliveries" ADD CONSTRAINT "alert_deliveries_alert_id_alerts_id_fk" FOREIGN KEY ("alert_id") REFERENCES "public"."alerts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "alert_deliveries_alert_id_idx" ON "alert_deliveries" USING btree ("alert_id");--> statement-breakpoint
+CREATE INDEX "alert_deliveries_rule_id_idx" ON "alert_deliveries" USING btree ("rule_id");--> statement-breakpoint
+CREATE INDEX "alert_deliveries_org_attempted_at_idx" ON "alert_deliveries" USING btree ("organization_id","attempted_at");--> statement-breakpoint
+CREATE INDEX "alert_deliveries_org_status_idx" ON "alert_deliveries" USING btree ("organization_id","status");--> statement-breakpoint
+CREATE INDEX "alert_routing_rules_organization_id_idx" ON "alert_routing_rules" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "alert_routing_rules_org_enabled_idx" ON "alert_routing_rules" USING btree ("organization_id","enabled");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "archive_storage" ALTER COLUMN "data" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "archive_storage" ADD COLUMN "storage_provider" varchar(20);--> statement-breakpoint
+ALTER TABLE "archive_storage" ADD COLUMN "storage_key" varchar(255);--> statement-breakpoint
+CREATE INDEX "archive_storage_storage_key_idx" ON "archive_storage" USING btree ("storage_key");
\ No newline at end of file
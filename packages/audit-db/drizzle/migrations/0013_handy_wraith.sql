@@ -0,0 +1,36 @@
+CREATE TABLE "legal_hold" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(255) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"reason" text NOT NULL,
+	"custodian" varchar(255) NOT NULL,
+	"case_reference" varchar(255),
+	"principal_id" varchar(255),
+	"target_resource_type" varchar(255),
+	"target_resource_id" varchar(255),
+	"start_date" timestamp with time zone,
+	"end_date" timestamp with time zone,
+	"status" varchar(20) DEFAULT 'active' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_by" varchar(255) NOT NULL,
+	"released_at" timestamp with time zone,
+	"released_by" varchar(255),
+	"release_reason" text
+);
+--> statement-breakpoint
+CREATE TABLE "legal_hold_blocked_action" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" varchar(255),
+	"operation" varchar(100) NOT NULL,
+	"hold_ids" jsonb NOT NULL,
+	"records_blocked" integer NOT NULL,
+	"requested_by" varchar(255),
+	"details" jsonb,
+	"blocked_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "legal_hold_organization_id_idx" ON "legal_hold" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "legal_hold_org_status_idx" ON "legal_hold" USING btree ("organization_id","status");--> statement-breakpoint
+CREATE INDEX "legal_hold_principal_id_idx" ON "legal_hold" USING btree ("principal_id");--> statement-breakpoint
+CREATE INDEX "legal_hold_blocked_action_org_blocked_at_idx" ON "legal_hold_blocked_action" USING btree ("organization_id","blocked_at");--> statement-breakpoint
+CREATE INDEX "legal_hold_blocked_action_operation_idx" ON "legal_hold_blocked_action" USING btree ("operation");
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE "pseudonym_vault" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"pseudonym_id" varchar(255) NOT NULL,
+	"strategy" varchar(20) NOT NULL,
+	"lookup_hash" varchar(64) NOT NULL,
+	"field" varchar(255) NOT NULL,
+	"encrypted_value" text NOT NULL,
+	"encryption" jsonb NOT NULL,
+	"organization_id" varchar(255),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_by" varchar(255) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "reidentification_request" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(255) NOT NULL,
+	"pseudonym_id" varchar(255) NOT NULL,
+	"legal_basis" varchar(100) NOT NULL,
+	"justification" text NOT NULL,
+	"case_reference" varchar(255),
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"required_approvals" integer DEFAULT 2 NOT NULL,
+	"approvals" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"requested_by" varchar(255) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"rejected_by" varchar(255),
+	"rejected_at" timestamp with time zone,
+	"rejection_reason" text,
+	"completed_by" varchar(255),
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "pseudonym_vault_pseudonym_id_unique" ON "pseudonym_vault" USING btree ("pseudonym_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "pseudonym_vault_lookup_hash_unique" ON "pseudonym_vault" USING btree ("lookup_hash");--> statement-breakpoint
+CREATE INDEX "reidentification_request_org_status_idx" ON "reidentification_request" USING btree ("organization_id","status");--> statement-breakpoint
+CREATE INDEX "reidentification_request_pseudonym_id_idx" ON "reidentification_request" USING btree ("pseudonym_id");
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE "data_subject_request" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"organization_id" varchar(255) NOT NULL,
+	"request_type" varchar(32) NOT NULL,
+	"principal_id" varchar(255) NOT NULL,
+	"subject_name" varchar(255),
+	"subject_email" varchar(255),
+	"description" text,
+	"status" varchar(32) DEFAULT 'received' NOT NULL,
+	"received_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"due_at" timestamp with time zone NOT NULL,
+	"extended_at" timestamp with time zone,
+	"extension_reason" text,
+	"verification_method" varchar(32),
+	"verification_notes" text,
+	"verified_by" varchar(255),
+	"verified_at" timestamp with time zone,
+	"result" jsonb,
+	"last_error" text,
+	"completed_by" varchar(255),
+	"completed_at" timestamp with time zone,
+	"rejected_by" varchar(255),
+	"rejected_at" timestamp with time zone,
+	"rejection_reason" text,
+	"created_by" varchar(255) NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "data_subject_request_org_status_idx" ON "data_subject_request" USING btree ("organization_id","status");--> statement-breakpoint
+CREATE INDEX "data_subject_request_due_at_idx" ON "data_subject_request" USING btree ("due_at");--> statement-breakpoint
+CREATE INDEX "data_subject_request_principal_id_idx" ON "data_subject_request" USING btree ("principal_id");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "audit_export_job" ADD COLUMN "columns" jsonb;--> statement-breakpoint
+ALTER TABLE "audit_export_job" ADD COLUMN "encryption" jsonb;--> statement-breakpoint
+ALTER TABLE "audit_export_job" ADD COLUMN "delivery" jsonb;
\ No newline at end of file
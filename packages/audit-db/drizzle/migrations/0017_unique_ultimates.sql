@@ -0,0 +1,18 @@
+CREATE TABLE "report_template_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"template_id" varchar(255) NOT NULL,
+	"organization_id" varchar(255) NOT NULL,
+	"version" integer NOT NULL,
+	"content" jsonb NOT NULL,
+	"change_note" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_by" varchar(255) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "report_templates" ADD COLUMN "columns" jsonb;--> statement-breakpoint
+ALTER TABLE "report_templates" ADD COLUMN "group_by" varchar(50);--> statement-breakpoint
+ALTER TABLE "report_templates" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "report_template_versions" ADD CONSTRAINT "report_template_versions_template_id_report_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."report_templates"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "report_template_versions_template_version_unique" ON "report_template_versions" USING btree ("template_id","version");--> statement-breakpoint
+CREATE INDEX "report_template_versions_organization_id_idx" ON "report_template_versions" USING btree ("organization_id");--> statement-breakpoint
+INSERT INTO "report_template_versions" ("template_id", "organization_id", "version", "content", "created_at", "created_by") SELECT "id", "organization_id", 1, jsonb_build_object('name', "name", 'description', "description", 'reportType', "report_type", 'defaultCriteria', "default_criteria", 'defaultFormat', "default_format", 'defaultExportConfig', "default_export_config", 'tags', "tags"), "created_at", "created_by" FROM "report_templates";
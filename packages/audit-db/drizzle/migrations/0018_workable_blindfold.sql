@@ -0,0 +1,2 @@
+DROP INDEX "pseudonym_vault_lookup_hash_unique";--> statement-breakpoint
+ALTER TABLE "pseudonym_vault" ADD CONSTRAINT "pseudonym_vault_org_lookup_hash_unique" UNIQUE NULLS NOT DISTINCT("organization_id","lookup_hash");
\ No newline at end of file
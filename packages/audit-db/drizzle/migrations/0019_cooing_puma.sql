@@ -0,0 +1,2 @@
+-- Derived export keys are now wrapped by the KMS: drop the ones stored in clear, their jobs fail
+UPDATE "audit_export_job" SET "encryption" = "encryption" - 'key' WHERE "encryption" ? 'key';
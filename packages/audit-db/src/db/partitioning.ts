@@ -5,6 +5,8 @@
 
 import { sql } from 'drizzle-orm'
 
+import { AUDIT_LOG_SEARCH_VECTOR } from './schema.js'
+
 import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
 import type * as schema from './schema.js'
 
@@ -104,6 +106,7 @@ export class DatabasePartitionManager {
 
 			// Composite indexes for common query patterns
 			`CREATE INDEX IF NOT EXISTS ${partitionName}_org_timestamp_idx ON ${partitionName} (organization_id, timestamp)`,
+			`CREATE INDEX IF NOT EXISTS ${partitionName}_org_timestamp_id_idx ON ${partitionName} (organization_id, timestamp, id)`,
 			`CREATE INDEX IF NOT EXISTS ${partitionName}_principal_action_idx ON ${partitionName} (principal_id, action)`,
 			`CREATE INDEX IF NOT EXISTS ${partitionName}_classification_retention_idx ON ${partitionName} (data_classification, retention_policy)`,
 			`CREATE INDEX IF NOT EXISTS ${partitionName}_resource_type_id_idx ON ${partitionName} (target_resource_type, target_resource_id)`,
@@ -113,6 +116,9 @@ export class DatabasePartitionManager {
 
 			// JSONB indexes for details column
 			`CREATE INDEX IF NOT EXISTS ${partitionName}_details_gin_idx ON ${partitionName} USING gin (details)`,
+
+			// Full-text search index, matching audit_log_search_idx
+			`CREATE INDEX IF NOT EXISTS ${partitionName}_search_idx ON ${partitionName} USING gin (${AUDIT_LOG_SEARCH_VECTOR})`,
 		]
 
 		for (const indexSql of indexes) {
@@ -176,6 +182,8 @@ export class DatabasePartitionManager {
 
 	/**
 	 * Drop old partitions based on retention policy
+	 * Partitions holding events covered by an active legal hold are kept, and the
+	 * blocked drop is recorded in legal_hold_blocked_action.
 	 */
 	async dropExpiredPartitions(retentionDays: number): Promise<string[]> {
 		const cutoffDate = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
@@ -203,6 +211,9 @@ export class DatabasePartitionManager {
 			if (dateMatch) {
 				const partitionEndDate = new Date(dateMatch[2])
 				if (partitionEndDate < cutoffDate) {
+					if (await this.isPartitionHeld(tableName)) {
+						continue
+					}
 					await this.db.execute(sql`DROP TABLE IF EXISTS ${sql.identifier(tableName)}`)
 					droppedPartitions.push(tableName)
 				}
@@ -212,6 +223,45 @@ export class DatabasePartitionManager {
 		return droppedPartitions
 	}
 
+	/**
+	 * Whether a partition holds events covered by an active legal hold
+	 * Records the blocked drop for every organization with held events.
+	 */
+	private async isPartitionHeld(tableName: string): Promise<boolean> {
+		const held = await this.db.execute(sql`
+			SELECT
+				h.organization_id,
+				jsonb_agg(DISTINCT h.id) as hold_ids,
+				count(DISTINCT e.id) as records_blocked
+			FROM ${sql.identifier(tableName)} e
+			JOIN legal_hold h ON h.status = 'active'
+				AND h.organization_id = e.organization_id
+				AND (h.principal_id IS NULL OR h.principal_id = e.principal_id)
+				AND (h.target_resource_type IS NULL OR h.target_resource_type = e.target_resource_type)
+				AND (h.target_resource_id IS NULL OR h.target_resource_id = e.target_resource_id)
+				AND (h.start_date IS NULL OR e.timestamp >= h.start_date)
+				AND (h.end_date IS NULL OR e.timestamp <= h.end_date)
+			GROUP BY h.organization_id
+		`)
+
+		for (const row of held) {
+			await this.db.execute(sql`
+				INSERT INTO legal_hold_blocked_action
+					(organization_id, operation, hold_ids, records_blocked, requested_by, details)
+				VALUES (
+					${row.organization_id},
+					'partition.drop',
+					${JSON.stringify(row.hold_ids)}::jsonb,
+					${Number(row.records_blocked)},
+					'system',
+					${JSON.stringify({ partition: tableName })}::jsonb
+				)
+			`)
+		}
+
+		return held.length > 0
+	}
+
 	/**
 	 * Get partition information and statistics
 	 */
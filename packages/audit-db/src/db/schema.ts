@@ -48,6 +48,9 @@
 
 import { sql } from 'drizzle-orm'
 import {
+	bigint,
+	boolean,
+	date,
 	index,
 	integer,
 	jsonb,
@@ -55,6 +58,7 @@ import {
 	serial,
 	text,
 	timestamp,
+	unique,
 	uniqueIndex,
 	varchar,
 } from 'drizzle-orm/pg-core'
@@ -74,6 +78,21 @@ const DEFAULT_VALIDATION_CONFIG = {
 	allowedEventVersions: ['1.0', '1.1', '2.0'],
 }
 
+/**
+ * Full-text search document of an audit event, weighted by field:
+ * A action, B principal and target resource ids, C outcome description, D string values of details.
+ * It is indexed as an expression rather than stored, so rows read from audit_log do not carry it.
+ * Queries must use this exact expression to be served by audit_log_search_idx.
+ */
+export const AUDIT_LOG_SEARCH_VECTOR = `(setweight(to_tsvector('english', coalesce(action, '') || ' ' || replace(coalesce(action, ''), '.', ' ')), 'A') || setweight(to_tsvector('english', coalesce(principal_id, '') || ' ' || coalesce(target_resource_id, '')), 'B') || setweight(to_tsvector('english', coalesce(outcome_description, '')), 'C') || setweight(jsonb_to_tsvector('english', coalesce(details, '{}'::jsonb), '["string"]'), 'D'))`
+
+export const auditLogSearchVector = sql.raw(AUDIT_LOG_SEARCH_VECTOR)
+
+/**
+ * Text of an audit event that search snippets are cut from
+ */
+export const auditLogSearchText = sql`concat_ws(' | ', action, outcome_description, target_resource_id, principal_id, details::text)`
+
 export const auditLog = pgTable(
 	'audit_log',
 	{
@@ -97,6 +116,10 @@ export const auditLog = pgTable(
 		// Cryptographic hash for immutability (Requirement 7.4)
 		hash: varchar('hash', { length: 64 }), // SHA-256 hash
 
+		// Per-organization hash chain for tamper evidence
+		previousHash: varchar('previous_hash', { length: 64 }), // chain hash of the preceding event
+		chainHash: varchar('chain_hash', { length: 64 }), // SHA-256(previous_hash:hash)
+
 		// Enhanced compliance fields (Requirements 1.1, 4.3, 7.1, 7.2)
 		hashAlgorithm: varchar('hash_algorithm', { length: 50 }).default('SHA-256'),
 		eventVersion: varchar('event_version', { length: 20 }).default('1.0'),
@@ -138,6 +161,20 @@ export const auditLog = pgTable(
 				table.retentionPolicy
 			),
 			index('audit_log_resource_type_id_idx').on(table.targetResourceType, table.targetResourceId),
+
+			// Hash chain indexes for appending and verifying the per-organization ledger
+			index('audit_log_organization_chain_idx').on(table.organizationId, table.id),
+			index('audit_log_chain_hash_idx').on(table.chainHash),
+
+			// Keyset pagination: seek to (timestamp, id) within an organization
+			index('audit_log_organization_timestamp_id_idx').on(
+				table.organizationId,
+				table.timestamp,
+				table.id
+			),
+
+			// Full-text search
+			index('audit_log_search_idx').using('gin', auditLogSearchVector),
 		]
 	}
 )
@@ -199,7 +236,7 @@ export const auditIntegrityLog = pgTable(
 		})
 			.notNull()
 			.defaultNow(),
-		verificationStatus: varchar('verification_status', { length: 20 }).notNull(), // 'success', 'failure', 'tampered'
+		verificationStatus: varchar('verification_status', { length: 20 }).notNull(), // 'success', 'failure', 'tampered', 'removed' (hash chain tombstone)
 		verificationDetails: jsonb('verification_details'), // Additional context about verification
 		verifiedBy: varchar('verified_by', { length: 255 }), // System or user that performed verification
 		hashVerified: varchar('hash_verified', { length: 64 }), // The hash that was verified
@@ -215,6 +252,40 @@ export const auditIntegrityLog = pgTable(
 	}
 )
 
+/**
+ * Daily Merkle checkpoints over each organization's audit events
+ * The signed root attests to the set of events stored for a day, and inclusion
+ * proofs let a third party check a single event against it
+ */
+export const auditMerkleCheckpoint = pgTable(
+	'audit_merkle_checkpoint',
+	{
+		id: serial('id').primaryKey(),
+		organizationId: varchar('organization_id', { length: 255 }).notNull(),
+		checkpointDate: date('checkpoint_date', { mode: 'string' }).notNull(), // UTC day covered (YYYY-MM-DD)
+		merkleRoot: varchar('merkle_root', { length: 64 }).notNull(),
+		leafCount: integer('leaf_count').notNull(),
+		firstEventId: integer('first_event_id').notNull(),
+		lastEventId: integer('last_event_id').notNull(),
+		signature: text('signature').notNull(), // Signature over the checkpoint payload
+		signatureAlgorithm: varchar('signature_algorithm', { length: 50 }).notNull(),
+		createdAt: timestamp('created_at', { withTimezone: true, mode: 'string' })
+			.notNull()
+			.defaultNow(),
+		createdBy: varchar('created_by', { length: 255 }),
+	},
+	(table) => {
+		return [
+			uniqueIndex('audit_merkle_checkpoint_org_date_unique').on(
+				table.organizationId,
+				table.checkpointDate
+			),
+			index('audit_merkle_checkpoint_checkpoint_date_idx').on(table.checkpointDate),
+			index('audit_merkle_checkpoint_merkle_root_idx').on(table.merkleRoot),
+		]
+	}
+)
+
 /**
  * Audit retention policy table for managing data lifecycle
  * Requirements 4.3, 7.1: Data retention management and compliance
@@ -250,6 +321,196 @@ export const auditRetentionPolicy = pgTable(
 	}
 )
 
+/**
+ * Legal holds preserving audit events under litigation or investigation
+ * A hold covers the events of its organization matching every scope column it sets;
+ * covered events are never deleted, pseudonymized or purged from archives while it is active
+ */
+export const legalHold = pgTable(
+	'legal_hold',
+	{
+		id: varchar('id', { length: 255 }).primaryKey(),
+		organizationId: varchar('organization_id', { length: 255 }).notNull(),
+		name: varchar('name', { length: 255 }).notNull(),
+		reason: text('reason').notNull(),
+		custodian: varchar('custodian', { length: 255 }).notNull(), // Person accountable for the hold
+		caseReference: varchar('case_reference', { length: 255 }), // Matter or investigation number
+		// Scope, null columns match every event
+		principalId: varchar('principal_id', { length: 255 }),
+		targetResourceType: varchar('target_resource_type', { length: 255 }),
+		targetResourceId: varchar('target_resource_id', { length: 255 }),
+		startDate: timestamp('start_date', { withTimezone: true, mode: 'string' }),
+		endDate: timestamp('end_date', { withTimezone: true, mode: 'string' }),
+		status: varchar('status', { length: 20 })
+			.$type<'active' | 'released'>()
+			.notNull()
+			.default('active'),
+		createdAt: timestamp('created_at', { withTimezone: true, mode: 'string' })
+			.notNull()
+			.defaultNow(),
+		createdBy: varchar('created_by', { length: 255 }).notNull(),
+		releasedAt: timestamp('released_at', { withTimezone: true, mode: 'string' }),
+		releasedBy: varchar('released_by', { length: 255 }),
+		releaseReason: text('release_reason'),
+	},
+	(table) => {
+		return [
+			index('legal_hold_organization_id_idx').on(table.organizationId),
+			index('legal_hold_org_status_idx').on(table.organizationId, table.status),
+			index('legal_hold_principal_id_idx').on(table.principalId),
+		]
+	}
+)
+
+/**
+ * Destructive operations stopped or narrowed by legal holds
+ */
+export const legalHoldBlockedAction = pgTable(
+	'legal_hold_blocked_action',
+	{
+		id: serial('id').primaryKey(),
+		organizationId: varchar('organization_id', { length: 255 }), // Null when the operation spans organizations
+		operation: varchar('operation', { length: 100 }).notNull(), // e.g. gdpr.erasure, retention.delete
+		holdIds: jsonb('hold_ids').$type<string[]>().notNull(),
+		recordsBlocked: integer('records_blocked').notNull(),
+		requestedBy: varchar('requested_by', { length: 255 }),
+		details: jsonb('details'),
+		blockedAt: timestamp('blocked_at', { withTimezone: true, mode: 'string' })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => {
+		return [
+			index('legal_hold_blocked_action_org_blocked_at_idx').on(
+				table.organizationId,
+				table.blockedAt
+			),
+			index('legal_hold_blocked_action_operation_idx').on(table.operation),
+		]
+	}
+)
+
+/**
+ * Pseudonym vault: originals of reversible pseudonyms, envelope encrypted under KMS-wrapped keys
+ */
+export const pseudonymVault = pgTable(
+	'pseudonym_vault',
+	{
+		id: varchar('id', { length: 255 }).primaryKey(),
+		pseudonymId: varchar('pseudonym_id', { length: 255 }).notNull(),
+		strategy: varchar('strategy', { length: 20 }).$type<'token' | 'encryption'>().notNull(),
+		lookupHash: varchar('lookup_hash', { length: 64 }).notNull(), // Keyed hash of the organization and original value
+		field: varchar('field', { length: 255 }).notNull(), // Where the value was first pseudonymized, e.g. principalId
+		encryptedValue: text('encrypted_value').notNull(), // Base64 AES-256-GCM ciphertext
+		encryption: jsonb('encryption').notNull(), // Wrapped data key, IV and auth tag
+		organizationId: varchar('organization_id', { length: 255 }),
+		createdAt: timestamp('created_at', { withTimezone: true, mode: 'string' })
+			.notNull()
+			.defaultNow(),
+		createdBy: varchar('created_by', { length: 255 }).notNull(),
+	},
+	(table) => {
+		return [
+			uniqueIndex('pseudonym_vault_pseudonym_id_unique').on(table.pseudonymId),
+			// Entries without an organization are unique among themselves too
+			unique('pseudonym_vault_org_lookup_hash_unique')
+				.on(table.organizationId, table.lookupHash)
+				.nullsNotDistinct(),
+		]
+	}
+)
+
+/**
+ * Requests to re-identify a pseudonym, released after independent approvals
+ */
+export const reidentificationRequest = pgTable(
+	'reidentification_request',
+	{
+		id: varchar('id', { length: 255 }).primaryKey(),
+		organizationId: varchar('organization_id', { length: 255 }).notNull(),
+		pseudonymId: varchar('pseudonym_id', { length: 255 }).notNull(),
+		legalBasis: varchar('legal_basis', { length: 100 }).notNull(), // e.g. court_order, law_enforcement
+		justification: text('justification').notNull(),
+		caseReference: varchar('case_reference', { length: 255 }),
+		status: varchar('status', { length: 20 })
+			.$type<'pending' | 'approved' | 'rejected' | 'completed'>()
+			.notNull()
+			.default('pending'),
+		requiredApprovals: integer('required_approvals').notNull().default(2),
+		approvals: jsonb('approvals')
+			.$type<Array<{ approvedBy: string; approvedAt: string; comment?: string }>>()
+			.notNull()
+			.default([]),
+		requestedBy: varchar('requested_by', { length: 255 }).notNull(),
+		createdAt: timestamp('created_at', { withTimezone: true, mode: 'string' })
+			.notNull()
+			.defaultNow(),
+		expiresAt: timestamp('expires_at', { withTimezone: true, mode: 'string' }).notNull(),
+		rejectedBy: varchar('rejected_by', { length: 255 }),
+		rejectedAt: timestamp('rejected_at', { withTimezone: true, mode: 'string' }),
+		rejectionReason: text('rejection_reason'),
+		completedBy: varchar('completed_by', { length: 255 }),
+		completedAt: timestamp('completed_at', { withTimezone: true, mode: 'string' }),
+	},
+	(table) => {
+		return [
+			index('reidentification_request_org_status_idx').on(table.organizationId, table.status),
+			index('reidentification_request_pseudonym_id_idx').on(table.pseudonymId),
+		]
+	}
+)
+
+/**
+ * Data subject requests (GDPR Articles 15-20) tracked from receipt to fulfilment
+ * The statutory deadline runs from receipt and may be extended once.
+ */
+export const dataSubjectRequest = pgTable(
+	'data_subject_request',
+	{
+		id: varchar('id', { length: 255 }).primaryKey(),
+		organizationId: varchar('organization_id', { length: 255 }).notNull(),
+		requestType: varchar('request_type', { length: 32 })
+			.$type<'access' | 'rectification' | 'erasure' | 'portability' | 'restriction'>()
+			.notNull(),
+		principalId: varchar('principal_id', { length: 255 }).notNull(),
+		subjectName: varchar('subject_name', { length: 255 }),
+		subjectEmail: varchar('subject_email', { length: 255 }),
+		description: text('description'),
+		status: varchar('status', { length: 32 })
+			.$type<'received' | 'verified' | 'in_progress' | 'completed' | 'rejected'>()
+			.notNull()
+			.default('received'),
+		receivedAt: timestamp('received_at', { withTimezone: true, mode: 'string' })
+			.notNull()
+			.defaultNow(),
+		dueAt: timestamp('due_at', { withTimezone: true, mode: 'string' }).notNull(),
+		extendedAt: timestamp('extended_at', { withTimezone: true, mode: 'string' }),
+		extensionReason: text('extension_reason'),
+		verificationMethod: varchar('verification_method', { length: 32 }),
+		verificationNotes: text('verification_notes'),
+		verifiedBy: varchar('verified_by', { length: 255 }),
+		verifiedAt: timestamp('verified_at', { withTimezone: true, mode: 'string' }),
+		result: jsonb('result').$type<Record<string, unknown>>(),
+		lastError: text('last_error'),
+		completedBy: varchar('completed_by', { length: 255 }),
+		completedAt: timestamp('completed_at', { withTimezone: true, mode: 'string' }),
+		rejectedBy: varchar('rejected_by', { length: 255 }),
+		rejectedAt: timestamp('rejected_at', { withTimezone: true, mode: 'string' }),
+		rejectionReason: text('rejection_reason'),
+		createdBy: varchar('created_by', { length: 255 }).notNull(),
+		updatedAt: timestamp('updated_at', { withTimezone: true, mode: 'string' })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => {
+		return [
+			index('data_subject_request_org_status_idx').on(table.organizationId, table.status),
+			index('data_subject_request_due_at_idx').on(table.dueAt),
+			index('data_subject_request_principal_id_idx').on(table.principalId),
+		]
+	}
+)
+
 /**
  * Error log table for structured error logging and analysis
  * Requirement 11: Comprehensive error handling and logging
@@ -340,7 +601,9 @@ export const archiveStorage = pgTable(
 	{
 		id: varchar('id', { length: 255 }).primaryKey(), // Archive ID
 		metadata: jsonb('metadata').notNull(), // Archive metadata including compression info
-		data: text('data').notNull(), // Compressed archive data (base64 encoded)
+		data: text('data'), // Compressed archive data (base64 encoded), null when held by a blob store
+		storageProvider: varchar('storage_provider', { length: 20 }), // Blob store of the data: local or s3
+		storageKey: varchar('storage_key', { length: 255 }), // Content-addressed key of the data in the blob store
 		createdAt: timestamp('created_at', { withTimezone: true, mode: 'string' })
 			.notNull()
 			.defaultNow(),
@@ -352,6 +615,7 @@ export const archiveStorage = pgTable(
 			index('archive_storage_created_at_idx').on(table.createdAt),
 			index('archive_storage_retrieved_count_idx').on(table.retrievedCount),
 			index('archive_storage_last_retrieved_at_idx').on(table.lastRetrievedAt),
+			index('archive_storage_storage_key_idx').on(table.storageKey),
 			// JSONB indexes for metadata queries
 			index('archive_storage_retention_policy_idx').on(
 				sql`(${table.metadata}->>'retentionPolicy')`
@@ -434,6 +698,69 @@ export const alerts = pgTable(
 	}
 )
 
+/**
+ * Per-organization rules routing alerts to notification channels
+ * Empty severities or types match every alert
+ */
+export const alertRoutingRules = pgTable(
+	'alert_routing_rules',
+	{
+		id: varchar('id', { length: 255 }).primaryKey(),
+		organizationId: varchar('organization_id', { length: 255 }).notNull(),
+		name: varchar('name', { length: 255 }).notNull(),
+		severities: jsonb('severities').$type<string[]>().notNull().default([]), // AlertSeverity[]
+		types: jsonb('types').$type<string[]>().notNull().default([]), // AlertType[]
+		channel: jsonb('channel').notNull(), // AlertChannelConfig as JSON
+		enabled: boolean('enabled').notNull().default(true),
+		createdAt: timestamp('created_at', { withTimezone: true, mode: 'string' })
+			.notNull()
+			.defaultNow(),
+		createdBy: varchar('created_by', { length: 255 }).notNull(),
+		updatedAt: timestamp('updated_at', { withTimezone: true, mode: 'string' })
+			.notNull()
+			.defaultNow(),
+		updatedBy: varchar('updated_by', { length: 255 }),
+	},
+	(table) => {
+		return [
+			index('alert_routing_rules_organization_id_idx').on(table.organizationId),
+			index('alert_routing_rules_org_enabled_idx').on(table.organizationId, table.enabled),
+		]
+	}
+)
+
+/**
+ * Outcome of every alert notification sent through a channel
+ */
+export const alertDeliveries = pgTable(
+	'alert_deliveries',
+	{
+		id: varchar('id', { length: 255 }).primaryKey(),
+		alertId: varchar('alert_id', { length: 255 })
+			.references(() => alerts.id, { onDelete: 'cascade' })
+			.notNull(),
+		organizationId: varchar('organization_id', { length: 255 }).notNull(),
+		ruleId: varchar('rule_id', { length: 255 }), // Null for the default notification channels
+		channelType: varchar('channel_type', { length: 20 }).notNull(), // slack, webhook, email, pagerduty, ntfy
+		channelName: varchar('channel_name', { length: 255 }).notNull(),
+		status: varchar('status', { length: 20 }).$type<'delivered' | 'failed'>().notNull(),
+		responseCode: integer('response_code'),
+		responseTime: integer('response_time'), // in milliseconds
+		error: text('error'),
+		attemptedAt: timestamp('attempted_at', { withTimezone: true, mode: 'string' })
+			.notNull()
+			.defaultNow(),
+	},
+	(table) => {
+		return [
+			index('alert_deliveries_alert_id_idx').on(table.alertId),
+			index('alert_deliveries_rule_id_idx').on(table.ruleId),
+			index('alert_deliveries_org_attempted_at_idx').on(table.organizationId, table.attemptedAt),
+			index('alert_deliveries_org_status_idx').on(table.organizationId, table.status),
+		]
+	}
+)
+
 /**
  * Scheduled reports table for storing scheduled report configurations
  * Requirements 4.1, 4.4, 8.1: Automated compliance report scheduling and delivery
@@ -498,8 +825,11 @@ export const reportTemplates = pgTable(
 		defaultCriteria: jsonb('default_criteria').notNull(), // Default ReportCriteria as JSON
 		defaultFormat: varchar('default_format', { length: 50 }).notNull(), // Default ReportFormat
 		defaultExportConfig: jsonb('default_export_config').notNull(), // Default ExportConfig as JSON
+		columns: jsonb('columns'), // Selected event fields, all when null
+		groupBy: varchar('group_by', { length: 50 }), // Event field the report is grouped by
 		tags: jsonb('tags').notNull().default('[]'), // Array of tags
 		isActive: varchar('is_active', { length: 10 }).notNull().default('true'),
+		version: integer('version').notNull().default(1), // Latest entry of report_template_versions
 		createdAt: timestamp('created_at', { withTimezone: true, mode: 'string' })
 			.notNull()
 			.defaultNow(),
@@ -530,6 +860,37 @@ export const reportTemplates = pgTable(
 	}
 )
 
+/**
+ * Saved versions of report templates
+ * Every change of a template stores its full content as a new version, so versions can be compared
+ */
+export const reportTemplateVersions = pgTable(
+	'report_template_versions',
+	{
+		id: serial('id').primaryKey(),
+		templateId: varchar('template_id', { length: 255 })
+			.references(() => reportTemplates.id, { onDelete: 'cascade' })
+			.notNull(),
+		organizationId: varchar('organization_id', { length: 255 }).notNull(),
+		version: integer('version').notNull(),
+		content: jsonb('content').notNull(), // ReportTemplateContent as JSON
+		changeNote: text('change_note'),
+		createdAt: timestamp('created_at', { withTimezone: true, mode: 'string' })
+			.notNull()
+			.defaultNow(),
+		createdBy: varchar('created_by', { length: 255 }).notNull(),
+	},
+	(table) => {
+		return [
+			uniqueIndex('report_template_versions_template_version_unique').on(
+				table.templateId,
+				table.version
+			),
+			index('report_template_versions_organization_id_idx').on(table.organizationId),
+		]
+	}
+)
+
 /**
  * Report executions table for tracking scheduled report execution history
  * Requirements 4.1, 4.4: Report execution tracking and delivery monitoring
@@ -580,6 +941,54 @@ export const reportExecutions = pgTable(
 	}
 )
 
+/**
+ * Asynchronous audit event export jobs
+ * A background worker streams each job into storage and records its progress;
+ * the file can be downloaded until expiresAt
+ */
+export const auditExportJob = pgTable(
+	'audit_export_job',
+	{
+		id: varchar('id', { length: 255 }).primaryKey(), // exportId
+		organizationId: varchar('organization_id', { length: 255 }).notNull(),
+		requestedBy: varchar('requested_by', { length: 255 }).notNull(),
+		status: varchar('status', { length: 20 })
+			.$type<'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'expired'>()
+			.notNull()
+			.default('pending'),
+		format: varchar('format', { length: 20 }).notNull(), // json, ndjson, csv, xml, pdf
+		compression: varchar('compression', { length: 20 }).notNull().default('none'), // none, gzip
+		includeMetadata: boolean('include_metadata').notNull().default(true),
+		filter: jsonb('filter').notNull(), // StreamingExportFilter without organizationId
+		columns: jsonb('columns'), // Selected event fields, all when null
+		encryption: jsonb('encryption'), // Algorithm, salt and the KMS-wrapped key; the key is cleared once processed
+		delivery: jsonb('delivery'), // { method: 'download' } or { method: 'email', recipients }
+		progress: integer('progress').notNull().default(0), // 0-100
+		totalRecords: integer('total_records'), // Matching events when processing started
+		recordCount: integer('record_count'),
+		size: bigint('size', { mode: 'number' }), // Bytes written, after compression
+		checksum: varchar('checksum', { length: 100 }), // sha256:<hex> of the stored file
+		filename: varchar('filename', { length: 255 }),
+		contentType: varchar('content_type', { length: 100 }),
+		storageKey: text('storage_key'),
+		error: text('error'),
+		createdAt: timestamp('created_at', { withTimezone: true, mode: 'string' })
+			.notNull()
+			.defaultNow(),
+		startedAt: timestamp('started_at', { withTimezone: true, mode: 'string' }),
+		completedAt: timestamp('completed_at', { withTimezone: true, mode: 'string' }),
+		expiresAt: timestamp('expires_at', { withTimezone: true, mode: 'string' }),
+	},
+	(table) => {
+		return [
+			index('audit_export_job_organization_id_idx').on(table.organizationId),
+			index('audit_export_job_status_idx').on(table.status),
+			index('audit_export_job_expires_at_idx').on(table.expiresAt),
+			index('audit_export_job_org_created_at_idx').on(table.organizationId, table.createdAt),
+		]
+	}
+)
+
 export const archiveDLQEvent = pgTable(
 	'archive_dlq_event',
 	{
@@ -651,10 +1060,15 @@ export const configChangeEvent = pgTable(
 //   should be collected into an object and stored in the `details` jsonb column.
 // - The audit_integrity_log table tracks all verification attempts for audit events
 // - The audit_retention_policy table defines lifecycle management rules for different data classifications
+// - The legal_hold table preserves events under litigation hold; legal_hold_blocked_action logs what it stopped
+// - The pseudonym_vault table keeps the encrypted originals of reversible pseudonyms; reidentification_request
+//   tracks the approvals required to reveal one
+// - The data_subject_request table tracks GDPR data subject requests and their statutory deadlines
 // - The error_log table stores structured error information for analysis and troubleshooting
 // - The error_aggregation table tracks error patterns and trends for system health monitoring
 // - The archive_storage table stores compressed audit data for long-term retention
 // - The scheduled_reports table stores automated report configurations with scheduling and delivery settings
 // - The report_templates table provides reusable report configurations for different compliance requirements
 // - The report_executions table tracks the execution history and delivery status of scheduled reports
+// - The audit_export_job table tracks asynchronous audit event exports and their stored files
 // - Consider adding database indexes on frequently queried columns for performance optimization
@@ -0,0 +1,164 @@
+/**
+ * Tests for audit event aggregations
+ */
+
+import { eq } from 'drizzle-orm'
+import { PgDialect } from 'drizzle-orm/pg-core'
+import { describe, expect, it, vi } from 'vitest'
+
+import { auditLog } from '@repo/audit-db'
+
+import { AggregationError, compileAggregation, runAggregation } from '../search/aggregation.js'
+import { createQuery } from './helpers/drizzle-query.js'
+
+const dialect = new PgDialect()
+const render = (query: any) => dialect.sqlToQuery(query)
+
+describe('compileAggregation', () => {
+	it('should compile a grouped count over a column', () => {
+		const compiled = compileAggregation({ field: '*', type: 'count', groupBy: 'action' })
+
+		expect(compiled.name).toBe('count_events_by_action')
+		expect(compiled.limit).toBe(100)
+		expect(render(compiled.value).sql).toBe('count(*)')
+		expect(render(compiled.key).sql).toBe('("audit_log"."action")::text')
+		expect(compiled.time).toBeUndefined()
+	})
+
+	it('should bind details paths as parameters', () => {
+		const compiled = compileAggregation({
+			field: 'details.response.bytes',
+			type: 'sum',
+			groupBy: 'details.sessionContext.ipAddress',
+		})
+
+		const value = render(compiled.value)
+		expect(value.sql).toBe(
+			`sum(case when jsonb_typeof("audit_log"."details" #> $1) = 'number' then ("audit_log"."details" #>> $2)::numeric end)`
+		)
+		expect(value.params).toEqual(['{response,bytes}', '{response,bytes}'])
+
+		const key = render(compiled.key)
+		expect(key.sql).toBe('("audit_log"."details" #>> $1)::text')
+		expect(key.params).toEqual(['{sessionContext,ipAddress}'])
+	})
+
+	it('should bucket by UTC time', () => {
+		const compiled = compileAggregation({
+			field: 'processingLatency',
+			type: 'avg',
+			interval: 'week',
+			limit: 5000,
+		})
+
+		expect(compiled.name).toBe('avg_processingLatency_per_week')
+		expect(compiled.limit).toBe(1000)
+		expect(render(compiled.time).sql).toBe(
+			`to_char(date_trunc('week', "audit_log"."timestamp" AT TIME ZONE 'UTC'), 'YYYY-MM-DD"T"HH24:MI:SS"Z"')`
+		)
+	})
+
+	it.each([
+		{ field: 'hash', type: 'count' as const },
+		{ field: '*', type: 'count' as const, groupBy: 'organization_id; drop table audit_log' },
+		{ field: 'details', type: 'count' as const },
+		{ field: 'constructor', type: 'count' as const },
+		{ field: "details.a') --", type: 'count' as const },
+	])('should reject fields outside the whitelist: $field $groupBy', (spec) => {
+		expect(() => compileAggregation(spec)).toThrow(AggregationError)
+	})
+
+	it('should only sum numeric fields', () => {
+		const error = (() => {
+			try {
+				compileAggregation({ field: 'action', type: 'sum' })
+			} catch (e) {
+				return e as AggregationError
+			}
+		})()
+
+		expect(error?.code).toBe('INVALID_FIELD')
+	})
+
+	it('should reject unknown aggregation types and intervals', () => {
+		expect(() => compileAggregation({ field: '*', type: 'median' as any })).toThrow(
+			'Unsupported aggregation type'
+		)
+		expect(() =>
+			compileAggregation({ field: '*', type: 'count', interval: 'minute' as any })
+		).toThrow('Unsupported time bucket interval')
+	})
+})
+
+describe('runAggregation', () => {
+	it('should group by output columns and return chartable buckets', async () => {
+		const query = createQuery([
+			{ key: 'auth.login', time: '2025-01-01T00:00:00Z', value: 40, count: 40 },
+			{ key: 'data.read', time: '2025-01-01T00:00:00Z', value: 12, count: 12 },
+			{ key: 'auth.login', time: '2025-01-02T00:00:00Z', value: 8, count: 8 },
+		])
+		const db: any = { select: vi.fn(() => query) }
+		const where = eq(auditLog.organizationId, 'org-1')
+
+		const result = await runAggregation(
+			db,
+			where,
+			compileAggregation({ field: '*', type: 'count', groupBy: 'action', interval: 'day' })
+		)
+
+		expect(query.where).toHaveBeenCalledWith(where)
+		expect(query.groupBy.mock.calls[0].map((part: any) => render(part).sql)).toEqual([
+			'bucket_key',
+			'bucket_time',
+		])
+		expect(query.limit).toHaveBeenCalledWith(101)
+		expect(result).toEqual({
+			name: 'count_events_by_action_per_day',
+			type: 'count',
+			field: '*',
+			groupBy: 'action',
+			interval: 'day',
+			buckets: [
+				{ key: 'auth.login', time: '2025-01-01T00:00:00Z', value: 40, count: 40 },
+				{ key: 'data.read', time: '2025-01-01T00:00:00Z', value: 12, count: 12 },
+				{ key: 'auth.login', time: '2025-01-02T00:00:00Z', value: 8, count: 8 },
+			],
+			truncated: false,
+		})
+	})
+
+	it('should flag results cut at the limit', async () => {
+		const query = createQuery([
+			{ key: 'a', time: null, value: 3, count: 3 },
+			{ key: 'b', time: null, value: 2, count: 2 },
+			{ key: 'c', time: null, value: 1, count: 1 },
+		])
+		const db: any = { select: vi.fn(() => query) }
+
+		const result = await runAggregation(
+			db,
+			undefined,
+			compileAggregation({ field: '*', type: 'count', groupBy: 'status', limit: 2 })
+		)
+
+		expect(result.buckets).toEqual([
+			{ key: 'a', value: 3, count: 3 },
+			{ key: 'b', value: 2, count: 2 },
+		])
+		expect(result.truncated).toBe(true)
+	})
+
+	it('should not group an overall aggregation', async () => {
+		const query = createQuery([{ key: null, time: null, value: 125.5, count: 10 }])
+		const db: any = { select: vi.fn(() => query) }
+
+		const result = await runAggregation(
+			db,
+			undefined,
+			compileAggregation({ field: 'processingLatency', type: 'avg' })
+		)
+
+		expect(query.groupBy).not.toHaveBeenCalled()
+		expect(result.buckets).toEqual([{ value: 125.5, count: 10 }])
+	})
+})
@@ -0,0 +1,160 @@
+/**
+ * Tests for alert notification channels
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+	AlertChannelError,
+	createAlertChannel,
+	DEFAULT_PAGERDUTY_EVENTS_URL,
+	EmailAlertChannel,
+	NtfyAlertChannel,
+	PagerDutyAlertChannel,
+	SlackAlertChannel,
+	WebhookAlertChannel,
+} from '../monitor/alert-channels.js'
+import {
+	verifyWebhookSignature,
+	WEBHOOK_SIGNATURE_HEADER,
+	WEBHOOK_TIMESTAMP_HEADER,
+} from '../report/report-delivery.js'
+
+import type { Alert } from '../monitor/monitoring-types.js'
+
+const alert: Alert = {
+	id: 'alert-1',
+	severity: 'HIGH',
+	type: 'SECURITY',
+	title: 'Suspicious Pattern Detected: FAILED_AUTH',
+	description: '6 failed authentication attempts detected from user-123',
+	timestamp: '2025-01-01T00:00:00.000Z',
+	source: 'audit-monitoring',
+	metadata: { organizationId: 'org-1', patternType: 'FAILED_AUTH' },
+	acknowledged: false,
+	resolved: false,
+}
+
+describe('alert channels', () => {
+	const fetchMock = vi.fn()
+
+	beforeEach(() => {
+		vi.stubGlobal('fetch', fetchMock)
+		fetchMock.mockResolvedValue(new Response(null, { status: 200 }))
+	})
+
+	afterEach(() => {
+		vi.unstubAllGlobals()
+		fetchMock.mockReset()
+	})
+
+	const request = () => {
+		const [url, init] = fetchMock.mock.calls[0]
+		return { url, init, headers: init.headers as Record<string, string> }
+	}
+
+	it('should post Slack attachments colored by severity', async () => {
+		const channel = new SlackAlertChannel({
+			type: 'slack',
+			webhookUrl: 'https://hooks.slack.com/services/T/B/X',
+			channel: '#security',
+		})
+
+		await expect(channel.send(alert)).resolves.toEqual({ responseCode: 200 })
+
+		const { url, init } = request()
+		const body = JSON.parse(init.body)
+		expect(url).toBe('https://hooks.slack.com/services/T/B/X')
+		expect(body.text).toBe('[HIGH] Suspicious Pattern Detected: FAILED_AUTH')
+		expect(body.channel).toBe('#security')
+		expect(body.attachments[0]).toMatchObject({ color: '#e8590c', text: alert.description })
+	})
+
+	it('should sign generic webhook bodies', async () => {
+		const channel = new WebhookAlertChannel({
+			type: 'webhook',
+			url: 'https://hooks.example.com/alerts',
+			secret: 'alert-secret',
+		})
+
+		await channel.send(alert)
+
+		const { init, headers } = request()
+		expect(JSON.parse(init.body)).toMatchObject({ event: 'alert.triggered', alert })
+		expect(
+			verifyWebhookSignature(
+				'alert-secret',
+				headers[WEBHOOK_TIMESTAMP_HEADER],
+				init.body,
+				headers[WEBHOOK_SIGNATURE_HEADER]
+			)
+		).toBe(true)
+	})
+
+	it('should trigger PagerDuty incidents deduplicated by alert', async () => {
+		fetchMock.mockResolvedValue(new Response(null, { status: 202 }))
+		const channel = new PagerDutyAlertChannel({ type: 'pagerduty', routingKey: 'routing-key' })
+
+		await expect(channel.send(alert)).resolves.toEqual({ responseCode: 202 })
+
+		const { url, init } = request()
+		expect(url).toBe(DEFAULT_PAGERDUTY_EVENTS_URL)
+		expect(JSON.parse(init.body)).toMatchObject({
+			routing_key: 'routing-key',
+			event_action: 'trigger',
+			dedup_key: 'alert-1',
+			payload: { summary: alert.title, severity: 'error', group: 'org-1', class: 'SECURITY' },
+		})
+	})
+
+	it('should publish to the organization topic on ntfy', async () => {
+		const channel = new NtfyAlertChannel({ type: 'ntfy', url: 'https://ntfy.sh/', token: 'tk' })
+
+		await channel.send(alert)
+
+		const { url, init, headers } = request()
+		expect(url).toBe('https://ntfy.sh/org-1')
+		expect(init.body).toBe(alert.description)
+		expect(headers).toMatchObject({ Authorization: 'Bearer tk', Title: alert.title, Priority: '4' })
+	})
+
+	it('should fail on error responses', async () => {
+		fetchMock.mockResolvedValue(new Response(null, { status: 503, statusText: 'Unavailable' }))
+		const channel = createAlertChannel({ type: 'webhook', url: 'https://hooks.example.com' })
+
+		const error = await channel.send(alert).catch((e) => e)
+
+		expect(error).toBeInstanceOf(AlertChannelError)
+		expect(error.responseCode).toBe(503)
+	})
+
+	it('should email through the organization mailer', async () => {
+		const send = vi.fn().mockResolvedValue(undefined)
+		const resolver = vi.fn().mockResolvedValue({ from: 'alerts@example.com', mailer: { send } })
+		const channel = new EmailAlertChannel(
+			{ type: 'email', recipients: ['security@example.com'] },
+			resolver
+		)
+
+		await channel.send({ ...alert, description: '<script>' })
+
+		expect(resolver).toHaveBeenCalledWith('org-1')
+		expect(send).toHaveBeenCalledWith(
+			expect.objectContaining({
+				from: 'alerts@example.com',
+				to: ['security@example.com'],
+				subject: '[HIGH] Suspicious Pattern Detected: FAILED_AUTH',
+				html: expect.stringContaining('&lt;script&gt;'),
+			})
+		)
+	})
+
+	it('should fail email without a mail provider', async () => {
+		const channel = new EmailAlertChannel(
+			{ type: 'email', recipients: ['security@example.com'] },
+			vi.fn().mockResolvedValue(null)
+		)
+
+		await expect(channel.send(alert)).rejects.toThrow('No email provider configured')
+	})
+})
@@ -0,0 +1,309 @@
+/**
+ * Tests for alert routing rules
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+	AlertRouter,
+	DatabaseAlertRoutingStore,
+	maskChannelSecrets,
+	matchesRoutingRule,
+	notificationChannels,
+} from '../monitor/alert-routing.js'
+import { createQuery } from './helpers/drizzle-query.js'
+
+import type { AlertRoutingRule, AlertRoutingStore } from '../monitor/alert-routing.js'
+import type { Alert } from '../monitor/monitoring-types.js'
+
+const alert: Alert = {
+	id: 'alert-1',
+	severity: 'CRITICAL',
+	type: 'SECURITY',
+	title: 'Suspicious Pattern Detected: UNAUTHORIZED_ACCESS',
+	description: '5 unauthorized access attempts detected from principal user-123',
+	timestamp: '2025-01-01T00:00:00.000Z',
+	source: 'audit-monitoring',
+	metadata: { organizationId: 'org-1' },
+	acknowledged: false,
+	resolved: false,
+}
+
+function createRule(overrides: Partial<AlertRoutingRule>): AlertRoutingRule {
+	return {
+		id: 'rule-1',
+		organizationId: 'org-1',
+		name: 'Security on-call',
+		severities: [],
+		types: [],
+		channel: { type: 'pagerduty', routingKey: 'routing-key' },
+		enabled: true,
+		...overrides,
+	}
+}
+
+describe('matchesRoutingRule', () => {
+	it('should match on severity and type, empty lists matching all', () => {
+		expect(matchesRoutingRule(createRule({}), alert)).toBe(true)
+		expect(matchesRoutingRule(createRule({ severities: ['HIGH', 'CRITICAL'] }), alert)).toBe(true)
+		expect(matchesRoutingRule(createRule({ severities: ['LOW'] }), alert)).toBe(false)
+		expect(matchesRoutingRule(createRule({ types: ['PERFORMANCE'] }), alert)).toBe(false)
+		expect(matchesRoutingRule(createRule({ enabled: false }), alert)).toBe(false)
+	})
+})
+
+describe('notificationChannels', () => {
+	it('should keep the push provider as an ntfy channel', () => {
+		expect(
+			notificationChannels({
+				enabled: true,
+				provider: 'push',
+				url: 'https://ntfy.example.com',
+				credentials: { secret: 'token' },
+			})
+		).toEqual([{ type: 'ntfy', url: 'https://ntfy.example.com', token: 'token' }])
+	})
+
+	it('should have no channels when notifications are disabled', () => {
+		expect(
+			notificationChannels({ enabled: false, provider: 'push', url: 'x', credentials: {} })
+		).toEqual([])
+	})
+})
+
+describe('maskChannelSecrets', () => {
+	it('should mask channel credentials but the last 4 characters', () => {
+		expect(maskChannelSecrets({ type: 'pagerduty', routingKey: 'R0UT1NGKEY0123456789' })).toEqual({
+			type: 'pagerduty',
+			routingKey: '************6789',
+		})
+		expect(
+			maskChannelSecrets({ type: 'ntfy', url: 'https://ntfy.example.com', token: 'tk_abcdefgh' })
+		).toMatchObject({ url: 'https://ntfy.example.com', token: '************efgh' })
+		expect(maskChannelSecrets({ type: 'webhook', url: 'https://example.com/hook' })).toEqual({
+			type: 'webhook',
+			url: 'https://example.com/hook',
+		})
+	})
+
+	it('should mask the Slack webhook URL but its origin', () => {
+		expect(
+			maskChannelSecrets({
+				type: 'slack',
+				webhookUrl: 'https://hooks.slack.com/services/T000/B000/XXXXwxyz',
+			})
+		).toEqual({ type: 'slack', webhookUrl: 'https://hooks.slack.com/************wxyz' })
+	})
+
+	it('should mask every webhook header value', () => {
+		expect(
+			maskChannelSecrets({
+				type: 'webhook',
+				url: 'https://example.com/hook',
+				headers: { Authorization: 'Bearer abcdefgh1234', 'X-Api-Key': 'key-5678' },
+			})
+		).toEqual({
+			type: 'webhook',
+			url: 'https://example.com/hook',
+			headers: { Authorization: '************1234', 'X-Api-Key': '************5678' },
+		})
+	})
+})
+
+describe('DatabaseAlertRoutingStore', () => {
+	it('should keep the stored secret when a rule is saved with its masked form', async () => {
+		const stored = {
+			type: 'webhook',
+			url: 'https://example.com/hook',
+			secret: 'signing-secret-1234',
+		}
+		const update = createQuery([
+			{
+				id: 'rule-1',
+				organizationId: 'org-1',
+				name: 'Hook',
+				severities: [],
+				types: [],
+				channel: stored,
+				enabled: true,
+			},
+		])
+		const db: any = {
+			select: vi.fn(() => createQuery([{ channel: stored }])),
+			update: vi.fn(() => update),
+		}
+		const store = new DatabaseAlertRoutingStore(db)
+
+		await store.updateRule(
+			'org-1',
+			'rule-1',
+			{
+				channel: {
+					...maskChannelSecrets(stored as any),
+					url: 'https://example.com/new-hook',
+				} as any,
+			},
+			'user-1'
+		)
+
+		expect(update.set).toHaveBeenCalledWith(
+			expect.objectContaining({
+				channel: {
+					type: 'webhook',
+					url: 'https://example.com/new-hook',
+					secret: 'signing-secret-1234',
+				},
+			})
+		)
+	})
+
+	function createStore(stored: Record<string, unknown>) {
+		const update = createQuery([
+			{
+				id: 'rule-1',
+				organizationId: 'org-1',
+				name: 'Rule',
+				severities: [],
+				types: [],
+				channel: stored,
+				enabled: true,
+			},
+		])
+		const db: any = {
+			select: vi.fn(() => createQuery([{ channel: stored }])),
+			update: vi.fn(() => update),
+		}
+		return { store: new DatabaseAlertRoutingStore(db), update }
+	}
+
+	it('should keep the stored Slack webhook URL when saved with its masked form', async () => {
+		const stored = {
+			type: 'slack',
+			webhookUrl: 'https://hooks.slack.com/services/T000/B000/XXXXwxyz',
+		}
+		const { store, update } = createStore(stored)
+
+		await store.updateRule(
+			'org-1',
+			'rule-1',
+			{ channel: { ...maskChannelSecrets(stored as any), channel: '#alerts' } as any },
+			'user-1'
+		)
+
+		expect(update.set).toHaveBeenCalledWith(
+			expect.objectContaining({ channel: { ...stored, channel: '#alerts' } })
+		)
+	})
+
+	it('should keep masked webhook headers and take the ones retyped', async () => {
+		const stored = {
+			type: 'webhook',
+			url: 'https://example.com/hook',
+			headers: { Authorization: 'Bearer abcdefgh1234', 'X-Api-Key': 'key-5678' },
+		}
+		const { store, update } = createStore(stored)
+		const masked = maskChannelSecrets(stored as any) as any
+
+		await store.updateRule(
+			'org-1',
+			'rule-1',
+			{
+				channel: {
+					...masked,
+					headers: { ...masked.headers, 'X-Api-Key': 'key-0000', 'X-Team': 'audit' },
+				},
+			},
+			'user-1'
+		)
+
+		expect(update.set).toHaveBeenCalledWith(
+			expect.objectContaining({
+				channel: {
+					type: 'webhook',
+					url: 'https://example.com/hook',
+					headers: {
+						Authorization: 'Bearer abcdefgh1234',
+						'X-Api-Key': 'key-0000',
+						'X-Team': 'audit',
+					},
+				},
+			})
+		)
+	})
+})
+
+describe('AlertRouter', () => {
+	const fetchMock = vi.fn()
+	let store: AlertRoutingStore & { getEnabledRules: any; recordDeliveries: any }
+
+	beforeEach(() => {
+		vi.stubGlobal('fetch', fetchMock)
+		store = {
+			getEnabledRules: vi.fn().mockResolvedValue([]),
+			recordDeliveries: vi.fn().mockResolvedValue(undefined),
+		}
+	})
+
+	afterEach(() => {
+		vi.unstubAllGlobals()
+		fetchMock.mockReset()
+	})
+
+	it('should deliver through every matching rule and record the results', async () => {
+		store.getEnabledRules.mockResolvedValue([
+			createRule({ id: 'rule-pd', severities: ['CRITICAL'] }),
+			createRule({
+				id: 'rule-slack',
+				channel: { type: 'slack', name: 'security', webhookUrl: 'https://hooks.slack.com/x' },
+			}),
+			createRule({ id: 'rule-perf', types: ['PERFORMANCE'] }),
+		])
+		fetchMock
+			.mockResolvedValueOnce(new Response(null, { status: 202 }))
+			.mockResolvedValueOnce(new Response(null, { status: 500, statusText: 'Server Error' }))
+
+		const router = new AlertRouter({
+			store,
+			defaultChannels: [{ type: 'ntfy', url: 'https://ntfy.example.com' }],
+		})
+		const results = await router.dispatch(alert)
+
+		expect(store.getEnabledRules).toHaveBeenCalledWith('org-1')
+		expect(results).toMatchObject([
+			{ ruleId: 'rule-pd', channelType: 'pagerduty', status: 'delivered', responseCode: 202 },
+			{
+				ruleId: 'rule-slack',
+				channelName: 'security',
+				status: 'failed',
+				responseCode: 500,
+				error: 'Channel responded with 500 Server Error',
+			},
+		])
+		expect(store.recordDeliveries).toHaveBeenCalledWith(results)
+	})
+
+	it('should fall back to the default channels when no rule matches', async () => {
+		fetchMock.mockResolvedValue(new Response(null, { status: 200 }))
+
+		const router = new AlertRouter({
+			store,
+			defaultChannels: [{ type: 'ntfy', url: 'https://ntfy.example.com' }],
+		})
+		const results = await router.dispatch(alert)
+
+		expect(fetchMock).toHaveBeenCalledWith('https://ntfy.example.com/org-1', expect.any(Object))
+		expect(results).toMatchObject([{ ruleId: null, channelType: 'ntfy', status: 'delivered' }])
+	})
+
+	it('should report channel errors instead of throwing', async () => {
+		fetchMock.mockRejectedValue(new Error('getaddrinfo ENOTFOUND'))
+
+		const router = new AlertRouter({
+			defaultChannels: [{ type: 'webhook', url: 'https://unreachable.example.com' }],
+		})
+
+		await expect(router.dispatch(alert)).resolves.toMatchObject([
+			{ status: 'failed', error: 'getaddrinfo ENOTFOUND' },
+		])
+	})
+})
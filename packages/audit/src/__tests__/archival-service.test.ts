@@ -1,7 +1,12 @@
 import { createHash } from 'crypto'
+import { and, sql } from 'drizzle-orm'
+import { PgDialect } from 'drizzle-orm/pg-core'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
+import { archiveStorage, auditLog, auditRetentionPolicy } from '@repo/audit-db'
+
 import { ArchivalService } from '../archival/archival-service.js'
+import { createQuery } from './helpers/drizzle-query.js'
 
 import type { ArchiveConfig, ArchiveRetrievalRequest } from '../archival/archival-service.js'
 
@@ -220,72 +225,6 @@ describe('ArchivalService', () => {
 		})
 	})
 
-	describe('secureDeleteData', () => {
-		it('should delete data based on criteria and verify deletion', async () => {
-			// Mock records to delete
-			mockSelectQuery.mockResolvedValueOnce([
-				{ id: 1, hash: 'hash1' },
-				{ id: 2, hash: 'hash2' },
-			])
-
-			// Mock verification queries (records should not exist after deletion)
-			mockSelectQuery.mockResolvedValueOnce([]) // First record not found
-			mockSelectQuery.mockResolvedValueOnce([]) // Second record not found
-
-			const result = await archivalService.secureDeleteData({
-				principalId: 'user123',
-				verifyDeletion: true,
-			})
-
-			expect(result.recordsDeleted).toBe(1)
-			expect(result.verificationStatus).toBe('verified')
-			expect(result.verificationDetails?.allDeleted).toBe(true)
-			expect(result.verificationDetails?.remainingRecords).toBe(0)
-		})
-
-		it('should detect incomplete deletion during verification', async () => {
-			// Mock records to delete
-			mockSelectQuery.mockResolvedValueOnce([
-				{ id: 1, hash: 'hash1' },
-				{ id: 2, hash: 'hash2' },
-			])
-
-			// Mock verification queries (one record still exists)
-			mockSelectQuery.mockResolvedValueOnce([{ id: 1 }]) // First record still exists
-			mockSelectQuery.mockResolvedValueOnce([]) // Second record not found
-
-			const result = await archivalService.secureDeleteData({
-				principalId: 'user123',
-				verifyDeletion: true,
-			})
-
-			expect(result.verificationStatus).toBe('failed')
-			expect(result.verificationDetails?.allDeleted).toBe(false)
-			expect(result.verificationDetails?.remainingRecords).toBe(1)
-		})
-
-		it('should skip verification when not requested', async () => {
-			mockSelectQuery.mockResolvedValueOnce([])
-
-			const result = await archivalService.secureDeleteData({
-				principalId: 'user123',
-				verifyDeletion: false,
-			})
-
-			expect(result.verificationStatus).toBe('skipped')
-			expect(result.verificationDetails).toBeUndefined()
-		})
-
-		it('should handle empty deletion criteria', async () => {
-			mockSelectQuery.mockResolvedValueOnce([])
-
-			const result = await archivalService.secureDeleteData({})
-
-			expect(result.recordsDeleted).toBe(0)
-			expect(result.verificationStatus).toBe('skipped')
-		})
-	})
-
 	describe('createArchive', () => {
 		it('should create archive with compression and integrity verification', async () => {
 			const records = [
@@ -604,3 +543,202 @@ describe('ArchivalService', () => {
 		})
 	})
 })
+
+describe('ArchivalService.secureDeleteData', () => {
+	const dialect = new PgDialect()
+	let db: any
+	let legalHolds: any
+	let service: TestArchivalService
+
+	const ids = (count: number) => Array.from({ length: count }, (_, index) => ({ id: index + 1 }))
+
+	beforeEach(() => {
+		db = { select: vi.fn(), delete: vi.fn() }
+		legalHolds = {
+			enforceOnEvents: vi.fn(async (_operation: string, criteria: any) => ({
+				releasable: and(criteria, sql`not held`),
+				recordsHeld: 0,
+				holdIds: [],
+			})),
+		}
+		service = new TestArchivalService(
+			db,
+			auditLog,
+			auditRetentionPolicy,
+			archiveStorage,
+			{},
+			undefined,
+			legalHolds
+		)
+	})
+
+	it('should reject criteria that do not narrow an organization', async () => {
+		await expect(service.secureDeleteData({})).rejects.toThrow('requires an organization')
+		await expect(service.secureDeleteData({ organizationId: 'org-1' })).rejects.toThrow(
+			'requires an organization'
+		)
+		await expect(service.secureDeleteData({ principalId: 'user-1' })).rejects.toThrow(
+			'requires an organization'
+		)
+		expect(legalHolds.enforceOnEvents).not.toHaveBeenCalled()
+		expect(db.delete).not.toHaveBeenCalled()
+	})
+
+	it('should delete the releasable records in batches and verify deletion', async () => {
+		const batches = [createQuery(undefined), createQuery(undefined)]
+		db.select
+			.mockReturnValueOnce(batches[0])
+			.mockReturnValueOnce(batches[1])
+			.mockReturnValueOnce(createQuery([{ records: 0 }]))
+		db.delete.mockReturnValueOnce(createQuery(ids(1000))).mockReturnValueOnce(createQuery(ids(2)))
+
+		const result = await service.secureDeleteData({
+			principalId: 'user-1',
+			organizationId: 'org-1',
+			dateRange: { start: '2024-01-01T00:00:00.000Z', end: '2024-12-31T00:00:00.000Z' },
+			dataClassifications: ['PHI'],
+			verifyDeletion: true,
+			requestedBy: 'admin-1',
+		})
+
+		expect(result).toMatchObject({
+			recordsDeleted: 1002,
+			recordsHeld: 0,
+			verificationStatus: 'verified',
+		})
+		expect(result.verificationDetails).toEqual({ allDeleted: true, remainingRecords: 0 })
+		expect(db.delete).toHaveBeenCalledTimes(2)
+		expect(batches[0].limit).toHaveBeenCalledWith(1000)
+
+		const [operation, criteria, context] = legalHolds.enforceOnEvents.mock.calls[0]
+		expect(operation).toBe('archive.secure_delete')
+		expect(context.requestedBy).toBe('admin-1')
+		const filter = dialect.sqlToQuery(criteria)
+		expect(filter.sql).toBe(
+			'("audit_log"."organization_id" = $1 and "audit_log"."principal_id" = $2 and "audit_log"."timestamp" >= $3 and "audit_log"."timestamp" <= $4 and "audit_log"."data_classification" in ($5))'
+		)
+		expect(filter.params).toEqual([
+			'org-1',
+			'user-1',
+			'2024-01-01T00:00:00.000Z',
+			'2024-12-31T00:00:00.000Z',
+			'PHI',
+		])
+	})
+
+	it('should keep the records under legal hold', async () => {
+		legalHolds.enforceOnEvents.mockImplementation(async (_operation: string, criteria: any) => ({
+			releasable: and(criteria, sql`not held`),
+			recordsHeld: 3,
+			holdIds: ['hold-1'],
+		}))
+		const batch = createQuery(undefined)
+		db.select.mockReturnValueOnce(batch)
+		db.delete.mockReturnValueOnce(createQuery(ids(1)))
+
+		const result = await service.secureDeleteData({
+			organizationId: 'org-1',
+			principalId: 'user-1',
+		})
+
+		expect(result).toMatchObject({ recordsDeleted: 1, recordsHeld: 3 })
+		const deleted = dialect.sqlToQuery(batch.where.mock.calls[0][0])
+		expect(deleted.sql).toBe(
+			'(("audit_log"."organization_id" = $1 and "audit_log"."principal_id" = $2) and not held)'
+		)
+	})
+
+	it('should detect incomplete deletion during verification', async () => {
+		db.select
+			.mockReturnValueOnce(createQuery(undefined))
+			.mockReturnValueOnce(createQuery([{ records: 1 }]))
+		db.delete.mockReturnValueOnce(createQuery(ids(2)))
+
+		const result = await service.secureDeleteData({
+			organizationId: 'org-1',
+			principalId: 'user-1',
+			verifyDeletion: true,
+		})
+
+		expect(result.verificationStatus).toBe('failed')
+		expect(result.verificationDetails).toEqual({ allDeleted: false, remainingRecords: 1 })
+	})
+
+	it('should skip verification when not requested', async () => {
+		db.select.mockReturnValueOnce(createQuery(undefined))
+		db.delete.mockReturnValueOnce(createQuery(ids(1)))
+
+		const result = await service.secureDeleteData({
+			organizationId: 'org-1',
+			principalId: 'user-1',
+			verifyDeletion: false,
+		})
+
+		expect(result.verificationStatus).toBe('skipped')
+		expect(result.verificationDetails).toBeUndefined()
+		expect(db.select).toHaveBeenCalledTimes(1)
+	})
+})
+
+describe('ArchivalService.cleanupOldArchives', () => {
+	const dialect = new PgDialect()
+	let db: any
+	let legalHolds: any
+	let service: TestArchivalService
+
+	beforeEach(() => {
+		db = { select: vi.fn(), delete: vi.fn() }
+		legalHolds = { getActiveHolds: vi.fn().mockResolvedValue([]) }
+		service = new TestArchivalService(
+			db,
+			auditLog,
+			auditRetentionPolicy,
+			archiveStorage,
+			{},
+			undefined,
+			legalHolds
+		)
+	})
+
+	it('should delete the archives past the delete window of active policies', async () => {
+		const policies = createQuery([{ policyName: 'standard', deleteAfterDays: 365 }])
+		const archives = createQuery([
+			{ id: 'archive-1', metadata: { compressedSize: 1000, retentionPolicy: 'standard' } },
+			{ id: 'archive-2', metadata: { compressedSize: 500, retentionPolicy: 'standard' } },
+		])
+		const deletion = createQuery([{ id: 'archive-1' }, { id: 'archive-2' }])
+		db.select.mockReturnValueOnce(policies).mockReturnValueOnce(archives)
+		db.delete.mockReturnValueOnce(deletion)
+
+		const result = await service.cleanupOldArchives()
+
+		expect(result).toMatchObject({ archivesDeleted: 2, archivesHeld: 0, spaceFreed: 1500 })
+
+		const policyFilter = dialect.sqlToQuery(policies.where.mock.calls[0][0])
+		expect(policyFilter.sql).toBe(
+			'("audit_retention_policy"."is_active" = $1 and "audit_retention_policy"."delete_after_days" is not null)'
+		)
+		expect(policyFilter.params).toEqual(['true'])
+
+		const archiveFilter = dialect.sqlToQuery(archives.where.mock.calls[0][0])
+		expect(archiveFilter.sql).toBe(
+			`(("archive_storage"."metadata"->>'retentionPolicy') = $1 and "archive_storage"."created_at" < $2)`
+		)
+		expect(archiveFilter.params[0]).toBe('standard')
+
+		const deleteFilter = dialect.sqlToQuery(deletion.where.mock.calls[0][0])
+		expect(deleteFilter.sql).toBe('"archive_storage"."id" in ($1, $2)')
+		expect(deleteFilter.params).toEqual(['archive-1', 'archive-2'])
+	})
+
+	it('should delete nothing when no archive expired', async () => {
+		db.select
+			.mockReturnValueOnce(createQuery([{ policyName: 'standard', deleteAfterDays: 365 }]))
+			.mockReturnValueOnce(createQuery([]))
+
+		const result = await service.cleanupOldArchives()
+
+		expect(result).toMatchObject({ archivesDeleted: 0, spaceFreed: 0 })
+		expect(db.delete).not.toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,120 @@
+/**
+ * Tests for archive blob stores
+ */
+
+import { createHash } from 'crypto'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { S3Client } from '@aws-sdk/client-s3'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+	archiveBlobKey,
+	archiveStorageConfigFromEnv,
+	createArchiveBlobStore,
+	LocalArchiveBlobStore,
+	S3ArchiveBlobStore,
+} from '../archival/archive-blob-store.js'
+import { PostgresArchivalService } from '../archival/postgres-archival-service.js'
+
+const data = Buffer.from('compressed archive data')
+const checksum = createHash('sha256').update(data).digest('hex')
+
+describe('archive blob stores', () => {
+	let basePath: string
+
+	beforeEach(async () => {
+		basePath = await mkdtemp(path.join(tmpdir(), 'archives-'))
+	})
+
+	afterEach(async () => {
+		await rm(basePath, { recursive: true, force: true })
+		vi.restoreAllMocks()
+	})
+
+	it('should address blobs by checksum', () => {
+		expect(archiveBlobKey(checksum)).toBe(`sha256/${checksum.slice(0, 2)}/${checksum}`)
+		expect(() => archiveBlobKey('../../etc/passwd')).toThrow('Invalid archive checksum')
+	})
+
+	it('should store, read and delete files locally', async () => {
+		const store = new LocalArchiveBlobStore({ basePath })
+
+		const key = await store.put(checksum, data)
+
+		await expect(readFile(path.join(basePath, ...key.split('/')))).resolves.toEqual(data)
+		await expect(store.get(key)).resolves.toEqual(data)
+		await store.delete(key)
+		await expect(store.get(key)).rejects.toThrow()
+		await expect(store.delete(key)).resolves.toBeUndefined()
+	})
+
+	it('should write S3 objects under the prefix with their checksum', async () => {
+		const send = vi.spyOn(S3Client.prototype, 'send').mockResolvedValue({} as never)
+		const store = new S3ArchiveBlobStore({
+			bucket: 'archives',
+			prefix: 'audit/',
+			endpoint: 'http://localhost:9000',
+			forcePathStyle: true,
+		})
+
+		const key = await store.put(checksum, data)
+
+		expect(send.mock.calls[0]![0].input).toMatchObject({
+			Bucket: 'archives',
+			Key: `audit/${key}`,
+			Body: data,
+			ChecksumSHA256: Buffer.from(checksum, 'hex').toString('base64'),
+		})
+	})
+
+	it('should read the storage configuration from the environment', () => {
+		expect(archiveStorageConfigFromEnv({})).toEqual({ provider: 'postgres' })
+		expect(
+			archiveStorageConfigFromEnv({
+				ARCHIVE_STORAGE_PROVIDER: 's3',
+				ARCHIVE_S3_BUCKET: 'archives',
+				S3_ENDPOINT: 'http://localhost:9000',
+				S3_FORCE_PATH_STYLE: 'true',
+			})
+		).toMatchObject({
+			provider: 's3',
+			bucket: 'archives',
+			endpoint: 'http://localhost:9000',
+			forcePathStyle: true,
+		})
+		expect(() => archiveStorageConfigFromEnv({ ARCHIVE_STORAGE_PROVIDER: 's3' })).toThrow(
+			'ARCHIVE_S3_BUCKET'
+		)
+		expect(createArchiveBlobStore({ provider: 'postgres' })).toBeNull()
+	})
+
+	it('should keep only a pointer in the archive table', async () => {
+		const values = vi.fn().mockResolvedValue(undefined)
+		const db = { insert: vi.fn().mockReturnValue({ values }) }
+		const service = new PostgresArchivalService(
+			db,
+			{},
+			{},
+			{ id: 'id', storageKey: 'storageKey' },
+			{ storage: { provider: 'local', basePath } }
+		)
+
+		await (service as any).storeArchive({
+			id: 'archive-1',
+			metadata: { checksumCompressed: checksum },
+			data,
+			createdAt: '2025-01-01T00:00:00.000Z',
+		})
+
+		const row = values.mock.calls[0]![0]
+		expect(row).toMatchObject({
+			id: 'archive-1',
+			data: null,
+			storageProvider: 'local',
+			storageKey: archiveBlobKey(checksum),
+		})
+		await expect((service as any).loadArchiveData(row)).resolves.toEqual(data)
+	})
+})
@@ -0,0 +1,112 @@
+/**
+ * Tests for archive envelope encryption
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+	ArchiveEncryptionError,
+	decryptArchiveData,
+	encryptArchiveData,
+	KmsArchiveKeyWrapper,
+	rewrapArchiveKey,
+} from '../archival/archive-encryption.js'
+
+import type { ArchiveKeyWrapper, WrappedArchiveKey } from '../archival/archive-encryption.js'
+
+/**
+ * Key wrapper with local AES master keys standing in for KMS keys
+ */
+function createKeyWrapper(
+	currentKeyId: string,
+	masterKeys: Record<string, Buffer> = { [currentKeyId]: randomBytes(32) }
+): ArchiveKeyWrapper {
+	return {
+		currentKeyId,
+		async wrapKey(dataKey: Buffer): Promise<WrappedArchiveKey> {
+			const iv = randomBytes(12)
+			const cipher = createCipheriv('aes-256-gcm', masterKeys[currentKeyId]!, iv)
+			const wrapped = Buffer.concat([cipher.update(dataKey), cipher.final(), cipher.getAuthTag()])
+			return { keyId: currentKeyId, wrappedKey: Buffer.concat([iv, wrapped]).toString('base64') }
+		},
+		async unwrapKey({ keyId, wrappedKey }: WrappedArchiveKey): Promise<Buffer> {
+			const raw = Buffer.from(wrappedKey, 'base64')
+			const decipher = createDecipheriv('aes-256-gcm', masterKeys[keyId]!, raw.subarray(0, 12))
+			decipher.setAuthTag(raw.subarray(raw.length - 16))
+			return Buffer.concat([decipher.update(raw.subarray(12, raw.length - 16)), decipher.final()])
+		},
+	}
+}
+
+describe('archive encryption', () => {
+	const data = Buffer.from(JSON.stringify([{ id: 1, action: 'fhir.patient.read' }]))
+
+	it('should round-trip archive data under a wrapped data key', async () => {
+		const keyWrapper = createKeyWrapper('key-1')
+
+		const { data: encrypted, encryption } = await encryptArchiveData(data, 'archive-1', keyWrapper)
+
+		expect(encrypted.equals(data)).toBe(false)
+		expect(encryption).toMatchObject({ algorithm: 'aes-256-gcm', keyId: 'key-1' })
+		await expect(
+			decryptArchiveData(encrypted, 'archive-1', encryption, keyWrapper)
+		).resolves.toEqual(data)
+	})
+
+	it('should reject data decrypted for another archive', async () => {
+		const keyWrapper = createKeyWrapper('key-1')
+		const { data: encrypted, encryption } = await encryptArchiveData(data, 'archive-1', keyWrapper)
+
+		await expect(
+			decryptArchiveData(encrypted, 'archive-2', encryption, keyWrapper)
+		).rejects.toBeInstanceOf(ArchiveEncryptionError)
+	})
+
+	it('should re-wrap data keys with the current key and keep archives readable', async () => {
+		const masterKeys = { 'key-1': randomBytes(32), 'key-2': randomBytes(32) }
+		const keyWrapper = createKeyWrapper('key-1', masterKeys)
+		const { data: encrypted, encryption } = await encryptArchiveData(data, 'archive-1', keyWrapper)
+
+		const rotated = createKeyWrapper('key-2', masterKeys)
+		const rewrapped = await rewrapArchiveKey(encryption, rotated)
+
+		expect(rewrapped).toMatchObject({
+			keyId: 'key-2',
+			iv: encryption.iv,
+			authTag: encryption.authTag,
+			keyHistory: [{ keyId: 'key-1' }],
+		})
+		await expect(decryptArchiveData(encrypted, 'archive-1', rewrapped!, rotated)).resolves.toEqual(
+			data
+		)
+		await expect(rewrapArchiveKey(rewrapped!, rotated)).resolves.toBeNull()
+	})
+
+	it('should unwrap with the KMS client of the key that wrapped the data key', async () => {
+		const current = {
+			encrypt: vi.fn().mockResolvedValue({ ciphertext: 'wrapped-by-key-2' }),
+			decrypt: vi.fn(),
+		}
+		const previous = {
+			encrypt: vi.fn(),
+			decrypt: vi.fn().mockResolvedValue({ plaintext: Buffer.alloc(32, 7).toString('base64') }),
+		}
+		const keyWrapper = new KmsArchiveKeyWrapper('key-2', {
+			'key-2': current as any,
+			'key-1': previous as any,
+		})
+
+		await expect(keyWrapper.wrapKey(Buffer.alloc(32, 1))).resolves.toEqual({
+			keyId: 'key-2',
+			wrappedKey: 'wrapped-by-key-2',
+		})
+		await expect(
+			keyWrapper.unwrapKey({ keyId: 'key-1', wrappedKey: 'wrapped-by-key-1' })
+		).resolves.toEqual(Buffer.alloc(32, 7))
+		expect(previous.decrypt).toHaveBeenCalledWith('wrapped-by-key-1')
+		await expect(keyWrapper.unwrapKey({ keyId: 'key-0', wrappedKey: 'x' })).rejects.toBeInstanceOf(
+			ArchiveEncryptionError
+		)
+	})
+})
@@ -0,0 +1,86 @@
+/**
+ * Tests for archive serialization formats
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import {
+	parseArchiveRecords,
+	readParquetArchive,
+	serializeArchiveRecords,
+} from '../archival/archive-formats.js'
+
+const records = Array.from({ length: 6 }, (_, i) => ({
+	id: i + 1,
+	timestamp: new Date(Date.UTC(2024, 0, i + 1)).toISOString(),
+	principalId: i < 3 ? 'user-1' : 'user-2',
+	organizationId: 'org-1',
+	action: i % 2 ? 'fhir.patient.read' : 'auth.login.success',
+	status: 'success',
+	dataClassification: i < 4 ? 'PHI' : 'INTERNAL',
+	processingLatency: i * 1.5,
+	details: i % 2 ? { resource: `Patient/${i}`, note: 'line one\nline two' } : null,
+}))
+
+describe('archive formats', () => {
+	it('should round-trip JSON and JSONL archives', () => {
+		for (const format of ['json', 'jsonl'] as const) {
+			const data = serializeArchiveRecords(records, format, 2).toString('utf8')
+			expect(parseArchiveRecords(data, format)).toEqual(records)
+		}
+	})
+
+	it('should write one JSON record per line', () => {
+		const lines = serializeArchiveRecords(records, 'jsonl', 2).toString('utf8').split('\n')
+
+		expect(lines).toHaveLength(records.length)
+		expect(JSON.parse(lines[1]!)).toEqual(records[1])
+	})
+
+	it('should read JSONL archives written with literal separators', () => {
+		const legacy = records.map((record) => JSON.stringify(record)).join('\\n')
+
+		expect(parseArchiveRecords(legacy, 'jsonl')).toEqual(records)
+	})
+
+	it('should round-trip Parquet archives', async () => {
+		const data = serializeArchiveRecords(records, 'parquet', 2)
+
+		expect(data.subarray(0, 4).toString()).toBe('PAR1')
+		await expect(readParquetArchive(data)).resolves.toEqual({
+			records,
+			rowGroupsTotal: 3,
+			rowGroupsRead: 3,
+		})
+	})
+
+	it('should skip Parquet row groups that cannot match the request', async () => {
+		const data = serializeArchiveRecords(records, 'parquet', 2)
+
+		const byDate = await readParquetArchive(data, {
+			dateRange: { start: '2024-01-05T00:00:00Z', end: '2024-01-31T00:00:00Z' },
+		})
+		expect(byDate.records.map((record) => record.id)).toEqual([5, 6])
+		expect(byDate.rowGroupsRead).toBe(1)
+
+		const byPrincipal = await readParquetArchive(data, {
+			principalId: 'user-1',
+			dataClassifications: ['PHI'],
+		})
+		expect(byPrincipal.records.map((record) => record.id)).toEqual([1, 2, 3])
+		expect(byPrincipal.rowGroupsRead).toBe(2)
+	})
+
+	it('should match nothing when filtering on a field the archive does not have', async () => {
+		const data = serializeArchiveRecords(
+			records.map(({ principalId: _principalId, ...record }) => record),
+			'parquet',
+			2
+		)
+
+		await expect(readParquetArchive(data, { principalId: 'user-1' })).resolves.toMatchObject({
+			records: [],
+			rowGroupsRead: 0,
+		})
+	})
+})
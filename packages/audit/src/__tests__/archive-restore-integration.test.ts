@@ -0,0 +1,100 @@
+/**
+ * Integration tests for restoring archived events into PostgreSQL
+ * Runs against the database in AUDIT_DB_URL, where audit_log may be partitioned by timestamp
+ * and then has no unique constraint on id.
+ */
+
+import { eq, inArray } from 'drizzle-orm'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { AuditDb, auditIntegrityLog, auditLog } from '@repo/audit-db'
+
+import { ArchiveRestoreService } from '../archival/archive-restore.js'
+import { CryptoService } from '../crypto.js'
+
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+import type { ArchivalService } from '../archival/archival-service.js'
+import type { SecurityConfig } from '../config/types.js'
+
+const crypto = new CryptoService({
+	enableIntegrityVerification: true,
+	hashAlgorithm: 'SHA-256',
+	enableEventSigning: false,
+	encryptionKey: 'test-key',
+	enableLogEncryption: false,
+	kms: { enabled: false },
+} as SecurityConfig)
+
+describe.skipIf(!process.env.AUDIT_DB_URL)('ArchiveRestoreService with PostgreSQL', () => {
+	const action = `archive.restore.test.${Date.now()}`
+	let auditDb: AuditDb
+	let db: PostgresJsDatabase<any>
+
+	function hashedEvent(targetResourceId: string) {
+		const event = {
+			timestamp: new Date().toISOString(),
+			action,
+			status: 'success' as const,
+			principalId: 'user-1',
+			organizationId: 'org-restore-test',
+			targetResourceType: 'Patient',
+			targetResourceId,
+		}
+		return { ...event, hash: crypto.generateHash(event), hashAlgorithm: 'SHA-256' }
+	}
+
+	beforeAll(() => {
+		auditDb = new AuditDb(process.env.AUDIT_DB_URL)
+		db = auditDb.getDrizzleInstance()
+	})
+
+	afterAll(async () => {
+		const rows = await db
+			.select({ id: auditLog.id })
+			.from(auditLog)
+			.where(eq(auditLog.action, action))
+		if (rows.length > 0) {
+			await db.delete(auditIntegrityLog).where(
+				inArray(
+					auditIntegrityLog.auditLogId,
+					rows.map((row) => row.id)
+				)
+			)
+		}
+		await db.delete(auditLog).where(eq(auditLog.action, action))
+		await auditDb.end()
+	})
+
+	it('should restore archived events and keep the live ones', async () => {
+		const [live] = await db.insert(auditLog).values(hashedEvent('patient-live')).returning()
+		// Well above the id sequence, so the archived event is not in audit_log
+		const archived = { id: live!.id + 1_000_000, ...hashedEvent('patient-archived') }
+
+		const archival = {
+			retrieveArchivedData: async () => ({
+				archives: [
+					{
+						metadata: { archiveId: 'archive-it', createdAt: new Date().toISOString() },
+						records: [live, archived],
+					},
+				],
+			}),
+			validateArchive: async () => true,
+		} as unknown as ArchivalService
+		const service = new ArchiveRestoreService(archival, db, crypto)
+
+		const first = await service.restore({ archiveId: 'archive-it', restoredBy: 'admin-1' })
+		expect(first).toMatchObject({ recordsFound: 2, recordsRestored: 1, recordsSkipped: 1 })
+
+		// Restoring again leaves audit_log as it is
+		const second = await service.restore({ archiveId: 'archive-it', restoredBy: 'admin-1' })
+		expect(second).toMatchObject({ recordsRestored: 0, recordsSkipped: 2 })
+
+		const rows = await db
+			.select({ id: auditLog.id, hash: auditLog.hash })
+			.from(auditLog)
+			.where(eq(auditLog.action, action))
+		expect(rows.map((row) => row.id).sort((a, b) => a - b)).toEqual([live!.id, archived.id])
+		expect(rows.find((row) => row.id === archived.id)?.hash).toBe(archived.hash)
+	})
+})
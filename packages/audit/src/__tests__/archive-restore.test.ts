@@ -0,0 +1,191 @@
+/**
+ * Tests for restoring archived events into the audit log
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { auditIntegrityLog, auditLog } from '@repo/audit-db'
+
+import { ArchiveRestoreService } from '../archival/archive-restore.js'
+import { CryptoService } from '../crypto.js'
+import { createQuery } from './helpers/drizzle-query.js'
+
+import type { SecurityConfig } from '../config/types.js'
+
+const crypto = new CryptoService({
+	enableIntegrityVerification: true,
+	hashAlgorithm: 'SHA-256',
+	enableEventSigning: true,
+	encryptionKey: 'test-key',
+	enableLogEncryption: false,
+	kms: { enabled: false },
+} as SecurityConfig)
+
+async function archivedRecord(id: number, options: { signed?: boolean } = {}) {
+	const event = {
+		timestamp: new Date(Date.UTC(2024, 0, id)).toISOString(),
+		action: 'fhir.patient.read',
+		status: 'success' as const,
+		principalId: 'user-1',
+		organizationId: 'org-1',
+		targetResourceType: 'Patient',
+		targetResourceId: `patient-${id}`,
+	}
+	const hash = crypto.generateHash(event)
+	const details = options.signed ? await crypto.generateEventSignature(event) : null
+
+	return {
+		id,
+		...event,
+		// audit_log returns timestamps in Postgres format
+		timestamp: event.timestamp.replace('T', ' ').replace('Z', '+00'),
+		hash,
+		hashAlgorithm: 'SHA-256',
+		details,
+		archivedAt: null,
+	}
+}
+
+describe('ArchiveRestoreService', () => {
+	let archival: any
+	let auditLogQuery: any
+	let liveEventsQuery: any
+	let integrityLogQuery: any
+	let mockDb: any
+	let service: ArchiveRestoreService
+
+	beforeEach(() => {
+		archival = {
+			retrieveArchivedData: vi.fn(),
+			validateArchive: vi.fn().mockResolvedValue(true),
+		}
+		auditLogQuery = createQuery([])
+		liveEventsQuery = createQuery([])
+		integrityLogQuery = createQuery(undefined)
+		mockDb = {
+			select: vi.fn(() => liveEventsQuery),
+			insert: vi.fn((table) => (table === auditLog ? auditLogQuery : integrityLogQuery)),
+		}
+		service = new ArchiveRestoreService(archival, mockDb, crypto)
+	})
+
+	function archiveWith(records: any[], archiveId = 'archive-1') {
+		return {
+			metadata: { archiveId, createdAt: '2025-01-01T00:00:00.000Z' },
+			records,
+		}
+	}
+
+	it('should restore verified events and reject tampered ones', async () => {
+		const tampered = { ...(await archivedRecord(3)), action: 'fhir.patient.delete' }
+		const records = [await archivedRecord(1, { signed: true }), await archivedRecord(2), tampered]
+		archival.retrieveArchivedData.mockResolvedValue({ archives: [archiveWith(records)] })
+		auditLogQuery = createQuery([{ id: 1 }, { id: 2 }])
+
+		const result = await service.restore({
+			archiveId: 'archive-1',
+			restoredBy: 'admin-1',
+			reason: 'legal-hold-42',
+		})
+
+		expect(result).toMatchObject({
+			archiveIds: ['archive-1'],
+			recordsFound: 3,
+			recordsRestored: 2,
+			recordsSkipped: 0,
+			recordsFailedVerification: 1,
+			failedRecordIds: [3],
+		})
+
+		const rows = auditLogQuery.values.mock.calls[0][0]
+		expect(rows.map((row: any) => row.id)).toEqual([1, 2])
+		expect(rows[0]).toMatchObject({
+			hash: records[0]!.hash,
+			archivedAt: '2025-01-01T00:00:00.000Z',
+		})
+		// Partitioned audit_log tables have no unique id to resolve conflicts on
+		expect(auditLogQuery.onConflictDoNothing).not.toHaveBeenCalled()
+
+		expect(mockDb.insert).toHaveBeenCalledWith(auditIntegrityLog)
+		const integrityRows = integrityLogQuery.values.mock.calls[0][0]
+		expect(integrityRows).toHaveLength(3)
+		expect(integrityRows[0]).toMatchObject({
+			auditLogId: 1,
+			verificationStatus: 'success',
+			verifiedBy: 'admin-1',
+			hashVerified: records[0]!.hash,
+			verificationDetails: {
+				type: 'archive_restore',
+				restoreId: result.restoreId,
+				archiveId: 'archive-1',
+				signatureVerified: true,
+				reason: 'legal-hold-42',
+			},
+		})
+		expect(integrityRows[2]).toMatchObject({
+			auditLogId: 3,
+			verificationStatus: 'tampered',
+			hashVerified: null,
+		})
+	})
+
+	it('should reject events whose signature does not match', async () => {
+		const record = await archivedRecord(1, { signed: true })
+		record.details = { ...record.details!, signature: 'f'.repeat(64) }
+		archival.retrieveArchivedData.mockResolvedValue({ archives: [archiveWith([record])] })
+
+		const result = await service.restore({ archiveId: 'archive-1' })
+
+		expect(result.failedRecordIds).toEqual([1])
+		expect(mockDb.insert).not.toHaveBeenCalledWith(auditLog)
+	})
+
+	it('should keep events that are still in the audit log', async () => {
+		const records = [await archivedRecord(1), await archivedRecord(2)]
+		archival.retrieveArchivedData.mockResolvedValue({
+			archives: [archiveWith(records), archiveWith([records[1]!], 'archive-2')],
+		})
+		liveEventsQuery = createQuery([{ id: 1 }])
+		auditLogQuery = createQuery([{ id: 2 }])
+
+		const result = await service.restore({
+			dateRange: { start: '2024-01-01T00:00:00Z', end: '2024-01-31T00:00:00Z' },
+		})
+
+		// Event 1 is still live, event 2 is inserted once although two archives hold it
+		expect(auditLogQuery.values.mock.calls[0][0].map((row: any) => row.id)).toEqual([2])
+		expect(result).toMatchObject({ recordsFound: 3, recordsRestored: 1, recordsSkipped: 2 })
+		expect(integrityLogQuery.values.mock.calls[0][0].map((row: any) => row.auditLogId)).toEqual([2])
+	})
+
+	it('should not restore anything from corrupted archives or on a dry run', async () => {
+		archival.retrieveArchivedData.mockResolvedValue({
+			archives: [
+				archiveWith([await archivedRecord(1)], 'archive-1'),
+				archiveWith([await archivedRecord(2)], 'archive-2'),
+			],
+		})
+		archival.validateArchive.mockImplementation(async (id: string) => id !== 'archive-2')
+
+		const result = await service.restore({
+			dateRange: { start: '2024-01-01T00:00:00Z', end: '2024-01-31T00:00:00Z' },
+			dryRun: true,
+		})
+
+		expect(result).toMatchObject({
+			dryRun: true,
+			archiveIds: ['archive-1', 'archive-2'],
+			corruptedArchiveIds: ['archive-2'],
+			recordsFound: 2,
+			recordsRestored: 0,
+		})
+		expect(mockDb.insert).not.toHaveBeenCalled()
+	})
+
+	it('should require an archive or a date range', async () => {
+		await expect(service.restore({ organizationId: 'org-1' })).rejects.toThrow(
+			'An archive ID or a date range is required'
+		)
+		expect(archival.retrieveArchivedData).not.toHaveBeenCalled()
+	})
+})
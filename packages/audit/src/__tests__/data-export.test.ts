@@ -10,14 +10,18 @@
  * - Export configuration options
  */
 
-import { beforeEach, describe, expect, it } from 'vitest'
+import { createHash } from 'crypto'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 import { DataExportService } from '../report/data-export.js'
+import { PDFReportRenderer } from '../report/pdf-report.js'
 
 import type {
 	ComplianceReport,
 	ComplianceReportEvent,
 	ExportConfig,
+	HIPAAComplianceReport,
+	IntegrityVerificationReport,
 } from '../report/compliance-reporting.js'
 import type { ExportResult } from '../report/data-export.js'
 
@@ -192,6 +196,36 @@ describe('DataExportService', () => {
 			expect(xmlContent).toContain('</auditReport>')
 		})
 
+		it('should export the selected columns and group counts', async () => {
+			const config: ExportConfig = {
+				format: 'json',
+				columns: ['principalId', 'action'],
+				groupBy: 'principalId',
+			}
+
+			const result = await service.exportComplianceReport(mockReport, config)
+
+			const exportedData = JSON.parse(result.data as string)
+			expect(exportedData.events[0]).toEqual({
+				principalId: 'user-123',
+				action: 'fhir.patient.read',
+			})
+			expect(exportedData.groups).toEqual([
+				{ key: 'user-123', count: 2 },
+				{ key: 'user-456', count: 1 },
+			])
+
+			const csv = await service.exportComplianceReport(mockReport, { ...config, format: 'csv' })
+			const lines = (csv.data as string).split('\n')
+			expect(lines).toContain('#   user-123: 2')
+			expect(lines).toContain('Principal ID,Action')
+			expect(lines).toContain('user-123,fhir.patient.read')
+
+			const xml = await service.exportComplianceReport(mockReport, { ...config, format: 'xml' })
+			expect(xml.data).toContain('<group key="user-456">1</group>')
+			expect(xml.data).not.toContain('<timestamp>')
+		})
+
 		it('should export report in PDF format', async () => {
 			const config: ExportConfig = {
 				format: 'pdf',
@@ -497,10 +531,122 @@ describe('DataExportService', () => {
 			const result1 = await service.exportComplianceReport(mockReport, config)
 			const result2 = await service.exportComplianceReport(mockReport, config)
 
-			// Note: In the placeholder implementation, checksums include timestamp
-			// In a real implementation, checksums for identical data should be the same
-			expect(result1.checksum).toBeDefined()
-			expect(result2.checksum).toBeDefined()
+			expect(result1.checksum).toMatch(/^sha256:[a-f0-9]{64}$/)
+			expect(result2.checksum).toBe(result1.checksum)
+		})
+	})
+
+	describe('PDF export', () => {
+		const countPages = (pdf: Buffer) =>
+			pdf.toString('latin1').match(/\/Type \/Page\b/g)?.length ?? 0
+
+		it('should render a real PDF document', async () => {
+			const result = await service.exportComplianceReport(mockReport, { format: 'pdf' })
+			const pdf = result.data as Buffer
+
+			expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+			expect(pdf.toString('latin1').trimEnd().endsWith('%%EOF')).toBe(true)
+			// Cover, summary and events, attestation
+			expect(countPages(pdf)).toBeGreaterThanOrEqual(3)
+		})
+
+		it('should paginate every event instead of truncating', async () => {
+			const events = Array.from({ length: 400 }, (_, i) => ({ ...mockEvents[0], id: i + 1 }))
+			const small = await service.exportComplianceReport(mockReport, { format: 'pdf' })
+			const large = await service.exportComplianceReport(
+				{ ...mockReport, events, metadata: { ...mockReport.metadata, totalEvents: 400 } },
+				{ format: 'pdf' }
+			)
+
+			expect(countPages(large.data as Buffer)).toBeGreaterThan(countPages(small.data as Buffer) + 5)
+		})
+
+		it('should embed the content checksum and sign it when a signer is configured', async () => {
+			const signer = {
+				generateSignature: vi
+					.fn()
+					.mockResolvedValue({ signature: 'c2lnbmF0dXJl', algorithm: 'HMAC-SHA256' }),
+			}
+			const signedService = new DataExportService(signer)
+			const contentChecksum = createHash('sha256')
+				.update(PDFReportRenderer.contentPayload(mockReport))
+				.digest('hex')
+
+			const result = await signedService.exportComplianceReport(mockReport, { format: 'pdf' })
+
+			expect(signer.generateSignature).toHaveBeenCalledWith(contentChecksum)
+			expect((result.data as Buffer).toString('latin1')).toContain(`checksum:${contentChecksum}`)
+		})
+
+		it('should render HIPAA reports', async () => {
+			const hipaaReport: HIPAAComplianceReport = {
+				...mockReport,
+				reportType: 'HIPAA_AUDIT_TRAIL',
+				metadata: { ...mockReport.metadata, reportType: 'HIPAA_AUDIT_TRAIL' },
+				hipaaSpecific: {
+					phiAccessEvents: 2,
+					phiModificationEvents: 0,
+					unauthorizedAttempts: 1,
+					emergencyAccess: 0,
+					breakGlassEvents: 0,
+					minimumNecessaryViolations: 0,
+				},
+				riskAssessment: {
+					highRiskEvents: [mockEvents[2]],
+					suspiciousPatterns: [
+						{
+							patternType: 'FAILED_EXPORTS',
+							description: 'Repeated failed exports',
+							events: [mockEvents[2]],
+							riskLevel: 'HIGH',
+							recommendation: 'Review export permissions',
+						},
+					],
+					recommendations: ['Review access controls'],
+				},
+			}
+
+			const result = await service.exportComplianceReport(hipaaReport, { format: 'pdf' })
+
+			expect((result.data as Buffer).subarray(0, 5).toString()).toBe('%PDF-')
+		})
+
+		it('should export integrity verification reports', async () => {
+			const integrityReport: IntegrityVerificationReport = {
+				verificationId: 'verify-1',
+				verifiedAt: '2024-01-02T00:00:00.000Z',
+				results: {
+					totalEvents: 3,
+					verifiedEvents: 2,
+					failedVerifications: 1,
+					unverifiedEvents: 0,
+					verificationRate: 66.67,
+				},
+				failures: [
+					{
+						eventId: 3,
+						timestamp: '2024-01-01T12:00:00.000Z',
+						expectedHash: 'a'.repeat(64),
+						actualHash: 'b'.repeat(64),
+						hashAlgorithm: 'SHA-256',
+						failureReason: 'Hash mismatch detected',
+						severity: 'HIGH',
+					},
+				],
+				statistics: {
+					hashAlgorithms: { 'SHA-256': 3 },
+					verificationLatency: { average: 1, median: 1, p95: 1 },
+				},
+			}
+
+			const result = await service.exportIntegrityReport(
+				integrityReport,
+				mockReport.metadata.criteria,
+				{ format: 'pdf' }
+			)
+
+			expect(result.filename).toBe('audit-report-verify-1.pdf')
+			expect((result.data as Buffer).subarray(0, 5).toString()).toBe('%PDF-')
 		})
 	})
 })
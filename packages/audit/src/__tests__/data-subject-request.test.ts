@@ -0,0 +1,232 @@
+/**
+ * Tests for data subject request case management
+ */
+
+import { PgDialect } from 'drizzle-orm/pg-core'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { dataSubjectRequest } from '@repo/audit-db'
+
+import {
+	DataSubjectRequestError,
+	DataSubjectRequestService,
+	isAutomatedRequestType,
+} from '../gdpr/data-subject-request.js'
+import { createQuery } from './helpers/drizzle-query.js'
+
+import type { DataSubjectRequest } from '../gdpr/data-subject-request.js'
+
+const dialect = new PgDialect()
+
+function dsr(overrides: Partial<DataSubjectRequest> = {}): DataSubjectRequest {
+	return {
+		id: 'dsr-1',
+		organizationId: 'org-1',
+		requestType: 'access',
+		principalId: 'user-123',
+		status: 'verified',
+		receivedAt: '2024-03-01T00:00:00.000Z',
+		dueAt: '2024-03-31T00:00:00.000Z',
+		createdBy: 'dpo-1',
+		updatedAt: '2024-03-01T00:00:00.000Z',
+		...overrides,
+	}
+}
+
+describe('isAutomatedRequestType', () => {
+	it('should fulfil access, portability and erasure requests automatically', () => {
+		expect(isAutomatedRequestType('access')).toBe(true)
+		expect(isAutomatedRequestType('portability')).toBe(true)
+		expect(isAutomatedRequestType('erasure')).toBe(true)
+		expect(isAutomatedRequestType('rectification')).toBe(false)
+		expect(isAutomatedRequestType('restriction')).toBe(false)
+	})
+})
+
+describe('DataSubjectRequestService', () => {
+	let results: unknown[]
+	let queries: any[]
+	let mockDb: any
+	let gdpr: any
+	let audit: any
+	let service: DataSubjectRequestService
+
+	beforeEach(() => {
+		results = []
+		queries = []
+		// Queries resolve to the queued results in the order they are built
+		const next = () => {
+			const query = createQuery(results.shift())
+			queries.push(query)
+			return query
+		}
+		mockDb = { select: vi.fn(next), insert: vi.fn(next), update: vi.fn(next) }
+		gdpr = {
+			exportUserData: vi.fn().mockResolvedValue({
+				requestId: 'export-1',
+				format: 'json',
+				recordCount: 3,
+				dataSize: 120,
+				data: Buffer.from('[]'),
+			}),
+			deleteUserDataWithAuditTrail: vi.fn().mockResolvedValue({
+				recordsDeleted: 5,
+				complianceRecordsPreserved: 1,
+				recordsHeld: 2,
+			}),
+			getPrincipalFootprint: vi.fn().mockResolvedValue({
+				principalId: 'user-123',
+				totalEvents: 2,
+				byAction: [],
+				byClassification: [],
+				heldEvents: 2,
+			}),
+		}
+		audit = { log: vi.fn().mockResolvedValue(undefined) }
+		service = new DataSubjectRequestService(mockDb, gdpr, audit)
+	})
+
+	describe('createRequest', () => {
+		it('should set the statutory deadline 30 days after receipt', async () => {
+			results.push([dsr({ status: 'received' })])
+
+			await service.createRequest(
+				'org-1',
+				{ requestType: 'access', principalId: 'user-123', receivedAt: '2024-03-01T00:00:00.000Z' },
+				'dpo-1'
+			)
+
+			expect(mockDb.insert).toHaveBeenCalledWith(dataSubjectRequest)
+			expect(queries[0].values.mock.calls[0][0]).toMatchObject({
+				organizationId: 'org-1',
+				receivedAt: '2024-03-01T00:00:00.000Z',
+				dueAt: '2024-03-31T00:00:00.000Z',
+				createdBy: 'dpo-1',
+			})
+			expect(audit.log.mock.calls[0][0]).toMatchObject({ action: 'gdpr.dsr.create' })
+		})
+	})
+
+	describe('fulfilRequest', () => {
+		it('should export the data of a verified access request', async () => {
+			results.push([dsr()], [dsr({ status: 'in_progress' })], [dsr({ status: 'completed' })])
+
+			const result = await service.fulfilRequest('org-1', 'dsr-1', 'dpo-1')
+
+			expect(gdpr.exportUserData).toHaveBeenCalledWith(
+				expect.objectContaining({ principalId: 'user-123', organizationId: 'org-1' })
+			)
+			expect(result.export?.recordCount).toBe(3)
+			expect(queries[2].set.mock.calls[0][0]).toMatchObject({
+				status: 'completed',
+				result: { exportRequestId: 'export-1', recordCount: 3 },
+			})
+		})
+
+		it('should erase the data of a verified erasure request', async () => {
+			const erasure = dsr({ requestType: 'erasure' })
+			results.push([erasure], [{ ...erasure, status: 'in_progress' }], [erasure])
+
+			await service.fulfilRequest('org-1', 'dsr-1', 'dpo-1')
+
+			expect(gdpr.deleteUserDataWithAuditTrail).toHaveBeenCalledWith('user-123', 'dpo-1', true, {
+				organizationId: 'org-1',
+			})
+			expect(gdpr.getPrincipalFootprint).toHaveBeenCalledWith('org-1', 'user-123')
+			expect(queries[2].set.mock.calls[0][0]).toMatchObject({
+				status: 'completed',
+				result: { recordsDeleted: 5, complianceRecordsPreserved: 1, recordsHeld: 2 },
+			})
+		})
+
+		it('should not complete an erasure that left events of the subject', async () => {
+			gdpr.getPrincipalFootprint.mockResolvedValue({
+				principalId: 'user-123',
+				totalEvents: 5,
+				byAction: [],
+				byClassification: [],
+				heldEvents: 2,
+			})
+			const erasure = dsr({ requestType: 'erasure' })
+			results.push([erasure], [{ ...erasure, status: 'in_progress' }], undefined)
+
+			await expect(service.fulfilRequest('org-1', 'dsr-1', 'dpo-1')).rejects.toThrow(
+				'Erasure left 3 events of the data subject'
+			)
+			expect(queries[2].set.mock.calls[0][0]).toMatchObject({
+				status: 'verified',
+				lastError: 'Erasure left 3 events of the data subject',
+			})
+		})
+
+		it('should leave a failed request verified with its error', async () => {
+			gdpr.exportUserData.mockRejectedValue(new Error('Database unavailable'))
+			results.push([dsr()], [dsr({ status: 'in_progress' })], undefined)
+
+			await expect(service.fulfilRequest('org-1', 'dsr-1', 'dpo-1')).rejects.toThrow(
+				'Database unavailable'
+			)
+			expect(queries[2].set.mock.calls[0][0]).toMatchObject({
+				status: 'verified',
+				lastError: 'Database unavailable',
+			})
+			expect(audit.log.mock.calls[0][0]).toMatchObject({ status: 'failure' })
+		})
+
+		it('should retry a fulfilment that ran past the timeout', async () => {
+			vi.useFakeTimers({ now: new Date('2024-03-02T12:00:00.000Z') })
+			try {
+				results.push(
+					[dsr({ status: 'in_progress' })],
+					[dsr({ status: 'in_progress' })],
+					[dsr({ status: 'completed' })]
+				)
+
+				await service.fulfilRequest('org-1', 'dsr-1', 'dpo-1')
+
+				const claim = dialect.sqlToQuery(queries[1].where.mock.calls[0][0])
+				expect(claim.sql).toContain(
+					'("data_subject_request"."status" = $3 or ("data_subject_request"."status" = $4 and "data_subject_request"."updated_at" < $5))'
+				)
+				expect(claim.params).toEqual([
+					'dsr-1',
+					'org-1',
+					'verified',
+					'in_progress',
+					'2024-03-02T11:30:00.000Z',
+				])
+				expect(gdpr.exportUserData).toHaveBeenCalled()
+			} finally {
+				vi.useRealTimers()
+			}
+		})
+
+		it('should not fulfil requests completed by hand', async () => {
+			results.push([dsr({ requestType: 'rectification' })])
+
+			await expect(service.fulfilRequest('org-1', 'dsr-1', 'dpo-1')).rejects.toMatchObject({
+				code: 'INVALID',
+			})
+		})
+
+		it('should not fulfil requests whose identity is not verified', async () => {
+			results.push([dsr({ status: 'received' })], [], [dsr({ status: 'received' })])
+
+			const result = service.fulfilRequest('org-1', 'dsr-1', 'dpo-1')
+
+			await expect(result).rejects.toBeInstanceOf(DataSubjectRequestError)
+			await expect(result).rejects.toMatchObject({ code: 'CONFLICT' })
+			expect(gdpr.exportUserData).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('extendDeadline', () => {
+		it('should refuse a second extension', async () => {
+			results.push([], [dsr({ extendedAt: '2024-03-10T00:00:00.000Z' })])
+
+			await expect(
+				service.extendDeadline('org-1', 'dsr-1', 'dpo-1', 'Complex request')
+			).rejects.toMatchObject({ code: 'CONFLICT' })
+		})
+	})
+})
@@ -0,0 +1,82 @@
+/**
+ * Tests for keyset cursors over audit events
+ */
+
+import { PgDialect } from 'drizzle-orm/pg-core'
+import { describe, expect, it } from 'vitest'
+
+import {
+	decodeEventCursor,
+	encodeEventCursor,
+	eventCursorCondition,
+	EventCursorError,
+	eventCursorOrderBy,
+	toEventCursorPage,
+} from '../search/event-cursor.js'
+
+const dialect = new PgDialect()
+
+describe('event cursors', () => {
+	it('should round-trip the position of an event', () => {
+		const cursor = encodeEventCursor({ timestamp: '2025-01-01 10:00:00.123456+00', id: 42 }, 'desc')
+
+		expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/)
+		expect(decodeEventCursor(cursor)).toEqual({
+			timestamp: '2025-01-01 10:00:00.123456+00',
+			id: 42,
+			direction: 'desc',
+		})
+	})
+
+	it.each([
+		'not a cursor',
+		Buffer.from('{"t":"yesterday","i":1,"d":"desc"}').toString('base64url'),
+		Buffer.from('{"t":"2025-01-01T00:00:00Z","i":"1","d":"desc"}').toString('base64url'),
+		Buffer.from('{"t":"2025-01-01T00:00:00Z","i":1,"d":"sideways"}').toString('base64url'),
+		// Legacy offset cursor
+		Buffer.from('100').toString('base64'),
+	])('should reject malformed cursor %s', (cursor) => {
+		expect(() => decodeEventCursor(cursor)).toThrow(EventCursorError)
+	})
+
+	it('should refuse to continue a page in the other direction', () => {
+		const cursor = encodeEventCursor({ timestamp: '2025-01-01T00:00:00Z', id: 1 }, 'asc')
+
+		expect(() => decodeEventCursor(cursor, 'desc')).toThrow('cannot continue desc order')
+	})
+
+	it('should seek past the cursor with a row comparison', () => {
+		const desc = dialect.sqlToQuery(
+			eventCursorCondition({ timestamp: '2025-01-01T00:00:00Z', id: 7, direction: 'desc' })
+		)
+		const asc = dialect.sqlToQuery(
+			eventCursorCondition({ timestamp: '2025-01-01T00:00:00Z', id: 7, direction: 'asc' })
+		)
+
+		expect(desc.sql).toBe('("audit_log"."timestamp", "audit_log"."id") < ($1::timestamptz, $2)')
+		expect(desc.params).toEqual(['2025-01-01T00:00:00Z', 7])
+		expect(asc.sql).toContain(') > (')
+	})
+
+	it('should break timestamp ties by id', () => {
+		const orderBy = eventCursorOrderBy('desc').map((part) => dialect.sqlToQuery(part).sql)
+
+		expect(orderBy).toEqual(['"audit_log"."timestamp" desc', '"audit_log"."id" desc'])
+	})
+
+	it('should only issue a next cursor when another page follows', () => {
+		const rows = [
+			{ id: 3, timestamp: '2025-01-03T00:00:00Z' },
+			{ id: 2, timestamp: '2025-01-02T00:00:00Z' },
+			{ id: 1, timestamp: '2025-01-01T00:00:00Z' },
+		]
+
+		const first = toEventCursorPage(rows, 2, 'desc')
+		expect(first.items.map((row) => row.id)).toEqual([3, 2])
+		expect(decodeEventCursor(first.nextCursor!)).toMatchObject({ id: 2 })
+
+		const last = toEventCursorPage(rows, 3, 'desc')
+		expect(last.items).toHaveLength(3)
+		expect(last.nextCursor).toBeNull()
+	})
+})
@@ -0,0 +1,51 @@
+/**
+ * Tests for passphrase encrypted exports
+ */
+
+import { Readable } from 'stream'
+import { buffer } from 'stream/consumers'
+import { describe, expect, it } from 'vitest'
+
+import {
+	createExportCipher,
+	decryptExport,
+	deriveExportKey,
+	ExportEncryptionError,
+} from '../report/export-encryption.js'
+
+async function encrypt(plaintext: string, passphrase: string): Promise<Buffer> {
+	const key = await deriveExportKey(passphrase)
+	return buffer(Readable.from([Buffer.from(plaintext)]).pipe(createExportCipher(key)))
+}
+
+describe('export encryption', () => {
+	it('should decrypt with the passphrase it was encrypted with', async () => {
+		const encrypted = await encrypt('id,action\n1,data.read\n', 'correct horse')
+
+		expect(encrypted.includes(Buffer.from('data.read'))).toBe(false)
+		await expect(decryptExport(encrypted, 'correct horse')).resolves.toEqual(
+			Buffer.from('id,action\n1,data.read\n')
+		)
+	})
+
+	it('should encrypt empty exports', async () => {
+		const key = await deriveExportKey('correct horse')
+		const encrypted = await buffer(Readable.from([]).pipe(createExportCipher(key)))
+
+		await expect(decryptExport(encrypted, 'correct horse')).resolves.toHaveLength(0)
+	})
+
+	it('should reject a wrong passphrase', async () => {
+		const encrypted = await encrypt('secret', 'correct horse')
+
+		await expect(decryptExport(encrypted, 'battery staple')).rejects.toBeInstanceOf(
+			ExportEncryptionError
+		)
+	})
+
+	it('should reject files that are not encrypted exports', async () => {
+		await expect(decryptExport(Buffer.from('id,action\n'), 'correct horse')).rejects.toThrow(
+			'Not an encrypted export file'
+		)
+	})
+})
@@ -0,0 +1,471 @@
+/**
+ * Tests for asynchronous export jobs
+ */
+
+import { Readable } from 'stream'
+import { PgDialect } from 'drizzle-orm/pg-core'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { ExportJobError, ExportJobService } from '../report/export-jobs.js'
+import { createQuery } from './helpers/drizzle-query.js'
+
+function createJobRow(overrides: Record<string, unknown> = {}) {
+	return {
+		id: 'job-1',
+		organizationId: 'org-1',
+		requestedBy: 'user-1',
+		status: 'pending',
+		format: 'csv',
+		compression: 'gzip',
+		includeMetadata: true,
+		filter: { actions: ['data.read'] },
+		progress: 0,
+		totalRecords: null,
+		recordCount: null,
+		size: null,
+		checksum: null,
+		filename: null,
+		contentType: null,
+		storageKey: null,
+		error: null,
+		createdAt: '2025-01-01T00:00:00.000Z',
+		startedAt: null,
+		completedAt: null,
+		expiresAt: null,
+		...overrides,
+	}
+}
+
+const storedExport = {
+	exportId: 'job-1',
+	format: 'csv',
+	exportedAt: '2025-01-01T00:00:01.000Z',
+	filename: 'audit-events-job-1.csv.gz',
+	contentType: 'application/gzip',
+	recordCount: 2500,
+	size: 4096,
+	checksum: 'sha256:abc',
+	compression: 'gzip',
+	key: 'audit-reports/org-1/exports/audit-events-job-1.csv.gz',
+	location: '/reports/audit-reports/org-1/exports/audit-events-job-1.csv.gz',
+}
+
+describe('ExportJobService', () => {
+	let mockDb: any
+	let mockStreaming: any
+	let mockInngest: any
+	let keyWrapper: any
+	let service: ExportJobService
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		mockDb = { select: vi.fn(), insert: vi.fn(), update: vi.fn() }
+		mockStreaming = {
+			countEvents: vi.fn().mockResolvedValue(2500),
+			exportToStorage: vi.fn().mockResolvedValue(storedExport),
+			readStoredExport: vi.fn(),
+			deleteStoredExport: vi.fn().mockResolvedValue(undefined),
+			readEvents: vi.fn(),
+			storeRenderedExport: vi.fn().mockResolvedValue(storedExport),
+		}
+		mockInngest = { send: vi.fn().mockResolvedValue({ ids: ['run-1'] }) }
+		keyWrapper = {
+			currentKeyId: 'kms-key-1',
+			wrapKey: vi.fn().mockResolvedValue({ keyId: 'kms-key-1', wrappedKey: 'wrapped-key' }),
+			unwrapKey: vi.fn(),
+		}
+		service = new ExportJobService(mockDb, mockStreaming, mockInngest, {
+			downloadTtl: 60_000,
+			keyWrapper,
+		})
+	})
+
+	describe('createJob', () => {
+		it('should persist a pending job and queue it for the worker', async () => {
+			const insert = createQuery([createJobRow()])
+			mockDb.insert.mockReturnValueOnce(insert)
+
+			const job = await service.createJob({
+				organizationId: 'org-1',
+				requestedBy: 'user-1',
+				filter: { actions: ['data.read'] },
+				format: 'csv',
+				compression: 'gzip',
+			})
+
+			expect(insert.values).toHaveBeenCalledWith(
+				expect.objectContaining({
+					id: expect.stringMatching(/^[0-9a-f-]{36}$/),
+					organizationId: 'org-1',
+					status: 'pending',
+					filter: { actions: ['data.read'] },
+				})
+			)
+			expect(mockInngest.send).toHaveBeenCalledWith({
+				name: 'exports/export.requested',
+				data: { jobId: 'job-1' },
+			})
+			expect(job).toMatchObject({ id: 'job-1', status: 'pending', progress: 0 })
+			expect(job.totalRecords).toBeUndefined()
+		})
+
+		it('should keep the key derived from the passphrase wrapped by the KMS', async () => {
+			const insert = createQuery([createJobRow()])
+			mockDb.insert.mockReturnValueOnce(insert)
+
+			await service.createJob({
+				organizationId: 'org-1',
+				requestedBy: 'user-1',
+				format: 'csv',
+				passphrase: 'correct horse',
+			})
+
+			const [key] = keyWrapper.wrapKey.mock.calls[0]
+			expect(key).toHaveLength(32)
+			const { encryption } = insert.values.mock.calls[0][0]
+			expect(encryption).toEqual({
+				algorithm: 'aes-256-gcm',
+				salt: expect.any(String),
+				keyId: 'kms-key-1',
+				wrappedKey: 'wrapped-key',
+			})
+			expect(JSON.stringify(encryption)).not.toContain(key.toString('base64'))
+			expect(JSON.stringify(encryption)).not.toContain('correct horse')
+		})
+
+		it('should refuse encrypted exports without a key wrapper', async () => {
+			service = new ExportJobService(mockDb, mockStreaming, mockInngest)
+
+			await expect(
+				service.createJob({
+					organizationId: 'org-1',
+					requestedBy: 'user-1',
+					format: 'csv',
+					passphrase: 'correct horse',
+				})
+			).rejects.toMatchObject({ code: 'NOT_SUPPORTED' })
+			expect(mockDb.insert).not.toHaveBeenCalled()
+		})
+
+		it('should mark the job failed when it cannot be queued', async () => {
+			const failedUpdate = createQuery(undefined)
+			mockDb.insert.mockReturnValueOnce(createQuery([createJobRow()]))
+			mockDb.update.mockReturnValueOnce(failedUpdate)
+			mockInngest.send.mockRejectedValueOnce(new Error('Inngest unavailable'))
+
+			await expect(
+				service.createJob({ organizationId: 'org-1', requestedBy: 'user-1', format: 'csv' })
+			).rejects.toThrow('Failed to queue export job job-1: Inngest unavailable')
+			expect(failedUpdate.set).toHaveBeenCalledWith(
+				expect.objectContaining({
+					status: 'failed',
+					error: 'Failed to queue export job: Inngest unavailable',
+				})
+			)
+		})
+	})
+
+	describe('processJob', () => {
+		it('should do nothing when the job is no longer pending', async () => {
+			mockDb.update.mockReturnValueOnce(createQuery([]))
+
+			await expect(service.processJob('job-1')).resolves.toBeNull()
+			expect(mockStreaming.exportToStorage).not.toHaveBeenCalled()
+		})
+
+		it('should stream the export into storage and record the outcome', async () => {
+			const completedUpdate = createQuery([
+				createJobRow({ status: 'completed', progress: 100, storageKey: storedExport.key }),
+			])
+			mockDb.update
+				.mockReturnValueOnce(createQuery([createJobRow({ status: 'processing' })]))
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(completedUpdate)
+
+			const job = await service.processJob('job-1')
+
+			expect(mockStreaming.exportToStorage).toHaveBeenCalledWith(
+				{ actions: ['data.read'], organizationId: 'org-1' },
+				expect.objectContaining({ format: 'csv', compression: 'gzip', exportId: 'job-1' })
+			)
+			const values = completedUpdate.set.mock.calls[0][0]
+			expect(values).toMatchObject({
+				status: 'completed',
+				progress: 100,
+				recordCount: 2500,
+				checksum: 'sha256:abc',
+				storageKey: storedExport.key,
+			})
+			expect(new Date(values.expiresAt).getTime() - new Date(values.completedAt).getTime()).toBe(
+				60_000
+			)
+			expect(job?.status).toBe('completed')
+		})
+
+		it('should record progress after each batch', async () => {
+			const progressUpdate = createQuery([{ id: 'job-1' }])
+			mockDb.update
+				.mockReturnValueOnce(createQuery([createJobRow({ status: 'processing' })]))
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(progressUpdate)
+				.mockReturnValueOnce(createQuery([createJobRow({ status: 'completed' })]))
+			mockStreaming.exportToStorage.mockImplementationOnce(async (_filter: any, options: any) => {
+				await options.onProgress(1000)
+				return storedExport
+			})
+
+			await service.processJob('job-1')
+
+			expect(progressUpdate.set).toHaveBeenCalledWith({ progress: 40, recordCount: 1000 })
+		})
+
+		it('should stop without failing the job when it is cancelled mid-export', async () => {
+			mockDb.update
+				.mockReturnValueOnce(createQuery([createJobRow({ status: 'processing' })]))
+				.mockReturnValueOnce(createQuery([]))
+				// The progress update no longer matches a processing job
+				.mockReturnValueOnce(createQuery([]))
+			mockDb.select.mockReturnValueOnce(createQuery([createJobRow({ status: 'cancelled' })]))
+			mockStreaming.exportToStorage.mockImplementationOnce(async (_filter: any, options: any) => {
+				await options.onProgress(1000)
+				return storedExport
+			})
+
+			const job = await service.processJob('job-1')
+
+			expect(job?.status).toBe('cancelled')
+			expect(mockDb.update).toHaveBeenCalledTimes(3)
+		})
+
+		it('should discard the file when the job is cancelled after the last batch', async () => {
+			mockDb.update
+				.mockReturnValueOnce(createQuery([createJobRow({ status: 'processing' })]))
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(createQuery([]))
+			mockDb.select.mockReturnValueOnce(createQuery([createJobRow({ status: 'cancelled' })]))
+
+			const job = await service.processJob('job-1')
+
+			expect(mockStreaming.deleteStoredExport).toHaveBeenCalledWith(storedExport.key)
+			expect(job?.status).toBe('cancelled')
+		})
+
+		it('should pass the columns and encryption key to the export', async () => {
+			const key = Buffer.alloc(32, 1)
+			const salt = Buffer.alloc(16, 2)
+			const completedUpdate = createQuery([createJobRow({ status: 'completed' })])
+			keyWrapper.unwrapKey.mockResolvedValueOnce(key)
+			mockDb.update
+				.mockReturnValueOnce(
+					createQuery([
+						createJobRow({
+							status: 'processing',
+							columns: ['id', 'action'],
+							encryption: {
+								algorithm: 'aes-256-gcm',
+								salt: salt.toString('base64'),
+								keyId: 'kms-key-1',
+								wrappedKey: 'wrapped-key',
+							},
+						}),
+					])
+				)
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(completedUpdate)
+
+			await service.processJob('job-1')
+
+			expect(keyWrapper.unwrapKey).toHaveBeenCalledWith({
+				keyId: 'kms-key-1',
+				wrappedKey: 'wrapped-key',
+			})
+			expect(mockStreaming.exportToStorage).toHaveBeenCalledWith(
+				expect.anything(),
+				expect.objectContaining({ columns: ['id', 'action'], encryption: { key, salt } })
+			)
+			// The key is dropped once the file is written
+			expect(completedUpdate.set.mock.calls[0][0].encryption).toBeDefined()
+		})
+
+		it('should fail an encrypted job whose key is gone rather than export it in clear', async () => {
+			const failedUpdate = createQuery(undefined)
+			mockDb.update
+				.mockReturnValueOnce(
+					createQuery([
+						createJobRow({
+							status: 'processing',
+							encryption: { algorithm: 'aes-256-gcm', salt: 'c2FsdA==' },
+						}),
+					])
+				)
+				.mockReturnValueOnce(failedUpdate)
+
+			await expect(service.processJob('job-1')).rejects.toThrow(
+				'The encryption key of export job job-1 is not available'
+			)
+			expect(mockStreaming.exportToStorage).not.toHaveBeenCalled()
+			expect(failedUpdate.set).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed' }))
+		})
+
+		it('should render PDF exports in one piece', async () => {
+			const pdfExporter = {
+				exportAuditEvents: vi.fn().mockResolvedValue({
+					data: Buffer.from('%PDF-1.4'),
+					contentType: 'application/pdf',
+				}),
+			}
+			service = new ExportJobService(mockDb, mockStreaming, mockInngest, { pdfExporter })
+			mockStreaming.countEvents.mockResolvedValueOnce(2)
+			mockStreaming.readEvents.mockImplementationOnce(async function* () {
+				yield { id: 1 }
+				yield { id: 2 }
+			})
+			mockDb.update
+				.mockReturnValueOnce(
+					createQuery([createJobRow({ status: 'processing', format: 'pdf', compression: 'none' })])
+				)
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(createQuery([createJobRow({ status: 'completed', format: 'pdf' })]))
+
+			await service.processJob('job-1')
+
+			expect(pdfExporter.exportAuditEvents).toHaveBeenCalledWith(
+				[{ id: 1 }, { id: 2 }],
+				expect.objectContaining({ format: 'pdf' }),
+				expect.anything()
+			)
+			expect(mockStreaming.storeRenderedExport).toHaveBeenCalledWith(
+				'org-1',
+				expect.objectContaining({ exportId: 'job-1', extension: 'pdf', recordCount: 2 }),
+				{ compression: 'none', encryption: undefined }
+			)
+			expect(mockStreaming.exportToStorage).not.toHaveBeenCalled()
+		})
+
+		it('should fail PDF exports over the size limit', async () => {
+			service = new ExportJobService(mockDb, mockStreaming, mockInngest, {
+				pdfExporter: { exportAuditEvents: vi.fn() },
+				maxPdfRecords: 1000,
+			})
+			const failedUpdate = createQuery(undefined)
+			mockDb.update
+				.mockReturnValueOnce(createQuery([createJobRow({ status: 'processing', format: 'pdf' })]))
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(failedUpdate)
+
+			await expect(service.processJob('job-1')).rejects.toThrow(/limited to 1000 events/)
+			expect(mockStreaming.readEvents).not.toHaveBeenCalled()
+		})
+
+		it('should mark the job failed when the export fails', async () => {
+			const failedUpdate = createQuery(undefined)
+			mockDb.update
+				.mockReturnValueOnce(createQuery([createJobRow({ status: 'processing' })]))
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(failedUpdate)
+			mockStreaming.exportToStorage.mockRejectedValueOnce(new Error('Storage unavailable'))
+
+			await expect(service.processJob('job-1')).rejects.toThrow('Storage unavailable')
+			expect(failedUpdate.set).toHaveBeenCalledWith(
+				expect.objectContaining({ status: 'failed', error: 'Storage unavailable' })
+			)
+		})
+	})
+
+	describe('cancelJob', () => {
+		it('should refuse to cancel a finished job', async () => {
+			mockDb.update.mockReturnValueOnce(createQuery([]))
+			mockDb.select.mockReturnValueOnce(createQuery([createJobRow({ status: 'completed' })]))
+
+			const error = await service.cancelJob('org-1', 'job-1').catch((e) => e)
+
+			expect(error).toBeInstanceOf(ExportJobError)
+			expect(error.code).toBe('NOT_CANCELLABLE')
+		})
+
+		it('should report unknown jobs as not found', async () => {
+			mockDb.update.mockReturnValueOnce(createQuery([]))
+			mockDb.select.mockReturnValueOnce(createQuery([]))
+
+			await expect(service.cancelJob('org-1', 'job-1')).rejects.toMatchObject({ code: 'NOT_FOUND' })
+		})
+	})
+
+	describe('openDownload', () => {
+		it('should open the stored file of a completed job', async () => {
+			const stream = Readable.from(['data'])
+			mockStreaming.readStoredExport.mockResolvedValueOnce(stream)
+			mockDb.select.mockReturnValueOnce(
+				createQuery([
+					createJobRow({
+						status: 'completed',
+						storageKey: storedExport.key,
+						expiresAt: new Date(Date.now() + 60_000).toISOString(),
+					}),
+				])
+			)
+
+			const download = await service.openDownload('org-1', 'job-1')
+
+			expect(mockStreaming.readStoredExport).toHaveBeenCalledWith(storedExport.key)
+			expect(download.stream).toBe(stream)
+		})
+
+		it('should refuse jobs that are still running', async () => {
+			mockDb.select.mockReturnValueOnce(createQuery([createJobRow({ status: 'processing' })]))
+
+			await expect(service.openDownload('org-1', 'job-1')).rejects.toMatchObject({
+				code: 'NOT_READY',
+			})
+		})
+
+		it('should refuse downloads after the job expires', async () => {
+			mockDb.select.mockReturnValueOnce(
+				createQuery([
+					createJobRow({
+						status: 'completed',
+						storageKey: storedExport.key,
+						expiresAt: new Date(Date.now() - 1000).toISOString(),
+					}),
+				])
+			)
+
+			await expect(service.openDownload('org-1', 'job-1')).rejects.toMatchObject({
+				code: 'EXPIRED',
+			})
+			expect(mockStreaming.readStoredExport).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('expireJobs', () => {
+		it('should delete the files of expired jobs', async () => {
+			const expiredUpdate = createQuery(undefined)
+			mockDb.select.mockReturnValueOnce(
+				createQuery([createJobRow({ status: 'completed', storageKey: storedExport.key })])
+			)
+			mockDb.update.mockReturnValueOnce(expiredUpdate)
+
+			await expect(service.expireJobs()).resolves.toBe(1)
+			expect(mockStreaming.deleteStoredExport).toHaveBeenCalledWith(storedExport.key)
+			expect(expiredUpdate.set).toHaveBeenCalledWith({ status: 'expired', storageKey: null })
+		})
+	})
+
+	describe('failStalledJobs', () => {
+		it('should fail jobs that did not finish and clear their keys', async () => {
+			const stalledUpdate = createQuery([{ id: 'job-1' }, { id: 'job-2' }])
+			mockDb.update.mockReturnValueOnce(stalledUpdate)
+
+			await expect(service.failStalledJobs(new Date('2025-01-02T00:00:00.000Z'))).resolves.toBe(2)
+			const changes = stalledUpdate.set.mock.calls[0][0]
+			expect(changes).toMatchObject({
+				status: 'failed',
+				completedAt: '2025-01-02T00:00:00.000Z',
+			})
+			expect(new PgDialect().sqlToQuery(changes.encryption).sql).toContain(`- 'wrappedKey'`)
+			// Six hours before now by default
+			const { params } = new PgDialect().sqlToQuery(stalledUpdate.where.mock.calls[0][0])
+			expect(params).toContain('2025-01-01T18:00:00.000Z')
+		})
+	})
+})
@@ -0,0 +1,98 @@
+/**
+ * Tests for full-text search over audit events
+ */
+
+import { PgDialect } from 'drizzle-orm/pg-core'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { AUDIT_LOG_SEARCH_VECTOR } from '@repo/audit-db'
+
+import {
+	AuditSearchService,
+	textSearchCondition,
+	textSearchQuery,
+	textSearchSnippet,
+} from '../search/full-text-search.js'
+import { createQuery } from './helpers/drizzle-query.js'
+
+const dialect = new PgDialect()
+
+describe('full-text search SQL', () => {
+	it('should match on the indexed search expression', () => {
+		const rendered = dialect.sqlToQuery(textSearchCondition(textSearchQuery('failed login')))
+
+		// The planner only uses audit_log_search_idx for the exact indexed expression
+		expect(rendered.sql).toBe(`${AUDIT_LOG_SEARCH_VECTOR} @@ websearch_to_tsquery('english', $1)`)
+		expect(rendered.params).toEqual(['failed login'])
+	})
+
+	it('should bind the search text instead of inlining it', () => {
+		const rendered = dialect.sqlToQuery(textSearchSnippet(textSearchQuery("x'); drop table --")))
+
+		expect(rendered.sql).not.toContain('drop table')
+		expect(rendered.params).toContain("x'); drop table --")
+	})
+
+	it('should escape the event text before highlighting it', () => {
+		const rendered = dialect.sqlToQuery(textSearchSnippet(textSearchQuery('script')))
+
+		expect(rendered.sql).toMatch(/^ts_headline\('english', replace\(replace\(replace\(replace\(/)
+		expect(rendered.sql).toContain(`'&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;')`)
+	})
+})
+
+describe('AuditSearchService', () => {
+	let mockDb: any
+	let service: AuditSearchService
+
+	beforeEach(() => {
+		mockDb = { select: vi.fn() }
+		service = new AuditSearchService(mockDb)
+	})
+
+	it('should return ranked hits with snippets and the total', async () => {
+		const event = { id: 7, action: 'auth.login.failure', organizationId: 'org-1' }
+		const page = createQuery([{ event, rank: '0.42', snippet: 'auth.<mark>login</mark>.failure' }])
+		mockDb.select.mockReturnValueOnce(page).mockReturnValueOnce(createQuery([{ count: '12' }]))
+
+		const result = await service.search({
+			organizationId: 'org-1',
+			query: 'login',
+			filter: { statuses: ['failure'] },
+			limit: 10,
+			offset: 10,
+		})
+
+		expect(result).toEqual({
+			hits: [{ event, rank: 0.42, snippet: 'auth.<mark>login</mark>.failure' }],
+			total: 12,
+			limit: 10,
+			offset: 10,
+		})
+		expect(page.limit).toHaveBeenCalledWith(10)
+		expect(page.offset).toHaveBeenCalledWith(10)
+
+		const where = dialect.sqlToQuery(page.where.mock.calls[0][0])
+		expect(where.sql).toContain('"audit_log"."organization_id" = $1')
+		expect(where.sql).toContain('"audit_log"."status" in ($2)')
+		expect(where.sql).toContain("@@ websearch_to_tsquery('english', $3)")
+		expect(where.params).toEqual(['org-1', 'failure', 'login'])
+	})
+
+	it('should not query the database for blank text', async () => {
+		const result = await service.search({ organizationId: 'org-1', query: '   ' })
+
+		expect(result).toEqual({ hits: [], total: 0, limit: 50, offset: 0 })
+		expect(mockDb.select).not.toHaveBeenCalled()
+	})
+
+	it('should cap the page size', async () => {
+		const page = createQuery([])
+		mockDb.select.mockReturnValueOnce(page).mockReturnValueOnce(createQuery([{ count: 0 }]))
+
+		const result = await service.search({ organizationId: 'org-1', query: 'export', limit: 50_000 })
+
+		expect(page.limit).toHaveBeenCalledWith(1000)
+		expect(result.limit).toBe(1000)
+	})
+})
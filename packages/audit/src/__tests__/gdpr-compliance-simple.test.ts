@@ -25,6 +25,6 @@ describe('GDPRComplianceService - Simple Tests', () => {
 		expect(typeof service.deleteUserDataWithAuditTrail).toBe('function')
 		expect(typeof service.applyRetentionPolicies).toBe('function')
 		expect(typeof service.getPseudonymMapping).toBe('function')
-		expect(typeof service.getOriginalId).toBe('function')
+		expect(typeof service.reidentify).toBe('function')
 	})
 })
@@ -1,7 +1,9 @@
 import { createHash } from 'crypto'
+import { PgDialect } from 'drizzle-orm/pg-core'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
 import { GDPRComplianceService } from '../gdpr/gdpr-compliance.js'
+import { createQuery } from './helpers/drizzle-query.js'
 
 import type { AuditLogEvent } from '../types.js'
 
@@ -238,7 +240,8 @@ describe('GDPRComplianceService', () => {
 
 			expect(result.pseudonymId).toMatch(/^pseudo-[a-f0-9]{16}$/)
 			expect(result.recordsAffected).toBe(3)
-			expect(gdprService.getPseudonymMapping('user-123')).toBe(result.pseudonymId)
+			// Hash pseudonyms are one-way and never stored
+			expect(await gdprService.getPseudonymMapping('user-123')).toBeUndefined()
 		})
 
 		it('should pseudonymize user data with token strategy', async () => {
@@ -271,13 +274,10 @@ describe('GDPRComplianceService', () => {
 			mockDb.update.mockReturnValue(mockQueryBuilder)
 			mockDb.insert.mockReturnValue(createMockQueryBuilder([]))
 
-			const result = await gdprService.pseudonymizeUserData('user-123', 'hash', 'admin-user')
-
-			// Test forward mapping
-			expect(gdprService.getPseudonymMapping('user-123')).toBe(result.pseudonymId)
+			const result = await gdprService.pseudonymizeUserData('user-123', 'token', 'admin-user')
 
-			// Test reverse mapping
-			expect(gdprService.getOriginalId(result.pseudonymId)).toBe('user-123')
+			// Test forward mapping, kept in the pseudonym vault
+			expect(await gdprService.getPseudonymMapping('user-123')).toBe(result.pseudonymId)
 		})
 	})
 
@@ -593,3 +593,104 @@ describe('GDPRComplianceService', () => {
 		})
 	})
 })
+
+describe('GDPRComplianceService erasure', () => {
+	const dialect = new PgDialect()
+	let rows: Array<{ id: number; principalId: string; organizationId: string; action: string }>
+	let service: GDPRComplianceService
+
+	/**
+	 * Whether a stored event matches a rendered audit_log condition on principal, organization and action
+	 */
+	function matches(row: (typeof rows)[number], condition: any): boolean {
+		const { sql, params } = dialect.sqlToQuery(condition)
+		const param = (column: string) => {
+			const match = new RegExp(`"audit_log"."${column}" = \\$(\\d+)`).exec(sql)
+			return match ? params[Number(match[1]) - 1] : undefined
+		}
+		const actions = (negated: boolean) => {
+			const match = new RegExp(
+				`"audit_log"."action" ${negated ? 'not in' : 'in'} \\(([^)]*)\\)`
+			).exec(sql)
+			return match?.[1].split(', ').map((placeholder) => params[Number(placeholder.slice(1)) - 1])
+		}
+		const included = actions(false)
+		const excluded = actions(true)
+		return (
+			(param('principal_id') === undefined || row.principalId === param('principal_id')) &&
+			(param('organization_id') === undefined || row.organizationId === param('organization_id')) &&
+			(!included || included.includes(row.action)) &&
+			(!excluded || !excluded.includes(row.action))
+		)
+	}
+
+	beforeEach(() => {
+		rows = [
+			{ id: 1, principalId: 'user-123', organizationId: 'org-1', action: 'fhir.patient.read' },
+			{ id: 2, principalId: 'user-123', organizationId: 'org-1', action: 'auth.login.success' },
+			{ id: 3, principalId: 'user-123', organizationId: 'org-1', action: 'data.export' },
+			{ id: 4, principalId: 'user-456', organizationId: 'org-1', action: 'data.export' },
+		]
+		const db: any = {
+			select: vi.fn(() => {
+				const query = createQuery(undefined)
+				query.then = (resolve: any, reject: any) =>
+					Promise.resolve(rows.filter((row) => matches(row, query.where.mock.calls[0][0]))).then(
+						resolve,
+						reject
+					)
+				return query
+			}),
+			delete: vi.fn(() => {
+				const query = createQuery(undefined)
+				query.then = (resolve: any, reject: any) => {
+					const deleted = rows.filter((row) => matches(row, query.where.mock.calls[0][0]))
+					rows = rows.filter((row) => !deleted.includes(row))
+					return Promise.resolve(deleted.map(({ id }) => ({ id }))).then(resolve, reject)
+				}
+				return query
+			}),
+			update: vi.fn(() => {
+				const query = createQuery(undefined)
+				query.then = (resolve: any, reject: any) => {
+					const updated = rows.filter((row) => matches(row, query.where.mock.calls[0][0]))
+					for (const row of updated) row.principalId = query.set.mock.calls[0][0].principalId
+					return Promise.resolve(updated.map(({ id }) => ({ id }))).then(resolve, reject)
+				}
+				return query
+			}),
+		}
+		const client: any = {
+			getDatabase: () => db,
+			executeMonitoredQuery: (queryFn: any) => queryFn(db),
+		}
+		const legalHolds: any = {
+			enforceOnEvents: vi.fn(async (_operation: string, criteria: any) => ({
+				releasable: criteria,
+				recordsHeld: 0,
+				holdIds: [],
+			})),
+		}
+		service = new GDPRComplianceService(client, { log: vi.fn() } as any, legalHolds)
+	})
+
+	it('should delete the subject events and pseudonymize only the compliance ones', async () => {
+		const result = await service.deleteUserDataWithAuditTrail('user-123', 'admin-user', true, {
+			organizationId: 'org-1',
+		})
+
+		expect(result).toEqual({ recordsDeleted: 2, complianceRecordsPreserved: 1, recordsHeld: 0 })
+		expect(rows.map(({ id }) => id)).toEqual([2, 4])
+		expect(rows[0].principalId).toMatch(/^pseudo-[a-f0-9]{16}$/)
+		expect(rows[1].principalId).toBe('user-456')
+	})
+
+	it('should delete every subject event when compliance audits are not preserved', async () => {
+		const result = await service.deleteUserDataWithAuditTrail('user-123', 'admin-user', false, {
+			organizationId: 'org-1',
+		})
+
+		expect(result.recordsDeleted).toBe(3)
+		expect(rows.map(({ id }) => id)).toEqual([4])
+	})
+})
@@ -0,0 +1,370 @@
+/**
+ * Tests for the per-organization audit hash chain
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { CryptoService, GENESIS_CHAIN_HASH } from '../crypto.js'
+import { GDPRComplianceService } from '../gdpr/gdpr-compliance.js'
+import { HashChainService, recordChainRemovals } from '../integrity/hash-chain.js'
+import { createQuery } from './helpers/drizzle-query.js'
+
+import type { SecurityConfig } from '../config/types.js'
+import type { ChainLink } from '../integrity/hash-chain.js'
+
+const crypto = new CryptoService({
+	enableIntegrityVerification: true,
+	hashAlgorithm: 'SHA-256',
+	enableEventSigning: false,
+	encryptionKey: 'test-key',
+	enableLogEncryption: false,
+	kms: { enabled: false },
+} as SecurityConfig)
+
+function buildChain(hashes: string[], startId = 1, previousHash = GENESIS_CHAIN_HASH): ChainLink[] {
+	let previous = previousHash
+	return hashes.map((hash, index) => {
+		const chainHash = crypto.generateChainHash(previous, hash)
+		const link: ChainLink = {
+			id: startId + index,
+			timestamp: new Date(Date.UTC(2025, 0, 1, 0, index)).toISOString(),
+			hash,
+			previousHash: previous,
+			chainHash,
+		}
+		previous = chainHash
+		return link
+	})
+}
+
+describe('HashChainService', () => {
+	let mockDb: any
+	let service: HashChainService
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(() => createQuery(undefined)),
+			execute: vi.fn().mockResolvedValue(undefined),
+			transaction: vi.fn(async (callback: (tx: any) => Promise<unknown>) => callback(mockDb)),
+		}
+		service = new HashChainService(mockDb, crypto)
+	})
+
+	describe('generateChainHash', () => {
+		it('should be deterministic and depend on the previous link', () => {
+			const first = crypto.generateChainHash(GENESIS_CHAIN_HASH, 'event-hash')
+
+			expect(first).toMatch(/^[a-f0-9]{64}$/)
+			expect(crypto.generateChainHash(GENESIS_CHAIN_HASH, 'event-hash')).toBe(first)
+			expect(crypto.generateChainHash(first, 'event-hash')).not.toBe(first)
+		})
+	})
+
+	describe('appendEvent', () => {
+		it('should link the first event of an organization to the genesis hash', async () => {
+			mockDb.select.mockReturnValueOnce(createQuery([]))
+			const insertQuery = createQuery([{ id: 1 }])
+			mockDb.insert.mockReturnValueOnce(insertQuery)
+
+			await service.appendEvent({
+				timestamp: '2025-01-01T00:00:00.000Z',
+				organizationId: 'org-1',
+				action: 'data.read',
+				status: 'success',
+				hash: 'event-hash',
+			})
+
+			expect(mockDb.execute).toHaveBeenCalledTimes(1)
+			expect(insertQuery.values).toHaveBeenCalledWith(
+				expect.objectContaining({
+					previousHash: GENESIS_CHAIN_HASH,
+					chainHash: crypto.generateChainHash(GENESIS_CHAIN_HASH, 'event-hash'),
+				})
+			)
+		})
+
+		it('should link a new event to the chain hash of the current tail', async () => {
+			mockDb.select.mockReturnValueOnce(createQuery([{ chainHash: 'tail-chain-hash' }]))
+			const insertQuery = createQuery([{ id: 2 }])
+			mockDb.insert.mockReturnValueOnce(insertQuery)
+
+			const row = await service.appendEvent({
+				timestamp: '2025-01-01T00:01:00.000Z',
+				organizationId: 'org-1',
+				action: 'data.update',
+				status: 'success',
+				hash: 'second-hash',
+			})
+
+			expect(row).toEqual({ id: 2 })
+			expect(insertQuery.values).toHaveBeenCalledWith(
+				expect.objectContaining({
+					previousHash: 'tail-chain-hash',
+					chainHash: crypto.generateChainHash('tail-chain-hash', 'second-hash'),
+				})
+			)
+		})
+	})
+
+	describe('verifySegment', () => {
+		it('should accept an intact chain', () => {
+			const rows = buildChain(['a', 'b', 'c'])
+
+			const result = service.verifySegment(rows, GENESIS_CHAIN_HASH)
+
+			expect(result.firstBreak).toBeUndefined()
+			expect(result.linksVerified).toBe(3)
+			expect(result.lastEventId).toBe(3)
+			expect(result.lastChainHash).toBe(rows[2].chainHash)
+		})
+
+		it('should detect a deleted row', () => {
+			const rows = buildChain(['a', 'b', 'c'])
+			rows.splice(1, 1)
+
+			const result = service.verifySegment(rows, GENESIS_CHAIN_HASH)
+
+			expect(result.linksVerified).toBe(1)
+			expect(result.firstBreak).toMatchObject({
+				eventId: 3,
+				reason: 'previous_hash_mismatch',
+				expectedHash: rows[0].chainHash,
+			})
+		})
+
+		it('should detect a modified event hash', () => {
+			const rows = buildChain(['a', 'b', 'c'])
+			rows[1].hash = 'tampered'
+
+			const result = service.verifySegment(rows, GENESIS_CHAIN_HASH)
+
+			expect(result.firstBreak).toMatchObject({
+				eventId: 2,
+				reason: 'chain_hash_mismatch',
+				actualHash: rows[1].chainHash,
+			})
+		})
+
+		it('should walk across a documented removal', () => {
+			const rows = buildChain(['a', 'b', 'c', 'd'])
+			const gaps = new Map([[rows[0].chainHash!, [rows[2].chainHash!]]])
+
+			const result = service.verifySegment([rows[0], rows[3]], GENESIS_CHAIN_HASH, gaps)
+
+			expect(result.firstBreak).toBeUndefined()
+			expect(result.linksVerified).toBe(2)
+			expect(result.removalsBridged).toBe(1)
+		})
+
+		it('should detect reordered rows', () => {
+			const rows = buildChain(['a', 'b', 'c'])
+			const reordered = [rows[0], rows[2], rows[1]]
+
+			const result = service.verifySegment(reordered, GENESIS_CHAIN_HASH)
+
+			expect(result.firstBreak).toMatchObject({ eventId: 3, reason: 'previous_hash_mismatch' })
+		})
+	})
+
+	describe('verifyChain', () => {
+		const request = {
+			organizationId: 'org-1',
+			startDate: '2025-01-01T00:00:00.000Z',
+			endDate: '2025-01-02T00:00:00.000Z',
+			verifiedBy: 'user-1',
+		}
+
+		it('should record a successful verification against the last event', async () => {
+			const anchor = buildChain(['anchor'], 9)[0]
+			const rows = buildChain(['a', 'b'], 10, anchor.chainHash!)
+			mockDb.select
+				.mockReturnValueOnce(createQuery([{ firstId: 10, lastId: 11 }]))
+				.mockReturnValueOnce(createQuery([{ id: 9, chainHash: anchor.chainHash }]))
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(createQuery(rows))
+			const insertQuery = createQuery(undefined)
+			mockDb.insert.mockReturnValueOnce(insertQuery)
+
+			const result = await service.verifyChain(request)
+
+			expect(result.intact).toBe(true)
+			expect(result.eventsVerified).toBe(2)
+			expect(insertQuery.values).toHaveBeenCalledWith(
+				expect.objectContaining({
+					auditLogId: 11,
+					verificationStatus: 'success',
+					verifiedBy: 'user-1',
+				})
+			)
+		})
+
+		it('should report the first broken link as tampered', async () => {
+			const rows = buildChain(['a', 'b', 'c'])
+			rows[2].chainHash = 'f'.repeat(64)
+			mockDb.select
+				.mockReturnValueOnce(createQuery([{ firstId: 1, lastId: 3 }]))
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(createQuery(rows))
+			const insertQuery = createQuery(undefined)
+			mockDb.insert.mockReturnValueOnce(insertQuery)
+
+			const result = await service.verifyChain(request)
+
+			expect(result.intact).toBe(false)
+			expect(result.eventsVerified).toBe(2)
+			expect(result.firstBreak).toMatchObject({ eventId: 3, reason: 'chain_hash_mismatch' })
+			expect(insertQuery.values).toHaveBeenCalledWith(
+				expect.objectContaining({
+					auditLogId: 3,
+					verificationStatus: 'tampered',
+					hashVerified: 'f'.repeat(64),
+				})
+			)
+		})
+
+		it('should walk the chain across batches', async () => {
+			const rows = buildChain(['a', 'b', 'c'])
+			mockDb.select
+				.mockReturnValueOnce(createQuery([{ firstId: 1, lastId: 3 }]))
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(createQuery(rows.slice(0, 2)))
+				.mockReturnValueOnce(createQuery(rows.slice(2)))
+
+			const result = await service.verifyChain({ ...request, batchSize: 2 })
+
+			expect(result.intact).toBe(true)
+			expect(result.eventsVerified).toBe(3)
+			expect(result.lastEventId).toBe(3)
+		})
+
+		it('should stay intact after retention deleted a row', async () => {
+			const rows = buildChain(['a', 'b', 'c', 'd'])
+			const removed = rows[1]
+			mockDb.delete = vi.fn(() =>
+				createQuery([
+					{
+						id: removed.id,
+						organizationId: 'org-1',
+						previousHash: removed.previousHash,
+						chainHash: removed.chainHash,
+					},
+				])
+			)
+			const tombstoneQuery = createQuery(undefined)
+			mockDb.insert.mockReturnValueOnce(tombstoneQuery)
+			const gdpr = new GDPRComplianceService(
+				{
+					getDatabase: () => mockDb,
+					executeOptimizedQuery: async () => [
+						{
+							policyName: 'minimal',
+							dataClassification: 'PUBLIC',
+							retentionDays: 30,
+							deleteAfterDays: 30,
+							isActive: 'true',
+						},
+					],
+				} as any,
+				{ log: vi.fn() } as any,
+				{
+					enforceOnEvents: async (_operation: string, criteria: any) => ({
+						releasable: criteria,
+						recordsHeld: 0,
+						holdIds: [],
+					}),
+				} as any
+			)
+
+			const [retention] = await gdpr.applyRetentionPolicies()
+
+			expect(retention.recordsDeleted).toBe(1)
+			const [tombstone] = tombstoneQuery.values.mock.calls[0][0]
+			expect(tombstone).toMatchObject({
+				auditLogId: 2,
+				verificationStatus: 'removed',
+				verificationDetails: expect.objectContaining({
+					reason: 'retention.delete',
+					organizationId: 'org-1',
+					policy: 'minimal',
+				}),
+			})
+
+			mockDb.select
+				.mockReturnValueOnce(createQuery([{ firstId: 1, lastId: 4 }]))
+				.mockReturnValueOnce(createQuery([]))
+				.mockReturnValueOnce(
+					createQuery([{ startHash: tombstone.expectedHash, endHash: tombstone.hashVerified }])
+				)
+				.mockReturnValueOnce(createQuery(rows.filter((row) => row !== removed)))
+			const verificationQuery = createQuery(undefined)
+			mockDb.insert.mockReturnValueOnce(verificationQuery)
+
+			const result = await service.verifyChain(request)
+
+			expect(result).toMatchObject({ intact: true, eventsVerified: 3, removalsBridged: 1 })
+			expect(verificationQuery.values).toHaveBeenCalledWith(
+				expect.objectContaining({ auditLogId: 4, verificationStatus: 'success' })
+			)
+		})
+
+		it('should not record anything when the range has no chained events', async () => {
+			mockDb.select.mockReturnValueOnce(createQuery([{ firstId: null, lastId: null }]))
+
+			const result = await service.verifyChain(request)
+
+			expect(result.intact).toBe(true)
+			expect(result.eventsVerified).toBe(0)
+			expect(mockDb.insert).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('recordChainRemovals', () => {
+		it('should record one tombstone per run of consecutive removed links', async () => {
+			const rows = buildChain(['a', 'b', 'c', 'd', 'e'])
+			const removed = [rows[3], rows[1], rows[2]].map((row) => ({
+				id: row.id,
+				organizationId: 'org-1',
+				previousHash: row.previousHash,
+				chainHash: row.chainHash,
+			}))
+			const insertQuery = createQuery(undefined)
+			mockDb.insert.mockReturnValueOnce(insertQuery)
+
+			const tombstones = await recordChainRemovals(mockDb, removed, {
+				reason: 'gdpr.erasure',
+				removedBy: 'admin-1',
+			})
+
+			expect(tombstones).toBe(1)
+			expect(insertQuery.values).toHaveBeenCalledWith([
+				expect.objectContaining({
+					auditLogId: 2,
+					verificationStatus: 'removed',
+					verifiedBy: 'admin-1',
+					expectedHash: rows[0].chainHash,
+					hashVerified: rows[3].chainHash,
+					verificationDetails: expect.objectContaining({
+						firstEventId: 2,
+						lastEventId: 4,
+						eventsRemoved: 3,
+					}),
+				}),
+			])
+		})
+
+		it('should skip rows written before the chain existed', async () => {
+			const tombstones = await recordChainRemovals(
+				mockDb,
+				[{ id: 1, organizationId: 'org-1', previousHash: null, chainHash: null }],
+				{ reason: 'retention.delete', removedBy: 'system' }
+			)
+
+			expect(tombstones).toBe(0)
+			expect(mockDb.insert).not.toHaveBeenCalled()
+		})
+	})
+})
@@ -0,0 +1,32 @@
+/**
+ * Shared stand-ins for database access in unit tests
+ */
+
+import { vi } from 'vitest'
+
+const QUERY_BUILDER_METHODS = [
+	'from',
+	'innerJoin',
+	'where',
+	'$dynamic',
+	'groupBy',
+	'orderBy',
+	'limit',
+	'offset',
+	'values',
+	'set',
+	'onConflictDoNothing',
+	'returning',
+]
+
+/**
+ * Drizzle query builder stand-in: every builder method chains, awaiting resolves the result
+ */
+export function createQuery(result: unknown) {
+	const query: any = {}
+	for (const method of QUERY_BUILDER_METHODS) {
+		query[method] = vi.fn(() => query)
+	}
+	query.then = (resolve: any, reject: any) => Promise.resolve(result).then(resolve, reject)
+	return query
+}
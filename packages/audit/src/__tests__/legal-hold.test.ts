@@ -0,0 +1,171 @@
+/**
+ * Tests for legal hold enforcement on destructive operations
+ */
+
+import { eq } from 'drizzle-orm'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { auditLog, legalHoldBlockedAction } from '@repo/audit-db'
+
+import { legalHoldCovers, LegalHoldService } from '../legal-hold/legal-hold.js'
+import { createQuery } from './helpers/drizzle-query.js'
+
+import type { LegalHold } from '../legal-hold/legal-hold.js'
+
+function hold(overrides: Partial<LegalHold> = {}): LegalHold {
+	return {
+		id: 'hold-1',
+		organizationId: 'org-1',
+		name: 'Smith v. Acme',
+		reason: 'Pending litigation',
+		custodian: 'legal@example.com',
+		status: 'active',
+		createdAt: '2024-01-01T00:00:00.000Z',
+		createdBy: 'admin-1',
+		...overrides,
+	}
+}
+
+const event = {
+	organizationId: 'org-1',
+	principalId: 'user-1',
+	targetResourceType: 'Patient',
+	targetResourceId: 'patient-1',
+	timestamp: '2024-03-15T10:00:00.000Z',
+}
+
+describe('legalHoldCovers', () => {
+	it('should cover every event of the organization when the scope is empty', () => {
+		expect(legalHoldCovers(hold(), event)).toBe(true)
+		expect(legalHoldCovers(hold(), { ...event, organizationId: 'org-2' })).toBe(false)
+	})
+
+	it('should narrow the covered events by principal and resource', () => {
+		expect(legalHoldCovers(hold({ principalId: 'user-1' }), event)).toBe(true)
+		expect(legalHoldCovers(hold({ principalId: 'user-2' }), event)).toBe(false)
+		expect(
+			legalHoldCovers(hold({ targetResourceType: 'Patient', targetResourceId: 'patient-2' }), event)
+		).toBe(false)
+	})
+
+	it('should narrow the covered events by date range', () => {
+		const range = { startDate: '2024-03-01T00:00:00.000Z', endDate: '2024-03-31T00:00:00.000Z' }
+		expect(legalHoldCovers(hold(range), event)).toBe(true)
+		expect(legalHoldCovers(hold(range), { ...event, timestamp: '2024-04-02T00:00:00.000Z' })).toBe(
+			false
+		)
+		// Postgres timestamps are compared as instants
+		expect(legalHoldCovers(hold(range), { ...event, timestamp: '2024-03-15 10:00:00+00' })).toBe(
+			true
+		)
+	})
+
+	it('should not cover events once released', () => {
+		expect(legalHoldCovers(hold({ status: 'released' }), event)).toBe(false)
+	})
+})
+
+describe('LegalHoldService', () => {
+	let selectQuery: any
+	let insertQuery: any
+	let mockDb: any
+	let service: LegalHoldService
+
+	beforeEach(() => {
+		selectQuery = createQuery([])
+		insertQuery = createQuery(undefined)
+		mockDb = {
+			select: vi.fn(() => selectQuery),
+			insert: vi.fn(() => insertQuery),
+		}
+		service = new LegalHoldService(mockDb)
+	})
+
+	describe('enforceOnRecords', () => {
+		it('should keep held records and record the blocked operation', async () => {
+			selectQuery = createQuery([hold({ principalId: 'user-1' }), hold({ id: 'hold-2' })])
+			const records = [
+				{ id: 1, ...event },
+				{ id: 2, ...event, principalId: 'user-2' },
+				{ id: 3, ...event, organizationId: 'org-2' },
+			]
+
+			const result = await service.enforceOnRecords('archive.secure_delete', records, {
+				requestedBy: 'admin-1',
+			})
+
+			expect(result.releasable.map((record) => record.id)).toEqual([3])
+			expect(result.recordsHeld).toBe(2)
+			expect(mockDb.insert).toHaveBeenCalledWith(legalHoldBlockedAction)
+			expect(insertQuery.values).toHaveBeenCalledWith([
+				{
+					organizationId: 'org-1',
+					holdIds: ['hold-1', 'hold-2'],
+					recordsBlocked: 2,
+					operation: 'archive.secure_delete',
+					requestedBy: 'admin-1',
+					details: undefined,
+				},
+			])
+		})
+
+		it('should not record anything when no hold covers the records', async () => {
+			const result = await service.enforceOnRecords('archive.cleanup', [{ id: 1, ...event }])
+
+			expect(result.releasable).toHaveLength(1)
+			expect(result.recordsHeld).toBe(0)
+			expect(mockDb.insert).not.toHaveBeenCalled()
+		})
+
+		it('should not look up holds for an empty selection', async () => {
+			const result = await service.enforceOnRecords('archive.secure_delete', [])
+
+			expect(result.recordsHeld).toBe(0)
+			expect(mockDb.select).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('enforceOnEvents', () => {
+		it('should record the held events per organization and exclude them', async () => {
+			selectQuery = createQuery([
+				{ organizationId: 'org-1', holdIds: ['hold-1'], events: '3' },
+				{ organizationId: 'org-2', holdIds: ['hold-2', 'hold-3'], events: '1' },
+			])
+
+			const result = await service.enforceOnEvents(
+				'gdpr.erasure',
+				eq(auditLog.principalId, 'user-1'),
+				{ requestedBy: 'dpo-1', details: { principalId: 'user-1' } }
+			)
+
+			expect(result.recordsHeld).toBe(4)
+			expect(result.holdIds).toEqual(['hold-1', 'hold-2', 'hold-3'])
+			expect(result.releasable).toBeDefined()
+			expect(insertQuery.values).toHaveBeenCalledWith([
+				expect.objectContaining({ organizationId: 'org-1', recordsBlocked: 3 }),
+				expect.objectContaining({ organizationId: 'org-2', recordsBlocked: 1 }),
+			])
+			expect(insertQuery.values.mock.calls[0][0][0]).toMatchObject({
+				operation: 'gdpr.erasure',
+				requestedBy: 'dpo-1',
+				details: { principalId: 'user-1' },
+			})
+		})
+
+		it('should not record anything when no event is held', async () => {
+			const result = await service.enforceOnEvents('retention.delete', undefined)
+
+			expect(result.recordsHeld).toBe(0)
+			expect(mockDb.insert).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('countHeldEvents', () => {
+		it('should count the held events without recording anything', async () => {
+			selectQuery = createQuery([{ events: '5' }])
+
+			await expect(service.countHeldEvents(eq(auditLog.principalId, 'user-1'))).resolves.toBe(5)
+			expect(mockDb.insert).not.toHaveBeenCalled()
+		})
+	})
+})
@@ -0,0 +1,213 @@
+/**
+ * Tests for signed daily Merkle checkpoints
+ */
+
+import { createHash } from 'crypto'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { CryptoService } from '../crypto.js'
+import { MerkleCheckpointService } from '../integrity/merkle-checkpoint.js'
+import { MerkleTree } from '../integrity/merkle-tree.js'
+import { createQuery } from './helpers/drizzle-query.js'
+
+import type { SecurityConfig } from '../config/types.js'
+import type { MerkleCheckpoint } from '../integrity/merkle-checkpoint.js'
+
+const crypto = new CryptoService({
+	enableIntegrityVerification: true,
+	hashAlgorithm: 'SHA-256',
+	enableEventSigning: true,
+	encryptionKey: 'test-key',
+	enableLogEncryption: false,
+	kms: { enabled: false },
+} as SecurityConfig)
+
+const leaves = [1, 2, 3, 4, 5].map((id) => ({
+	id,
+	hash: createHash('sha256').update(`event-${id}`).digest('hex'),
+}))
+
+describe('MerkleCheckpointService', () => {
+	let mockDb: any
+	let service: MerkleCheckpointService
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		mockDb = {
+			select: vi.fn(),
+			selectDistinct: vi.fn(),
+			insert: vi.fn(() => createQuery(undefined)),
+		}
+		service = new MerkleCheckpointService(mockDb, crypto)
+	})
+
+	async function signedCheckpoint(): Promise<MerkleCheckpoint> {
+		const tree = new MerkleTree(leaves.map((leaf) => leaf.hash))
+		const attested = {
+			organizationId: 'org-1',
+			checkpointDate: '2025-01-01',
+			merkleRoot: tree.root,
+			leafCount: leaves.length,
+			firstEventId: 1,
+			lastEventId: 5,
+		}
+		const { signature, algorithm } = await crypto.generateSignature(
+			service.checkpointPayload(attested)
+		)
+		return {
+			id: 7,
+			...attested,
+			signature,
+			signatureAlgorithm: algorithm,
+			createdAt: '2025-01-02T00:30:00.000Z',
+			createdBy: 'system',
+		}
+	}
+
+	describe('createCheckpoint', () => {
+		it('should sign and persist the Merkle root of the day', async () => {
+			const checkpointInsert = createQuery([{ id: 7 }])
+			const integrityInsert = createQuery(undefined)
+			mockDb.select.mockReturnValueOnce(createQuery([])).mockReturnValueOnce(createQuery(leaves))
+			mockDb.insert.mockReturnValueOnce(checkpointInsert).mockReturnValueOnce(integrityInsert)
+
+			const checkpoint = await service.createCheckpoint('org-1', '2025-01-01', 'system')
+
+			const expectedRoot = new MerkleTree(leaves.map((leaf) => leaf.hash)).root
+			const persisted = checkpointInsert.values.mock.calls[0][0]
+			expect(checkpoint).toEqual({ id: 7 })
+			expect(persisted).toMatchObject({
+				organizationId: 'org-1',
+				checkpointDate: '2025-01-01',
+				merkleRoot: expectedRoot,
+				leafCount: 5,
+				firstEventId: 1,
+				lastEventId: 5,
+				signatureAlgorithm: 'HMAC-SHA256',
+			})
+			expect(
+				await crypto.verifySignature(service.checkpointPayload(persisted), persisted.signature)
+			).toBe(true)
+			expect(integrityInsert.values).toHaveBeenCalledWith(
+				expect.objectContaining({
+					auditLogId: 5,
+					verificationStatus: 'success',
+					hashVerified: expectedRoot,
+				})
+			)
+		})
+
+		it('should return an existing checkpoint without recomputing it', async () => {
+			const existing = await signedCheckpoint()
+			mockDb.select.mockReturnValueOnce(createQuery([existing]))
+
+			const checkpoint = await service.createCheckpoint('org-1', '2025-01-01')
+
+			expect(checkpoint).toBe(existing)
+			expect(mockDb.select).toHaveBeenCalledTimes(1)
+			expect(mockDb.insert).not.toHaveBeenCalled()
+		})
+
+		it('should skip days without hashed events', async () => {
+			mockDb.select.mockReturnValueOnce(createQuery([])).mockReturnValueOnce(createQuery([]))
+
+			const checkpoint = await service.createCheckpoint('org-1', '2025-01-01')
+
+			expect(checkpoint).toBeNull()
+			expect(mockDb.insert).not.toHaveBeenCalled()
+		})
+
+		it('should reject malformed dates', async () => {
+			mockDb.select.mockReturnValueOnce(createQuery([]))
+
+			await expect(service.createCheckpoint('org-1', 'yesterday')).rejects.toThrow(
+				'Invalid checkpoint date'
+			)
+		})
+	})
+
+	describe('createDailyCheckpoints', () => {
+		it('should collect failures per organization without aborting the run', async () => {
+			mockDb.selectDistinct.mockReturnValueOnce(
+				createQuery([{ organizationId: 'org-1' }, { organizationId: 'org-2' }])
+			)
+			const existing = await signedCheckpoint()
+			mockDb.select
+				.mockReturnValueOnce(createQuery([existing]))
+				.mockReturnValueOnce(createQuery(Promise.reject(new Error('connection lost'))))
+
+			const summary = await service.createDailyCheckpoints('2025-01-01')
+
+			expect(summary.created).toEqual([existing])
+			expect(summary.failed).toEqual([{ organizationId: 'org-2', error: 'connection lost' }])
+		})
+	})
+
+	describe('getInclusionProof', () => {
+		it('should prove that an event belongs to the signed checkpoint', async () => {
+			const checkpoint = await signedCheckpoint()
+			mockDb.select
+				.mockReturnValueOnce(createQuery([{ id: 3, hash: leaves[2].hash, eventDay: '2025-01-01' }]))
+				.mockReturnValueOnce(createQuery([checkpoint]))
+				.mockReturnValueOnce(createQuery(leaves))
+
+			const result = await service.getInclusionProof(3, 'org-1')
+
+			expect(result).not.toBeNull()
+			expect(result!.verified).toBe(true)
+			expect(result!.proof.leafIndex).toBe(2)
+			expect(result!.checkpoint.signedPayload).toBe(service.checkpointPayload(checkpoint))
+			expect(
+				MerkleTree.verifyProof(leaves[2].hash, result!.proof.path, checkpoint.merkleRoot)
+			).toBe(true)
+		})
+
+		it('should flag a checkpoint whose events were altered after signing', async () => {
+			const checkpoint = await signedCheckpoint()
+			const tampered = leaves.map((leaf) =>
+				leaf.id === 4 ? { ...leaf, hash: 'f'.repeat(64) } : leaf
+			)
+			mockDb.select
+				.mockReturnValueOnce(createQuery([{ id: 3, hash: leaves[2].hash, eventDay: '2025-01-01' }]))
+				.mockReturnValueOnce(createQuery([checkpoint]))
+				.mockReturnValueOnce(createQuery(tampered))
+
+			const result = await service.getInclusionProof(3, 'org-1')
+
+			expect(result!.rootMatches).toBe(false)
+			expect(result!.proofValid).toBe(false)
+			expect(result!.signatureValid).toBe(true)
+			expect(result!.verified).toBe(false)
+		})
+
+		it('should flag a forged checkpoint signature', async () => {
+			const checkpoint = { ...(await signedCheckpoint()), signature: 'forged' }
+			mockDb.select
+				.mockReturnValueOnce(createQuery([{ id: 3, hash: leaves[2].hash, eventDay: '2025-01-01' }]))
+				.mockReturnValueOnce(createQuery([checkpoint]))
+				.mockReturnValueOnce(createQuery(leaves))
+
+			const result = await service.getInclusionProof(3, 'org-1')
+
+			expect(result!.signatureValid).toBe(false)
+			expect(result!.verified).toBe(false)
+		})
+
+		it('should return null when the day has not been checkpointed', async () => {
+			mockDb.select
+				.mockReturnValueOnce(createQuery([{ id: 3, hash: leaves[2].hash, eventDay: '2025-01-01' }]))
+				.mockReturnValueOnce(createQuery([]))
+
+			expect(await service.getInclusionProof(3, 'org-1')).toBeNull()
+		})
+
+		it('should return null for events stored after the checkpoint', async () => {
+			const checkpoint = await signedCheckpoint()
+			mockDb.select
+				.mockReturnValueOnce(createQuery([{ id: 9, hash: 'late', eventDay: '2025-01-01' }]))
+				.mockReturnValueOnce(createQuery([checkpoint]))
+
+			expect(await service.getInclusionProof(9, 'org-1')).toBeNull()
+		})
+	})
+})
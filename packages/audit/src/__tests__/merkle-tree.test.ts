@@ -0,0 +1,74 @@
+/**
+ * Tests for the Merkle tree used by daily integrity checkpoints
+ */
+
+import { createHash } from 'crypto'
+import { describe, expect, it } from 'vitest'
+
+import { MerkleTree } from '../integrity/merkle-tree.js'
+
+const eventHash = (n: number) => createHash('sha256').update(`event-${n}`).digest('hex')
+
+describe('MerkleTree', () => {
+	it('should refuse to build a tree without leaves', () => {
+		expect(() => new MerkleTree([])).toThrow('Cannot build a Merkle tree without leaves')
+	})
+
+	it('should use the leaf hash as root of a single-leaf tree', () => {
+		const tree = new MerkleTree([eventHash(1)])
+
+		expect(tree.root).toBe(MerkleTree.hashLeaf(eventHash(1)))
+		expect(tree.getProof(0).path).toEqual([])
+	})
+
+	it('should combine two leaves into one node', () => {
+		const tree = new MerkleTree([eventHash(1), eventHash(2)])
+
+		expect(tree.root).toBe(
+			MerkleTree.hashNode(MerkleTree.hashLeaf(eventHash(1)), MerkleTree.hashLeaf(eventHash(2)))
+		)
+	})
+
+	it('should domain separate leaves from interior nodes', () => {
+		const left = eventHash(1)
+		const right = eventHash(2)
+
+		expect(MerkleTree.hashLeaf(left + right)).not.toBe(MerkleTree.hashNode(left, right))
+	})
+
+	it('should produce valid proofs for every leaf of unbalanced trees', () => {
+		for (let size = 1; size <= 13; size++) {
+			const hashes = Array.from({ length: size }, (_, i) => eventHash(i))
+			const tree = new MerkleTree(hashes)
+
+			hashes.forEach((hash, index) => {
+				const proof = tree.getProof(index)
+				expect(proof.leafCount).toBe(size)
+				expect(MerkleTree.verifyProof(hash, proof.path, tree.root)).toBe(true)
+			})
+		}
+	})
+
+	it('should reject a proof for an event that is not in the tree', () => {
+		const tree = new MerkleTree([eventHash(1), eventHash(2), eventHash(3)])
+		const proof = tree.getProof(1)
+
+		expect(MerkleTree.verifyProof(eventHash(99), proof.path, tree.root)).toBe(false)
+	})
+
+	it('should change the root when any leaf changes', () => {
+		const hashes = [eventHash(1), eventHash(2), eventHash(3), eventHash(4)]
+		const original = new MerkleTree(hashes).root
+
+		expect(new MerkleTree([...hashes.slice(0, 3), eventHash(5)]).root).not.toBe(original)
+		expect(new MerkleTree(hashes.slice(0, 3)).root).not.toBe(original)
+		expect(new MerkleTree([hashes[1], hashes[0], hashes[2], hashes[3]]).root).not.toBe(original)
+	})
+
+	it('should reject out of range leaf indexes', () => {
+		const tree = new MerkleTree([eventHash(1)])
+
+		expect(() => tree.getProof(1)).toThrow('out of range')
+		expect(() => tree.getProof(-1)).toThrow('out of range')
+	})
+})
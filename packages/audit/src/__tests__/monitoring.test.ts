@@ -278,6 +278,38 @@ describe('MonitoringService', () => {
 	})
 })
 
+describe('MonitoringService notifications', () => {
+	it('should route alerts to organization rules when the default notifications are disabled', async () => {
+		const metricsCollector = {
+			isOnCooldown: vi.fn().mockResolvedValue(false),
+			setCooldown: vi.fn(),
+			recordAlertGenerated: vi.fn(),
+		}
+		const alertRouter = { dispatch: vi.fn().mockResolvedValue([]) }
+		const service = new MonitoringService(
+			{ notification: { enabled: false } } as any,
+			metricsCollector as any
+		)
+		service.setAlertRouter(alertRouter as any)
+
+		const alert = {
+			id: 'alert-1',
+			severity: 'HIGH',
+			type: 'SECURITY',
+			title: 'Suspicious Pattern Detected',
+			description: 'Unauthorized access attempts',
+			timestamp: new Date().toISOString(),
+			source: 'audit-monitoring',
+			metadata: { organizationId: 'org-1' },
+			acknowledged: false,
+			resolved: false,
+		} as Alert
+		await service.sendExternalAlert(alert)
+
+		expect(alertRouter.dispatch).toHaveBeenCalledWith(alert)
+	})
+})
+
 describe('DefaultMetricsCollector', () => {
 	let metricsCollector: DefaultMetricsCollector
 
@@ -0,0 +1,164 @@
+/**
+ * Tests for PII detection and redaction in the ingestion pipeline
+ */
+
+import { describe, expect, it } from 'vitest'
+
+import { PIIScanner, resolvePIIPolicy } from '../pii-scanner.js'
+import {
+	DEFAULT_VALIDATION_CONFIG,
+	scanAuditEventForPII,
+	validateAndSanitizeAuditEvent,
+} from '../validation.js'
+
+import type { PIIRedaction, PIIScanConfig } from '../pii-scanner.js'
+import type { AuditLogEvent } from '../types.js'
+
+describe('PIIScanner', () => {
+	const scan = (value: unknown, scanner = new PIIScanner({ enabled: true, action: 'redact' })) => {
+		const redactions: PIIRedaction[] = []
+		return { result: scanner.scanValue(value, 'field', redactions), redactions }
+	}
+
+	it('should redact built-in PII types', () => {
+		const { result, redactions } = scan(
+			'Contact jane.doe@example.com or +1 555-123-4567 from 192.168.1.100, SSN 123-45-6789, card 4111 1111 1111 1111'
+		)
+
+		expect(result).toBe(
+			'Contact [REDACTED:email] or [REDACTED:phone] from [REDACTED:ip_address], SSN [REDACTED:national_id], card [REDACTED:credit_card]'
+		)
+		expect(redactions.map((r) => r.type).sort()).toEqual([
+			'credit_card',
+			'email',
+			'ip_address',
+			'national_id',
+			'phone',
+		])
+	})
+
+	it('should leave identifiers and timestamps alone', () => {
+		const value = 'Order 1234567890123 updated at 2024-03-01T10:30:00.000Z by user-123'
+
+		expect(scan(value).result).toBe(value)
+	})
+
+	it('should only redact card numbers passing the Luhn check', () => {
+		const { redactions } = scan('card 4111111111111112')
+
+		expect(redactions.map((r) => r.type)).not.toContain('credit_card')
+	})
+
+	it('should tokenize consistently', () => {
+		const scanner = new PIIScanner({ enabled: true, action: 'tokenize' }, 'secret')
+
+		const first = scan('jane.doe@example.com', scanner).result
+		const second = scan('Mail jane.doe@example.com', scanner).result
+
+		expect(first).toMatch(/^\[email:[0-9a-f]{16}\]$/)
+		expect(second).toBe(`Mail ${first}`)
+	})
+
+	it('should apply custom patterns and skip excluded paths', () => {
+		const scanner = new PIIScanner({
+			enabled: true,
+			action: 'redact',
+			customPatterns: [{ name: 'mrn', pattern: 'MRN-\\d{6}' }],
+			excludePaths: ['field.requestIp'],
+		})
+
+		const { result, redactions } = scan(
+			{ note: 'Patient MRN-123456 admitted', requestIp: '10.0.0.1' },
+			scanner
+		)
+
+		expect(result).toEqual({ note: 'Patient [REDACTED:mrn] admitted', requestIp: '10.0.0.1' })
+		expect(redactions).toEqual([{ field: 'field.note', type: 'mrn', action: 'redact', count: 1 }])
+	})
+})
+
+describe('resolvePIIPolicy', () => {
+	it('should merge the organization policy over the default policy', () => {
+		const config: PIIScanConfig = {
+			enabled: true,
+			action: 'redact',
+			actions: { email: 'tokenize' },
+			excludePaths: ['ipAddress'],
+			organizations: {
+				'org-1': { action: 'reject', actions: { phone: 'redact' }, excludePaths: ['userAgent'] },
+			},
+		}
+
+		expect(resolvePIIPolicy(config, 'org-1')).toMatchObject({
+			action: 'reject',
+			actions: { email: 'tokenize', phone: 'redact' },
+			excludePaths: ['ipAddress', 'userAgent'],
+		})
+		expect(resolvePIIPolicy(config, 'org-2')).toBe(config)
+	})
+})
+
+describe('scanAuditEventForPII', () => {
+	const event: AuditLogEvent = {
+		timestamp: '2024-03-01T10:30:00.000Z',
+		action: 'patient.update',
+		status: 'success',
+		principalId: 'jane.doe@example.com',
+		organizationId: 'org-1',
+		outcomeDescription: 'Sent summary to jane.doe@example.com',
+		changes: { phone: '+44 20 7946 0958' },
+	}
+
+	it('should scan the outcome description and details only', () => {
+		const { scannedEvent, redactions } = scanAuditEventForPII(event, {
+			enabled: true,
+			action: 'redact',
+		})
+
+		expect(scannedEvent.principalId).toBe('jane.doe@example.com')
+		expect(scannedEvent.outcomeDescription).toBe('Sent summary to [REDACTED:email]')
+		expect(scannedEvent.changes).toEqual({ phone: '[REDACTED:phone]' })
+		expect(scannedEvent.piiRedactions).toEqual(redactions)
+		expect(JSON.stringify(scannedEvent.piiRedactions)).not.toContain('example.com')
+	})
+
+	it('should reject PII without leaking the value', () => {
+		const { errors } = scanAuditEventForPII(event, {
+			enabled: true,
+			action: 'redact',
+			organizations: { 'org-1': { actions: { phone: 'reject' } } },
+		})
+
+		expect(errors).toHaveLength(1)
+		expect(errors[0]).toMatchObject({ field: 'changes.phone', code: 'PII_DETECTED' })
+		expect(errors[0].value).toBe('[withheld]')
+	})
+
+	it('should leave organizations with a disabled policy untouched', () => {
+		const { scannedEvent } = scanAuditEventForPII(event, {
+			enabled: true,
+			action: 'redact',
+			organizations: { 'org-1': { enabled: false } },
+		})
+
+		expect(scannedEvent).toBe(event)
+	})
+})
+
+describe('validateAndSanitizeAuditEvent with a PII policy', () => {
+	it('should invalidate events with PII to reject', () => {
+		const result = validateAndSanitizeAuditEvent(
+			{
+				timestamp: '2024-03-01T10:30:00.000Z',
+				action: 'user.login',
+				status: 'failure',
+				outcomeDescription: 'Login failed for SSN 123-45-6789',
+			},
+			{ ...DEFAULT_VALIDATION_CONFIG, pii: { enabled: true, action: 'reject' } }
+		)
+
+		expect(result.isValid).toBe(false)
+		expect(result.sanitizedEvent).toBeNull()
+		expect(result.validationErrors.map((e) => e.code)).toContain('PII_DETECTED')
+	})
+})
@@ -0,0 +1,219 @@
+/**
+ * Tests for the pseudonym vault and dual-approval re-identification
+ */
+
+import { PgDialect } from 'drizzle-orm/pg-core'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { PseudonymVault, PseudonymVaultError } from '../gdpr/pseudonym-vault.js'
+import { createQuery } from './helpers/drizzle-query.js'
+
+import type { ArchiveKeyWrapper } from '../archival/archive-encryption.js'
+import type { ReidentificationRequest } from '../gdpr/pseudonym-vault.js'
+
+// Data keys are "wrapped" in clear: the tests only need the round trip
+const keyWrapper: ArchiveKeyWrapper = {
+	currentKeyId: 'key-1',
+	wrapKey: async (dataKey) => ({ keyId: 'key-1', wrappedKey: dataKey.toString('base64') }),
+	unwrapKey: async ({ wrappedKey }) => Buffer.from(wrappedKey, 'base64'),
+}
+
+const dialect = new PgDialect()
+
+function request(overrides: Partial<ReidentificationRequest> = {}): ReidentificationRequest {
+	return {
+		id: 'request-1',
+		organizationId: 'org-1',
+		pseudonymId: 'pseudo-abc',
+		legalBasis: 'legal_obligation',
+		justification: 'Court order',
+		status: 'pending',
+		requiredApprovals: 2,
+		approvals: [],
+		requestedBy: 'dpo-1',
+		createdAt: '2024-01-01T00:00:00.000Z',
+		expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+		...overrides,
+	}
+}
+
+describe('PseudonymVault', () => {
+	let results: unknown[]
+	let queries: any[]
+	let mockDb: any
+	let vault: PseudonymVault
+
+	beforeEach(() => {
+		results = []
+		queries = []
+		// Queries resolve to the queued results in the order they are built
+		const next = () => {
+			const query = createQuery(results.shift())
+			queries.push(query)
+			return query
+		}
+		mockDb = { select: vi.fn(next), insert: vi.fn(next), update: vi.fn(next) }
+		vault = new PseudonymVault(mockDb, keyWrapper, { lookupSecret: 'secret' })
+	})
+
+	it('should require at least two approvals', () => {
+		expect(
+			() => new PseudonymVault(mockDb, keyWrapper, { lookupSecret: 'secret', requiredApprovals: 1 })
+		).toThrow('Re-identification requires at least two approvals')
+	})
+
+	it('should require a lookup secret', () => {
+		vi.stubEnv('PSEUDONYM_SALT', '')
+		try {
+			expect(() => new PseudonymVault(mockDb, keyWrapper)).toThrow(PseudonymVaultError)
+			expect(() => new PseudonymVault(mockDb, keyWrapper)).toThrow('PSEUDONYM_SALT')
+
+			vi.stubEnv('PSEUDONYM_SALT', 'configured-salt')
+			expect(() => new PseudonymVault(mockDb, keyWrapper)).not.toThrow()
+		} finally {
+			vi.unstubAllEnvs()
+		}
+	})
+
+	describe('pseudonymize', () => {
+		it('should store the encrypted original of a new value', async () => {
+			results.push([], [{ pseudonymId: 'pseudo-stored' }])
+
+			const pseudonymId = await vault.pseudonymize('user-123', 'token', {
+				field: 'principalId',
+				createdBy: 'admin-1',
+			})
+
+			expect(pseudonymId).toBe('pseudo-stored')
+			const entry = queries[1].values.mock.calls[0][0]
+			expect(entry.pseudonymId).toMatch(/^pseudo-[a-f0-9]{32}$/)
+			expect(entry.lookupHash).toMatch(/^[a-f0-9]{64}$/)
+			expect(entry.encryptedValue).not.toContain(Buffer.from('user-123').toString('base64'))
+			expect(entry.encryption).toMatchObject({ algorithm: 'aes-256-gcm', keyId: 'key-1' })
+		})
+
+		it('should reuse the pseudonym of a known value', async () => {
+			results.push([{ pseudonymId: 'pseudo-known' }])
+
+			const pseudonymId = await vault.pseudonymize('user-123', 'encryption', {
+				field: 'principalId',
+				createdBy: 'admin-1',
+			})
+
+			expect(pseudonymId).toBe('pseudo-known')
+			expect(mockDb.insert).not.toHaveBeenCalled()
+		})
+
+		it('should keep the pseudonyms of each organization apart', async () => {
+			results.push([], [{ pseudonymId: 'pseudo-1' }], [], [{ pseudonymId: 'pseudo-2' }])
+
+			await vault.pseudonymize('user-123', 'token', {
+				field: 'principalId',
+				organizationId: 'org-1',
+				createdBy: 'admin-1',
+			})
+			await vault.pseudonymize('user-123', 'token', {
+				field: 'principalId',
+				organizationId: 'org-2',
+				createdBy: 'admin-1',
+			})
+
+			const first = queries[1].values.mock.calls[0][0]
+			const second = queries[3].values.mock.calls[0][0]
+			expect(first.lookupHash).not.toBe(second.lookupHash)
+			const lookup = dialect.sqlToQuery(queries[2].where.mock.calls[0][0])
+			expect(lookup.sql).toContain('"pseudonym_vault"."organization_id" = $2')
+			expect(lookup.params).toEqual([second.lookupHash, 'org-2'])
+		})
+	})
+
+	describe('requestReidentification', () => {
+		it('should refuse pseudonyms of another organization', async () => {
+			results.push([{ organizationId: 'org-2' }])
+
+			await expect(
+				vault.requestReidentification(
+					'org-1',
+					{
+						pseudonymId: 'pseudo-abc',
+						legalBasis: 'legal_obligation',
+						justification: 'Court order',
+					},
+					'dpo-1'
+				)
+			).rejects.toMatchObject({ code: 'NOT_FOUND' })
+		})
+	})
+
+	describe('approveReidentification', () => {
+		it('should not let requesters approve their own request', async () => {
+			results.push([request()])
+
+			await expect(
+				vault.approveReidentification('org-1', 'request-1', 'dpo-1')
+			).rejects.toMatchObject({ code: 'FORBIDDEN' })
+		})
+
+		it('should not count the same approver twice', async () => {
+			results.push([
+				request({ approvals: [{ approvedBy: 'admin-1', approvedAt: '2024-01-01T01:00:00.000Z' }] }),
+			])
+
+			await expect(
+				vault.approveReidentification('org-1', 'request-1', 'admin-1')
+			).rejects.toMatchObject({ code: 'CONFLICT' })
+		})
+
+		it('should refuse expired requests', async () => {
+			results.push([request({ expiresAt: '2024-01-02T00:00:00.000Z' })])
+
+			await expect(
+				vault.approveReidentification('org-1', 'request-1', 'admin-1')
+			).rejects.toMatchObject({ code: 'CONFLICT' })
+		})
+	})
+
+	describe('reidentify', () => {
+		it('should reveal the original of an approved request to its requester once', async () => {
+			// Store a value to get an entry encrypted the way the vault does
+			results.push([], [{ pseudonymId: 'pseudo-abc' }])
+			await vault.pseudonymize('user-123', 'token', { field: 'principalId', createdBy: 'admin-1' })
+			const entry = queries[1].values.mock.calls[0][0]
+
+			const approved = request({ status: 'approved' })
+			results.push([approved], [entry], [{ ...approved, status: 'completed' }])
+
+			const result = await vault.reidentify('org-1', 'request-1', 'dpo-1')
+
+			expect(result.originalValue).toBe('user-123')
+			expect(result.request.status).toBe('completed')
+		})
+
+		it('should leave the request approved when the original cannot be decrypted', async () => {
+			results.push([], [{ pseudonymId: 'pseudo-abc' }])
+			await vault.pseudonymize('user-123', 'token', { field: 'principalId', createdBy: 'admin-1' })
+			const entry = queries[1].values.mock.calls[0][0]
+
+			results.push([request({ status: 'approved' })], [{ ...entry, id: 'another-entry' }])
+
+			await expect(vault.reidentify('org-1', 'request-1', 'dpo-1')).rejects.toThrow()
+			expect(mockDb.update).not.toHaveBeenCalled()
+		})
+
+		it('should only reveal the original to the requester', async () => {
+			results.push([request({ status: 'approved' })])
+
+			await expect(vault.reidentify('org-1', 'request-1', 'admin-1')).rejects.toMatchObject({
+				code: 'FORBIDDEN',
+			})
+		})
+
+		it('should refuse requests that are not approved', async () => {
+			results.push([request()])
+
+			await expect(vault.reidentify('org-1', 'request-1', 'dpo-1')).rejects.toMatchObject({
+				code: 'CONFLICT',
+			})
+		})
+	})
+})
@@ -0,0 +1,283 @@
+/**
+ * Tests for scheduled report delivery transports
+ */
+
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+	ReportDelivery,
+	signWebhookPayload,
+	verifyWebhookSignature,
+	WEBHOOK_SIGNATURE_HEADER,
+	WEBHOOK_TIMESTAMP_HEADER,
+} from '../report/report-delivery.js'
+
+import type { ScheduledReportConfig } from '../report/compliance-reporting.js'
+import type { ExportResult } from '../report/data-export.js'
+import type { DeliveryAttempt, DeliveryConfig } from '../report/scheduled-reporting.js'
+
+const s3Send = vi.fn()
+
+vi.mock('@aws-sdk/client-s3', () => ({
+	S3Client: vi.fn(() => ({ send: s3Send })),
+	PutObjectCommand: vi.fn((input) => ({ input })),
+}))
+
+const report = {
+	id: 'report-1',
+	organizationId: 'org-1',
+	name: 'Monthly HIPAA',
+	reportType: 'HIPAA_AUDIT_TRAIL',
+	delivery: {
+		method: 'webhook',
+		recipients: ['officer@example.com'],
+		webhookUrl: 'https://hooks.example.com/reports',
+	},
+} as ScheduledReportConfig
+
+const reportResult: ExportResult = {
+	exportId: 'export-1',
+	format: 'csv',
+	exportedAt: '2025-01-01T00:00:00.000Z',
+	config: { format: 'csv' },
+	data: 'id,action\n1,data.read\n',
+	contentType: 'text/csv',
+	filename: 'report.csv',
+	size: 23,
+	checksum: 'sha256:abc',
+}
+
+const deliveryConfig: DeliveryConfig = {
+	email: {
+		smtpConfig: { host: '', port: 587, secure: false, auth: { user: '', pass: '' } },
+		from: 'audit@example.com',
+		subject: 'Scheduled Audit Report',
+		bodyTemplate: 'Please find the attached audit report.',
+	},
+	webhook: {
+		url: '',
+		method: 'POST',
+		headers: {},
+		secret: 'webhook-secret',
+		timeout: 1000,
+		retryConfig: { maxRetries: 2, backoffMultiplier: 1, maxBackoffDelay: 1 },
+	},
+}
+
+function createAttempt(method: DeliveryAttempt['method']): DeliveryAttempt {
+	return {
+		attemptId: 'delivery-1',
+		timestamp: new Date().toISOString(),
+		status: 'pending',
+		method,
+		target: 'unknown',
+		retryCount: 0,
+	}
+}
+
+describe('ReportDelivery', () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	describe('webhook signatures', () => {
+		it('should verify a signature produced for the same body and timestamp', () => {
+			const signature = signWebhookPayload('secret', '1700000000', '{"a":1}')
+
+			expect(signature).toMatch(/^sha256=[a-f0-9]{64}$/)
+			expect(verifyWebhookSignature('secret', '1700000000', '{"a":1}', signature)).toBe(true)
+			expect(verifyWebhookSignature('secret', '1700000001', '{"a":1}', signature)).toBe(false)
+			expect(verifyWebhookSignature('other', '1700000000', '{"a":1}', signature)).toBe(false)
+		})
+	})
+
+	describe('deliverViaWebhook', () => {
+		const fetchMock = vi.fn()
+
+		beforeEach(() => {
+			vi.stubGlobal('fetch', fetchMock)
+		})
+
+		afterEach(() => {
+			vi.unstubAllGlobals()
+		})
+
+		it('should POST a signed payload and record the response code', async () => {
+			fetchMock.mockResolvedValueOnce(new Response(null, { status: 202 }))
+			const attempt = createAttempt('webhook')
+
+			await new ReportDelivery(deliveryConfig).deliverViaWebhook(report, reportResult, attempt)
+
+			const [url, init] = fetchMock.mock.calls[0]
+			const headers = init.headers as Record<string, string>
+			expect(url).toBe('https://hooks.example.com/reports')
+			expect(init.method).toBe('POST')
+			expect(
+				verifyWebhookSignature(
+					'webhook-secret',
+					headers[WEBHOOK_TIMESTAMP_HEADER],
+					init.body,
+					headers[WEBHOOK_SIGNATURE_HEADER]
+				)
+			).toBe(true)
+			expect(JSON.parse(init.body)).toMatchObject({
+				event: 'report.delivered',
+				report: { id: 'report-1', organizationId: 'org-1' },
+				export: { exportId: 'export-1', checksum: 'sha256:abc' },
+				data: Buffer.from(reportResult.data).toString('base64'),
+			})
+			expect(attempt.responseCode).toBe(202)
+		})
+
+		it('should retry server errors', async () => {
+			fetchMock
+				.mockResolvedValueOnce(new Response(null, { status: 503 }))
+				.mockResolvedValueOnce(new Response(null, { status: 200 }))
+			const attempt = createAttempt('webhook')
+
+			await new ReportDelivery(deliveryConfig).deliverViaWebhook(report, reportResult, attempt)
+
+			expect(fetchMock).toHaveBeenCalledTimes(2)
+			expect(attempt.responseCode).toBe(200)
+		})
+
+		it('should not retry client errors', async () => {
+			fetchMock.mockResolvedValue(new Response(null, { status: 400, statusText: 'Bad Request' }))
+			const attempt = createAttempt('webhook')
+
+			await expect(
+				new ReportDelivery(deliveryConfig).deliverViaWebhook(report, reportResult, attempt)
+			).rejects.toThrow('Webhook responded with 400 Bad Request')
+			expect(fetchMock).toHaveBeenCalledTimes(1)
+			expect(attempt.responseCode).toBe(400)
+		})
+
+		it('should refuse to send unsigned payloads', async () => {
+			const delivery = new ReportDelivery({
+				...deliveryConfig,
+				webhook: { ...deliveryConfig.webhook!, secret: undefined },
+			})
+
+			await expect(
+				delivery.deliverViaWebhook(report, reportResult, createAttempt('webhook'))
+			).rejects.toThrow('Webhook signing secret not configured')
+			expect(fetchMock).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('deliverViaEmail', () => {
+		it("should send the report through the organization's mailer", async () => {
+			const mailer = { send: vi.fn().mockResolvedValue(undefined) }
+			const resolver = vi.fn().mockResolvedValue({ from: 'Org <no-reply@org.com>', mailer })
+
+			await new ReportDelivery(deliveryConfig, resolver).deliverViaEmail(
+				report,
+				reportResult,
+				createAttempt('email')
+			)
+
+			expect(resolver).toHaveBeenCalledWith('org-1')
+			expect(mailer.send).toHaveBeenCalledWith(
+				expect.objectContaining({
+					from: 'Org <no-reply@org.com>',
+					to: ['officer@example.com'],
+					subject: 'Scheduled Audit Report: Monthly HIPAA',
+					attachments: [
+						{
+							filename: 'report.csv',
+							content: Buffer.from(reportResult.data),
+							contentType: 'text/csv',
+						},
+					],
+				})
+			)
+		})
+
+		it('should fail when no mailer is available', async () => {
+			const resolver = vi.fn().mockResolvedValue(null)
+
+			await expect(
+				new ReportDelivery(deliveryConfig, resolver).deliverViaEmail(
+					report,
+					reportResult,
+					createAttempt('email')
+				)
+			).rejects.toThrow('No email provider configured')
+		})
+	})
+
+	describe('deliverViaStorage', () => {
+		let basePath: string
+
+		beforeEach(async () => {
+			basePath = await mkdtemp(path.join(tmpdir(), 'report-delivery-'))
+		})
+
+		afterEach(async () => {
+			await rm(basePath, { recursive: true, force: true })
+		})
+
+		it('should write the report to local storage', async () => {
+			const attempt = createAttempt('storage')
+			const delivery = new ReportDelivery({
+				storage: {
+					provider: 'local',
+					config: { basePath },
+					path: '/audit-reports',
+					retention: { days: 90, autoCleanup: false },
+				},
+			})
+
+			await delivery.deliverViaStorage(report, reportResult, attempt)
+
+			const target = path.join(basePath, 'audit-reports', 'org-1', 'report-1', 'report.csv')
+			expect(attempt.target).toBe(target)
+			expect(await readFile(target, 'utf8')).toBe(reportResult.data)
+		})
+
+		it('should reject locations outside the storage root', async () => {
+			const delivery = new ReportDelivery({
+				storage: {
+					provider: 'local',
+					config: { basePath },
+					path: '/audit-reports',
+					retention: { days: 90, autoCleanup: false },
+				},
+			})
+
+			await expect(
+				delivery.deliverViaStorage(
+					{ ...report, delivery: { method: 'storage', storageLocation: '../../..' } },
+					reportResult,
+					createAttempt('storage')
+				)
+			).rejects.toThrow('Storage location escapes the storage root')
+		})
+
+		it('should upload the report to S3', async () => {
+			s3Send.mockResolvedValueOnce({ $metadata: { httpStatusCode: 200 } })
+			const attempt = createAttempt('storage')
+			const delivery = new ReportDelivery({
+				storage: {
+					provider: 's3',
+					config: { bucket: 'reports', region: 'eu-west-1' },
+					path: 'audit-reports',
+					retention: { days: 90, autoCleanup: false },
+				},
+			})
+
+			await delivery.deliverViaStorage(report, reportResult, attempt)
+
+			expect(s3Send.mock.calls[0][0].input).toMatchObject({
+				Bucket: 'reports',
+				Key: 'audit-reports/org-1/report-1/report.csv',
+				ContentType: 'text/csv',
+			})
+			expect(attempt.responseCode).toBe(200)
+			expect(attempt.target).toBe('s3://reports/audit-reports/org-1/report-1/report.csv')
+		})
+	})
+})
@@ -0,0 +1,298 @@
+/**
+ * Tests for report template versions and previews
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+	buildReportTemplatePreview,
+	diffReportTemplates,
+	ReportTemplateError,
+} from '../report/report-templates.js'
+import { ScheduledReportingService } from '../report/scheduled-reporting.js'
+import { createQuery } from './helpers/drizzle-query.js'
+
+import type { ComplianceReport } from '../report/compliance-reporting.js'
+import type { ReportTemplateContent } from '../report/report-templates.js'
+
+const content: ReportTemplateContent = {
+	name: 'PHI access',
+	description: 'Monthly PHI access review',
+	reportType: 'HIPAA_AUDIT_TRAIL',
+	defaultCriteria: { dataClassifications: ['PHI'], actions: ['fhir.patient.read'] },
+	defaultFormat: 'csv',
+	defaultExportConfig: { format: 'csv', includeMetadata: true },
+	columns: ['timestamp', 'principalId', 'action'],
+	groupBy: 'principalId',
+	tags: ['hipaa'],
+}
+
+function createTemplateRow(overrides: Record<string, unknown> = {}) {
+	return {
+		id: 'template-1',
+		organizationId: 'org-1',
+		isActive: 'true',
+		version: 2,
+		createdAt: '2025-01-01T00:00:00.000Z',
+		createdBy: 'user-1',
+		updatedAt: '2025-01-02T00:00:00.000Z',
+		updatedBy: 'user-1',
+		...content,
+		...overrides,
+	}
+}
+
+function createReport(events: ComplianceReport['events']): ComplianceReport {
+	return {
+		metadata: {
+			reportId: 'report-1',
+			reportType: 'HIPAA_AUDIT_TRAIL',
+			generatedAt: '2025-01-03T00:00:00.000Z',
+			criteria: { dateRange: { startDate: '2025-01-01', endDate: '2025-01-31' } },
+			totalEvents: events.length,
+		},
+		summary: {
+			eventsByStatus: {},
+			eventsByAction: {},
+			eventsByDataClassification: {},
+			uniquePrincipals: 2,
+			uniqueResources: 1,
+			integrityViolations: 0,
+			timeRange: { earliest: '', latest: '' },
+		},
+		events,
+	}
+}
+
+const events: ComplianceReport['events'] = [
+	{
+		id: 1,
+		timestamp: '2025-01-01T10:00:00.000Z',
+		principalId: 'alice',
+		action: 'a',
+		status: 'success',
+	},
+	{
+		id: 2,
+		timestamp: '2025-01-01T11:00:00.000Z',
+		principalId: 'bob',
+		action: 'a',
+		status: 'success',
+	},
+	{
+		id: 3,
+		timestamp: '2025-01-02T10:00:00.000Z',
+		principalId: 'bob',
+		action: 'b',
+		status: 'failure',
+	},
+	{ id: 4, timestamp: '2025-01-02T12:00:00.000Z', action: 'b', status: 'success' },
+]
+
+describe('diffReportTemplates', () => {
+	it('returns no changes for identical content', () => {
+		expect(diffReportTemplates(content, { ...content })).toEqual([])
+	})
+
+	it('compares criteria and export settings one by one', () => {
+		const changes = diffReportTemplates(content, {
+			...content,
+			name: 'PHI access review',
+			defaultCriteria: { dataClassifications: ['PHI'], statuses: ['failure'] },
+			defaultExportConfig: { format: 'csv', includeMetadata: false },
+			groupBy: undefined,
+		})
+
+		expect(changes).toEqual([
+			{ field: 'name', before: 'PHI access', after: 'PHI access review' },
+			{ field: 'defaultCriteria.actions', before: ['fhir.patient.read'], after: undefined },
+			{ field: 'defaultCriteria.statuses', before: undefined, after: ['failure'] },
+			{ field: 'defaultExportConfig.includeMetadata', before: true, after: false },
+			{ field: 'groupBy', before: 'principalId', after: undefined },
+		])
+	})
+})
+
+describe('buildReportTemplatePreview', () => {
+	it('projects sample rows onto the selected columns', () => {
+		const preview = buildReportTemplatePreview(
+			createReport(events),
+			{ columns: ['id', 'action'] },
+			{ sampleSize: 2, eventLimit: 100 }
+		)
+
+		expect(preview.columns).toEqual(['id', 'action'])
+		expect(preview.rows).toEqual([
+			{ id: 1, action: 'a' },
+			{ id: 2, action: 'a' },
+		])
+		expect(preview.totalEvents).toBe(4)
+		expect(preview.truncated).toBe(false)
+		expect(preview.groups).toBeUndefined()
+	})
+
+	it('counts events per group, largest first', () => {
+		const byPrincipal = buildReportTemplatePreview(
+			createReport(events),
+			{ groupBy: 'principalId' },
+			{ sampleSize: 10, eventLimit: 4 }
+		)
+		expect(byPrincipal.groups).toEqual([
+			{ key: 'bob', count: 2 },
+			{ key: '(none)', count: 1 },
+			{ key: 'alice', count: 1 },
+		])
+		expect(byPrincipal.truncated).toBe(true)
+
+		const byDay = buildReportTemplatePreview(
+			createReport(events),
+			{ groupBy: 'day' },
+			{ sampleSize: 10, eventLimit: 100 }
+		)
+		expect(byDay.groups).toEqual([
+			{ key: '2025-01-01', count: 2 },
+			{ key: '2025-01-02', count: 2 },
+		])
+	})
+})
+
+describe('ScheduledReportingService templates', () => {
+	let mockDb: any
+	let mockClient: any
+	let mockReportService: any
+	let service: ScheduledReportingService
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		mockDb = {
+			select: vi.fn(),
+			insert: vi.fn(() => createQuery(undefined)),
+			update: vi.fn(),
+			transaction: vi.fn((fn: (tx: any) => Promise<unknown>) => fn(mockDb)),
+		}
+		mockClient = {
+			getDatabase: vi.fn(() => mockDb),
+			executeOptimizedQuery: vi.fn((fn: (db: any) => Promise<unknown>) => fn(mockDb)),
+		}
+		mockReportService = {
+			generateReportForCriteria: vi.fn().mockResolvedValue(createReport(events)),
+		}
+		service = new ScheduledReportingService(mockReportService, {} as any, mockClient, {} as any, {})
+	})
+
+	it('stores the first version when a template is created', async () => {
+		const template = await service.createReportTemplate({
+			...content,
+			organizationId: 'org-1',
+			isActive: true,
+			createdBy: 'user-1',
+			updatedBy: 'user-1',
+		})
+
+		expect(template.version).toBe(1)
+		expect(mockDb.insert).toHaveBeenCalledTimes(2)
+		const versionValues = mockDb.insert.mock.results[1].value.values
+		expect(versionValues).toHaveBeenCalledWith(
+			expect.objectContaining({ templateId: template.id, version: 1, content })
+		)
+	})
+
+	it('saves changes as the next version', async () => {
+		const update = createQuery([{ id: 'template-1' }])
+		mockDb.select.mockReturnValue(createQuery([createTemplateRow()]))
+		mockDb.update.mockReturnValue(update)
+
+		const template = await service.updateReportTemplate('template-1', 'org-1', {
+			name: 'PHI access review',
+			updatedBy: 'user-2',
+			changeNote: 'Renamed',
+			expectedVersion: 2,
+		})
+
+		expect(template.version).toBe(3)
+		expect(template.name).toBe('PHI access review')
+		expect(update.set).toHaveBeenCalledWith(
+			expect.objectContaining({ name: 'PHI access review', version: 3, updatedBy: 'user-2' })
+		)
+		expect(mockDb.insert.mock.results[0].value.values).toHaveBeenCalledWith(
+			expect.objectContaining({
+				templateId: 'template-1',
+				version: 3,
+				changeNote: 'Renamed',
+				content: { ...content, name: 'PHI access review' },
+			})
+		)
+	})
+
+	it('rejects changes made against an outdated version', async () => {
+		mockDb.select.mockReturnValue(createQuery([createTemplateRow({ version: 3 })]))
+
+		await expect(
+			service.updateReportTemplate('template-1', 'org-1', {
+				name: 'Stale',
+				updatedBy: 'user-2',
+				expectedVersion: 2,
+			})
+		).rejects.toThrow('was changed to version 3')
+		expect(mockDb.update).not.toHaveBeenCalled()
+	})
+
+	it('fails when another update saved the version first', async () => {
+		mockDb.select.mockReturnValue(createQuery([createTemplateRow()]))
+		mockDb.update.mockReturnValue(createQuery([]))
+
+		await expect(
+			service.updateReportTemplate('template-1', 'org-1', { name: 'Racing', updatedBy: 'user-2' })
+		).rejects.toThrow(
+			new ReportTemplateError('Report template template-1 was changed concurrently', 'CONFLICT')
+		)
+		expect(mockDb.insert).not.toHaveBeenCalled()
+	})
+
+	it('schedules reports with the columns and grouping of the template', async () => {
+		mockDb.select.mockReturnValue(createQuery([createTemplateRow()]))
+		mockDb.insert.mockReturnValue(createQuery([{ createdAt: '2025-01-03T00:00:00.000Z' }]))
+
+		const report = await service.createReportFromTemplate('template-1', {
+			organizationId: 'org-1',
+			enabled: false,
+		})
+
+		const exportConfig = {
+			format: 'csv',
+			includeMetadata: true,
+			includeIntegrityReport: false,
+			columns: ['timestamp', 'principalId', 'action'],
+			groupBy: 'principalId',
+		}
+		expect(report.export).toEqual(exportConfig)
+		expect(mockDb.insert.mock.results[0].value.values).toHaveBeenCalledWith(
+			expect.objectContaining({ templateId: 'template-1', export: exportConfig })
+		)
+	})
+
+	it('previews a template against the events of the organization only', async () => {
+		const preview = await service.previewReportTemplate(
+			{
+				...content,
+				defaultCriteria: { ...content.defaultCriteria, organizationIds: ['other-org'] },
+			},
+			'org-1',
+			{ dateRange: { startDate: '2025-01-01', endDate: '2025-01-31' }, sampleSize: 1 }
+		)
+
+		expect(mockReportService.generateReportForCriteria).toHaveBeenCalledWith(
+			expect.objectContaining({
+				organizationIds: ['org-1'],
+				dataClassifications: ['PHI'],
+				dateRange: { startDate: '2025-01-01', endDate: '2025-01-31' },
+				limit: 1000,
+			}),
+			'HIPAA_AUDIT_TRAIL'
+		)
+		expect(preview.rows).toEqual([
+			{ timestamp: '2025-01-01T10:00:00.000Z', principalId: 'alice', action: 'a' },
+		])
+		expect(preview.groups?.[0]).toEqual({ key: 'bob', count: 2 })
+	})
+})
@@ -0,0 +1,315 @@
+/**
+ * Tests for streaming audit event exports
+ */
+
+import { createHash } from 'crypto'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { buffer } from 'stream/consumers'
+import { gunzipSync } from 'zlib'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { decryptExport, deriveExportKey } from '../report/export-encryption.js'
+import { createEventSerializer, StreamingExportService } from '../report/streaming-export.js'
+import { createQuery } from './helpers/drizzle-query.js'
+
+const s3Send = vi.fn()
+
+vi.mock('@aws-sdk/client-s3', () => {
+	const command = (name: string) =>
+		vi.fn(function (this: any, input: unknown) {
+			this.name = name
+			this.input = input
+		})
+	return {
+		S3Client: vi.fn(() => ({ send: s3Send })),
+		PutObjectCommand: command('PutObject'),
+		CreateMultipartUploadCommand: command('CreateMultipartUpload'),
+		UploadPartCommand: command('UploadPart'),
+		CompleteMultipartUploadCommand: command('CompleteMultipartUpload'),
+		AbortMultipartUploadCommand: command('AbortMultipartUpload'),
+	}
+})
+
+function createRow(id: number) {
+	return {
+		id,
+		timestamp: new Date(Date.UTC(2025, 0, 1, 0, id)).toISOString(),
+		principalId: `user-${id}`,
+		organizationId: 'org-1',
+		action: 'data.read',
+		targetResourceType: 'Patient',
+		targetResourceId: `patient-${id}`,
+		status: 'success',
+		outcomeDescription: id === 2 ? 'Read, with "quotes"' : null,
+		hash: id % 2 ? 'a'.repeat(64) : null,
+		dataClassification: 'PHI',
+		correlationId: null,
+		details: { sessionContext: { ipAddress: '10.0.0.1', userAgent: 'vitest', sessionId: 's-1' } },
+	}
+}
+
+const filter = { organizationId: 'org-1' }
+
+describe('StreamingExportService', () => {
+	let mockDb: any
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+		mockDb = { select: vi.fn() }
+	})
+
+	function queueRows(batches: number[][]) {
+		const lastId = Math.max(0, ...batches.flat())
+		mockDb.select.mockReturnValueOnce(createQuery([{ lastId: lastId || null }]))
+		for (const batch of batches) {
+			mockDb.select.mockReturnValueOnce(createQuery(batch.map(createRow)))
+		}
+	}
+
+	describe('readEvents', () => {
+		it('should walk the table in batches using the last id as cursor', async () => {
+			queueRows([[1, 2], [3, 4], [5]])
+			const service = new StreamingExportService(mockDb)
+
+			const ids: number[] = []
+			for await (const event of service.readEvents(filter, 2)) ids.push(event.id!)
+
+			expect(ids).toEqual([1, 2, 3, 4, 5])
+			expect(mockDb.select).toHaveBeenCalledTimes(4)
+		})
+
+		it('should not read rows when nothing matches', async () => {
+			mockDb.select.mockReturnValueOnce(createQuery([{ lastId: null }]))
+			const service = new StreamingExportService(mockDb)
+
+			const events = []
+			for await (const event of service.readEvents(filter)) events.push(event)
+
+			expect(events).toHaveLength(0)
+			expect(mockDb.select).toHaveBeenCalledTimes(1)
+		})
+	})
+
+	describe('createExport', () => {
+		it('should stream valid JSON and report the record count and checksum', async () => {
+			queueRows([[1, 2, 3]])
+			const service = new StreamingExportService(mockDb)
+
+			const exported = service.createExport(filter, { format: 'json' })
+			const data = await buffer(exported.stream)
+			const summary = await exported.completed
+
+			const parsed = JSON.parse(data.toString('utf8'))
+			expect(parsed.metadata.exportId).toBe(exported.exportId)
+			expect(parsed.events.map((event: any) => event.id)).toEqual([1, 2, 3])
+			expect(parsed.events[0]).toMatchObject({ integrityStatus: 'verified' })
+			expect(parsed.totalEvents).toBe(3)
+			expect(summary).toMatchObject({
+				recordCount: 3,
+				size: data.length,
+				checksum: `sha256:${createHash('sha256').update(data).digest('hex')}`,
+			})
+		})
+
+		it('should gzip the stream on the fly', async () => {
+			queueRows([[1, 2]])
+			const service = new StreamingExportService(mockDb)
+
+			const exported = service.createExport(filter, { format: 'ndjson', compression: 'gzip' })
+			const data = await buffer(exported.stream)
+
+			const lines = gunzipSync(data).toString('utf8').trim().split('\n')
+			expect(lines.map((line) => JSON.parse(line).id)).toEqual([1, 2])
+			expect(exported.filename).toMatch(/\.ndjson\.gz$/)
+			expect(exported.contentType).toBe('application/gzip')
+		})
+
+		it('should only write the selected columns', async () => {
+			queueRows([[1, 2]])
+			const service = new StreamingExportService(mockDb)
+
+			const exported = service.createExport(filter, {
+				format: 'csv',
+				includeMetadata: false,
+				columns: ['id', 'action', 'ipAddress'],
+			})
+			const lines = (await buffer(exported.stream)).toString('utf8').trim().split('\n')
+
+			expect(lines[0]).toBe('ID,Action,IP Address')
+			expect(lines[1]).toBe('1,data.read,10.0.0.1')
+		})
+
+		it('should quote values with carriage returns', async () => {
+			mockDb.select
+				.mockReturnValueOnce(createQuery([{ lastId: 1 }]))
+				.mockReturnValueOnce(
+					createQuery([{ ...createRow(1), outcomeDescription: 'Line one\r\nLine two\rend' }])
+				)
+			const service = new StreamingExportService(mockDb)
+
+			const exported = service.createExport(filter, {
+				format: 'csv',
+				includeMetadata: false,
+				columns: ['id', 'outcomeDescription'],
+			})
+			const csv = (await buffer(exported.stream)).toString('utf8')
+
+			expect(csv).toContain('1,"Line one\r\nLine two\rend"')
+		})
+
+		it('should encrypt the compressed stream with the passphrase key', async () => {
+			queueRows([[1, 2]])
+			const service = new StreamingExportService(mockDb)
+
+			const exported = service.createExport(filter, {
+				format: 'ndjson',
+				compression: 'gzip',
+				encryption: await deriveExportKey('correct horse'),
+			})
+			const data = await buffer(exported.stream)
+			const summary = await exported.completed
+
+			const lines = gunzipSync(await decryptExport(data, 'correct horse'))
+				.toString('utf8')
+				.trim()
+				.split('\n')
+			expect(lines.map((line) => JSON.parse(line).id)).toEqual([1, 2])
+			expect(exported.filename).toMatch(/\.ndjson\.gz\.enc$/)
+			expect(exported.contentType).toBe('application/octet-stream')
+			expect(summary).toMatchObject({ encrypted: true, size: data.length })
+		})
+
+		it('should stop reading from the database when the consumer goes away', async () => {
+			let nextId = 1
+			mockDb.select.mockReturnValueOnce(createQuery([{ lastId: 100_000 }]))
+			mockDb.select.mockImplementation(() =>
+				createQuery([createRow(nextId++), createRow(nextId++)])
+			)
+			const service = new StreamingExportService(mockDb)
+
+			const exported = service.createExport(filter, { format: 'ndjson', batchSize: 2 })
+			for await (const _chunk of exported.stream) {
+				exported.stream.destroy()
+				break
+			}
+
+			await expect(exported.completed).rejects.toThrow('Export stream closed before completion')
+			expect(mockDb.select.mock.calls.length).toBeLessThan(1_000)
+		})
+	})
+
+	describe('progress', () => {
+		it('should report the running record count after every batch', async () => {
+			queueRows([[1, 2], [3, 4], [5]])
+			const onProgress = vi.fn()
+			const service = new StreamingExportService(mockDb)
+
+			const exported = service.createExport(filter, { format: 'ndjson', batchSize: 2, onProgress })
+			await buffer(exported.stream)
+
+			expect(onProgress.mock.calls).toEqual([[2], [4]])
+		})
+
+		it('should abort the export when the progress callback throws', async () => {
+			queueRows([[1, 2], [3, 4], [5]])
+			const service = new StreamingExportService(mockDb)
+
+			const exported = service.createExport(filter, {
+				format: 'ndjson',
+				batchSize: 2,
+				onProgress: () => {
+					throw new Error('cancelled')
+				},
+			})
+
+			await expect(buffer(exported.stream)).rejects.toThrow('cancelled')
+			await expect(exported.completed).rejects.toThrow('cancelled')
+		})
+	})
+
+	describe('exportToStorage', () => {
+		let basePath: string
+
+		beforeEach(async () => {
+			basePath = await mkdtemp(path.join(tmpdir(), 'streaming-export-'))
+		})
+
+		afterEach(async () => {
+			await rm(basePath, { recursive: true, force: true })
+		})
+
+		it('should write the export to local storage', async () => {
+			queueRows([[1, 2]])
+			const service = new StreamingExportService(mockDb, {
+				provider: 'local',
+				config: { basePath },
+				path: '/archive',
+				retention: { days: 90, autoCleanup: false },
+			})
+
+			const stored = await service.exportToStorage(filter, { format: 'csv' })
+
+			expect(stored.location).toBe(
+				path.join(basePath, 'archive', 'org-1', 'exports', stored.filename)
+			)
+			const csv = await readFile(stored.location, 'utf8')
+			expect(csv).toContain('"Read, with ""quotes"""')
+			expect(stored.recordCount).toBe(2)
+
+			const reread = await buffer(await service.readStoredExport(stored.key))
+			expect(reread.toString('utf8')).toBe(csv)
+
+			await service.deleteStoredExport(stored.key)
+			await expect(service.readStoredExport(stored.key)).rejects.toThrow('ENOENT')
+		})
+
+		it('should upload the export to S3 in multipart parts', async () => {
+			queueRows([[1, 2]])
+			s3Send.mockImplementation(async (command: { name: string }) => {
+				switch (command.name) {
+					case 'CreateMultipartUpload':
+						return { UploadId: 'upload-1' }
+					case 'UploadPart':
+						return { ETag: '"etag-1"' }
+					default:
+						return { $metadata: { httpStatusCode: 200 } }
+				}
+			})
+			const service = new StreamingExportService(mockDb, {
+				provider: 's3',
+				config: { bucket: 'archive-bucket' },
+				path: 'exports',
+				retention: { days: 90, autoCleanup: false },
+			})
+
+			const stored = await service.exportToStorage(filter, { format: 'xml', compression: 'gzip' })
+
+			expect(s3Send.mock.calls.map(([command]) => command.name)).toEqual([
+				'CreateMultipartUpload',
+				'UploadPart',
+				'CompleteMultipartUpload',
+			])
+			const uploaded = s3Send.mock.calls[1][0].input.Body as Buffer
+			expect(gunzipSync(uploaded).toString('utf8')).toContain('<totalEvents>2</totalEvents>')
+			expect(stored.location).toBe(`s3://archive-bucket/exports/org-1/exports/${stored.filename}`)
+		})
+	})
+
+	describe('createEventSerializer', () => {
+		it('should produce well-formed XML for zero events', () => {
+			const serializer = createEventSerializer('xml')
+			const xml =
+				serializer.open({
+					exportId: 'export-1',
+					exportedAt: '2025-01-01T00:00:00.000Z',
+					organizationId: 'org-<1>',
+					filter,
+				}) + serializer.close(0)
+
+			expect(xml).toContain('<organizationId>org-&lt;1&gt;</organizationId>')
+			expect(xml).toContain('<events>\n  </events>')
+		})
+	})
+})
@@ -3,8 +3,14 @@ import { Command } from 'commander'
 
 import { archiveStorage, AuditDb, auditLog, auditRetentionPolicy } from '@repo/audit-db'
 
+import { CryptoService } from '../crypto'
+import { archiveStorageConfigFromEnv } from './archive-blob-store'
+import { createKmsArchiveKeyWrapper } from './archive-encryption'
+import { ArchiveRestoreService } from './archive-restore'
 import { PostgresArchivalService } from './postgres-archival-service'
 
+import type { SecurityConfig } from '../config/types'
+
 /**
  * CLI tool for audit data archival and cleanup operations
  * Provides command-line interface for managing audit data lifecycle
@@ -17,8 +23,8 @@ program
 	.description('Audit data archival and cleanup CLI tool')
 	.version('1.0.0')
 
-// Create archival service instance
-function createArchivalService(): PostgresArchivalService {
+// Create database connection
+function createDatabase() {
 	const postgresUrl = process.env.POSTGRES_URL || process.env.DATABASE_URL
 	if (!postgresUrl) {
 		console.error('Error: POSTGRES_URL or DATABASE_URL environment variable is required')
@@ -26,9 +32,67 @@ function createArchivalService(): PostgresArchivalService {
 	}
 
 	const auditDb = new AuditDb(postgresUrl)
-	const db = auditDb.getDrizzleInstance()
+	return auditDb.getDrizzleInstance()
+}
+
+// KMS settings, when the KMS environment variables are set
+function kmsConfigFromEnv(): SecurityConfig['kms'] | undefined {
+	const { KMS_ENCRYPTION_KEY_ID, KMS_SIGNING_KEY_ID, INFISICAL_ACCESS_TOKEN, INFISICAL_URL } =
+		process.env
+	if (!KMS_ENCRYPTION_KEY_ID || !KMS_SIGNING_KEY_ID || !INFISICAL_ACCESS_TOKEN || !INFISICAL_URL) {
+		return undefined
+	}
+
+	return {
+		enabled: true,
+		encryptionKey: KMS_ENCRYPTION_KEY_ID,
+		previousEncryptionKeys: process.env.KMS_PREVIOUS_ENCRYPTION_KEY_IDS?.split(',').filter(Boolean),
+		signingKey: KMS_SIGNING_KEY_ID,
+		accessToken: INFISICAL_ACCESS_TOKEN,
+		baseUrl: INFISICAL_URL,
+	}
+}
+
+// Create archival service instance
+function createArchivalService(db = createDatabase()): PostgresArchivalService {
+	// Encrypted archives need the KMS key that wrapped their data key
+	const kms = kmsConfigFromEnv()
+	const keyWrapper = kms ? createKmsArchiveKeyWrapper(kms) : undefined
+
+	return new PostgresArchivalService(
+		db,
+		auditLog,
+		auditRetentionPolicy,
+		archiveStorage,
+		// Archive data lives in Postgres unless ARCHIVE_STORAGE_PROVIDER selects a blob store
+		{ storage: archiveStorageConfigFromEnv() },
+		keyWrapper
+	)
+}
+
+// Create archive restore service instance
+function createRestoreService(): ArchiveRestoreService {
+	// Event signatures are verified with KMS when configured, otherwise with the HMAC secret
+	const kms = kmsConfigFromEnv()
+	const encryptionKey = process.env.AUDIT_CRYPTO_SECRET
+	if (!kms && !encryptionKey) {
+		console.error(
+			'Error: AUDIT_CRYPTO_SECRET or the KMS environment variables are required to verify event signatures'
+		)
+		process.exit(1)
+	}
+
+	const db = createDatabase()
+	const crypto = new CryptoService({
+		enableIntegrityVerification: true,
+		hashAlgorithm: 'SHA-256',
+		enableEventSigning: true,
+		encryptionKey: encryptionKey ?? '',
+		enableLogEncryption: false,
+		kms: kms ?? { enabled: false, encryptionKey: '', signingKey: '', accessToken: '', baseUrl: '' },
+	})
 
-	return new PostgresArchivalService(db, auditLog, auditRetentionPolicy, archiveStorage)
+	return new ArchiveRestoreService(createArchivalService(db), db, crypto)
 }
 
 // Archive data based on retention policies
@@ -99,6 +163,7 @@ program
 program
 	.command('delete')
 	.description('Securely delete audit data with verification')
+	.requiredOption('--organization-id <id>', 'Organization whose data is deleted')
 	.option('--principal-id <id>', 'Delete data for specific principal ID')
 	.option('--date-range <range>', 'Delete data in date range (format: start,end)')
 	.option(
@@ -116,6 +181,7 @@ program
 
 			// Parse options
 			const criteria: any = {
+				organizationId: options.organizationId,
 				verifyDeletion: options.verify,
 			}
 
@@ -149,6 +215,7 @@ program
 			console.log('\nDeletion Results:')
 			console.log('================')
 			console.log(`Records Deleted: ${result.recordsDeleted}`)
+			console.log(`Records Kept by Legal Holds: ${result.recordsHeld}`)
 			console.log(`Verification Status: ${result.verificationStatus}`)
 			console.log(`Deletion Timestamp: ${result.deletionTimestamp}`)
 
@@ -297,7 +364,7 @@ program
 
 			if (options.archiveId) {
 				// Validate specific archive
-				const isValid = await (archivalService as any).verifyArchiveIntegrity(options.archiveId)
+				const isValid = await archivalService.validateArchive(options.archiveId)
 				console.log(`\nArchive ${options.archiveId}: ${isValid ? 'VALID' : 'CORRUPTED'}`)
 			} else {
 				// Validate all archives
@@ -345,6 +412,7 @@ program
 			console.log('\nCleanup Results:')
 			console.log('===============')
 			console.log(`Archives Deleted: ${result.archivesDeleted}`)
+			console.log(`Archives Kept by Legal Holds: ${result.archivesHeld}`)
 			console.log(`Space Freed: ${(result.spaceFreed / 1024 / 1024).toFixed(2)} MB`)
 			console.log(`Cleanup Timestamp: ${result.cleanupTimestamp}`)
 		} catch (error) {
@@ -353,5 +421,101 @@ program
 		}
 	})
 
+// Re-wrap archive data keys after a KMS key rotation
+program
+	.command('rotate-keys')
+	.description('Re-wrap the data keys of encrypted archives with the current KMS key')
+	.action(async () => {
+		try {
+			console.log('Starting archive key rotation...')
+
+			const archivalService = createArchivalService()
+			const result = await archivalService.rotateArchiveKeys()
+
+			console.log('\nKey Rotation Results:')
+			console.log('====================')
+			console.log(`Encrypted Archives: ${result.encryptedArchives}`)
+			console.log(`Archives Re-wrapped: ${result.rotatedArchives}`)
+			console.log(`Failed Archives: ${result.failedArchiveIds.length}`)
+			for (const archiveId of result.failedArchiveIds) {
+				console.log(`  - ${archiveId}`)
+			}
+			console.log(`Rotation Timestamp: ${result.rotationTimestamp}`)
+
+			if (result.failedArchiveIds.length > 0) {
+				process.exit(1)
+			}
+		} catch (error) {
+			console.error('Key rotation failed:', error)
+			process.exit(1)
+		}
+	})
+
+// Restore archived events into the audit log
+program
+	.command('restore')
+	.description('Restore archived audit events into the audit log after verifying their integrity')
+	.option('--archive-id <id>', 'Restore the events of a specific archive')
+	.option('--date-range <range>', 'Restore the events in a date range (format: start,end)')
+	.option('--organization-id <id>', 'Restore the events of a specific organization only')
+	.option('--principal-id <id>', 'Restore the events of a specific principal only')
+	.option('--reason <reason>', 'Reason for the restore, such as a legal hold reference')
+	.option('--restored-by <user>', 'User performing the restore', 'cli')
+	.option('--dry-run', 'Verify the matching events without restoring them')
+	.action(async (options) => {
+		try {
+			if (!options.archiveId && !options.dateRange) {
+				console.error('Error: --archive-id or --date-range is required')
+				process.exit(1)
+			}
+
+			console.log('Restoring archived events...')
+
+			const restoreService = createRestoreService()
+
+			let dateRange: { start: string; end: string } | undefined
+			if (options.dateRange) {
+				const [start, end] = options.dateRange.split(',')
+				dateRange = { start: start.trim(), end: end.trim() }
+			}
+
+			const result = await restoreService.restore({
+				archiveId: options.archiveId,
+				dateRange,
+				organizationId: options.organizationId,
+				principalId: options.principalId,
+				reason: options.reason,
+				restoredBy: options.restoredBy,
+				dryRun: options.dryRun,
+			})
+
+			console.log(`\nRestore Results${result.dryRun ? ' (DRY RUN)' : ''}:`)
+			console.log('================')
+			console.log(`Restore ID: ${result.restoreId}`)
+			console.log(`Archives: ${result.archiveIds.length}`)
+			console.log(`Records Found: ${result.recordsFound}`)
+			console.log(`Records Restored: ${result.recordsRestored}`)
+			console.log(`Records Already Live: ${result.recordsSkipped}`)
+			console.log(`Records Without Hash: ${result.recordsUnverified}`)
+			console.log(`Records Failing Verification: ${result.recordsFailedVerification}`)
+			for (const id of result.failedRecordIds) {
+				console.log(`  - ${id}`)
+			}
+			if (result.corruptedArchiveIds.length > 0) {
+				console.log('\nCorrupted Archives (not restored):')
+				for (const archiveId of result.corruptedArchiveIds) {
+					console.log(`  - ${archiveId}`)
+				}
+			}
+
+			if (result.recordsFailedVerification > 0 || result.corruptedArchiveIds.length > 0) {
+				process.exit(1)
+			}
+		} catch (error) {
+			console.error('Restore failed:', error)
+			process.exit(1)
+		}
+	})
+
 // Parse command line arguments
 program.parse(process.argv)
@@ -1,14 +1,33 @@
 import { createHash } from 'crypto'
 import { createDeflate, createGzip } from 'zlib'
+import { and, count, eq, gte, inArray, isNotNull, lt, lte, sql } from 'drizzle-orm'
 
 import { ConsoleLogger, Logger } from '@repo/logs'
 
+import { recordChainRemovals } from '../integrity/hash-chain.js'
+import { LegalHoldService } from '../legal-hold/legal-hold.js'
+import {
+	ArchiveEncryptionError,
+	decryptArchiveData,
+	encryptArchiveData,
+	rewrapArchiveKey,
+} from './archive-encryption.js'
+import {
+	parseArchiveRecords,
+	readParquetArchive,
+	serializeArchiveRecords,
+} from './archive-formats.js'
+
+import type { ArchiveStorageConfig } from './archive-blob-store.js'
+import type { ArchiveEncryptionMetadata, ArchiveKeyWrapper } from './archive-encryption.js'
+
 /**
  * Configuration options for archive creation and management
  */
 export interface ArchiveConfig {
 	/**
 	 * Compression algorithm to use for archives
+	 * Parquet archives compress their pages with Snappy instead.
 	 * @default 'gzip'
 	 */
 	compressionAlgorithm: 'gzip' | 'deflate' | 'none'
@@ -26,7 +45,7 @@ export interface ArchiveConfig {
 	format: 'json' | 'jsonl' | 'parquet'
 
 	/**
-	 * Number of records to process in each batch
+	 * Number of records to process in each batch, and per row group of Parquet archives
 	 * @default 1000
 	 */
 	batchSize: number
@@ -39,9 +58,16 @@ export interface ArchiveConfig {
 
 	/**
 	 * Whether to encrypt archived data
+	 * PHI archives are always encrypted.
 	 * @default false
 	 */
 	encryptArchive: boolean
+
+	/**
+	 * Where archive data is stored
+	 * @default { provider: 'postgres' }
+	 */
+	storage?: ArchiveStorageConfig
 }
 
 /**
@@ -56,6 +82,11 @@ export const DEFAULT_ARCHIVE_CONFIG: ArchiveConfig = {
 	encryptArchive: false,
 }
 
+/**
+ * Records removed per statement by secure deletion
+ */
+const SECURE_DELETE_BATCH_SIZE = 1000
+
 /**
  * Request parameters for retrieving archived data
  */
@@ -146,10 +177,15 @@ export interface ArchiveResult {
 	checksumOriginal: string
 
 	/**
-	 * Checksum of the compressed data
+	 * Checksum of the stored data: compressed, then encrypted for encrypted archives
 	 */
 	checksumCompressed: string
 
+	/**
+	 * Whether the archive is encrypted at rest
+	 */
+	encrypted: boolean
+
 	/**
 	 * Status of integrity verification
 	 */
@@ -280,6 +316,11 @@ export interface SecureDeleteResult {
 	 */
 	recordsDeleted: number
 
+	/**
+	 * Number of matching records kept because a legal hold covers them
+	 */
+	recordsHeld: number
+
 	/**
 	 * Status of deletion verification
 	 */
@@ -381,6 +422,31 @@ export interface ArchiveStatistics {
 	newestArchive?: string
 }
 
+/**
+ * Result of re-wrapping archive data keys after a KMS key rotation
+ */
+export interface ArchiveKeyRotationResult {
+	/**
+	 * Number of encrypted archives examined
+	 */
+	encryptedArchives: number
+
+	/**
+	 * Number of archives re-wrapped with the current key
+	 */
+	rotatedArchives: number
+
+	/**
+	 * IDs of archives whose data key could not be re-wrapped
+	 */
+	failedArchiveIds: string[]
+
+	/**
+	 * Timestamp when the rotation was performed
+	 */
+	rotationTimestamp: string
+}
+
 /**
  * Result of archive cleanup
  */
@@ -390,6 +456,11 @@ export interface ArchiveCleanupResult {
 	 */
 	archivesDeleted: number
 
+	/**
+	 * Number of expired archives kept because they hold records under legal hold
+	 */
+	archivesHeld: number
+
 	/**
 	 * Amount of space freed in bytes
 	 */
@@ -411,6 +482,8 @@ export abstract class ArchivalService {
 	protected retentionPolicyTable: any
 	protected archiveTable: any
 	protected config: ArchiveConfig
+	protected keyWrapper?: ArchiveKeyWrapper
+	protected legalHolds: LegalHoldService
 	protected logger: Logger
 
 	/**
@@ -421,19 +494,25 @@ export abstract class ArchivalService {
 	 * @param retentionPolicyTable Retention policy table
 	 * @param archiveTable Archive storage table
 	 * @param config Archive configuration
+	 * @param keyWrapper KMS wrapper of archive data keys, required to encrypt or read encrypted archives
+	 * @param legalHolds Legal holds enforced on deletions, read from the same database by default
 	 */
 	constructor(
 		db: any,
 		auditLogTable: any,
 		retentionPolicyTable: any,
 		archiveTable: any,
-		config: Partial<ArchiveConfig> = {}
+		config: Partial<ArchiveConfig> = {},
+		keyWrapper?: ArchiveKeyWrapper,
+		legalHolds?: LegalHoldService
 	) {
 		this.db = db
 		this.auditLogTable = auditLogTable
 		this.retentionPolicyTable = retentionPolicyTable
 		this.archiveTable = archiveTable
 		this.config = { ...DEFAULT_ARCHIVE_CONFIG, ...config }
+		this.keyWrapper = keyWrapper
+		this.legalHolds = legalHolds ?? new LegalHoldService(db)
 		this.logger = new ConsoleLogger({
 			environment: 'development',
 			application: 'web',
@@ -583,30 +662,26 @@ export abstract class ArchivalService {
 
 		try {
 			// Serialize records based on format
-			let serializedData: string
-			switch (this.config.format) {
-				case 'json':
-					serializedData = JSON.stringify(records)
-					break
-				case 'jsonl':
-					serializedData = records.map((record) => JSON.stringify(record)).join('\\n')
-					break
-				default:
-					this.logger.error('Unsupported archive format', {
-						error: `Unsupported archive format: ${this.config.format}`,
-					})
-					throw new Error(`Unsupported archive format: ${this.config.format}`)
+			let serializedData: Buffer
+			try {
+				serializedData = serializeArchiveRecords(records, this.config.format, this.config.batchSize)
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error)
+				this.logger.error('Error serializing archive records', { error: message })
+				throw error
 			}
 
 			// Calculate original checksum
 			const checksumOriginal = createHash('sha256').update(serializedData).digest('hex')
-			const originalSize = Buffer.byteLength(serializedData, 'utf8')
+			const originalSize = serializedData.length
 
-			// Compress data
+			// Compress data; Parquet pages are already compressed
+			const compressionAlgorithm =
+				this.config.format === 'parquet' ? 'none' : this.config.compressionAlgorithm
 			let compressedData: Buffer
 			let checksumCompressed: string
 
-			switch (this.config.compressionAlgorithm) {
+			switch (compressionAlgorithm) {
 				case 'gzip': {
 					compressedData = await new Promise((resolve, reject) => {
 						const gzip = createGzip({ level: this.config.compressionLevel })
@@ -614,7 +689,7 @@ export abstract class ArchivalService {
 						gzip.on('data', (chunk) => chunks.push(chunk))
 						gzip.on('end', () => resolve(Buffer.concat(chunks)))
 						gzip.on('error', reject)
-						gzip.end(Buffer.from(serializedData, 'utf8'))
+						gzip.end(serializedData)
 					})
 					break
 				}
@@ -625,24 +700,41 @@ export abstract class ArchivalService {
 						deflate.on('data', (chunk) => chunks.push(chunk))
 						deflate.on('end', () => resolve(Buffer.concat(chunks)))
 						deflate.on('error', reject)
-						deflate.end(Buffer.from(serializedData, 'utf8'))
+						deflate.end(serializedData)
 					})
 					break
 				}
 				case 'none':
-					compressedData = Buffer.from(serializedData, 'utf8')
+					compressedData = serializedData
 					break
 				default:
 					this.logger.error('Unsupported compression algorithm', {
-						error: `Unsupported compression algorithm: ${this.config.compressionAlgorithm}`,
+						error: `Unsupported compression algorithm: ${compressionAlgorithm}`,
 					})
-					throw new Error(`Unsupported compression algorithm: ${this.config.compressionAlgorithm}`)
+					throw new Error(`Unsupported compression algorithm: ${compressionAlgorithm}`)
 			}
 
-			// Calculate compressed checksum
-			checksumCompressed = createHash('sha256').update(compressedData).digest('hex')
 			const compressedSize = compressedData.length
 
+			// Encrypt the compressed data; PHI must be encrypted at rest whatever the configuration
+			let storedData = compressedData
+			let encryption: ArchiveEncryptionMetadata | undefined
+			if (this.config.encryptArchive || metadata.dataClassification === 'PHI') {
+				if (!this.keyWrapper) {
+					throw new ArchiveEncryptionError(
+						`Archive encryption is required for ${metadata.dataClassification} data but no KMS key wrapper is configured`
+					)
+				}
+				;({ data: storedData, encryption } = await encryptArchiveData(
+					compressedData,
+					archiveId,
+					this.keyWrapper
+				))
+			}
+
+			// Calculate the checksum of the stored data
+			checksumCompressed = createHash('sha256').update(storedData).digest('hex')
+
 			// Create archive metadata
 			const archiveMetadata = {
 				archiveId,
@@ -654,13 +746,14 @@ export abstract class ArchivalService {
 				checksumOriginal,
 				checksumCompressed,
 				...metadata,
+				...(encryption && { encryption }),
 				config: {
-					compressionAlgorithm: this.config.compressionAlgorithm,
+					compressionAlgorithm,
 					compressionLevel: this.config.compressionLevel,
 					format: this.config.format,
 					batchSize: this.config.batchSize,
 					verifyIntegrity: this.config.verifyIntegrity,
-					encryptArchive: this.config.encryptArchive,
+					encryptArchive: encryption !== undefined,
 				},
 			}
 
@@ -668,7 +761,7 @@ export abstract class ArchivalService {
 			const archive = {
 				id: archiveId,
 				metadata: archiveMetadata,
-				data: compressedData,
+				data: storedData,
 				createdAt: archiveMetadata.createdAt,
 				retrievedCount: 0,
 				lastRetrievedAt: undefined,
@@ -694,6 +787,7 @@ export abstract class ArchivalService {
 				compressionRatio: compressedSize / originalSize,
 				checksumOriginal,
 				checksumCompressed,
+				encrypted: encryption !== undefined,
 				verificationStatus,
 				timestamp: archiveMetadata.createdAt,
 				processingTime,
@@ -728,34 +822,15 @@ export abstract class ArchivalService {
 			let totalSize = 0
 
 			for (const archive of archives) {
-				// Decompress archive data
-				const decompressedData = await this.decompressArchiveData(archive)
-
-				// Parse records
-				let records: any[]
-				switch (archive.metadata.config?.format || 'json') {
-					case 'json':
-						records = JSON.parse(decompressedData)
-						break
-					case 'jsonl':
-						records = decompressedData
-							.split('\\n')
-							.filter((line) => line.trim())
-							.map((line) => JSON.parse(line))
-						break
-					default:
-						this.logger.error(`Unsupported archive format: ${archive.metadata.config?.format}`, {
-							error: `Unsupported archive format: ${archive.metadata.config?.format}`,
-						})
-						throw new Error(`Unsupported archive format: ${archive.metadata.config?.format}`)
-				}
+				// Read records, skipping Parquet row groups that cannot match the request
+				const records = await this.readArchiveRecords(archive, request)
 
 				// Filter records based on request criteria
 				const filteredRecords = this.filterRecords(records, request)
 
 				if (filteredRecords.length > 0) {
 					processedArchives.push({
-						metadata: archive.metadata,
+						metadata: this.redactEncryptionMetadata(archive.metadata),
 						records: filteredRecords,
 					})
 
@@ -786,6 +861,9 @@ export abstract class ArchivalService {
 
 	/**
 	 * Securely delete audit data based on criteria
+	 * Records covered by an active legal hold are kept. The criteria must name the
+	 * organization and narrow it with at least one other filter, and records are
+	 * deleted in batches of SECURE_DELETE_BATCH_SIZE.
 	 *
 	 * @param criteria Deletion criteria
 	 * @returns Deletion result
@@ -797,77 +875,94 @@ export abstract class ArchivalService {
 		dataClassifications?: string[]
 		retentionPolicies?: string[]
 		verifyDeletion?: boolean
+		requestedBy?: string
 	}): Promise<SecureDeleteResult> {
-		try {
-			// Build query to find records to delete
-			let query = this.db.select().from(this.auditLogTable)
-
-			if (criteria.principalId) {
-				query = query.where({ principalId: criteria.principalId })
-			}
-
-			if (criteria.organizationId) {
-				query = query.where({ organizationId: criteria.organizationId })
-			}
-
-			if (criteria.dateRange) {
-				query = query.where('timestamp', '>=', criteria.dateRange.start)
-				query = query.where('timestamp', '<=', criteria.dateRange.end)
-			}
+		if (
+			!criteria.organizationId ||
+			!(
+				criteria.principalId ||
+				criteria.dateRange ||
+				criteria.dataClassifications?.length ||
+				criteria.retentionPolicies?.length
+			)
+		) {
+			throw new Error(
+				'Secure deletion requires an organization and at least one of principal, date range, classification or retention policy'
+			)
+		}
 
-			if (criteria.dataClassifications && criteria.dataClassifications.length > 0) {
-				query = query.where('dataClassification', 'in', criteria.dataClassifications)
-			}
+		try {
+			const table = this.auditLogTable
+			const matching = and(
+				eq(table.organizationId, criteria.organizationId),
+				criteria.principalId ? eq(table.principalId, criteria.principalId) : undefined,
+				criteria.dateRange ? gte(table.timestamp, criteria.dateRange.start) : undefined,
+				criteria.dateRange ? lte(table.timestamp, criteria.dateRange.end) : undefined,
+				criteria.dataClassifications?.length
+					? inArray(table.dataClassification, criteria.dataClassifications)
+					: undefined,
+				criteria.retentionPolicies?.length
+					? inArray(table.retentionPolicy, criteria.retentionPolicies)
+					: undefined
+			)
+
+			const { requestedBy, ...details } = criteria
+			const { releasable, recordsHeld } = await this.legalHolds.enforceOnEvents(
+				'archive.secure_delete',
+				matching,
+				{ requestedBy, details }
+			)
+
+			// Delete in batches so neither the ids nor the bind parameters grow with the match
+			let recordsDeleted = 0
+			for (;;) {
+				const deleted = await this.db
+					.delete(table)
+					.where(
+						inArray(
+							table.id,
+							this.db
+								.select({ id: table.id })
+								.from(table)
+								.where(releasable)
+								.limit(SECURE_DELETE_BATCH_SIZE)
+						)
+					)
+					.returning({
+						id: table.id,
+						organizationId: table.organizationId,
+						previousHash: table.previousHash,
+						chainHash: table.chainHash,
+					})
 
-			if (criteria.retentionPolicies && criteria.retentionPolicies.length > 0) {
-				query = query.where('retentionPolicy', 'in', criteria.retentionPolicies)
+				recordsDeleted += deleted.length
+				await recordChainRemovals(this.db, deleted, {
+					reason: 'archive.secure_delete',
+					removedBy: requestedBy ?? 'system',
+				})
+				if (deleted.length < SECURE_DELETE_BATCH_SIZE) break
 			}
 
-			// Get records to delete
-			const recordsToDelete = await query
-
-			if (recordsToDelete.length === 0) {
-				return {
-					recordsDeleted: 0,
-					verificationStatus: 'skipped',
-					deletionTimestamp: new Date().toISOString(),
-				}
-			}
-
-			// Extract IDs for verification
-			const recordIds = recordsToDelete.map((record: any) => record.id)
-
-			// Delete records
-			const deleteResult = await this.db.delete(this.auditLogTable).where('id', 'in', recordIds)
-
-			const recordsDeleted = deleteResult.rowCount || 1
-
 			// Verify deletion if requested
 			let verificationStatus: 'verified' | 'failed' | 'skipped' = 'skipped'
 			let verificationDetails
 
-			if (criteria.verifyDeletion) {
-				// Check if any records still exist
-				const remainingRecords = []
-
-				for (const id of recordIds) {
-					const record = await this.db.select().from(this.auditLogTable).where({ id }).limit(1)
+			if (criteria.verifyDeletion && recordsDeleted > 0) {
+				// Check if any releasable records still exist
+				const [remaining] = await this.db.select({ records: count() }).from(table).where(releasable)
+				const remainingRecords = Number(remaining?.records ?? 0)
 
-					if (record.length > 0) {
-						remainingRecords.push(record[0])
-					}
-				}
-
-				const allDeleted = remainingRecords.length === 0
+				const allDeleted = remainingRecords === 0
 				verificationStatus = allDeleted ? 'verified' : 'failed'
 				verificationDetails = {
 					allDeleted,
-					remainingRecords: remainingRecords.length,
+					remainingRecords,
 				}
 			}
 
 			return {
 				recordsDeleted,
+				recordsHeld,
 				verificationStatus,
 				deletionTimestamp: new Date().toISOString(),
 				verificationDetails,
@@ -957,6 +1052,7 @@ export abstract class ArchivalService {
 
 	/**
 	 * Clean up old archives based on retention policies
+	 * Archives holding records covered by an active legal hold are kept.
 	 *
 	 * @returns Cleanup result
 	 */
@@ -966,10 +1062,15 @@ export abstract class ArchivalService {
 			const policies = await this.db
 				.select()
 				.from(this.retentionPolicyTable)
-				.where({ isActive: 'true' })
-				.where('deleteAfterDays', 'is not', null)
+				.where(
+					and(
+						eq(this.retentionPolicyTable.isActive, 'true'),
+						isNotNull(this.retentionPolicyTable.deleteAfterDays)
+					)
+				)
 
 			let archivesDeleted = 0
+			let archivesHeld = 0
 			let spaceFreed = 0
 
 			// Process each policy
@@ -977,12 +1078,19 @@ export abstract class ArchivalService {
 				const cutoffDate = new Date()
 				cutoffDate.setDate(cutoffDate.getDate() - policy.deleteAfterDays)
 
-				// Find archives to delete
-				const archivesToDelete = await this.db
+				// Find archives to delete, matching the retention policy index of archive_storage
+				const expiredArchives = await this.db
 					.select()
 					.from(this.archiveTable)
-					.where('metadata->retentionPolicy', '=', policy.policyName)
-					.where('createdAt', '<', cutoffDate.toISOString())
+					.where(
+						and(
+							sql`(${this.archiveTable.metadata}->>'retentionPolicy') = ${policy.policyName}`,
+							lt(this.archiveTable.createdAt, cutoffDate.toISOString())
+						)
+					)
+
+				const archivesToDelete = await this.withoutHeldArchives(expiredArchives, policy.policyName)
+				archivesHeld += expiredArchives.length - archivesToDelete.length
 
 				// Delete archives
 				if (archivesToDelete.length > 0) {
@@ -993,14 +1101,21 @@ export abstract class ArchivalService {
 
 					// Delete archives
 					const archiveIds = archivesToDelete.map((archive: any) => archive.id)
-					const deleteResult = await this.db.delete(this.archiveTable).where('id', 'in', archiveIds)
+					const deleted = await this.db
+						.delete(this.archiveTable)
+						.where(inArray(this.archiveTable.id, archiveIds))
+						.returning({ id: this.archiveTable.id })
+
+					archivesDeleted += deleted.length
 
-					archivesDeleted += deleteResult.rowCount || 0
+					// Delete their data from the blob store
+					await this.releaseArchiveData(archivesToDelete)
 				}
 			}
 
 			return {
 				archivesDeleted,
+				archivesHeld,
 				spaceFreed,
 				cleanupTimestamp: new Date().toISOString(),
 			}
@@ -1059,6 +1174,113 @@ export abstract class ArchivalService {
 		}
 	}
 
+	/**
+	 * Validate the integrity of a single archive
+	 *
+	 * @param archiveId ID of the archive to validate
+	 * @returns Whether the archive exists and matches its checksums
+	 */
+	public async validateArchive(archiveId: string): Promise<boolean> {
+		return this.verifyArchiveIntegrity(archiveId)
+	}
+
+	/**
+	 * Re-wrap the data keys of encrypted archives with the current KMS key
+	 * Run after rotating the KMS key, before retiring the previous one.
+	 *
+	 * @returns Rotation result
+	 */
+	public async rotateArchiveKeys(): Promise<ArchiveKeyRotationResult> {
+		if (!this.keyWrapper) {
+			throw new ArchiveEncryptionError('No KMS key wrapper is configured')
+		}
+
+		try {
+			const archives = await this.db
+				.select({ id: this.archiveTable.id, metadata: this.archiveTable.metadata })
+				.from(this.archiveTable)
+
+			let encryptedArchives = 0
+			let rotatedArchives = 0
+			const failedArchiveIds: string[] = []
+
+			for (const archive of archives) {
+				if (!archive.metadata?.encryption) continue
+				encryptedArchives++
+
+				try {
+					const encryption = await rewrapArchiveKey(archive.metadata.encryption, this.keyWrapper)
+					if (encryption) {
+						await this.updateArchiveMetadata(archive.id, { ...archive.metadata, encryption })
+						rotatedArchives++
+					}
+				} catch (error) {
+					const message = error instanceof Error ? error.message : String(error)
+					this.logger.error(`Error re-wrapping data key of archive ${archive.id}:`, {
+						error: message,
+					})
+					failedArchiveIds.push(archive.id)
+				}
+			}
+
+			return {
+				encryptedArchives,
+				rotatedArchives,
+				failedArchiveIds,
+				rotationTimestamp: new Date().toISOString(),
+			}
+		} catch (error) {
+			const message =
+				error instanceof Error ? error.message : 'Unknown error during archive key rotation'
+			this.logger.error('Error rotating archive keys:', { error: message })
+			throw error
+		}
+	}
+
+	/**
+	 * Decrypt the stored data of an archive
+	 * Unencrypted archives are returned as stored.
+	 *
+	 * @param archive Archive to decrypt
+	 * @returns Compressed archive data
+	 */
+	protected async decryptArchiveData(archive: any): Promise<Buffer> {
+		const encryption: ArchiveEncryptionMetadata | undefined = archive.metadata?.encryption
+		if (!encryption) {
+			return archive.data
+		}
+		if (!this.keyWrapper) {
+			throw new ArchiveEncryptionError(
+				`Archive ${archive.id} is encrypted but no KMS key wrapper is configured`
+			)
+		}
+		return decryptArchiveData(archive.data, archive.id, encryption, this.keyWrapper)
+	}
+
+	/**
+	 * Replace the metadata of an archive
+	 *
+	 * @param archiveId Archive ID
+	 * @param metadata New metadata
+	 */
+	protected async updateArchiveMetadata(archiveId: string, metadata: any): Promise<void> {
+		await this.db
+			.update(this.archiveTable)
+			.set({ metadata })
+			.where(eq(this.archiveTable.id, archiveId))
+	}
+
+	/**
+	 * Archive metadata safe to return to callers, without the wrapped data key
+	 */
+	protected redactEncryptionMetadata(metadata: any): any {
+		if (!metadata?.encryption) {
+			return metadata
+		}
+		const { algorithm, keyId, encryptedAt } = metadata.encryption as ArchiveEncryptionMetadata
+		return { ...metadata, encryption: { algorithm, keyId, encryptedAt } }
+	}
+
 	/**
 	 * Verify the integrity of an archive
 	 *
@@ -1082,8 +1304,8 @@ export abstract class ArchivalService {
 				return false
 			}
 
-			// Decompress data
-			const decompressedData = await this.decompressArchiveData(archive)
+			// Decrypt and decompress data
+			const decompressedData = await this.readSerializedData(archive)
 
 			// Verify original data checksum
 			const actualOriginalChecksum = createHash('sha256').update(decompressedData).digest('hex')
@@ -1100,6 +1322,51 @@ export abstract class ArchivalService {
 		}
 	}
 
+	/**
+	 * Read the serialized records of an archive, decrypted and decompressed
+	 *
+	 * @param archive Archive to read
+	 * @returns Serialized records
+	 */
+	protected async readSerializedData(archive: any): Promise<Buffer> {
+		if (archive.metadata.config?.format === 'parquet') {
+			return this.decryptArchiveData(archive)
+		}
+		return Buffer.from(await this.decompressArchiveData(archive), 'utf8')
+	}
+
+	/**
+	 * Read the records of an archive
+	 * Parquet archives are only decoded for the row groups that can match the request.
+	 *
+	 * @param archive Archive to read
+	 * @param request Retrieval request
+	 * @returns Archived records, a superset of the records matching the request
+	 */
+	protected async readArchiveRecords(
+		archive: any,
+		request: ArchiveRetrievalRequest
+	): Promise<any[]> {
+		const format = archive.metadata.config?.format || 'json'
+
+		try {
+			if (format === 'parquet') {
+				const { records, rowGroupsRead, rowGroupsTotal } = await readParquetArchive(
+					await this.readSerializedData(archive),
+					request
+				)
+				this.logger.debug(`Read ${rowGroupsRead} of ${rowGroupsTotal} row groups of ${archive.id}`)
+				return records
+			}
+
+			return parseArchiveRecords(await this.decompressArchiveData(archive), format)
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error)
+			this.logger.error(`Error reading archive ${archive.id}:`, { error: message })
+			throw error
+		}
+	}
+
 	/**
 	 * Filter records based on retrieval criteria
 	 *
@@ -1114,6 +1381,11 @@ export abstract class ArchivalService {
 				return false
 			}
 
+			// Filter by organization ID
+			if (request.organizationId && record.organizationId !== request.organizationId) {
+				return false
+			}
+
 			// Filter by actions
 			if (
 				request.actions &&
@@ -1147,6 +1419,42 @@ export abstract class ArchivalService {
 		})
 	}
 
+	/**
+	 * Drop the archives holding records covered by an active legal hold
+	 * Archives are only read when a hold is active.
+	 *
+	 * @param archives Archives due for deletion
+	 * @param policyName Retention policy the archives expired under
+	 * @returns The archives that may be deleted
+	 */
+	protected async withoutHeldArchives(archives: any[], policyName: string): Promise<any[]> {
+		if (archives.length === 0) return archives
+
+		const holds = await this.legalHolds.getActiveHolds()
+		if (holds.length === 0) return archives
+
+		const releasable = []
+		for (const archive of archives) {
+			const { recordsHeld } = await this.legalHolds.enforceOnRecords(
+				'archive.cleanup',
+				await this.readArchiveRecords(archive, {}),
+				{ requestedBy: 'system', details: { archiveId: archive.id, policy: policyName } }
+			)
+			if (recordsHeld === 0) {
+				releasable.push(archive)
+			}
+		}
+		return releasable
+	}
+
+	/**
+	 * Delete the stored data of deleted archives
+	 * Data held inline is deleted with the archive row.
+	 *
+	 * @param archives Deleted archives
+	 */
+	protected async releaseArchiveData(_archives: any[]): Promise<void> {}
+
 	/**
 	 * Store an archive in the database
 	 *
@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Archive Blob Stores
+ *
+ * Archive data can live outside the primary database:
+ * - postgres: inline in the archive table (default)
+ * - local: files under a base directory
+ * - s3: an S3-compatible bucket, including MinIO and other local stand-ins
+ *
+ * Blobs are content-addressed by the SHA-256 of the stored bytes, so the archive table
+ * keeps only the metadata and a pointer, and the pointer doubles as an integrity check.
+ */
+
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import {
+	DeleteObjectCommand,
+	GetObjectCommand,
+	PutObjectCommand,
+	S3Client,
+} from '@aws-sdk/client-s3'
+
+/**
+ * Where archive data is stored
+ */
+export type ArchiveStorageProvider = 'postgres' | 'local' | 's3'
+
+export interface PostgresArchiveStorageConfig {
+	provider: 'postgres'
+}
+
+export interface LocalArchiveStorageConfig {
+	provider: 'local'
+	/** Directory archives are written under */
+	basePath: string
+}
+
+export interface S3ArchiveStorageConfig {
+	provider: 's3'
+	bucket: string
+	/** Key prefix archives are written under */
+	prefix?: string
+	region?: string
+	/** Endpoint of S3-compatible storage such as MinIO */
+	endpoint?: string
+	/** Path-style addressing, required by most S3-compatible storage */
+	forcePathStyle?: boolean
+	accessKeyId?: string
+	secretAccessKey?: string
+}
+
+/**
+ * Storage backend of archive data
+ */
+export type ArchiveStorageConfig =
+	| PostgresArchiveStorageConfig
+	| LocalArchiveStorageConfig
+	| S3ArchiveStorageConfig
+
+/**
+ * Store of archive data outside the archive table
+ */
+export interface ArchiveBlobStore {
+	readonly provider: Exclude<ArchiveStorageProvider, 'postgres'>
+	/** Store data under the key derived from its checksum and return the key */
+	put(checksum: string, data: Buffer): Promise<string>
+	get(key: string): Promise<Buffer>
+	/** Deleting a missing blob is not an error */
+	delete(key: string): Promise<void>
+}
+
+/**
+ * Content-addressed key of archive data
+ *
+ * @param checksum SHA-256 of the stored data, hex encoded
+ */
+export function archiveBlobKey(checksum: string): string {
+	if (!/^[0-9a-f]{64}$/.test(checksum)) {
+		throw new Error(`Invalid archive checksum: ${checksum}`)
+	}
+	return `sha256/${checksum.slice(0, 2)}/${checksum}`
+}
+
+/**
+ * Archive data as files under a base directory
+ */
+export class LocalArchiveBlobStore implements ArchiveBlobStore {
+	readonly provider = 'local'
+	private root: string
+
+	constructor(config: Omit<LocalArchiveStorageConfig, 'provider'>) {
+		this.root = path.resolve(config.basePath)
+	}
+
+	async put(checksum: string, data: Buffer): Promise<string> {
+		const key = archiveBlobKey(checksum)
+		const target = this.filePath(key)
+
+		await mkdir(path.dirname(target), { recursive: true })
+		// Write to a temporary file first so a crash never leaves a truncated blob under its checksum
+		const temporary = `${target}.${process.pid}.tmp`
+		try {
+			await writeFile(temporary, data)
+			await rename(temporary, target)
+		} catch (error) {
+			await rm(temporary, { force: true })
+			throw error
+		}
+		return key
+	}
+
+	async get(key: string): Promise<Buffer> {
+		return readFile(this.filePath(key))
+	}
+
+	async delete(key: string): Promise<void> {
+		await rm(this.filePath(key), { force: true })
+	}
+
+	private filePath(key: string): string {
+		const target = path.resolve(this.root, ...key.split('/'))
+		if (!target.startsWith(this.root + path.sep)) {
+			throw new Error('Archive location escapes the storage root')
+		}
+		return target
+	}
+}
+
+/**
+ * Archive data as objects in an S3-compatible bucket
+ */
+export class S3ArchiveBlobStore implements ArchiveBlobStore {
+	readonly provider = 's3'
+	private client: S3Client
+
+	constructor(private config: Omit<S3ArchiveStorageConfig, 'provider'>) {
+		const { accessKeyId, secretAccessKey } = config
+		this.client = new S3Client({
+			region: config.region || 'auto',
+			endpoint: config.endpoint,
+			forcePathStyle: config.forcePathStyle,
+			// Fall back to the SDK's default credential chain when no keys are configured
+			...(accessKeyId && secretAccessKey && { credentials: { accessKeyId, secretAccessKey } }),
+		})
+	}
+
+	async put(checksum: string, data: Buffer): Promise<string> {
+		const key = archiveBlobKey(checksum)
+		await this.client.send(
+			new PutObjectCommand({
+				Bucket: this.config.bucket,
+				Key: this.objectKey(key),
+				Body: data,
+				ContentType: 'application/octet-stream',
+				// S3 verifies the upload against the checksum
+				ChecksumSHA256: Buffer.from(checksum, 'hex').toString('base64'),
+			})
+		)
+		return key
+	}
+
+	async get(key: string): Promise<Buffer> {
+		const response = await this.client.send(
+			new GetObjectCommand({ Bucket: this.config.bucket, Key: this.objectKey(key) })
+		)
+		if (!response.Body) {
+			throw new Error(`Archive object ${key} has no content`)
+		}
+		return Buffer.from(await response.Body.transformToByteArray())
+	}
+
+	async delete(key: string): Promise<void> {
+		await this.client.send(
+			new DeleteObjectCommand({ Bucket: this.config.bucket, Key: this.objectKey(key) })
+		)
+	}
+
+	private objectKey(key: string): string {
+		return this.config.prefix ? `${this.config.prefix.replace(/\/+$/, '')}/${key}` : key
+	}
+}
+
+/**
+ * Create the blob store of a storage configuration
+ *
+ * @returns The blob store, or null when archive data stays in the archive table
+ */
+export function createArchiveBlobStore(config?: ArchiveStorageConfig): ArchiveBlobStore | null {
+	switch (config?.provider) {
+		case undefined:
+		case 'postgres':
+			return null
+		case 'local':
+			return new LocalArchiveBlobStore(config)
+		case 's3':
+			return new S3ArchiveBlobStore(config)
+		default:
+			throw new Error(
+				`Unsupported archive storage provider: ${(config as ArchiveStorageConfig).provider}`
+			)
+	}
+}
+
+/**
+ * Read the archive storage configuration from the environment
+ *
+ * - ARCHIVE_STORAGE_PROVIDER: postgres (default), local or s3
+ * - ARCHIVE_STORAGE_PATH: base directory of local storage
+ * - ARCHIVE_S3_BUCKET, ARCHIVE_S3_PREFIX: bucket and key prefix of S3 storage
+ * - S3_ENDPOINT, S3_REGION, S3_FORCE_PATH_STYLE, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY
+ */
+export function archiveStorageConfigFromEnv(
+	env: NodeJS.ProcessEnv = process.env
+): ArchiveStorageConfig {
+	const provider = env.ARCHIVE_STORAGE_PROVIDER || 'postgres'
+
+	switch (provider) {
+		case 'postgres':
+			return { provider }
+		case 'local':
+			return { provider, basePath: env.ARCHIVE_STORAGE_PATH || './archives' }
+		case 's3': {
+			const bucket = env.ARCHIVE_S3_BUCKET || env.S3_BUCKET
+			if (!bucket) {
+				throw new Error('ARCHIVE_S3_BUCKET or S3_BUCKET is required for S3 archive storage')
+			}
+			return {
+				provider,
+				bucket,
+				prefix: env.ARCHIVE_S3_PREFIX,
+				region: env.S3_REGION,
+				endpoint: env.S3_ENDPOINT,
+				forcePathStyle: env.S3_FORCE_PATH_STYLE === 'true',
+				accessKeyId: env.AWS_ACCESS_KEY_ID,
+				secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+			}
+		}
+		default:
+			throw new Error(`Unsupported archive storage provider: ${provider}`)
+	}
+}
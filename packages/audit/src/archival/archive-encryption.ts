@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Archive Envelope Encryption
+ *
+ * Archives are encrypted at rest with envelope encryption:
+ * - Every archive gets its own random AES-256-GCM data key
+ * - The data key is wrapped by the KMS and stored, wrapped, in the archive metadata
+ * - The archive id is bound as additional authenticated data, so ciphertexts cannot be swapped
+ * - The metadata records which KMS key wrapped the data key; after a rotation, archives
+ *   wrapped by retired keys stay readable and can be re-wrapped without touching their data
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+
+import { InfisicalKmsClient } from '@repo/infisical-kms'
+
+import type { SecurityConfig } from '../config/types.js'
+
+export const ARCHIVE_ENCRYPTION_ALGORITHM = 'aes-256-gcm'
+
+/**
+ * A data key wrapped by a KMS key
+ */
+export interface WrappedArchiveKey {
+	keyId: string
+	wrappedKey: string
+}
+
+/**
+ * Encryption details stored in the metadata of an encrypted archive
+ */
+export interface ArchiveEncryptionMetadata extends WrappedArchiveKey {
+	algorithm: typeof ARCHIVE_ENCRYPTION_ALGORITHM
+	/** Base64 GCM initialization vector */
+	iv: string
+	/** Base64 GCM authentication tag */
+	authTag: string
+	encryptedAt: string
+	/** KMS keys that wrapped the data key before, oldest first */
+	keyHistory?: Array<{ keyId: string; rotatedAt: string }>
+}
+
+/**
+ * Wraps and unwraps archive data keys
+ */
+export interface ArchiveKeyWrapper {
+	/** Key new data keys are wrapped with */
+	readonly currentKeyId: string
+	wrapKey(dataKey: Buffer): Promise<WrappedArchiveKey>
+	unwrapKey(wrapped: WrappedArchiveKey): Promise<Buffer>
+}
+
+/**
+ * Archive encryption or decryption failed
+ */
+export class ArchiveEncryptionError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'ArchiveEncryptionError'
+	}
+}
+
+/**
+ * Key wrapper backed by Infisical KMS keys
+ * The current key wraps new data keys; retired keys only unwrap existing ones.
+ */
+export class KmsArchiveKeyWrapper implements ArchiveKeyWrapper {
+	readonly currentKeyId: string
+
+	constructor(
+		currentKeyId: string,
+		private clients: Record<string, InfisicalKmsClient>
+	) {
+		if (!clients[currentKeyId]) {
+			throw new ArchiveEncryptionError(`No KMS client for the current key ${currentKeyId}`)
+		}
+		this.currentKeyId = currentKeyId
+	}
+
+	async wrapKey(dataKey: Buffer): Promise<WrappedArchiveKey> {
+		const { ciphertext } = await this.clients[this.currentKeyId]!.encrypt(
+			dataKey.toString('base64')
+		)
+		return { keyId: this.currentKeyId, wrappedKey: ciphertext }
+	}
+
+	async unwrapKey(wrapped: WrappedArchiveKey): Promise<Buffer> {
+		const client = this.clients[wrapped.keyId]
+		if (!client) {
+			throw new ArchiveEncryptionError(
+				`Archive key was wrapped by unknown KMS key ${wrapped.keyId}`
+			)
+		}
+
+		const { plaintext } = await client.decrypt(wrapped.wrappedKey)
+		return Buffer.from(plaintext, 'base64')
+	}
+}
+
+/**
+ * Create the key wrapper for the KMS settings of the audit config
+ */
+export function createKmsArchiveKeyWrapper(kms: SecurityConfig['kms']): KmsArchiveKeyWrapper {
+	const keyIds = [kms.encryptionKey, ...(kms.previousEncryptionKeys ?? [])]
+	const clients = Object.fromEntries(
+		keyIds.map((keyId) => [
+			keyId,
+			new InfisicalKmsClient({
+				baseUrl: kms.baseUrl,
+				encryptionKey: keyId,
+				signingKey: kms.signingKey,
+				accessToken: kms.accessToken,
+			}),
+		])
+	)
+	return new KmsArchiveKeyWrapper(kms.encryptionKey, clients)
+}
+
+/**
+ * Encrypt archive data under a fresh data key
+ */
+export async function encryptArchiveData(
+	data: Buffer,
+	archiveId: string,
+	keyWrapper: ArchiveKeyWrapper
+): Promise<{ data: Buffer; encryption: ArchiveEncryptionMetadata }> {
+	const dataKey = randomBytes(32)
+	const iv = randomBytes(12)
+
+	try {
+		const cipher = createCipheriv(ARCHIVE_ENCRYPTION_ALGORITHM, dataKey, iv)
+		cipher.setAAD(Buffer.from(archiveId, 'utf8'))
+		const encrypted = Buffer.concat([cipher.update(data), cipher.final()])
+		const wrapped = await keyWrapper.wrapKey(dataKey)
+
+		return {
+			data: encrypted,
+			encryption: {
+				algorithm: ARCHIVE_ENCRYPTION_ALGORITHM,
+				...wrapped,
+				iv: iv.toString('base64'),
+				authTag: cipher.getAuthTag().toString('base64'),
+				encryptedAt: new Date().toISOString(),
+			},
+		}
+	} finally {
+		dataKey.fill(0)
+	}
+}
+
+/**
+ * Decrypt archive data, verifying it was encrypted for this archive
+ */
+export async function decryptArchiveData(
+	data: Buffer,
+	archiveId: string,
+	encryption: ArchiveEncryptionMetadata,
+	keyWrapper: ArchiveKeyWrapper
+): Promise<Buffer> {
+	if (encryption.algorithm !== ARCHIVE_ENCRYPTION_ALGORITHM) {
+		throw new ArchiveEncryptionError(`Unsupported archive encryption: ${encryption.algorithm}`)
+	}
+
+	const dataKey = await keyWrapper.unwrapKey(encryption)
+	try {
+		const decipher = createDecipheriv(
+			ARCHIVE_ENCRYPTION_ALGORITHM,
+			dataKey,
+			Buffer.from(encryption.iv, 'base64')
+		)
+		decipher.setAAD(Buffer.from(archiveId, 'utf8'))
+		decipher.setAuthTag(Buffer.from(encryption.authTag, 'base64'))
+		return Buffer.concat([decipher.update(data), decipher.final()])
+	} catch (error) {
+		throw new ArchiveEncryptionError(
+			`Archive ${archiveId} could not be decrypted: ${error instanceof Error ? error.message : String(error)}`
+		)
+	} finally {
+		dataKey.fill(0)
+	}
+}
+
+/**
+ * Re-wrap the data key of an archive with the current KMS key
+ * The archive data is unchanged; the previous key is kept in the key history.
+ *
+ * @returns The updated encryption metadata, or null when the current key already wraps it
+ */
+export async function rewrapArchiveKey(
+	encryption: ArchiveEncryptionMetadata,
+	keyWrapper: ArchiveKeyWrapper
+): Promise<ArchiveEncryptionMetadata | null> {
+	if (encryption.keyId === keyWrapper.currentKeyId) {
+		return null
+	}
+
+	const dataKey = await keyWrapper.unwrapKey(encryption)
+	try {
+		const wrapped = await keyWrapper.wrapKey(dataKey)
+		return {
+			...encryption,
+			...wrapped,
+			keyHistory: [
+				...(encryption.keyHistory ?? []),
+				{ keyId: encryption.keyId, rotatedAt: new Date().toISOString() },
+			],
+		}
+	} finally {
+		dataKey.fill(0)
+	}
+}
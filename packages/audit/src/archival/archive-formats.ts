@@ -0,0 +1,227 @@
+/**
+ * @fileoverview Archive Serialization Formats
+ *
+ * Audit records are archived in one of three formats:
+ * - json: a single JSON array
+ * - jsonl: one JSON record per line
+ * - parquet: one column per record field, split into row groups of `batchSize` records
+ *
+ * Parquet archives carry min/max statistics per row group, so retrieval filters on
+ * principal, organization, action, classification and date range skip whole row groups
+ * without decoding them. Pages are Snappy-compressed inside the file, which keeps cold
+ * archives loadable as-is by analytics tools.
+ */
+
+import { parquetMetadata, parquetReadObjects } from 'hyparquet'
+import { parquetWriteBuffer } from 'hyparquet-writer'
+
+import type { ParquetQueryFilter } from 'hyparquet'
+import type { BasicType, ColumnSource } from 'hyparquet-writer'
+import type { ArchiveConfig, ArchiveRetrievalRequest } from './archival-service.js'
+
+export type ArchiveFormat = ArchiveConfig['format']
+
+/**
+ * Record fields written as Parquet timestamps
+ */
+export const ARCHIVE_TIMESTAMP_COLUMNS = ['timestamp', 'archivedAt']
+
+/**
+ * Result of reading a Parquet archive
+ */
+export interface ParquetArchiveReadResult {
+	records: any[]
+	/** Row groups in the archive */
+	rowGroupsTotal: number
+	/** Row groups decoded, the others were skipped on their statistics */
+	rowGroupsRead: number
+}
+
+/**
+ * Serialize records in an archive format
+ *
+ * @param records Records to serialize
+ * @param format Archive format
+ * @param rowGroupSize Records per Parquet row group
+ * @returns Serialized data
+ */
+export function serializeArchiveRecords(
+	records: any[],
+	format: ArchiveFormat,
+	rowGroupSize: number
+): Buffer {
+	switch (format) {
+		case 'json':
+			return Buffer.from(JSON.stringify(records), 'utf8')
+		case 'jsonl':
+			return Buffer.from(records.map((record) => JSON.stringify(record)).join('\n'), 'utf8')
+		case 'parquet':
+			return writeParquetArchive(records, rowGroupSize)
+		default:
+			throw new Error(`Unsupported archive format: ${format}`)
+	}
+}
+
+/**
+ * Parse the records of a JSON or JSONL archive
+ *
+ * @param data Decompressed archive data
+ * @param format Archive format
+ * @returns Archived records
+ */
+export function parseArchiveRecords(data: string, format: ArchiveFormat): any[] {
+	switch (format) {
+		case 'json':
+			return JSON.parse(data)
+		case 'jsonl':
+			return splitJsonLines(data)
+				.filter((line) => line.trim())
+				.map((line) => JSON.parse(line))
+		default:
+			throw new Error(`Unsupported archive format: ${format}`)
+	}
+}
+
+/**
+ * Write records as a Parquet file
+ * Column types are inferred from the record values; objects and mixed values are stored as JSON.
+ */
+export function writeParquetArchive(records: any[], rowGroupSize: number): Buffer {
+	const columnNames = [...new Set(records.flatMap((record) => Object.keys(record)))]
+	const columnData: ColumnSource[] = columnNames.map((name) => {
+		const values = records.map((record) => record[name] ?? null)
+
+		if (ARCHIVE_TIMESTAMP_COLUMNS.includes(name) && values.every(isTimestampValue)) {
+			// Epoch milliseconds as bigints, so the writer records min/max statistics
+			return {
+				name,
+				type: 'TIMESTAMP',
+				data: values.map((value) => (value === null ? null : BigInt(new Date(value).getTime()))),
+			}
+		}
+
+		return { name, type: inferParquetType(values), data: values }
+	})
+
+	return Buffer.from(parquetWriteBuffer({ columnData, rowGroupSize: Math.max(1, rowGroupSize) }))
+}
+
+/**
+ * Read the records of a Parquet archive matching a retrieval request
+ * Row groups whose statistics rule out the request are skipped.
+ *
+ * @param data Parquet file
+ * @param request Retrieval request to filter on
+ * @returns Matching records and row group counts
+ */
+export async function readParquetArchive(
+	data: Buffer,
+	request: ArchiveRetrievalRequest = {}
+): Promise<ParquetArchiveReadResult> {
+	const file = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer
+	const metadata = parquetMetadata(file)
+	const rowGroupsTotal = metadata.row_groups.length
+	const columns = new Set(metadata.schema.slice(1).map((element) => element.name))
+	const timestampColumns = metadata.schema
+		.filter((element) => element.converted_type === 'TIMESTAMP_MILLIS')
+		.map((element) => element.name)
+
+	const filter = parquetFilter(request, columns)
+	if (filter === null) {
+		// The request filters on a field the archive does not have, so nothing can match
+		return { records: [], rowGroupsTotal, rowGroupsRead: 0 }
+	}
+
+	const rowGroupsRead = new Set<number>()
+	const rows = await parquetReadObjects({
+		file,
+		metadata,
+		...(filter && { filter }),
+		onChunk: (chunk) => rowGroupsRead.add(chunk.rowStart),
+	})
+
+	const records = rows.map((row) => {
+		const record: Record<string, any> = {}
+		for (const [key, value] of Object.entries(row)) {
+			record[key] =
+				timestampColumns.includes(key) && value instanceof Date ? value.toISOString() : value
+		}
+		return record
+	})
+
+	return { records, rowGroupsTotal, rowGroupsRead: rowGroupsRead.size }
+}
+
+/**
+ * Translate a retrieval request into a Parquet row filter
+ *
+ * @returns The filter, undefined when the request has no record filters,
+ *   or null when it filters on a column the archive does not have
+ */
+function parquetFilter(
+	request: ArchiveRetrievalRequest,
+	columns: Set<string>
+): ParquetQueryFilter | undefined | null {
+	const conditions: ParquetQueryFilter[] = []
+
+	if (request.principalId) {
+		conditions.push({ principalId: { $eq: request.principalId } })
+	}
+	if (request.organizationId) {
+		conditions.push({ organizationId: { $eq: request.organizationId } })
+	}
+	if (request.actions && request.actions.length > 0) {
+		conditions.push({ action: { $in: request.actions } })
+	}
+	if (request.dataClassifications && request.dataClassifications.length > 0) {
+		conditions.push({ dataClassification: { $in: request.dataClassifications } })
+	}
+	if (request.dateRange) {
+		conditions.push({
+			timestamp: {
+				$gte: new Date(request.dateRange.start),
+				$lte: new Date(request.dateRange.end),
+			},
+		})
+	}
+
+	if (conditions.some((condition) => !Object.keys(condition).every((key) => columns.has(key)))) {
+		return null
+	}
+	if (conditions.length === 0) {
+		return undefined
+	}
+	return conditions.length === 1 ? conditions[0] : { $and: conditions }
+}
+
+function inferParquetType(values: unknown[]): BasicType {
+	const present = values.filter((value) => value !== null)
+	if (present.length === 0) return 'STRING'
+	if (present.every((value) => typeof value === 'string')) return 'STRING'
+	if (present.every((value) => typeof value === 'boolean')) return 'BOOLEAN'
+	if (present.every((value) => typeof value === 'number')) {
+		return present.every((value) => Number.isInteger(value) && Math.abs(value as number) < 2 ** 31)
+			? 'INT32'
+			: 'DOUBLE'
+	}
+	return 'JSON'
+}
+
+function isTimestampValue(value: unknown): boolean {
+	return (
+		value === null ||
+		value instanceof Date ||
+		(typeof value === 'string' && !Number.isNaN(Date.parse(value)))
+	)
+}
+
+/**
+ * Split JSONL into lines
+ * Archives written before JSONL used newlines separated their records with a literal "\n".
+ */
+function splitJsonLines(data: string): string[] {
+	if (!data.includes('\n') && data.includes('}\\n{')) {
+		return data.split(/(?<=\})\\n(?=\{)/)
+	}
+	return data.split('\n')
+}
@@ -0,0 +1,300 @@
+/**
+ * @fileoverview Archive Restore
+ *
+ * Rehydrates archived audit events back into audit_log so the query APIs see them again,
+ * typically for legal holds and investigations. Every archive is verified against its
+ * checksums and every record against its event hash and signature before it is restored:
+ * - verified records are restored with their original id, hash and chain links
+ * - tampered records are never restored
+ * - records archived without a hash are restored but reported as unverified
+ *
+ * Each outcome is recorded in audit_integrity_log against the event it concerns.
+ */
+
+import { getTableColumns, inArray } from 'drizzle-orm'
+
+import { auditIntegrityLog, auditLog } from '@repo/audit-db'
+
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+import type { SigningAlgorithm } from '@repo/infisical-kms'
+import type { CryptographicService } from '../crypto.js'
+import type { AuditLogEvent } from '../types.js'
+import type { ArchivalService } from './archival-service.js'
+
+/**
+ * Request to restore archived events
+ * Either an archive or a date range is required.
+ */
+export interface ArchiveRestoreRequest {
+	/** Restore the records of a single archive */
+	archiveId?: string
+	/** Restore the records whose timestamp falls in the range */
+	dateRange?: {
+		start: string
+		end: string
+	}
+	organizationId?: string
+	principalId?: string
+	restoredBy?: string
+	/** Why the events are restored, e.g. a legal hold or investigation reference */
+	reason?: string
+	/** Verify the matching records without restoring them */
+	dryRun?: boolean
+	/** Records inserted per statement */
+	batchSize?: number
+}
+
+/**
+ * Result of restoring archived events
+ */
+export interface ArchiveRestoreResult {
+	restoreId: string
+	restoredAt: string
+	restoredBy?: string
+	dryRun: boolean
+	/** Archives that had matching records */
+	archiveIds: string[]
+	/** Archives that failed checksum verification; none of their records are restored */
+	corruptedArchiveIds: string[]
+	/** Matching records in the archives */
+	recordsFound: number
+	/** Records inserted into audit_log */
+	recordsRestored: number
+	/** Records skipped because they are still in audit_log, or came from more than one archive */
+	recordsSkipped: number
+	/** Records restored without a hash to verify them against */
+	recordsUnverified: number
+	/** Records whose hash or signature does not match; they are not restored */
+	recordsFailedVerification: number
+	failedRecordIds: number[]
+}
+
+/**
+ * Verification outcome of an archived record
+ */
+interface RecordVerification {
+	record: any
+	archiveId: string
+	status: 'verified' | 'unverified' | 'tampered'
+	hashVerified: boolean
+	signatureVerified: boolean | null
+}
+
+const DEFAULT_BATCH_SIZE = 500
+
+/**
+ * Restores archived audit events into audit_log
+ */
+export class ArchiveRestoreService {
+	constructor(
+		private archival: ArchivalService,
+		private db: PostgresJsDatabase<any>,
+		private crypto: Pick<CryptographicService, 'verifyHash' | 'verifyEventSignature'>
+	) {}
+
+	/**
+	 * Restore the archived events matching a request
+	 *
+	 * @param request Restore request
+	 * @returns Restore result
+	 */
+	async restore(request: ArchiveRestoreRequest): Promise<ArchiveRestoreResult> {
+		if (!request.archiveId && !request.dateRange) {
+			throw new Error('An archive ID or a date range is required to restore archived events')
+		}
+
+		const result: ArchiveRestoreResult = {
+			restoreId: `restore-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+			restoredAt: new Date().toISOString(),
+			restoredBy: request.restoredBy,
+			dryRun: request.dryRun ?? false,
+			archiveIds: [],
+			corruptedArchiveIds: [],
+			recordsFound: 0,
+			recordsRestored: 0,
+			recordsSkipped: 0,
+			recordsUnverified: 0,
+			recordsFailedVerification: 0,
+			failedRecordIds: [],
+		}
+
+		const retrieval = await this.archival.retrieveArchivedData({
+			archiveId: request.archiveId,
+			dateRange: request.dateRange,
+			organizationId: request.organizationId,
+			principalId: request.principalId,
+		})
+
+		const verifications: RecordVerification[] = []
+		for (const archive of retrieval.archives) {
+			const archiveId: string = archive.metadata.archiveId
+			result.archiveIds.push(archiveId)
+			result.recordsFound += archive.records.length
+
+			if (!(await this.archival.validateArchive(archiveId))) {
+				result.corruptedArchiveIds.push(archiveId)
+				continue
+			}
+
+			for (const record of archive.records) {
+				// Restored rows stay marked as archived so they are not archived a second time
+				const archivedAt = record.archivedAt ?? archive.metadata.createdAt
+				verifications.push(await this.verifyRecord({ ...record, archivedAt }, archiveId))
+			}
+		}
+
+		for (const verification of verifications) {
+			if (verification.status === 'tampered') {
+				result.recordsFailedVerification++
+				result.failedRecordIds.push(verification.record.id)
+			}
+		}
+
+		if (result.dryRun) {
+			return result
+		}
+
+		const restorable = verifications.filter((verification) => verification.status !== 'tampered')
+		const batchSize = request.batchSize ?? DEFAULT_BATCH_SIZE
+		const queuedIds = new Set<number>()
+		const restored = new Set<RecordVerification>()
+
+		for (let i = 0; i < restorable.length; i += batchSize) {
+			const batch = restorable.slice(i, i + batchSize)
+
+			// Events still in audit_log keep their live row. A partitioned audit_log has
+			// no unique constraint on id to resolve conflicts on, so they are looked up.
+			const live = await this.db
+				.select({ id: auditLog.id })
+				.from(auditLog)
+				.where(
+					inArray(
+						auditLog.id,
+						batch.map(({ record }) => record.id)
+					)
+				)
+			const liveIds = new Set<number>(live.map(({ id }) => id))
+
+			// The same event may come from more than one archive, only the first copy is inserted
+			const queued = new Map<number, RecordVerification>()
+			for (const verification of batch) {
+				const { id } = verification.record
+				if (liveIds.has(id) || queuedIds.has(id)) continue
+				queuedIds.add(id)
+				queued.set(id, verification)
+			}
+			if (queued.size === 0) continue
+
+			const inserted = await this.db
+				.insert(auditLog)
+				.values([...queued.values()].map(({ record }) => this.toAuditLogRow(record)))
+				.returning({ id: auditLog.id })
+
+			for (const { id } of inserted) {
+				restored.add(queued.get(id)!)
+			}
+		}
+
+		for (const verification of restorable) {
+			if (!restored.has(verification)) {
+				result.recordsSkipped++
+			} else {
+				result.recordsRestored++
+				if (verification.status === 'unverified') result.recordsUnverified++
+			}
+		}
+
+		// Record every restored and every rejected event
+		const audited = verifications.filter(
+			(verification) => verification.status === 'tampered' || restored.has(verification)
+		)
+		for (let i = 0; i < audited.length; i += batchSize) {
+			await this.db.insert(auditIntegrityLog).values(
+				audited.slice(i, i + batchSize).map((verification) => ({
+					auditLogId: verification.record.id,
+					verificationStatus: verification.status === 'tampered' ? 'tampered' : 'success',
+					verificationDetails: {
+						type: 'archive_restore',
+						restoreId: result.restoreId,
+						archiveId: verification.archiveId,
+						status: verification.status,
+						hashMatches: verification.hashVerified,
+						signatureVerified: verification.signatureVerified,
+						reason: request.reason,
+					},
+					verifiedBy: request.restoredBy,
+					hashVerified: verification.hashVerified ? verification.record.hash : null,
+					expectedHash: verification.record.hash ?? null,
+				}))
+			)
+		}
+
+		return result
+	}
+
+	/**
+	 * Verify an archived record against its event hash and signature
+	 * The hash was computed over the ISO timestamp of the event, while audit_log returns
+	 * timestamps in Postgres format, so both renderings are tried.
+	 */
+	private async verifyRecord(record: any, archiveId: string): Promise<RecordVerification> {
+		if (!record.hash) {
+			return {
+				record,
+				archiveId,
+				status: 'unverified',
+				hashVerified: false,
+				signatureVerified: null,
+			}
+		}
+
+		const event = this.candidateEvents(record).find((candidate) =>
+			this.crypto.verifyHash(candidate, record.hash)
+		)
+		if (!event) {
+			return { record, archiveId, status: 'tampered', hashVerified: false, signatureVerified: null }
+		}
+
+		const signature: string | undefined = record.details?.signature
+		if (!signature) {
+			return { record, archiveId, status: 'verified', hashVerified: true, signatureVerified: null }
+		}
+
+		const algorithm: string | undefined = record.details?.algorithm
+		const signatureVerified = await this.crypto.verifyEventSignature(
+			event,
+			signature,
+			algorithm && algorithm !== 'HMAC-SHA256' ? (algorithm as SigningAlgorithm) : undefined
+		)
+
+		return {
+			record,
+			archiveId,
+			status: signatureVerified ? 'verified' : 'tampered',
+			hashVerified: true,
+			signatureVerified,
+		}
+	}
+
+	private candidateEvents(record: any): AuditLogEvent[] {
+		const candidates: AuditLogEvent[] = [record]
+		const time = new Date(record.timestamp)
+		if (!Number.isNaN(time.getTime()) && time.toISOString() !== record.timestamp) {
+			candidates.push({ ...record, timestamp: time.toISOString() })
+		}
+		return candidates
+	}
+
+	/**
+	 * Map an archived record to an audit_log row, dropping fields audit_log does not have
+	 */
+	private toAuditLogRow(record: any): typeof auditLog.$inferInsert {
+		const row: Record<string, unknown> = {}
+		for (const column of Object.keys(getTableColumns(auditLog))) {
+			if (record[column] !== undefined) {
+				row[column] = record[column]
+			}
+		}
+		return row as typeof auditLog.$inferInsert
+	}
+}
@@ -1,16 +1,23 @@
 import { createGunzip, createInflate } from 'zlib'
+import { eq } from 'drizzle-orm'
 
 import { ConsoleLogger, Logger } from '@repo/logs'
 
 import { ArchivalService } from './archival-service.js'
+import { createArchiveBlobStore } from './archive-blob-store.js'
 
+import type { LegalHoldService } from '../legal-hold/legal-hold.js'
 import type { ArchiveConfig, ArchiveRetrievalRequest } from './archival-service.js'
+import type { ArchiveBlobStore } from './archive-blob-store.js'
+import type { ArchiveKeyWrapper } from './archive-encryption.js'
 
 /**
  * PostgreSQL implementation of the ArchivalService
  * Provides PostgreSQL-specific functionality for archiving, retrieving, and managing audit data
  */
 export class PostgresArchivalService extends ArchivalService {
+	private blobStore: ArchiveBlobStore | null
+
 	/**
 	 * Create a new PostgresArchivalService
 	 *
@@ -19,24 +26,47 @@ export class PostgresArchivalService extends ArchivalService {
 	 * @param retentionPolicyTable Retention policy table
 	 * @param archiveTable Archive storage table
 	 * @param config Archive configuration
+	 * @param keyWrapper KMS wrapper of archive data keys
+	 * @param legalHolds Legal holds enforced on deletions
 	 */
 	constructor(
 		db: any,
 		auditLogTable: any,
 		retentionPolicyTable: any,
 		archiveTable: any,
-		config: Partial<ArchiveConfig> = {}
+		config: Partial<ArchiveConfig> = {},
+		keyWrapper?: ArchiveKeyWrapper,
+		legalHolds?: LegalHoldService
 	) {
-		super(db, auditLogTable, retentionPolicyTable, archiveTable, config)
+		super(db, auditLogTable, retentionPolicyTable, archiveTable, config, keyWrapper, legalHolds)
+		this.blobStore = createArchiveBlobStore(this.config.storage)
 	}
 
 	/**
 	 * Store an archive in PostgreSQL
+	 * With a blob store, the data goes to the store and the row keeps a pointer to it.
 	 *
 	 * @param archive Archive to store
 	 */
 	protected async storeArchive(archive: any): Promise<void> {
+		let storageKey: string | undefined
+
 		try {
+			if (this.blobStore) {
+				storageKey = await this.blobStore.put(archive.metadata.checksumCompressed, archive.data)
+				await this.db.insert(this.archiveTable).values({
+					id: archive.id,
+					metadata: archive.metadata,
+					data: null,
+					storageProvider: this.blobStore.provider,
+					storageKey,
+					createdAt: archive.createdAt,
+					retrievedCount: archive.retrievedCount || 0,
+					lastRetrievedAt: archive.lastRetrievedAt,
+				})
+				return
+			}
+
 			// Convert Buffer to base64 string for storage
 			const base64Data = archive.data.toString('base64')
 
@@ -49,6 +79,9 @@ export class PostgresArchivalService extends ArchivalService {
 				lastRetrievedAt: archive.lastRetrievedAt,
 			})
 		} catch (error) {
+			if (storageKey) {
+				await this.deleteUnreferencedBlob(storageKey).catch(() => undefined)
+			}
 			const message = error instanceof Error ? error.message : String(error)
 			this.logger.error(`Error storing archive: ${message}`, { error: message })
 			throw error
@@ -74,9 +107,7 @@ export class PostgresArchivalService extends ArchivalService {
 			}
 
 			const archive = result[0]
-
-			// Convert base64 string back to Buffer
-			archive.data = Buffer.from(archive.data, 'base64')
+			archive.data = await this.loadArchiveData(archive)
 
 			return archive
 		} catch (error) {
@@ -133,11 +164,12 @@ export class PostgresArchivalService extends ArchivalService {
 
 			const results = await query
 
-			// Convert base64 data to Buffer for each archive
-			return results.map((archive: any) => ({
-				...archive,
-				data: Buffer.from(archive.data, 'base64'),
-			}))
+			return Promise.all(
+				results.map(async (archive: any) => ({
+					...archive,
+					data: await this.loadArchiveData(archive),
+				}))
+			)
 		} catch (error) {
 			const message = error instanceof Error ? error.message : String(error)
 			this.logger.error(`Error finding matching archives: ${message}`, {
@@ -148,7 +180,68 @@ export class PostgresArchivalService extends ArchivalService {
 	}
 
 	/**
-	 * Decompress archive data
+	 * Delete the blobs of deleted archives no other archive points to
+	 *
+	 * @param archives Deleted archives
+	 */
+	protected override async releaseArchiveData(archives: any[]): Promise<void> {
+		const storageKeys = new Set<string>(
+			archives.filter((archive) => archive.storageKey).map((archive) => archive.storageKey)
+		)
+
+		for (const storageKey of storageKeys) {
+			try {
+				await this.deleteUnreferencedBlob(storageKey)
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error)
+				this.logger.error(`Error deleting archive data ${storageKey}: ${message}`, {
+					error: message,
+				})
+			}
+		}
+	}
+
+	/**
+	 * Load the data of an archive row, from the row itself or from the blob store
+	 *
+	 * @param archive Archive row
+	 * @returns Stored archive data
+	 */
+	private async loadArchiveData(archive: any): Promise<Buffer> {
+		if (!archive.storageKey) {
+			// Convert base64 string back to Buffer
+			return Buffer.from(archive.data, 'base64')
+		}
+
+		if (!this.blobStore || this.blobStore.provider !== archive.storageProvider) {
+			throw new Error(
+				`Archive ${archive.id} is stored in ${archive.storageProvider} storage, which is not configured`
+			)
+		}
+		return this.blobStore.get(archive.storageKey)
+	}
+
+	/**
+	 * Delete a blob unless an archive still points to it
+	 * Blobs are content-addressed, so archives with identical data share one.
+	 */
+	private async deleteUnreferencedBlob(storageKey: string): Promise<void> {
+		if (!this.blobStore) {
+			return
+		}
+
+		const references = await this.db
+			.select({ id: this.archiveTable.id })
+			.from(this.archiveTable)
+			.where(eq(this.archiveTable.storageKey, storageKey))
+			.limit(1)
+		if (references.length === 0) {
+			await this.blobStore.delete(storageKey)
+		}
+	}
+
+	/**
+	 * Decrypt and decompress archive data
 	 *
 	 * @param archive Archive to decompress
 	 * @returns Decompressed data
@@ -156,16 +249,17 @@ export class PostgresArchivalService extends ArchivalService {
 	protected async decompressArchiveData(archive: any): Promise<string> {
 		try {
 			const compressionAlgorithm = archive.metadata.config?.compressionAlgorithm || 'gzip'
+			const data = await this.decryptArchiveData(archive)
 
 			switch (compressionAlgorithm) {
 				case 'gzip': {
-					return this.decompressGzip(archive.data)
+					return this.decompressGzip(data)
 				}
 				case 'deflate': {
-					return this.decompressDeflate(archive.data)
+					return this.decompressDeflate(data)
 				}
 				case 'none':
-					return archive.data.toString('utf8')
+					return data.toString('utf8')
 				default:
 					throw new Error(`Unsupported compression algorithm: ${compressionAlgorithm}`)
 			}
@@ -8,6 +8,7 @@ import { getSharedRedisConnection } from '@repo/redis-client'
 
 import { AuditConfig, ComplianceConfig } from './config/types.js'
 import { CryptoService } from './crypto.js'
+import { getActiveTraceContext, toTraceCarrier } from './observability/trace-context.js'
 import { DatabasePresetHandler } from './preset/database-preset-handler.js'
 import {
 	DEFAULT_RELIABLE_PROCESSOR_CONFIG,
@@ -15,6 +16,7 @@ import {
 } from './queue/reliable-processor.js'
 import {
 	DEFAULT_VALIDATION_CONFIG,
+	scanAuditEventForPII,
 	validateAndSanitizeAuditEvent,
 	validateCompliance,
 } from './validation.js'
@@ -22,6 +24,7 @@ import {
 import type { RedisOptions, Redis as RedisType } from 'ioredis' // RedisType for type usage
 import type { Logger } from '@repo/logs'
 import type { CryptoConfig, EventSignatureResponse } from './crypto.js'
+import type { TraceContext } from './observability/types.js'
 import type { ReliableProcessorConfig } from './queue/reliable-processor.js'
 import type { AuditLogEvent } from './types.js'
 import type { ValidationConfig } from './validation.js'
@@ -493,6 +496,8 @@ export class Audit {
 			eventVersion?: string
 			skipValidation?: boolean
 			validationConfig?: ValidationConfig
+			/** Defaults to the trace context of the current request */
+			traceContext?: TraceContext
 		} = {}
 	): Promise<void> {
 		if (!this.bullmq_queue) {
@@ -531,14 +536,42 @@ export class Audit {
 			...eventDetails,
 		}
 
-		// Add correlation ID if provided
+		// Trace context of the request logging the event, resumed by the worker
+		const traceContext = options.traceContext ?? getActiveTraceContext()
+
+		// Add correlation ID if provided, otherwise link the event to its trace
 		if (options.correlationId) {
 			event.correlationId = options.correlationId
+		} else if (!event.correlationId && traceContext) {
+			event.correlationId = traceContext.traceId
+		}
+
+		// Apply the PII policy before the event is hashed, also when validation is skipped
+		const piiConfig = options.validationConfig?.pii ?? this.config?.validation?.pii
+		if (piiConfig) {
+			const piiResult = scanAuditEventForPII(event, piiConfig)
+
+			if (piiResult.errors.length > 0) {
+				const errorMessages = piiResult.errors
+					.map((err) => `${err.field}: ${err.message} (${err.code})`)
+					.join('; ')
+				this.logger.error(`PII rejected for queue "${this.queueName}": ${errorMessages}`, {
+					queueName: this.queueName,
+					error: errorMessages,
+				})
+				throw new Error(`[AuditService] PII Policy Error: ${errorMessages}`)
+			}
+
+			event = piiResult.scannedEvent
 		}
 
 		// Validate and sanitize the event unless explicitly skipped
 		if (!options.skipValidation) {
-			const validationConfig = options.validationConfig || DEFAULT_VALIDATION_CONFIG
+			// The PII policy has already been applied
+			const validationConfig = {
+				...(options.validationConfig || DEFAULT_VALIDATION_CONFIG),
+				pii: undefined,
+			}
 			const validationResult = validateAndSanitizeAuditEvent(event, validationConfig)
 
 			if (!validationResult.isValid) {
@@ -589,6 +622,11 @@ export class Audit {
 			}
 		}
 
+		// Carried in the job data only, after the hash and signature were computed
+		if (traceContext) {
+			event = { ...event, traceContext: toTraceCarrier(traceContext) }
+		}
+
 		try {
 			const job = await this.bullmq_queue.add(this.queueName, event, {
 				priority: options.priority || 0,
@@ -249,6 +249,8 @@ export function createDevelopmentConfig(): AuditConfig {
 			kms: {
 				enabled: true,
 				encryptionKey: process.env.KMS_ENCRYPTION_KEY_ID || 'your-encryption-key-id',
+				previousEncryptionKeys:
+					process.env.KMS_PREVIOUS_ENCRYPTION_KEY_IDS?.split(',').filter(Boolean),
 				signingKey: process.env.KMS_SIGNING_KEY_ID || 'your-signing-key-id',
 				accessToken: process.env.INFISICAL_ACCESS_TOKEN || 'your-access-token',
 				baseUrl: process.env.INFISICAL_URL || 'https://infisical.teachhowtofish.org',
@@ -263,6 +265,9 @@ export function createDevelopmentConfig(): AuditConfig {
 				enabled: true,
 				defaultLegalBasis: 'legitimate_interest',
 				retentionDays: 365,
+				pseudonymizationPaths: [],
+				reidentificationApprovals: 2,
+				dataSubjectRequestDays: 30,
 			},
 			defaultRetentionDays: 2555, // 7 years
 			defaultDataClassification: 'INTERNAL',
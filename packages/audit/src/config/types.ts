@@ -287,7 +287,9 @@ export interface ServerConfig {
 		healthCheckPath: string
 		logLevel: 'debug' | 'info' | 'warn' | 'error'
 		enableTracing: boolean
+		tracingExporter?: 'jaeger' | 'zipkin' | 'otlp'
 		tracingEndpoint?: string
+		tracingHeaders?: Record<string, string>
 	}
 	security: {
 		apiKeyHeader: string
@@ -319,6 +321,8 @@ export interface ServerConfig {
 			url: string
 			method: 'GET' | 'POST' | 'PUT' | 'PATCH'
 			headers: Record<string, string>
+			/** Secret used to HMAC-sign report deliveries */
+			secret?: string
 			timeout: number
 			retryConfig: {
 				maxRetries: number
@@ -452,6 +456,9 @@ export interface SecurityConfig {
 		/** KMS encryption key ID */
 		encryptionKey: string
 
+		/** Retired KMS encryption key IDs, kept to decrypt data encrypted before a key rotation */
+		previousEncryptionKeys?: string[]
+
 		/** KMS signing key ID */
 		signingKey: string
 
@@ -595,6 +602,12 @@ export interface ComplianceConfig {
 		enabled: boolean
 		defaultLegalBasis?: string
 		retentionDays?: number
+		/** Dot-separated details paths pseudonymized in bulk when a request names none */
+		pseudonymizationPaths?: string[]
+		/** Approvals a re-identification request needs before a pseudonym is revealed, at least 2 */
+		reidentificationApprovals?: number
+		/** Days from receipt to the deadline of a data subject request */
+		dataSubjectRequestDays?: number
 	}
 
 	defaultRetentionDays: number
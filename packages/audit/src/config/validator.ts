@@ -328,6 +328,16 @@ const validationSchema: Record<string, ValidationRule> = {
 		required: true,
 		type: 'boolean',
 	},
+	'compliance.gdpr.reidentificationApprovals': {
+		type: 'number',
+		min: 2,
+		max: 10,
+	},
+	'compliance.gdpr.dataSubjectRequestDays': {
+		type: 'number',
+		min: 1,
+		max: 30, // Article 12(3): one month at most
+	},
 	'compliance.defaultRetentionDays': {
 		required: true,
 		type: 'number',
@@ -364,6 +374,26 @@ const validationSchema: Record<string, ValidationRule> = {
 		},
 	},
 
+	// Validation configuration
+	'validation.pii.action': {
+		type: 'string',
+		enum: ['redact', 'tokenize', 'reject'],
+	},
+	'validation.pii.customPatterns': {
+		type: 'array',
+		custom: (value) => {
+			if (!Array.isArray(value)) return 'Must be an array'
+			for (const custom of value) {
+				try {
+					new RegExp(custom.pattern, custom.flags)
+				} catch {
+					return `Invalid pattern for '${custom.name}'`
+				}
+			}
+			return true
+		},
+	},
+
 	// Logging configuration
 	'logging.level': {
 		required: true,
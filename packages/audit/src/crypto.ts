@@ -35,6 +35,11 @@ export function generateDefaultSecret(): string {
 	return randomBytes(32).toString('hex')
 }
 
+/**
+ * Previous-hash value used by the first event of a hash chain
+ */
+export const GENESIS_CHAIN_HASH = '0'.repeat(64)
+
 /**
  * The response of the event signature
  */
@@ -55,6 +60,7 @@ export interface EventSignatureResponse {
 export interface CryptographicService {
 	generateHash(event: AuditLogEvent): string
 	verifyHash(event: AuditLogEvent, expectedHash: string): boolean
+	generateChainHash(previousHash: string, eventHash: string): string
 	generateEventSignature(
 		event: AuditLogEvent,
 		signingAlgorithm?: SigningAlgorithm
@@ -64,6 +70,15 @@ export interface CryptographicService {
 		signature: string,
 		signingAlgorithm?: SigningAlgorithm
 	): Promise<boolean>
+	generateSignature(
+		data: string,
+		signingAlgorithm?: SigningAlgorithm
+	): Promise<EventSignatureResponse>
+	verifySignature(
+		data: string,
+		signature: string,
+		signingAlgorithm?: SigningAlgorithm
+	): Promise<boolean>
 }
 
 /**
@@ -120,6 +135,19 @@ export class CryptoService implements CryptographicService {
 		}
 	}
 
+	/**
+	 * Generates the chain hash that links an event to its predecessor
+	 * Each link commits to the previous link, so deleting, reordering or
+	 * modifying a row breaks every link that follows it
+	 *
+	 * @param previousHash Chain hash of the preceding event, or GENESIS_CHAIN_HASH
+	 * @param eventHash The event hash produced by generateHash
+	 * @returns SHA-256 chain hash as hexadecimal string
+	 */
+	generateChainHash(previousHash: string, eventHash: string): string {
+		return createHash('sha256').update(`${previousHash}:${eventHash}`, 'utf8').digest('hex')
+	}
+
 	/**
 	 * Generates an HMAC-SHA256 signature for an audit event
 	 * Provides additional security through secret key authentication
@@ -134,17 +162,47 @@ export class CryptoService implements CryptographicService {
 		// First generate the hash of the event
 		const eventHash = this.generateHash(event)
 
+		return this.generateSignature(eventHash, signingAlgorithm)
+	}
+
+	/**
+	 * Verifies the HMAC-SHA256 signature of an audit event
+	 *
+	 * @param event The audit event to verify
+	 * @param signature The expected signature
+	 * @returns true if signature is valid, false if invalid or tampered
+	 */
+	async verifyEventSignature(
+		event: AuditLogEvent,
+		signature: string,
+		signingAlgorithm?: SigningAlgorithm
+	): Promise<boolean> {
+		const eventHash = this.generateHash(event)
+
+		return this.verifySignature(eventHash, signature, signingAlgorithm)
+	}
+
+	/**
+	 * Signs arbitrary data with KMS when enabled, falling back to HMAC-SHA256
+	 *
+	 * @param data The data to sign, typically a hash or a canonical payload
+	 * @returns The signature and the algorithm used to produce it
+	 */
+	async generateSignature(
+		data: string,
+		signingAlgorithm?: SigningAlgorithm
+	): Promise<EventSignatureResponse> {
 		try {
 			if (this.config.kms.enabled && this.kms) {
-				const signature = await this.kms.sign(eventHash, signingAlgorithm)
+				const signature = await this.kms.sign(data, signingAlgorithm)
 				return {
 					signature: signature.signature,
 					algorithm: signature.signingAlgorithm,
 				}
 			} else {
-				// Create HMAC signature using the hash and secret key
+				// Create HMAC signature using the data and secret key
 				const signature = createHmac('sha256', this.config.encryptionKey!)
-					.update(eventHash, 'utf8')
+					.update(data, 'utf8')
 					.digest('hex')
 				return {
 					signature,
@@ -158,27 +216,25 @@ export class CryptoService implements CryptographicService {
 	}
 
 	/**
-	 * Verifies the HMAC-SHA256 signature of an audit event
+	 * Verifies a signature produced by generateSignature
 	 *
-	 * @param event The audit event to verify
+	 * @param data The signed data
 	 * @param signature The expected signature
 	 * @returns true if signature is valid, false if invalid or tampered
 	 */
-	async verifyEventSignature(
-		event: AuditLogEvent,
+	async verifySignature(
+		data: string,
 		signature: string,
 		signingAlgorithm?: SigningAlgorithm
 	): Promise<boolean> {
-		const eventHash = this.generateHash(event)
-
 		try {
 			if (this.config.kms.enabled && this.kms) {
-				const verify = await this.kms.verify(eventHash, signature, signingAlgorithm)
+				const verify = await this.kms.verify(data, signature, signingAlgorithm)
 				return verify.signatureValid
 			} else {
-				// Create HMAC signature using the hash and secret key
+				// Create HMAC signature using the data and secret key
 				const computedSignature = createHmac('sha256', this.config.encryptionKey!)
-					.update(eventHash, 'utf8')
+					.update(data, 'utf8')
 					.digest('hex')
 				return computedSignature === signature
 			}
@@ -0,0 +1,507 @@
+/**
+ * @fileoverview Data Subject Requests
+ *
+ * Case management for GDPR data subject requests, from receipt to fulfilment:
+ * - received: logged with its statutory deadline, 30 days from receipt by default
+ * - verified: the identity of the data subject was checked, nothing is fulfilled before
+ * - in_progress: automated fulfilment is running, it may be retried once it runs past the
+ *   fulfilment timeout
+ * - completed or rejected
+ *
+ * Access, portability and erasure requests are fulfilled through GDPRComplianceService;
+ * rectification and restriction requests are completed by hand. The deadline may be
+ * extended once, by two months, as Article 12(3) allows. Every step is audit logged.
+ */
+
+import { randomUUID } from 'crypto'
+import { and, desc, eq, inArray, lt, or, sql } from 'drizzle-orm'
+
+import { dataSubjectRequest } from '@repo/audit-db'
+
+import type { SQL } from 'drizzle-orm'
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+import type { Audit } from '../audit.js'
+import type {
+	DataSubjectRightType,
+	GDPRComplianceService,
+	GDPRDataExport,
+	GDPRExportFormat,
+} from './gdpr-compliance.js'
+
+export type DataSubjectRequestStatus =
+	| 'received'
+	| 'verified'
+	| 'in_progress'
+	| 'completed'
+	| 'rejected'
+
+export type IdentityVerificationMethod =
+	| 'email'
+	| 'account_login'
+	| 'identity_document'
+	| 'in_person'
+	| 'other'
+
+export interface DataSubjectRequest {
+	id: string
+	organizationId: string
+	requestType: DataSubjectRightType
+	principalId: string
+	subjectName?: string | null
+	subjectEmail?: string | null
+	description?: string | null
+	status: DataSubjectRequestStatus
+	receivedAt: string
+	dueAt: string
+	extendedAt?: string | null
+	extensionReason?: string | null
+	verificationMethod?: string | null
+	verificationNotes?: string | null
+	verifiedBy?: string | null
+	verifiedAt?: string | null
+	result?: Record<string, unknown> | null
+	lastError?: string | null
+	completedBy?: string | null
+	completedAt?: string | null
+	rejectedBy?: string | null
+	rejectedAt?: string | null
+	rejectionReason?: string | null
+	createdBy: string
+	updatedAt: string
+}
+
+export interface DataSubjectRequestInput {
+	requestType: DataSubjectRightType
+	/** Principal whose audit data the request is about */
+	principalId: string
+	subjectName?: string
+	subjectEmail?: string
+	description?: string
+	/** When the request reached the organization, now by default */
+	receivedAt?: string
+}
+
+export interface DataSubjectRequestSummary {
+	open: number
+	awaitingVerification: number
+	/** Open requests due within seven days */
+	dueSoon: number
+	overdue: number
+	completed: number
+	rejected: number
+}
+
+export interface DataSubjectRequestOptions {
+	/**
+	 * Days from receipt to the statutory deadline
+	 * @default 30
+	 */
+	responseDays?: number
+	/**
+	 * Days a deadline extension adds
+	 * @default 60
+	 */
+	extensionDays?: number
+	/**
+	 * Minutes after which a fulfilment that did not finish, e.g. because the server stopped,
+	 * may be retried
+	 * @default 30
+	 */
+	fulfilmentTimeoutMinutes?: number
+}
+
+export type DataSubjectRequestErrorCode = 'NOT_FOUND' | 'CONFLICT' | 'INVALID'
+
+/**
+ * A data subject request does not exist or cannot take the requested step
+ */
+export class DataSubjectRequestError extends Error {
+	constructor(
+		message: string,
+		public readonly code: DataSubjectRequestErrorCode
+	) {
+		super(message)
+		this.name = 'DataSubjectRequestError'
+	}
+}
+
+const OPEN_STATUSES: DataSubjectRequestStatus[] = ['received', 'verified', 'in_progress']
+const AUTOMATED_REQUEST_TYPES: DataSubjectRightType[] = ['access', 'portability', 'erasure']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Whether a request type is fulfilled by the service rather than by hand
+ */
+export function isAutomatedRequestType(requestType: DataSubjectRightType): boolean {
+	return AUTOMATED_REQUEST_TYPES.includes(requestType)
+}
+
+/**
+ * Tracks data subject requests and fulfils them through the GDPR compliance service
+ */
+export class DataSubjectRequestService {
+	private responseDays: number
+	private extensionDays: number
+	private fulfilmentTimeoutMinutes: number
+
+	constructor(
+		private db: PostgresJsDatabase<any>,
+		private gdpr: GDPRComplianceService,
+		private audit: Audit,
+		options: DataSubjectRequestOptions = {}
+	) {
+		this.responseDays = options.responseDays ?? 30
+		this.extensionDays = options.extensionDays ?? 60
+		this.fulfilmentTimeoutMinutes = options.fulfilmentTimeoutMinutes ?? 30
+	}
+
+	/**
+	 * Log a request received from a data subject and start its statutory deadline
+	 */
+	async createRequest(
+		organizationId: string,
+		input: DataSubjectRequestInput,
+		createdBy: string
+	): Promise<DataSubjectRequest> {
+		const receivedAt = input.receivedAt ?? new Date().toISOString()
+		const [row] = await this.db
+			.insert(dataSubjectRequest)
+			.values({
+				id: randomUUID(),
+				organizationId,
+				...input,
+				receivedAt,
+				dueAt: new Date(new Date(receivedAt).getTime() + this.responseDays * DAY_MS).toISOString(),
+				createdBy,
+			})
+			.returning()
+
+		await this.logStep(row, 'create', createdBy, { dueAt: row.dueAt })
+		return row
+	}
+
+	/**
+	 * Record how the identity of the data subject was verified
+	 */
+	async verifyIdentity(
+		organizationId: string,
+		id: string,
+		verification: { method: IdentityVerificationMethod; notes?: string },
+		verifiedBy: string
+	): Promise<DataSubjectRequest> {
+		const request = await this.transition(organizationId, id, ['received'], {
+			status: 'verified',
+			verificationMethod: verification.method,
+			verificationNotes: verification.notes,
+			verifiedBy,
+			verifiedAt: new Date().toISOString(),
+		})
+
+		await this.logStep(request, 'verify', verifiedBy, { method: verification.method })
+		return request
+	}
+
+	/**
+	 * Fulfil a verified access, portability or erasure request
+	 * A failed fulfilment leaves the request verified with the error, ready for a retry. A
+	 * fulfilment that never finished can be retried after the fulfilment timeout.
+	 *
+	 * @returns The completed request, with the export of access and portability requests
+	 */
+	async fulfilRequest(
+		organizationId: string,
+		id: string,
+		performedBy: string,
+		options: { format?: GDPRExportFormat } = {}
+	): Promise<{ request: DataSubjectRequest; export?: GDPRDataExport }> {
+		const existing = await this.requireRequest(organizationId, id)
+		if (!isAutomatedRequestType(existing.requestType)) {
+			throw new DataSubjectRequestError(
+				`${existing.requestType} requests are completed by hand`,
+				'INVALID'
+			)
+		}
+
+		// Claiming the request keeps concurrent fulfilments from running twice
+		const stalledBefore = new Date(
+			Date.now() - this.fulfilmentTimeoutMinutes * 60 * 1000
+		).toISOString()
+		const request = await this.transition(
+			organizationId,
+			id,
+			or(
+				eq(dataSubjectRequest.status, 'verified'),
+				and(
+					eq(dataSubjectRequest.status, 'in_progress'),
+					lt(dataSubjectRequest.updatedAt, stalledBefore)
+				)
+			)!,
+			{ status: 'in_progress', lastError: null }
+		)
+
+		let result: Record<string, unknown>
+		let exported: GDPRDataExport | undefined
+		try {
+			if (request.requestType === 'erasure') {
+				result = await this.gdpr.deleteUserDataWithAuditTrail(
+					request.principalId,
+					performedBy,
+					true,
+					{ organizationId }
+				)
+
+				// Only events under legal hold may keep the subject's principal after erasure
+				const remaining = await this.gdpr.getPrincipalFootprint(organizationId, request.principalId)
+				if (remaining.totalEvents > remaining.heldEvents) {
+					throw new Error(
+						`Erasure left ${remaining.totalEvents - remaining.heldEvents} events of the data subject`
+					)
+				}
+			} else {
+				exported = await this.gdpr.exportUserData({
+					principalId: request.principalId,
+					organizationId,
+					requestType: request.requestType,
+					// Portable data is returned in a machine-readable format
+					format: request.requestType === 'portability' ? 'json' : (options.format ?? 'json'),
+					includeMetadata: true,
+					requestedBy: performedBy,
+					requestTimestamp: new Date().toISOString(),
+				})
+				result = {
+					exportRequestId: exported.requestId,
+					format: exported.format,
+					recordCount: exported.recordCount,
+					dataSize: exported.dataSize,
+				}
+			}
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			await this.db
+				.update(dataSubjectRequest)
+				.set({ status: 'verified', lastError: message, updatedAt: new Date().toISOString() })
+				.where(eq(dataSubjectRequest.id, id))
+			await this.logStep(request, 'fulfil', performedBy, { error: message }, 'failure')
+			throw error
+		}
+
+		const completed = await this.transition(organizationId, id, ['in_progress'], {
+			status: 'completed',
+			result,
+			completedBy: performedBy,
+			completedAt: new Date().toISOString(),
+		})
+
+		await this.logStep(completed, 'fulfil', performedBy, result)
+		return { request: completed, export: exported }
+	}
+
+	/**
+	 * Complete a verified request that was handled by hand, e.g. a rectification
+	 */
+	async completeRequest(
+		organizationId: string,
+		id: string,
+		completedBy: string,
+		notes: string
+	): Promise<DataSubjectRequest> {
+		const request = await this.transition(organizationId, id, ['verified'], {
+			status: 'completed',
+			result: { notes },
+			completedBy,
+			completedAt: new Date().toISOString(),
+		})
+
+		await this.logStep(request, 'complete', completedBy, { notes })
+		return request
+	}
+
+	/**
+	 * Reject a request, e.g. when the identity of the data subject cannot be verified
+	 */
+	async rejectRequest(
+		organizationId: string,
+		id: string,
+		rejectedBy: string,
+		reason: string
+	): Promise<DataSubjectRequest> {
+		const request = await this.transition(organizationId, id, ['received', 'verified'], {
+			status: 'rejected',
+			rejectedBy,
+			rejectedAt: new Date().toISOString(),
+			rejectionReason: reason,
+		})
+
+		await this.logStep(request, 'reject', rejectedBy, { reason })
+		return request
+	}
+
+	/**
+	 * Extend the deadline of an open request, once
+	 */
+	async extendDeadline(
+		organizationId: string,
+		id: string,
+		extendedBy: string,
+		reason: string
+	): Promise<DataSubjectRequest> {
+		const [request] = await this.db
+			.update(dataSubjectRequest)
+			.set({
+				dueAt: sql`${dataSubjectRequest.dueAt} + make_interval(days => ${this.extensionDays})`,
+				extendedAt: new Date().toISOString(),
+				extensionReason: reason,
+				updatedAt: new Date().toISOString(),
+			})
+			.where(
+				and(
+					eq(dataSubjectRequest.id, id),
+					eq(dataSubjectRequest.organizationId, organizationId),
+					inArray(dataSubjectRequest.status, OPEN_STATUSES),
+					sql`${dataSubjectRequest.extendedAt} IS NULL`
+				)
+			)
+			.returning()
+
+		if (!request) {
+			await this.requireRequest(organizationId, id)
+			throw new DataSubjectRequestError(
+				`Request ${id} is closed or its deadline was already extended`,
+				'CONFLICT'
+			)
+		}
+
+		await this.logStep(request, 'extend', extendedBy, { reason, dueAt: request.dueAt })
+		return request
+	}
+
+	async getRequest(organizationId: string, id: string): Promise<DataSubjectRequest | null> {
+		const [row] = await this.db
+			.select()
+			.from(dataSubjectRequest)
+			.where(
+				and(eq(dataSubjectRequest.id, id), eq(dataSubjectRequest.organizationId, organizationId))
+			)
+		return row ?? null
+	}
+
+	/**
+	 * List the requests of an organization, the closest deadlines first
+	 */
+	async listRequests(
+		organizationId: string,
+		filter: { status?: DataSubjectRequestStatus; requestType?: DataSubjectRightType } = {}
+	): Promise<DataSubjectRequest[]> {
+		return this.db
+			.select()
+			.from(dataSubjectRequest)
+			.where(
+				and(
+					eq(dataSubjectRequest.organizationId, organizationId),
+					filter.status ? eq(dataSubjectRequest.status, filter.status) : undefined,
+					filter.requestType ? eq(dataSubjectRequest.requestType, filter.requestType) : undefined
+				)
+			)
+			.orderBy(dataSubjectRequest.dueAt, desc(dataSubjectRequest.receivedAt))
+	}
+
+	/**
+	 * Count the requests of an organization by state of their deadline
+	 */
+	async getSummary(organizationId: string): Promise<DataSubjectRequestSummary> {
+		const open = sql`${dataSubjectRequest.status} IN ('received', 'verified', 'in_progress')`
+		const [row] = await this.db
+			.select({
+				open: sql<number>`count(*) FILTER (WHERE ${open})`.mapWith(Number),
+				awaitingVerification:
+					sql<number>`count(*) FILTER (WHERE ${dataSubjectRequest.status} = 'received')`.mapWith(
+						Number
+					),
+				dueSoon:
+					sql<number>`count(*) FILTER (WHERE ${open} AND ${dataSubjectRequest.dueAt} >= now() AND ${dataSubjectRequest.dueAt} < now() + interval '7 days')`.mapWith(
+						Number
+					),
+				overdue:
+					sql<number>`count(*) FILTER (WHERE ${open} AND ${dataSubjectRequest.dueAt} < now())`.mapWith(
+						Number
+					),
+				completed:
+					sql<number>`count(*) FILTER (WHERE ${dataSubjectRequest.status} = 'completed')`.mapWith(
+						Number
+					),
+				rejected:
+					sql<number>`count(*) FILTER (WHERE ${dataSubjectRequest.status} = 'rejected')`.mapWith(
+						Number
+					),
+			})
+			.from(dataSubjectRequest)
+			.where(eq(dataSubjectRequest.organizationId, organizationId))
+
+		return row
+	}
+
+	private async requireRequest(organizationId: string, id: string): Promise<DataSubjectRequest> {
+		const request = await this.getRequest(organizationId, id)
+		if (!request) {
+			throw new DataSubjectRequestError(`Data subject request ${id} not found`, 'NOT_FOUND')
+		}
+		return request
+	}
+
+	/**
+	 * Move a request of an organization that is in one of the given states, or matches a condition
+	 */
+	private async transition(
+		organizationId: string,
+		id: string,
+		from: DataSubjectRequestStatus[] | SQL,
+		changes: Partial<typeof dataSubjectRequest.$inferInsert>
+	): Promise<DataSubjectRequest> {
+		const [row] = await this.db
+			.update(dataSubjectRequest)
+			.set({ ...changes, updatedAt: new Date().toISOString() })
+			.where(
+				and(
+					eq(dataSubjectRequest.id, id),
+					eq(dataSubjectRequest.organizationId, organizationId),
+					Array.isArray(from) ? inArray(dataSubjectRequest.status, from) : from
+				)
+			)
+			.returning()
+
+		if (!row) {
+			const request = await this.requireRequest(organizationId, id)
+			throw new DataSubjectRequestError(`Request ${id} is ${request.status}`, 'CONFLICT')
+		}
+		return row
+	}
+
+	private async logStep(
+		request: DataSubjectRequest,
+		step: string,
+		principalId: string,
+		details: Record<string, unknown>,
+		status: 'success' | 'failure' = 'success'
+	): Promise<void> {
+		await this.audit.log(
+			{
+				timestamp: new Date().toISOString(),
+				principalId,
+				organizationId: request.organizationId,
+				action: `gdpr.dsr.${step}`,
+				status,
+				targetResourceType: 'DataSubjectRequest',
+				targetResourceId: request.id,
+				outcomeDescription: `Data subject ${request.requestType} request ${step} ${status === 'success' ? 'succeeded' : 'failed'}`,
+				dataClassification: 'PHI',
+				retentionPolicy: 'gdpr_compliance',
+				details: {
+					requestType: request.requestType,
+					subjectPrincipalId: request.principalId,
+					...details,
+				},
+			},
+			{ generateHash: true, generateSignature: true }
+		)
+	}
+}
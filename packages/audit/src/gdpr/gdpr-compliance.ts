@@ -1,14 +1,40 @@
 import { createHash, randomBytes } from 'crypto'
-import { and, eq, gte, isNotNull, lte, sql } from 'drizzle-orm'
+import {
+	and,
+	count,
+	desc,
+	eq,
+	gt,
+	gte,
+	inArray,
+	isNotNull,
+	like,
+	lte,
+	max,
+	min,
+	notInArray,
+	or,
+	sql,
+} from 'drizzle-orm'
 
 import { auditLog, auditRetentionPolicy } from '@repo/audit-db'
 import * as auditSchema from '@repo/audit-db/dist/db/schema.js'
 
 import { Audit } from '../audit.js'
+import { recordChainRemovals, REMOVED_CHAIN_LINK_COLUMNS } from '../integrity/hash-chain.js'
+import { LegalHoldService } from '../legal-hold/legal-hold.js'
+import { PseudonymVaultError } from './pseudonym-vault.js'
 
+import type { SQL } from 'drizzle-orm'
 import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
 import type { EnhancedAuditDatabaseClient } from '@repo/audit-db'
 import type { AuditLogEvent, DataClassification } from '../types.js'
+import type {
+	PseudonymContext,
+	PseudonymVault,
+	ReidentificationRequest,
+	ReidentificationRequestInput,
+} from './pseudonym-vault.js'
 
 /**
  * GDPR data export format options
@@ -27,6 +53,9 @@ export type DataSubjectRightType =
 
 /**
  * Pseudonymization strategy options
+ * - hash: one-way keyed hash, cannot be reversed
+ * - token: random pseudonym, reversible through the pseudonym vault
+ * - encryption: ciphertext of the original, reversible through the pseudonym vault
  */
 export type PseudonymizationStrategy = 'hash' | 'token' | 'encryption'
 
@@ -45,6 +74,46 @@ export interface GDPRDataExportRequest {
 	includeMetadata?: boolean
 	requestedBy: string
 	requestTimestamp: string
+	/** Why the export was run, kept in the GDPR activity event */
+	reason?: string
+}
+
+/**
+ * Scope and justification of an operation on the events of a data subject
+ */
+export interface GDPROperationOptions {
+	/** Limits the operation to the events of one organization, all organizations when omitted */
+	organizationId?: string
+	/** Why the operation was run, kept in the GDPR activity event */
+	reason?: string
+}
+
+/**
+ * Audit events of a data subject within an organization, by action and classification
+ */
+export interface PrincipalFootprint {
+	principalId: string
+	totalEvents: number
+	firstSeen?: string
+	lastSeen?: string
+	byAction: Array<{ action: string; count: number }>
+	byClassification: Array<{ dataClassification: DataClassification; count: number }>
+	/** Events covered by an active legal hold, kept by pseudonymization and erasure */
+	heldEvents: number
+}
+
+/**
+ * GDPR operation recorded in the audit trail (gdpr.* actions)
+ */
+export interface GDPRActivity {
+	id: number
+	timestamp: string
+	action: string
+	status: string
+	performedBy?: string
+	principalId?: string
+	outcomeDescription?: string
+	details?: Record<string, unknown>
 }
 
 /**
@@ -81,6 +150,38 @@ export interface PseudonymizationMapping {
 	context: string
 }
 
+/**
+ * Request to pseudonymize fields of the JSONB details of audit events
+ */
+export interface DetailsPseudonymizationRequest {
+	/** Dot-separated paths into details, e.g. patient.email */
+	paths: string[]
+	organizationId?: string
+	principalId?: string
+	dateRange?: {
+		start: string
+		end: string
+	}
+	strategy?: PseudonymizationStrategy
+	requestedBy: string
+	/**
+	 * Events read and updated per batch
+	 * @default 500
+	 */
+	batchSize?: number
+}
+
+/**
+ * Result of pseudonymizing details fields
+ */
+export interface DetailsPseudonymizationResult {
+	recordsScanned: number
+	recordsAffected: number
+	valuesPseudonymized: number
+	/** Matching events kept as they are by legal holds */
+	recordsHeld: number
+}
+
 /**
  * Data retention policy configuration
  */
@@ -99,6 +200,8 @@ export interface RetentionPolicy {
 export interface ArchivalResult {
 	recordsArchived: number
 	recordsDeleted: number
+	/** Records due for deletion kept by legal holds */
+	recordsHeld: number
 	archivedAt: string
 	policy: string
 	summary: {
@@ -111,20 +214,41 @@ export interface ArchivalResult {
 	}
 }
 
+/**
+ * Actions kept, pseudonymized, when erasing a data subject's events to preserve the compliance trail
+ */
+const COMPLIANCE_AUDIT_ACTIONS = [
+	'auth.login.success',
+	'auth.login.failure',
+	'data.access.unauthorized',
+	'gdpr.data.export',
+	'gdpr.data.pseudonymize',
+	'gdpr.data.delete',
+]
+
 /**
  * GDPR compliance service for audit system
  * Implements data subject rights and privacy-by-design principles
  * Requirements: 4.1, 4.2, 4.3, 4.4
  */
 export class GDPRComplianceService {
-	private pseudonymMappings = new Map<string, string>()
 	private db: PostgresJsDatabase<typeof auditSchema>
+	private legalHolds: LegalHoldService
 
+	/**
+	 * @param client Audit database client
+	 * @param audit Audit logger recording GDPR activities
+	 * @param legalHolds Legal holds enforced on erasure, read from the same database by default
+	 * @param vault Pseudonym vault, required by the token and encryption strategies
+	 */
 	constructor(
 		private client: EnhancedAuditDatabaseClient,
-		private audit: Audit
+		private audit: Audit,
+		legalHolds?: LegalHoldService,
+		private vault?: PseudonymVault
 	) {
 		this.db = this.client.getDatabase()
+		this.legalHolds = legalHolds ?? new LegalHoldService(this.db)
 	}
 
 	/**
@@ -196,6 +320,7 @@ export class GDPRComplianceService {
 				format: request.format,
 				recordCount: auditLogs.length,
 				requestType: request.requestType,
+				reason: request.reason,
 			},
 		})
 
@@ -223,32 +348,57 @@ export class GDPRComplianceService {
 	/**
 	 * Pseudonymize user data while maintaining referential integrity (Requirement 4.2)
 	 * Implements GDPR Article 17 - Right to erasure with audit trail preservation
+	 * Records under legal hold keep their original principal.
 	 */
 	async pseudonymizeUserData(
 		principalId: string,
 		strategy: PseudonymizationStrategy = 'hash',
-		requestedBy: string
-	): Promise<{ pseudonymId: string; recordsAffected: number }> {
-		// Generate pseudonym ID
-		const pseudonymId = this.generatePseudonymId(principalId, strategy)
+		requestedBy: string,
+		options: GDPROperationOptions = {}
+	): Promise<{ pseudonymId: string; recordsAffected: number; recordsHeld: number }> {
+		return this.pseudonymizeEvents(principalId, strategy, requestedBy, options)
+	}
+
+	/**
+	 * Replace the principal of the subject's events with a pseudonym
+	 * @param scope Only the events of the subject matching it, all when omitted
+	 */
+	private async pseudonymizeEvents(
+		principalId: string,
+		strategy: PseudonymizationStrategy,
+		requestedBy: string,
+		options: GDPROperationOptions,
+		scope?: SQL
+	): Promise<{ pseudonymId: string; recordsAffected: number; recordsHeld: number }> {
+		// Reversible strategies keep the mapping in the vault for referential integrity
+		const pseudonymId = await this.createPseudonym(principalId, strategy, {
+			field: 'principalId',
+			organizationId: options.organizationId,
+			createdBy: requestedBy,
+		})
 
-		// Store mapping for referential integrity
-		this.pseudonymMappings.set(principalId, pseudonymId)
+		const { releasable, recordsHeld } = await this.legalHolds.enforceOnEvents(
+			'gdpr.pseudonymize',
+			and(this.principalCondition(principalId, options.organizationId), scope),
+			{ requestedBy, details: { principalId, strategy, reason: options.reason } }
+		)
 
 		// Update audit logs with pseudonymized ID
-		const updateResult = await this.db
+		const updated = await this.db
 			.update(auditLog)
 			.set({
 				principalId: pseudonymId,
 				// Mark as pseudonymized in details
 				details: sql`COALESCE(${auditLog.details}, '{}') || '{"pseudonymized": true, "pseudonymizedAt": "${new Date().toISOString()}"}'::jsonb`,
 			})
-			.where(eq(auditLog.principalId, principalId))
+			.where(releasable)
+			.returning({ id: auditLog.id })
 
 		// Log the pseudonymization activity
 		await this.logGDPRActivity({
 			timestamp: new Date().toISOString(),
 			principalId: requestedBy,
+			organizationId: options.organizationId,
 			action: 'gdpr.data.pseudonymize',
 			status: 'success',
 			targetResourceType: 'AuditLog',
@@ -260,13 +410,16 @@ export class GDPRComplianceService {
 				originalId: principalId,
 				pseudonymId,
 				strategy,
-				recordsAffected: (updateResult as any).rowCount || 0,
+				recordsAffected: updated.length,
+				recordsHeld,
+				reason: options.reason,
 			},
 		})
 
 		return {
 			pseudonymId,
-			recordsAffected: (updateResult as any).rowCount || 0,
+			recordsAffected: updated.length,
+			recordsHeld,
 		}
 	}
 
@@ -314,6 +467,7 @@ export class GDPRComplianceService {
 
 		let recordsArchived = 0
 		let recordsDeleted = 0
+		let recordsHeld = 0
 		const byClassification: Record<string, number> = {}
 		const byAction: Record<string, number> = {}
 		let earliestDate = new Date().toISOString()
@@ -363,19 +517,30 @@ export class GDPRComplianceService {
 			recordsArchived = (archiveResult as any).rowCount || 0
 		}
 
-		// Delete records that meet deletion criteria
+		// Delete records that meet deletion criteria, except those under legal hold
 		if (deleteDate) {
-			const deleteResult = await this.db
-				.delete(auditLog)
-				.where(
-					and(
-						eq(auditLog.dataClassification, policy.dataClassification),
-						lte(auditLog.timestamp, deleteDate.toISOString()),
-						isNotNull(auditLog.archivedAt)
-					)
-				)
+			const enforcement = await this.legalHolds.enforceOnEvents(
+				'retention.delete',
+				and(
+					eq(auditLog.dataClassification, policy.dataClassification),
+					lte(auditLog.timestamp, deleteDate.toISOString()),
+					isNotNull(auditLog.archivedAt)
+				),
+				{ requestedBy: 'system', details: { policy: policy.policyName } }
+			)
+			recordsHeld = enforcement.recordsHeld
 
-			recordsDeleted = (deleteResult as any).rowCount || 0
+			const deleted = await this.db
+				.delete(auditLog)
+				.where(enforcement.releasable)
+				.returning(REMOVED_CHAIN_LINK_COLUMNS)
+			recordsDeleted = deleted.length
+
+			await recordChainRemovals(this.db, deleted, {
+				reason: 'retention.delete',
+				removedBy: 'system',
+				details: { policy: policy.policyName },
+			})
 		}
 
 		// Log retention policy application
@@ -393,6 +558,7 @@ export class GDPRComplianceService {
 				policy: policy.policyName,
 				recordsArchived,
 				recordsDeleted,
+				recordsHeld,
 				dataClassification: policy.dataClassification,
 			},
 		})
@@ -400,6 +566,7 @@ export class GDPRComplianceService {
 		return {
 			recordsArchived,
 			recordsDeleted,
+			recordsHeld,
 			archivedAt: now.toISOString(),
 			policy: policy.policyName,
 			summary: {
@@ -416,71 +583,74 @@ export class GDPRComplianceService {
 	/**
 	 * GDPR-compliant deletion with audit trail preservation (Requirement 4.4)
 	 * Implements "right to be forgotten" while maintaining compliance audit trails
+	 * Records under legal hold are kept as they are (GDPR Article 17(3)(e)).
 	 */
 	async deleteUserDataWithAuditTrail(
 		principalId: string,
 		requestedBy: string,
-		preserveComplianceAudits: boolean = true
-	): Promise<{ recordsDeleted: number; complianceRecordsPreserved: number }> {
+		preserveComplianceAudits: boolean = true,
+		options: GDPROperationOptions = {}
+	): Promise<{ recordsDeleted: number; complianceRecordsPreserved: number; recordsHeld: number }> {
 		let recordsDeleted = 0
 		let complianceRecordsPreserved = 0
+		const subjectEvents = this.principalCondition(principalId, options.organizationId)
+
+		const { releasable, recordsHeld } = await this.legalHolds.enforceOnEvents(
+			'gdpr.erasure',
+			subjectEvents,
+			{ requestedBy, details: { principalId, preserveComplianceAudits, reason: options.reason } }
+		)
 
 		if (preserveComplianceAudits) {
-			// First, identify compliance-critical audit records to preserve
-			const complianceActions = [
-				'auth.login.success',
-				'auth.login.failure',
-				'data.access.unauthorized',
-				'gdpr.data.export',
-				'gdpr.data.pseudonymize',
-				'gdpr.data.delete',
-			]
+			// Delete the non-compliance records while they still carry the subject's principal
+			const deleted = await this.db
+				.delete(auditLog)
+				.where(and(releasable, notInArray(auditLog.action, COMPLIANCE_AUDIT_ACTIONS)))
+				.returning(REMOVED_CHAIN_LINK_COLUMNS)
+			recordsDeleted = deleted.length
+			await recordChainRemovals(this.db, deleted, {
+				reason: 'gdpr.erasure',
+				removedBy: requestedBy,
+			})
 
+			// Pseudonymize the compliance-critical records instead of deleting them
 			const complianceRecords = await this.client.executeMonitoredQuery(
 				(db) =>
 					db
-						.select()
+						.select({ id: auditLog.id })
 						.from(auditLog)
-						.where(
-							and(
-								eq(auditLog.principalId, principalId),
-								sql`${auditLog.action} = ANY(${complianceActions})`
-							)
-						),
-				'compliance_audit_records',
-				{ cacheKey: `compliance_audit_records_${principalId}` }
+						.where(and(subjectEvents, inArray(auditLog.action, COMPLIANCE_AUDIT_ACTIONS))),
+				'compliance_audit_records'
 			)
 
-			// Pseudonymize compliance records instead of deleting
 			if (complianceRecords.length > 0) {
-				const pseudonymResult = await this.pseudonymizeUserData(principalId, 'hash', requestedBy)
+				const pseudonymResult = await this.pseudonymizeEvents(
+					principalId,
+					'hash',
+					requestedBy,
+					options,
+					inArray(auditLog.action, COMPLIANCE_AUDIT_ACTIONS)
+				)
 				complianceRecordsPreserved = pseudonymResult.recordsAffected
 			}
-
-			// Delete non-compliance records
-			const deleteResult = await this.db
-				.delete(auditLog)
-				.where(
-					and(
-						eq(auditLog.principalId, principalId),
-						sql`NOT (${auditLog.action} = ANY(${complianceActions}))`
-					)
-				)
-
-			recordsDeleted = (deleteResult as any).rowCount || 0
 		} else {
 			// Delete all records for the user
-			const deleteResult = await this.db
+			const deleted = await this.db
 				.delete(auditLog)
-				.where(eq(auditLog.principalId, principalId))
-
-			recordsDeleted = (deleteResult as any).rowCount || 0
+				.where(releasable)
+				.returning(REMOVED_CHAIN_LINK_COLUMNS)
+			recordsDeleted = deleted.length
+			await recordChainRemovals(this.db, deleted, {
+				reason: 'gdpr.erasure',
+				removedBy: requestedBy,
+			})
 		}
 
 		// Log the deletion activity
 		await this.logGDPRActivity({
 			timestamp: new Date().toISOString(),
 			principalId: requestedBy,
+			organizationId: options.organizationId,
 			action: 'gdpr.data.delete',
 			status: 'success',
 			targetResourceType: 'AuditLog',
@@ -491,33 +661,299 @@ export class GDPRComplianceService {
 			details: {
 				recordsDeleted,
 				complianceRecordsPreserved,
+				recordsHeld,
 				preserveComplianceAudits,
+				reason: options.reason,
 			},
 		})
 
 		return {
 			recordsDeleted,
 			complianceRecordsPreserved,
+			recordsHeld,
 		}
 	}
 
 	/**
-	 * Get pseudonym mapping for referential integrity
+	 * Summarize the audit events of a data subject, to preview a data subject operation
 	 */
-	getPseudonymMapping(originalId: string): string | undefined {
-		return this.pseudonymMappings.get(originalId)
+	async getPrincipalFootprint(
+		organizationId: string,
+		principalId: string
+	): Promise<PrincipalFootprint> {
+		const subjectEvents = this.principalCondition(principalId, organizationId)
+
+		const [[totals], byAction, byClassification, heldEvents] = await Promise.all([
+			this.db
+				.select({
+					totalEvents: count(),
+					firstSeen: min(auditLog.timestamp),
+					lastSeen: max(auditLog.timestamp),
+				})
+				.from(auditLog)
+				.where(subjectEvents),
+			this.db
+				.select({ action: auditLog.action, count: count() })
+				.from(auditLog)
+				.where(subjectEvents)
+				.groupBy(auditLog.action)
+				.orderBy(desc(count())),
+			this.db
+				.select({ dataClassification: auditLog.dataClassification, count: count() })
+				.from(auditLog)
+				.where(subjectEvents)
+				.groupBy(auditLog.dataClassification)
+				.orderBy(desc(count())),
+			this.legalHolds.countHeldEvents(subjectEvents),
+		])
+
+		return {
+			principalId,
+			totalEvents: totals?.totalEvents ?? 0,
+			firstSeen: totals?.firstSeen ?? undefined,
+			lastSeen: totals?.lastSeen ?? undefined,
+			byAction,
+			byClassification: byClassification.map((row) => ({
+				dataClassification: (row.dataClassification ?? 'INTERNAL') as DataClassification,
+				count: row.count,
+			})),
+			heldEvents,
+		}
 	}
 
 	/**
-	 * Reverse pseudonym mapping (for authorized compliance investigations)
+	 * List the GDPR operations recorded for an organization, most recent first
+	 * @param principalId Only the operations on this data subject
 	 */
-	getOriginalId(pseudonymId: string): string | undefined {
-		for (const [original, pseudonym] of this.pseudonymMappings.entries()) {
-			if (pseudonym === pseudonymId) {
-				return original
+	async listGDPRActivity(
+		organizationId: string,
+		options: { principalId?: string; limit?: number } = {}
+	): Promise<GDPRActivity[]> {
+		const conditions = [
+			eq(auditLog.organizationId, organizationId),
+			like(auditLog.action, 'gdpr.%'),
+		]
+		if (options.principalId) conditions.push(eq(auditLog.targetResourceId, options.principalId))
+
+		const rows = await this.db
+			.select()
+			.from(auditLog)
+			.where(and(...conditions))
+			.orderBy(desc(auditLog.timestamp))
+			.limit(options.limit ?? 50)
+
+		return rows.map((row) => ({
+			id: row.id,
+			timestamp: row.timestamp,
+			action: row.action,
+			status: row.status,
+			performedBy: row.principalId ?? undefined,
+			principalId: row.targetResourceId ?? undefined,
+			outcomeDescription: row.outcomeDescription ?? undefined,
+			details: (row.details as Record<string, unknown> | null) ?? undefined,
+		}))
+	}
+
+	/**
+	 * Pseudonymize fields of the JSONB details of audit events
+	 * The same value gets the same pseudonym in every field and event, and values that are
+	 * already pseudonyms are left alone. Events under legal hold are kept as they are.
+	 */
+	async pseudonymizeDetailFields(
+		request: DetailsPseudonymizationRequest
+	): Promise<DetailsPseudonymizationResult> {
+		const paths = request.paths.map(parseDetailsPath)
+		if (paths.length === 0) {
+			throw new Error('At least one details path is required')
+		}
+		const strategy = request.strategy ?? 'hash'
+		const batchSize = request.batchSize ?? 500
+
+		const conditions = [
+			or(
+				...paths.map(
+					(path) => sql`${auditLog.details} #> ${`{${path.join(',')}}`}::text[] IS NOT NULL`
+				)
+			),
+		]
+		if (request.organizationId) conditions.push(eq(auditLog.organizationId, request.organizationId))
+		if (request.principalId) conditions.push(eq(auditLog.principalId, request.principalId))
+		if (request.dateRange) {
+			conditions.push(
+				gte(auditLog.timestamp, request.dateRange.start),
+				lte(auditLog.timestamp, request.dateRange.end)
+			)
+		}
+
+		const { releasable, recordsHeld } = await this.legalHolds.enforceOnEvents(
+			'gdpr.pseudonymize',
+			and(...conditions),
+			{ requestedBy: request.requestedBy, details: { paths: request.paths, strategy } }
+		)
+
+		const result: DetailsPseudonymizationResult = {
+			recordsScanned: 0,
+			recordsAffected: 0,
+			valuesPseudonymized: 0,
+			recordsHeld,
+		}
+		const pseudonyms = new Map<string, string>()
+		let lastId = 0
+
+		for (;;) {
+			const rows = await this.db
+				.select({ id: auditLog.id, details: auditLog.details })
+				.from(auditLog)
+				.where(and(releasable, gt(auditLog.id, lastId)))
+				.orderBy(auditLog.id)
+				.limit(batchSize)
+			if (rows.length === 0) break
+
+			for (const row of rows) {
+				result.recordsScanned++
+				const details = structuredClone(row.details ?? {}) as Record<string, unknown>
+				let replaced = 0
+
+				for (const path of paths) {
+					const value = getDetailsValue(details, path)
+					if (typeof value !== 'string' && typeof value !== 'number') continue
+					const original = String(value)
+					if (original === '' || original.startsWith('pseudo-')) continue
+
+					let pseudonym = pseudonyms.get(original)
+					if (!pseudonym) {
+						pseudonym = await this.createPseudonym(original, strategy, {
+							field: `details.${path.join('.')}`,
+							organizationId: request.organizationId,
+							createdBy: request.requestedBy,
+						})
+						pseudonyms.set(original, pseudonym)
+					}
+					setDetailsValue(details, path, pseudonym)
+					replaced++
+				}
+
+				if (replaced > 0) {
+					details.pseudonymized = true
+					details.pseudonymizedAt = new Date().toISOString()
+					await this.db.update(auditLog).set({ details }).where(eq(auditLog.id, row.id))
+					result.recordsAffected++
+					result.valuesPseudonymized += replaced
+				}
 			}
+
+			lastId = rows[rows.length - 1]!.id
 		}
-		return undefined
+
+		await this.logGDPRActivity({
+			timestamp: new Date().toISOString(),
+			principalId: request.requestedBy,
+			organizationId: request.organizationId,
+			action: 'gdpr.data.pseudonymize_details',
+			status: 'success',
+			targetResourceType: 'AuditLog',
+			targetResourceId: request.principalId,
+			outcomeDescription: `Pseudonymized ${result.valuesPseudonymized} details values in ${result.recordsAffected} events`,
+			dataClassification: 'PHI',
+			retentionPolicy: 'gdpr_compliance',
+			details: { paths: request.paths, strategy, ...result },
+		})
+
+		return result
+	}
+
+	/**
+	 * Get the pseudonym a reversible strategy gave to a value in an organization, for referential integrity
+	 */
+	async getPseudonymMapping(
+		originalId: string,
+		organizationId?: string
+	): Promise<string | undefined> {
+		return (await this.vault?.lookup(originalId, organizationId)) ?? undefined
+	}
+
+	/**
+	 * Request the re-identification of a pseudonym for a lawful request
+	 * Nothing is revealed until other people approve the request.
+	 */
+	async requestReidentification(
+		organizationId: string,
+		input: ReidentificationRequestInput,
+		requestedBy: string
+	): Promise<ReidentificationRequest> {
+		return this.auditReidentification(
+			'request',
+			{ organizationId, principalId: requestedBy, targetId: input.pseudonymId },
+			() => this.requireVault().requestReidentification(organizationId, input, requestedBy),
+			(request) => ({
+				requestId: request.id,
+				legalBasis: request.legalBasis,
+				caseReference: request.caseReference,
+				requiredApprovals: request.requiredApprovals,
+			})
+		)
+	}
+
+	async approveReidentification(
+		organizationId: string,
+		requestId: string,
+		approvedBy: string,
+		comment?: string
+	): Promise<ReidentificationRequest> {
+		return this.auditReidentification(
+			'approve',
+			{ organizationId, principalId: approvedBy, targetId: requestId },
+			() =>
+				this.requireVault().approveReidentification(organizationId, requestId, approvedBy, comment),
+			(request) => ({
+				pseudonymId: request.pseudonymId,
+				approvals: request.approvals.length,
+				status: request.status,
+			})
+		)
+	}
+
+	async rejectReidentification(
+		organizationId: string,
+		requestId: string,
+		rejectedBy: string,
+		reason: string
+	): Promise<ReidentificationRequest> {
+		return this.auditReidentification(
+			'reject',
+			{ organizationId, principalId: rejectedBy, targetId: requestId },
+			() =>
+				this.requireVault().rejectReidentification(organizationId, requestId, rejectedBy, reason),
+			(request) => ({ pseudonymId: request.pseudonymId, reason })
+		)
+	}
+
+	/**
+	 * Reveal the original of an approved re-identification request to its requester
+	 * The original is never written to the audit trail.
+	 */
+	async reidentify(
+		organizationId: string,
+		requestId: string,
+		performedBy: string
+	): Promise<{ request: ReidentificationRequest; originalValue: string }> {
+		return this.auditReidentification(
+			'complete',
+			{ organizationId, principalId: performedBy, targetId: requestId },
+			() => this.requireVault().reidentify(organizationId, requestId, performedBy),
+			({ request }) => ({
+				pseudonymId: request.pseudonymId,
+				legalBasis: request.legalBasis,
+				approvedBy: request.approvals.map((approval) => approval.approvedBy),
+			})
+		)
+	}
+
+	async listReidentificationRequests(
+		organizationId: string,
+		status?: ReidentificationRequest['status']
+	): Promise<ReidentificationRequest[]> {
+		return this.requireVault().listRequests(organizationId, status)
 	}
 
 	/**
@@ -530,7 +966,11 @@ export class GDPRComplianceService {
 	/**
 	 * Generate pseudonym ID using specified strategy
 	 */
-	private generatePseudonymId(originalId: string, strategy: PseudonymizationStrategy): string {
+	private async createPseudonym(
+		originalId: string,
+		strategy: PseudonymizationStrategy,
+		context: PseudonymContext
+	): Promise<string> {
 		switch (strategy) {
 			case 'hash':
 				// TODO: add PSEUDONYM_SALT to config
@@ -539,18 +979,72 @@ export class GDPRComplianceService {
 					.digest('hex')
 					.substring(0, 16)}`
 			case 'token':
-				return `pseudo-${randomBytes(16).toString('hex')}`
 			case 'encryption':
-				// TODO: For production, implement proper encryption
-				return `pseudo-enc-${Buffer.from(originalId)
-					.toString('base64')
-					.replace(/[^a-zA-Z0-9]/g, '')
-					.substring(0, 16)}`
+				if (!this.vault) {
+					throw new Error(`The ${strategy} pseudonymization strategy requires a pseudonym vault`)
+				}
+				return this.vault.pseudonymize(originalId, strategy, context)
 			default:
 				throw new Error(`Unsupported pseudonymization strategy: ${strategy}`)
 		}
 	}
 
+	private principalCondition(principalId: string, organizationId?: string) {
+		return and(
+			eq(auditLog.principalId, principalId),
+			organizationId ? eq(auditLog.organizationId, organizationId) : undefined
+		)
+	}
+
+	private requireVault(): PseudonymVault {
+		if (!this.vault) {
+			throw new Error('Re-identification requires a pseudonym vault')
+		}
+		return this.vault
+	}
+
+	/**
+	 * Run a re-identification step, recording it, or its refusal, in the audit trail
+	 */
+	private async auditReidentification<T>(
+		step: 'request' | 'approve' | 'reject' | 'complete',
+		actor: { organizationId: string; principalId: string; targetId: string },
+		run: () => Promise<T>,
+		details: (result: T) => Record<string, unknown>
+	): Promise<T> {
+		const event: AuditLogEvent = {
+			timestamp: new Date().toISOString(),
+			principalId: actor.principalId,
+			organizationId: actor.organizationId,
+			action: `gdpr.reidentification.${step}`,
+			status: 'success',
+			targetResourceType: step === 'request' ? 'Pseudonym' : 'ReidentificationRequest',
+			targetResourceId: actor.targetId,
+			dataClassification: 'PHI',
+			retentionPolicy: 'gdpr_compliance',
+		}
+
+		try {
+			const result = await run()
+			await this.logGDPRActivity({
+				...event,
+				outcomeDescription: `Re-identification ${step} of ${actor.targetId} succeeded`,
+				details: details(result),
+			})
+			return result
+		} catch (error) {
+			if (error instanceof PseudonymVaultError) {
+				await this.logGDPRActivity({
+					...event,
+					status: 'failure',
+					outcomeDescription: `Re-identification ${step} of ${actor.targetId} refused: ${error.message}`,
+					details: { code: error.code },
+				})
+			}
+			throw error
+		}
+	}
+
 	/**
 	 * Format export data according to requested format
 	 */
@@ -683,3 +1177,30 @@ export class GDPRComplianceService {
 		})*/
 	}
 }
+
+const DETAILS_PATH_SEGMENT = /^[A-Za-z0-9_-]+$/
+
+/**
+ * Split a dot-separated details path, rejecting segments unsafe in a Postgres path
+ */
+function parseDetailsPath(path: string): string[] {
+	const segments = path.split('.')
+	if (!segments.every((segment) => DETAILS_PATH_SEGMENT.test(segment))) {
+		throw new Error(`Invalid details path: ${path}`)
+	}
+	return segments
+}
+
+function getDetailsValue(details: Record<string, unknown>, path: string[]): unknown {
+	let value: unknown = details
+	for (const segment of path) {
+		if (value === null || typeof value !== 'object') return undefined
+		value = (value as Record<string, unknown>)[segment]
+	}
+	return value
+}
+
+function setDetailsValue(details: Record<string, unknown>, path: string[], value: string): void {
+	const parent = getDetailsValue(details, path.slice(0, -1)) as Record<string, unknown>
+	parent[path[path.length - 1]!] = value
+}
@@ -0,0 +1,478 @@
+/**
+ * @fileoverview Pseudonym Vault
+ *
+ * Keeps the originals of reversible pseudonyms so they survive restarts and can be
+ * revealed for lawful requests:
+ * - Originals are envelope encrypted: every entry has its own AES-256-GCM data key,
+ *   wrapped by the KMS, with the entry id bound as additional authenticated data
+ * - Entries are found by a keyed hash of the organization and the original, so the same
+ *   value maps to the same pseudonym within an organization without storing it in clear
+ * - A pseudonym is only revealed through a re-identification request, approved by people
+ *   other than the requester, and revealed once to the requester before it expires
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto'
+import { and, desc, eq, isNull, not, sql } from 'drizzle-orm'
+
+import { auditLog, pseudonymVault, reidentificationRequest } from '@repo/audit-db'
+
+import { decryptArchiveData, encryptArchiveData } from '../archival/archive-encryption.js'
+
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+import type {
+	ArchiveEncryptionMetadata,
+	ArchiveKeyWrapper,
+} from '../archival/archive-encryption.js'
+
+/**
+ * Pseudonymization strategies backed by the vault
+ * - token: random pseudonym, only the vault links it to the original
+ * - encryption: the pseudonym is the ciphertext of the original
+ */
+export type ReversiblePseudonymizationStrategy = 'token' | 'encryption'
+
+export type ReidentificationStatus = 'pending' | 'approved' | 'rejected' | 'completed'
+
+export interface ReidentificationApproval {
+	approvedBy: string
+	approvedAt: string
+	comment?: string
+}
+
+export interface ReidentificationRequest {
+	id: string
+	organizationId: string
+	pseudonymId: string
+	/** Lawful basis of the request, e.g. court_order or law_enforcement */
+	legalBasis: string
+	justification: string
+	caseReference?: string | null
+	status: ReidentificationStatus
+	requiredApprovals: number
+	approvals: ReidentificationApproval[]
+	requestedBy: string
+	createdAt: string
+	/** The request can no longer be approved or completed after this time */
+	expiresAt: string
+	rejectedBy?: string | null
+	rejectedAt?: string | null
+	rejectionReason?: string | null
+	completedBy?: string | null
+	completedAt?: string | null
+}
+
+export type ReidentificationRequestInput = Pick<
+	ReidentificationRequest,
+	'pseudonymId' | 'legalBasis' | 'justification' | 'caseReference'
+>
+
+export interface PseudonymVaultOptions {
+	/**
+	 * Approvals required before a pseudonym is revealed, none by the requester
+	 * @default 2
+	 */
+	requiredApprovals?: number
+	/**
+	 * Hours a re-identification request stays open
+	 * @default 72
+	 */
+	requestTtlHours?: number
+	/**
+	 * Secret keying the lookup hashes of originals, required when PSEUDONYM_SALT is not set
+	 * @default process.env.PSEUDONYM_SALT
+	 */
+	lookupSecret?: string
+}
+
+/**
+ * Where a value is pseudonymized
+ */
+export interface PseudonymContext {
+	/** Field of the value, e.g. principalId or details.patient.email */
+	field: string
+	organizationId?: string
+	createdBy: string
+}
+
+export type PseudonymVaultErrorCode = 'NOT_FOUND' | 'FORBIDDEN' | 'CONFLICT' | 'INVALID'
+
+/**
+ * Pseudonym vault operation refused
+ */
+export class PseudonymVaultError extends Error {
+	constructor(
+		message: string,
+		public readonly code: PseudonymVaultErrorCode
+	) {
+		super(message)
+		this.name = 'PseudonymVaultError'
+	}
+}
+
+const DEFAULT_REQUIRED_APPROVALS = 2
+const DEFAULT_REQUEST_TTL_HOURS = 72
+// Pseudonyms are stored in varchar(255) columns
+const MAX_PSEUDONYM_LENGTH = 255
+
+/**
+ * Stores reversible pseudonyms and reveals them through approved re-identification requests
+ */
+export class PseudonymVault {
+	private requiredApprovals: number
+	private requestTtlHours: number
+	private lookupSecret: string
+
+	constructor(
+		private db: PostgresJsDatabase<any>,
+		private keyWrapper: ArchiveKeyWrapper,
+		options: PseudonymVaultOptions = {}
+	) {
+		this.requiredApprovals = options.requiredApprovals ?? DEFAULT_REQUIRED_APPROVALS
+		this.requestTtlHours = options.requestTtlHours ?? DEFAULT_REQUEST_TTL_HOURS
+		const lookupSecret = options.lookupSecret ?? process.env.PSEUDONYM_SALT
+
+		if (this.requiredApprovals < 2) {
+			throw new PseudonymVaultError('Re-identification requires at least two approvals', 'INVALID')
+		}
+		// A public fallback would let anyone holding the lookup hashes re-identify subjects
+		if (!lookupSecret) {
+			throw new PseudonymVaultError(
+				'A lookup secret or PSEUDONYM_SALT is required to key pseudonym lookups',
+				'INVALID'
+			)
+		}
+		this.lookupSecret = lookupSecret
+	}
+
+	/**
+	 * Pseudonymize a value, reusing its pseudonym when it was pseudonymized before
+	 *
+	 * @param value Original value
+	 * @param strategy Strategy used when the value is new to the vault
+	 * @param context Where the value is pseudonymized
+	 * @returns The pseudonym of the value
+	 */
+	async pseudonymize(
+		value: string,
+		strategy: ReversiblePseudonymizationStrategy,
+		context: PseudonymContext
+	): Promise<string> {
+		const lookupHash = this.lookupHash(value, context.organizationId)
+		const existing = await this.findByLookupHash(lookupHash, context.organizationId)
+		if (existing) {
+			return existing
+		}
+
+		const id = randomUUID()
+		const { data, encryption } = await encryptArchiveData(
+			Buffer.from(value, 'utf8'),
+			id,
+			this.keyWrapper
+		)
+		const pseudonymId =
+			strategy === 'encryption'
+				? `pseudo-enc-${data.toString('base64url')}`
+				: `pseudo-${randomBytes(16).toString('hex')}`
+
+		if (pseudonymId.length > MAX_PSEUDONYM_LENGTH) {
+			throw new PseudonymVaultError(
+				`Value of ${context.field} is too long for the encryption strategy, use the token strategy`,
+				'INVALID'
+			)
+		}
+
+		// A concurrent pseudonymization of the same value wins; its pseudonym is returned
+		const [inserted] = await this.db
+			.insert(pseudonymVault)
+			.values({
+				id,
+				pseudonymId,
+				strategy,
+				lookupHash,
+				field: context.field,
+				encryptedValue: data.toString('base64'),
+				encryption,
+				organizationId: context.organizationId,
+				createdBy: context.createdBy,
+			})
+			.onConflictDoNothing({ target: [pseudonymVault.organizationId, pseudonymVault.lookupHash] })
+			.returning({ pseudonymId: pseudonymVault.pseudonymId })
+
+		return (
+			inserted?.pseudonymId ?? (await this.findByLookupHash(lookupHash, context.organizationId))!
+		)
+	}
+
+	/**
+	 * Pseudonym of a value in an organization, without revealing anything about other entries
+	 */
+	async lookup(value: string, organizationId?: string): Promise<string | null> {
+		return this.findByLookupHash(this.lookupHash(value, organizationId), organizationId)
+	}
+
+	/**
+	 * Request the original of a pseudonym seen in the audit events of an organization
+	 */
+	async requestReidentification(
+		organizationId: string,
+		input: ReidentificationRequestInput,
+		requestedBy: string
+	): Promise<ReidentificationRequest> {
+		if (!(await this.isVisibleTo(organizationId, input.pseudonymId))) {
+			throw new PseudonymVaultError(`Pseudonym ${input.pseudonymId} not found`, 'NOT_FOUND')
+		}
+
+		const [row] = await this.db
+			.insert(reidentificationRequest)
+			.values({
+				id: randomUUID(),
+				organizationId,
+				...input,
+				requiredApprovals: this.requiredApprovals,
+				requestedBy,
+				expiresAt: new Date(Date.now() + this.requestTtlHours * 60 * 60 * 1000).toISOString(),
+			})
+			.returning()
+		return row as ReidentificationRequest
+	}
+
+	/**
+	 * Approve a pending request
+	 * The request is approved once it has the required approvals from distinct people
+	 * other than the requester.
+	 */
+	async approveReidentification(
+		organizationId: string,
+		requestId: string,
+		approvedBy: string,
+		comment?: string
+	): Promise<ReidentificationRequest> {
+		const request = await this.getOpenRequest(organizationId, requestId, ['pending'])
+		if (request.requestedBy === approvedBy) {
+			throw new PseudonymVaultError('Requesters cannot approve their own request', 'FORBIDDEN')
+		}
+		if (request.approvals.some((approval) => approval.approvedBy === approvedBy)) {
+			throw new PseudonymVaultError(`Request ${requestId} is already approved by you`, 'CONFLICT')
+		}
+
+		const approval: ReidentificationApproval = {
+			approvedBy,
+			approvedAt: new Date().toISOString(),
+			...(comment ? { comment } : {}),
+		}
+		// Appended in SQL so concurrent approvals are all kept
+		const [row] = await this.db
+			.update(reidentificationRequest)
+			.set({
+				approvals: sql`${reidentificationRequest.approvals} || ${JSON.stringify([approval])}::jsonb`,
+				status: sql`CASE WHEN jsonb_array_length(${reidentificationRequest.approvals}) + 1 >= ${reidentificationRequest.requiredApprovals} THEN 'approved' ELSE 'pending' END`,
+			})
+			.where(
+				and(
+					eq(reidentificationRequest.id, requestId),
+					eq(reidentificationRequest.status, 'pending'),
+					not(
+						sql`${reidentificationRequest.approvals} @> ${JSON.stringify([{ approvedBy }])}::jsonb`
+					)
+				)
+			)
+			.returning()
+
+		if (!row) {
+			throw new PseudonymVaultError(`Request ${requestId} changed, retry the approval`, 'CONFLICT')
+		}
+		return row as ReidentificationRequest
+	}
+
+	/**
+	 * Reject a request that was not completed
+	 */
+	async rejectReidentification(
+		organizationId: string,
+		requestId: string,
+		rejectedBy: string,
+		reason: string
+	): Promise<ReidentificationRequest> {
+		await this.getOpenRequest(organizationId, requestId, ['pending', 'approved'])
+
+		const [row] = await this.db
+			.update(reidentificationRequest)
+			.set({
+				status: 'rejected',
+				rejectedBy,
+				rejectedAt: new Date().toISOString(),
+				rejectionReason: reason,
+			})
+			.where(
+				and(
+					eq(reidentificationRequest.id, requestId),
+					sql`${reidentificationRequest.status} IN ('pending', 'approved')`
+				)
+			)
+			.returning()
+
+		if (!row) {
+			throw new PseudonymVaultError(`Request ${requestId} is no longer open`, 'CONFLICT')
+		}
+		return row as ReidentificationRequest
+	}
+
+	/**
+	 * Reveal the original of an approved request to its requester
+	 * A request reveals its pseudonym once.
+	 */
+	async reidentify(
+		organizationId: string,
+		requestId: string,
+		performedBy: string
+	): Promise<{ request: ReidentificationRequest; originalValue: string }> {
+		const request = await this.getOpenRequest(organizationId, requestId, ['approved'])
+		if (request.requestedBy !== performedBy) {
+			throw new PseudonymVaultError('Only the requester can complete a request', 'FORBIDDEN')
+		}
+
+		const [entry] = await this.db
+			.select()
+			.from(pseudonymVault)
+			.where(eq(pseudonymVault.pseudonymId, request.pseudonymId))
+		if (!entry) {
+			throw new PseudonymVaultError(`Pseudonym ${request.pseudonymId} not found`, 'NOT_FOUND')
+		}
+
+		// Decrypted first, so a request is only completed once its original is revealed
+		const original = await decryptArchiveData(
+			Buffer.from(entry.encryptedValue, 'base64'),
+			entry.id,
+			entry.encryption as ArchiveEncryptionMetadata,
+			this.keyWrapper
+		)
+
+		const [completed] = await this.db
+			.update(reidentificationRequest)
+			.set({ status: 'completed', completedBy: performedBy, completedAt: new Date().toISOString() })
+			.where(
+				and(
+					eq(reidentificationRequest.id, requestId),
+					eq(reidentificationRequest.status, 'approved')
+				)
+			)
+			.returning()
+		if (!completed) {
+			throw new PseudonymVaultError(`Request ${requestId} is no longer approved`, 'CONFLICT')
+		}
+		return {
+			request: completed as ReidentificationRequest,
+			originalValue: original.toString('utf8'),
+		}
+	}
+
+	async getRequest(
+		organizationId: string,
+		requestId: string
+	): Promise<ReidentificationRequest | null> {
+		const [row] = await this.db
+			.select()
+			.from(reidentificationRequest)
+			.where(
+				and(
+					eq(reidentificationRequest.id, requestId),
+					eq(reidentificationRequest.organizationId, organizationId)
+				)
+			)
+		return (row as ReidentificationRequest) ?? null
+	}
+
+	/**
+	 * List the re-identification requests of an organization, most recent first
+	 */
+	async listRequests(
+		organizationId: string,
+		status?: ReidentificationStatus
+	): Promise<ReidentificationRequest[]> {
+		const rows = await this.db
+			.select()
+			.from(reidentificationRequest)
+			.where(
+				and(
+					eq(reidentificationRequest.organizationId, organizationId),
+					status ? eq(reidentificationRequest.status, status) : undefined
+				)
+			)
+			.orderBy(desc(reidentificationRequest.createdAt))
+		return rows as ReidentificationRequest[]
+	}
+
+	/**
+	 * Keyed hash of a value in an organization
+	 * The same value gets unrelated hashes in different organizations.
+	 */
+	private lookupHash(value: string, organizationId?: string): string {
+		return createHmac('sha256', this.lookupSecret)
+			.update(JSON.stringify([organizationId ?? null, value]), 'utf8')
+			.digest('hex')
+	}
+
+	private async findByLookupHash(
+		lookupHash: string,
+		organizationId?: string
+	): Promise<string | null> {
+		const [row] = await this.db
+			.select({ pseudonymId: pseudonymVault.pseudonymId })
+			.from(pseudonymVault)
+			.where(
+				and(
+					eq(pseudonymVault.lookupHash, lookupHash),
+					organizationId
+						? eq(pseudonymVault.organizationId, organizationId)
+						: isNull(pseudonymVault.organizationId)
+				)
+			)
+		return row?.pseudonymId ?? null
+	}
+
+	/**
+	 * Whether an organization may request a pseudonym: it was created for the organization,
+	 * or, for pseudonyms shared across organizations, it appears in the organization's events
+	 */
+	private async isVisibleTo(organizationId: string, pseudonymId: string): Promise<boolean> {
+		const [entry] = await this.db
+			.select({ organizationId: pseudonymVault.organizationId })
+			.from(pseudonymVault)
+			.where(eq(pseudonymVault.pseudonymId, pseudonymId))
+		if (!entry) return false
+		if (entry.organizationId) return entry.organizationId === organizationId
+
+		const [event] = await this.db
+			.select({ id: auditLog.id })
+			.from(auditLog)
+			.where(
+				and(
+					eq(auditLog.organizationId, organizationId),
+					sql`(${auditLog.principalId} = ${pseudonymId} OR strpos(${auditLog.details}::text, ${pseudonymId}) > 0)`
+				)
+			)
+			.limit(1)
+		return !!event
+	}
+
+	/**
+	 * Load a request of an organization that is in one of the given states and not expired
+	 */
+	private async getOpenRequest(
+		organizationId: string,
+		requestId: string,
+		statuses: ReidentificationStatus[]
+	): Promise<ReidentificationRequest> {
+		const request = await this.getRequest(organizationId, requestId)
+		if (!request) {
+			throw new PseudonymVaultError(`Re-identification request ${requestId} not found`, 'NOT_FOUND')
+		}
+		if (!statuses.includes(request.status)) {
+			throw new PseudonymVaultError(`Request ${requestId} is ${request.status}`, 'CONFLICT')
+		}
+		if (new Date(request.expiresAt).getTime() < Date.now()) {
+			throw new PseudonymVaultError(`Request ${requestId} expired`, 'CONFLICT')
+		}
+		return request
+	}
+}
@@ -1,9 +1,13 @@
 export * from './audit.js'
 export * from './types.js'
 export * from './crypto.js'
+export * from './gdpr/data-subject-request.js'
 export * from './gdpr/gdpr-compliance.js'
 export * from './gdpr/gdpr-utils.js'
+export * from './gdpr/pseudonym-vault.js'
+export * from './legal-hold/legal-hold.js'
 export * from './validation.js'
+export * from './pii-scanner.js'
 export * from './event/event-types.js'
 export * from './event/event-categorization.js'
 export * from './retry.js'
@@ -34,6 +38,10 @@ export {
 } from './monitor/database-alert-handler.js'
 export type { AlertQueryFilters, AlertResolution } from './monitor/database-alert-handler.js'
 
+// Export alert notification channels and routing
+export * from './monitor/alert-channels.js'
+export * from './monitor/alert-routing.js'
+
 // Export database preset handler
 export {
 	DatabasePresetHandler,
@@ -54,15 +62,36 @@ export {
 // Export compliance reporting services
 export * from './report/compliance-reporting.js'
 export * from './report/data-export.js'
+export * from './report/pdf-report.js'
 export * from './report/scheduled-reporting.js'
+export * from './report/report-delivery.js'
+export * from './report/report-storage.js'
+export * from './report/streaming-export.js'
+export * from './report/export-jobs.js'
+export * from './report/export-encryption.js'
+export * from './report/report-templates.js'
+
+// Export search services
+export * from './search/full-text-search.js'
+export * from './search/aggregation.js'
+export * from './search/event-cursor.js'
 
 // Export error handling and logging services
 export * from './error/error-handling.js'
 export { DatabaseErrorLogger } from './error/database-error-logger.js'
 
+// Export integrity services
+export * from './integrity/hash-chain.js'
+export * from './integrity/merkle-tree.js'
+export * from './integrity/merkle-checkpoint.js'
+
 // Export archival services
 export * from './archival/archival-service.js'
 export * from './archival/postgres-archival-service.js'
+export * from './archival/archive-encryption.js'
+export * from './archival/archive-formats.js'
+export * from './archival/archive-blob-store.js'
+export * from './archival/archive-restore.js'
 
 // Export configuration manager
 export { ConfigurationManager } from './config/manager.js'
@@ -0,0 +1,494 @@
+/**
+ * Tamper-evident hash chain for audit_log rows
+ * Every persisted event carries the chain hash of the event stored before it for the
+ * same organization, so deleting, reordering or editing a row breaks the ledger.
+ * Lawful removals (retention, erasure, secure deletion) leave a tombstone in
+ * audit_integrity_log that lets verification walk across the gap they leave.
+ */
+import { and, asc, desc, eq, gt, gte, isNotNull, isNull, lt, lte, sql } from 'drizzle-orm'
+
+import { auditIntegrityLog, auditLog } from '@repo/audit-db'
+
+import { GENESIS_CHAIN_HASH } from '../crypto.js'
+
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+import type { CryptographicService } from '../crypto.js'
+
+/**
+ * Row shape accepted when appending to the ledger
+ * previousHash and chainHash are always assigned by the chain itself
+ */
+export type ChainedAuditLogInsert = Omit<typeof auditLog.$inferInsert, 'previousHash' | 'chainHash'>
+
+/**
+ * Row shape returned after appending to the ledger
+ */
+export type ChainedAuditLogRow = typeof auditLog.$inferSelect
+
+/**
+ * Minimal view of a ledger row needed to verify a link
+ */
+export interface ChainLink {
+	id: number
+	timestamp: string
+	hash: string | null
+	previousHash: string | null
+	chainHash: string | null
+}
+
+/**
+ * Ledger row removed on purpose, as returned by the deleting statement
+ */
+export interface RemovedChainLink {
+	id: number
+	organizationId: string | null
+	previousHash: string | null
+	chainHash: string | null
+}
+
+/**
+ * Why and by whom ledger rows were removed
+ */
+export interface ChainRemovalContext {
+	/** Operation that removed the rows, e.g. retention.delete or gdpr.erasure */
+	reason: string
+	removedBy: string
+	details?: Record<string, unknown>
+}
+
+/**
+ * Why a link in the chain failed verification
+ * - previous_hash_mismatch: a row was deleted, inserted or reordered before this one
+ * - chain_hash_mismatch: this row's event hash or chain hash was modified
+ */
+export type ChainBreakReason = 'previous_hash_mismatch' | 'chain_hash_mismatch'
+
+/**
+ * First broken link found while walking the chain
+ */
+export interface ChainBreak {
+	eventId: number
+	timestamp: string
+	reason: ChainBreakReason
+	expectedHash: string
+	actualHash: string | null
+}
+
+/**
+ * Hash chain verification request
+ */
+export interface HashChainVerificationRequest {
+	/** Organization whose chain is verified; null verifies the chain of events without an organization */
+	organizationId: string | null
+	startDate: string
+	endDate: string
+	verifiedBy?: string
+	/** Number of rows loaded per round trip while walking the chain */
+	batchSize?: number
+}
+
+/**
+ * Hash chain verification result
+ */
+export interface HashChainVerificationResult {
+	verificationId: string
+	verifiedAt: string
+	verifiedBy?: string
+	organizationId: string | null
+	startDate: string
+	endDate: string
+	eventsVerified: number
+	intact: boolean
+	firstEventId?: number
+	lastEventId?: number
+	/** Documented removals walked across */
+	removalsBridged: number
+	firstBreak?: ChainBreak
+}
+
+const DEFAULT_BATCH_SIZE = 1000
+
+const TOMBSTONE_STATUS = 'removed'
+
+/**
+ * Returning clause that captures what recordChainRemovals needs from deleted rows
+ */
+export const REMOVED_CHAIN_LINK_COLUMNS = {
+	id: auditLog.id,
+	organizationId: auditLog.organizationId,
+	previousHash: auditLog.previousHash,
+	chainHash: auditLog.chainHash,
+}
+
+/**
+ * Record tombstones for ledger rows removed on purpose
+ * Consecutive links of a chain collapse into one tombstone holding the hash the gap
+ * starts from and the chain hash it ends with, so the following link still verifies.
+ * Rows written before the chain existed carry no chain hash and need no tombstone.
+ */
+export async function recordChainRemovals(
+	db: PostgresJsDatabase<any>,
+	removed: RemovedChainLink[],
+	context: ChainRemovalContext
+): Promise<number> {
+	const runs: Array<{
+		organizationId: string | null
+		firstEventId: number
+		lastEventId: number
+		eventsRemoved: number
+		startHash: string
+		endHash: string
+	}> = []
+	const openRuns = new Map<string, (typeof runs)[number]>()
+
+	for (const link of [...removed].sort((a, b) => a.id - b.id)) {
+		if (!link.previousHash || !link.chainHash) continue
+
+		const key = `${link.organizationId ?? ''}:${link.previousHash}`
+		const run = openRuns.get(key)
+		openRuns.delete(key)
+
+		if (run) {
+			run.lastEventId = link.id
+			run.eventsRemoved++
+			run.endHash = link.chainHash
+			openRuns.set(`${link.organizationId ?? ''}:${link.chainHash}`, run)
+			continue
+		}
+
+		const created = {
+			organizationId: link.organizationId,
+			firstEventId: link.id,
+			lastEventId: link.id,
+			eventsRemoved: 1,
+			startHash: link.previousHash,
+			endHash: link.chainHash,
+		}
+		runs.push(created)
+		openRuns.set(`${link.organizationId ?? ''}:${link.chainHash}`, created)
+	}
+
+	if (runs.length === 0) return 0
+
+	const removedAt = new Date().toISOString()
+	await db.insert(auditIntegrityLog).values(
+		runs.map((run) => ({
+			auditLogId: run.firstEventId,
+			verificationTimestamp: removedAt,
+			verificationStatus: TOMBSTONE_STATUS,
+			verificationDetails: {
+				type: 'hash_chain_tombstone',
+				organizationId: run.organizationId,
+				reason: context.reason,
+				firstEventId: run.firstEventId,
+				lastEventId: run.lastEventId,
+				eventsRemoved: run.eventsRemoved,
+				...context.details,
+			},
+			verifiedBy: context.removedBy,
+			expectedHash: run.startHash,
+			hashVerified: run.endHash,
+		}))
+	)
+
+	return runs.length
+}
+
+/**
+ * Appends audit events to a per-organization hash chain and verifies its integrity
+ */
+export class HashChainService {
+	constructor(
+		private db: PostgresJsDatabase<any>,
+		private crypto: Pick<CryptographicService, 'generateChainHash'>
+	) {}
+
+	/**
+	 * Insert an event at the tail of its organization's chain
+	 * Appends are serialized per organization with a transaction-scoped advisory lock
+	 * so concurrent workers cannot fork the chain
+	 */
+	async appendEvent(values: ChainedAuditLogInsert): Promise<ChainedAuditLogRow> {
+		const organizationId = values.organizationId ?? null
+
+		return this.db.transaction(async (tx) => {
+			await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${this.lockKey(organizationId)}))`)
+
+			const [tail] = await tx
+				.select({ chainHash: auditLog.chainHash })
+				.from(auditLog)
+				.where(and(this.chainScope(organizationId), isNotNull(auditLog.chainHash)))
+				.orderBy(desc(auditLog.id))
+				.limit(1)
+
+			const previousHash = tail?.chainHash ?? GENESIS_CHAIN_HASH
+			const chainHash = this.crypto.generateChainHash(previousHash, values.hash ?? '')
+
+			const [row] = await tx
+				.insert(auditLog)
+				.values({ ...values, previousHash, chainHash })
+				.returning()
+
+			return row
+		})
+	}
+
+	/**
+	 * Walk the chain for an organization over a time range and report the first broken link
+	 * The outcome is recorded in audit_integrity_log against the broken (or last verified) event
+	 */
+	async verifyChain(request: HashChainVerificationRequest): Promise<HashChainVerificationResult> {
+		const batchSize = request.batchSize ?? DEFAULT_BATCH_SIZE
+		const scope = and(this.chainScope(request.organizationId), isNotNull(auditLog.chainHash))
+
+		const result: HashChainVerificationResult = {
+			verificationId: `chain-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+			verifiedAt: new Date().toISOString(),
+			verifiedBy: request.verifiedBy,
+			organizationId: request.organizationId,
+			startDate: request.startDate,
+			endDate: request.endDate,
+			eventsVerified: 0,
+			intact: true,
+			removalsBridged: 0,
+		}
+
+		// Resolve the range to id bounds so rows whose timestamps interleave at the
+		// edges of the range are still walked in chain order
+		const [bounds] = await this.db
+			.select({
+				firstId: sql<number | null>`min(${auditLog.id})`,
+				lastId: sql<number | null>`max(${auditLog.id})`,
+			})
+			.from(auditLog)
+			.where(
+				and(
+					scope,
+					gte(auditLog.timestamp, request.startDate),
+					lte(auditLog.timestamp, request.endDate)
+				)
+			)
+
+		if (!bounds?.firstId || !bounds.lastId) {
+			return result
+		}
+
+		const firstId = Number(bounds.firstId)
+		const lastId = Number(bounds.lastId)
+		result.firstEventId = firstId
+
+		// Anchor the walk to the link immediately before the range
+		const [anchor] = await this.db
+			.select({ id: auditLog.id, chainHash: auditLog.chainHash })
+			.from(auditLog)
+			.where(and(scope, lt(auditLog.id, firstId)))
+			.orderBy(desc(auditLog.id))
+			.limit(1)
+
+		const gaps = await this.loadRemovalGaps(request.organizationId, anchor?.id ?? 0, lastId)
+
+		let expectedPreviousHash = anchor?.chainHash ?? GENESIS_CHAIN_HASH
+		let cursor = firstId - 1
+
+		while (true) {
+			const rows: ChainLink[] = await this.db
+				.select({
+					id: auditLog.id,
+					timestamp: auditLog.timestamp,
+					hash: auditLog.hash,
+					previousHash: auditLog.previousHash,
+					chainHash: auditLog.chainHash,
+				})
+				.from(auditLog)
+				.where(and(scope, gt(auditLog.id, cursor), lte(auditLog.id, lastId)))
+				.orderBy(asc(auditLog.id))
+				.limit(batchSize)
+
+			if (rows.length === 0) break
+
+			const segment = this.verifySegment(rows, expectedPreviousHash, gaps)
+			result.eventsVerified += segment.linksVerified
+			result.removalsBridged += segment.removalsBridged
+			result.lastEventId = segment.lastEventId ?? result.lastEventId
+
+			if (segment.firstBreak) {
+				result.intact = false
+				result.firstBreak = segment.firstBreak
+				break
+			}
+
+			expectedPreviousHash = segment.lastChainHash
+			cursor = rows[rows.length - 1].id
+
+			if (rows.length < batchSize) break
+		}
+
+		await this.recordVerification(result)
+
+		return result
+	}
+
+	/**
+	 * Verify a contiguous, id-ordered run of links against the chain hash that precedes it
+	 * Stops at the first broken link that no documented removal accounts for
+	 * @param gaps Tombstoned removals, from the hash each gap starts at to the hashes it ends with
+	 */
+	verifySegment(
+		rows: ChainLink[],
+		expectedPreviousHash: string,
+		gaps: Map<string, string[]> = new Map()
+	): {
+		linksVerified: number
+		lastChainHash: string
+		lastEventId?: number
+		removalsBridged: number
+		firstBreak?: ChainBreak
+	} {
+		let previousHash = expectedPreviousHash
+		let linksVerified = 0
+		let lastEventId: number | undefined
+		let removalsBridged = 0
+
+		for (const row of rows) {
+			if (row.previousHash !== previousHash && row.previousHash !== null) {
+				if (this.bridgesGap(previousHash, row.previousHash, gaps)) {
+					previousHash = row.previousHash
+					removalsBridged++
+				}
+			}
+
+			if (row.previousHash !== previousHash) {
+				return {
+					linksVerified,
+					lastChainHash: previousHash,
+					lastEventId,
+					removalsBridged,
+					firstBreak: {
+						eventId: row.id,
+						timestamp: row.timestamp,
+						reason: 'previous_hash_mismatch',
+						expectedHash: previousHash,
+						actualHash: row.previousHash,
+					},
+				}
+			}
+
+			const computedHash = this.crypto.generateChainHash(previousHash, row.hash ?? '')
+			if (row.chainHash !== computedHash) {
+				return {
+					linksVerified,
+					lastChainHash: previousHash,
+					lastEventId,
+					removalsBridged,
+					firstBreak: {
+						eventId: row.id,
+						timestamp: row.timestamp,
+						reason: 'chain_hash_mismatch',
+						expectedHash: computedHash,
+						actualHash: row.chainHash,
+					},
+				}
+			}
+
+			previousHash = computedHash
+			linksVerified++
+			lastEventId = row.id
+		}
+
+		return { linksVerified, lastChainHash: previousHash, lastEventId, removalsBridged }
+	}
+
+	/**
+	 * Whether tombstones lead from one chain hash to another
+	 */
+	private bridgesGap(from: string, to: string, gaps: Map<string, string[]>): boolean {
+		const pending = [from]
+		const visited = new Set<string>()
+
+		while (pending.length > 0) {
+			const hash = pending.pop()!
+			if (visited.has(hash)) continue
+			visited.add(hash)
+
+			for (const end of gaps.get(hash) ?? []) {
+				if (end === to) return true
+				pending.push(end)
+			}
+		}
+
+		return false
+	}
+
+	/**
+	 * Load the tombstones of removals between the anchor and the end of the walk
+	 */
+	private async loadRemovalGaps(
+		organizationId: string | null,
+		afterId: number,
+		lastId: number
+	): Promise<Map<string, string[]>> {
+		const tombstoneOrganization = sql`${auditIntegrityLog.verificationDetails}->>'organizationId'`
+		const tombstones = await this.db
+			.select({
+				startHash: auditIntegrityLog.expectedHash,
+				endHash: auditIntegrityLog.hashVerified,
+			})
+			.from(auditIntegrityLog)
+			.where(
+				and(
+					eq(auditIntegrityLog.verificationStatus, TOMBSTONE_STATUS),
+					organizationId === null
+						? isNull(tombstoneOrganization)
+						: eq(tombstoneOrganization, organizationId),
+					gt(auditIntegrityLog.auditLogId, afterId),
+					lte(auditIntegrityLog.auditLogId, lastId)
+				)
+			)
+
+		const gaps = new Map<string, string[]>()
+		for (const { startHash, endHash } of tombstones) {
+			if (!startHash || !endHash) continue
+			gaps.set(startHash, [...(gaps.get(startHash) ?? []), endHash])
+		}
+		return gaps
+	}
+
+	/**
+	 * Record the verification outcome in audit_integrity_log
+	 */
+	private async recordVerification(result: HashChainVerificationResult): Promise<void> {
+		const auditLogId = result.firstBreak?.eventId ?? result.lastEventId
+		if (!auditLogId) return
+
+		await this.db.insert(auditIntegrityLog).values({
+			auditLogId,
+			verificationTimestamp: result.verifiedAt,
+			verificationStatus: result.intact ? 'success' : 'tampered',
+			verificationDetails: {
+				type: 'hash_chain',
+				verificationId: result.verificationId,
+				organizationId: result.organizationId,
+				startDate: result.startDate,
+				endDate: result.endDate,
+				eventsVerified: result.eventsVerified,
+				removalsBridged: result.removalsBridged,
+				firstEventId: result.firstEventId,
+				lastEventId: result.lastEventId,
+				reason: result.firstBreak?.reason,
+			},
+			verifiedBy: result.verifiedBy,
+			hashVerified: result.firstBreak?.actualHash ?? undefined,
+			expectedHash: result.firstBreak?.expectedHash,
+		})
+	}
+
+	private chainScope(organizationId: string | null) {
+		return organizationId === null
+			? isNull(auditLog.organizationId)
+			: eq(auditLog.organizationId, organizationId)
+	}
+
+	private lockKey(organizationId: string | null): string {
+		return `audit_chain:${organizationId ?? '__global__'}`
+	}
+}
@@ -0,0 +1,320 @@
+/**
+ * Daily Merkle checkpoints with signed roots
+ * Each organization's events for a UTC day are committed to a Merkle root that is signed
+ * (KMS or HMAC) and persisted, so a single exported event can be proven to belong to an
+ * attested day without disclosing the other events of that day
+ */
+import { and, asc, eq, gt, gte, isNotNull, lt, lte, sql } from 'drizzle-orm'
+
+import { auditIntegrityLog, auditLog, auditMerkleCheckpoint } from '@repo/audit-db'
+
+import { MerkleTree } from './merkle-tree.js'
+
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+import type { SigningAlgorithm } from '@repo/infisical-kms'
+import type { CryptographicService } from '../crypto.js'
+import type { MerkleInclusionProof } from './merkle-tree.js'
+
+/**
+ * Persisted checkpoint row
+ */
+export type MerkleCheckpoint = typeof auditMerkleCheckpoint.$inferSelect
+
+/**
+ * Inclusion proof of a single event in its day's checkpoint
+ */
+export interface EventInclusionProof {
+	eventId: number
+	eventHash: string
+	checkpoint: Omit<MerkleCheckpoint, 'createdBy'> & {
+		/** Exact payload that was signed, reproducible with MerkleCheckpointService.checkpointPayload */
+		signedPayload: string
+	}
+	proof: MerkleInclusionProof
+	/** The root recomputed from stored events matches the attested root */
+	rootMatches: boolean
+	/** The checkpoint signature is valid */
+	signatureValid: boolean
+	/** The proof path leads from the event hash to the attested root */
+	proofValid: boolean
+	verified: boolean
+}
+
+/**
+ * Outcome of checkpointing a day across organizations
+ */
+export interface DailyCheckpointSummary {
+	checkpointDate: string
+	created: MerkleCheckpoint[]
+	failed: Array<{ organizationId: string; error: string }>
+}
+
+const LEAF_BATCH_SIZE = 5000
+
+/**
+ * Creates signed daily Merkle checkpoints and serves inclusion proofs
+ */
+export class MerkleCheckpointService {
+	constructor(
+		private db: PostgresJsDatabase<any>,
+		private crypto: Pick<CryptographicService, 'generateSignature' | 'verifySignature'>
+	) {}
+
+	/**
+	 * Compute, sign and persist the checkpoint of an organization for a UTC day
+	 * Checkpoints are immutable: an existing checkpoint for the day is returned as is
+	 *
+	 * @param checkpointDate Day in YYYY-MM-DD format
+	 * @returns The checkpoint, or null when the organization has no hashed events that day
+	 */
+	async createCheckpoint(
+		organizationId: string,
+		checkpointDate: string,
+		createdBy?: string
+	): Promise<MerkleCheckpoint | null> {
+		const existing = await this.getCheckpoint(organizationId, checkpointDate)
+		if (existing) return existing
+
+		const leaves = await this.loadLeaves(organizationId, checkpointDate)
+		if (leaves.length === 0) return null
+
+		const tree = new MerkleTree(leaves.map((leaf) => leaf.hash))
+		const firstEventId = leaves[0].id
+		const lastEventId = leaves[leaves.length - 1].id
+
+		const signedPayload = this.checkpointPayload({
+			organizationId,
+			checkpointDate,
+			merkleRoot: tree.root,
+			leafCount: tree.leafCount,
+			firstEventId,
+			lastEventId,
+		})
+		const { signature, algorithm } = await this.crypto.generateSignature(signedPayload)
+
+		const [checkpoint] = await this.db
+			.insert(auditMerkleCheckpoint)
+			.values({
+				organizationId,
+				checkpointDate,
+				merkleRoot: tree.root,
+				leafCount: tree.leafCount,
+				firstEventId,
+				lastEventId,
+				signature,
+				signatureAlgorithm: algorithm,
+				createdBy,
+			})
+			.onConflictDoNothing()
+			.returning()
+
+		// Another instance checkpointed the same day concurrently
+		if (!checkpoint) {
+			return this.getCheckpoint(organizationId, checkpointDate)
+		}
+
+		await this.db.insert(auditIntegrityLog).values({
+			auditLogId: lastEventId,
+			verificationStatus: 'success',
+			verificationDetails: {
+				type: 'merkle_checkpoint',
+				checkpointId: checkpoint.id,
+				organizationId,
+				checkpointDate,
+				leafCount: tree.leafCount,
+				firstEventId,
+				lastEventId,
+				signatureAlgorithm: algorithm,
+			},
+			verifiedBy: createdBy ?? 'system',
+			hashVerified: tree.root,
+		})
+
+		return checkpoint
+	}
+
+	/**
+	 * Checkpoint every organization that stored events on the given UTC day
+	 */
+	async createDailyCheckpoints(
+		checkpointDate: string,
+		createdBy?: string
+	): Promise<DailyCheckpointSummary> {
+		const { start, end } = this.dayRange(checkpointDate)
+		const organizations = await this.db
+			.selectDistinct({ organizationId: auditLog.organizationId })
+			.from(auditLog)
+			.where(
+				and(
+					isNotNull(auditLog.organizationId),
+					isNotNull(auditLog.hash),
+					gte(auditLog.timestamp, start),
+					lt(auditLog.timestamp, end)
+				)
+			)
+
+		const summary: DailyCheckpointSummary = { checkpointDate, created: [], failed: [] }
+
+		for (const { organizationId } of organizations) {
+			try {
+				const checkpoint = await this.createCheckpoint(organizationId!, checkpointDate, createdBy)
+				if (checkpoint) summary.created.push(checkpoint)
+			} catch (error) {
+				summary.failed.push({
+					organizationId: organizationId!,
+					error: error instanceof Error ? error.message : 'Unknown error',
+				})
+			}
+		}
+
+		return summary
+	}
+
+	async getCheckpoint(
+		organizationId: string,
+		checkpointDate: string
+	): Promise<MerkleCheckpoint | null> {
+		const [checkpoint] = await this.db
+			.select()
+			.from(auditMerkleCheckpoint)
+			.where(
+				and(
+					eq(auditMerkleCheckpoint.organizationId, organizationId),
+					eq(auditMerkleCheckpoint.checkpointDate, checkpointDate)
+				)
+			)
+			.limit(1)
+
+		return checkpoint ?? null
+	}
+
+	/**
+	 * Build the inclusion proof of an event in its day's checkpoint
+	 *
+	 * @returns The proof, or null when the event is unhashed or its day has not been checkpointed yet
+	 */
+	async getInclusionProof(
+		eventId: number,
+		organizationId: string
+	): Promise<EventInclusionProof | null> {
+		const [event] = await this.db
+			.select({
+				id: auditLog.id,
+				hash: auditLog.hash,
+				eventDay: sql<string>`to_char(${auditLog.timestamp} AT TIME ZONE 'UTC', 'YYYY-MM-DD')`,
+			})
+			.from(auditLog)
+			.where(and(eq(auditLog.id, eventId), eq(auditLog.organizationId, organizationId)))
+			.limit(1)
+
+		if (!event?.hash) return null
+
+		const checkpoint = await this.getCheckpoint(organizationId, event.eventDay)
+		// Events stored after the checkpoint was taken are attested by no root
+		if (!checkpoint || event.id > checkpoint.lastEventId) return null
+
+		const leaves = await this.loadLeaves(organizationId, checkpoint.checkpointDate, {
+			firstEventId: checkpoint.firstEventId,
+			lastEventId: checkpoint.lastEventId,
+		})
+		const leafIndex = leaves.findIndex((leaf) => leaf.id === event.id)
+		if (leafIndex === -1) return null
+
+		const tree = new MerkleTree(leaves.map((leaf) => leaf.hash))
+		const proof = tree.getProof(leafIndex)
+
+		const signedPayload = this.checkpointPayload(checkpoint)
+		const signatureValid = await this.crypto.verifySignature(
+			signedPayload,
+			checkpoint.signature,
+			checkpoint.signatureAlgorithm as SigningAlgorithm
+		)
+		const rootMatches = tree.root === checkpoint.merkleRoot
+		const proofValid = MerkleTree.verifyProof(event.hash, proof.path, checkpoint.merkleRoot)
+
+		const { createdBy: _createdBy, ...attested } = checkpoint
+
+		return {
+			eventId: event.id,
+			eventHash: event.hash,
+			checkpoint: { ...attested, signedPayload },
+			proof,
+			rootMatches,
+			signatureValid,
+			proofValid,
+			verified: rootMatches && signatureValid && proofValid,
+		}
+	}
+
+	/**
+	 * Canonical payload signed for a checkpoint
+	 */
+	checkpointPayload(
+		checkpoint: Pick<
+			MerkleCheckpoint,
+			| 'organizationId'
+			| 'checkpointDate'
+			| 'merkleRoot'
+			| 'leafCount'
+			| 'firstEventId'
+			| 'lastEventId'
+		>
+	): string {
+		return [
+			'audit-merkle-checkpoint:v1',
+			checkpoint.organizationId,
+			checkpoint.checkpointDate,
+			checkpoint.merkleRoot,
+			checkpoint.leafCount,
+			checkpoint.firstEventId,
+			checkpoint.lastEventId,
+		].join('|')
+	}
+
+	/**
+	 * Load the hashed events of a day in leaf order, in batches
+	 */
+	private async loadLeaves(
+		organizationId: string,
+		checkpointDate: string,
+		bounds?: { firstEventId: number; lastEventId: number }
+	): Promise<Array<{ id: number; hash: string }>> {
+		const { start, end } = this.dayRange(checkpointDate)
+		const leaves: Array<{ id: number; hash: string }> = []
+		let cursor = bounds ? bounds.firstEventId - 1 : 0
+
+		while (true) {
+			const rows = await this.db
+				.select({ id: auditLog.id, hash: auditLog.hash })
+				.from(auditLog)
+				.where(
+					and(
+						eq(auditLog.organizationId, organizationId),
+						isNotNull(auditLog.hash),
+						gte(auditLog.timestamp, start),
+						lt(auditLog.timestamp, end),
+						gt(auditLog.id, cursor),
+						bounds ? lte(auditLog.id, bounds.lastEventId) : undefined
+					)
+				)
+				.orderBy(asc(auditLog.id))
+				.limit(LEAF_BATCH_SIZE)
+
+			for (const row of rows) leaves.push({ id: row.id, hash: row.hash! })
+
+			if (rows.length < LEAF_BATCH_SIZE) break
+			cursor = rows[rows.length - 1].id
+		}
+
+		return leaves
+	}
+
+	private dayRange(checkpointDate: string): { start: string; end: string } {
+		const start = new Date(`${checkpointDate}T00:00:00.000Z`)
+		if (Number.isNaN(start.getTime())) {
+			throw new Error(`Invalid checkpoint date: ${checkpointDate}`)
+		}
+		const end = new Date(start.getTime() + 24 * 60 * 60 * 1000)
+		return { start: start.toISOString(), end: end.toISOString() }
+	}
+}
@@ -0,0 +1,129 @@
+/**
+ * Binary Merkle tree over audit event hashes
+ * Leaves and interior nodes are domain separated (RFC 6962 style) so a leaf can never be
+ * passed off as an interior node. An odd node at any level is promoted unchanged.
+ */
+import { createHash } from 'crypto'
+
+const LEAF_PREFIX = Buffer.from([0x00])
+const NODE_PREFIX = Buffer.from([0x01])
+
+/**
+ * One step of an inclusion proof: the sibling hash and which side it sits on
+ */
+export interface MerkleProofStep {
+	position: 'left' | 'right'
+	hash: string
+}
+
+/**
+ * Inclusion proof for a single leaf
+ */
+export interface MerkleInclusionProof {
+	leafIndex: number
+	leafCount: number
+	leafHash: string
+	root: string
+	path: MerkleProofStep[]
+}
+
+export class MerkleTree {
+	private levels: string[][]
+
+	/**
+	 * @param eventHashes Event hashes in leaf order (ascending event id)
+	 */
+	constructor(eventHashes: string[]) {
+		if (eventHashes.length === 0) {
+			throw new Error('Cannot build a Merkle tree without leaves')
+		}
+
+		this.levels = [eventHashes.map((hash) => MerkleTree.hashLeaf(hash))]
+
+		while (this.levels[this.levels.length - 1].length > 1) {
+			const current = this.levels[this.levels.length - 1]
+			const next: string[] = []
+			for (let i = 0; i < current.length; i += 2) {
+				next.push(
+					i + 1 < current.length ? MerkleTree.hashNode(current[i], current[i + 1]) : current[i]
+				)
+			}
+			this.levels.push(next)
+		}
+	}
+
+	get root(): string {
+		return this.levels[this.levels.length - 1][0]
+	}
+
+	get leafCount(): number {
+		return this.levels[0].length
+	}
+
+	/**
+	 * Build the inclusion proof for the leaf at the given index
+	 */
+	getProof(leafIndex: number): MerkleInclusionProof {
+		if (leafIndex < 0 || leafIndex >= this.leafCount) {
+			throw new Error(`Leaf index ${leafIndex} is out of range`)
+		}
+
+		const path: MerkleProofStep[] = []
+		let index = leafIndex
+
+		for (let level = 0; level < this.levels.length - 1; level++) {
+			const nodes = this.levels[level]
+			const siblingIndex = index % 2 === 0 ? index + 1 : index - 1
+
+			// A promoted node has no sibling at this level
+			if (siblingIndex < nodes.length) {
+				path.push({
+					position: index % 2 === 0 ? 'right' : 'left',
+					hash: nodes[siblingIndex],
+				})
+			}
+			index = Math.floor(index / 2)
+		}
+
+		return {
+			leafIndex,
+			leafCount: this.leafCount,
+			leafHash: this.levels[0][leafIndex],
+			root: this.root,
+			path,
+		}
+	}
+
+	/**
+	 * Hash an event hash into a leaf: SHA-256(0x00 || eventHash)
+	 */
+	static hashLeaf(eventHash: string): string {
+		return createHash('sha256').update(LEAF_PREFIX).update(eventHash, 'utf8').digest('hex')
+	}
+
+	/**
+	 * Hash two child nodes: SHA-256(0x01 || left || right)
+	 */
+	static hashNode(left: string, right: string): string {
+		return createHash('sha256')
+			.update(NODE_PREFIX)
+			.update(left, 'utf8')
+			.update(right, 'utf8')
+			.digest('hex')
+	}
+
+	/**
+	 * Check an inclusion proof for an event hash against an expected root
+	 * Needs nothing but the event hash, the proof path and the attested root
+	 */
+	static verifyProof(eventHash: string, path: MerkleProofStep[], root: string): boolean {
+		let computed = MerkleTree.hashLeaf(eventHash)
+		for (const step of path) {
+			computed =
+				step.position === 'left'
+					? MerkleTree.hashNode(step.hash, computed)
+					: MerkleTree.hashNode(computed, step.hash)
+		}
+		return computed === root
+	}
+}
@@ -0,0 +1,381 @@
+/**
+ * @fileoverview Legal Holds
+ *
+ * A legal hold preserves the audit events of an organization under litigation or
+ * investigation. Its scope narrows the events it covers by principal, target resource
+ * and date range; scope fields left empty match every event.
+ *
+ * Destructive operations (retention deletes, GDPR erasure and pseudonymization, secure
+ * deletion, archive cleanup and dropping expired partitions) consult the active holds,
+ * leave the covered events in place and record what they were kept from destroying in
+ * legal_hold_blocked_action.
+ */
+import { randomUUID } from 'crypto'
+import { and, desc, eq, exists, gte, isNull, lte, not, or, sql } from 'drizzle-orm'
+
+import { auditLog, legalHold, legalHoldBlockedAction } from '@repo/audit-db'
+
+import type { SQL } from 'drizzle-orm'
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+
+export type LegalHoldStatus = 'active' | 'released'
+
+/**
+ * Destructive operations legal holds are enforced on
+ */
+export type LegalHoldOperation =
+	| 'retention.delete'
+	| 'gdpr.erasure'
+	| 'gdpr.pseudonymize'
+	| 'archive.secure_delete'
+	| 'archive.cleanup'
+	| 'partition.drop'
+
+/**
+ * Events a hold covers within its organization, empty fields match every event
+ */
+export interface LegalHoldScope {
+	principalId?: string | null
+	targetResourceType?: string | null
+	targetResourceId?: string | null
+	/** Covers events at or after this time */
+	startDate?: string | null
+	/** Covers events at or before this time */
+	endDate?: string | null
+}
+
+export interface LegalHold extends LegalHoldScope {
+	id: string
+	organizationId: string
+	name: string
+	reason: string
+	/** Person accountable for the hold */
+	custodian: string
+	/** Matter or investigation reference */
+	caseReference?: string | null
+	status: LegalHoldStatus
+	createdAt: string
+	createdBy: string
+	releasedAt?: string | null
+	releasedBy?: string | null
+	releaseReason?: string | null
+}
+
+export type LegalHoldInput = Pick<LegalHold, 'name' | 'reason' | 'custodian' | 'caseReference'> &
+	LegalHoldScope
+
+/**
+ * Destructive operation stopped or narrowed by legal holds
+ */
+export interface LegalHoldBlockedAction {
+	id: number
+	organizationId: string | null
+	operation: LegalHoldOperation
+	holdIds: string[]
+	recordsBlocked: number
+	requestedBy?: string | null
+	details?: Record<string, unknown> | null
+	blockedAt: string
+}
+
+/**
+ * Context of a destructive operation, recorded with the events it was kept from destroying
+ */
+export interface LegalHoldEnforcementContext {
+	requestedBy?: string
+	details?: Record<string, unknown>
+}
+
+/**
+ * Outcome of enforcing legal holds on a destructive operation
+ */
+export interface LegalHoldEnforcement<T> {
+	/** What the operation may still destroy */
+	releasable: T
+	/** Events kept by the holds */
+	recordsHeld: number
+	holdIds: string[]
+}
+
+/**
+ * Audit event fields matched against hold scopes
+ */
+export interface LegalHoldEventFields {
+	organizationId?: string | null
+	principalId?: string | null
+	targetResourceType?: string | null
+	targetResourceId?: string | null
+	timestamp?: string | null
+}
+
+/**
+ * Whether an active hold covers an event
+ */
+export function legalHoldCovers(hold: LegalHold, event: LegalHoldEventFields): boolean {
+	if (hold.status !== 'active' || hold.organizationId !== event.organizationId) {
+		return false
+	}
+	if (hold.principalId && hold.principalId !== event.principalId) return false
+	if (hold.targetResourceType && hold.targetResourceType !== event.targetResourceType) return false
+	if (hold.targetResourceId && hold.targetResourceId !== event.targetResourceId) return false
+
+	if (hold.startDate || hold.endDate) {
+		const time = event.timestamp ? new Date(event.timestamp).getTime() : NaN
+		// Events without a usable timestamp cannot be ruled out of the date range
+		if (!Number.isNaN(time)) {
+			if (hold.startDate && time < new Date(hold.startDate).getTime()) return false
+			if (hold.endDate && time > new Date(hold.endDate).getTime()) return false
+		}
+	}
+
+	return true
+}
+
+/**
+ * Manages legal holds and enforces them on destructive operations
+ */
+export class LegalHoldService {
+	constructor(private db: PostgresJsDatabase<any>) {}
+
+	async createHold(
+		organizationId: string,
+		input: LegalHoldInput,
+		createdBy: string
+	): Promise<LegalHold> {
+		const [row] = await this.db
+			.insert(legalHold)
+			.values({ id: randomUUID(), organizationId, ...input, createdBy })
+			.returning()
+		return row
+	}
+
+	/**
+	 * Release an active hold of an organization
+	 *
+	 * @returns The released hold, or null when the organization has no such active hold
+	 */
+	async releaseHold(
+		organizationId: string,
+		id: string,
+		releasedBy: string,
+		releaseReason?: string
+	): Promise<LegalHold | null> {
+		const [row] = await this.db
+			.update(legalHold)
+			.set({
+				status: 'released',
+				releasedAt: new Date().toISOString(),
+				releasedBy,
+				releaseReason,
+			})
+			.where(
+				and(
+					eq(legalHold.id, id),
+					eq(legalHold.organizationId, organizationId),
+					eq(legalHold.status, 'active')
+				)
+			)
+			.returning()
+		return row ?? null
+	}
+
+	async getHold(organizationId: string, id: string): Promise<LegalHold | null> {
+		const [row] = await this.db
+			.select()
+			.from(legalHold)
+			.where(and(eq(legalHold.id, id), eq(legalHold.organizationId, organizationId)))
+		return row ?? null
+	}
+
+	/**
+	 * List the holds of an organization, most recent first
+	 */
+	async listHolds(organizationId: string, status?: LegalHoldStatus): Promise<LegalHold[]> {
+		return this.db
+			.select()
+			.from(legalHold)
+			.where(
+				and(
+					eq(legalHold.organizationId, organizationId),
+					status ? eq(legalHold.status, status) : undefined
+				)
+			)
+			.orderBy(desc(legalHold.createdAt))
+	}
+
+	/**
+	 * Active holds of an organization, or of every organization
+	 */
+	async getActiveHolds(organizationId?: string): Promise<LegalHold[]> {
+		return this.db
+			.select()
+			.from(legalHold)
+			.where(
+				and(
+					eq(legalHold.status, 'active'),
+					organizationId ? eq(legalHold.organizationId, organizationId) : undefined
+				)
+			)
+	}
+
+	/**
+	 * Operations blocked by the holds of an organization, most recent first
+	 */
+	async listBlockedActions(organizationId: string, limit = 100): Promise<LegalHoldBlockedAction[]> {
+		const rows = await this.db
+			.select()
+			.from(legalHoldBlockedAction)
+			.where(eq(legalHoldBlockedAction.organizationId, organizationId))
+			.orderBy(desc(legalHoldBlockedAction.blockedAt))
+			.limit(limit)
+		return rows as LegalHoldBlockedAction[]
+	}
+
+	/**
+	 * Condition matching audit_log rows covered by an active hold
+	 */
+	heldEventCondition(): SQL {
+		return exists(this.db.select({ id: legalHold.id }).from(legalHold).where(this.coversEvent()))
+	}
+
+	/**
+	 * Narrow a destructive operation on audit_log to the events no active hold covers
+	 * The covered events are recorded as blocked, per organization.
+	 *
+	 * @param operation Operation being performed
+	 * @param criteria Events the operation targets
+	 * @param context Who performs the operation and why
+	 * @returns The condition selecting the events the operation may destroy
+	 */
+	async enforceOnEvents(
+		operation: LegalHoldOperation,
+		criteria: SQL | undefined,
+		context: LegalHoldEnforcementContext = {}
+	): Promise<LegalHoldEnforcement<SQL>> {
+		const held = await this.db
+			.select({
+				organizationId: auditLog.organizationId,
+				holdIds: sql<string[]>`array_agg(distinct ${legalHold.id})`,
+				events: sql<number>`count(distinct ${auditLog.id})`,
+			})
+			.from(auditLog)
+			.innerJoin(legalHold, this.coversEvent())
+			.where(criteria)
+			.groupBy(auditLog.organizationId)
+
+		const releasable = and(criteria, not(this.heldEventCondition()))!
+		const blocked = held.map((row) => ({
+			organizationId: row.organizationId,
+			holdIds: row.holdIds,
+			recordsBlocked: Number(row.events),
+		}))
+		await this.recordBlocked(operation, blocked, context)
+
+		return {
+			releasable,
+			recordsHeld: blocked.reduce((total, row) => total + row.recordsBlocked, 0),
+			holdIds: blocked.flatMap((row) => row.holdIds),
+		}
+	}
+
+	/**
+	 * Count the events matching the criteria that an active hold covers
+	 */
+	async countHeldEvents(criteria: SQL | undefined): Promise<number> {
+		const [row] = await this.db
+			.select({ events: sql<number>`count(distinct ${auditLog.id})` })
+			.from(auditLog)
+			.innerJoin(legalHold, this.coversEvent())
+			.where(criteria)
+
+		return Number(row?.events ?? 0)
+	}
+
+	/**
+	 * Split records a destructive operation selected into those it may destroy and
+	 * those an active hold covers, recording the covered ones as blocked
+	 *
+	 * @param operation Operation being performed
+	 * @param records Audit records the operation targets
+	 * @param context Who performs the operation and why
+	 * @returns The records the operation may destroy
+	 */
+	async enforceOnRecords<T extends LegalHoldEventFields>(
+		operation: LegalHoldOperation,
+		records: T[],
+		context: LegalHoldEnforcementContext = {}
+	): Promise<LegalHoldEnforcement<T[]>> {
+		if (records.length === 0) {
+			return { releasable: records, recordsHeld: 0, holdIds: [] }
+		}
+
+		const holds = await this.getActiveHolds()
+		const releasable: T[] = []
+		const blocked = new Map<string, { holdIds: Set<string>; recordsBlocked: number }>()
+
+		for (const record of records) {
+			const covering = holds.filter((hold) => legalHoldCovers(hold, record))
+			if (covering.length === 0) {
+				releasable.push(record)
+				continue
+			}
+
+			const organizationId = covering[0]!.organizationId
+			const entry = blocked.get(organizationId) ?? { holdIds: new Set(), recordsBlocked: 0 }
+			covering.forEach((hold) => entry.holdIds.add(hold.id))
+			entry.recordsBlocked++
+			blocked.set(organizationId, entry)
+		}
+
+		const rows = [...blocked].map(([organizationId, entry]) => ({
+			organizationId,
+			holdIds: [...entry.holdIds],
+			recordsBlocked: entry.recordsBlocked,
+		}))
+		await this.recordBlocked(operation, rows, context)
+
+		return {
+			releasable,
+			recordsHeld: records.length - releasable.length,
+			holdIds: rows.flatMap((row) => row.holdIds),
+		}
+	}
+
+	private async recordBlocked(
+		operation: LegalHoldOperation,
+		rows: Array<{ organizationId: string | null; holdIds: string[]; recordsBlocked: number }>,
+		context: LegalHoldEnforcementContext
+	): Promise<void> {
+		if (rows.length === 0) return
+
+		await this.db.insert(legalHoldBlockedAction).values(
+			rows.map((row) => ({
+				...row,
+				operation,
+				requestedBy: context.requestedBy,
+				details: context.details,
+			}))
+		)
+	}
+
+	/**
+	 * Join condition of an active hold covering an audit_log row
+	 */
+	private coversEvent(): SQL {
+		return and(
+			eq(legalHold.status, 'active'),
+			eq(legalHold.organizationId, auditLog.organizationId),
+			or(isNull(legalHold.principalId), eq(legalHold.principalId, auditLog.principalId)),
+			or(
+				isNull(legalHold.targetResourceType),
+				eq(legalHold.targetResourceType, auditLog.targetResourceType)
+			),
+			or(
+				isNull(legalHold.targetResourceId),
+				eq(legalHold.targetResourceId, auditLog.targetResourceId)
+			),
+			or(isNull(legalHold.startDate), gte(auditLog.timestamp, legalHold.startDate)),
+			or(isNull(legalHold.endDate), lte(auditLog.timestamp, legalHold.endDate))
+		)!
+	}
+}
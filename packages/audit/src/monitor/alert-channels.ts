@@ -0,0 +1,407 @@
+/**
+ * @fileoverview Alert Notification Channels
+ *
+ * Channels deliver an alert to one external destination and report the outcome:
+ * - Slack-compatible incoming webhooks
+ * - Generic JSON webhooks, HMAC-signed like report deliveries
+ * - Email through the organization's @repo/mailer provider
+ * - PagerDuty-style events API (v2 enqueue)
+ * - ntfy topics
+ *
+ * Channels throw on failure, so every delivery is either confirmed or reported.
+ */
+
+import { randomUUID } from 'crypto'
+
+import {
+	signWebhookPayload,
+	WEBHOOK_SIGNATURE_HEADER,
+	WEBHOOK_TIMESTAMP_HEADER,
+} from '../report/report-delivery.js'
+
+import type { ReportMailerResolver } from '../report/report-delivery.js'
+import type { Alert, AlertSeverity } from './monitoring-types.js'
+
+export type AlertChannelType = 'slack' | 'webhook' | 'email' | 'pagerduty' | 'ntfy'
+
+interface AlertChannelBaseConfig {
+	/** Display name of the channel, defaults to its type */
+	name?: string
+	/** Request timeout in milliseconds */
+	timeout?: number
+}
+
+export interface SlackAlertChannelConfig extends AlertChannelBaseConfig {
+	type: 'slack'
+	webhookUrl: string
+	/** Overrides the channel of the incoming webhook */
+	channel?: string
+	username?: string
+}
+
+export interface WebhookAlertChannelConfig extends AlertChannelBaseConfig {
+	type: 'webhook'
+	url: string
+	/** Signs the body with HMAC-SHA256 when set */
+	secret?: string
+	headers?: Record<string, string>
+}
+
+export interface EmailAlertChannelConfig extends AlertChannelBaseConfig {
+	type: 'email'
+	recipients: string[]
+}
+
+export interface PagerDutyAlertChannelConfig extends AlertChannelBaseConfig {
+	type: 'pagerduty'
+	routingKey: string
+	/** Events API endpoint, defaults to PagerDuty's */
+	url?: string
+}
+
+export interface NtfyAlertChannelConfig extends AlertChannelBaseConfig {
+	type: 'ntfy'
+	url: string
+	/** Topic to publish to, defaults to the organization of the alert */
+	topic?: string
+	/** Bearer access token */
+	token?: string
+}
+
+/**
+ * Configuration of a channel, as stored in routing rules
+ */
+export type AlertChannelConfig =
+	| SlackAlertChannelConfig
+	| WebhookAlertChannelConfig
+	| EmailAlertChannelConfig
+	| PagerDutyAlertChannelConfig
+	| NtfyAlertChannelConfig
+
+/**
+ * What the destination answered to a delivery
+ */
+export interface AlertChannelResponse {
+	responseCode?: number
+}
+
+/**
+ * A destination alerts can be delivered to
+ */
+export interface AlertChannel {
+	readonly type: AlertChannelType
+	readonly name: string
+	send(alert: Alert): Promise<AlertChannelResponse>
+}
+
+/**
+ * Delivery through a channel failed
+ */
+export class AlertChannelError extends Error {
+	constructor(
+		message: string,
+		public readonly responseCode?: number
+	) {
+		super(message)
+		this.name = 'AlertChannelError'
+	}
+}
+
+/**
+ * Dependencies channels resolve per organization
+ */
+export interface AlertChannelContext {
+	mailerResolver?: ReportMailerResolver
+}
+
+export const DEFAULT_PAGERDUTY_EVENTS_URL = 'https://events.pagerduty.com/v2/enqueue'
+const DEFAULT_TIMEOUT = 10000
+
+const SLACK_COLORS: Record<AlertSeverity, string> = {
+	LOW: '#439fe0',
+	MEDIUM: '#daa038',
+	HIGH: '#e8590c',
+	CRITICAL: '#d00000',
+}
+
+const PAGERDUTY_SEVERITIES: Record<AlertSeverity, 'info' | 'warning' | 'error' | 'critical'> = {
+	LOW: 'info',
+	MEDIUM: 'warning',
+	HIGH: 'error',
+	CRITICAL: 'critical',
+}
+
+const NTFY_PRIORITIES: Record<AlertSeverity, string> = {
+	LOW: '2',
+	MEDIUM: '3',
+	HIGH: '4',
+	CRITICAL: '5',
+}
+
+/**
+ * Slack-compatible incoming webhook
+ */
+export class SlackAlertChannel implements AlertChannel {
+	readonly type = 'slack'
+	readonly name: string
+
+	constructor(private config: SlackAlertChannelConfig) {
+		this.name = config.name || 'slack'
+	}
+
+	async send(alert: Alert): Promise<AlertChannelResponse> {
+		return postJson(
+			this.config.webhookUrl,
+			{
+				text: `[${alert.severity}] ${alert.title}`,
+				...(this.config.channel && { channel: this.config.channel }),
+				...(this.config.username && { username: this.config.username }),
+				attachments: [
+					{
+						color: SLACK_COLORS[alert.severity],
+						title: alert.title,
+						text: alert.description,
+						fields: [
+							{ title: 'Severity', value: alert.severity, short: true },
+							{ title: 'Type', value: alert.type, short: true },
+							{ title: 'Source', value: alert.source, short: true },
+							{ title: 'Alert', value: alert.id, short: true },
+						],
+						ts: Math.floor(new Date(alert.timestamp).getTime() / 1000),
+					},
+				],
+			},
+			{},
+			this.config.timeout
+		)
+	}
+}
+
+/**
+ * Generic JSON webhook
+ * Bodies are signed like report webhooks, so receivers can verify them with verifyWebhookSignature.
+ */
+export class WebhookAlertChannel implements AlertChannel {
+	readonly type = 'webhook'
+	readonly name: string
+
+	constructor(private config: WebhookAlertChannelConfig) {
+		this.name = config.name || 'webhook'
+	}
+
+	async send(alert: Alert): Promise<AlertChannelResponse> {
+		const deliveryId = randomUUID()
+		const body = JSON.stringify({ event: 'alert.triggered', deliveryId, alert })
+		const headers: Record<string, string> = {
+			...this.config.headers,
+			'X-Audit-Delivery-Id': deliveryId,
+		}
+
+		if (this.config.secret) {
+			const timestamp = Math.floor(Date.now() / 1000).toString()
+			headers[WEBHOOK_TIMESTAMP_HEADER] = timestamp
+			headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(this.config.secret, timestamp, body)
+		}
+
+		return post(
+			this.config.url,
+			body,
+			{ ...headers, 'Content-Type': 'application/json' },
+			this.config.timeout
+		)
+	}
+}
+
+/**
+ * Email through the mail provider of the alert's organization
+ */
+export class EmailAlertChannel implements AlertChannel {
+	readonly type = 'email'
+	readonly name: string
+
+	constructor(
+		private config: EmailAlertChannelConfig,
+		private mailerResolver?: ReportMailerResolver
+	) {
+		this.name = config.name || 'email'
+	}
+
+	async send(alert: Alert): Promise<AlertChannelResponse> {
+		const recipients = this.config.recipients.filter(Boolean)
+		if (recipients.length === 0) {
+			throw new AlertChannelError('No email recipients configured')
+		}
+
+		const organizationId = alert.metadata.organizationId as string | undefined
+		const transport =
+			this.mailerResolver && organizationId ? await this.mailerResolver(organizationId) : null
+		if (!transport) {
+			throw new AlertChannelError('No email provider configured')
+		}
+
+		await transport.mailer.send({
+			from: transport.from,
+			to: recipients,
+			subject: `[${alert.severity}] ${alert.title}`,
+			html: renderEmailHtml(alert),
+			text: renderEmailText(alert),
+		})
+		return {}
+	}
+}
+
+/**
+ * PagerDuty-style events API
+ * The alert id is the dedup key, so repeated deliveries update one incident.
+ */
+export class PagerDutyAlertChannel implements AlertChannel {
+	readonly type = 'pagerduty'
+	readonly name: string
+
+	constructor(private config: PagerDutyAlertChannelConfig) {
+		this.name = config.name || 'pagerduty'
+	}
+
+	async send(alert: Alert): Promise<AlertChannelResponse> {
+		return postJson(
+			this.config.url || DEFAULT_PAGERDUTY_EVENTS_URL,
+			{
+				routing_key: this.config.routingKey,
+				event_action: 'trigger',
+				dedup_key: alert.id,
+				payload: {
+					summary: alert.title,
+					source: alert.source,
+					severity: PAGERDUTY_SEVERITIES[alert.severity],
+					timestamp: alert.timestamp,
+					group: alert.metadata.organizationId,
+					class: alert.type,
+					custom_details: {
+						description: alert.description,
+						...alert.metadata,
+					},
+				},
+			},
+			{},
+			this.config.timeout
+		)
+	}
+}
+
+/**
+ * ntfy topic
+ */
+export class NtfyAlertChannel implements AlertChannel {
+	readonly type = 'ntfy'
+	readonly name: string
+
+	constructor(private config: NtfyAlertChannelConfig) {
+		this.name = config.name || 'ntfy'
+	}
+
+	async send(alert: Alert): Promise<AlertChannelResponse> {
+		const topic = this.config.topic || alert.metadata.organizationId
+		if (!topic) {
+			throw new AlertChannelError('No ntfy topic for alert without organization')
+		}
+
+		return post(
+			`${this.config.url.replace(/\/+$/, '')}/${encodeURIComponent(topic)}`,
+			alert.description,
+			{
+				...(this.config.token && { Authorization: `Bearer ${this.config.token}` }),
+				Title: alert.title,
+				Priority: NTFY_PRIORITIES[alert.severity],
+				Tags: `warning,${alert.type},${alert.severity},${alert.source}`,
+			},
+			this.config.timeout
+		)
+	}
+}
+
+/**
+ * Create the channel described by a configuration
+ */
+export function createAlertChannel(
+	config: AlertChannelConfig,
+	context: AlertChannelContext = {}
+): AlertChannel {
+	switch (config.type) {
+		case 'slack':
+			return new SlackAlertChannel(config)
+		case 'webhook':
+			return new WebhookAlertChannel(config)
+		case 'email':
+			return new EmailAlertChannel(config, context.mailerResolver)
+		case 'pagerduty':
+			return new PagerDutyAlertChannel(config)
+		case 'ntfy':
+			return new NtfyAlertChannel(config)
+		default:
+			throw new AlertChannelError(
+				`Unsupported alert channel type: ${(config as AlertChannelConfig).type}`
+			)
+	}
+}
+
+async function postJson(
+	url: string,
+	body: unknown,
+	headers: Record<string, string>,
+	timeout?: number
+): Promise<AlertChannelResponse> {
+	return post(
+		url,
+		JSON.stringify(body),
+		{ ...headers, 'Content-Type': 'application/json' },
+		timeout
+	)
+}
+
+async function post(
+	url: string,
+	body: string,
+	headers: Record<string, string>,
+	timeout = DEFAULT_TIMEOUT
+): Promise<AlertChannelResponse> {
+	const response = await fetch(url, {
+		method: 'POST',
+		headers,
+		body,
+		signal: AbortSignal.timeout(timeout),
+	})
+
+	if (!response.ok) {
+		throw new AlertChannelError(
+			`Channel responded with ${response.status} ${response.statusText}`,
+			response.status
+		)
+	}
+	return { responseCode: response.status }
+}
+
+function renderEmailText(alert: Alert): string {
+	return [
+		alert.description,
+		'',
+		`Severity: ${alert.severity}`,
+		`Type: ${alert.type}`,
+		`Source: ${alert.source}`,
+		`Time: ${alert.timestamp}`,
+		`Alert: ${alert.id}`,
+	].join('\n')
+}
+
+function renderEmailHtml(alert: Alert): string {
+	const escape = (value: string) =>
+		value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+	return `<p>${escape(alert.description)}</p>
+<table>
+  <tr><td>Severity</td><td>${escape(alert.severity)}</td></tr>
+  <tr><td>Type</td><td>${escape(alert.type)}</td></tr>
+  <tr><td>Source</td><td>${escape(alert.source)}</td></tr>
+  <tr><td>Time</td><td>${escape(alert.timestamp)}</td></tr>
+  <tr><td>Alert</td><td><code>${escape(alert.id)}</code></td></tr>
+</table>`
+}
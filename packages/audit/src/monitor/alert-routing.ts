@@ -0,0 +1,422 @@
+/**
+ * @fileoverview Alert Routing
+ *
+ * Routes alerts to the notification channels an organization configured:
+ * - Rules match alerts by severity and type; empty lists match everything
+ * - Every matching rule delivers through its own channel, in parallel
+ * - Alerts no rule matches go to the default channels of the monitoring config
+ * - The outcome of each delivery is recorded in alert_deliveries
+ * - Channel secrets are masked when rules are returned to clients
+ */
+
+import { randomUUID } from 'crypto'
+import { and, asc, desc, eq } from 'drizzle-orm'
+
+import { alertDeliveries, alertRoutingRules } from '@repo/audit-db'
+
+import { AlertChannelError, createAlertChannel } from './alert-channels.js'
+
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+import type { MonitoringConfig } from '../config/types.js'
+import type { ReportMailerResolver } from '../report/report-delivery.js'
+import type { AlertChannelConfig, AlertChannelType } from './alert-channels.js'
+import type { Alert, AlertSeverity, AlertType } from './monitoring-types.js'
+
+/**
+ * Rule sending an organization's alerts to a channel
+ */
+export interface AlertRoutingRule {
+	id: string
+	organizationId: string
+	name: string
+	/** Severities routed by the rule, all when empty */
+	severities: AlertSeverity[]
+	/** Alert types routed by the rule, all when empty */
+	types: AlertType[]
+	channel: AlertChannelConfig
+	enabled: boolean
+	createdAt?: string
+	createdBy?: string
+	updatedAt?: string
+	updatedBy?: string
+}
+
+export type AlertRoutingRuleInput = Pick<
+	AlertRoutingRule,
+	'name' | 'severities' | 'types' | 'channel' | 'enabled'
+>
+
+/**
+ * Outcome of delivering an alert through one channel
+ */
+export interface AlertDeliveryResult {
+	id: string
+	alertId: string
+	organizationId: string
+	/** Rule that selected the channel, null for default channels */
+	ruleId: string | null
+	channelType: AlertChannelType
+	channelName: string
+	status: 'delivered' | 'failed'
+	responseCode?: number
+	responseTime: number
+	error?: string
+	attemptedAt: string
+}
+
+/**
+ * Source of routing rules and sink of delivery results
+ */
+export interface AlertRoutingStore {
+	getEnabledRules(organizationId: string): Promise<AlertRoutingRule[]>
+	recordDeliveries(results: AlertDeliveryResult[]): Promise<void>
+}
+
+export interface AlertRouterOptions {
+	store?: AlertRoutingStore
+	/** Channels used for alerts no rule matches */
+	defaultChannels?: AlertChannelConfig[]
+	mailerResolver?: ReportMailerResolver
+}
+
+/** Channel fields holding credentials: webhook signing secret, PagerDuty routing key, ntfy token */
+const CHANNEL_SECRET_FIELDS = ['secret', 'routingKey', 'token'] as const
+/** Channel URLs that are credentials themselves: Slack incoming webhook */
+const CHANNEL_SECRET_URL_FIELDS = ['webhookUrl'] as const
+const SECRET_MASK = '************'
+
+function maskSecret(value: string): string {
+	return `${SECRET_MASK}${value.slice(-4)}`
+}
+
+/**
+ * URL masked but its origin, so the masked form still validates as a URL
+ */
+function maskSecretUrl(value: string): string {
+	try {
+		return `${new URL(value).origin}/${maskSecret(value)}`
+	} catch {
+		return maskSecret(value)
+	}
+}
+
+/**
+ * Channel with its credentials masked, only the last 4 characters stay visible
+ * Every webhook header value is masked, as headers usually carry authorization.
+ */
+export function maskChannelSecrets(channel: AlertChannelConfig): AlertChannelConfig {
+	const masked: Record<string, unknown> = { ...channel }
+	for (const field of CHANNEL_SECRET_FIELDS) {
+		const value = masked[field]
+		if (typeof value === 'string' && value) masked[field] = maskSecret(value)
+	}
+	for (const field of CHANNEL_SECRET_URL_FIELDS) {
+		const value = masked[field]
+		if (typeof value === 'string' && value) masked[field] = maskSecretUrl(value)
+	}
+	if (channel.type === 'webhook' && channel.headers) {
+		masked.headers = Object.fromEntries(
+			Object.entries(channel.headers).map(([name, value]) => [name, value && maskSecret(value)])
+		)
+	}
+	return masked as unknown as AlertChannelConfig
+}
+
+/**
+ * Rule as returned to clients, with the credentials of its channel masked
+ */
+export function maskRoutingRule(rule: AlertRoutingRule): AlertRoutingRule {
+	return { ...rule, channel: maskChannelSecrets(rule.channel) }
+}
+
+/**
+ * Put back the stored credentials a client sent in their masked form,
+ * so a rule saved without retyping its secrets keeps them
+ */
+function restoreChannelSecrets(
+	channel: AlertChannelConfig,
+	stored: AlertChannelConfig
+): AlertChannelConfig {
+	if (channel.type !== stored.type) return channel
+
+	const masked: Record<string, unknown> = { ...maskChannelSecrets(stored) }
+	const restored: Record<string, unknown> = { ...channel }
+	for (const field of [...CHANNEL_SECRET_FIELDS, ...CHANNEL_SECRET_URL_FIELDS]) {
+		if (restored[field] !== undefined && restored[field] === masked[field]) {
+			restored[field] = (stored as unknown as Record<string, unknown>)[field]
+		}
+	}
+	if (channel.type === 'webhook' && stored.type === 'webhook' && channel.headers) {
+		const maskedHeaders = (masked.headers ?? {}) as Record<string, string>
+		restored.headers = Object.fromEntries(
+			Object.entries(channel.headers).map(([name, value]) => [
+				name,
+				stored.headers?.[name] !== undefined && value === maskedHeaders[name]
+					? stored.headers[name]
+					: value,
+			])
+		)
+	}
+	return restored as unknown as AlertChannelConfig
+}
+
+/**
+ * Whether a rule routes an alert
+ */
+export function matchesRoutingRule(rule: AlertRoutingRule, alert: Alert): boolean {
+	return (
+		rule.enabled &&
+		(rule.severities.length === 0 || rule.severities.includes(alert.severity)) &&
+		(rule.types.length === 0 || rule.types.includes(alert.type))
+	)
+}
+
+/**
+ * Default channels described by the legacy notification settings of the monitoring config
+ */
+export function notificationChannels(
+	notification: MonitoringConfig['notification']
+): AlertChannelConfig[] {
+	if (!notification?.enabled) return []
+
+	const { url, credentials, channels } = notification
+	switch (notification.provider) {
+		case 'push':
+			return url ? [{ type: 'ntfy', url, token: credentials?.secret }] : []
+		case 'slack':
+			return (channels?.slack?.length ? channels.slack : url ? [url] : []).map((webhookUrl) => ({
+				type: 'slack',
+				webhookUrl,
+			}))
+		case 'webhook':
+			return (channels?.webhook?.length ? channels.webhook : url ? [url] : []).map(
+				(webhookUrl) => ({ type: 'webhook', url: webhookUrl, secret: credentials?.secret })
+			)
+		case 'email':
+			return channels?.email?.length ? [{ type: 'email', recipients: channels.email }] : []
+		default:
+			return []
+	}
+}
+
+/**
+ * Alert Router
+ */
+export class AlertRouter {
+	constructor(private options: AlertRouterOptions = {}) {}
+
+	/**
+	 * Deliver an alert through every channel routed to it
+	 * Channel failures are returned and recorded with their error rather than thrown.
+	 */
+	async dispatch(alert: Alert): Promise<AlertDeliveryResult[]> {
+		const organizationId = alert.metadata.organizationId as string | undefined
+		const rules =
+			organizationId && this.options.store
+				? (await this.options.store.getEnabledRules(organizationId)).filter((rule) =>
+						matchesRoutingRule(rule, alert)
+					)
+				: []
+
+		const targets =
+			rules.length > 0
+				? rules.map((rule) => ({ ruleId: rule.id, channel: rule.channel }))
+				: (this.options.defaultChannels ?? []).map((channel) => ({ ruleId: null, channel }))
+
+		const results = await Promise.all(
+			targets.map(({ ruleId, channel }) => this.deliver(alert, ruleId, channel))
+		)
+
+		if (organizationId && this.options.store && results.length > 0) {
+			await this.options.store.recordDeliveries(results)
+		}
+
+		return results
+	}
+
+	private async deliver(
+		alert: Alert,
+		ruleId: string | null,
+		config: AlertChannelConfig
+	): Promise<AlertDeliveryResult> {
+		const attemptedAt = new Date().toISOString()
+		const startTime = Date.now()
+		const result = {
+			id: randomUUID(),
+			alertId: alert.id,
+			organizationId: (alert.metadata.organizationId as string | undefined) ?? '',
+			ruleId,
+			channelType: config.type,
+			channelName: config.name || config.type,
+			attemptedAt,
+		}
+
+		try {
+			const channel = createAlertChannel(config, { mailerResolver: this.options.mailerResolver })
+			const response = await channel.send(alert)
+			return {
+				...result,
+				status: 'delivered',
+				responseCode: response.responseCode,
+				responseTime: Date.now() - startTime,
+			}
+		} catch (error) {
+			return {
+				...result,
+				status: 'failed',
+				responseCode: error instanceof AlertChannelError ? error.responseCode : undefined,
+				responseTime: Date.now() - startTime,
+				error: error instanceof Error ? error.message : String(error),
+			}
+		}
+	}
+}
+
+/**
+ * Routing rules and delivery results stored next to the alerts table
+ */
+export class DatabaseAlertRoutingStore implements AlertRoutingStore {
+	constructor(private db: PostgresJsDatabase<any>) {}
+
+	async getEnabledRules(organizationId: string): Promise<AlertRoutingRule[]> {
+		const rows = await this.db
+			.select()
+			.from(alertRoutingRules)
+			.where(
+				and(
+					eq(alertRoutingRules.organizationId, organizationId),
+					eq(alertRoutingRules.enabled, true)
+				)
+			)
+		return rows.map(toRoutingRule)
+	}
+
+	async recordDeliveries(results: AlertDeliveryResult[]): Promise<void> {
+		await this.db.insert(alertDeliveries).values(
+			results.map((result) => ({
+				...result,
+				responseCode: result.responseCode ?? null,
+				error: result.error ?? null,
+			}))
+		)
+	}
+
+	/**
+	 * List the routing rules of an organization
+	 */
+	async listRules(organizationId: string): Promise<AlertRoutingRule[]> {
+		const rows = await this.db
+			.select()
+			.from(alertRoutingRules)
+			.where(eq(alertRoutingRules.organizationId, organizationId))
+			.orderBy(asc(alertRoutingRules.createdAt))
+		return rows.map(toRoutingRule)
+	}
+
+	async createRule(
+		organizationId: string,
+		input: AlertRoutingRuleInput,
+		createdBy: string
+	): Promise<AlertRoutingRule> {
+		const [row] = await this.db
+			.insert(alertRoutingRules)
+			.values({ id: randomUUID(), organizationId, ...input, createdBy })
+			.returning()
+		return toRoutingRule(row)
+	}
+
+	/**
+	 * Update a rule of an organization
+	 * Channel secrets sent back in their masked form keep their stored value.
+	 *
+	 * @returns The updated rule, or null when the organization has no such rule
+	 */
+	async updateRule(
+		organizationId: string,
+		id: string,
+		input: Partial<AlertRoutingRuleInput>,
+		updatedBy: string
+	): Promise<AlertRoutingRule | null> {
+		const changes = { ...input }
+		if (changes.channel) {
+			const [existing] = await this.db
+				.select({ channel: alertRoutingRules.channel })
+				.from(alertRoutingRules)
+				.where(
+					and(eq(alertRoutingRules.id, id), eq(alertRoutingRules.organizationId, organizationId))
+				)
+				.limit(1)
+			if (!existing) return null
+
+			changes.channel = restoreChannelSecrets(
+				changes.channel,
+				existing.channel as AlertChannelConfig
+			)
+		}
+
+		const [row] = await this.db
+			.update(alertRoutingRules)
+			.set({ ...changes, updatedBy, updatedAt: new Date().toISOString() })
+			.where(
+				and(eq(alertRoutingRules.id, id), eq(alertRoutingRules.organizationId, organizationId))
+			)
+			.returning()
+		return row ? toRoutingRule(row) : null
+	}
+
+	async deleteRule(organizationId: string, id: string): Promise<boolean> {
+		const rows = await this.db
+			.delete(alertRoutingRules)
+			.where(
+				and(eq(alertRoutingRules.id, id), eq(alertRoutingRules.organizationId, organizationId))
+			)
+			.returning({ id: alertRoutingRules.id })
+		return rows.length > 0
+	}
+
+	/**
+	 * Delivery results of an alert, most recent first
+	 */
+	async getDeliveries(organizationId: string, alertId: string): Promise<AlertDeliveryResult[]> {
+		const rows = await this.db
+			.select()
+			.from(alertDeliveries)
+			.where(
+				and(
+					eq(alertDeliveries.organizationId, organizationId),
+					eq(alertDeliveries.alertId, alertId)
+				)
+			)
+			.orderBy(desc(alertDeliveries.attemptedAt))
+
+		return rows.map((row) => ({
+			id: row.id,
+			alertId: row.alertId,
+			organizationId: row.organizationId,
+			ruleId: row.ruleId,
+			channelType: row.channelType as AlertChannelType,
+			channelName: row.channelName,
+			status: row.status,
+			responseCode: row.responseCode ?? undefined,
+			responseTime: row.responseTime ?? 0,
+			error: row.error ?? undefined,
+			attemptedAt: row.attemptedAt,
+		}))
+	}
+}
+
+function toRoutingRule(row: typeof alertRoutingRules.$inferSelect): AlertRoutingRule {
+	return {
+		id: row.id,
+		organizationId: row.organizationId,
+		name: row.name,
+		severities: row.severities as AlertSeverity[],
+		types: row.types as AlertType[],
+		channel: row.channel as AlertChannelConfig,
+		enabled: row.enabled,
+		createdAt: row.createdAt,
+		createdBy: row.createdBy,
+		updatedAt: row.updatedAt,
+		updatedBy: row.updatedBy ?? undefined,
+	}
+}
@@ -4,6 +4,7 @@
  */
 
 import { MonitoringConfig, PatternDetectionConfig } from '../config/types.js'
+import { AlertRouter, notificationChannels } from './alert-routing.js'
 import { AlertResolution } from './database-alert-handler.js'
 import { MetricsCollector, RedisMetricsCollector } from './metrics-collector.js'
 
@@ -71,11 +72,15 @@ export class MonitoringService {
 	private alerts: Alert[] = []
 	private config: MonitoringConfig
 	private alertHandlers: AlertHandler[] = []
+	private alertRouter: AlertRouter
 	private metricsCollector: MetricsCollector
 	private logger: any
 
 	constructor(config: MonitoringConfig, metricsCollector?: MetricsCollector, logger?: any) {
 		this.config = config
+		this.alertRouter = new AlertRouter({
+			defaultChannels: notificationChannels(config.notification),
+		})
 		this.metricsCollector = metricsCollector || new RedisMetricsCollector()
 		this.logger = logger || console
 	}
@@ -106,6 +111,14 @@ export class MonitoringService {
 		this.alertHandlers.push(handler)
 	}
 
+	/**
+	 * Route notifications through per-organization rules
+	 * Without a router, notifications go to the channels of the monitoring config.
+	 */
+	setAlertRouter(router: AlertRouter): void {
+		this.alertRouter = router
+	}
+
 	/**
 	 * Send external alert
 	 */
@@ -504,37 +517,33 @@ export class MonitoringService {
 	}
 
 	/**
-	 * Send notifications based on alert severity
+	 * Send notifications through the channels routed to the alert
+	 * Organization rules apply whether or not the notification settings of the config are enabled,
+	 * those only provide the default channels.
 	 */
 	private async sendNotifications(alert: Alert): Promise<void> {
-		if (!this.config.notification.enabled) {
-			return
-		}
-
 		try {
-			// Log notification (in a real implementation, this would integrate with external systems)
-			console.info('Alert notification', {
-				alertId: alert.id,
-				severity: alert.severity,
-				title: alert.title,
-				description: alert.description,
-				source: alert.source,
-			})
-
-			// For critical alerts, you might want to send immediate notifications
 			if (alert.severity === 'CRITICAL') {
-				await this.sendCriticalAlertNotification(alert)
-			} else {
-				fetch(`${this.config.notification.url}/${alert.metadata.organizationId}`, {
-					method: 'POST', // PUT works too
-					body: alert.description,
-					headers: {
-						Authorization: `Bearer ${this.config.notification.credentials.secret}`,
-						Title: alert.title,
-						Tags: `warning,${alert.type},${alert.severity},${alert.source}`,
-					},
+				console.error('CRITICAL ALERT', {
+					alertId: alert.id,
+					title: alert.title,
+					description: alert.description,
+					source: alert.source,
+					metadata: alert.metadata,
 				})
 			}
+
+			const deliveries = await this.alertRouter.dispatch(alert)
+			for (const delivery of deliveries) {
+				if (delivery.status === 'failed') {
+					console.error('Failed to deliver alert notification', {
+						alertId: alert.id,
+						channel: delivery.channelName,
+						responseCode: delivery.responseCode,
+						error: delivery.error,
+					})
+				}
+			}
 		} catch (error) {
 			console.error('Failed to send alert notifications', {
 				alertId: alert.id,
@@ -543,31 +552,6 @@ export class MonitoringService {
 		}
 	}
 
-	/**
-	 * Send critical alert notification
-	 */
-	private async sendCriticalAlertNotification(alert: Alert): Promise<void> {
-		// This would integrate with external notification systems
-		// For now, just log at error level
-		console.error('CRITICAL ALERT', {
-			alertId: alert.id,
-			title: alert.title,
-			description: alert.description,
-			source: alert.source,
-			metadata: alert.metadata,
-		})
-		fetch(`${this.config.notification.url}/${alert.metadata.organizationId}`, {
-			method: 'POST', // PUT works too
-			body: alert.description,
-			headers: {
-				Authorization: `Bearer ${this.config.notification.credentials.secret}`,
-				Title: alert.title,
-				Priority: '5',
-				Tags: `warning,${alert.type},${alert.severity},${alert.source}`,
-			},
-		})
-	}
-
 	/**
 	 * Get current metrics
 	 */
@@ -0,0 +1,213 @@
+/**
+ * Tests for the span exporters, against a local HTTP stand-in for the tracing backend
+ */
+import { createServer } from 'http'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import {
+	createSpanExporter,
+	JaegerSpanExporter,
+	OTLPSpanExporter,
+	ZipkinSpanExporter,
+} from '../exporters.js'
+import { AuditSpan, AuditTracer } from '../tracer.js'
+
+import type { IncomingHttpHeaders, Server } from 'http'
+import type { AddressInfo } from 'net'
+
+interface ReceivedRequest {
+	url?: string
+	headers: IncomingHttpHeaders
+	body: Buffer
+}
+
+function finishedSpan(operationName = 'audit.process'): AuditSpan {
+	const span = new AuditSpan(operationName, '4bf92f3577b34da6a3ce929d0e0e4736', '00f067aa0ba902b7')
+	span.setTags({ 'service.name': 'audit-worker', 'span.kind': 'consumer', 'event.count': 3 })
+	span.log('info', 'Event stored', { eventId: 42 })
+	span.finish()
+	return span
+}
+
+describe('Span exporters', () => {
+	let server: Server
+	let endpoint: string
+	let received: ReceivedRequest[]
+	let statuses: number[]
+
+	beforeEach(async () => {
+		received = []
+		statuses = []
+		server = createServer((req, res) => {
+			const chunks: Buffer[] = []
+			req.on('data', (chunk) => chunks.push(chunk))
+			req.on('end', () => {
+				received.push({ url: req.url, headers: req.headers, body: Buffer.concat(chunks) })
+				res.statusCode = statuses.shift() ?? 200
+				res.end()
+			})
+		})
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+		endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/traces`
+	})
+
+	afterEach(async () => {
+		vi.restoreAllMocks()
+		await new Promise((resolve) => server.close(resolve))
+	})
+
+	it('should send OTLP JSON', async () => {
+		const exporter = new OTLPSpanExporter({
+			serviceName: 'audit-worker',
+			endpoint,
+			headers: { authorization: 'Bearer token' },
+		})
+
+		exporter.export(finishedSpan())
+		await exporter.flush()
+
+		expect(received).toHaveLength(1)
+		expect(received[0].headers['content-type']).toBe('application/json')
+		expect(received[0].headers.authorization).toBe('Bearer token')
+		const body = JSON.parse(received[0].body.toString())
+		expect(body.resourceSpans[0].resource.attributes).toContainEqual({
+			key: 'service.name',
+			value: { stringValue: 'audit-worker' },
+		})
+		const span = body.resourceSpans[0].scopeSpans[0].spans[0]
+		expect(span).toMatchObject({
+			traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+			parentSpanId: '00f067aa0ba902b7',
+			name: 'audit.process',
+			kind: 5,
+			status: { code: 1 },
+		})
+		expect(span.spanId).toMatch(/^[0-9a-f]{16}$/)
+		expect(span.attributes).toContainEqual({ key: 'event.count', value: { intValue: '3' } })
+		expect(span.events[0].name).toBe('Event stored')
+	})
+
+	it('should send Zipkin v2 JSON', async () => {
+		const exporter = new ZipkinSpanExporter({ serviceName: 'audit-server', endpoint })
+		const span = finishedSpan()
+		span.setStatus('ERROR', 'Database unavailable')
+
+		exporter.export(span)
+		await exporter.flush()
+
+		const [zipkinSpan] = JSON.parse(received[0].body.toString())
+		expect(zipkinSpan).toMatchObject({
+			traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+			parentId: '00f067aa0ba902b7',
+			kind: 'CONSUMER',
+			localEndpoint: { serviceName: 'audit-server' },
+			tags: { 'event.count': '3', error: 'Database unavailable' },
+		})
+		expect(zipkinSpan.timestamp).toBe(span.startTime * 1000)
+	})
+
+	it('should send Jaeger Thrift batches', async () => {
+		const exporter = new JaegerSpanExporter({ serviceName: 'audit-worker', endpoint })
+
+		exporter.export(finishedSpan())
+		await exporter.flush()
+
+		const body = received[0].body
+		expect(received[0].headers['content-type']).toBe('application/x-thrift')
+		// Batch field 1 is the Process struct, whose field 1 is the service name
+		expect([...body.subarray(0, 6)]).toEqual([12, 0, 1, 11, 0, 1])
+		expect(body.readInt32BE(6)).toBe('audit-worker'.length)
+		expect(body.subarray(10, 22).toString()).toBe('audit-worker')
+		expect(body.includes(Buffer.from('audit.process'))).toBe(true)
+		// Span field 1 is the low half of the trace id
+		expect(body.includes(Buffer.from('a3ce929d0e0e4736', 'hex'))).toBe(true)
+	})
+
+	it('should batch spans', async () => {
+		const exporter = new OTLPSpanExporter({
+			serviceName: 'audit-worker',
+			endpoint,
+			maxBatchSize: 2,
+		})
+
+		for (let i = 0; i < 5; i++) exporter.export(finishedSpan())
+		await exporter.flush()
+
+		expect(
+			received.map((r) => JSON.parse(r.body.toString()).resourceSpans[0].scopeSpans[0].spans.length)
+		).toEqual([2, 2, 1])
+		expect(exporter.getStats()).toMatchObject({ queued: 0, exported: 5, dropped: 0 })
+	})
+
+	it('should drop the oldest spans when the buffer is full', async () => {
+		const exporter = new ZipkinSpanExporter({
+			serviceName: 'audit-worker',
+			endpoint,
+			maxQueueSize: 2,
+		})
+
+		exporter.export(finishedSpan('first'))
+		exporter.export(finishedSpan('second'))
+		exporter.export(finishedSpan('third'))
+		await exporter.flush()
+
+		expect(JSON.parse(received[0].body.toString()).map((s: any) => s.name)).toEqual([
+			'second',
+			'third',
+		])
+		expect(exporter.getStats().dropped).toBe(1)
+	})
+
+	it('should retry when the backend is unavailable', async () => {
+		statuses.push(503, 503)
+		const exporter = new OTLPSpanExporter({ serviceName: 'audit-worker', endpoint, retryDelay: 1 })
+
+		exporter.export(finishedSpan())
+		await exporter.flush()
+
+		expect(received).toHaveLength(3)
+		expect(exporter.getStats()).toMatchObject({ exported: 1, failed: 0 })
+	})
+
+	it('should give up on spans the backend rejects', async () => {
+		vi.spyOn(console, 'warn').mockImplementation(() => {})
+		statuses.push(400)
+		const exporter = new OTLPSpanExporter({ serviceName: 'audit-worker', endpoint, retryDelay: 1 })
+
+		exporter.export(finishedSpan())
+		await exporter.flush()
+
+		expect(received).toHaveLength(1)
+		expect(exporter.getStats()).toMatchObject({ exported: 0, failed: 1 })
+		expect(exporter.getStats().lastError).toContain('400')
+	})
+
+	it('should flush on shutdown and then stop exporting', async () => {
+		const tracer = new AuditTracer({
+			enabled: true,
+			serviceName: 'audit-worker',
+			sampleRate: 1.0,
+			exporterType: 'zipkin',
+			exporterEndpoint: endpoint,
+		})
+
+		tracer.finishSpan(tracer.startSpan('audit.process'))
+		await tracer.shutdown()
+		tracer.finishSpan(tracer.startSpan('audit.process'))
+		await tracer.flush()
+
+		expect(received).toHaveLength(1)
+		expect(tracer.getExporterStats()).toMatchObject({ exported: 1, queued: 0 })
+	})
+
+	it('should not create an exporter for the console', () => {
+		expect(
+			createSpanExporter({
+				enabled: true,
+				serviceName: 'audit-worker',
+				sampleRate: 1.0,
+				exporterType: 'console',
+			})
+		).toBeNull()
+	})
+})
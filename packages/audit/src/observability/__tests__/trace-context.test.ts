@@ -0,0 +1,87 @@
+/**
+ * Tests for W3C trace context propagation
+ */
+import { describe, expect, it } from 'vitest'
+
+import {
+	formatTraceparent,
+	fromTraceCarrier,
+	getActiveTraceContext,
+	parseTraceparent,
+	runWithTraceContext,
+	toTraceCarrier,
+} from '../trace-context.js'
+import { AuditTracer } from '../tracer.js'
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+
+describe('Trace context', () => {
+	describe('parseTraceparent', () => {
+		it('should parse a valid traceparent with its tracestate', () => {
+			expect(parseTraceparent(TRACEPARENT, 'congo=t61rcWkgMzE')).toEqual({
+				traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+				spanId: '00f067aa0ba902b7',
+				flags: 1,
+				traceState: 'congo=t61rcWkgMzE',
+			})
+		})
+
+		it('should reject malformed headers', () => {
+			expect(parseTraceparent(undefined)).toBeNull()
+			expect(parseTraceparent('not-a-traceparent')).toBeNull()
+			expect(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeNull()
+			expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeNull()
+			expect(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000000-01')).toBeNull()
+			expect(parseTraceparent(`${TRACEPARENT}-extra`)).toBeNull()
+		})
+
+		it('should accept trailing fields from future versions', () => {
+			expect(
+				parseTraceparent('01-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01-extra')
+			).toMatchObject({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736' })
+		})
+	})
+
+	it('should round trip through a carrier', () => {
+		const context = parseTraceparent(TRACEPARENT, 'congo=t61rcWkgMzE')!
+
+		const carrier = toTraceCarrier(context)
+
+		expect(carrier).toEqual({ traceparent: TRACEPARENT, tracestate: 'congo=t61rcWkgMzE' })
+		expect(fromTraceCarrier(carrier)).toEqual(context)
+		expect(fromTraceCarrier(undefined)).toBeNull()
+	})
+
+	it('should mark new traces as sampled', () => {
+		expect(
+			formatTraceparent({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7' })
+		).toBe(TRACEPARENT)
+	})
+
+	it('should expose the active context within its scope only', async () => {
+		const context = parseTraceparent(TRACEPARENT)!
+
+		const active = await runWithTraceContext(context, async () => {
+			await new Promise((resolve) => setTimeout(resolve, 1))
+			return getActiveTraceContext()
+		})
+
+		expect(active).toBe(context)
+		expect(getActiveTraceContext()).toBeUndefined()
+	})
+
+	it('should continue the trace of a traceparent header in the tracer', () => {
+		const tracer = new AuditTracer({
+			enabled: false,
+			serviceName: 'audit-worker',
+			sampleRate: 1.0,
+			exporterType: 'console',
+		})
+
+		const parent = tracer.extractContext({ traceparent: TRACEPARENT })
+		const span = tracer.startSpan('process_audit_event', parent ?? undefined)
+
+		expect(span.traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736')
+		expect(span.parentSpanId).toBe('00f067aa0ba902b7')
+	})
+})
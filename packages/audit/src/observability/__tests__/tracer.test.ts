@@ -56,6 +56,22 @@ describe('AuditTracer', () => {
 		})
 	})
 
+	describe('getTraceSpans', () => {
+		it('should keep a bounded number of finished spans', () => {
+			const first = tracer.startSpan('first-operation')
+			tracer.finishSpan(first)
+			expect(tracer.getTraceSpans(first.traceId)).toEqual([first])
+
+			vi.spyOn(console, 'log').mockImplementation(() => {})
+			for (let i = 0; i < 1000; i++) {
+				tracer.finishSpan(tracer.startSpan('operation'))
+			}
+
+			expect(tracer.getTraceSpans(first.traceId)).toEqual([])
+			expect(tracer.getActiveSpans()).toHaveLength(0)
+		})
+	})
+
 	describe('injectContext', () => {
 		it('should create trace context from span', () => {
 			const span = tracer.startSpan('test-operation')
@@ -0,0 +1,490 @@
+/**
+ * Span exporters shipping finished spans to a tracing backend
+ *
+ * Spans are buffered and sent in batches in the wire format of the backend:
+ * - otlp: OTLP/HTTP JSON, e.g. an OpenTelemetry collector on port 4318
+ * - zipkin: Zipkin v2 JSON
+ * - jaeger: Jaeger Thrift (binary protocol) over HTTP to the collector
+ *
+ * The buffer is bounded, so a slow or unreachable backend costs dropped spans instead of memory.
+ */
+import { createHash } from 'crypto'
+
+import type { ObservabilityConfig, Span, SpanExporterOptions } from './types.js'
+
+export type SpanExporterType = 'jaeger' | 'zipkin' | 'otlp'
+
+/**
+ * Receives finished spans
+ */
+export interface SpanExporter {
+	/** Buffer a finished span for the next batch */
+	export(span: Span): void
+	/** Send all buffered spans */
+	flush(): Promise<void>
+	/** Send all buffered spans and stop accepting new ones */
+	shutdown(): Promise<void>
+	getStats(): SpanExporterStats
+}
+
+export interface SpanExporterStats {
+	queued: number
+	exported: number
+	/** Spans dropped because the buffer was full */
+	dropped: number
+	/** Spans dropped because the backend refused them or stayed unreachable */
+	failed: number
+	lastError?: string
+}
+
+export interface HttpSpanExporterConfig extends SpanExporterOptions {
+	serviceName: string
+	endpoint: string
+	headers?: Record<string, string>
+}
+
+export const DEFAULT_EXPORTER_ENDPOINTS: Record<SpanExporterType, string> = {
+	otlp: 'http://localhost:4318/v1/traces',
+	zipkin: 'http://localhost:9411/api/v2/spans',
+	jaeger: 'http://localhost:14268/api/traces',
+}
+
+const DEFAULT_EXPORTER_OPTIONS: Required<SpanExporterOptions> = {
+	maxBatchSize: 512,
+	maxQueueSize: 2048,
+	flushInterval: 5000,
+	maxRetries: 3,
+	retryDelay: 1000,
+	timeout: 10000,
+}
+
+/**
+ * Batching HTTP exporter, subclasses provide the wire format
+ */
+export abstract class HttpSpanExporter implements SpanExporter {
+	protected abstract readonly contentType: string
+	protected readonly options: Required<SpanExporterOptions>
+
+	private queue: Span[] = []
+	private timer?: NodeJS.Timeout
+	private pending: Promise<void> = Promise.resolve()
+	private stopped = false
+	private stats = { exported: 0, dropped: 0, failed: 0, lastError: undefined as string | undefined }
+
+	constructor(protected readonly config: HttpSpanExporterConfig) {
+		this.options = resolveOptions(config)
+	}
+
+	/**
+	 * Encode a batch of spans in the wire format of the backend
+	 */
+	abstract encode(spans: Span[]): string | Buffer
+
+	export(span: Span): void {
+		if (this.stopped) return
+
+		if (this.queue.length >= this.options.maxQueueSize) {
+			this.queue.shift()
+			this.stats.dropped++
+		}
+		this.queue.push(span)
+
+		if (this.queue.length >= this.options.maxBatchSize) {
+			void this.flush()
+		} else if (!this.timer) {
+			this.timer = setTimeout(() => void this.flush(), this.options.flushInterval)
+			this.timer.unref?.()
+		}
+	}
+
+	flush(): Promise<void> {
+		if (this.timer) {
+			clearTimeout(this.timer)
+			this.timer = undefined
+		}
+		// Batches are sent one at a time, in order
+		this.pending = this.pending.then(() => this.drain())
+		return this.pending
+	}
+
+	async shutdown(): Promise<void> {
+		this.stopped = true
+		await this.flush()
+	}
+
+	getStats(): SpanExporterStats {
+		return { queued: this.queue.length, ...this.stats }
+	}
+
+	private async drain(): Promise<void> {
+		while (this.queue.length > 0) {
+			const batch = this.queue.splice(0, this.options.maxBatchSize)
+			try {
+				await this.send(this.encode(batch))
+				this.stats.exported += batch.length
+			} catch (error) {
+				this.stats.failed += batch.length
+				this.stats.lastError = error instanceof Error ? error.message : String(error)
+				console.warn(
+					`[SpanExporter] Dropped ${batch.length} spans for ${this.config.endpoint}: ${this.stats.lastError}`
+				)
+			}
+		}
+	}
+
+	private async send(body: string | Buffer): Promise<void> {
+		let lastError: Error = new Error('Span export failed')
+
+		for (let retry = 0; retry <= this.options.maxRetries; retry++) {
+			try {
+				const response = await fetch(this.config.endpoint, {
+					method: 'POST',
+					headers: { ...this.config.headers, 'Content-Type': this.contentType },
+					body,
+					signal: AbortSignal.timeout(this.options.timeout),
+				})
+
+				if (response.ok) return
+
+				lastError = new Error(
+					`Tracing backend responded with ${response.status} ${response.statusText}`
+				)
+				if (!isRetryableStatus(response.status)) break
+			} catch (error) {
+				lastError = error instanceof Error ? error : new Error(String(error))
+			}
+
+			if (retry < this.options.maxRetries) {
+				const delay = this.options.retryDelay * Math.pow(2, retry)
+				await new Promise((resolve) => setTimeout(resolve, delay))
+			}
+		}
+
+		throw lastError
+	}
+}
+
+/**
+ * OTLP/HTTP exporter using the JSON encoding
+ */
+export class OTLPSpanExporter extends HttpSpanExporter {
+	protected readonly contentType = 'application/json'
+
+	encode(spans: Span[]): string {
+		return JSON.stringify({
+			resourceSpans: [
+				{
+					resource: {
+						attributes: [{ key: 'service.name', value: { stringValue: this.config.serviceName } }],
+					},
+					scopeSpans: [
+						{
+							scope: { name: '@repo/audit' },
+							spans: spans.map((span) => ({
+								traceId: toHexId(span.traceId, 32),
+								spanId: toHexId(span.spanId, 16),
+								parentSpanId: span.parentSpanId ? toHexId(span.parentSpanId, 16) : undefined,
+								name: span.operationName,
+								kind: OTLP_SPAN_KINDS[spanKind(span)],
+								startTimeUnixNano: toUnixNano(span.startTime),
+								endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+								attributes: toOTLPAttributes(span.tags),
+								events: span.logs.map((log) => ({
+									timeUnixNano: toUnixNano(log.timestamp),
+									name: log.message,
+									attributes: toOTLPAttributes({ level: log.level, ...log.fields }),
+								})),
+								status:
+									span.status.code === 'OK'
+										? { code: 1 }
+										: { code: 2, message: span.status.message ?? span.status.code },
+							})),
+						},
+					],
+				},
+			],
+		})
+	}
+}
+
+/**
+ * Zipkin exporter using the v2 JSON encoding
+ */
+export class ZipkinSpanExporter extends HttpSpanExporter {
+	protected readonly contentType = 'application/json'
+
+	encode(spans: Span[]): string {
+		return JSON.stringify(
+			spans.map((span) => {
+				const kind = spanKind(span)
+				const tags = Object.fromEntries(
+					Object.entries(span.tags).map(([key, value]) => [key, stringifyTag(value)])
+				)
+				if (span.status.code !== 'OK') {
+					tags.error = span.status.message ?? span.status.code
+				}
+
+				return {
+					traceId: toHexId(span.traceId, 32),
+					id: toHexId(span.spanId, 16),
+					parentId: span.parentSpanId ? toHexId(span.parentSpanId, 16) : undefined,
+					name: span.operationName,
+					kind: kind === 'internal' ? undefined : kind.toUpperCase(),
+					timestamp: span.startTime * 1000,
+					duration: Math.max((span.duration ?? 0) * 1000, 1),
+					localEndpoint: { serviceName: this.config.serviceName },
+					tags,
+					annotations: span.logs.map((log) => ({
+						timestamp: log.timestamp * 1000,
+						value: `${log.level}: ${log.message}`,
+					})),
+				}
+			})
+		)
+	}
+}
+
+/**
+ * Jaeger exporter sending Thrift batches to the collector HTTP endpoint
+ */
+export class JaegerSpanExporter extends HttpSpanExporter {
+	protected readonly contentType = 'application/x-thrift'
+
+	encode(spans: Span[]): Buffer {
+		const writer = new ThriftWriter()
+
+		// Batch
+		writer.fieldBegin(THRIFT.STRUCT, 1)
+		writer.fieldBegin(THRIFT.STRING, 1)
+		writer.string(this.config.serviceName)
+		writer.fieldStop()
+
+		writer.fieldBegin(THRIFT.LIST, 2)
+		writer.listBegin(THRIFT.STRUCT, spans.length)
+		for (const span of spans) {
+			const traceId = toHexId(span.traceId, 32)
+			const tags: Record<string, unknown> = { ...span.tags }
+			if (span.status.code !== 'OK') {
+				tags.error = true
+				tags['otel.status_description'] = span.status.message ?? span.status.code
+			}
+
+			writer.fieldBegin(THRIFT.I64, 1)
+			writer.i64(traceId.substring(16))
+			writer.fieldBegin(THRIFT.I64, 2)
+			writer.i64(traceId.substring(0, 16))
+			writer.fieldBegin(THRIFT.I64, 3)
+			writer.i64(toHexId(span.spanId, 16))
+			writer.fieldBegin(THRIFT.I64, 4)
+			writer.i64(span.parentSpanId ? toHexId(span.parentSpanId, 16) : '0')
+			writer.fieldBegin(THRIFT.STRING, 5)
+			writer.string(span.operationName)
+			// Sampled
+			writer.fieldBegin(THRIFT.I32, 7)
+			writer.i32(1)
+			writer.fieldBegin(THRIFT.I64, 8)
+			writer.i64(BigInt(span.startTime) * 1000n)
+			writer.fieldBegin(THRIFT.I64, 9)
+			writer.i64(BigInt(span.duration ?? 0) * 1000n)
+			writer.fieldBegin(THRIFT.LIST, 10)
+			writeJaegerTags(writer, tags)
+			writer.fieldBegin(THRIFT.LIST, 11)
+			writer.listBegin(THRIFT.STRUCT, span.logs.length)
+			for (const log of span.logs) {
+				writer.fieldBegin(THRIFT.I64, 1)
+				writer.i64(BigInt(log.timestamp) * 1000n)
+				writer.fieldBegin(THRIFT.LIST, 2)
+				writeJaegerTags(writer, { level: log.level, message: log.message, ...log.fields })
+				writer.fieldStop()
+			}
+			writer.fieldStop()
+		}
+		writer.fieldStop()
+
+		return writer.toBuffer()
+	}
+}
+
+/**
+ * Create the exporter for a tracing configuration, null for the console exporter
+ */
+export function createSpanExporter(config: ObservabilityConfig['tracing']): SpanExporter | null {
+	const exporterConfig: HttpSpanExporterConfig = {
+		...config.exporter,
+		serviceName: config.serviceName,
+		endpoint:
+			config.exporterEndpoint ||
+			DEFAULT_EXPORTER_ENDPOINTS[config.exporterType as SpanExporterType] ||
+			'',
+		headers: config.exporterHeaders,
+	}
+
+	switch (config.exporterType) {
+		case 'otlp':
+			return new OTLPSpanExporter(exporterConfig)
+		case 'zipkin':
+			return new ZipkinSpanExporter(exporterConfig)
+		case 'jaeger':
+			return new JaegerSpanExporter(exporterConfig)
+		default:
+			return null
+	}
+}
+
+const OTLP_SPAN_KINDS = { internal: 1, server: 2, client: 3, producer: 4, consumer: 5 } as const
+
+type SpanKind = keyof typeof OTLP_SPAN_KINDS
+
+function spanKind(span: Span): SpanKind {
+	const kind = String(span.tags['span.kind'] ?? 'internal').toLowerCase()
+	return kind in OTLP_SPAN_KINDS ? (kind as SpanKind) : 'internal'
+}
+
+function isRetryableStatus(status: number): boolean {
+	return status === 408 || status === 429 || status >= 500
+}
+
+function resolveOptions(options: SpanExporterOptions): Required<SpanExporterOptions> {
+	const resolved = { ...DEFAULT_EXPORTER_OPTIONS }
+	for (const key of Object.keys(resolved) as Array<keyof SpanExporterOptions>) {
+		resolved[key] = options[key] ?? resolved[key]
+	}
+	return resolved
+}
+
+/**
+ * Backends require hex ids of a fixed length; ids of another shape are hashed into one
+ */
+function toHexId(id: string, length: 16 | 32): string {
+	if (/^[0-9a-f]+$/i.test(id) && id.length <= length) {
+		return id.toLowerCase().padStart(length, '0')
+	}
+	return createHash('sha256').update(id).digest('hex').substring(0, length)
+}
+
+function toUnixNano(milliseconds: number): string {
+	return (BigInt(Math.round(milliseconds)) * 1000000n).toString()
+}
+
+function stringifyTag(value: unknown): string {
+	return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function toOTLPAttributes(values: Record<string, unknown>) {
+	return Object.entries(values)
+		.filter(([, value]) => value !== undefined)
+		.map(([key, value]) => {
+			if (typeof value === 'boolean') return { key, value: { boolValue: value } }
+			if (typeof value === 'number') {
+				return Number.isSafeInteger(value)
+					? { key, value: { intValue: String(value) } }
+					: { key, value: { doubleValue: value } }
+			}
+			return { key, value: { stringValue: stringifyTag(value) } }
+		})
+}
+
+function writeJaegerTags(writer: ThriftWriter, values: Record<string, unknown>): void {
+	const entries = Object.entries(values).filter(([, value]) => value !== undefined)
+	writer.listBegin(THRIFT.STRUCT, entries.length)
+	for (const [key, value] of entries) {
+		writer.fieldBegin(THRIFT.STRING, 1)
+		writer.string(key)
+		if (typeof value === 'boolean') {
+			writer.fieldBegin(THRIFT.I32, 2)
+			writer.i32(JAEGER_TAG_TYPES.BOOL)
+			writer.fieldBegin(THRIFT.BOOL, 5)
+			writer.bool(value)
+		} else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+			writer.fieldBegin(THRIFT.I32, 2)
+			writer.i32(JAEGER_TAG_TYPES.LONG)
+			writer.fieldBegin(THRIFT.I64, 6)
+			writer.i64(BigInt(value))
+		} else if (typeof value === 'number') {
+			writer.fieldBegin(THRIFT.I32, 2)
+			writer.i32(JAEGER_TAG_TYPES.DOUBLE)
+			writer.fieldBegin(THRIFT.DOUBLE, 4)
+			writer.double(value)
+		} else {
+			writer.fieldBegin(THRIFT.I32, 2)
+			writer.i32(JAEGER_TAG_TYPES.STRING)
+			writer.fieldBegin(THRIFT.STRING, 3)
+			writer.string(stringifyTag(value))
+		}
+		writer.fieldStop()
+	}
+}
+
+const JAEGER_TAG_TYPES = { STRING: 0, DOUBLE: 1, BOOL: 2, LONG: 3 } as const
+
+/** Thrift binary protocol type ids */
+const THRIFT = {
+	STOP: 0,
+	BOOL: 2,
+	DOUBLE: 4,
+	I32: 8,
+	I64: 10,
+	STRING: 11,
+	STRUCT: 12,
+	LIST: 15,
+} as const
+
+/**
+ * Minimal writer for the Thrift binary protocol
+ */
+class ThriftWriter {
+	private chunks: Buffer[] = []
+
+	fieldBegin(type: number, id: number): void {
+		const header = Buffer.alloc(3)
+		header.writeInt8(type, 0)
+		header.writeInt16BE(id, 1)
+		this.chunks.push(header)
+	}
+
+	fieldStop(): void {
+		this.chunks.push(Buffer.from([THRIFT.STOP]))
+	}
+
+	listBegin(elementType: number, size: number): void {
+		const header = Buffer.alloc(5)
+		header.writeInt8(elementType, 0)
+		header.writeInt32BE(size, 1)
+		this.chunks.push(header)
+	}
+
+	bool(value: boolean): void {
+		this.chunks.push(Buffer.from([value ? 1 : 0]))
+	}
+
+	i32(value: number): void {
+		const buffer = Buffer.alloc(4)
+		buffer.writeInt32BE(value)
+		this.chunks.push(buffer)
+	}
+
+	/** 64 bit integer, from a bigint or a hex string */
+	i64(value: bigint | string): void {
+		const buffer = Buffer.alloc(8)
+		buffer.writeBigInt64BE(
+			BigInt.asIntN(64, typeof value === 'string' ? BigInt(`0x${value}`) : value)
+		)
+		this.chunks.push(buffer)
+	}
+
+	double(value: number): void {
+		const buffer = Buffer.alloc(8)
+		buffer.writeDoubleBE(value)
+		this.chunks.push(buffer)
+	}
+
+	string(value: string): void {
+		const bytes = Buffer.from(value, 'utf8')
+		this.i32(bytes.length)
+		this.chunks.push(bytes)
+	}
+
+	toBuffer(): Buffer {
+		return Buffer.concat(this.chunks)
+	}
+}
@@ -9,6 +9,36 @@ export type * from './types.js'
 export { AuditTracer, AuditSpan, trace } from './tracer.js'
 export type { Tracer } from './tracer.js'
 
+// Trace Context Propagation
+export {
+	parseTraceparent,
+	formatTraceparent,
+	toTraceCarrier,
+	fromTraceCarrier,
+	runWithTraceContext,
+	getActiveTraceContext,
+	TRACEPARENT_HEADER,
+	TRACESTATE_HEADER,
+	TRACE_FLAG_SAMPLED,
+} from './trace-context.js'
+export type { TraceCarrier } from './trace-context.js'
+
+// Span Exporters
+export {
+	createSpanExporter,
+	HttpSpanExporter,
+	OTLPSpanExporter,
+	ZipkinSpanExporter,
+	JaegerSpanExporter,
+	DEFAULT_EXPORTER_ENDPOINTS,
+} from './exporters.js'
+export type {
+	SpanExporter,
+	SpanExporterStats,
+	SpanExporterType,
+	HttpSpanExporterConfig,
+} from './exporters.js'
+
 // Metrics Collection
 export { RedisEnhancedMetricsCollector, PerformanceTimer } from './metrics-collector.js'
 export type { EnhancedMetricsCollector } from './metrics-collector.js'
@@ -0,0 +1,91 @@
+/**
+ * W3C trace context propagation
+ *
+ * Carries the active trace across the HTTP request, the queue and the worker so that
+ * spans from the server and the worker join into one trace.
+ * See https://www.w3.org/TR/trace-context/
+ */
+import { AsyncLocalStorage } from 'async_hooks'
+
+import type { TraceContext } from './types.js'
+
+/**
+ * Trace context in its W3C header form, as carried in headers and queue jobs
+ */
+export interface TraceCarrier {
+	traceparent: string
+	tracestate?: string
+}
+
+export const TRACEPARENT_HEADER = 'traceparent'
+export const TRACESTATE_HEADER = 'tracestate'
+
+/** Trace flag telling downstream services the trace is sampled */
+export const TRACE_FLAG_SAMPLED = 0x01
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/
+
+const traceContextStorage = new AsyncLocalStorage<TraceContext>()
+
+/**
+ * Parse a traceparent header, and its tracestate, into a trace context
+ *
+ * Returns null for a missing or malformed header, in which case a new trace should be started.
+ */
+export function parseTraceparent(traceparent?: string, tracestate?: string): TraceContext | null {
+	const match = traceparent?.trim().toLowerCase().match(TRACEPARENT_PATTERN)
+	if (!match) return null
+
+	const [, version, traceId, spanId, flags, rest] = match
+	// Version ff is forbidden, and version 00 has no trailing fields
+	if (version === 'ff' || (version === '00' && rest)) return null
+	// All-zero ids are invalid
+	if (/^0+$/.test(traceId) || /^0+$/.test(spanId)) return null
+
+	return {
+		traceId,
+		spanId,
+		flags: parseInt(flags, 16),
+		traceState: tracestate?.trim() || undefined,
+	}
+}
+
+/**
+ * Format a trace context as a traceparent header
+ */
+export function formatTraceparent(context: TraceContext): string {
+	const flags = (context.flags ?? TRACE_FLAG_SAMPLED).toString(16).padStart(2, '0')
+	return `00-${context.traceId}-${context.spanId}-${flags}`
+}
+
+/**
+ * Build the carrier for a trace context, so work done elsewhere continues its trace
+ */
+export function toTraceCarrier(context: TraceContext): TraceCarrier {
+	const carrier: TraceCarrier = { traceparent: formatTraceparent(context) }
+	if (context.traceState) {
+		carrier.tracestate = context.traceState
+	}
+	return carrier
+}
+
+/**
+ * Resume the trace context of a carrier
+ */
+export function fromTraceCarrier(carrier?: Partial<TraceCarrier> | null): TraceContext | null {
+	return parseTraceparent(carrier?.traceparent, carrier?.tracestate)
+}
+
+/**
+ * Run a function with the given trace context as the active one
+ */
+export function runWithTraceContext<T>(context: TraceContext, fn: () => T): T {
+	return traceContextStorage.run(context, fn)
+}
+
+/**
+ * Get the trace context of the current request, if any
+ */
+export function getActiveTraceContext(): TraceContext | undefined {
+	return traceContextStorage.getStore()
+}
@@ -3,6 +3,10 @@
  */
 import { randomBytes } from 'crypto'
 
+import { createSpanExporter } from './exporters.js'
+import { parseTraceparent, TRACEPARENT_HEADER, TRACESTATE_HEADER } from './trace-context.js'
+
+import type { SpanExporter, SpanExporterStats } from './exporters.js'
 import type { ObservabilityConfig, Span, SpanLog, SpanStatus, TraceContext } from './types.js'
 
 /**
@@ -100,16 +104,21 @@ export class AuditSpan implements Span {
 	}
 }
 
+// Finished spans kept for trace lookups, the oldest are dropped first
+const MAX_FINISHED_SPANS = 1000
+
 /**
  * Audit tracer implementation
  */
 export class AuditTracer implements Tracer {
-	private spans: Map<string, Span> = new Map()
+	private finishedSpans: Map<string, Span> = new Map()
 	private config: ObservabilityConfig['tracing']
 	private activeSpans: Map<string, Span> = new Map()
+	private exporter: SpanExporter | null
 
 	constructor(config: ObservabilityConfig['tracing']) {
 		this.config = config
+		this.exporter = createSpanExporter(config)
 	}
 
 	/**
@@ -125,7 +134,6 @@ export class AuditTracer implements Tracer {
 			'span.kind': 'internal',
 		})
 
-		this.spans.set(span.spanId, span)
 		this.activeSpans.set(span.spanId, span)
 
 		return span
@@ -144,6 +152,11 @@ export class AuditTracer implements Tracer {
 		}
 		this.activeSpans.delete(span.spanId)
 
+		this.finishedSpans.set(span.spanId, span)
+		if (this.finishedSpans.size > MAX_FINISHED_SPANS) {
+			this.finishedSpans.delete(this.finishedSpans.keys().next().value!)
+		}
+
 		// Export span based on configuration
 		this.exportSpan(span)
 	}
@@ -163,6 +176,12 @@ export class AuditTracer implements Tracer {
 	 * Extract trace context from headers
 	 */
 	extractContext(headers: Record<string, string>): TraceContext | null {
+		// Prefer W3C trace context over the legacy headers
+		const w3cContext = parseTraceparent(headers[TRACEPARENT_HEADER], headers[TRACESTATE_HEADER])
+		if (w3cContext) {
+			return w3cContext
+		}
+
 		const traceId = headers['x-trace-id'] || headers['traceid']
 		const spanId = headers['x-span-id'] || headers['spanid']
 		const parentSpanId = headers['x-parent-span-id'] || headers['parentspanid']
@@ -190,17 +209,18 @@ export class AuditTracer implements Tracer {
 			'parent.operation': parentSpan.operationName,
 		})
 
-		this.spans.set(childSpan.spanId, childSpan)
 		this.activeSpans.set(childSpan.spanId, childSpan)
 
 		return childSpan
 	}
 
 	/**
-	 * Get all spans for a trace
+	 * Get the active and recently finished spans of a trace
 	 */
 	getTraceSpans(traceId: string): Span[] {
-		return Array.from(this.spans.values()).filter((span) => span.traceId === traceId)
+		return [...this.activeSpans.values(), ...this.finishedSpans.values()].filter(
+			(span) => span.traceId === traceId
+		)
 	}
 
 	/**
@@ -223,21 +243,10 @@ export class AuditTracer implements Tracer {
 			return
 		}
 
-		switch (this.config.exporterType) {
-			case 'console':
-				this.exportToConsole(span)
-				break
-			case 'jaeger':
-				this.exportToJaeger(span)
-				break
-			case 'zipkin':
-				this.exportToZipkin(span)
-				break
-			case 'otlp':
-				this.exportToOTLP(span)
-				break
-			default:
-				this.exportToConsole(span)
+		if (this.exporter) {
+			this.exporter.export(span)
+		} else {
+			this.exportToConsole(span)
 		}
 	}
 
@@ -258,119 +267,37 @@ export class AuditTracer implements Tracer {
 	}
 
 	/**
-	 * Export span to Jaeger (placeholder implementation)
+	 * Send buffered spans to the exporter
 	 */
-	private exportToJaeger(span: Span): void {
-		// In a real implementation, this would send to Jaeger
-		console.log('📊 Jaeger Export:', {
-			traceID: span.traceId,
-			spanID: span.spanId,
-			operationName: span.operationName,
-			startTime: span.startTime * 1000, // Jaeger expects microseconds
-			duration: (span.duration || 0) * 1000,
-			tags: Object.entries(span.tags).map(([key, value]) => ({
-				key,
-				type: typeof value === 'string' ? 'string' : 'number',
-				value: String(value),
-			})),
-			logs: span.logs.map((log) => ({
-				timestamp: log.timestamp * 1000,
-				fields: [
-					{ key: 'level', value: log.level },
-					{ key: 'message', value: log.message },
-					...(log.fields
-						? Object.entries(log.fields).map(([k, v]) => ({ key: k, value: String(v) }))
-						: []),
-				],
-			})),
-		})
+	async flush(): Promise<void> {
+		await this.exporter?.flush()
 	}
 
 	/**
-	 * Export span to Zipkin (placeholder implementation)
+	 * Flush buffered spans and stop exporting
 	 */
-	private exportToZipkin(span: Span): void {
-		// In a real implementation, this would send to Zipkin
-		console.log('📈 Zipkin Export:', {
-			traceId: span.traceId,
-			id: span.spanId,
-			parentId: span.parentSpanId,
-			name: span.operationName,
-			timestamp: span.startTime * 1000,
-			duration: (span.duration || 0) * 1000,
-			kind: 'SERVER',
-			tags: span.tags,
-			annotations: span.logs.map((log) => ({
-				timestamp: log.timestamp * 1000,
-				value: `${log.level}: ${log.message}`,
-			})),
-		})
+	async shutdown(): Promise<void> {
+		await this.exporter?.shutdown()
 	}
 
 	/**
-	 * Export span to OTLP (placeholder implementation)
+	 * Get exporter statistics, null for the console exporter
 	 */
-	private exportToOTLP(span: Span): void {
-		// In a real implementation, this would send to OTLP endpoint
-		console.log('🚀 OTLP Export:', {
-			resourceSpans: [
-				{
-					resource: {
-						attributes: [
-							{
-								key: 'service.name',
-								value: { stringValue: this.config.serviceName },
-							},
-						],
-					},
-					instrumentationLibrarySpans: [
-						{
-							spans: [
-								{
-									traceId: Buffer.from(span.traceId, 'hex'),
-									spanId: Buffer.from(span.spanId, 'hex'),
-									parentSpanId: span.parentSpanId
-										? Buffer.from(span.parentSpanId, 'hex')
-										: undefined,
-									name: span.operationName,
-									startTimeUnixNano: span.startTime * 1000000,
-									endTimeUnixNano: (span.endTime || span.startTime) * 1000000,
-									attributes: Object.entries(span.tags).map(([key, value]) => ({
-										key,
-										value: { stringValue: String(value) },
-									})),
-									events: span.logs.map((log) => ({
-										timeUnixNano: log.timestamp * 1000000,
-										name: log.message,
-										attributes: log.fields
-											? Object.entries(log.fields).map(([k, v]) => ({
-													key: k,
-													value: { stringValue: String(v) },
-												}))
-											: [],
-									})),
-									status: {
-										code: span.status.code === 'OK' ? 1 : 2,
-										message: span.status.message,
-									},
-								},
-							],
-						},
-					],
-				},
-			],
-		})
+	getExporterStats(): SpanExporterStats | null {
+		return this.exporter?.getStats() ?? null
 	}
 
 	/**
-	 * Clear old spans to prevent memory leaks
+	 * Clear old spans, including spans that were never finished
 	 */
 	cleanup(): void {
 		const cutoffTime = Date.now() - 24 * 60 * 60 * 1000 // 24 hours
 
-		for (const [spanId, span] of this.spans.entries()) {
-			if (span.startTime < cutoffTime) {
-				this.spans.delete(spanId)
+		for (const spans of [this.activeSpans, this.finishedSpans]) {
+			for (const [spanId, span] of spans.entries()) {
+				if (span.startTime < cutoffTime) {
+					spans.delete(spanId)
+				}
 			}
 		}
 	}
@@ -11,6 +11,8 @@ export interface TraceContext {
 	parentSpanId?: string
 	baggage?: Record<string, string>
 	flags?: number
+	/** Vendor specific W3C tracestate, passed on unchanged */
+	traceState?: string
 }
 
 /**
@@ -263,6 +265,23 @@ export interface CallStackFrame {
 	children: CallStackFrame[]
 }
 
+/**
+ * Batching and retry options for span exporters
+ */
+export interface SpanExporterOptions {
+	/** Maximum spans per request */
+	maxBatchSize?: number
+	/** Maximum buffered spans, the oldest are dropped beyond it */
+	maxQueueSize?: number
+	/** Milliseconds before a partial batch is sent */
+	flushInterval?: number
+	maxRetries?: number
+	/** Base delay in milliseconds, doubled on each retry */
+	retryDelay?: number
+	/** Request timeout in milliseconds */
+	timeout?: number
+}
+
 /**
  * Observability configuration
  */
@@ -274,6 +293,8 @@ export interface ObservabilityConfig {
 		sampleRate: number
 		exporterType: 'console' | 'jaeger' | 'zipkin' | 'otlp'
 		exporterEndpoint?: string
+		exporterHeaders?: Record<string, string>
+		exporter?: SpanExporterOptions
 	}
 
 	// Metrics configuration
@@ -0,0 +1,201 @@
+/**
+ * @fileoverview PII Scanner
+ *
+ * Finds personal data in free-text audit event fields and redacts, tokenizes or rejects it
+ * according to the policy of the organization logging the event:
+ * - redact: the match is replaced by [REDACTED:<type>]
+ * - tokenize: the match is replaced by [<type>:<keyed hash>], the same value always giving
+ *   the same token so events can still be correlated
+ * - reject: the event is not logged
+ */
+
+import { createHmac } from 'crypto'
+
+export type BuiltInPIIType = 'email' | 'phone' | 'national_id' | 'credit_card' | 'ip_address'
+
+export type PIIAction = 'redact' | 'tokenize' | 'reject'
+
+/**
+ * Organization-specific pattern, e.g. a medical record number format
+ */
+export interface CustomPIIPattern {
+	/** Name recorded in redactions and used in placeholders */
+	name: string
+	/** Regular expression source */
+	pattern: string
+	/** Regular expression flags; the global flag is always added */
+	flags?: string
+	/** Action for this pattern, the policy action by default */
+	action?: PIIAction
+}
+
+export interface PIIPolicy {
+	enabled: boolean
+	/** Action for detected PII without a more specific action */
+	action: PIIAction
+	/** Built-in detectors to run, all by default */
+	types?: BuiltInPIIType[]
+	/** Actions per built-in type */
+	actions?: Partial<Record<BuiltInPIIType, PIIAction>>
+	customPatterns?: CustomPIIPattern[]
+	/** Dot-separated field paths never scanned, e.g. requestDetails.ipAddress */
+	excludePaths?: string[]
+}
+
+/**
+ * PII scanning configuration: a default policy and per organization overrides
+ */
+export interface PIIScanConfig extends PIIPolicy {
+	/** Policies of organizations, merged over the default policy */
+	organizations?: Record<string, Partial<PIIPolicy>>
+	/** Secret keying tokens, PSEUDONYM_SALT by default */
+	tokenSecret?: string
+}
+
+/**
+ * PII found in a field, recorded in the event metadata without the matched values
+ */
+export interface PIIRedaction {
+	field: string
+	type: string
+	action: PIIAction
+	count: number
+}
+
+const BUILT_IN_PATTERNS: Record<BuiltInPIIType, RegExp> = {
+	email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+	// Candidates are confirmed with the Luhn checksum
+	credit_card: /\b\d(?:[ -]?\d){12,18}\b/g,
+	// US social security numbers and UK national insurance numbers
+	national_id: /\b\d{3}-\d{2}-\d{4}\b|\b[A-CEGHJ-PR-TW-Z]{2}\d{6}[A-D]\b/g,
+	ip_address:
+		/\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b|\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b|\b(?:[0-9a-f]{1,4}:){1,6}:(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4}){0,5})?\b/gi,
+	// International or separated numbers, so identifiers and timestamps are left alone
+	phone:
+		/(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?|\d{2,4}[ .-])\d{3,4}[ .-]\d{3,4}(?!\w)/g,
+}
+
+// Most specific first, so a card number is not taken for a phone number
+const BUILT_IN_ORDER: BuiltInPIIType[] = [
+	'email',
+	'credit_card',
+	'national_id',
+	'ip_address',
+	'phone',
+]
+
+/**
+ * Resolve the policy of an organization
+ */
+export function resolvePIIPolicy(config: PIIScanConfig, organizationId?: string): PIIPolicy {
+	const override = organizationId ? config.organizations?.[organizationId] : undefined
+	if (!override) return config
+
+	return {
+		...config,
+		...override,
+		actions: { ...config.actions, ...override.actions },
+		customPatterns: [...(config.customPatterns ?? []), ...(override.customPatterns ?? [])],
+		excludePaths: [...(config.excludePaths ?? []), ...(override.excludePaths ?? [])],
+	}
+}
+
+/**
+ * Scans values for PII and replaces it according to a policy
+ */
+export class PIIScanner {
+	private detectors: Array<{
+		type: string
+		pattern: RegExp
+		action: PIIAction
+		validate?: (match: string) => boolean
+	}>
+	private excludePaths: Set<string>
+
+	constructor(
+		policy: PIIPolicy,
+		private tokenSecret: string = process.env.PSEUDONYM_SALT || 'default-salt'
+	) {
+		const types = policy.types ?? BUILT_IN_ORDER
+		this.detectors = [
+			...BUILT_IN_ORDER.filter((type) => types.includes(type)).map((type) => ({
+				type,
+				pattern: BUILT_IN_PATTERNS[type],
+				action: policy.actions?.[type] ?? policy.action,
+				validate: type === 'credit_card' ? passesLuhn : undefined,
+			})),
+			...(policy.customPatterns ?? []).map((custom) => ({
+				type: custom.name,
+				pattern: new RegExp(
+					custom.pattern,
+					custom.flags?.includes('g') ? custom.flags : `${custom.flags ?? ''}g`
+				),
+				action: custom.action ?? policy.action,
+			})),
+		]
+		this.excludePaths = new Set(policy.excludePaths)
+	}
+
+	/**
+	 * Replace the PII in a value, recursing into objects and arrays
+	 *
+	 * @param value Value to scan
+	 * @param path Dot-separated path of the value, recorded in redactions
+	 * @param redactions Receives what was found, one entry per field and type
+	 */
+	scanValue(value: unknown, path: string, redactions: PIIRedaction[]): unknown {
+		if (this.excludePaths.has(path)) return value
+
+		if (typeof value === 'string') {
+			return this.scanString(value, path, redactions)
+		}
+		if (Array.isArray(value)) {
+			return value.map((item, index) => this.scanValue(item, `${path}.${index}`, redactions))
+		}
+		if (value !== null && typeof value === 'object') {
+			return Object.fromEntries(
+				Object.entries(value).map(([key, item]) => [
+					key,
+					this.scanValue(item, `${path}.${key}`, redactions),
+				])
+			)
+		}
+		return value
+	}
+
+	private scanString(value: string, field: string, redactions: PIIRedaction[]): string {
+		let result = value
+		for (const detector of this.detectors) {
+			let count = 0
+			result = result.replace(detector.pattern, (match) => {
+				if (detector.validate && !detector.validate(match)) return match
+				count++
+				return detector.action === 'tokenize'
+					? `[${detector.type}:${this.token(match)}]`
+					: `[REDACTED:${detector.type}]`
+			})
+			if (count > 0) {
+				redactions.push({ field, type: detector.type, action: detector.action, count })
+			}
+		}
+		return result
+	}
+
+	private token(value: string): string {
+		return createHmac('sha256', this.tokenSecret).update(value).digest('hex').substring(0, 16)
+	}
+}
+
+function passesLuhn(candidate: string): boolean {
+	const digits = candidate.replace(/\D/g, '')
+	let sum = 0
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i])
+		if (i % 2 === 1) {
+			digit *= 2
+			if (digit > 9) digit -= 9
+		}
+		sum += digit
+	}
+	return sum % 10 === 0
+}
@@ -19,6 +19,8 @@ import { ReportTemplate } from './scheduled-reporting.js'
 
 import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
 import type { AuditEventStatus, AuditLogEvent, DataClassification } from '../types.js'
+import type { ReportGroupBy } from './report-templates.js'
+import type { ExportColumn } from './streaming-export.js'
 
 /**
  * Report criteria for filtering and configuring compliance reports
@@ -200,6 +202,12 @@ export interface IntegrityVerificationReport {
 	/** Failed verifications */
 	failures: IntegrityFailure[]
 
+	/** Lowest and highest event IDs covered, absent when no events matched */
+	eventRange?: {
+		firstEventId: number
+		lastEventId: number
+	}
+
 	/** Verification statistics */
 	statistics: {
 		hashAlgorithms: Record<string, number>
@@ -253,6 +261,10 @@ export interface ExportConfig {
 		algorithm?: string
 		keyId?: string
 	}
+	/** Event fields to export, all of them when empty */
+	columns?: ExportColumn[]
+	/** Field to count the events by, alongside the events */
+	groupBy?: ReportGroupBy
 }
 
 /**
@@ -260,6 +272,7 @@ export interface ExportConfig {
  */
 export interface ScheduledReportConfig {
 	id: string
+	organizationId?: string
 	name: string
 	description?: string
 	templateId?: string
@@ -331,6 +344,17 @@ export class ComplianceReportingService {
 		}
 	}
 
+	/**
+	 * Generate a general compliance report from the events matching the criteria
+	 */
+	async generateReportForCriteria(
+		criteria: ReportCriteria,
+		reportType: string = 'GENERAL_COMPLIANCE'
+	): Promise<ComplianceReport> {
+		const events = await this.getEvents(criteria)
+		return this.generateComplianceReport(events, criteria, reportType)
+	}
+
 	/**
 	 * Generate HIPAA-specific compliance report
 	 */
@@ -474,11 +498,21 @@ export class ComplianceReportingService {
 				sortedLatency[Math.floor((sortedLatency.length - 1) * 0.95)] || verificationLatency.average
 		}
 
+		let eventRange: IntegrityVerificationReport['eventRange']
+		for (const event of events) {
+			if (typeof event.id !== 'number') continue
+			eventRange = {
+				firstEventId: Math.min(eventRange?.firstEventId ?? event.id, event.id),
+				lastEventId: Math.max(eventRange?.lastEventId ?? event.id, event.id),
+			}
+		}
+
 		return {
 			verificationId,
 			verifiedAt,
 			results: verificationResults,
 			failures,
+			eventRange,
 			statistics: {
 				hashAlgorithms,
 				verificationLatency,
@@ -932,6 +966,8 @@ export class ComplianceReportingService {
 			outcomeDescription: dbAuditLog.outcome_description as string,
 			hash: dbAuditLog.hash as string,
 			hashAlgorithm: dbAuditLog.hash_algorithm,
+			previousHash: dbAuditLog.previous_hash ?? undefined,
+			chainHash: dbAuditLog.chain_hash ?? undefined,
 			signature: dbAuditLog.signature as string,
 			eventVersion: dbAuditLog.event_version,
 			correlationId: dbAuditLog.correlation_id,
@@ -10,6 +10,13 @@
  * Requirements: 4.1, 4.4, 8.1
  */
 
+import { createHash } from 'crypto'
+
+import { PDFReportRenderer } from './pdf-report.js'
+import { groupReportEvents } from './report-templates.js'
+import { exportColumnHeader, projectEvent } from './streaming-export.js'
+
+import type { CryptographicService } from '../crypto.js'
 import type {
 	ComplianceReport,
 	ComplianceReportEvent,
@@ -17,6 +24,7 @@ import type {
 	GDPRComplianceReport,
 	HIPAAComplianceReport,
 	IntegrityVerificationReport,
+	ReportCriteria,
 	ReportFormat,
 } from './compliance-reporting.js'
 
@@ -85,6 +93,13 @@ export interface ExportStatistics {
  * Data Export Service
  */
 export class DataExportService {
+	private pdfRenderer = new PDFReportRenderer()
+
+	/**
+	 * @param signer Signs the content checksum embedded in PDF reports; PDFs are unsigned without it
+	 */
+	constructor(private signer?: Pick<CryptographicService, 'generateSignature'>) {}
+
 	/**
 	 * Export compliance report in specified format
 	 */
@@ -199,6 +214,42 @@ export class DataExportService {
 		return this.exportComplianceReport(report, config)
 	}
 
+	/**
+	 * Export an integrity verification report in specified format
+	 */
+	async exportIntegrityReport(
+		integrityReport: IntegrityVerificationReport,
+		criteria: ReportCriteria,
+		config: ExportConfig
+	): Promise<ExportResult> {
+		const report: ComplianceReport = {
+			metadata: {
+				reportId: integrityReport.verificationId,
+				reportType: 'INTEGRITY_VERIFICATION',
+				generatedAt: integrityReport.verifiedAt,
+				generatedBy: integrityReport.verifiedBy,
+				criteria,
+				totalEvents: integrityReport.results.totalEvents,
+			},
+			summary: {
+				eventsByStatus: {},
+				eventsByAction: {},
+				eventsByDataClassification: {},
+				uniquePrincipals: 0,
+				uniqueResources: 0,
+				integrityViolations: integrityReport.results.failedVerifications,
+				timeRange: {
+					earliest: criteria.dateRange.startDate,
+					latest: criteria.dateRange.endDate,
+				},
+			},
+			events: [],
+			integrityReport,
+		}
+
+		return this.exportComplianceReport(report, { ...config, includeIntegrityReport: true })
+	}
+
 	/**
 	 * Export to JSON format
 	 */
@@ -209,7 +260,13 @@ export class DataExportService {
 		const exportData = {
 			...(config.includeMetadata !== false && { metadata: report.metadata }),
 			summary: report.summary,
-			events: report.events,
+			events: config.columns?.length
+				? report.events.map((event) => projectEvent(event, config.columns!))
+				: report.events,
+			...(config.groupBy && {
+				groupBy: config.groupBy,
+				groups: groupReportEvents(report.events, config.groupBy),
+			}),
 			...(config.includeIntegrityReport &&
 				report.integrityReport && {
 					integrityReport: report.integrityReport,
@@ -268,7 +325,18 @@ export class DataExportService {
 			event.correlationId || '',
 		])
 
-		const csvContent = [headers.join(','), ...rows.map((row) => row.join(','))].join('\n')
+		const csvContent = config.columns?.length
+			? [
+					config.columns.map(exportColumnHeader).join(','),
+					...report.events.map((event) =>
+						Object.values(projectEvent(event, config.columns!))
+							.map((value) =>
+								this.escapeCsvValue(value === undefined || value === null ? '' : String(value))
+							)
+							.join(',')
+					),
+				].join('\n')
+			: [headers.join(','), ...rows.map((row) => row.join(','))].join('\n')
 
 		// Add metadata as comments if requested
 		let data = csvContent
@@ -278,6 +346,14 @@ export class DataExportService {
 				`# Report Type: ${report.metadata.reportType}`,
 				`# Generated At: ${report.metadata.generatedAt}`,
 				`# Total Events: ${report.metadata.totalEvents}`,
+				...(config.groupBy
+					? [
+							`# Events by ${config.groupBy}:`,
+							...groupReportEvents(report.events, config.groupBy).map(
+								(group) => `#   ${group.key}: ${group.count}`
+							),
+						]
+					: []),
 				'#',
 				csvContent,
 			].join('\n')
@@ -324,9 +400,28 @@ export class DataExportService {
 		xmlParts.push('    </timeRange>')
 		xmlParts.push('  </summary>')
 
+		if (config.groupBy) {
+			xmlParts.push(`  <groups groupBy="${config.groupBy}">`)
+			for (const group of groupReportEvents(report.events, config.groupBy)) {
+				xmlParts.push(`    <group key="${this.escapeXml(group.key)}">${group.count}</group>`)
+			}
+			xmlParts.push('  </groups>')
+		}
+
 		// Add events
 		xmlParts.push('  <events>')
 		for (const event of report.events) {
+			if (config.columns?.length) {
+				xmlParts.push('    <event>')
+				for (const [name, value] of Object.entries(projectEvent(event, config.columns))) {
+					if (value !== undefined && value !== null) {
+						xmlParts.push(`      <${name}>${this.escapeXml(String(value))}</${name}>`)
+					}
+				}
+				xmlParts.push('    </event>')
+				continue
+			}
+
 			xmlParts.push('    <event>')
 			xmlParts.push(`      <id>${event.id || ''}</id>`)
 			xmlParts.push(`      <timestamp>${this.escapeXml(event.timestamp)}</timestamp>`)
@@ -409,106 +504,35 @@ export class DataExportService {
 	}
 
 	/**
-	 * Export to PDF format (simplified implementation)
+	 * Export to PDF format
+	 * The document embeds the SHA-256 of the report content and, when a signer is configured,
+	 * a signature over it
 	 */
 	private async exportToPDF(
 		report: ComplianceReport,
 		config: ExportConfig
 	): Promise<{ data: Buffer; contentType: string; filename: string }> {
-		// This is a simplified PDF implementation
-		// TODO In a real implementation, you would use a library like PDFKit or Puppeteer
-
-		const htmlContent = this.generateHTMLReport(report, config)
-
-		// Placeholder: Convert HTML to PDF
-		// TODO In real implementation: const pdf = await htmlToPdf(htmlContent)
-		const pdfBuffer = Buffer.from(`PDF Report Placeholder\n\n${htmlContent}`, 'utf8')
+		const contentChecksum = createHash('sha256')
+			.update(PDFReportRenderer.contentPayload(report), 'utf8')
+			.digest('hex')
+		const signature = this.signer ? await this.signer.generateSignature(contentChecksum) : undefined
+
+		const data = await this.pdfRenderer.render(report, {
+			includeIntegrityReport: config.includeIntegrityReport,
+			attestation: {
+				contentChecksum,
+				signature: signature?.signature,
+				signatureAlgorithm: signature?.algorithm,
+			},
+		})
 
 		return {
-			data: pdfBuffer,
+			data,
 			contentType: 'application/pdf',
 			filename: `audit-report-${report.metadata.reportId}.pdf`,
 		}
 	}
 
-	/**
-	 * Generate HTML report for PDF conversion
-	 */
-	private generateHTMLReport(report: ComplianceReport, config: ExportConfig): string {
-		const html = [
-			`
-<!DOCTYPE html>
-<html>
-<head>
-    <title>Audit Compliance Report</title>
-    <style>
-        body { font-family: Arial, sans-serif; margin: 20px; }
-        .header { border-bottom: 2px solid #333; padding-bottom: 10px; margin-bottom: 20px; }
-        .summary { background-color: #f5f5f5; padding: 15px; margin-bottom: 20px; }
-        .events { margin-top: 20px; }
-        table { width: 100%; border-collapse: collapse; margin-top: 10px; }
-        th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-        th { background-color: #f2f2f2; }
-        .metadata { font-size: 0.9em; color: #666; }
-    </style>
-</head>
-<body>
-    <div class="header">
-        <h1>Audit Compliance Report</h1>
-        <div class="metadata">
-            <p>Report ID: ${report.metadata.reportId}</p>
-            <p>Report Type: ${report.metadata.reportType}</p>
-            <p>Generated: ${report.metadata.generatedAt}</p>
-        </div>
-    </div>
-    
-    <div class="summary">
-        <h2>Summary</h2>
-        <p>Total Events: ${report.metadata.totalEvents}</p>
-        <p>Unique Principals: ${report.summary.uniquePrincipals}</p>
-        <p>Unique Resources: ${report.summary.uniqueResources}</p>
-        <p>Integrity Violations: ${report.summary.integrityViolations}</p>
-    </div>
-    
-    <div class="events">
-        <h2>Audit Events</h2>
-        <table>
-            <thead>
-                <tr>
-                    <th>Timestamp</th>
-                    <th>Principal</th>
-                    <th>Action</th>
-                    <th>Resource</th>
-                    <th>Status</th>
-                    <th>Classification</th>
-                </tr>
-            </thead>
-            <tbody>`,
-		]
-
-		for (const event of report.events.slice(0, 100)) {
-			// Limit for PDF
-			html.push(`
-                <tr>
-                    <td>${event.timestamp}</td>
-                    <td>${event.principalId || ''}</td>
-                    <td>${event.action}</td>
-                    <td>${event.targetResourceType || ''}/${event.targetResourceId || ''}</td>
-                    <td>${event.status}</td>
-                    <td>${event.dataClassification || ''}</td>
-                </tr>`)
-		}
-
-		html.push(`
-            </tbody>
-        </table>
-    </div>
-</body>
-</html>`)
-
-		return html.join('')
-	}
-
 	/**
 	 * Compress data using specified algorithm
 	 */
@@ -548,10 +572,8 @@ export class DataExportService {
 	 * Calculate checksum for data integrity
 	 */
 	private async calculateChecksum(data: string | Buffer): Promise<string> {
-		// Placeholder implementation
-		// TODO In real implementation, would use crypto.createHash('sha256')
 		const inputBuffer = Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8')
-		return `sha256:${inputBuffer.length.toString(16)}-${Date.now().toString(16)}`
+		return `sha256:${createHash('sha256').update(inputBuffer).digest('hex')}`
 	}
 
 	/**
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Export Passphrase Encryption
+ *
+ * Exported files can be encrypted for whoever receives them outside the system:
+ * - The key is derived from a passphrase chosen by the requester with scrypt and a random salt
+ * - The file is encrypted with AES-256-GCM as it streams, so no plaintext copy is stored
+ * - The salt and IV are written at the head of the file and the authentication tag at its end,
+ *   so the passphrase alone is enough to decrypt it with decryptExport or the CLI
+ *   (smart-logs decrypt-export)
+ *
+ * File layout: MAGIC (8 bytes) | salt (16) | iv (12) | ciphertext | authTag (16)
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto'
+import { Transform } from 'stream'
+
+export const EXPORT_ENCRYPTION_ALGORITHM = 'aes-256-gcm'
+
+const MAGIC = Buffer.from('AUDEXP01', 'ascii')
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+const KEY_LENGTH = 32
+
+/**
+ * Key derived from an export passphrase
+ */
+export interface ExportEncryptionKey {
+	key: Buffer
+	salt: Buffer
+}
+
+/**
+ * Export encryption or decryption failed
+ */
+export class ExportEncryptionError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'ExportEncryptionError'
+	}
+}
+
+/**
+ * Derive the encryption key of an export from its passphrase
+ */
+export async function deriveExportKey(
+	passphrase: string,
+	salt: Buffer = randomBytes(SALT_LENGTH)
+): Promise<ExportEncryptionKey> {
+	const key = await new Promise<Buffer>((resolve, reject) =>
+		scrypt(passphrase, salt, KEY_LENGTH, (error, derived) =>
+			error ? reject(error) : resolve(derived)
+		)
+	)
+	return { key, salt }
+}
+
+/**
+ * Transform encrypting a stream into the export file layout
+ */
+export function createExportCipher({ key, salt }: ExportEncryptionKey): Transform {
+	const iv = randomBytes(IV_LENGTH)
+	const cipher = createCipheriv(EXPORT_ENCRYPTION_ALGORITHM, key, iv)
+	let headerWritten = false
+
+	const writeHeader = (transform: Transform) => {
+		if (headerWritten) return
+		transform.push(Buffer.concat([MAGIC, salt, iv]))
+		headerWritten = true
+	}
+
+	return new Transform({
+		transform(chunk: Buffer, _encoding, callback) {
+			writeHeader(this)
+			callback(null, cipher.update(chunk))
+		},
+		flush(callback) {
+			writeHeader(this)
+			this.push(cipher.final())
+			callback(null, cipher.getAuthTag())
+		},
+	})
+}
+
+/**
+ * Decrypt an encrypted export file with its passphrase
+ */
+export async function decryptExport(data: Buffer, passphrase: string): Promise<Buffer> {
+	const headerLength = MAGIC.length + SALT_LENGTH + IV_LENGTH
+	if (
+		data.length < headerLength + AUTH_TAG_LENGTH ||
+		!data.subarray(0, MAGIC.length).equals(MAGIC)
+	) {
+		throw new ExportEncryptionError('Not an encrypted export file')
+	}
+
+	const salt = data.subarray(MAGIC.length, MAGIC.length + SALT_LENGTH)
+	const iv = data.subarray(MAGIC.length + SALT_LENGTH, headerLength)
+	const authTag = data.subarray(data.length - AUTH_TAG_LENGTH)
+	const { key } = await deriveExportKey(passphrase, salt)
+
+	try {
+		const decipher = createDecipheriv(EXPORT_ENCRYPTION_ALGORITHM, key, iv)
+		decipher.setAuthTag(authTag)
+		return Buffer.concat([
+			decipher.update(data.subarray(headerLength, data.length - AUTH_TAG_LENGTH)),
+			decipher.final(),
+		])
+	} catch {
+		throw new ExportEncryptionError('Wrong passphrase or the export file was altered')
+	}
+}
@@ -0,0 +1,583 @@
+/**
+ * @fileoverview Export Job Service
+ *
+ * Runs large audit event exports in the background instead of on request threads:
+ * - Jobs are persisted in audit_export_job and handed to a worker through Inngest
+ * - The worker streams the export into storage, recording progress per batch
+ * - PDF exports are rendered in one piece and capped in size, other formats stream
+ * - Files can be encrypted with a passphrase; only the derived key is kept, wrapped by the KMS,
+ *   until the job ends
+ * - Jobs can be cancelled while pending or processing
+ * - Finished files can be downloaded until the job expires, after which they are deleted
+ * - Jobs that never finish, e.g. because the worker died, are failed by a periodic sweep
+ */
+
+import { randomUUID } from 'crypto'
+import { and, desc, eq, inArray, lte, or, sql } from 'drizzle-orm'
+import { Inngest } from 'inngest'
+
+import { auditExportJob } from '@repo/audit-db'
+
+import { deriveExportKey, EXPORT_ENCRYPTION_ALGORITHM } from './export-encryption.js'
+
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+import type { Readable } from 'stream'
+import type { ArchiveKeyWrapper } from '../archival/archive-encryption.js'
+import type { ComplianceReportEvent } from './compliance-reporting.js'
+import type { DataExportService } from './data-export.js'
+import type { ExportEncryptionKey } from './export-encryption.js'
+import type {
+	ExportColumn,
+	ExportFileFormat,
+	StoredExport,
+	StreamingExportFilter,
+	StreamingExportService,
+} from './streaming-export.js'
+
+export type ExportJobStatus =
+	| 'pending'
+	| 'processing'
+	| 'completed'
+	| 'failed'
+	| 'cancelled'
+	| 'expired'
+
+/**
+ * Where a finished export goes
+ * Email recipients are notified that the export is ready; the file itself stays behind sign-in.
+ */
+export type ExportDelivery = { method: 'download' } | { method: 'email'; recipients: string[] }
+
+/**
+ * Request for a new export job
+ */
+export interface ExportJobRequest {
+	organizationId: string
+	requestedBy: string
+	filter?: Omit<StreamingExportFilter, 'organizationId'>
+	format: ExportFileFormat
+	compression?: 'none' | 'gzip'
+	includeMetadata?: boolean
+	/** Event fields to write, all of them when omitted; ignored by PDF exports */
+	columns?: ExportColumn[]
+	/** Encrypts the file, see export-encryption for decrypting it */
+	passphrase?: string
+	delivery?: ExportDelivery
+}
+
+/**
+ * Encryption settings stored with a job
+ * The wrapped key is only kept until the job is processed, failed or cancelled.
+ */
+interface StoredExportEncryption {
+	algorithm: typeof EXPORT_ENCRYPTION_ALGORITHM
+	/** Base64 scrypt salt */
+	salt?: string
+	/** KMS key that wrapped the derived key */
+	keyId?: string
+	/** Derived key wrapped by the KMS */
+	wrappedKey?: string
+}
+
+/**
+ * Persisted export job
+ */
+export interface ExportJob {
+	id: string
+	organizationId: string
+	requestedBy: string
+	status: ExportJobStatus
+	format: ExportFileFormat
+	compression: 'none' | 'gzip'
+	includeMetadata: boolean
+	filter: Omit<StreamingExportFilter, 'organizationId'>
+	columns?: ExportColumn[]
+	encrypted: boolean
+	delivery: ExportDelivery
+	/** Percentage of matching events written, 0-100 */
+	progress: number
+	totalRecords?: number
+	recordCount?: number
+	size?: number
+	checksum?: string
+	filename?: string
+	contentType?: string
+	error?: string
+	createdAt: string
+	startedAt?: string
+	completedAt?: string
+	expiresAt?: string
+}
+
+/**
+ * A finished export opened for download
+ */
+export interface ExportJobDownload {
+	job: ExportJob
+	stream: Readable
+}
+
+export interface ExportJobServiceOptions {
+	/** How long a finished export can be downloaded, in milliseconds */
+	downloadTtl?: number
+	/** Rows read from the database per round trip while processing */
+	batchSize?: number
+	/** Renders PDF exports; PDF jobs fail without it */
+	pdfExporter?: Pick<DataExportService, 'exportAuditEvents'>
+	/** Most events a PDF export may hold */
+	maxPdfRecords?: number
+	/** How long a job may stay pending or processing before the sweep fails it, in milliseconds */
+	stalledJobTimeout?: number
+	/** Wraps the keys of encrypted exports while they wait for the worker; required to encrypt */
+	keyWrapper?: ArchiveKeyWrapper
+}
+
+/**
+ * Export job error
+ */
+export class ExportJobError extends Error {
+	public readonly code: 'NOT_FOUND' | 'NOT_READY' | 'EXPIRED' | 'NOT_CANCELLABLE' | 'NOT_SUPPORTED'
+
+	constructor(message: string, code: ExportJobError['code']) {
+		super(message)
+		this.name = 'ExportJobError'
+		this.code = code
+	}
+}
+
+/** Thrown from the progress callback to stop a job that was cancelled */
+class ExportJobCancelledError extends Error {
+	constructor(jobId: string) {
+		super(`Export job ${jobId} was cancelled`)
+		this.name = 'ExportJobCancelledError'
+	}
+}
+
+const DEFAULT_DOWNLOAD_TTL = 24 * 60 * 60 * 1000
+const DEFAULT_MAX_PDF_RECORDS = 10_000
+const DEFAULT_STALLED_JOB_TIMEOUT = 6 * 60 * 60 * 1000
+const EXPIRY_BATCH_SIZE = 100
+
+/**
+ * Export Job Service
+ */
+export class ExportJobService {
+	private downloadTtl: number
+	private batchSize: number | undefined
+	private pdfExporter: ExportJobServiceOptions['pdfExporter']
+	private maxPdfRecords: number
+	private stalledJobTimeout: number
+	private keyWrapper: ArchiveKeyWrapper | undefined
+
+	constructor(
+		private db: PostgresJsDatabase<any>,
+		private streaming: StreamingExportService,
+		private inngest: Inngest,
+		options: ExportJobServiceOptions = {}
+	) {
+		this.downloadTtl = options.downloadTtl ?? DEFAULT_DOWNLOAD_TTL
+		this.batchSize = options.batchSize
+		this.pdfExporter = options.pdfExporter
+		this.maxPdfRecords = options.maxPdfRecords ?? DEFAULT_MAX_PDF_RECORDS
+		this.stalledJobTimeout = options.stalledJobTimeout ?? DEFAULT_STALLED_JOB_TIMEOUT
+		this.keyWrapper = options.keyWrapper
+	}
+
+	/**
+	 * Persist a pending job and hand it to the export worker
+	 */
+	async createJob(request: ExportJobRequest): Promise<ExportJob> {
+		let encryption: StoredExportEncryption | null = null
+		if (request.passphrase) {
+			if (!this.keyWrapper) {
+				throw new ExportJobError('Encrypted exports require KMS to be configured', 'NOT_SUPPORTED')
+			}
+			const { key, salt } = await deriveExportKey(request.passphrase)
+			encryption = {
+				algorithm: EXPORT_ENCRYPTION_ALGORITHM,
+				salt: salt.toString('base64'),
+				...(await this.keyWrapper.wrapKey(key)),
+			}
+		}
+
+		const [row] = await this.db
+			.insert(auditExportJob)
+			.values({
+				id: randomUUID(),
+				organizationId: request.organizationId,
+				requestedBy: request.requestedBy,
+				status: 'pending',
+				format: request.format,
+				compression: request.compression ?? 'none',
+				includeMetadata: request.includeMetadata ?? true,
+				filter: request.filter ?? {},
+				columns: request.columns?.length ? request.columns : null,
+				encryption,
+				delivery: request.delivery ?? { method: 'download' },
+			})
+			.returning()
+
+		try {
+			await this.inngest.send({
+				name: 'exports/export.requested',
+				data: { jobId: row.id },
+			})
+		} catch (error) {
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			await this.markFailed(row.id, `Failed to queue export job: ${message}`, 'pending')
+			throw new Error(`Failed to queue export job ${row.id}: ${message}`)
+		}
+
+		return this.mapDatabaseJob(row)
+	}
+
+	/**
+	 * Get a job of an organization
+	 */
+	async getJob(organizationId: string, jobId: string): Promise<ExportJob | null> {
+		const [row] = await this.db
+			.select()
+			.from(auditExportJob)
+			.where(and(eq(auditExportJob.id, jobId), eq(auditExportJob.organizationId, organizationId)))
+			.limit(1)
+
+		return row ? this.mapDatabaseJob(row) : null
+	}
+
+	/**
+	 * List the most recent jobs of an organization
+	 */
+	async listJobs(organizationId: string, limit = 20, offset = 0): Promise<ExportJob[]> {
+		const rows = await this.db
+			.select()
+			.from(auditExportJob)
+			.where(eq(auditExportJob.organizationId, organizationId))
+			.orderBy(desc(auditExportJob.createdAt))
+			.limit(limit)
+			.offset(offset)
+
+		return rows.map((row) => this.mapDatabaseJob(row))
+	}
+
+	/**
+	 * Cancel a pending or processing job
+	 * A processing job stops at its next batch and its partial file is discarded
+	 */
+	async cancelJob(organizationId: string, jobId: string): Promise<ExportJob> {
+		const [row] = await this.db
+			.update(auditExportJob)
+			.set({
+				status: 'cancelled',
+				completedAt: new Date().toISOString(),
+				encryption: this.withoutEncryptionKey(),
+			})
+			.where(
+				and(
+					eq(auditExportJob.id, jobId),
+					eq(auditExportJob.organizationId, organizationId),
+					inArray(auditExportJob.status, ['pending', 'processing'])
+				)
+			)
+			.returning()
+
+		if (row) return this.mapDatabaseJob(row)
+
+		const job = await this.getJob(organizationId, jobId)
+		if (!job) {
+			throw new ExportJobError(`Export job ${jobId} not found`, 'NOT_FOUND')
+		}
+		throw new ExportJobError(
+			`Export job ${jobId} is ${job.status} and cannot be cancelled`,
+			'NOT_CANCELLABLE'
+		)
+	}
+
+	/**
+	 * Open the file of a finished job
+	 */
+	async openDownload(organizationId: string, jobId: string): Promise<ExportJobDownload> {
+		const [row] = await this.db
+			.select()
+			.from(auditExportJob)
+			.where(and(eq(auditExportJob.id, jobId), eq(auditExportJob.organizationId, organizationId)))
+			.limit(1)
+
+		if (!row) {
+			throw new ExportJobError(`Export job ${jobId} not found`, 'NOT_FOUND')
+		}
+
+		const job = this.mapDatabaseJob(row)
+		if (
+			job.status === 'expired' ||
+			(job.expiresAt && new Date(job.expiresAt).getTime() <= Date.now())
+		) {
+			throw new ExportJobError(`Export job ${jobId} has expired`, 'EXPIRED')
+		}
+		if (job.status !== 'completed' || !row.storageKey) {
+			throw new ExportJobError(`Export job ${jobId} is ${job.status}`, 'NOT_READY')
+		}
+
+		return { job, stream: await this.streaming.readStoredExport(row.storageKey) }
+	}
+
+	/**
+	 * Run a pending job: stream the export into storage and record the outcome
+	 * Returns null when the job is no longer pending, e.g. it was cancelled or already taken
+	 */
+	async processJob(jobId: string): Promise<ExportJob | null> {
+		const [claimed] = await this.db
+			.update(auditExportJob)
+			.set({ status: 'processing', startedAt: new Date().toISOString() })
+			.where(and(eq(auditExportJob.id, jobId), eq(auditExportJob.status, 'pending')))
+			.returning()
+
+		if (!claimed) return null
+
+		const job = this.mapDatabaseJob(claimed)
+		const filter: StreamingExportFilter = { ...job.filter, organizationId: job.organizationId }
+
+		try {
+			const encryption = await this.encryptionKeyOf(claimed)
+			const totalRecords = await this.streaming.countEvents(filter)
+			await this.db.update(auditExportJob).set({ totalRecords }).where(eq(auditExportJob.id, jobId))
+
+			const recordProgress = async (recordCount: number) => {
+				// Recording progress doubles as the cancellation check
+				const [running] = await this.db
+					.update(auditExportJob)
+					.set({ progress: this.progressOf(recordCount, totalRecords), recordCount })
+					.where(and(eq(auditExportJob.id, jobId), eq(auditExportJob.status, 'processing')))
+					.returning({ id: auditExportJob.id })
+				if (!running) throw new ExportJobCancelledError(jobId)
+			}
+
+			const stored =
+				job.format === 'pdf'
+					? await this.storePdfExport(job, filter, totalRecords, encryption, recordProgress)
+					: await this.streaming.exportToStorage(filter, {
+							format: job.format,
+							compression: job.compression,
+							includeMetadata: job.includeMetadata,
+							columns: job.columns,
+							encryption,
+							batchSize: this.batchSize,
+							exportedBy: job.requestedBy,
+							exportId: job.id,
+							onProgress: recordProgress,
+						})
+
+			const completedAt = new Date()
+			const [completed] = await this.db
+				.update(auditExportJob)
+				.set({
+					status: 'completed',
+					progress: 100,
+					recordCount: stored.recordCount,
+					size: stored.size,
+					checksum: stored.checksum,
+					filename: stored.filename,
+					contentType: stored.contentType,
+					storageKey: stored.key,
+					encryption: this.withoutEncryptionKey(),
+					completedAt: completedAt.toISOString(),
+					expiresAt: new Date(completedAt.getTime() + this.downloadTtl).toISOString(),
+				})
+				.where(and(eq(auditExportJob.id, jobId), eq(auditExportJob.status, 'processing')))
+				.returning()
+
+			if (!completed) {
+				// Cancelled after the last batch was written
+				await this.streaming.deleteStoredExport(stored.key)
+				return this.getJob(job.organizationId, jobId)
+			}
+
+			return this.mapDatabaseJob(completed)
+		} catch (error) {
+			if (error instanceof ExportJobCancelledError) {
+				return this.getJob(job.organizationId, jobId)
+			}
+
+			const message = error instanceof Error ? error.message : 'Unknown error'
+			await this.markFailed(jobId, message, 'processing')
+			throw error
+		}
+	}
+
+	/**
+	 * Delete the files of finished jobs whose download window has passed
+	 * Returns the number of jobs expired
+	 */
+	async expireJobs(now: Date = new Date()): Promise<number> {
+		let expired = 0
+
+		while (true) {
+			const rows = await this.db
+				.select()
+				.from(auditExportJob)
+				.where(
+					and(
+						eq(auditExportJob.status, 'completed'),
+						lte(auditExportJob.expiresAt, now.toISOString())
+					)
+				)
+				.limit(EXPIRY_BATCH_SIZE)
+
+			for (const row of rows) {
+				if (row.storageKey) await this.streaming.deleteStoredExport(row.storageKey)
+				await this.db
+					.update(auditExportJob)
+					.set({ status: 'expired', storageKey: null })
+					.where(eq(auditExportJob.id, row.id))
+			}
+
+			expired += rows.length
+			if (rows.length < EXPIRY_BATCH_SIZE) return expired
+		}
+	}
+
+	/**
+	 * Fail jobs left pending or processing for longer than the stalled job timeout
+	 * and clear their encryption keys. A worker that is still running stops at its next batch.
+	 * Returns the number of jobs failed
+	 */
+	async failStalledJobs(now: Date = new Date()): Promise<number> {
+		const cutoff = new Date(now.getTime() - this.stalledJobTimeout).toISOString()
+
+		const rows = await this.db
+			.update(auditExportJob)
+			.set({
+				status: 'failed',
+				error: 'Export job did not finish in time',
+				completedAt: now.toISOString(),
+				encryption: this.withoutEncryptionKey(),
+			})
+			.where(
+				or(
+					and(eq(auditExportJob.status, 'pending'), lte(auditExportJob.createdAt, cutoff)),
+					and(eq(auditExportJob.status, 'processing'), lte(auditExportJob.startedAt, cutoff))
+				)
+			)
+			.returning({ id: auditExportJob.id })
+
+		return rows.length
+	}
+
+	/**
+	 * Render a PDF export in one piece and store it
+	 */
+	private async storePdfExport(
+		job: ExportJob,
+		filter: StreamingExportFilter,
+		totalRecords: number,
+		encryption: ExportEncryptionKey | undefined,
+		recordProgress: (recordCount: number) => Promise<void>
+	): Promise<StoredExport> {
+		if (!this.pdfExporter) {
+			throw new Error('PDF exports are not configured')
+		}
+		if (totalRecords > this.maxPdfRecords) {
+			throw new Error(
+				`PDF exports are limited to ${this.maxPdfRecords} events, ${totalRecords} match the filter`
+			)
+		}
+
+		const batchSize = this.batchSize ?? 1000
+		const events: ComplianceReportEvent[] = []
+		for await (const event of this.streaming.readEvents(filter, batchSize)) {
+			events.push(event)
+			if (events.length % batchSize === 0) await recordProgress(events.length)
+		}
+
+		const rendered = await this.pdfExporter.exportAuditEvents(
+			events,
+			{ format: 'pdf', includeMetadata: job.includeMetadata },
+			{ criteria: { dateRange: filter.dateRange, organizationIds: [job.organizationId] } }
+		)
+
+		return this.streaming.storeRenderedExport(
+			job.organizationId,
+			{
+				exportId: job.id,
+				format: 'pdf',
+				extension: 'pdf',
+				contentType: rendered.contentType,
+				data: Buffer.isBuffer(rendered.data) ? rendered.data : Buffer.from(rendered.data),
+				recordCount: events.length,
+			},
+			{ compression: job.compression, encryption }
+		)
+	}
+
+	/**
+	 * Unwrap the key of an encrypted job
+	 * Fails rather than writing the file in clear when the key is gone.
+	 */
+	private async encryptionKeyOf(
+		row: typeof auditExportJob.$inferSelect
+	): Promise<ExportEncryptionKey | undefined> {
+		const encryption = row.encryption as StoredExportEncryption | null
+		if (!encryption) return undefined
+		if (!encryption.keyId || !encryption.wrappedKey || !encryption.salt || !this.keyWrapper) {
+			throw new Error(`The encryption key of export job ${row.id} is not available`)
+		}
+
+		return {
+			key: await this.keyWrapper.unwrapKey({
+				keyId: encryption.keyId,
+				wrappedKey: encryption.wrappedKey,
+			}),
+			salt: Buffer.from(encryption.salt, 'base64'),
+		}
+	}
+
+	/** The stored encryption settings without the wrapped key */
+	private withoutEncryptionKey() {
+		return sql`${auditExportJob.encryption} - 'wrappedKey'`
+	}
+
+	private async markFailed(jobId: string, message: string, from: ExportJobStatus): Promise<void> {
+		await this.db
+			.update(auditExportJob)
+			.set({
+				status: 'failed',
+				error: message,
+				completedAt: new Date().toISOString(),
+				encryption: this.withoutEncryptionKey(),
+			})
+			.where(and(eq(auditExportJob.id, jobId), eq(auditExportJob.status, from)))
+	}
+
+	private progressOf(recordCount: number, totalRecords: number): number {
+		if (totalRecords <= 0) return 0
+		// Stay below 100 until the file is stored
+		return Math.min(99, Math.floor((recordCount / totalRecords) * 100))
+	}
+
+	private mapDatabaseJob(row: typeof auditExportJob.$inferSelect): ExportJob {
+		return {
+			id: row.id,
+			organizationId: row.organizationId,
+			requestedBy: row.requestedBy,
+			status: row.status,
+			format: row.format as ExportFileFormat,
+			compression: row.compression as ExportJob['compression'],
+			includeMetadata: row.includeMetadata,
+			filter: row.filter as ExportJob['filter'],
+			columns: (row.columns as ExportColumn[] | null) ?? undefined,
+			encrypted: !!row.encryption,
+			delivery: (row.delivery as ExportDelivery | null) ?? { method: 'download' },
+			progress: row.progress,
+			totalRecords: row.totalRecords ?? undefined,
+			recordCount: row.recordCount ?? undefined,
+			size: row.size ?? undefined,
+			checksum: row.checksum ?? undefined,
+			filename: row.filename ?? undefined,
+			contentType: row.contentType ?? undefined,
+			error: row.error ?? undefined,
+			createdAt: row.createdAt,
+			startedAt: row.startedAt ?? undefined,
+			completedAt: row.completedAt ?? undefined,
+			expiresAt: row.expiresAt ?? undefined,
+		}
+	}
+}
@@ -0,0 +1,509 @@
+/**
+ * @fileoverview PDF Report Renderer
+ *
+ * Renders compliance reports as paginated PDF documents:
+ * - Cover page with report metadata and the content checksum
+ * - Summary and breakdown tables
+ * - HIPAA, GDPR and integrity verification sections
+ * - Untruncated event tables with repeated headers across pages
+ * - Page numbers and a checksum/signature footer on every page
+ */
+
+import PDFDocument from 'pdfkit'
+
+import type {
+	ComplianceReport,
+	ComplianceReportEvent,
+	GDPRComplianceReport,
+	HIPAAComplianceReport,
+	IntegrityFailure,
+} from './compliance-reporting.js'
+
+/**
+ * Integrity attestation embedded in the rendered document
+ */
+export interface PDFReportAttestation {
+	/** SHA-256 of the canonical JSON serialization of the report (see PDFReportRenderer.contentPayload) */
+	contentChecksum: string
+
+	/** Signature over the content checksum */
+	signature?: string
+
+	/** Algorithm used to produce the signature */
+	signatureAlgorithm?: string
+}
+
+/**
+ * Rendering options
+ */
+export interface PDFReportOptions {
+	/** Render the integrity verification section when the report carries one */
+	includeIntegrityReport?: boolean
+	attestation: PDFReportAttestation
+}
+
+interface TableColumn<T> {
+	header: string
+	/** Relative column width */
+	width: number
+	value: (row: T) => string
+}
+
+const PAGE_MARGIN = 50
+const FOOTER_HEIGHT = 36
+const CELL_PADDING = 4
+const MAX_ROW_HEIGHT = 120
+const HEADER_FILL = '#e8e8e8'
+
+const REPORT_TITLES: Record<string, string> = {
+	HIPAA_AUDIT_TRAIL: 'HIPAA Audit Trail Report',
+	GDPR_PROCESSING_ACTIVITIES: 'GDPR Processing Activities Report',
+	INTEGRITY_VERIFICATION: 'Audit Trail Integrity Verification Report',
+	AUDIT_EVENTS_EXPORT: 'Audit Events Export',
+}
+
+const EVENT_COLUMNS: TableColumn<ComplianceReportEvent>[] = [
+	{ header: 'ID', width: 0.7, value: (event) => (event.id !== undefined ? String(event.id) : '') },
+	{ header: 'Timestamp', width: 1.9, value: (event) => event.timestamp },
+	{ header: 'Principal', width: 1.4, value: (event) => event.principalId || '' },
+	{ header: 'Action', width: 1.6, value: (event) => event.action },
+	{
+		header: 'Resource',
+		width: 1.6,
+		value: (event) =>
+			[event.targetResourceType, event.targetResourceId].filter(Boolean).join('/') || '',
+	},
+	{ header: 'Status', width: 0.9, value: (event) => event.status },
+	{ header: 'Classification', width: 1.2, value: (event) => event.dataClassification || '' },
+	{ header: 'Integrity', width: 0.9, value: (event) => event.integrityStatus || '' },
+]
+
+const FAILURE_COLUMNS: TableColumn<IntegrityFailure>[] = [
+	{ header: 'Event ID', width: 0.8, value: (failure) => String(failure.eventId) },
+	{ header: 'Timestamp', width: 1.6, value: (failure) => failure.timestamp },
+	{ header: 'Severity', width: 0.8, value: (failure) => failure.severity },
+	{ header: 'Reason', width: 1.4, value: (failure) => failure.failureReason },
+	{ header: 'Expected Hash', width: 2, value: (failure) => failure.expectedHash },
+	{ header: 'Actual Hash', width: 2, value: (failure) => failure.actualHash },
+]
+
+/**
+ * Renders compliance reports to PDF
+ */
+export class PDFReportRenderer {
+	/**
+	 * Canonical payload hashed into the content checksum
+	 * Anyone holding the report data can recompute the checksum printed in the document
+	 */
+	static contentPayload(report: ComplianceReport): string {
+		return JSON.stringify(report)
+	}
+
+	/**
+	 * Render a report to a PDF buffer
+	 */
+	async render(report: ComplianceReport, options: PDFReportOptions): Promise<Buffer> {
+		const doc = new PDFDocument({
+			size: 'A4',
+			layout: 'landscape',
+			bufferPages: true,
+			margins: {
+				top: PAGE_MARGIN,
+				bottom: PAGE_MARGIN + FOOTER_HEIGHT,
+				left: PAGE_MARGIN,
+				right: PAGE_MARGIN,
+			},
+			info: {
+				Title: `${this.reportTitle(report)} ${report.metadata.reportId}`,
+				Author: report.metadata.generatedBy || 'system',
+				Subject: report.metadata.reportType,
+				Keywords: `checksum:${options.attestation.contentChecksum}`,
+				CreationDate: new Date(report.metadata.generatedAt),
+			},
+		})
+
+		const chunks: Buffer[] = []
+		const finished = new Promise<Buffer>((resolve, reject) => {
+			doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+			doc.on('end', () => resolve(Buffer.concat(chunks)))
+			doc.on('error', reject)
+		})
+
+		this.renderCoverPage(doc, report, options.attestation)
+
+		doc.addPage()
+		this.renderSummary(doc, report)
+
+		if (this.isHIPAAReport(report)) {
+			this.renderHIPAASection(doc, report)
+		}
+		if (this.isGDPRReport(report)) {
+			this.renderGDPRSection(doc, report)
+		}
+		if (
+			report.integrityReport &&
+			(options.includeIntegrityReport || report.metadata.reportType === 'INTEGRITY_VERIFICATION')
+		) {
+			this.renderIntegritySection(doc, report)
+		}
+
+		if (report.events.length > 0 || report.metadata.reportType !== 'INTEGRITY_VERIFICATION') {
+			this.renderHeading(doc, `Audit Events (${report.events.length})`)
+			this.renderTable(doc, EVENT_COLUMNS, report.events)
+		}
+
+		this.renderAttestationSection(doc, options.attestation)
+		this.renderFooters(doc, report, options.attestation)
+
+		doc.end()
+		return finished
+	}
+
+	private renderCoverPage(
+		doc: PDFKit.PDFDocument,
+		report: ComplianceReport,
+		attestation: PDFReportAttestation
+	): void {
+		const { criteria } = report.metadata
+
+		doc.moveDown(6)
+		doc.font('Helvetica-Bold').fontSize(26).text(this.reportTitle(report), { align: 'center' })
+		doc.moveDown(0.5)
+		doc
+			.font('Helvetica')
+			.fontSize(13)
+			.fillColor('#555555')
+			.text(`${criteria.dateRange?.startDate ?? ''} to ${criteria.dateRange?.endDate ?? ''}`, {
+				align: 'center',
+			})
+		doc.fillColor('black').moveDown(3)
+
+		this.renderKeyValueTable(doc, [
+			['Report ID', report.metadata.reportId],
+			['Report Type', report.metadata.reportType],
+			['Generated At', report.metadata.generatedAt],
+			['Generated By', report.metadata.generatedBy || 'system'],
+			['Organizations', criteria.organizationIds?.join(', ') || 'All'],
+			['Total Events', String(report.metadata.totalEvents)],
+			['Content Checksum (SHA-256)', attestation.contentChecksum],
+			[
+				'Signature',
+				attestation.signature ? `${attestation.signatureAlgorithm} (see final page)` : 'Not signed',
+			],
+		])
+	}
+
+	private renderSummary(doc: PDFKit.PDFDocument, report: ComplianceReport): void {
+		const { summary } = report
+
+		this.renderHeading(doc, 'Summary')
+		this.renderKeyValueTable(doc, [
+			['Total Events', String(report.metadata.totalEvents)],
+			['Unique Principals', String(summary.uniquePrincipals)],
+			['Unique Resources', String(summary.uniqueResources)],
+			['Integrity Violations', String(summary.integrityViolations)],
+			['Earliest Event', summary.timeRange.earliest],
+			['Latest Event', summary.timeRange.latest],
+		])
+
+		this.renderBreakdown(doc, 'Events by Status', summary.eventsByStatus)
+		this.renderBreakdown(doc, 'Events by Action', summary.eventsByAction)
+		this.renderBreakdown(doc, 'Events by Data Classification', summary.eventsByDataClassification)
+	}
+
+	private renderHIPAASection(doc: PDFKit.PDFDocument, report: HIPAAComplianceReport): void {
+		const { hipaaSpecific, riskAssessment } = report
+
+		this.renderHeading(doc, 'HIPAA Safeguards')
+		this.renderKeyValueTable(doc, [
+			['PHI Access Events', String(hipaaSpecific.phiAccessEvents)],
+			['PHI Modification Events', String(hipaaSpecific.phiModificationEvents)],
+			['Unauthorized Attempts', String(hipaaSpecific.unauthorizedAttempts)],
+			['Emergency Access', String(hipaaSpecific.emergencyAccess)],
+			['Break Glass Events', String(hipaaSpecific.breakGlassEvents)],
+			['Minimum Necessary Violations', String(hipaaSpecific.minimumNecessaryViolations)],
+		])
+
+		this.renderHeading(doc, `High Risk Events (${riskAssessment.highRiskEvents.length})`)
+		this.renderTable(doc, EVENT_COLUMNS, riskAssessment.highRiskEvents)
+
+		for (const pattern of riskAssessment.suspiciousPatterns) {
+			this.renderHeading(doc, `Suspicious Pattern: ${pattern.patternType} (${pattern.riskLevel})`)
+			this.renderParagraph(doc, pattern.description)
+			this.renderParagraph(doc, `Recommendation: ${pattern.recommendation}`)
+			this.renderTable(doc, EVENT_COLUMNS, pattern.events)
+		}
+
+		if (riskAssessment.recommendations.length > 0) {
+			this.renderHeading(doc, 'Recommendations')
+			for (const recommendation of riskAssessment.recommendations) {
+				this.renderParagraph(doc, `- ${recommendation}`)
+			}
+		}
+	}
+
+	private renderGDPRSection(doc: PDFKit.PDFDocument, report: GDPRComplianceReport): void {
+		const { gdprSpecific, dataSubjectRights } = report
+
+		this.renderHeading(doc, 'GDPR Processing Activities')
+		this.renderKeyValueTable(doc, [
+			['Personal Data Events', String(gdprSpecific.personalDataEvents)],
+			['Data Subject Rights Events', String(gdprSpecific.dataSubjectRights)],
+			['Consent Events', String(gdprSpecific.consentEvents)],
+			['Data Breaches', String(gdprSpecific.dataBreaches)],
+			['Cross Border Transfers', String(gdprSpecific.crossBorderTransfers)],
+			['Retention Violations', String(gdprSpecific.retentionViolations)],
+		])
+
+		this.renderBreakdown(doc, 'Legal Basis', report.legalBasisBreakdown)
+
+		this.renderHeading(doc, 'Data Subject Rights Requests')
+		this.renderKeyValueTable(doc, [
+			['Access (Art. 15)', String(dataSubjectRights.accessRequests)],
+			['Rectification (Art. 16)', String(dataSubjectRights.rectificationRequests)],
+			['Erasure (Art. 17)', String(dataSubjectRights.erasureRequests)],
+			['Portability (Art. 20)', String(dataSubjectRights.portabilityRequests)],
+			['Objection (Art. 21)', String(dataSubjectRights.objectionRequests)],
+		])
+	}
+
+	private renderIntegritySection(doc: PDFKit.PDFDocument, report: ComplianceReport): void {
+		const integrity = report.integrityReport!
+		const { results, statistics } = integrity
+
+		this.renderHeading(doc, 'Integrity Verification')
+		this.renderKeyValueTable(doc, [
+			['Verification ID', integrity.verificationId],
+			['Verified At', integrity.verifiedAt],
+			['Verified By', integrity.verifiedBy || 'system'],
+			['Total Events', String(results.totalEvents)],
+			['Verified Events', String(results.verifiedEvents)],
+			['Failed Verifications', String(results.failedVerifications)],
+			['Unverified Events', String(results.unverifiedEvents)],
+			['Verification Rate', `${results.verificationRate.toFixed(2)}%`],
+			[
+				'Verification Latency (avg / median / p95)',
+				`${statistics.verificationLatency.average.toFixed(2)} / ${statistics.verificationLatency.median} / ${statistics.verificationLatency.p95} ms`,
+			],
+		])
+
+		this.renderBreakdown(doc, 'Hash Algorithms', statistics.hashAlgorithms)
+
+		this.renderHeading(doc, `Integrity Failures (${integrity.failures.length})`)
+		this.renderTable(doc, FAILURE_COLUMNS, integrity.failures)
+	}
+
+	private renderAttestationSection(
+		doc: PDFKit.PDFDocument,
+		attestation: PDFReportAttestation
+	): void {
+		doc.addPage()
+		this.renderHeading(doc, 'Integrity Attestation')
+		this.renderParagraph(
+			doc,
+			'The content checksum is the SHA-256 digest of the canonical JSON serialization of the report data. ' +
+				'The signature, when present, is computed over the checksum and can be verified with the ' +
+				'signing key of the issuing system.'
+		)
+		this.renderKeyValueTable(doc, [
+			['Content Checksum (SHA-256)', attestation.contentChecksum],
+			['Signature Algorithm', attestation.signatureAlgorithm || 'Not signed'],
+			['Signature', attestation.signature || 'Not signed'],
+		])
+	}
+
+	/**
+	 * Stamp page numbers and the checksum on every buffered page
+	 */
+	private renderFooters(
+		doc: PDFKit.PDFDocument,
+		report: ComplianceReport,
+		attestation: PDFReportAttestation
+	): void {
+		const range = doc.bufferedPageRange()
+		const signed = attestation.signature ? `Signed (${attestation.signatureAlgorithm})` : 'Unsigned'
+
+		for (let index = range.start; index < range.start + range.count; index++) {
+			doc.switchToPage(index)
+
+			// Writing inside the bottom margin would otherwise trigger a page break
+			const bottomMargin = doc.page.margins.bottom
+			doc.page.margins.bottom = 0
+
+			const width = doc.page.width - PAGE_MARGIN * 2
+			const y = doc.page.height - PAGE_MARGIN - FOOTER_HEIGHT + 12
+
+			doc
+				.moveTo(PAGE_MARGIN, y - 6)
+				.lineTo(PAGE_MARGIN + width, y - 6)
+				.strokeColor('#999999')
+				.lineWidth(0.5)
+				.stroke()
+			doc
+				.font('Helvetica')
+				.fontSize(7)
+				.fillColor('#555555')
+				.text(
+					`${report.metadata.reportId} | SHA-256: ${attestation.contentChecksum} | ${signed}`,
+					PAGE_MARGIN,
+					y,
+					{ width: width - 80, lineBreak: false }
+				)
+				.text(`Page ${index - range.start + 1} of ${range.count}`, PAGE_MARGIN + width - 80, y, {
+					width: 80,
+					align: 'right',
+					lineBreak: false,
+				})
+			doc.fillColor('black')
+
+			doc.page.margins.bottom = bottomMargin
+		}
+	}
+
+	private renderHeading(doc: PDFKit.PDFDocument, text: string): void {
+		this.ensureSpace(doc, 60)
+		doc.moveDown(0.8)
+		doc.font('Helvetica-Bold').fontSize(14).text(text, PAGE_MARGIN)
+		doc.moveDown(0.4)
+	}
+
+	private renderParagraph(doc: PDFKit.PDFDocument, text: string): void {
+		doc
+			.font('Helvetica')
+			.fontSize(9)
+			.text(text, PAGE_MARGIN, doc.y, { width: this.contentWidth(doc) })
+		doc.moveDown(0.4)
+	}
+
+	private renderBreakdown(
+		doc: PDFKit.PDFDocument,
+		title: string,
+		counts: Record<string, number>
+	): void {
+		const rows = Object.entries(counts).sort(([, a], [, b]) => b - a)
+		if (rows.length === 0) return
+
+		this.renderHeading(doc, title)
+		this.renderTable(
+			doc,
+			[
+				{ header: 'Value', width: 3, value: ([key]) => key },
+				{ header: 'Events', width: 1, value: ([, count]) => String(count) },
+			],
+			rows
+		)
+	}
+
+	private renderKeyValueTable(doc: PDFKit.PDFDocument, rows: Array<[string, string]>): void {
+		this.renderTable(
+			doc,
+			[
+				{ header: 'Field', width: 1, value: ([key]) => key },
+				{ header: 'Value', width: 2.5, value: ([, value]) => value },
+			],
+			rows,
+			false
+		)
+	}
+
+	/**
+	 * Draw a table, breaking onto new pages as needed and repeating the header on each page
+	 */
+	private renderTable<T>(
+		doc: PDFKit.PDFDocument,
+		columns: TableColumn<T>[],
+		rows: T[],
+		showHeader = true
+	): void {
+		if (rows.length === 0) {
+			this.renderParagraph(doc, 'None recorded.')
+			return
+		}
+
+		const tableWidth = this.contentWidth(doc)
+		const totalWeight = columns.reduce((sum, column) => sum + column.width, 0)
+		const widths = columns.map((column) => (column.width / totalWeight) * tableWidth)
+
+		doc.fontSize(8)
+
+		const drawRow = (cells: string[], bold: boolean, fill?: string) => {
+			doc.font(bold ? 'Helvetica-Bold' : 'Helvetica')
+			const height = Math.min(
+				MAX_ROW_HEIGHT,
+				Math.max(
+					...cells.map((cell, i) =>
+						doc.heightOfString(cell, { width: widths[i] - CELL_PADDING * 2 })
+					)
+				) +
+					CELL_PADDING * 2
+			)
+
+			if (doc.y + height > this.pageBottom(doc)) {
+				doc.addPage()
+				if (showHeader && !bold) {
+					drawRow(
+						columns.map((column) => column.header),
+						true,
+						HEADER_FILL
+					)
+				}
+				doc.font(bold ? 'Helvetica-Bold' : 'Helvetica')
+			}
+
+			const y = doc.y
+			let x = PAGE_MARGIN
+			cells.forEach((cell, i) => {
+				if (fill) doc.rect(x, y, widths[i], height).fill(fill).fillColor('black')
+				doc.rect(x, y, widths[i], height).strokeColor('#bbbbbb').lineWidth(0.5).stroke()
+				doc.text(cell, x + CELL_PADDING, y + CELL_PADDING, {
+					width: widths[i] - CELL_PADDING * 2,
+					height: height - CELL_PADDING * 2,
+					ellipsis: true,
+				})
+				x += widths[i]
+			})
+			doc.x = PAGE_MARGIN
+			doc.y = y + height
+		}
+
+		if (showHeader) {
+			this.ensureSpace(doc, 40)
+			drawRow(
+				columns.map((column) => column.header),
+				true,
+				HEADER_FILL
+			)
+		}
+		for (const row of rows) {
+			drawRow(
+				columns.map((column) => column.value(row)),
+				false
+			)
+		}
+		doc.moveDown(0.5)
+	}
+
+	private ensureSpace(doc: PDFKit.PDFDocument, height: number): void {
+		if (doc.y + height > this.pageBottom(doc)) doc.addPage()
+	}
+
+	private pageBottom(doc: PDFKit.PDFDocument): number {
+		return doc.page.height - doc.page.margins.bottom
+	}
+
+	private contentWidth(doc: PDFKit.PDFDocument): number {
+		return doc.page.width - PAGE_MARGIN * 2
+	}
+
+	private reportTitle(report: ComplianceReport): string {
+		return REPORT_TITLES[report.metadata.reportType] || 'Audit Compliance Report'
+	}
+
+	private isHIPAAReport(report: ComplianceReport): report is HIPAAComplianceReport {
+		return 'hipaaSpecific' in report && 'riskAssessment' in report
+	}
+
+	private isGDPRReport(report: ComplianceReport): report is GDPRComplianceReport {
+		return 'gdprSpecific' in report && 'dataSubjectRights' in report
+	}
+}
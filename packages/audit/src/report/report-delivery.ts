@@ -0,0 +1,291 @@
+/**
+ * @fileoverview Report Delivery
+ *
+ * Delivers exported compliance reports to their destination:
+ * - Email through the organization's @repo/mailer provider, with the report attached
+ * - Webhook POSTs signed with HMAC-SHA256, recording the real response codes
+ * - Local file system or S3-compatible object storage
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import path from 'path'
+
+import { NodeMailer } from '@repo/mailer'
+
+import { ReportStorage } from './report-storage.js'
+
+import type { MailerProvider } from '@repo/mailer'
+import type { ScheduledReportConfig } from './compliance-reporting.js'
+import type { ExportResult } from './data-export.js'
+import type { DeliveryAttempt, DeliveryConfig } from './scheduled-reporting.js'
+
+/**
+ * Mail transport used to send a report
+ */
+export interface ReportMailer {
+	from: string
+	mailer: MailerProvider
+}
+
+/**
+ * Resolves the mail transport configured for an organization
+ * Returns null when the organization has no provider, so the default SMTP transport is used
+ */
+export type ReportMailerResolver = (organizationId: string) => Promise<ReportMailer | null>
+
+/** Header carrying the HMAC-SHA256 signature of a webhook delivery */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Audit-Signature'
+
+/** Header carrying the unix timestamp (seconds) included in the signature */
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Audit-Timestamp'
+
+/**
+ * Sign a webhook body: sha256=HMAC-SHA256(secret, `${timestamp}.${body}`)
+ * Including the timestamp lets receivers reject replayed deliveries
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+	return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`, 'utf8').digest('hex')}`
+}
+
+/**
+ * Verify a webhook signature produced by signWebhookPayload in constant time
+ */
+export function verifyWebhookSignature(
+	secret: string,
+	timestamp: string,
+	body: string,
+	signature: string
+): boolean {
+	const expected = Buffer.from(signWebhookPayload(secret, timestamp, body))
+	const received = Buffer.from(signature)
+	return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * Transports for delivering generated reports
+ */
+export class ReportDelivery {
+	private defaultMailer: NodeMailer | null = null
+	private storage: ReportStorage | null
+
+	constructor(
+		private config: DeliveryConfig,
+		private mailerResolver?: ReportMailerResolver
+	) {
+		this.storage = config.storage ? new ReportStorage(config.storage) : null
+	}
+
+	/**
+	 * Email the report as an attachment to the configured recipients
+	 */
+	async deliverViaEmail(
+		report: ScheduledReportConfig,
+		reportResult: ExportResult,
+		attempt: DeliveryAttempt
+	): Promise<void> {
+		const recipients = report.delivery.recipients?.filter(Boolean) ?? []
+		if (recipients.length === 0) {
+			throw new Error('No email recipients configured')
+		}
+
+		const transport = await this.resolveMailer(report.organizationId)
+		const subject = `${this.config.email?.subject || 'Scheduled Audit Report'}: ${report.name}`
+		const attachmentName = this.config.email?.attachmentName
+			? `${this.config.email.attachmentName}${path.extname(reportResult.filename)}`
+			: reportResult.filename
+
+		const startTime = Date.now()
+		await transport.mailer.send({
+			from: transport.from,
+			to: recipients,
+			subject,
+			html: this.renderEmailHtml(report, reportResult),
+			text: this.renderEmailText(report, reportResult),
+			attachments: [
+				{
+					filename: attachmentName,
+					content: this.toBuffer(reportResult.data),
+					contentType: reportResult.contentType,
+				},
+			],
+		})
+		attempt.responseTime = Date.now() - startTime
+	}
+
+	/**
+	 * POST the report to the webhook URL with an HMAC-signed body
+	 * Network errors, timeouts, 408, 429 and 5xx responses are retried with exponential backoff
+	 */
+	async deliverViaWebhook(
+		report: ScheduledReportConfig,
+		reportResult: ExportResult,
+		attempt: DeliveryAttempt
+	): Promise<void> {
+		const url = report.delivery.webhookUrl || this.config.webhook?.url
+		if (!url) {
+			throw new Error('No webhook URL configured')
+		}
+		const secret = this.config.webhook?.secret
+		if (!secret) {
+			throw new Error('Webhook signing secret not configured')
+		}
+
+		const body = JSON.stringify({
+			event: 'report.delivered',
+			deliveryId: attempt.attemptId,
+			report: {
+				id: report.id,
+				name: report.name,
+				reportType: report.reportType,
+				organizationId: report.organizationId,
+			},
+			export: {
+				exportId: reportResult.exportId,
+				format: reportResult.format,
+				exportedAt: reportResult.exportedAt,
+				filename: reportResult.filename,
+				contentType: reportResult.contentType,
+				size: reportResult.size,
+				checksum: reportResult.checksum,
+			},
+			data: this.toBuffer(reportResult.data).toString('base64'),
+		})
+
+		const method = this.config.webhook?.method || 'POST'
+		const timeout = this.config.webhook?.timeout || 30000
+		const retryConfig = this.config.webhook?.retryConfig
+		const maxRetries = retryConfig?.maxRetries ?? 0
+		let lastError: Error = new Error('Webhook delivery failed')
+
+		for (let retry = 0; retry <= maxRetries; retry++) {
+			const timestamp = Math.floor(Date.now() / 1000).toString()
+			const startTime = Date.now()
+
+			try {
+				const response = await fetch(url, {
+					method,
+					headers: {
+						...this.config.webhook?.headers,
+						'Content-Type': 'application/json',
+						'X-Audit-Delivery-Id': attempt.attemptId,
+						[WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+						[WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+					},
+					body,
+					signal: AbortSignal.timeout(timeout),
+				})
+
+				attempt.responseCode = response.status
+				attempt.responseTime = Date.now() - startTime
+
+				if (response.ok) return
+
+				lastError = new Error(`Webhook responded with ${response.status} ${response.statusText}`)
+				if (!this.isRetryableStatus(response.status)) break
+			} catch (error) {
+				attempt.responseCode = undefined
+				attempt.responseTime = Date.now() - startTime
+				lastError = error instanceof Error ? error : new Error(String(error))
+			}
+
+			if (retry < maxRetries) {
+				const delay = Math.min(
+					1000 * Math.pow(retryConfig?.backoffMultiplier ?? 2, retry),
+					retryConfig?.maxBackoffDelay ?? 30000
+				)
+				await new Promise((resolve) => setTimeout(resolve, delay))
+			}
+		}
+
+		throw lastError
+	}
+
+	/**
+	 * Write the report to the configured file system or S3 storage
+	 * Objects are laid out as <location>/<organizationId>/<reportId>/<filename>
+	 */
+	async deliverViaStorage(
+		report: ScheduledReportConfig,
+		reportResult: ExportResult,
+		attempt: DeliveryAttempt
+	): Promise<void> {
+		if (!this.storage) {
+			throw new Error('No report storage configured')
+		}
+
+		const key = this.storage.objectKey(
+			report.delivery.storageLocation || this.config.storage!.path,
+			report.organizationId || 'default',
+			report.id,
+			path.posix.basename(reportResult.filename)
+		)
+		const startTime = Date.now()
+
+		const result = await this.storage.write(key, this.toBuffer(reportResult.data), {
+			contentType: reportResult.contentType,
+			metadata: {
+				'report-id': report.id,
+				'export-id': reportResult.exportId,
+				checksum: reportResult.checksum,
+			},
+		})
+
+		attempt.target = result.location
+		attempt.responseCode = result.responseCode
+		attempt.responseTime = Date.now() - startTime
+	}
+
+	private async resolveMailer(organizationId?: string): Promise<ReportMailer> {
+		if (this.mailerResolver && organizationId) {
+			const transport = await this.mailerResolver(organizationId)
+			if (transport) return transport
+		}
+
+		const email = this.config.email
+		if (!email?.smtpConfig.host) {
+			throw new Error('No email provider configured')
+		}
+		if (!this.defaultMailer) {
+			this.defaultMailer = new NodeMailer(email.smtpConfig)
+		}
+		return { from: email.from, mailer: this.defaultMailer }
+	}
+
+	private isRetryableStatus(status: number): boolean {
+		return status === 408 || status === 429 || status >= 500
+	}
+
+	private toBuffer(data: string | Buffer): Buffer {
+		return Buffer.isBuffer(data) ? data : Buffer.from(data, 'utf8')
+	}
+
+	private renderEmailText(report: ScheduledReportConfig, reportResult: ExportResult): string {
+		return [
+			this.config.email?.bodyTemplate || 'Please find the attached audit report.',
+			'',
+			`Report: ${report.name}`,
+			`Type: ${report.reportType}`,
+			`Format: ${reportResult.format.toUpperCase()}`,
+			`Generated: ${reportResult.exportedAt}`,
+			`Checksum: ${reportResult.checksum}`,
+		].join('\n')
+	}
+
+	private renderEmailHtml(report: ScheduledReportConfig, reportResult: ExportResult): string {
+		const escape = (value: string) =>
+			value
+				.replace(/&/g, '&amp;')
+				.replace(/</g, '&lt;')
+				.replace(/>/g, '&gt;')
+				.replace(/"/g, '&quot;')
+
+		return `<p>${escape(this.config.email?.bodyTemplate || 'Please find the attached audit report.')}</p>
+<table>
+  <tr><td>Report</td><td>${escape(report.name)}</td></tr>
+  <tr><td>Type</td><td>${escape(report.reportType)}</td></tr>
+  <tr><td>Format</td><td>${escape(reportResult.format.toUpperCase())}</td></tr>
+  <tr><td>Generated</td><td>${escape(reportResult.exportedAt)}</td></tr>
+  <tr><td>Checksum</td><td><code>${escape(reportResult.checksum)}</code></td></tr>
+</table>`
+	}
+}
@@ -0,0 +1,278 @@
+/**
+ * @fileoverview Report Storage
+ *
+ * Writes, reads and deletes reports and exports on the local file system or S3-compatible
+ * object storage.
+ * Streams are written without being buffered whole: S3 uploads use multipart parts.
+ */
+
+import { createReadStream, createWriteStream } from 'fs'
+import { mkdir, rm, stat, writeFile } from 'fs/promises'
+import path from 'path'
+import { pipeline } from 'stream/promises'
+import {
+	AbortMultipartUploadCommand,
+	CompleteMultipartUploadCommand,
+	CreateMultipartUploadCommand,
+	DeleteObjectCommand,
+	GetObjectCommand,
+	PutObjectCommand,
+	S3Client,
+	UploadPartCommand,
+} from '@aws-sdk/client-s3'
+
+import type { Readable } from 'stream'
+import type { DeliveryConfig } from './scheduled-reporting.js'
+
+/**
+ * Storage configuration shared by report delivery and exports
+ */
+export type ReportStorageConfig = NonNullable<DeliveryConfig['storage']>
+
+/**
+ * Options for a stored object
+ */
+export interface ReportStorageWriteOptions {
+	contentType: string
+	metadata?: Record<string, string>
+}
+
+/**
+ * Where an object was written
+ */
+export interface ReportStorageWriteResult {
+	/** Absolute file path or s3:// URI */
+	location: string
+	/** HTTP status code returned by object storage */
+	responseCode?: number
+}
+
+/** Size of each multipart upload part; S3 requires at least 5 MiB for all but the last part */
+const MULTIPART_PART_SIZE = 8 * 1024 * 1024
+
+/**
+ * Local file system or S3 storage for reports and exports
+ */
+export class ReportStorage {
+	private s3: S3Client | null = null
+
+	constructor(private storage: ReportStorageConfig) {}
+
+	/**
+	 * Join segments into a normalized object key, rejecting keys that escape the storage root
+	 */
+	objectKey(...segments: string[]): string {
+		const key = path.posix.normalize(
+			path.posix.join(...segments.map((segment) => segment.replace(/^\/+/, '')))
+		)
+		if (key.startsWith('..')) {
+			throw new Error('Storage location escapes the storage root')
+		}
+		return key
+	}
+
+	/**
+	 * Write a buffer or a stream under the given key
+	 */
+	async write(
+		key: string,
+		body: Buffer | Readable,
+		options: ReportStorageWriteOptions
+	): Promise<ReportStorageWriteResult> {
+		switch (this.storage.provider) {
+			case 'local':
+				return this.writeLocal(key, body)
+			case 's3':
+				return Buffer.isBuffer(body)
+					? this.putS3Object(key, body, options)
+					: this.uploadS3Stream(key, body, options)
+			default:
+				throw new Error(`Unsupported storage provider: ${this.storage.provider}`)
+		}
+	}
+
+	/**
+	 * Open a stored object for reading
+	 */
+	async read(key: string): Promise<Readable> {
+		switch (this.storage.provider) {
+			case 'local': {
+				const target = this.localPath(key)
+				// Surface a missing file before handing out a stream that would fail on first read
+				await stat(target)
+				return createReadStream(target)
+			}
+			case 's3': {
+				const response = await this.getS3Client().send(
+					new GetObjectCommand({ Bucket: this.getBucket(), Key: key })
+				)
+				if (!response.Body) {
+					throw new Error(`Stored object ${key} has no content`)
+				}
+				return response.Body as Readable
+			}
+			default:
+				throw new Error(`Unsupported storage provider: ${this.storage.provider}`)
+		}
+	}
+
+	/**
+	 * Delete a stored object; deleting a missing object is not an error
+	 */
+	async delete(key: string): Promise<void> {
+		switch (this.storage.provider) {
+			case 'local':
+				await rm(this.localPath(key), { force: true })
+				return
+			case 's3':
+				await this.getS3Client().send(
+					new DeleteObjectCommand({ Bucket: this.getBucket(), Key: key })
+				)
+				return
+			default:
+				throw new Error(`Unsupported storage provider: ${this.storage.provider}`)
+		}
+	}
+
+	private async writeLocal(
+		key: string,
+		body: Buffer | Readable
+	): Promise<ReportStorageWriteResult> {
+		const target = this.localPath(key)
+
+		await mkdir(path.dirname(target), { recursive: true })
+		if (Buffer.isBuffer(body)) {
+			await writeFile(target, body)
+		} else {
+			try {
+				await pipeline(body, createWriteStream(target))
+			} catch (error) {
+				// Do not leave a truncated file behind
+				await rm(target, { force: true })
+				throw error
+			}
+		}
+
+		return { location: target }
+	}
+
+	private localPath(key: string): string {
+		const root = path.resolve(this.storage.config.basePath || './reports')
+		const target = path.resolve(root, ...key.split('/'))
+		if (!target.startsWith(root + path.sep)) {
+			throw new Error('Storage location escapes the storage root')
+		}
+		return target
+	}
+
+	private async putS3Object(
+		key: string,
+		body: Buffer,
+		options: ReportStorageWriteOptions
+	): Promise<ReportStorageWriteResult> {
+		const bucket = this.getBucket()
+		const response = await this.getS3Client().send(
+			new PutObjectCommand({
+				Bucket: bucket,
+				Key: key,
+				Body: body,
+				ContentType: options.contentType,
+				Metadata: options.metadata,
+			})
+		)
+
+		return { location: `s3://${bucket}/${key}`, responseCode: response.$metadata.httpStatusCode }
+	}
+
+	/**
+	 * Upload a stream of unknown length as a multipart upload, holding at most one part in memory
+	 */
+	private async uploadS3Stream(
+		key: string,
+		body: Readable,
+		options: ReportStorageWriteOptions
+	): Promise<ReportStorageWriteResult> {
+		const bucket = this.getBucket()
+		const client = this.getS3Client()
+
+		const { UploadId } = await client.send(
+			new CreateMultipartUploadCommand({
+				Bucket: bucket,
+				Key: key,
+				ContentType: options.contentType,
+				Metadata: options.metadata,
+			})
+		)
+
+		const parts: Array<{ ETag?: string; PartNumber: number }> = []
+		let buffered: Buffer[] = []
+		let bufferedSize = 0
+
+		const uploadPart = async () => {
+			const PartNumber = parts.length + 1
+			const { ETag } = await client.send(
+				new UploadPartCommand({
+					Bucket: bucket,
+					Key: key,
+					UploadId,
+					PartNumber,
+					Body: Buffer.concat(buffered, bufferedSize),
+				})
+			)
+			parts.push({ ETag, PartNumber })
+			buffered = []
+			bufferedSize = 0
+		}
+
+		try {
+			for await (const chunk of body) {
+				const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)
+				buffered.push(buffer)
+				bufferedSize += buffer.length
+				if (bufferedSize >= MULTIPART_PART_SIZE) await uploadPart()
+			}
+			if (bufferedSize > 0 || parts.length === 0) await uploadPart()
+
+			const response = await client.send(
+				new CompleteMultipartUploadCommand({
+					Bucket: bucket,
+					Key: key,
+					UploadId,
+					MultipartUpload: { Parts: parts },
+				})
+			)
+
+			return { location: `s3://${bucket}/${key}`, responseCode: response.$metadata.httpStatusCode }
+		} catch (error) {
+			await client
+				.send(new AbortMultipartUploadCommand({ Bucket: bucket, Key: key, UploadId }))
+				.catch(() => undefined)
+			throw error
+		}
+	}
+
+	private getBucket(): string {
+		const bucket = this.storage.config.bucket || process.env.S3_BUCKET
+		if (!bucket) {
+			throw new Error('S3 bucket not configured')
+		}
+		return bucket
+	}
+
+	private getS3Client(): S3Client {
+		if (!this.s3) {
+			const config = this.storage.config
+			const accessKeyId = config.accessKeyId || process.env.AWS_ACCESS_KEY_ID
+			const secretAccessKey = config.secretAccessKey || process.env.AWS_SECRET_ACCESS_KEY
+
+			this.s3 = new S3Client({
+				region: config.region || process.env.S3_REGION || 'auto',
+				endpoint: config.endpoint || process.env.S3_ENDPOINT,
+				forcePathStyle: config.forcePathStyle,
+				// Fall back to the SDK's default credential chain when no keys are configured
+				...(accessKeyId && secretAccessKey && { credentials: { accessKeyId, secretAccessKey } }),
+			})
+		}
+		return this.s3
+	}
+}
@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Report Template Versions and Previews
+ *
+ * Supports editing report templates:
+ * - Every saved change of a template is kept as a numbered version of its content
+ * - Two versions can be compared field by field
+ * - A template can be previewed against live events, projected onto its columns and grouped
+ * - Reports scheduled from a template are exported with its columns and grouping
+ */
+
+import { EXPORT_COLUMNS, projectEvent } from './streaming-export.js'
+
+import type { ComplianceReport, ComplianceReportEvent } from './compliance-reporting.js'
+import type { ReportTemplate } from './scheduled-reporting.js'
+import type { ExportColumn } from './streaming-export.js'
+
+/**
+ * Event fields a report can be grouped by, 'day' groups by the date of the event
+ */
+export const REPORT_GROUP_BY = [
+	'action',
+	'status',
+	'principalId',
+	'targetResourceType',
+	'dataClassification',
+	'day',
+] as const
+
+export type ReportGroupBy = (typeof REPORT_GROUP_BY)[number]
+
+/**
+ * Editable content of a report template, stored with every version
+ */
+export type ReportTemplateContent = Pick<
+	ReportTemplate,
+	| 'name'
+	| 'description'
+	| 'reportType'
+	| 'defaultCriteria'
+	| 'defaultFormat'
+	| 'defaultExportConfig'
+	| 'columns'
+	| 'groupBy'
+	| 'tags'
+>
+
+/**
+ * Saved version of a report template
+ */
+export interface ReportTemplateVersion {
+	templateId: string
+	version: number
+	content: ReportTemplateContent
+	changeNote?: string
+	createdAt: string
+	createdBy: string
+}
+
+/**
+ * Difference of one field between two template versions
+ * Criteria and export settings are compared per setting, e.g. 'defaultCriteria.actions'
+ */
+export interface ReportTemplateChange {
+	field: string
+	before: unknown
+	after: unknown
+}
+
+/**
+ * Preview of a template against the events it currently matches
+ */
+export interface ReportTemplatePreview {
+	totalEvents: number
+	/** Whether more events match than the preview reads */
+	truncated: boolean
+	columns: ExportColumn[]
+	/** First events of the report, holding only the selected columns */
+	rows: Record<string, unknown>[]
+	/** Event count per group, largest first, when the template is grouped */
+	groups?: { key: string; count: number }[]
+	summary: ComplianceReport['summary']
+}
+
+export type ReportTemplateErrorCode = 'NOT_FOUND' | 'CONFLICT'
+
+/**
+ * A report template does not exist or was changed by someone else
+ */
+export class ReportTemplateError extends Error {
+	constructor(
+		message: string,
+		public readonly code: ReportTemplateErrorCode
+	) {
+		super(message)
+		this.name = 'ReportTemplateError'
+	}
+}
+
+// Settings compared one by one rather than as a whole
+const NESTED_FIELDS = ['defaultCriteria', 'defaultExportConfig'] as const
+
+const CONTENT_FIELDS: (keyof ReportTemplateContent)[] = [
+	'name',
+	'description',
+	'reportType',
+	'defaultCriteria',
+	'defaultFormat',
+	'defaultExportConfig',
+	'columns',
+	'groupBy',
+	'tags',
+]
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * Editable content of a template, dropping its identity and audit fields
+ */
+export function toReportTemplateContent(template: ReportTemplateContent): ReportTemplateContent {
+	return {
+		name: template.name,
+		description: template.description,
+		reportType: template.reportType,
+		defaultCriteria: template.defaultCriteria,
+		defaultFormat: template.defaultFormat,
+		defaultExportConfig: template.defaultExportConfig,
+		columns: template.columns,
+		groupBy: template.groupBy,
+		tags: template.tags,
+	}
+}
+
+/**
+ * Fields that differ between two versions of a template
+ */
+export function diffReportTemplates(
+	from: ReportTemplateContent,
+	to: ReportTemplateContent
+): ReportTemplateChange[] {
+	const changes: ReportTemplateChange[] = []
+
+	for (const field of CONTENT_FIELDS) {
+		if ((NESTED_FIELDS as readonly string[]).includes(field)) {
+			const before = (from[field] ?? {}) as Record<string, unknown>
+			const after = (to[field] ?? {}) as Record<string, unknown>
+			const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()
+			for (const key of keys) {
+				if (!isEqual(before[key], after[key])) {
+					changes.push({ field: `${field}.${key}`, before: before[key], after: after[key] })
+				}
+			}
+		} else if (!isEqual(from[field], to[field])) {
+			changes.push({ field, before: from[field], after: to[field] })
+		}
+	}
+
+	return changes
+}
+
+/**
+ * Count events per value of a field, largest groups first
+ */
+export function groupReportEvents(
+	events: ComplianceReportEvent[],
+	groupBy: ReportGroupBy
+): { key: string; count: number }[] {
+	const counts = new Map<string, number>()
+	for (const event of events) {
+		const value = groupBy === 'day' ? event.timestamp?.slice(0, 10) : event[groupBy]
+		const key = value === undefined || value === null || value === '' ? '(none)' : String(value)
+		counts.set(key, (counts.get(key) ?? 0) + 1)
+	}
+	return [...counts.entries()]
+		.map(([key, count]) => ({ key, count }))
+		.sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+}
+
+/**
+ * Build the preview of a template from the report generated with its criteria
+ */
+export function buildReportTemplatePreview(
+	report: ComplianceReport,
+	template: Pick<ReportTemplateContent, 'columns' | 'groupBy'>,
+	options: { sampleSize: number; eventLimit: number }
+): ReportTemplatePreview {
+	const columns = template.columns?.length ? template.columns : [...EXPORT_COLUMNS]
+
+	return {
+		totalEvents: report.metadata.totalEvents,
+		truncated: report.metadata.totalEvents >= options.eventLimit,
+		columns,
+		rows: report.events.slice(0, options.sampleSize).map((event) => projectEvent(event, columns)),
+		groups: template.groupBy ? groupReportEvents(report.events, template.groupBy) : undefined,
+		summary: report.summary,
+	}
+}
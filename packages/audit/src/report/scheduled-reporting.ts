@@ -4,7 +4,7 @@
  * Provides automated compliance report scheduling and delivery functionality:
  * - Configurable report schedules (daily, weekly, monthly, quarterly)
  * - Multiple delivery methods (email, webhook, storage)
- * - Report template management
+ * - Report template management with versioning and live previews
  * - Delivery tracking and retry logic
  *
  * Requirements: 4.1, 4.4, 8.1
@@ -17,9 +17,17 @@ import {
 	EnhancedAuditDatabaseClient,
 	reportExecutions,
 	reportTemplates,
+	reportTemplateVersions,
 	scheduledReports,
 } from '@repo/audit-db'
 
+import { ReportDelivery } from './report-delivery.js'
+import {
+	buildReportTemplatePreview,
+	ReportTemplateError,
+	toReportTemplateContent,
+} from './report-templates.js'
+
 import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
 import type {
 	ComplianceReportingService,
@@ -32,6 +40,14 @@ import type {
 	ScheduledReportConfig,
 } from './compliance-reporting.js'
 import type { DataExportService, ExportResult } from './data-export.js'
+import type { ReportMailerResolver } from './report-delivery.js'
+import type {
+	ReportGroupBy,
+	ReportTemplateContent,
+	ReportTemplatePreview,
+	ReportTemplateVersion,
+} from './report-templates.js'
+import type { ExportColumn } from './streaming-export.js'
 
 /**
  * Delivery status for scheduled reports
@@ -85,7 +101,12 @@ export interface ReportTemplate {
 	defaultCriteria: Partial<ReportCriteria>
 	defaultFormat: ReportFormat
 	defaultExportConfig: Partial<ExportConfig>
+	/** Event fields shown in the report, all when not set */
+	columns?: ExportColumn[]
+	groupBy?: ReportGroupBy
 	tags: string[]
+	/** Latest saved version, starting at 1 */
+	version: number
 	createdAt: string
 	createdBy: string
 	updatedAt: string
@@ -93,6 +114,11 @@ export interface ReportTemplate {
 	isActive: boolean
 }
 
+/**
+ * Most events read to preview a template
+ */
+const TEMPLATE_PREVIEW_EVENT_LIMIT = 1000
+
 /**
  * Delivery configuration for different methods
  */
@@ -117,6 +143,8 @@ export interface DeliveryConfig {
 		url: string
 		method: 'POST' | 'PUT'
 		headers: Record<string, string>
+		/** Secret used to HMAC-sign delivered payloads */
+		secret?: string
 		timeout: number
 		retryConfig: {
 			maxRetries: number
@@ -145,19 +173,22 @@ export class ScheduledReportingService {
 	private client: EnhancedAuditDatabaseClient
 	private inngest: Inngest
 	private deliveryConfig: DeliveryConfig
+	private delivery: ReportDelivery
 
 	constructor(
 		reportService: ComplianceReportingService,
 		exportService: DataExportService,
 		client: EnhancedAuditDatabaseClient,
 		inngest: Inngest,
-		deliveryConfig: DeliveryConfig
+		deliveryConfig: DeliveryConfig,
+		mailerResolver?: ReportMailerResolver
 	) {
 		this.reportService = reportService
 		this.exportService = exportService
 		this.client = client
 		this.inngest = inngest
 		this.deliveryConfig = deliveryConfig
+		this.delivery = new ReportDelivery(deliveryConfig, mailerResolver)
 	}
 
 	/**
@@ -328,6 +359,7 @@ export class ScheduledReportingService {
 
 		return records.map((record) => ({
 			id: record.id,
+			organizationId: record.organizationId,
 			name: record.name,
 			description: record.description || undefined,
 			reportType: record.reportType as ReportTemplate['reportType'],
@@ -361,6 +393,7 @@ export class ScheduledReportingService {
 		const record = records[0]
 		return {
 			id: record.id,
+			organizationId: record.organizationId,
 			name: record.name,
 			description: record.description || undefined,
 			reportType: record.reportType as ReportTemplate['reportType'],
@@ -410,7 +443,7 @@ export class ScheduledReportingService {
 			const dbExecution = {
 				id: executionId,
 				reportConfigId: reportId,
-				organizationId: (config as any).organizationId || 'unknown',
+				organizationId: config.organizationId || 'unknown',
 				runId: config.runId,
 				scheduledTime: now,
 				executionTime: now,
@@ -439,6 +472,13 @@ export class ScheduledReportingService {
 				'verificationId' in reportResult
 			) {
 				execution.integrityReport = reportResult as IntegrityVerificationReport
+				execution.exportResult = await this.exportService.exportIntegrityReport(
+					execution.integrityReport,
+					config.criteria,
+					config.export
+				)
+				execution.recordsProcessed = execution.exportResult.size
+				await this.deliverReport(config, execution.exportResult, execution)
 			} else {
 				throw new Error('Unexpected report result type')
 			}
@@ -521,7 +561,9 @@ export class ScheduledReportingService {
 	 * Create a report template
 	 */
 	async createReportTemplate(
-		template: Omit<ReportTemplate, 'id' | 'createdAt' | 'updatedAt'> & { organizationId: string }
+		template: Omit<ReportTemplate, 'id' | 'version' | 'createdAt' | 'updatedAt'> & {
+			organizationId: string
+		}
 	): Promise<ReportTemplate> {
 		const templateId = this.generateId('template')
 		const now = new Date().toISOString()
@@ -536,22 +578,170 @@ export class ScheduledReportingService {
 			defaultCriteria: template.defaultCriteria,
 			defaultFormat: template.defaultFormat,
 			defaultExportConfig: template.defaultExportConfig,
+			columns: template.columns ?? null,
+			groupBy: template.groupBy ?? null,
 			tags: template.tags,
 			isActive: template.isActive ? 'true' : 'false',
+			version: 1,
 			createdBy: template.createdBy,
 			updatedBy: template.updatedBy,
 		}
 
-		await db.insert(reportTemplates).values(dbRecord)
+		await db.transaction(async (tx) => {
+			await tx.insert(reportTemplates).values(dbRecord)
+			await tx.insert(reportTemplateVersions).values({
+				templateId,
+				organizationId: template.organizationId,
+				version: 1,
+				content: toReportTemplateContent(template),
+				createdBy: template.createdBy,
+			})
+		})
 
 		return {
 			...template,
 			id: templateId,
+			version: 1,
 			createdAt: now,
 			updatedAt: now,
 		}
 	}
 
+	/**
+	 * Save changes to a report template as its next version
+	 * Fails when the template was changed since expectedVersion was read
+	 */
+	async updateReportTemplate(
+		templateId: string,
+		organizationId: string,
+		changes: Partial<ReportTemplateContent> & {
+			updatedBy: string
+			changeNote?: string
+			expectedVersion?: number
+		}
+	): Promise<ReportTemplate> {
+		const { updatedBy, changeNote, expectedVersion, ...contentChanges } = changes
+		const db = this.client.getDatabase()
+
+		const existing = await this.getReportTemplate(templateId, organizationId)
+		if (!existing) {
+			throw new ReportTemplateError(`Report template not found: ${templateId}`, 'NOT_FOUND')
+		}
+		if (expectedVersion !== undefined && existing.version !== expectedVersion) {
+			throw new ReportTemplateError(
+				`Report template ${templateId} was changed to version ${existing.version} since version ${expectedVersion} was read`,
+				'CONFLICT'
+			)
+		}
+
+		const content = toReportTemplateContent({ ...existing, ...contentChanges })
+		const version = existing.version + 1
+		const updatedAt = new Date().toISOString()
+
+		await db.transaction(async (tx) => {
+			const updated = await tx
+				.update(reportTemplates)
+				.set({
+					name: content.name,
+					description: content.description || null,
+					reportType: content.reportType,
+					defaultCriteria: content.defaultCriteria,
+					defaultFormat: content.defaultFormat,
+					defaultExportConfig: content.defaultExportConfig,
+					columns: content.columns ?? null,
+					groupBy: content.groupBy ?? null,
+					tags: content.tags,
+					version,
+					updatedAt,
+					updatedBy,
+				})
+				.where(
+					and(eq(reportTemplates.id, templateId), eq(reportTemplates.version, existing.version))
+				)
+				.returning({ id: reportTemplates.id })
+
+			// Another update saved the same version first
+			if (updated.length === 0) {
+				throw new ReportTemplateError(
+					`Report template ${templateId} was changed concurrently`,
+					'CONFLICT'
+				)
+			}
+
+			await tx.insert(reportTemplateVersions).values({
+				templateId,
+				organizationId,
+				version,
+				content,
+				changeNote: changeNote || null,
+				createdBy: updatedBy,
+			})
+		})
+
+		return { ...existing, ...content, version, updatedAt, updatedBy }
+	}
+
+	/**
+	 * Get the saved versions of a report template, newest first
+	 */
+	async getReportTemplateVersions(
+		templateId: string,
+		organizationId: string
+	): Promise<ReportTemplateVersion[]> {
+		const records = await this.client.executeOptimizedQuery(
+			(db) =>
+				db
+					.select()
+					.from(reportTemplateVersions)
+					.where(
+						and(
+							eq(reportTemplateVersions.templateId, templateId),
+							eq(reportTemplateVersions.organizationId, organizationId)
+						)
+					)
+					.orderBy(desc(reportTemplateVersions.version)),
+			{ skipCache: true }
+		)
+
+		return records.map((record) => ({
+			templateId: record.templateId,
+			version: record.version,
+			content: record.content as ReportTemplateContent,
+			changeNote: record.changeNote || undefined,
+			createdAt: record.createdAt,
+			createdBy: record.createdBy,
+		}))
+	}
+
+	/**
+	 * Preview a template against the organization's events in a date range
+	 * The template's own criteria apply, but only to events of the organization
+	 */
+	async previewReportTemplate(
+		template: Pick<ReportTemplateContent, 'reportType' | 'defaultCriteria' | 'columns' | 'groupBy'>,
+		organizationId: string,
+		options: { dateRange: ReportCriteria['dateRange']; sampleSize?: number }
+	): Promise<ReportTemplatePreview> {
+		const eventLimit = Math.min(
+			template.defaultCriteria.limit ?? TEMPLATE_PREVIEW_EVENT_LIMIT,
+			TEMPLATE_PREVIEW_EVENT_LIMIT
+		)
+		const criteria: ReportCriteria = {
+			...template.defaultCriteria,
+			dateRange: options.dateRange,
+			organizationIds: [organizationId],
+			limit: eventLimit,
+			offset: undefined,
+		}
+
+		const report = await this.reportService.generateReportForCriteria(criteria, template.reportType)
+
+		return buildReportTemplatePreview(report, template, {
+			sampleSize: options.sampleSize ?? 25,
+			eventLimit,
+		})
+	}
+
 	/**
 	 * Get all report templates
 	 */
@@ -567,31 +757,13 @@ export class ScheduledReportingService {
 				)
 			: eq(reportTemplates.isActive, 'true')
 
-		const cacheKey = this.client.generateCacheKey('get_report_templates', {
-			organizationId,
-			limit,
-			offset,
-		})
+		// Templates are edited in place, so they are always read fresh
 		const records = await this.client.executeOptimizedQuery(
 			(db) => db.select().from(reportTemplates).where(whereConditions).limit(limit).offset(offset),
-			{ cacheKey }
+			{ skipCache: true }
 		)
 
-		return records.map((record) => ({
-			id: record.id,
-			name: record.name,
-			description: record.description || undefined,
-			reportType: record.reportType as ReportTemplate['reportType'],
-			defaultCriteria: record.defaultCriteria as Partial<ReportCriteria>,
-			defaultFormat: record.defaultFormat as ReportFormat,
-			defaultExportConfig: record.defaultExportConfig as Partial<ExportConfig>,
-			tags: (record.tags as string[]) || [],
-			createdAt: record.createdAt,
-			createdBy: record.createdBy,
-			updatedAt: record.updatedAt,
-			updatedBy: record.updatedBy || '',
-			isActive: record.isActive === 'true',
-		}))
+		return records.map((record) => this.mapReportTemplate(record))
 	}
 
 	/**
@@ -607,29 +779,14 @@ export class ScheduledReportingService {
 
 		const records = await this.client.executeOptimizedQuery(
 			(db) => db.select().from(reportTemplates).where(whereConditions),
-			{ cacheKey: `${templateId}` }
+			{ skipCache: true }
 		)
 
 		if (records.length === 0) {
 			return null
 		}
 
-		const record = records[0]
-		return {
-			id: record.id,
-			name: record.name,
-			description: record.description || undefined,
-			reportType: record.reportType as ReportTemplate['reportType'],
-			defaultCriteria: record.defaultCriteria as Partial<ReportCriteria>,
-			defaultFormat: record.defaultFormat as ReportFormat,
-			defaultExportConfig: record.defaultExportConfig as Partial<ExportConfig>,
-			tags: (record.tags as string[]) || [],
-			createdAt: record.createdAt,
-			createdBy: record.createdBy,
-			updatedAt: record.updatedAt,
-			updatedBy: record.updatedBy || '',
-			isActive: record.isActive === 'true',
-		}
+		return this.mapReportTemplate(records[0])
 	}
 
 	/**
@@ -639,9 +796,9 @@ export class ScheduledReportingService {
 		templateId: string,
 		overrides: Partial<ScheduledReportConfig> & { organizationId: string }
 	): Promise<ScheduledReportConfig> {
-		const template = await this.getReportTemplate(templateId)
+		const template = await this.getReportTemplate(templateId, overrides.organizationId)
 		if (!template) {
-			throw new Error(`Report template not found: ${templateId}`)
+			throw new ReportTemplateError(`Report template not found: ${templateId}`, 'NOT_FOUND')
 		}
 
 		const reportConfig: Omit<ScheduledReportConfig, 'id' | 'createdAt' | 'nextRun'> & {
@@ -668,10 +825,16 @@ export class ScheduledReportingService {
 				method: 'email',
 				recipients: [],
 			},
-			export: overrides.export || {
-				format: 'json',
-				includeMetadata: true,
-				includeIntegrityReport: false,
+			// The report is exported with the columns and grouping of the template
+			export: {
+				columns: template.columns,
+				groupBy: template.groupBy,
+				...(overrides.export || {
+					format: template.defaultFormat,
+					includeMetadata: true,
+					includeIntegrityReport: false,
+					...template.defaultExportConfig,
+				}),
 			},
 			enabled: overrides.enabled !== undefined ? overrides.enabled : true,
 			createdBy: overrides.createdBy || 'system',
@@ -901,13 +1064,13 @@ export class ScheduledReportingService {
 		try {
 			switch (config.delivery.method) {
 				case 'email':
-					await this.deliverViaEmail(config.delivery, reportResult, deliveryAttempt)
+					await this.delivery.deliverViaEmail(config, reportResult, deliveryAttempt)
 					break
 				case 'webhook':
-					await this.deliverViaWebhook(config.delivery, reportResult, deliveryAttempt)
+					await this.delivery.deliverViaWebhook(config, reportResult, deliveryAttempt)
 					break
 				case 'storage':
-					await this.deliverViaStorage(config.delivery, reportResult, deliveryAttempt)
+					await this.delivery.deliverViaStorage(config, reportResult, deliveryAttempt)
 					break
 				default:
 					throw new Error(`Unsupported delivery method: ${config.delivery.method}`)
@@ -921,37 +1084,6 @@ export class ScheduledReportingService {
 		}
 	}
 
-	private async deliverViaEmail(
-		delivery: ScheduledReportConfig['delivery'],
-		reportResult: ExportResult,
-		attempt: DeliveryAttempt
-	): Promise<void> {
-		// TODO Placeholder email delivery implementation
-		console.log(`Delivering report via email to: ${delivery.recipients?.join(', ')}`)
-		attempt.responseTime = 250 // Placeholder
-	}
-
-	private async deliverViaWebhook(
-		delivery: ScheduledReportConfig['delivery'],
-		reportResult: ExportResult,
-		attempt: DeliveryAttempt
-	): Promise<void> {
-		// TODO Placeholder webhook delivery implementation
-		console.log(`Delivering report via webhook to: ${delivery.webhookUrl}`)
-		attempt.responseCode = 200
-		attempt.responseTime = 150 // Placeholder
-	}
-
-	private async deliverViaStorage(
-		delivery: ScheduledReportConfig['delivery'],
-		reportResult: ExportResult,
-		attempt: DeliveryAttempt
-	): Promise<void> {
-		// TODO Placeholder storage delivery implementation
-		console.log(`Storing report at: ${delivery.storageLocation}`)
-		attempt.responseTime = 100 // Placeholder
-	}
-
 	private async retryDelivery(execution: ReportExecution, attempt: DeliveryAttempt): Promise<void> {
 		const config = await this.getScheduledReport(execution.reportConfigId)
 		if (!config || !execution.exportResult) return
@@ -981,6 +1113,27 @@ export class ScheduledReportingService {
 		}
 	}
 
+	private mapReportTemplate(record: typeof reportTemplates.$inferSelect): ReportTemplate {
+		return {
+			id: record.id,
+			name: record.name,
+			description: record.description || undefined,
+			reportType: record.reportType as ReportTemplate['reportType'],
+			defaultCriteria: record.defaultCriteria as Partial<ReportCriteria>,
+			defaultFormat: record.defaultFormat as ReportFormat,
+			defaultExportConfig: record.defaultExportConfig as Partial<ExportConfig>,
+			columns: (record.columns as ExportColumn[] | null) ?? undefined,
+			groupBy: (record.groupBy as ReportGroupBy | null) ?? undefined,
+			tags: (record.tags as string[]) || [],
+			version: record.version,
+			createdAt: record.createdAt,
+			createdBy: record.createdBy,
+			updatedAt: record.updatedAt,
+			updatedBy: record.updatedBy || '',
+			isActive: record.isActive === 'true',
+		}
+	}
+
 	private generateId(prefix: string): string {
 		return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`
 	}
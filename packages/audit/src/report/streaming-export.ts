@@ -0,0 +1,689 @@
+/**
+ * @fileoverview Streaming Export Service
+ *
+ * Exports arbitrarily large audit event sets without holding them in memory:
+ * - Keyset (id cursor) reads from audit_log in batches
+ * - Row-by-row serializers for JSON, NDJSON, CSV and XML
+ * - Optional column selection, gzip compression and passphrase encryption on the fly
+ * - Running SHA-256 checksum and byte count of the emitted stream
+ * - Streaming to HTTP responses or to report/archive storage
+ */
+
+import { createHash } from 'crypto'
+import { pipeline, Readable, Transform } from 'stream'
+import { createGzip } from 'zlib'
+import { and, asc, eq, gt, gte, inArray, isNotNull, lte, sql } from 'drizzle-orm'
+
+import { auditLog } from '@repo/audit-db'
+
+import { createExportCipher } from './export-encryption.js'
+import { ReportStorage } from './report-storage.js'
+
+import type { SQL } from 'drizzle-orm'
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+import type { DataClassification } from '../types.js'
+import type { ComplianceReportEvent } from './compliance-reporting.js'
+import type { ExportEncryptionKey } from './export-encryption.js'
+import type { ReportStorageConfig } from './report-storage.js'
+
+/**
+ * Formats that can be serialized row by row
+ */
+export type StreamingExportFormat = 'json' | 'ndjson' | 'csv' | 'xml'
+
+/**
+ * Formats of stored export files, including documents rendered in one piece
+ */
+export type ExportFileFormat = StreamingExportFormat | 'pdf'
+
+/**
+ * Event fields that can be selected for an export, in their default order
+ */
+export const EXPORT_COLUMNS = [
+	'id',
+	'timestamp',
+	'principalId',
+	'organizationId',
+	'action',
+	'targetResourceType',
+	'targetResourceId',
+	'status',
+	'outcomeDescription',
+	'dataClassification',
+	'ipAddress',
+	'userAgent',
+	'sessionId',
+	'integrityStatus',
+	'correlationId',
+] as const
+
+export type ExportColumn = (typeof EXPORT_COLUMNS)[number]
+
+/**
+ * Event filter for streaming exports, always scoped to one organization
+ */
+export interface StreamingExportFilter {
+	organizationId: string
+	dateRange?: {
+		startDate: string
+		endDate: string
+	}
+	principalIds?: string[]
+	actions?: string[]
+	statuses?: Array<'attempt' | 'success' | 'failure'>
+	dataClassifications?: DataClassification[]
+	resourceTypes?: string[]
+	resourceIds?: string[]
+	correlationId?: string
+	correlationIds?: string[]
+	verifiedOnly?: boolean
+}
+
+/**
+ * Streaming export options
+ */
+export interface StreamingExportOptions {
+	format: StreamingExportFormat
+	includeMetadata?: boolean
+	compression?: 'none' | 'gzip'
+	/** Event fields to write, all of them when omitted */
+	columns?: ExportColumn[]
+	/** Encrypts the file with a passphrase derived key, see export-encryption */
+	encryption?: ExportEncryptionKey
+	/** Rows read from the database per round trip */
+	batchSize?: number
+	exportedBy?: string
+	/** Export identifier; generated when omitted */
+	exportId?: string
+	/**
+	 * Called with the running record count after every batch of rows
+	 * Throwing aborts the export
+	 */
+	onProgress?: (recordCount: number) => void | Promise<void>
+}
+
+/**
+ * Metadata written at the head of an export
+ */
+export interface StreamingExportMetadata {
+	exportId: string
+	exportedAt: string
+	exportedBy?: string
+	organizationId: string
+	filter: StreamingExportFilter
+}
+
+/**
+ * Outcome of a fully consumed export stream
+ */
+export interface StreamingExportSummary {
+	exportId: string
+	format: ExportFileFormat
+	exportedAt: string
+	filename: string
+	contentType: string
+	recordCount: number
+	/** Bytes emitted, after compression */
+	size: number
+	/** SHA-256 of the emitted bytes */
+	checksum: string
+	compression: 'none' | 'gzip'
+	encrypted: boolean
+}
+
+/**
+ * A document rendered in one piece, such as a PDF, to be stored like an export
+ */
+export interface RenderedExport {
+	exportId: string
+	format: ExportFileFormat
+	extension: string
+	contentType: string
+	data: Buffer
+	recordCount: number
+}
+
+/**
+ * A running export
+ */
+export interface StreamingExport {
+	exportId: string
+	filename: string
+	contentType: string
+	stream: Readable
+	/** Resolves once the stream has been fully consumed */
+	completed: Promise<StreamingExportSummary>
+}
+
+/**
+ * An export written to storage
+ */
+export interface StoredExport extends StreamingExportSummary {
+	/** Storage key the export was written under */
+	key: string
+	location: string
+}
+
+/**
+ * Serializes events one at a time
+ */
+export interface EventSerializer {
+	contentType: string
+	extension: string
+	open(metadata: StreamingExportMetadata): string
+	event(event: ComplianceReportEvent, index: number): string
+	close(recordCount: number): string
+}
+
+const DEFAULT_BATCH_SIZE = 1000
+
+const COLUMN_DEFINITIONS: Record<
+	ExportColumn,
+	{ header: string; value: (event: ComplianceReportEvent) => unknown }
+> = {
+	id: { header: 'ID', value: (event) => event.id },
+	timestamp: { header: 'Timestamp', value: (event) => event.timestamp },
+	principalId: { header: 'Principal ID', value: (event) => event.principalId },
+	organizationId: { header: 'Organization ID', value: (event) => event.organizationId },
+	action: { header: 'Action', value: (event) => event.action },
+	targetResourceType: {
+		header: 'Target Resource Type',
+		value: (event) => event.targetResourceType,
+	},
+	targetResourceId: { header: 'Target Resource ID', value: (event) => event.targetResourceId },
+	status: { header: 'Status', value: (event) => event.status },
+	outcomeDescription: {
+		header: 'Outcome Description',
+		value: (event) => event.outcomeDescription,
+	},
+	dataClassification: {
+		header: 'Data Classification',
+		value: (event) => event.dataClassification,
+	},
+	ipAddress: { header: 'IP Address', value: (event) => event.sessionContext?.ipAddress },
+	userAgent: { header: 'User Agent', value: (event) => event.sessionContext?.userAgent },
+	sessionId: { header: 'Session ID', value: (event) => event.sessionContext?.sessionId },
+	integrityStatus: { header: 'Integrity Status', value: (event) => event.integrityStatus },
+	correlationId: { header: 'Correlation ID', value: (event) => event.correlationId },
+}
+
+// XML leaves the session context out unless its fields are selected
+const DEFAULT_XML_COLUMNS = EXPORT_COLUMNS.filter(
+	(column) => column !== 'ipAddress' && column !== 'userAgent' && column !== 'sessionId'
+)
+
+/**
+ * Flat object holding the selected fields of an event
+ */
+export function projectEvent(
+	event: ComplianceReportEvent,
+	columns: readonly ExportColumn[]
+): Record<string, unknown> {
+	const projected: Record<string, unknown> = {}
+	for (const column of columns) {
+		projected[column] = COLUMN_DEFINITIONS[column].value(event)
+	}
+	return projected
+}
+
+/**
+ * Header of a column in CSV exports
+ */
+export function exportColumnHeader(column: ExportColumn): string {
+	return COLUMN_DEFINITIONS[column].header
+}
+
+/**
+ * Create the serializer for an export format
+ */
+export function createEventSerializer(
+	format: StreamingExportFormat,
+	includeMetadata = true,
+	columns?: ExportColumn[]
+): EventSerializer {
+	const selected = columns?.length ? columns : undefined
+	const record = (event: ComplianceReportEvent) =>
+		selected ? projectEvent(event, selected) : event
+
+	switch (format) {
+		case 'json':
+			return {
+				contentType: 'application/json',
+				extension: 'json',
+				open: (metadata) =>
+					includeMetadata
+						? `{"metadata":${JSON.stringify(metadata)},"events":[\n`
+						: '{"events":[\n',
+				event: (event, index) => `${index > 0 ? ',\n' : ''}${JSON.stringify(record(event))}`,
+				close: (recordCount) => `\n],"totalEvents":${recordCount}}\n`,
+			}
+		case 'ndjson':
+			return {
+				contentType: 'application/x-ndjson',
+				extension: 'ndjson',
+				open: () => '',
+				event: (event) => `${JSON.stringify(record(event))}\n`,
+				close: () => '',
+			}
+		case 'csv':
+			return {
+				contentType: 'text/csv',
+				extension: 'csv',
+				open: (metadata) =>
+					[
+						...(includeMetadata
+							? [
+									`# Export ID: ${metadata.exportId}`,
+									`# Organization ID: ${metadata.organizationId}`,
+									`# Exported At: ${metadata.exportedAt}`,
+									'#',
+								]
+							: []),
+						(selected ?? EXPORT_COLUMNS)
+							.map((column) => COLUMN_DEFINITIONS[column].header)
+							.join(','),
+						'',
+					].join('\n'),
+				event: (event) =>
+					(selected ?? EXPORT_COLUMNS)
+						.map((column) => COLUMN_DEFINITIONS[column].value(event))
+						.map((value) =>
+							escapeCsvValue(value === undefined || value === null ? '' : String(value))
+						)
+						.join(',') + '\n',
+				close: () => '',
+			}
+		case 'xml':
+			return {
+				contentType: 'application/xml',
+				extension: 'xml',
+				open: (metadata) =>
+					[
+						'<?xml version="1.0" encoding="UTF-8"?>',
+						'<auditExport>',
+						...(includeMetadata
+							? [
+									'  <metadata>',
+									`    <exportId>${escapeXml(metadata.exportId)}</exportId>`,
+									`    <organizationId>${escapeXml(metadata.organizationId)}</organizationId>`,
+									`    <exportedAt>${escapeXml(metadata.exportedAt)}</exportedAt>`,
+									'  </metadata>',
+								]
+							: []),
+						'  <events>',
+						'',
+					].join('\n'),
+				event: (event) => {
+					const fields = (selected ?? DEFAULT_XML_COLUMNS).map(
+						(column) => [column, COLUMN_DEFINITIONS[column].value(event)] as const
+					)
+					return [
+						'    <event>',
+						...fields
+							.filter(([, value]) => value !== undefined && value !== null)
+							.map(([name, value]) => `      <${name}>${escapeXml(String(value))}</${name}>`),
+						'    </event>',
+						'',
+					].join('\n')
+				},
+				close: (recordCount) =>
+					['  </events>', `  <totalEvents>${recordCount}</totalEvents>`, '</auditExport>', ''].join(
+						'\n'
+					),
+			}
+		default:
+			throw new Error(`Unsupported streaming export format: ${format}`)
+	}
+}
+
+/**
+ * Streams audit events out of the database
+ */
+export class StreamingExportService {
+	private storage: ReportStorage | null
+
+	/**
+	 * @param storageConfig Report/archive storage that exports can be written to
+	 */
+	constructor(
+		private db: PostgresJsDatabase<any>,
+		private storageConfig?: ReportStorageConfig
+	) {
+		this.storage = storageConfig ? new ReportStorage(storageConfig) : null
+	}
+
+	/**
+	 * Count the events matching a filter
+	 */
+	async countEvents(filter: StreamingExportFilter): Promise<number> {
+		const [result] = await this.db
+			.select({ count: sql<number>`count(*)` })
+			.from(auditLog)
+			.where(eventFilterConditions(filter))
+
+		return Number(result?.count ?? 0)
+	}
+
+	/**
+	 * Read matching events in id order, one batch per round trip
+	 * The walk stops at the highest id matching when it started, so rows stored
+	 * during a long export do not extend it indefinitely
+	 */
+	async *readEvents(
+		filter: StreamingExportFilter,
+		batchSize: number = DEFAULT_BATCH_SIZE
+	): AsyncGenerator<ComplianceReportEvent> {
+		const where = eventFilterConditions(filter)
+
+		const [bounds] = await this.db
+			.select({ lastId: sql<number | null>`max(${auditLog.id})` })
+			.from(auditLog)
+			.where(where)
+
+		if (!bounds?.lastId) return
+
+		const lastId = Number(bounds.lastId)
+		let cursor = 0
+
+		while (true) {
+			const rows = await this.db
+				.select()
+				.from(auditLog)
+				.where(and(where, gt(auditLog.id, cursor), lte(auditLog.id, lastId)))
+				.orderBy(asc(auditLog.id))
+				.limit(batchSize)
+
+			for (const row of rows) {
+				yield this.toReportEvent(row)
+			}
+
+			if (rows.length < batchSize) break
+			cursor = rows[rows.length - 1].id
+		}
+	}
+
+	/**
+	 * Start an export
+	 * Rows are only read from the database as fast as the consumer reads the stream
+	 */
+	createExport(filter: StreamingExportFilter, options: StreamingExportOptions): StreamingExport {
+		const exportId =
+			options.exportId ?? `export-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`
+		const exportedAt = new Date().toISOString()
+		const serializer = createEventSerializer(
+			options.format,
+			options.includeMetadata !== false,
+			options.columns
+		)
+
+		let recordCount = 0
+		const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+		const events = this.readEvents(filter, batchSize)
+
+		async function* serialize(): AsyncGenerator<Buffer> {
+			yield Buffer.from(
+				serializer.open({
+					exportId,
+					exportedAt,
+					exportedBy: options.exportedBy,
+					organizationId: filter.organizationId,
+					filter,
+				}),
+				'utf8'
+			)
+			for await (const event of events) {
+				yield Buffer.from(serializer.event(event, recordCount++), 'utf8')
+				if (options.onProgress && recordCount % batchSize === 0) {
+					await options.onProgress(recordCount)
+				}
+			}
+			yield Buffer.from(serializer.close(recordCount), 'utf8')
+		}
+
+		return this.encode(
+			Readable.from(serialize(), { objectMode: false }),
+			{
+				exportId,
+				exportedAt,
+				format: options.format,
+				extension: serializer.extension,
+				contentType: serializer.contentType,
+			},
+			options,
+			() => recordCount
+		)
+	}
+
+	/**
+	 * Stream an export into storage under <path>/<organizationId>/exports/<filename>
+	 */
+	async exportToStorage(
+		filter: StreamingExportFilter,
+		options: StreamingExportOptions
+	): Promise<StoredExport> {
+		return this.store(filter.organizationId, () => this.createExport(filter, options))
+	}
+
+	/**
+	 * Store a rendered document as an export, compressed and encrypted like streamed ones
+	 */
+	async storeRenderedExport(
+		organizationId: string,
+		rendered: RenderedExport,
+		options: Pick<StreamingExportOptions, 'compression' | 'encryption'> = {}
+	): Promise<StoredExport> {
+		return this.store(organizationId, () =>
+			this.encode(
+				Readable.from([rendered.data]),
+				{ ...rendered, exportedAt: new Date().toISOString() },
+				options,
+				() => rendered.recordCount
+			)
+		)
+	}
+
+	/**
+	 * Open an export previously written to storage
+	 */
+	async readStoredExport(key: string): Promise<Readable> {
+		if (!this.storage) {
+			throw new Error('No export storage configured')
+		}
+		return this.storage.read(key)
+	}
+
+	/**
+	 * Delete an export previously written to storage
+	 */
+	async deleteStoredExport(key: string): Promise<void> {
+		if (!this.storage) {
+			throw new Error('No export storage configured')
+		}
+		await this.storage.delete(key)
+	}
+
+	private async store(
+		organizationId: string,
+		createExport: () => StreamingExport
+	): Promise<StoredExport> {
+		if (!this.storage) {
+			throw new Error('No export storage configured')
+		}
+
+		const exported = createExport()
+		const key = this.storage.objectKey(
+			this.storageConfig!.path,
+			organizationId,
+			'exports',
+			exported.filename
+		)
+
+		const { location } = await this.storage.write(key, exported.stream, {
+			contentType: exported.contentType,
+			metadata: { 'export-id': exported.exportId },
+		})
+
+		return { ...(await exported.completed), key, location }
+	}
+
+	/**
+	 * Compress, encrypt and meter the bytes of an export
+	 */
+	private encode(
+		source: Readable,
+		file: {
+			exportId: string
+			exportedAt: string
+			format: ExportFileFormat
+			extension: string
+			contentType: string
+		},
+		options: Pick<StreamingExportOptions, 'compression' | 'encryption'>,
+		recordCount: () => number
+	): StreamingExport {
+		const { exportId, exportedAt } = file
+		const compression = options.compression ?? 'none'
+		const encrypted = !!options.encryption
+		const filename = `audit-events-${exportId}.${file.extension}${compression === 'gzip' ? '.gz' : ''}${encrypted ? '.enc' : ''}`
+		const contentType = encrypted
+			? 'application/octet-stream'
+			: compression === 'gzip'
+				? 'application/gzip'
+				: file.contentType
+
+		const hash = createHash('sha256')
+		let size = 0
+		const meter = new Transform({
+			transform(chunk: Buffer, _encoding, callback) {
+				hash.update(chunk)
+				size += chunk.length
+				callback(null, chunk)
+			},
+		})
+
+		pipeline(
+			[
+				source,
+				...(compression === 'gzip' ? [createGzip()] : []),
+				...(options.encryption ? [createExportCipher(options.encryption)] : []),
+				meter,
+			],
+			() => undefined
+		)
+		// The meter is the last stage, its output is the file
+		const stream = meter
+
+		const completed = new Promise<StreamingExportSummary>((resolve, reject) => {
+			let ended = false
+			stream.on('end', () => {
+				ended = true
+				resolve({
+					exportId,
+					format: file.format,
+					exportedAt,
+					filename,
+					contentType,
+					recordCount: recordCount(),
+					size,
+					checksum: `sha256:${hash.digest('hex')}`,
+					compression,
+					encrypted,
+				})
+			})
+			stream.on('error', reject)
+			stream.on('close', () => {
+				if (!ended) reject(new Error('Export stream closed before completion'))
+			})
+		})
+		// Callers streaming straight to a response may never await completion
+		completed.catch(() => undefined)
+
+		return { exportId, filename, contentType, stream, completed }
+	}
+
+	private toReportEvent(row: typeof auditLog.$inferSelect): ComplianceReportEvent {
+		// Fields without a dedicated column, such as the session context, are stored in details
+		const sessionContext = (row.details as Record<string, any> | null)?.sessionContext as
+			| ComplianceReportEvent['sessionContext']
+			| undefined
+
+		return {
+			id: row.id,
+			timestamp: row.timestamp,
+			principalId: row.principalId || undefined,
+			organizationId: row.organizationId || undefined,
+			action: row.action,
+			targetResourceType: row.targetResourceType || undefined,
+			targetResourceId: row.targetResourceId || undefined,
+			status: row.status,
+			outcomeDescription: row.outcomeDescription || undefined,
+			dataClassification: row.dataClassification || undefined,
+			sessionContext: sessionContext
+				? {
+						ipAddress: sessionContext.ipAddress,
+						userAgent: sessionContext.userAgent,
+						sessionId: sessionContext.sessionId,
+					}
+				: undefined,
+			integrityStatus: row.hash ? 'verified' : 'not_checked',
+			correlationId: row.correlationId || undefined,
+		}
+	}
+}
+
+/**
+ * Where clause of the events matching a filter
+ */
+export function eventFilterConditions(filter: StreamingExportFilter): SQL | undefined {
+	const conditions = [eq(auditLog.organizationId, filter.organizationId)]
+
+	if (filter.dateRange) {
+		conditions.push(gte(auditLog.timestamp, filter.dateRange.startDate))
+		conditions.push(lte(auditLog.timestamp, filter.dateRange.endDate))
+	}
+	if (filter.principalIds?.length) {
+		conditions.push(inArray(auditLog.principalId, filter.principalIds))
+	}
+	if (filter.actions?.length) {
+		conditions.push(inArray(auditLog.action, filter.actions))
+	}
+	if (filter.statuses?.length) {
+		conditions.push(inArray(auditLog.status, filter.statuses))
+	}
+	if (filter.dataClassifications?.length) {
+		conditions.push(inArray(auditLog.dataClassification, filter.dataClassifications))
+	}
+	if (filter.resourceTypes?.length) {
+		conditions.push(inArray(auditLog.targetResourceType, filter.resourceTypes))
+	}
+	if (filter.resourceIds?.length) {
+		conditions.push(inArray(auditLog.targetResourceId, filter.resourceIds))
+	}
+	if (filter.correlationId) {
+		conditions.push(eq(auditLog.correlationId, filter.correlationId))
+	}
+	if (filter.correlationIds?.length) {
+		conditions.push(inArray(auditLog.correlationId, filter.correlationIds))
+	}
+	if (filter.verifiedOnly) {
+		conditions.push(isNotNull(auditLog.hash))
+	}
+
+	return and(...conditions)
+}
+
+function escapeCsvValue(value: string): string {
+	if (/[",\r\n]/.test(value)) {
+		return `"${value.replace(/"/g, '""')}"`
+	}
+	return value
+}
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;')
+}
@@ -0,0 +1,257 @@
+/**
+ * @fileoverview Audit Event Aggregations
+ *
+ * Grouped count/sum/avg/min/max over audit events, safe to expose to API callers:
+ * - Fields are resolved against whitelists, never interpolated into SQL
+ * - details JSONB paths are validated and bound as parameters
+ * - Optional UTC time buckets per hour, day or week
+ * - Results are flat bucket rows that charts can plot directly
+ */
+
+import { sql } from 'drizzle-orm'
+
+import { auditLog } from '@repo/audit-db'
+
+import type { SQL } from 'drizzle-orm'
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+
+export type AggregationType = 'count' | 'sum' | 'avg' | 'min' | 'max'
+
+export type TimeBucketInterval = 'hour' | 'day' | 'week'
+
+/**
+ * Aggregation request
+ * Fields are event fields such as `action`, or JSON paths into details such as `details.sessionContext.ipAddress`.
+ * `count` also accepts `*` to count events.
+ */
+export interface AggregationSpec {
+	field: string
+	type: AggregationType
+	/** Field to group events by */
+	groupBy?: string
+	/** Bucket events by their timestamp */
+	interval?: TimeBucketInterval
+	/** Maximum buckets returned */
+	limit?: number
+}
+
+/**
+ * One bucket of an aggregation
+ */
+export interface AggregationBucket {
+	/** Value of the groupBy field, null for events without one; absent when not grouped */
+	key?: string | null
+	/** Start of the time bucket in ISO 8601 UTC; absent without an interval */
+	time?: string
+	/** Aggregated value, null when no event in the bucket has a numeric value */
+	value: number | null
+	/** Events in the bucket */
+	count: number
+}
+
+export interface AggregationResult {
+	/** Stable name of the aggregation, e.g. `avg_processingLatency_by_action_per_day` */
+	name: string
+	type: AggregationType
+	field: string
+	groupBy?: string
+	interval?: TimeBucketInterval
+	/** Most significant buckets first, or in time order when bucketed by time */
+	buckets: AggregationBucket[]
+	/** True when more buckets matched than the limit */
+	truncated: boolean
+}
+
+/**
+ * An aggregation compiled to SQL, ready to run against a filter
+ */
+export interface CompiledAggregation {
+	spec: AggregationSpec
+	name: string
+	limit: number
+	value: SQL
+	key?: SQL
+	time?: SQL
+}
+
+/**
+ * Aggregation error
+ */
+export class AggregationError extends Error {
+	public readonly code: 'INVALID_FIELD' | 'INVALID_AGGREGATION'
+
+	constructor(message: string, code: AggregationError['code']) {
+		super(message)
+		this.name = 'AggregationError'
+		this.code = code
+	}
+}
+
+/** Fields events can be grouped by */
+const GROUP_FIELDS = {
+	action: auditLog.action,
+	status: auditLog.status,
+	principalId: auditLog.principalId,
+	targetResourceType: auditLog.targetResourceType,
+	targetResourceId: auditLog.targetResourceId,
+	dataClassification: auditLog.dataClassification,
+	retentionPolicy: auditLog.retentionPolicy,
+	correlationId: auditLog.correlationId,
+	eventVersion: auditLog.eventVersion,
+	hashAlgorithm: auditLog.hashAlgorithm,
+} as const
+
+/** Fields that can be summed and averaged */
+const NUMERIC_FIELDS = {
+	processingLatency: auditLog.processingLatency,
+} as const
+
+const TIME_BUCKETS: Record<TimeBucketInterval, SQL> = {
+	hour: sql.raw(`'hour'`),
+	day: sql.raw(`'day'`),
+	week: sql.raw(`'week'`),
+}
+
+const AGGREGATE_FUNCTIONS: Record<Exclude<AggregationType, 'count'>, SQL> = {
+	sum: sql.raw('sum'),
+	avg: sql.raw('avg'),
+	min: sql.raw('min'),
+	max: sql.raw('max'),
+}
+
+const DETAILS_PATH = /^details(\.[A-Za-z_][A-Za-z0-9_-]*){1,5}$/
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 1000
+
+/**
+ * Validate an aggregation and compile it to SQL
+ */
+export function compileAggregation(spec: AggregationSpec): CompiledAggregation {
+	let value: SQL
+	if (spec.type === 'count') {
+		value =
+			spec.field === '*' ? sql`count(*)` : sql`count(${resolveGroupField(spec.field, 'field')})`
+	} else if (isWhitelisted(AGGREGATE_FUNCTIONS, spec.type)) {
+		value = sql`${AGGREGATE_FUNCTIONS[spec.type]}(${resolveNumericField(spec.field)})`
+	} else {
+		throw new AggregationError(`Unsupported aggregation type: ${spec.type}`, 'INVALID_AGGREGATION')
+	}
+
+	if (spec.interval && !isWhitelisted(TIME_BUCKETS, spec.interval)) {
+		throw new AggregationError(
+			`Unsupported time bucket interval: ${spec.interval}`,
+			'INVALID_AGGREGATION'
+		)
+	}
+
+	const name = [
+		spec.type,
+		spec.field === '*' ? 'events' : spec.field,
+		spec.groupBy && `by_${spec.groupBy}`,
+		spec.interval && `per_${spec.interval}`,
+	]
+		.filter(Boolean)
+		.join('_')
+
+	return {
+		spec,
+		name,
+		limit: Math.min(Math.max(spec.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT),
+		value,
+		key: spec.groupBy ? sql`(${resolveGroupField(spec.groupBy, 'groupBy')})::text` : undefined,
+		time: spec.interval
+			? sql`to_char(date_trunc(${TIME_BUCKETS[spec.interval]}, ${auditLog.timestamp} AT TIME ZONE 'UTC'), 'YYYY-MM-DD"T"HH24:MI:SS"Z"')`
+			: undefined,
+	}
+}
+
+/**
+ * Run a compiled aggregation over the events matching a where clause
+ * The where clause is responsible for organization isolation.
+ */
+export async function runAggregation(
+	db: PostgresJsDatabase<any>,
+	where: SQL | undefined,
+	aggregation: CompiledAggregation
+): Promise<AggregationResult> {
+	const { spec, key, time } = aggregation
+
+	// Grouped and ordered by output name: bound details paths would not match between clauses
+	const groupBy = [key && sql`bucket_key`, time && sql`bucket_time`].filter(
+		(expression): expression is SQL => expression !== undefined
+	)
+	const orderBy = time
+		? [sql`bucket_time asc`, sql`bucket_value desc nulls last`]
+		: [sql`bucket_value desc nulls last`]
+	if (key) orderBy.push(sql`bucket_key asc nulls last`)
+
+	let query = db
+		.select({
+			key: (key ?? sql`null`).mapWith(String).as('bucket_key'),
+			time: (time ?? sql`null`).mapWith(String).as('bucket_time'),
+			value: aggregation.value.mapWith(Number).as('bucket_value'),
+			count: sql<number>`count(*)`.mapWith(Number).as('bucket_count'),
+		})
+		.from(auditLog)
+		.where(where)
+		.$dynamic()
+
+	if (groupBy.length) {
+		query = query.groupBy(...groupBy)
+	}
+
+	const rows = await query.orderBy(...orderBy).limit(aggregation.limit + 1)
+
+	return {
+		name: aggregation.name,
+		type: spec.type,
+		field: spec.field,
+		groupBy: spec.groupBy,
+		interval: spec.interval,
+		buckets: rows.slice(0, aggregation.limit).map((row) => ({
+			...(key ? { key: row.key } : {}),
+			...(time ? { time: row.time } : {}),
+			value: row.value,
+			count: row.count,
+		})),
+		truncated: rows.length > aggregation.limit,
+	}
+}
+
+function resolveGroupField(field: string, role: 'field' | 'groupBy'): SQL {
+	if (isWhitelisted(GROUP_FIELDS, field)) {
+		return sql`${GROUP_FIELDS[field]}`
+	}
+	if (isWhitelisted(NUMERIC_FIELDS, field)) {
+		return sql`${NUMERIC_FIELDS[field]}`
+	}
+	if (DETAILS_PATH.test(field)) {
+		return sql`${auditLog.details} #>> ${detailsPath(field)}`
+	}
+	throw new AggregationError(`Field ${field} cannot be used as ${role}`, 'INVALID_FIELD')
+}
+
+function resolveNumericField(field: string): SQL {
+	if (isWhitelisted(NUMERIC_FIELDS, field)) {
+		return sql`${NUMERIC_FIELDS[field]}`
+	}
+	if (DETAILS_PATH.test(field)) {
+		// Values that are not JSON numbers are ignored rather than failing the cast
+		const path = detailsPath(field)
+		return sql`case when jsonb_typeof(${auditLog.details} #> ${path}) = 'number' then (${auditLog.details} #>> ${path})::numeric end`
+	}
+	throw new AggregationError(`Field ${field} is not numeric`, 'INVALID_FIELD')
+}
+
+/** Postgres text[] literal of a details path, without the leading `details` */
+function detailsPath(field: string): string {
+	return `{${field.split('.').slice(1).join(',')}}`
+}
+
+/** Own keys only, so names like `constructor` are not mistaken for whitelisted entries */
+function isWhitelisted<T extends object>(
+	whitelist: T,
+	name: string
+): name is Extract<keyof T, string> {
+	return Object.prototype.hasOwnProperty.call(whitelist, name)
+}
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Keyset Cursors for Audit Event Pages
+ *
+ * Offset pagination makes Postgres walk and discard every skipped row, which gets
+ * slower with each page on a large, partitioned audit_log. Keyset pagination seeks
+ * straight to the (timestamp, id) of the last row seen instead:
+ * - Cursors are opaque base64url tokens carrying the timestamp, id and direction
+ * - Ties on timestamp are broken by id so no event is skipped or repeated
+ * - Served by the audit_log_organization_timestamp_id_idx index
+ */
+
+import { asc, desc, sql } from 'drizzle-orm'
+
+import { auditLog } from '@repo/audit-db'
+
+import type { SQL } from 'drizzle-orm'
+
+export type EventCursorDirection = 'asc' | 'desc'
+
+/**
+ * Position after which the next page starts
+ */
+export interface EventCursor {
+	timestamp: string
+	id: number
+	direction: EventCursorDirection
+}
+
+/**
+ * A page of events read with a cursor
+ */
+export interface EventCursorPage<T> {
+	items: T[]
+	/** Cursor of the page after this one, null on the last page */
+	nextCursor: string | null
+}
+
+/**
+ * Invalid or mismatched cursor
+ */
+export class EventCursorError extends Error {
+	constructor(message: string) {
+		super(message)
+		this.name = 'EventCursorError'
+	}
+}
+
+/**
+ * Encode the position of an event as an opaque cursor
+ */
+export function encodeEventCursor(
+	event: { timestamp: string; id: number },
+	direction: EventCursorDirection
+): string {
+	return Buffer.from(
+		JSON.stringify({ t: event.timestamp, i: event.id, d: direction }),
+		'utf8'
+	).toString('base64url')
+}
+
+/** Cursor fields as encoded by encodeEventCursor */
+interface EncodedEventCursor {
+	t: string
+	i: number
+	d: EventCursorDirection
+}
+
+function isEncodedEventCursor(value: unknown): value is EncodedEventCursor {
+	if (typeof value !== 'object' || value === null) return false
+
+	const { t, i, d } = value as Record<string, unknown>
+	return (
+		typeof t === 'string' &&
+		!Number.isNaN(Date.parse(t)) &&
+		Number.isSafeInteger(i) &&
+		(d === 'asc' || d === 'desc')
+	)
+}
+
+/**
+ * Decode a cursor, optionally checking it was issued for the requested sort direction
+ */
+export function decodeEventCursor(cursor: string, direction?: EventCursorDirection): EventCursor {
+	let decoded: unknown
+	try {
+		decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+	} catch {
+		throw new EventCursorError('Invalid cursor')
+	}
+
+	if (!isEncodedEventCursor(decoded)) {
+		throw new EventCursorError('Invalid cursor')
+	}
+
+	if (direction && decoded.d !== direction) {
+		throw new EventCursorError(
+			`Cursor was issued for ${decoded.d} order and cannot continue ${direction} order`
+		)
+	}
+
+	return { timestamp: decoded.t, id: decoded.i, direction: decoded.d }
+}
+
+/**
+ * Condition selecting the events after a cursor
+ */
+export function eventCursorCondition(cursor: EventCursor): SQL {
+	return cursor.direction === 'asc'
+		? sql`(${auditLog.timestamp}, ${auditLog.id}) > (${cursor.timestamp}::timestamptz, ${cursor.id})`
+		: sql`(${auditLog.timestamp}, ${auditLog.id}) < (${cursor.timestamp}::timestamptz, ${cursor.id})`
+}
+
+/**
+ * Ordering that cursors of a direction walk through
+ */
+export function eventCursorOrderBy(direction: EventCursorDirection): SQL[] {
+	return direction === 'asc'
+		? [asc(auditLog.timestamp), asc(auditLog.id)]
+		: [desc(auditLog.timestamp), desc(auditLog.id)]
+}
+
+/**
+ * Cut a page from rows read with a limit one above the page size
+ * The extra row only tells whether another page follows.
+ */
+export function toEventCursorPage<T extends { timestamp: string; id: number }>(
+	rows: T[],
+	limit: number,
+	direction: EventCursorDirection
+): EventCursorPage<T> {
+	const items = rows.slice(0, limit)
+	const last = items[items.length - 1]
+
+	return {
+		items,
+		nextCursor: rows.length > limit && last ? encodeEventCursor(last, direction) : null,
+	}
+}
@@ -0,0 +1,142 @@
+/**
+ * @fileoverview Audit Event Full-Text Search
+ *
+ * Free-text search across the action, outcome description, target resource id,
+ * principal id and the string values of details of audit events:
+ * - Web search syntax: quoted phrases, OR and -exclusions
+ * - Matching served by the audit_log_search_idx GIN index
+ * - Ranking by field weight, actions first and details last
+ * - Highlighted snippets of the matching text, HTML-escaped apart from the highlights
+ */
+
+import { and, desc, sql } from 'drizzle-orm'
+
+import { auditLog, auditLogSearchText, auditLogSearchVector } from '@repo/audit-db'
+
+import { eventFilterConditions } from '../report/streaming-export.js'
+
+import type { SQL } from 'drizzle-orm'
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js'
+import type { StreamingExportFilter } from '../report/streaming-export.js'
+
+/**
+ * Full-text search request, always scoped to one organization
+ */
+export interface AuditSearchRequest {
+	organizationId: string
+	/** Free text in web search syntax, e.g. `login -success "patient record"` */
+	query: string
+	filter?: Omit<StreamingExportFilter, 'organizationId'>
+	limit?: number
+	offset?: number
+}
+
+/**
+ * An audit event matching a search
+ */
+export interface AuditSearchHit {
+	event: typeof auditLog.$inferSelect
+	/** Relevance of the event, higher is better */
+	rank: number
+	/** HTML-escaped matching text with the search terms wrapped in <mark></mark> */
+	snippet: string
+}
+
+export interface AuditSearchResult {
+	hits: AuditSearchHit[]
+	total: number
+	limit: number
+	offset: number
+}
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 1000
+const HEADLINE_OPTIONS =
+	'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=3, FragmentDelimiter=" … "'
+
+/**
+ * Parse free text into a tsquery
+ */
+export function textSearchQuery(text: string): SQL {
+	return sql`websearch_to_tsquery('english', ${text})`
+}
+
+/**
+ * Condition matching the events that contain a tsquery
+ */
+export function textSearchCondition(query: SQL): SQL {
+	return sql`${auditLogSearchVector} @@ ${query}`
+}
+
+/**
+ * Relevance of an event to a tsquery, normalized to [0, 1)
+ */
+export function textSearchRank(query: SQL): SQL<number> {
+	return sql<number>`ts_rank_cd(${auditLogSearchVector}, ${query}, 32)`
+}
+
+/**
+ * Snippet of an event with the terms of a tsquery highlighted
+ * The event text is HTML-escaped first, so the <mark> tags are the only markup in it.
+ */
+export function textSearchSnippet(query: SQL): SQL<string> {
+	const escaped = sql`replace(replace(replace(replace(${auditLogSearchText}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;')`
+	return sql<string>`ts_headline('english', ${escaped}, ${query}, ${HEADLINE_OPTIONS})`
+}
+
+/**
+ * Audit Search Service
+ */
+export class AuditSearchService {
+	constructor(private db: PostgresJsDatabase<any>) {}
+
+	/**
+	 * Search the events of an organization, most relevant first
+	 */
+	async search(request: AuditSearchRequest): Promise<AuditSearchResult> {
+		const limit = Math.min(Math.max(request.limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT)
+		const offset = Math.max(request.offset ?? 0, 0)
+
+		// Blank text parses to an empty query, which matches nothing
+		if (!request.query.trim()) {
+			return { hits: [], total: 0, limit, offset }
+		}
+
+		const query = textSearchQuery(request.query)
+		const where = and(
+			eventFilterConditions({ ...request.filter, organizationId: request.organizationId }),
+			textSearchCondition(query)
+		)
+		const rank = textSearchRank(query)
+
+		// Postgres defers the costly ts_headline past the sort and limit,
+		// so snippets are only cut for the returned page
+		const rows = await this.db
+			.select({
+				event: auditLog,
+				rank: rank.as('rank'),
+				snippet: textSearchSnippet(query).as('snippet'),
+			})
+			.from(auditLog)
+			.where(where)
+			.orderBy(desc(sql`rank`), desc(auditLog.timestamp), desc(auditLog.id))
+			.limit(limit)
+			.offset(offset)
+
+		const [counted] = await this.db
+			.select({ count: sql<number>`count(*)` })
+			.from(auditLog)
+			.where(where)
+
+		return {
+			hits: rows.map((row) => ({
+				event: row.event,
+				rank: Number(row.rank),
+				snippet: row.snippet,
+			})),
+			total: Number(counted?.count ?? 0),
+			limit,
+			offset,
+		}
+	}
+}
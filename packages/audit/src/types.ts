@@ -1,3 +1,6 @@
+import type { TraceCarrier } from './observability/trace-context.js'
+import type { PIIRedaction } from './pii-scanner.js'
+
 /**
  * Defines the possible statuses for an audit event.
  * - `attempt`: An action was attempted.
@@ -109,6 +112,20 @@ export interface AuditLogEvent {
 	 */
 	hashAlgorithm?: 'SHA-256'
 
+	/**
+	 * Chain hash of the preceding event in the organization's ledger
+	 * Assigned by the storage layer when the event is persisted
+	 * @example "0000000000000000..."
+	 */
+	previousHash?: string
+
+	/**
+	 * Hash linking this event to its predecessor: SHA-256(previousHash:hash)
+	 * Assigned by the storage layer when the event is persisted
+	 * @example "f9e8d7c6b5a4..."
+	 */
+	chainHash?: string
+
 	/**
 	 * Cryptographic signature for additional security
 	 * Generated using HMAC-SHA256 with secret key or KMS
@@ -138,11 +155,19 @@ export interface AuditLogEvent {
 	eventVersion?: string
 
 	/**
-	 * Correlation ID for tracking related events
+	 * Correlation ID for tracking related events.
+	 * Defaults to the trace ID of the request that logged the event.
 	 * @example "corr-12345-abcde"
 	 */
 	correlationId?: string
 
+	/**
+	 * W3C trace context of the producer, carried through the queue so the worker resumes the trace.
+	 * Not persisted with the event.
+	 * @example { "traceparent": "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01" }
+	 */
+	traceContext?: TraceCarrier
+
 	/**
 	 * Session context information for the audit event
 	 */
@@ -172,6 +197,12 @@ export interface AuditLogEvent {
 	 */
 	queueDepth?: number
 
+	/**
+	 * PII removed from the event by the ingestion PII policy, without the matched values
+	 * @example [{ "field": "outcomeDescription", "type": "email", "action": "redact", "count": 1 }]
+	 */
+	piiRedactions?: PIIRedaction[]
+
 	/**
 	 * Allows for arbitrary additional key-value pairs to provide more context specific to the event.
 	 * Use this for structured data relevant to the particular action being audited.
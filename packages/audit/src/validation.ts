@@ -1,5 +1,7 @@
 import { ComplianceConfig, ComplianceRule } from './config/types.js'
+import { PIIScanner, resolvePIIPolicy } from './pii-scanner.js'
 
+import type { PIIRedaction, PIIScanConfig } from './pii-scanner.js'
 import type {
 	AuditEventStatus,
 	AuditLogEvent,
@@ -68,6 +70,8 @@ export interface ValidationConfig {
 	requiredFields: Array<keyof AuditLogEvent>
 	maxCustomFieldDepth: number
 	allowedEventVersions: string[]
+	/** PII scanning of free-text fields, disabled when absent */
+	pii?: PIIScanConfig
 }
 
 /**
@@ -477,6 +481,30 @@ function sanitizeSessionContext(sessionContext: SessionContext): {
 	}
 }
 
+// Known audit event fields that should not be sanitized as custom fields
+const KNOWN_EVENT_FIELDS = new Set([
+	'timestamp',
+	'ttl',
+	'principalId',
+	'organizationId',
+	'action',
+	'targetResourceType',
+	'targetResourceId',
+	'status',
+	'outcomeDescription',
+	'hash',
+	'hashAlgorithm',
+	'signature',
+	'eventVersion',
+	'correlationId',
+	'sessionContext',
+	'dataClassification',
+	'retentionPolicy',
+	'processingLatency',
+	'queueDepth',
+	'piiRedactions',
+])
+
 /**
  * Sanitizes custom fields recursively
  */
@@ -489,31 +517,8 @@ function sanitizeCustomFields(obj: any): {
 	let modified = false
 	const sanitizedFields = { ...obj }
 
-	// Known audit event fields that should not be sanitized as custom fields
-	const knownFields = new Set([
-		'timestamp',
-		'ttl',
-		'principalId',
-		'organizationId',
-		'action',
-		'targetResourceType',
-		'targetResourceId',
-		'status',
-		'outcomeDescription',
-		'hash',
-		'hashAlgorithm',
-		'signature',
-		'eventVersion',
-		'correlationId',
-		'sessionContext',
-		'dataClassification',
-		'retentionPolicy',
-		'processingLatency',
-		'queueDepth',
-	])
-
 	for (const [key, value] of Object.entries(obj)) {
-		if (!knownFields.has(key)) {
+		if (!KNOWN_EVENT_FIELDS.has(key)) {
 			const sanitized = sanitizeValue(value, key)
 			if (sanitized !== value) {
 				warnings.push(
@@ -644,6 +649,57 @@ function normalizeIPAddress(ip: string): string {
 	return ip
 }
 
+/**
+ * Scans the outcome description and custom fields of an event for PII
+ * The policy of the event's organization decides what happens to each match. Replacements
+ * are recorded in the piiRedactions field of the event, without the matched values; PII
+ * to reject makes the event invalid.
+ */
+export function scanAuditEventForPII(
+	event: AuditLogEvent,
+	config: PIIScanConfig
+): {
+	scannedEvent: AuditLogEvent
+	redactions: PIIRedaction[]
+	errors: AuditValidationError[]
+} {
+	const policy = resolvePIIPolicy(config, event.organizationId)
+	if (!policy.enabled) {
+		return { scannedEvent: event, redactions: [], errors: [] }
+	}
+
+	const scanner = new PIIScanner(policy, config.tokenSecret)
+	const findings: PIIRedaction[] = []
+	const scannedEvent = { ...event }
+	for (const [key, value] of Object.entries(event)) {
+		if (key === 'outcomeDescription' || !KNOWN_EVENT_FIELDS.has(key)) {
+			scannedEvent[key] = scanner.scanValue(value, key, findings)
+		}
+	}
+
+	const redactions = findings.filter((finding) => finding.action !== 'reject')
+	if (redactions.length > 0) {
+		scannedEvent.piiRedactions = [...(event.piiRedactions ?? []), ...redactions]
+	}
+
+	return {
+		scannedEvent,
+		redactions,
+		// The matched value is withheld so the PII does not leak through error reporting
+		errors: findings
+			.filter((finding) => finding.action === 'reject')
+			.map(
+				(finding) =>
+					new AuditValidationError(
+						`Field '${finding.field}' contains ${finding.type} data, which the PII policy rejects`,
+						finding.field,
+						'[withheld]',
+						'PII_DETECTED'
+					)
+			),
+	}
+}
+
 /**
  * Creates a comprehensive validation and sanitization pipeline
  */
@@ -656,19 +712,27 @@ export function validateAndSanitizeAuditEvent(
 	validationErrors: AuditValidationError[]
 	sanitizationWarnings: AuditSanitizationError[]
 	validationWarnings: string[]
+	piiRedactions: PIIRedaction[]
 } {
 	// First sanitize the event
 	const sanitizationResult = sanitizeAuditEvent(event as AuditLogEvent)
 
+	// Then remove PII, before the event is hashed
+	const piiResult = config.pii
+		? scanAuditEventForPII(sanitizationResult.sanitizedEvent, config.pii)
+		: { scannedEvent: sanitizationResult.sanitizedEvent, redactions: [], errors: [] }
+
 	// Then validate the sanitized event
-	const validationResult = validateAuditEvent(sanitizationResult.sanitizedEvent, config)
+	const validationResult = validateAuditEvent(piiResult.scannedEvent, config)
+	const isValid = validationResult.isValid && piiResult.errors.length === 0
 
 	return {
-		isValid: validationResult.isValid,
-		sanitizedEvent: validationResult.isValid ? sanitizationResult.sanitizedEvent : null,
-		validationErrors: validationResult.errors,
+		isValid,
+		sanitizedEvent: isValid ? piiResult.scannedEvent : null,
+		validationErrors: [...validationResult.errors, ...piiResult.errors],
 		sanitizationWarnings: sanitizationResult.warnings,
 		validationWarnings: validationResult.warnings,
+		piiRedactions: piiResult.redactions,
 	}
 }
 
@@ -90,6 +90,19 @@ describe('@repo/mailer', () => {
 			})
 		})
 
+		it('should forward attachments to the transporter', async () => {
+			const mailer = new NodeMailer(mockSmtpOptions)
+			const attachment = {
+				filename: 'report.pdf',
+				content: Buffer.from('%PDF'),
+				contentType: 'application/pdf',
+			}
+			await mailer.send({ ...mockSendOptions, attachments: [attachment] })
+			expect(mockTransporter.sendMail).toHaveBeenCalledWith(
+				expect.objectContaining({ attachments: [attachment] })
+			)
+		})
+
 		it('should close the transporter connection', () => {
 			const mailer = new NodeMailer(mockSmtpOptions)
 			mailer.close()
@@ -232,6 +245,26 @@ describe('@repo/mailer', () => {
 			})
 		})
 
+		it('should send attachments base64 encoded', async () => {
+			const mailer = new SendGridMailer(mockSendGridOptions)
+			await mailer.send({
+				...mockSendOptions,
+				attachments: [{ filename: 'report.csv', content: 'a,b', contentType: 'text/csv' }],
+			})
+			expect(sgMail.send).toHaveBeenCalledWith(
+				expect.objectContaining({
+					attachments: [
+						{
+							filename: 'report.csv',
+							content: Buffer.from('a,b').toString('base64'),
+							type: 'text/csv',
+							disposition: 'attachment',
+						},
+					],
+				})
+			)
+		})
+
 		it('should throw an error if sgMail.send fails', async () => {
 			const mailer = new SendGridMailer(mockSendGridOptions)
 			const sendError = new Error('SendGrid API Error')
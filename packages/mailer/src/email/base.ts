@@ -1,3 +1,16 @@
+/**
+ * @interface MailerAttachment
+ * @description A file attached to an email.
+ * @property {string} filename - The file name shown to the recipient.
+ * @property {Buffer | string} content - The file content.
+ * @property {string} [contentType] - Optional MIME type of the file.
+ */
+export interface MailerAttachment {
+	filename: string
+	content: Buffer | string
+	contentType?: string
+}
+
 /**
  * @interface MailerSendOptions
  * @description Defines the common options for sending an email, regardless of the provider.
@@ -6,6 +19,7 @@
  * @property {string} subject - The subject line of the email.
  * @property {string} html - The HTML content of the email.
  * @property {string} [text] - Optional plain text content of the email.
+ * @property {MailerAttachment[]} [attachments] - Optional files attached to the email.
  */
 export interface MailerSendOptions {
 	from: string
@@ -13,6 +27,7 @@ export interface MailerSendOptions {
 	subject: string
 	html: string
 	text?: string
+	attachments?: MailerAttachment[]
 }
 
 /**
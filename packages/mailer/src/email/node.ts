@@ -52,6 +52,13 @@ export class NodeMailer implements MailerProvider {
 				subject: options.subject,
 				html: options.html,
 				text: options.text,
+				...(options.attachments?.length && {
+					attachments: options.attachments.map((attachment) => ({
+						filename: attachment.filename,
+						content: attachment.content,
+						contentType: attachment.contentType,
+					})),
+				}),
 			})
 		} catch (error) {
 			let details = String(error)
@@ -56,6 +56,13 @@ export class ResendMailer implements MailerProvider {
 				subject: options.subject,
 				html: options.html,
 				...(options.text && { text: options.text }),
+				...(options.attachments?.length && {
+					attachments: options.attachments.map((attachment) => ({
+						filename: attachment.filename,
+						content: attachment.content,
+						contentType: attachment.contentType,
+					})),
+				}),
 			})
 		} catch (error) {
 			let details = String(error)
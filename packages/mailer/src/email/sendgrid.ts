@@ -67,6 +67,16 @@ export class SendGridMailer implements MailerProvider {
 				subject: options.subject,
 				html: options.html,
 				...(options.text && { text: options.text }),
+				...(options.attachments?.length && {
+					attachments: options.attachments.map((attachment) => ({
+						filename: attachment.filename,
+						content: Buffer.isBuffer(attachment.content)
+							? attachment.content.toString('base64')
+							: Buffer.from(attachment.content).toString('base64'),
+						type: attachment.contentType,
+						disposition: 'attachment',
+					})),
+				}),
 			})
 		} catch (error) {
 			// console.error('Error sending email with SendGridMailer:', error);
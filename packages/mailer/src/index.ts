@@ -6,7 +6,7 @@
 export { NodeMailer } from './email/node.js'
 export { ResendMailer } from './email/resend.js'
 export { SendGridMailer } from './email/sendgrid.js'
-export type { MailerProvider, MailerSendOptions } from './email/base.js'
+export type { MailerAttachment, MailerProvider, MailerSendOptions } from './email/base.js'
 
 // Export configuration options types for each provider
 /**